@@ -88,18 +88,38 @@ export const storageConfig = {
       retentionDays: 730,
       maxFiles: 1000000,
       encryption: true
+    },
+    imports: {
+      name: 'imports',
+      path: 'imports',
+      public: false,
+      retentionDays: 30,
+      maxFiles: 100000,
+      encryption: true
+    },
+    exports: {
+      name: 'exports',
+      path: 'exports',
+      public: false,
+      retentionDays: 7,
+      maxFiles: 100000,
+      encryption: true
     }
   },
   limits: {
     maxFileSize: {
       resumes: 10485760, // 10MB
       profileImages: 5242880, // 5MB
-      documents: 15728640 // 15MB
+      documents: 15728640, // 15MB
+      imports: 104857600, // 100MB
+      exports: 524288000 // 500MB
     },
     allowedTypes: {
       resumes: ['.pdf', '.doc', '.docx', '.rtf', '.txt'],
       profileImages: ['.jpg', '.jpeg', '.png', '.gif'],
-      documents: ['.pdf', '.doc', '.docx', '.xls', '.xlsx']
+      documents: ['.pdf', '.doc', '.docx', '.xls', '.xlsx'],
+      imports: ['.csv', '.xlsx', '.zip'],
+      exports: ['.csv', '.xlsx', '.json']
     }
   },
   cdn: {
@@ -0,0 +1,54 @@
+-- Migration: Applications Tables
+-- Version: 1.0.0
+-- Description: Extends the applications table with withdrawal support, per-job lookup indexes and row level security policies
+
+-- Allow candidates to withdraw from the process
+ALTER TABLE public.applications DROP CONSTRAINT valid_status;
+ALTER TABLE public.applications ADD CONSTRAINT valid_status CHECK (
+  status IN ('APPLIED', 'SCREENING', 'INTERVIEWING', 'OFFER_PENDING', 'OFFER_ACCEPTED', 'OFFER_DECLINED', 'REJECTED', 'WITHDRAWN')
+);
+
+-- Lifecycle tracking fields
+ALTER TABLE public.applications
+  ADD COLUMN created_by UUID REFERENCES auth.users(id),
+  ADD COLUMN withdrawn_at TIMESTAMPTZ,
+  ADD COLUMN withdrawal_reason TEXT,
+  ADD CONSTRAINT valid_withdrawal_reason_length CHECK (length(withdrawal_reason) <= 1000),
+  ALTER COLUMN stage_history SET NOT NULL,
+  ALTER COLUMN metadata SET DEFAULT '{}';
+
+-- Create indexes for per-job pipeline queries
+CREATE INDEX idx_applications_job ON public.applications(job_id, status);
+CREATE INDEX idx_applications_candidate ON public.applications(candidate_id);
+CREATE INDEX idx_applications_updated ON public.applications(updated_at DESC);
+
+-- Create RLS policies
+CREATE POLICY applications_select ON public.applications
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE POLICY applications_insert ON public.applications
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+CREATE POLICY applications_update ON public.applications
+  FOR UPDATE USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.applications.stage_history IS 'Append-only list of stage changes with actor and timestamp';
+COMMENT ON COLUMN public.applications.withdrawn_at IS 'Timestamp at which the application was withdrawn';
+COMMENT ON COLUMN public.applications.created_by IS 'User who created the application on behalf of the candidate';
@@ -0,0 +1,151 @@
+-- Migration: Pipeline Templates Tables
+-- Version: 1.0.0
+-- Description: Creates configurable per-job pipeline templates with ordered stages mapped to canonical categories
+
+-- Create canonical stage category enum used for analytics roll-up
+CREATE TYPE pipeline_stage_category AS ENUM (
+  'screening',
+  'interviewing',
+  'offer',
+  'hired',
+  'rejected'
+);
+
+-- Create pipeline templates table
+CREATE TABLE public.pipeline_templates (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  archived_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_template_name_length CHECK (length(name) BETWEEN 1 AND 100),
+  CONSTRAINT valid_template_description_length CHECK (length(description) <= 500)
+);
+
+-- Create pipeline stages table
+CREATE TABLE public.pipeline_stages (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  template_id UUID NOT NULL REFERENCES public.pipeline_templates(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  position INTEGER NOT NULL,
+  category pipeline_stage_category NOT NULL,
+  application_status TEXT,
+
+  -- Constraints
+  CONSTRAINT valid_stage_name_length CHECK (length(name) BETWEEN 1 AND 100),
+  CONSTRAINT valid_stage_position CHECK (position >= 0),
+  CONSTRAINT valid_stage_application_status CHECK (
+    application_status IS NULL OR
+    application_status IN ('APPLIED', 'SCREENING', 'INTERVIEWING', 'OFFER_PENDING', 'OFFER_ACCEPTED', 'OFFER_DECLINED', 'REJECTED')
+  ),
+  CONSTRAINT unique_stage_position UNIQUE (template_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+-- Link jobs and applications to templates and stages
+ALTER TABLE public.jobs
+  ADD COLUMN pipeline_template_id UUID REFERENCES public.pipeline_templates(id);
+
+ALTER TABLE public.applications
+  ADD COLUMN stage_id UUID REFERENCES public.pipeline_stages(id);
+
+-- Create indexes for optimized queries
+CREATE UNIQUE INDEX idx_pipeline_templates_default ON public.pipeline_templates(is_default) WHERE is_default;
+CREATE INDEX idx_pipeline_templates_active ON public.pipeline_templates(archived_at) WHERE archived_at IS NULL;
+CREATE INDEX idx_pipeline_stages_template ON public.pipeline_stages(template_id, position);
+CREATE INDEX idx_jobs_pipeline_template ON public.jobs(pipeline_template_id);
+CREATE INDEX idx_applications_stage ON public.applications(stage_id);
+
+-- Create triggers for timestamp management
+CREATE TRIGGER update_pipeline_templates_timestamp
+  BEFORE UPDATE ON public.pipeline_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_pipeline_stages_timestamp
+  BEFORE UPDATE ON public.pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the default template reproducing the original fixed pipeline
+WITH default_template AS (
+  INSERT INTO public.pipeline_templates (name, description, is_default)
+  VALUES ('Standard', 'Default hiring pipeline', true)
+  RETURNING id
+)
+INSERT INTO public.pipeline_stages (template_id, name, position, category, application_status)
+SELECT default_template.id, stage.name, stage.position, stage.category::pipeline_stage_category, stage.application_status
+FROM default_template, (VALUES
+  ('Applied', 0, 'screening', 'APPLIED'),
+  ('Screening', 1, 'screening', 'SCREENING'),
+  ('Interviewing', 2, 'interviewing', 'INTERVIEWING'),
+  ('Offer Pending', 3, 'offer', 'OFFER_PENDING'),
+  ('Offer Accepted', 4, 'hired', 'OFFER_ACCEPTED'),
+  ('Offer Declined', 5, 'rejected', 'OFFER_DECLINED'),
+  ('Rejected', 6, 'rejected', 'REJECTED')
+) AS stage(name, position, category, application_status);
+
+-- Backfill existing jobs and applications onto the default template
+UPDATE public.jobs
+SET pipeline_template_id = (SELECT id FROM public.pipeline_templates WHERE is_default)
+WHERE pipeline_template_id IS NULL;
+
+UPDATE public.applications a
+SET stage_id = s.id
+FROM public.pipeline_stages s
+JOIN public.pipeline_templates t ON t.id = s.template_id AND t.is_default
+WHERE a.stage_id IS NULL
+AND s.application_status = a.status;
+
+-- Enable Row Level Security
+ALTER TABLE public.pipeline_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY pipeline_templates_select ON public.pipeline_templates
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY pipeline_templates_modify ON public.pipeline_templates
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+CREATE POLICY pipeline_stages_select ON public.pipeline_stages
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY pipeline_stages_modify ON public.pipeline_stages
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_pipeline_templates_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.pipeline_templates
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_pipeline_stages_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.pipeline_templates IS 'Reusable hiring pipelines selectable per job';
+COMMENT ON TABLE public.pipeline_stages IS 'Ordered stages of a pipeline template mapped to canonical categories';
+COMMENT ON COLUMN public.pipeline_stages.category IS 'Canonical category used to roll stages up in analytics';
+COMMENT ON COLUMN public.pipeline_stages.application_status IS 'Optional explicit application status; defaults to the category status when null';
+COMMENT ON COLUMN public.applications.stage_id IS 'Current stage of the application within the job pipeline template';
@@ -0,0 +1,67 @@
+-- Migration: Pipeline Transition Rules Tables
+-- Version: 1.0.0
+-- Description: Creates per-template stage transition rules controlling allowed moves, roles and required data
+
+-- Create pipeline transition rules table
+CREATE TABLE public.pipeline_transition_rules (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  template_id UUID NOT NULL REFERENCES public.pipeline_templates(id) ON DELETE CASCADE,
+  from_stage_id UUID REFERENCES public.pipeline_stages(id) ON DELETE CASCADE,
+  to_stage_id UUID NOT NULL REFERENCES public.pipeline_stages(id) ON DELETE CASCADE,
+  is_allowed BOOLEAN NOT NULL DEFAULT true,
+  allowed_roles TEXT[] NOT NULL DEFAULT ARRAY['ADMIN', 'RECRUITER', 'HIRING_MANAGER'],
+  required_fields TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Constraints
+  CONSTRAINT valid_transition_stages CHECK (from_stage_id IS NULL OR from_stage_id <> to_stage_id),
+  CONSTRAINT valid_transition_roles CHECK (
+    allowed_roles <@ ARRAY['ADMIN', 'RECRUITER', 'HIRING_MANAGER']
+  ),
+  CONSTRAINT valid_transition_required_fields CHECK (
+    required_fields <@ ARRAY['reason', 'feedback', 'interview_feedback']
+  )
+);
+
+-- Create indexes for optimized queries; a null source stage applies to moves from any stage
+CREATE UNIQUE INDEX idx_pipeline_transition_rules_pair ON public.pipeline_transition_rules(
+  template_id,
+  COALESCE(from_stage_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  to_stage_id
+);
+CREATE INDEX idx_pipeline_transition_rules_to_stage ON public.pipeline_transition_rules(to_stage_id);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_pipeline_transition_rules_timestamp
+  BEFORE UPDATE ON public.pipeline_transition_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.pipeline_transition_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY pipeline_transition_rules_select ON public.pipeline_transition_rules
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY pipeline_transition_rules_modify ON public.pipeline_transition_rules
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_pipeline_transition_rules_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.pipeline_transition_rules
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.pipeline_transition_rules IS 'Explicit stage transition rules overriding the category defaults of a pipeline template';
+COMMENT ON COLUMN public.pipeline_transition_rules.from_stage_id IS 'Source stage; null applies the rule to moves from any stage';
+COMMENT ON COLUMN public.pipeline_transition_rules.required_fields IS 'Data required to make the move: reason, feedback or a completed interview with feedback';
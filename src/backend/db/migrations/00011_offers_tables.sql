@@ -0,0 +1,150 @@
+-- Migration: Offers Tables
+-- Version: 1.0.0
+-- Description: Creates offers with compensation terms and an append-only version history of revisions
+
+-- Create offer status enum
+CREATE TYPE offer_status AS ENUM (
+  'DRAFT',
+  'SENT',
+  'ACCEPTED',
+  'DECLINED',
+  'EXPIRED'
+);
+
+-- Create offers table
+CREATE TABLE public.offers (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  status offer_status NOT NULL DEFAULT 'DRAFT',
+  version INTEGER NOT NULL DEFAULT 1,
+
+  -- Compensation and terms of the current version
+  base_salary NUMERIC(12,2) NOT NULL CHECK (base_salary >= 0),
+  bonus NUMERIC(12,2) CHECK (bonus >= 0),
+  equity TEXT,
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  start_date DATE NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+
+  -- Response tracking
+  sent_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ,
+  response_reason TEXT,
+
+  -- Constraints
+  CONSTRAINT valid_offer_version CHECK (version >= 1),
+  CONSTRAINT valid_offer_currency CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT valid_offer_equity_length CHECK (length(equity) <= 500),
+  CONSTRAINT valid_offer_notes_length CHECK (length(notes) <= 5000),
+  CONSTRAINT valid_offer_response_reason_length CHECK (length(response_reason) <= 1000),
+  CONSTRAINT valid_offer_response CHECK (
+    (status IN ('ACCEPTED', 'DECLINED')) = (responded_at IS NOT NULL)
+  )
+);
+
+-- Create offer versions table
+CREATE TABLE public.offer_versions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  offer_id UUID NOT NULL REFERENCES public.offers(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  base_salary NUMERIC(12,2) NOT NULL CHECK (base_salary >= 0),
+  bonus NUMERIC(12,2) CHECK (bonus >= 0),
+  equity TEXT,
+  currency CHAR(3) NOT NULL,
+  start_date DATE NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  change_reason TEXT,
+
+  -- Constraints
+  CONSTRAINT valid_offer_versions_change_reason_length CHECK (length(change_reason) <= 1000)
+);
+
+-- Create indexes for optimized queries; only one open offer is allowed per application
+CREATE UNIQUE INDEX idx_offers_open_application ON public.offers(application_id)
+  WHERE status IN ('DRAFT', 'SENT');
+CREATE INDEX idx_offers_application ON public.offers(application_id, created_at DESC);
+CREATE INDEX idx_offers_candidate ON public.offers(candidate_id);
+CREATE INDEX idx_offers_status_expiry ON public.offers(status, expires_at);
+CREATE UNIQUE INDEX idx_offer_versions_offer_version ON public.offer_versions(offer_id, version);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_offers_timestamp
+  BEFORE UPDATE ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offer_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; candidates only see offers that have been sent to them
+CREATE POLICY offers_select ON public.offers
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+    OR (
+      status <> 'DRAFT'
+      AND EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE candidates.id = candidate_id
+        AND candidates.user_id::text = auth.jwt() ->> 'sub'
+      )
+    )
+  );
+
+CREATE POLICY offers_modify ON public.offers
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE POLICY offer_versions_select ON public.offer_versions
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR EXISTS (
+      SELECT 1 FROM public.offers
+      JOIN public.jobs ON jobs.id = offers.job_id
+      WHERE offers.id = offer_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE POLICY offer_versions_insert ON public.offer_versions
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_offers_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.offers
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.offers IS 'Employment offers extended to candidates for an application, holding the current terms';
+COMMENT ON TABLE public.offer_versions IS 'Append-only snapshots of the terms of each offer revision';
+COMMENT ON COLUMN public.offers.version IS 'Current revision number; matches the latest offer_versions row';
+COMMENT ON COLUMN public.offers.equity IS 'Free-text description of the equity grant, e.g. number of options and vesting';
+COMMENT ON COLUMN public.offers.currency IS 'ISO 4217 currency code for base salary and bonus';
+COMMENT ON COLUMN public.offers.expires_at IS 'Time after which a sent offer can no longer be accepted';
@@ -0,0 +1,209 @@
+-- Migration: Approval Chains Tables
+-- Version: 1.0.0
+-- Description: Creates configurable approval chains and the approval requests that gate job publishing and offer sending
+
+-- Create approval enums
+CREATE TYPE approval_entity_type AS ENUM (
+  'job',
+  'offer'
+);
+
+CREATE TYPE approval_status AS ENUM (
+  'PENDING',
+  'APPROVED',
+  'REJECTED',
+  'CANCELLED'
+);
+
+CREATE TYPE approval_step_status AS ENUM (
+  'PENDING',
+  'APPROVED',
+  'REJECTED',
+  'SKIPPED'
+);
+
+-- Create approval chains table
+CREATE TABLE public.approval_chains (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  name TEXT NOT NULL,
+  entity_type approval_entity_type NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  reminder_interval_hours INTEGER NOT NULL DEFAULT 24,
+
+  -- Constraints
+  CONSTRAINT valid_approval_chain_name_length CHECK (length(name) BETWEEN 1 AND 100),
+  CONSTRAINT valid_approval_chain_reminder_interval CHECK (reminder_interval_hours BETWEEN 1 AND 720)
+);
+
+-- Create approval chain steps table; steps sharing a step order are approved in parallel
+CREATE TABLE public.approval_chain_steps (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  chain_id UUID NOT NULL REFERENCES public.approval_chains(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  approver_role TEXT,
+  approver_id UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_approval_chain_step_order CHECK (step_order >= 0),
+  CONSTRAINT valid_approval_chain_step_approver CHECK (
+    (approver_role IS NULL) <> (approver_id IS NULL)
+  ),
+  CONSTRAINT valid_approval_chain_step_role CHECK (
+    approver_role IS NULL OR approver_role IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  )
+);
+
+-- Create approval requests table
+CREATE TABLE public.approval_requests (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  chain_id UUID NOT NULL REFERENCES public.approval_chains(id),
+  entity_type approval_entity_type NOT NULL,
+  entity_id UUID NOT NULL,
+  entity_version INTEGER,
+  status approval_status NOT NULL DEFAULT 'PENDING',
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  completed_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_approval_request_completion CHECK (
+    (status = 'PENDING') = (completed_at IS NULL)
+  )
+);
+
+-- Create approval request steps table, snapshotted from the chain when the request is made
+CREATE TABLE public.approval_request_steps (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  request_id UUID NOT NULL REFERENCES public.approval_requests(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  approver_role TEXT,
+  approver_id UUID REFERENCES auth.users(id),
+  status approval_step_status NOT NULL DEFAULT 'PENDING',
+  decided_by UUID REFERENCES auth.users(id),
+  decided_at TIMESTAMPTZ,
+  comment TEXT,
+  last_reminded_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_approval_request_step_approver CHECK (
+    (approver_role IS NULL) <> (approver_id IS NULL)
+  ),
+  CONSTRAINT valid_approval_request_step_comment_length CHECK (length(comment) <= 2000)
+);
+
+-- Create indexes for optimized queries; one active chain per entity type and one pending request per entity
+CREATE UNIQUE INDEX idx_approval_chains_active_entity ON public.approval_chains(entity_type)
+  WHERE is_active;
+CREATE INDEX idx_approval_chain_steps_chain ON public.approval_chain_steps(chain_id, step_order);
+CREATE UNIQUE INDEX idx_approval_requests_pending_entity ON public.approval_requests(entity_type, entity_id)
+  WHERE status = 'PENDING';
+CREATE INDEX idx_approval_requests_entity ON public.approval_requests(entity_type, entity_id, created_at DESC);
+CREATE INDEX idx_approval_request_steps_request ON public.approval_request_steps(request_id, step_order);
+CREATE INDEX idx_approval_request_steps_approver ON public.approval_request_steps(approver_id)
+  WHERE status = 'PENDING';
+CREATE INDEX idx_approval_request_steps_role ON public.approval_request_steps(approver_role)
+  WHERE status = 'PENDING';
+
+-- Create triggers for timestamp management
+CREATE TRIGGER update_approval_chains_timestamp
+  BEFORE UPDATE ON public.approval_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_approval_requests_timestamp
+  BEFORE UPDATE ON public.approval_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_approval_request_steps_timestamp
+  BEFORE UPDATE ON public.approval_request_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_request_steps ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY approval_chains_select ON public.approval_chains
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY approval_chains_modify ON public.approval_chains
+  FOR ALL USING (
+    auth.jwt() ->> 'role' = 'ADMIN'
+  );
+
+CREATE POLICY approval_chain_steps_select ON public.approval_chain_steps
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY approval_chain_steps_modify ON public.approval_chain_steps
+  FOR ALL USING (
+    auth.jwt() ->> 'role' = 'ADMIN'
+  );
+
+CREATE POLICY approval_requests_select ON public.approval_requests
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY approval_requests_insert ON public.approval_requests
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+    AND requested_by::text = auth.jwt() ->> 'sub'
+  );
+
+CREATE POLICY approval_request_steps_select ON public.approval_request_steps
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY approval_request_steps_update ON public.approval_request_steps
+  FOR UPDATE USING (
+    approver_id::text = auth.jwt() ->> 'sub'
+    OR approver_role = auth.jwt() ->> 'role'
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_approval_chains_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.approval_chains
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_approval_requests_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.approval_requests
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_approval_request_steps_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.approval_request_steps
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.approval_chains IS 'Approval chain applied to every job publish or offer send; at most one active chain per entity type';
+COMMENT ON TABLE public.approval_chain_steps IS 'Approvers of a chain, by role or user; steps with the same step_order run in parallel';
+COMMENT ON TABLE public.approval_requests IS 'Approval of a single job or offer version, run through a snapshot of its chain';
+COMMENT ON COLUMN public.approval_requests.entity_version IS 'Offer version the approval applies to; revising the offer requires a new approval';
+COMMENT ON COLUMN public.approval_request_steps.last_reminded_at IS 'Last time the approvers of this pending step were reminded';
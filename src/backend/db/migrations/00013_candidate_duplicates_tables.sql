@@ -0,0 +1,84 @@
+-- Migration: Candidate Duplicates Tables
+-- Version: 1.0.0
+-- Description: Adds normalized match keys for duplicate candidate detection and an audit trail of candidate merges
+
+-- Normalized match keys and merge tracking
+ALTER TABLE public.candidates
+  ADD COLUMN normalized_email TEXT,
+  ADD COLUMN normalized_phone TEXT,
+  ADD COLUMN resume_checksum TEXT,
+  ADD COLUMN merged_into_id UUID REFERENCES public.candidates(id),
+  ADD COLUMN merged_at TIMESTAMPTZ,
+  ADD CONSTRAINT valid_candidate_merge CHECK (
+    (merged_into_id IS NULL) = (merged_at IS NULL)
+    AND (merged_into_id IS NULL OR merged_into_id <> id)
+  );
+
+-- Backfill match keys of existing candidates: emails lose sub-address tags and US numbers
+-- without a country code get a leading 1
+UPDATE public.candidates
+SET normalized_email = regexp_replace(lower(trim(email)), '\+[^@]*@', '@'),
+    normalized_phone = CASE
+      WHEN length(regexp_replace(phone, '\D', '', 'g')) = 10 THEN '1' || regexp_replace(phone, '\D', '', 'g')
+      ELSE NULLIF(regexp_replace(phone, '\D', '', 'g'), '')
+    END
+WHERE normalized_email IS NULL;
+
+-- Create candidate merges table
+CREATE TABLE public.candidate_merges (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  primary_candidate_id UUID NOT NULL REFERENCES public.candidates(id),
+  merged_candidate_id UUID NOT NULL REFERENCES public.candidates(id),
+  merged_by UUID NOT NULL REFERENCES auth.users(id),
+  merged_snapshot JSONB NOT NULL,
+  moved_records JSONB NOT NULL DEFAULT '{}',
+
+  -- Constraints
+  CONSTRAINT valid_candidate_merge_pair CHECK (primary_candidate_id <> merged_candidate_id)
+);
+
+-- Create indexes for duplicate lookups; merged candidates never match again
+CREATE INDEX idx_candidates_normalized_email ON public.candidates(normalized_email)
+  WHERE merged_into_id IS NULL;
+CREATE INDEX idx_candidates_normalized_phone ON public.candidates(normalized_phone)
+  WHERE merged_into_id IS NULL;
+CREATE INDEX idx_candidates_resume_checksum ON public.candidates(resume_checksum)
+  WHERE merged_into_id IS NULL;
+CREATE INDEX idx_candidates_full_name_trgm ON public.candidates USING gin (full_name gin_trgm_ops);
+CREATE INDEX idx_candidates_merged_into ON public.candidates(merged_into_id)
+  WHERE merged_into_id IS NOT NULL;
+CREATE INDEX idx_candidate_merges_primary ON public.candidate_merges(primary_candidate_id, created_at DESC);
+CREATE INDEX idx_candidate_merges_merged ON public.candidate_merges(merged_candidate_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_merges ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY candidate_merges_select ON public.candidate_merges
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+CREATE POLICY candidate_merges_insert ON public.candidate_merges
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    AND merged_by::text = auth.jwt() ->> 'sub'
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_candidate_merges_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_merges
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.candidate_merges IS 'Audit trail of duplicate candidates merged into a primary profile';
+COMMENT ON COLUMN public.candidate_merges.merged_snapshot IS 'Merged candidate row as it was before the merge';
+COMMENT ON COLUMN public.candidate_merges.moved_records IS 'Number of applications, interviews, offers and hotlist memberships moved to the primary candidate';
+COMMENT ON COLUMN public.candidates.normalized_email IS 'Lowercased email without sub-address tags, used for duplicate detection';
+COMMENT ON COLUMN public.candidates.normalized_phone IS 'Digits-only phone number, used for duplicate detection';
+COMMENT ON COLUMN public.candidates.resume_checksum IS 'SHA-256 checksum of the uploaded resume file';
+COMMENT ON COLUMN public.candidates.merged_into_id IS 'Primary candidate this profile was merged into; merged profiles are archived';
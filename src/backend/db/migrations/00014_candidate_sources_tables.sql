@@ -0,0 +1,108 @@
+-- Migration: Candidate Sources Tables
+-- Version: 1.0.0
+-- Description: Creates source touchpoints with channel, sub-source and campaign parameters, and first and last touch attribution of candidates and applications
+
+-- Create source channel enum
+CREATE TYPE source_channel AS ENUM (
+  'JOB_BOARD',
+  'REFERRAL',
+  'AGENCY',
+  'SOURCED',
+  'CAREER_SITE'
+);
+
+-- Create source touchpoints table
+CREATE TABLE public.source_touchpoints (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  application_id UUID REFERENCES public.applications(id) ON DELETE SET NULL,
+  channel source_channel NOT NULL,
+  sub_source TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Campaign parameters
+  utm_source TEXT,
+  utm_medium TEXT,
+  utm_campaign TEXT,
+  utm_term TEXT,
+  utm_content TEXT,
+  referrer_url TEXT,
+
+  -- Constraints
+  CONSTRAINT valid_touchpoint_sub_source_length CHECK (length(sub_source) <= 200),
+  CONSTRAINT valid_touchpoint_utm_length CHECK (
+    length(utm_source) <= 200
+    AND length(utm_medium) <= 200
+    AND length(utm_campaign) <= 200
+    AND length(utm_term) <= 200
+    AND length(utm_content) <= 200
+  ),
+  CONSTRAINT valid_touchpoint_referrer_length CHECK (length(referrer_url) <= 2000)
+);
+
+-- Attribution of candidates and applications
+ALTER TABLE public.candidates
+  ADD COLUMN first_touch_source_id UUID REFERENCES public.source_touchpoints(id) ON DELETE SET NULL;
+
+ALTER TABLE public.applications
+  ADD COLUMN first_touch_source_id UUID REFERENCES public.source_touchpoints(id) ON DELETE SET NULL,
+  ADD COLUMN last_touch_source_id UUID REFERENCES public.source_touchpoints(id) ON DELETE SET NULL;
+
+-- Backfill the source recorded in candidate metadata by the career site application form
+INSERT INTO public.source_touchpoints (candidate_id, channel, sub_source, occurred_at)
+SELECT id, 'CAREER_SITE', metadata ->> 'source', created_at
+FROM public.candidates
+WHERE metadata ->> 'source' IS NOT NULL;
+
+UPDATE public.candidates c
+SET first_touch_source_id = t.id
+FROM public.source_touchpoints t
+WHERE t.candidate_id = c.id;
+
+UPDATE public.applications a
+SET first_touch_source_id = c.first_touch_source_id,
+    last_touch_source_id = c.first_touch_source_id
+FROM public.candidates c
+WHERE c.id = a.candidate_id
+AND c.first_touch_source_id IS NOT NULL;
+
+-- Create indexes for attribution and reporting queries
+CREATE INDEX idx_source_touchpoints_candidate ON public.source_touchpoints(candidate_id, occurred_at);
+CREATE INDEX idx_source_touchpoints_application ON public.source_touchpoints(application_id)
+  WHERE application_id IS NOT NULL;
+CREATE INDEX idx_source_touchpoints_channel ON public.source_touchpoints(channel, sub_source);
+CREATE INDEX idx_source_touchpoints_campaign ON public.source_touchpoints(utm_campaign)
+  WHERE utm_campaign IS NOT NULL;
+CREATE INDEX idx_applications_first_touch ON public.applications(first_touch_source_id);
+CREATE INDEX idx_applications_last_touch ON public.applications(last_touch_source_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.source_touchpoints ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY source_touchpoints_select ON public.source_touchpoints
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+CREATE POLICY source_touchpoints_insert ON public.source_touchpoints
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_source_touchpoints_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.source_touchpoints
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.source_touchpoints IS 'Each time a candidate reached us through a channel, with its campaign parameters';
+COMMENT ON COLUMN public.source_touchpoints.application_id IS 'Application the touchpoint led to, if any';
+COMMENT ON COLUMN public.candidates.first_touch_source_id IS 'Earliest touchpoint of the candidate';
+COMMENT ON COLUMN public.applications.first_touch_source_id IS 'Earliest touchpoint of the candidate when the application was created';
+COMMENT ON COLUMN public.applications.last_touch_source_id IS 'Touchpoint that led to the application';
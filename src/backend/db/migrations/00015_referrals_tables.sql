@@ -0,0 +1,101 @@
+-- Migration: Referrals Tables
+-- Version: 1.0.0
+-- Description: Creates employee referral links and referrals tied to the applications they produce, with hire tracking for referral bonuses
+
+-- Create referral origin enum
+CREATE TYPE referral_origin AS ENUM (
+  'SUBMISSION',
+  'LINK'
+);
+
+-- Create referral links table
+CREATE TABLE public.referral_links (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+
+  -- Constraints
+  CONSTRAINT valid_referral_link_token CHECK (token ~ '^[A-Za-z0-9_-]{16,64}$')
+);
+
+-- Create referrals table
+CREATE TABLE public.referrals (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL UNIQUE REFERENCES public.applications(id) ON DELETE CASCADE,
+  origin referral_origin NOT NULL,
+  referral_link_id UUID REFERENCES public.referral_links(id) ON DELETE SET NULL,
+  relationship TEXT,
+  note TEXT,
+
+  -- Hire tracking
+  hired_at TIMESTAMPTZ,
+  referrer_notified_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_referral_relationship_length CHECK (length(relationship) <= 200),
+  CONSTRAINT valid_referral_note_length CHECK (length(note) <= 2000),
+  CONSTRAINT valid_referral_link_origin CHECK ((origin = 'LINK') = (referral_link_id IS NOT NULL))
+);
+
+-- Create indexes for optimized queries
+CREATE UNIQUE INDEX idx_referral_links_referrer_job ON public.referral_links(referrer_id, job_id);
+CREATE INDEX idx_referrals_referrer ON public.referrals(referrer_id, created_at DESC);
+CREATE INDEX idx_referrals_candidate ON public.referrals(candidate_id);
+CREATE INDEX idx_referrals_hired ON public.referrals(hired_at) WHERE hired_at IS NOT NULL;
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_referrals_timestamp
+  BEFORE UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.referral_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; employees see their own links and referrals
+CREATE POLICY referral_links_select ON public.referral_links
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR referrer_id::text = auth.jwt() ->> 'sub'
+  );
+
+CREATE POLICY referral_links_insert ON public.referral_links
+  FOR INSERT WITH CHECK (
+    referrer_id::text = auth.jwt() ->> 'sub'
+  );
+
+CREATE POLICY referrals_select ON public.referrals
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR referrer_id::text = auth.jwt() ->> 'sub'
+  );
+
+CREATE POLICY referrals_modify ON public.referrals
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_referrals_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.referrals
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.referral_links IS 'Per-job referral links shared by employees; applications through a link are credited to its owner';
+COMMENT ON TABLE public.referrals IS 'Candidates referred by employees and the applications they led to';
+COMMENT ON COLUMN public.referrals.origin IS 'Whether the employee submitted the candidate or the candidate applied through a referral link';
+COMMENT ON COLUMN public.referrals.hired_at IS 'When the referred candidate accepted an offer; starts the referral bonus waiting period';
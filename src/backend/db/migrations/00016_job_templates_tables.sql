@@ -0,0 +1,116 @@
+-- Migration: Job Templates Tables
+-- Version: 1.0.0
+-- Description: Creates a library of reusable job templates and an append-only revision history of job descriptions
+
+-- Create job templates table
+CREATE TABLE public.job_templates (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  name VARCHAR(100) NOT NULL,
+  source_job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  archived_at TIMESTAMPTZ,
+
+  -- Job content copied into jobs created from the template
+  title VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL,
+  requirements JSONB NOT NULL,
+  type job_type NOT NULL,
+  skills TEXT[] NOT NULL DEFAULT '{}',
+  salary_min NUMERIC(10,2) NOT NULL CHECK (salary_min >= 0),
+  salary_max NUMERIC(10,2) NOT NULL,
+  location VARCHAR(255) NOT NULL,
+  remote_allowed BOOLEAN NOT NULL DEFAULT false,
+  pipeline_template_id UUID REFERENCES public.pipeline_templates(id) ON DELETE SET NULL,
+
+  -- Constraints
+  CONSTRAINT valid_job_template_name_length CHECK (length(name) BETWEEN 1 AND 100),
+  CONSTRAINT valid_job_template_salary_range CHECK (salary_max >= salary_min)
+);
+
+-- Create job revisions table
+CREATE TABLE public.job_revisions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL,
+  requirements JSONB NOT NULL,
+  job_status job_status NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Constraints
+  CONSTRAINT valid_job_revision CHECK (revision >= 1),
+  CONSTRAINT valid_job_revision_changed_fields CHECK (
+    changed_fields <@ ARRAY['title', 'description', 'requirements']
+  )
+);
+
+-- Create indexes for optimized queries
+CREATE UNIQUE INDEX idx_job_templates_name ON public.job_templates(lower(name)) WHERE archived_at IS NULL;
+CREATE INDEX idx_job_templates_active ON public.job_templates(archived_at) WHERE archived_at IS NULL;
+CREATE UNIQUE INDEX idx_job_revisions_job_revision ON public.job_revisions(job_id, revision);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_job_templates_timestamp
+  BEFORE UPDATE ON public.job_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.job_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; the template library is shared by everyone who writes jobs
+CREATE POLICY job_templates_select ON public.job_templates
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY job_templates_modify ON public.job_templates
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR created_by::text = auth.jwt() ->> 'sub'
+  );
+
+CREATE POLICY job_revisions_select ON public.job_revisions
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE POLICY job_revisions_insert ON public.job_revisions
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_job_templates_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.job_templates
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.job_templates IS 'Reusable job content saved from existing jobs, used to start new jobs';
+COMMENT ON TABLE public.job_revisions IS 'Append-only snapshots of the title, description and requirements of each job revision';
+COMMENT ON COLUMN public.job_templates.source_job_id IS 'Job the template was saved from, if it still exists';
+COMMENT ON COLUMN public.job_revisions.revision IS 'Revision number; revision 1 is the content before the first recorded change';
+COMMENT ON COLUMN public.job_revisions.job_status IS 'Status of the job when the revision was made, e.g. to tell edits after publishing';
+COMMENT ON COLUMN public.job_revisions.changed_fields IS 'Fields that differ from the previous revision';
@@ -0,0 +1,59 @@
+-- Migration: Job Lifecycle Tables
+-- Version: 1.0.0
+-- Description: Adds scheduled publishing, expiry warnings and headcount to jobs, and records the status transitions made by the job lifecycle worker
+
+-- Scheduling and headcount fields; closed_at of a published job is its expiry date
+ALTER TABLE public.jobs
+  ADD COLUMN headcount INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN publish_at TIMESTAMPTZ,
+  ADD COLUMN expiry_warning_sent_at TIMESTAMPTZ,
+  ADD CONSTRAINT valid_job_headcount CHECK (headcount BETWEEN 1 AND 1000),
+  ADD CONSTRAINT valid_job_publish_at CHECK (
+    publish_at IS NULL OR closed_at IS NULL OR closed_at > publish_at
+  );
+
+-- Create job status transitions table
+CREATE TABLE public.job_status_transitions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  from_status job_status NOT NULL,
+  to_status job_status NOT NULL,
+  trigger VARCHAR(50) NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}',
+
+  -- Constraints
+  CONSTRAINT valid_job_transition_trigger CHECK (
+    trigger IN ('SCHEDULED_PUBLISH', 'EXPIRY', 'HEADCOUNT_FILLED')
+  ),
+  CONSTRAINT valid_job_transition_status CHECK (from_status <> to_status)
+);
+
+-- Create indexes for the lifecycle sweeps
+CREATE INDEX idx_jobs_publish_at ON public.jobs(publish_at) WHERE status = 'DRAFT' AND publish_at IS NOT NULL;
+CREATE INDEX idx_jobs_closed_at ON public.jobs(closed_at) WHERE status = 'PUBLISHED' AND closed_at IS NOT NULL;
+CREATE INDEX idx_job_status_transitions_job_id ON public.job_status_transitions(job_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.job_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; transitions are written by the worker with the service role only
+CREATE POLICY job_status_transitions_select ON public.job_status_transitions
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND jobs.creator_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.job_status_transitions IS 'Status changes made by the job lifecycle worker: scheduled publishing, expiry and headcount fill';
+COMMENT ON COLUMN public.jobs.headcount IS 'Number of openings; the job is filled once this many applications accept an offer';
+COMMENT ON COLUMN public.jobs.publish_at IS 'When a draft job is published automatically';
+COMMENT ON COLUMN public.jobs.expiry_warning_sent_at IS 'When the creator was warned about the upcoming closed_at; cleared when closed_at changes';
+COMMENT ON COLUMN public.job_status_transitions.trigger IS 'Lifecycle rule that made the transition';
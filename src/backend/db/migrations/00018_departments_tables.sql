@@ -0,0 +1,167 @@
+-- Migration: Departments Tables
+-- Version: 1.0.0
+-- Description: Creates the department hierarchy with cost centers and department membership, links jobs to departments and adds per-job hiring teams
+
+-- Create departments table
+CREATE TABLE public.departments (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  name VARCHAR(100) NOT NULL,
+  parent_id UUID REFERENCES public.departments(id) ON DELETE RESTRICT,
+  cost_center VARCHAR(50),
+  archived_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_department_name_length CHECK (length(name) BETWEEN 1 AND 100),
+  CONSTRAINT valid_department_parent CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+-- Create department members table
+CREATE TABLE public.department_members (
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (department_id, user_id)
+);
+
+-- Link jobs to departments
+ALTER TABLE public.jobs
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+-- Create job hiring team members table
+CREATE TABLE public.job_hiring_team_members (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Core fields
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_role VARCHAR(20) NOT NULL,
+
+  -- Constraints
+  CONSTRAINT valid_hiring_team_role CHECK (
+    team_role IN ('RECRUITER', 'HIRING_MANAGER', 'COORDINATOR', 'INTERVIEWER')
+  )
+);
+
+-- Create indexes for optimized queries
+CREATE UNIQUE INDEX idx_departments_name ON public.departments(COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'), lower(name)) WHERE archived_at IS NULL;
+CREATE INDEX idx_departments_parent_id ON public.departments(parent_id);
+CREATE INDEX idx_department_members_user_id ON public.department_members(user_id);
+CREATE INDEX idx_jobs_department_id ON public.jobs(department_id);
+CREATE UNIQUE INDEX idx_job_hiring_team_members_unique ON public.job_hiring_team_members(job_id, user_id, team_role);
+CREATE UNIQUE INDEX idx_job_hiring_team_members_owner ON public.job_hiring_team_members(job_id, team_role) WHERE team_role IN ('RECRUITER', 'HIRING_MANAGER');
+CREATE INDEX idx_job_hiring_team_members_user_id ON public.job_hiring_team_members(user_id);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_departments_timestamp
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Departments a user belongs to, with every department below them
+CREATE OR REPLACE FUNCTION public.user_department_scope(p_user_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE scope AS (
+    SELECT department_id AS id FROM public.department_members WHERE user_id = p_user_id
+    UNION
+    SELECT d.id FROM public.departments d JOIN scope s ON d.parent_id = s.id
+  )
+  SELECT id FROM scope;
+$$;
+
+-- Given departments with every department below them
+CREATE OR REPLACE FUNCTION public.department_subtree(p_department_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.departments WHERE id = ANY(p_department_ids)
+    UNION
+    SELECT d.id FROM public.departments d JOIN subtree s ON d.parent_id = s.id
+  )
+  SELECT id FROM subtree;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.department_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_hiring_team_members ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; the department structure is visible to all staff and managed by admins
+CREATE POLICY departments_select ON public.departments
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY departments_modify ON public.departments
+  FOR ALL USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY department_members_select ON public.department_members
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY department_members_modify ON public.department_members
+  FOR ALL USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY job_hiring_team_members_select ON public.job_hiring_team_members
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR user_id::text = auth.jwt() ->> 'sub'
+    OR EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = job_id
+      AND (
+        jobs.creator_id::text = auth.jwt() ->> 'sub'
+        OR jobs.department_id IN (SELECT public.user_department_scope((auth.jwt() ->> 'sub')::uuid))
+      )
+    )
+  );
+
+CREATE POLICY job_hiring_team_members_modify ON public.job_hiring_team_members
+  FOR ALL USING (auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER'));
+
+-- Hiring managers and team members see the jobs of their hiring teams and departments
+CREATE POLICY jobs_select_hiring_team ON public.jobs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.job_hiring_team_members t
+      WHERE t.job_id = id
+      AND t.user_id::text = auth.jwt() ->> 'sub'
+    )
+    OR (
+      auth.jwt() ->> 'role' = 'HIRING_MANAGER'
+      AND department_id IN (SELECT public.user_department_scope((auth.jwt() ->> 'sub')::uuid))
+    )
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_departments_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_job_hiring_team_members_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.job_hiring_team_members
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.departments IS 'Department hierarchy used for job ownership, visibility and reporting';
+COMMENT ON TABLE public.department_members IS 'Staff belonging to a department; they see the jobs of the department and the departments below it';
+COMMENT ON TABLE public.job_hiring_team_members IS 'Hiring team of a job: one recruiter and one hiring manager, any number of coordinators and a default interviewer pool';
+COMMENT ON COLUMN public.departments.cost_center IS 'Finance cost center code that hiring costs of the department are booked to';
+COMMENT ON COLUMN public.job_hiring_team_members.team_role IS 'Role of the user on this job, independent of their platform role';
+COMMENT ON FUNCTION public.user_department_scope(UUID) IS 'Departments a user belongs to, including every department below them';
+COMMENT ON FUNCTION public.department_subtree(UUID[]) IS 'The given departments including every department below them';
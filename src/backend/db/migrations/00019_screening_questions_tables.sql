@@ -0,0 +1,123 @@
+-- Migration: Screening Questions Tables
+-- Version: 1.0.0
+-- Description: Adds per-job screening questions with knockout rules, the answers given with each application, and delayed rejection emails for failed knockouts
+
+-- Knockout handling per job; a NULL delay sends no rejection email
+ALTER TABLE public.jobs
+  ADD COLUMN knockout_auto_reject BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN knockout_email_delay_hours INTEGER,
+  ADD CONSTRAINT valid_knockout_email_delay CHECK (
+    knockout_email_delay_hours IS NULL OR knockout_email_delay_hours BETWEEN 0 AND 720
+  );
+
+-- Create screening questions table
+CREATE TABLE public.job_screening_questions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  prompt VARCHAR(500) NOT NULL,
+  options TEXT[] NOT NULL DEFAULT '{}',
+  required BOOLEAN NOT NULL DEFAULT FALSE,
+  is_knockout BOOLEAN NOT NULL DEFAULT FALSE,
+  expected_answer JSONB,
+  archived_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_screening_question_type CHECK (
+    type IN ('TEXT', 'YES_NO', 'MULTIPLE_CHOICE', 'NUMERIC', 'FILE')
+  ),
+  CONSTRAINT valid_screening_question_prompt CHECK (length(trim(prompt)) > 0),
+  CONSTRAINT valid_screening_question_knockout CHECK (
+    (is_knockout AND expected_answer IS NOT NULL AND type IN ('YES_NO', 'MULTIPLE_CHOICE', 'NUMERIC'))
+    OR (NOT is_knockout AND expected_answer IS NULL)
+  )
+);
+
+-- Create application answers table
+CREATE TABLE public.application_screening_answers (
+  -- Base fields
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.job_screening_questions(id) ON DELETE CASCADE,
+  value JSONB NOT NULL,
+  knockout_passed BOOLEAN,
+
+  PRIMARY KEY (application_id, question_id)
+);
+
+-- Create rejection emails table
+CREATE TABLE public.application_rejection_emails (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  send_at TIMESTAMPTZ NOT NULL,
+  sent_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_rejection_email_outcome CHECK (sent_at IS NULL OR cancelled_at IS NULL)
+);
+
+-- Create indexes
+CREATE INDEX idx_job_screening_questions_job_id ON public.job_screening_questions(job_id, position) WHERE archived_at IS NULL;
+CREATE INDEX idx_application_screening_answers_question_id ON public.application_screening_answers(question_id);
+CREATE INDEX idx_application_screening_answers_failed ON public.application_screening_answers(application_id) WHERE knockout_passed = FALSE;
+CREATE UNIQUE INDEX idx_application_rejection_emails_application_id ON public.application_rejection_emails(application_id);
+CREATE INDEX idx_application_rejection_emails_due ON public.application_rejection_emails(send_at) WHERE sent_at IS NULL AND cancelled_at IS NULL;
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_job_screening_questions_timestamp
+  BEFORE UPDATE ON public.job_screening_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.job_screening_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.application_screening_answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.application_rejection_emails ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; knockout rules stay with staff, the careers site reads questions through the service role
+CREATE POLICY job_screening_questions_select ON public.job_screening_questions
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY job_screening_questions_modify ON public.job_screening_questions
+  FOR ALL USING (auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER'));
+
+CREATE POLICY application_screening_answers_select ON public.application_screening_answers
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY application_rejection_emails_select ON public.application_rejection_emails
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_job_screening_questions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.job_screening_questions
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.job_screening_questions IS 'Questions applicants answer when applying to a job; removed questions are archived so earlier answers keep their question';
+COMMENT ON TABLE public.application_screening_answers IS 'Answers given with an application, one per question';
+COMMENT ON TABLE public.application_rejection_emails IS 'Rejection emails for applications rejected by a knockout question, sent once their delay has passed';
+COMMENT ON COLUMN public.jobs.knockout_auto_reject IS 'Whether an application failing a knockout question is moved to the rejected stage automatically';
+COMMENT ON COLUMN public.jobs.knockout_email_delay_hours IS 'Hours after an automatic knockout rejection that the applicant is emailed; NULL sends no email';
+COMMENT ON COLUMN public.job_screening_questions.expected_answer IS 'Knockout rule: a boolean for yes/no, the accepted options for multiple choice, or {min, max} for numeric questions';
+COMMENT ON COLUMN public.application_screening_answers.knockout_passed IS 'Outcome of the knockout rule for the answer; NULL for questions that are not knockouts';
+COMMENT ON COLUMN public.application_rejection_emails.cancelled_at IS 'Set instead of sent_at when the application left the rejected status before the email was due';
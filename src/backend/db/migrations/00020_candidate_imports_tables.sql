@@ -0,0 +1,94 @@
+-- Migration: Candidate Imports Tables
+-- Version: 1.0.0
+-- Description: Adds spreadsheet imports of candidates with their column mapping, the imported rows and the outcome of each row
+
+-- Create candidate imports table
+CREATE TABLE public.candidate_imports (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  file_name VARCHAR(255) NOT NULL,
+  format VARCHAR(50) NOT NULL,
+  headers TEXT[] NOT NULL,
+  row_count INTEGER NOT NULL,
+  resume_archive_key TEXT,
+  resume_files TEXT[] NOT NULL DEFAULT '{}',
+  mapping JSONB,
+  duplicate_strategy VARCHAR(50),
+  list_delimiter VARCHAR(5) NOT NULL DEFAULT ';',
+  status VARCHAR(50) NOT NULL DEFAULT 'UPLOADED',
+  previewed_at TIMESTAMPTZ,
+  queued_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_candidate_import_format CHECK (format IN ('CSV', 'XLSX')),
+  CONSTRAINT valid_candidate_import_status CHECK (
+    status IN ('UPLOADED', 'QUEUED', 'PROCESSING', 'COMPLETED')
+  ),
+  CONSTRAINT valid_candidate_import_duplicate_strategy CHECK (
+    duplicate_strategy IS NULL OR duplicate_strategy IN ('SKIP', 'UPDATE', 'CREATE')
+  ),
+  CONSTRAINT valid_candidate_import_row_count CHECK (row_count >= 0),
+  CONSTRAINT valid_candidate_import_queue CHECK (status = 'UPLOADED' OR mapping IS NOT NULL)
+);
+
+-- Create candidate import rows table
+CREATE TABLE public.candidate_import_rows (
+  -- Core fields
+  import_id UUID NOT NULL REFERENCES public.candidate_imports(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'PENDING',
+  candidate_id UUID REFERENCES public.candidates(id) ON DELETE SET NULL,
+  errors JSONB NOT NULL DEFAULT '[]',
+  processed_at TIMESTAMPTZ,
+
+  PRIMARY KEY (import_id, row_number),
+
+  -- Constraints
+  CONSTRAINT valid_candidate_import_row_status CHECK (
+    status IN ('PENDING', 'CREATED', 'UPDATED', 'SKIPPED', 'FAILED')
+  )
+);
+
+-- Create indexes
+CREATE INDEX idx_candidate_imports_status ON public.candidate_imports(status, queued_at) WHERE status IN ('QUEUED', 'PROCESSING');
+CREATE INDEX idx_candidate_imports_created_by ON public.candidate_imports(created_by, created_at DESC);
+CREATE INDEX idx_candidate_import_rows_pending ON public.candidate_import_rows(import_id, row_number) WHERE status = 'PENDING';
+CREATE INDEX idx_candidate_import_rows_candidate_id ON public.candidate_import_rows(candidate_id) WHERE candidate_id IS NOT NULL;
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_candidate_imports_timestamp
+  BEFORE UPDATE ON public.candidate_imports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.candidate_import_rows ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; imported spreadsheets hold personal data of people not yet in the pipeline
+CREATE POLICY candidate_imports_select ON public.candidate_imports
+  FOR SELECT USING (auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER'));
+
+CREATE POLICY candidate_import_rows_select ON public.candidate_import_rows
+  FOR SELECT USING (auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER'));
+
+-- Add audit logging
+CREATE TRIGGER audit_candidate_imports_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_imports
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.candidate_imports IS 'Spreadsheet imports of candidates, previewed as a dry run before they are committed in batches';
+COMMENT ON TABLE public.candidate_import_rows IS 'Rows of an imported spreadsheet keyed by column header, with the candidate each row created, updated or matched';
+COMMENT ON COLUMN public.candidate_imports.mapping IS 'Candidate field each mapped column is read into, keyed by field; set by the dry run the import was committed from';
+COMMENT ON COLUMN public.candidate_imports.resume_files IS 'Files in the uploaded resume archive that rows can reference by name';
+COMMENT ON COLUMN public.candidate_imports.duplicate_strategy IS 'What happens to rows matching an existing candidate: SKIP them, UPDATE the candidate, or CREATE a new profile anyway';
+COMMENT ON COLUMN public.candidate_import_rows.row_number IS 'Spreadsheet line of the row, counting the header as line 1';
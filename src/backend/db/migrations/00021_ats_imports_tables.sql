@@ -0,0 +1,80 @@
+-- Migration: ATS Imports Tables
+-- Version: 1.0.0
+-- Description: Adds imports of jobs, candidates and applications exported from other applicant tracking systems, with a reconciliation record of every imported record
+
+-- Original identifiers of imported jobs, keyed by source system
+ALTER TABLE public.jobs
+  ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}';
+
+-- Create ATS import runs table
+CREATE TABLE public.ats_import_runs (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  source VARCHAR(50) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  totals JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_ats_import_source CHECK (source IN ('GREENHOUSE', 'LEVER', 'WORKABLE', 'JSON_RESUME'))
+);
+
+-- Create ATS import records table
+CREATE TABLE public.ats_import_records (
+  -- Core fields
+  run_id UUID NOT NULL REFERENCES public.ats_import_runs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  entity_type VARCHAR(50) NOT NULL,
+  external_id VARCHAR(255) NOT NULL,
+  entity_id UUID,
+  outcome VARCHAR(50) NOT NULL,
+  message TEXT,
+
+  PRIMARY KEY (run_id, position),
+
+  -- Constraints
+  CONSTRAINT valid_ats_import_record_entity_type CHECK (entity_type IN ('JOB', 'CANDIDATE', 'APPLICATION')),
+  CONSTRAINT valid_ats_import_record_outcome CHECK (
+    outcome IN ('CREATED', 'UPDATED', 'UNCHANGED', 'SKIPPED', 'FAILED')
+  )
+);
+
+-- Create indexes; imported records are found again by their original identifiers
+CREATE INDEX idx_ats_import_runs_created_by ON public.ats_import_runs(created_by, created_at DESC);
+CREATE INDEX idx_ats_import_records_entity ON public.ats_import_records(entity_type, entity_id) WHERE entity_id IS NOT NULL;
+CREATE INDEX idx_jobs_external_ids ON public.jobs USING GIN ((metadata -> 'external_ids'));
+CREATE INDEX idx_candidates_external_ids ON public.candidates USING GIN ((metadata -> 'external_ids'));
+CREATE INDEX idx_applications_external_ids ON public.applications USING GIN ((metadata -> 'external_ids'));
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_ats_import_runs_timestamp
+  BEFORE UPDATE ON public.ats_import_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.ats_import_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ats_import_records ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY ats_import_runs_select ON public.ats_import_runs
+  FOR SELECT USING (auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER'));
+
+CREATE POLICY ats_import_records_select ON public.ats_import_records
+  FOR SELECT USING (auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER'));
+
+-- Add audit logging
+CREATE TRIGGER audit_ats_import_runs_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.ats_import_runs
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.ats_import_runs IS 'Imports of exports from other applicant tracking systems; importing the same export again updates the records of the earlier run';
+COMMENT ON TABLE public.ats_import_records IS 'Reconciliation of an import run: what happened to each job, candidate and application of the export';
+COMMENT ON COLUMN public.ats_import_runs.totals IS 'Number of records per entity type and outcome';
+COMMENT ON COLUMN public.ats_import_records.external_id IS 'Identifier of the record in the system it was exported from';
+COMMENT ON COLUMN public.jobs.metadata IS 'Additional job data; external_ids holds the identifier of an imported job in each system it came from';
@@ -0,0 +1,65 @@
+-- Migration: Candidate Exports Tables
+-- Version: 1.0.0
+-- Description: Adds exports of candidate data with the filters and columns they were requested with and the file written for background exports
+
+-- Create candidate exports table
+CREATE TABLE public.candidate_exports (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  format VARCHAR(50) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+  columns TEXT[] NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'QUEUED',
+  row_count INTEGER NOT NULL,
+  file_key TEXT,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_candidate_export_format CHECK (format IN ('CSV', 'XLSX', 'JSON_RESUME')),
+  CONSTRAINT valid_candidate_export_status CHECK (
+    status IN ('QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED')
+  ),
+  CONSTRAINT valid_candidate_export_row_count CHECK (row_count >= 0),
+  CONSTRAINT valid_candidate_export_completion CHECK (
+    (status IN ('COMPLETED', 'FAILED')) = (completed_at IS NOT NULL)
+  )
+);
+
+-- Create indexes
+CREATE INDEX idx_candidate_exports_status ON public.candidate_exports(status, created_at) WHERE status IN ('QUEUED', 'PROCESSING');
+CREATE INDEX idx_candidate_exports_created_by ON public.candidate_exports(created_by, created_at DESC);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_candidate_exports_timestamp
+  BEFORE UPDATE ON public.candidate_exports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_exports ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; users see their own exports and admins see all of them
+CREATE POLICY candidate_exports_select ON public.candidate_exports
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' = 'ADMIN' OR
+    (auth.jwt() ->> 'role' = 'RECRUITER' AND created_by = auth.uid())
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_candidate_exports_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_exports
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.candidate_exports IS 'Exports of candidate data; exports too large to stream are written to storage by the export worker';
+COMMENT ON COLUMN public.candidate_exports.filters IS 'Candidate search filters the export was requested with';
+COMMENT ON COLUMN public.candidate_exports.columns IS 'Columns of CSV and XLSX exports, in order';
+COMMENT ON COLUMN public.candidate_exports.row_count IS 'Candidates matching the filters when the export was requested, or exported once it completed';
+COMMENT ON COLUMN public.candidate_exports.file_key IS 'Key of the exported file in the exports bucket; streamed exports have none';
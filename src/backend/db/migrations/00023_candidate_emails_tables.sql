@@ -0,0 +1,43 @@
+-- Migration: Candidate Emails Tables
+-- Version: 1.0.0
+-- Description: Records emails sent to candidates so they show up in the candidate activity timeline
+
+-- Create candidate emails table
+CREATE TABLE public.candidate_emails (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  application_id UUID REFERENCES public.applications(id) ON DELETE SET NULL,
+  category VARCHAR(50) NOT NULL,
+  subject TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  sent_by UUID REFERENCES auth.users(id),
+  correlation_id TEXT,
+
+  -- Constraints
+  CONSTRAINT valid_candidate_email_category CHECK (
+    category IN ('INTERVIEW', 'OFFER', 'REJECTION', 'STATUS_UPDATE', 'OTHER')
+  ),
+  CONSTRAINT valid_candidate_email_subject_length CHECK (length(subject) <= 500)
+);
+
+-- Create indexes
+CREATE INDEX idx_candidate_emails_candidate ON public.candidate_emails(candidate_id, created_at DESC);
+CREATE INDEX idx_candidate_emails_application ON public.candidate_emails(application_id) WHERE application_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_emails ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY candidate_emails_select ON public.candidate_emails
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE public.candidate_emails IS 'Emails sent to candidates; only the subject is kept, never the body';
+COMMENT ON COLUMN public.candidate_emails.category IS 'What the email was about';
+COMMENT ON COLUMN public.candidate_emails.sent_by IS 'User whose action sent the email; null for emails sent by workers';
@@ -0,0 +1,106 @@
+-- Migration: Candidate Notes Tables
+-- Version: 1.0.0
+-- Description: Adds rich text notes on candidates and applications with mentions, pinning, visibility and edit history
+
+-- Create candidate notes table
+CREATE TABLE public.candidate_notes (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  application_id UUID REFERENCES public.applications(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  body_text TEXT NOT NULL,
+  visibility VARCHAR(50) NOT NULL DEFAULT 'EVERYONE',
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+  pinned_at TIMESTAMPTZ,
+  pinned_by UUID REFERENCES auth.users(id),
+  edited_at TIMESTAMPTZ,
+  author_id UUID NOT NULL REFERENCES auth.users(id),
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', body_text)) STORED,
+
+  -- Constraints
+  CONSTRAINT valid_candidate_note_visibility CHECK (visibility IN ('PRIVATE', 'HIRING_TEAM', 'EVERYONE')),
+  CONSTRAINT valid_candidate_note_body_length CHECK (length(body) <= 50000),
+  CONSTRAINT valid_candidate_note_version CHECK (version >= 1),
+  CONSTRAINT valid_candidate_note_pin CHECK ((pinned_at IS NULL) = (pinned_by IS NULL))
+);
+
+-- Create candidate note revisions table
+CREATE TABLE public.candidate_note_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  note_id UUID NOT NULL REFERENCES public.candidate_notes(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  visibility VARCHAR(50) NOT NULL,
+  edited_by UUID NOT NULL REFERENCES auth.users(id),
+
+  CONSTRAINT unique_candidate_note_revision UNIQUE (note_id, version)
+);
+
+-- Create indexes
+CREATE INDEX idx_candidate_notes_candidate ON public.candidate_notes(candidate_id, pinned_at DESC NULLS LAST, created_at DESC);
+CREATE INDEX idx_candidate_notes_application ON public.candidate_notes(application_id) WHERE application_id IS NOT NULL;
+CREATE INDEX idx_candidate_notes_author ON public.candidate_notes(author_id);
+CREATE INDEX idx_candidate_notes_search ON public.candidate_notes USING GIN (search_vector);
+CREATE INDEX idx_candidate_notes_mentions ON public.candidate_notes USING GIN (mentions);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_candidate_notes_timestamp
+  BEFORE UPDATE ON public.candidate_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.candidate_note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; private notes are only seen by their author and hiring team
+-- notes by admins, recruiters and the hiring teams of the candidate's jobs
+CREATE POLICY candidate_notes_select ON public.candidate_notes
+  FOR SELECT USING (
+    author_id = auth.uid()
+    OR (visibility = 'EVERYONE' AND auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER'))
+    OR (visibility = 'HIRING_TEAM' AND (
+      auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+      OR EXISTS (
+        SELECT 1
+        FROM public.applications a
+        JOIN public.job_hiring_team_members team ON team.job_id = a.job_id
+        WHERE a.candidate_id = candidate_notes.candidate_id
+        AND (candidate_notes.application_id IS NULL OR a.id = candidate_notes.application_id)
+        AND team.user_id = auth.uid()
+      )
+    ))
+  );
+
+CREATE POLICY candidate_notes_insert ON public.candidate_notes
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid() AND auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY candidate_notes_update ON public.candidate_notes
+  FOR UPDATE USING (author_id = auth.uid());
+
+CREATE POLICY candidate_note_revisions_select ON public.candidate_note_revisions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.candidate_notes n WHERE n.id = note_id)
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_candidate_notes_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_notes
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.candidate_notes IS 'Notes on candidates, optionally about one of their applications';
+COMMENT ON COLUMN public.candidate_notes.body IS 'Sanitized rich text (HTML) of the note';
+COMMENT ON COLUMN public.candidate_notes.body_text IS 'Plain text of the note, used for search';
+COMMENT ON COLUMN public.candidate_notes.mentions IS 'Users mentioned in the note';
+COMMENT ON COLUMN public.candidate_notes.version IS 'Number of the latest revision';
+COMMENT ON TABLE public.candidate_note_revisions IS 'Every version of every note, the first one included';
@@ -0,0 +1,86 @@
+-- Migration: Candidate Tags Tables
+-- Version: 1.0.0
+-- Description: Adds free-form and curated tags with colors and categories, and their assignment to candidates
+
+-- Create tags table
+CREATE TABLE public.tags (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+  category VARCHAR(50),
+  is_curated BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_tag_name CHECK (length(trim(name)) > 0),
+  CONSTRAINT valid_tag_color CHECK (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+-- Create candidate tags table
+CREATE TABLE public.candidate_tags (
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES auth.users(id),
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (candidate_id, tag_id)
+);
+
+-- Create indexes; tag names are unique regardless of case
+CREATE UNIQUE INDEX idx_tags_name ON public.tags(lower(name));
+CREATE INDEX idx_tags_category ON public.tags(category) WHERE category IS NOT NULL;
+CREATE INDEX idx_candidate_tags_tag ON public.candidate_tags(tag_id);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_tags_timestamp
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.candidate_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; recruiters tag candidates and add free-form tags, admins curate
+CREATE POLICY tags_select ON public.tags
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY tags_insert ON public.tags
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' = 'ADMIN'
+    OR (auth.jwt() ->> 'role' = 'RECRUITER' AND NOT is_curated)
+  );
+
+CREATE POLICY tags_manage ON public.tags
+  FOR UPDATE USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY tags_delete ON public.tags
+  FOR DELETE USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY candidate_tags_select ON public.candidate_tags
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY candidate_tags_manage ON public.candidate_tags
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Add audit logging
+CREATE TRIGGER audit_tags_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.tags
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tags IS 'Labels recruiters put on candidates';
+COMMENT ON COLUMN public.tags.category IS 'Group the tag is listed under, e.g. Seniority or Source';
+COMMENT ON COLUMN public.tags.is_curated IS 'Whether the tag belongs to the set maintained by admins; other tags were added free-form';
+COMMENT ON TABLE public.candidate_tags IS 'Tags on candidates';
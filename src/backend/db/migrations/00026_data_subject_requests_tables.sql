@@ -0,0 +1,72 @@
+-- Migration: Data Subject Requests Tables
+-- Version: 1.0.0
+-- Description: Adds GDPR and CCPA data subject requests with their response deadlines and tracks candidates anonymized on erasure
+
+-- Erased candidates keep their row so hiring metrics stay intact
+ALTER TABLE public.candidates
+  ADD COLUMN anonymized_at TIMESTAMPTZ;
+
+-- Create data subject requests table
+CREATE TABLE public.data_subject_requests (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  type VARCHAR(50) NOT NULL,
+  regulation VARCHAR(50) NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'OPEN',
+  candidate_id UUID REFERENCES public.candidates(id) ON DELETE SET NULL,
+  subject_email TEXT,
+  received_at TIMESTAMPTZ NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+  rejection_reason TEXT,
+  evidence JSONB,
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES auth.users(id),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_data_subject_request_type CHECK (type IN ('ACCESS', 'ERASURE')),
+  CONSTRAINT valid_data_subject_request_regulation CHECK (regulation IN ('GDPR', 'CCPA')),
+  CONSTRAINT valid_data_subject_request_status CHECK (status IN ('OPEN', 'COMPLETED', 'REJECTED')),
+  CONSTRAINT valid_data_subject_request_due CHECK (due_at >= received_at),
+  CONSTRAINT valid_data_subject_request_notes_length CHECK (length(notes) <= 2000),
+  CONSTRAINT valid_data_subject_request_rejection CHECK ((status = 'REJECTED') = (rejection_reason IS NOT NULL)),
+  CONSTRAINT valid_data_subject_request_completion CHECK ((status = 'OPEN') = (completed_at IS NULL))
+);
+
+-- Create indexes
+CREATE INDEX idx_data_subject_requests_open ON public.data_subject_requests(due_at) WHERE status = 'OPEN';
+CREATE INDEX idx_data_subject_requests_candidate ON public.data_subject_requests(candidate_id);
+CREATE INDEX idx_data_subject_requests_received ON public.data_subject_requests(received_at DESC);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_data_subject_requests_timestamp
+  BEFORE UPDATE ON public.data_subject_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.data_subject_requests ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; only admins handle data subject requests
+CREATE POLICY data_subject_requests_select ON public.data_subject_requests
+  FOR SELECT USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY data_subject_requests_manage ON public.data_subject_requests
+  FOR ALL USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+-- Add audit logging
+CREATE TRIGGER audit_data_subject_requests_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.data_subject_requests
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.data_subject_requests IS 'Requests from people to access or erase the data held on them under GDPR or CCPA';
+COMMENT ON COLUMN public.data_subject_requests.subject_email IS 'Email the request came from; cleared once the candidate is erased';
+COMMENT ON COLUMN public.data_subject_requests.due_at IS 'Statutory response deadline: one month under GDPR, 45 days under CCPA';
+COMMENT ON COLUMN public.data_subject_requests.evidence IS 'What was exported or erased and when, without personal data';
+COMMENT ON COLUMN public.candidates.anonymized_at IS 'When the candidate''s personal data was erased; the row is kept for hiring metrics';
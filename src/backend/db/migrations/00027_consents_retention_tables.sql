@@ -0,0 +1,125 @@
+-- Migration: Consents and Retention Tables
+-- Version: 1.0.0
+-- Description: Adds candidate consent records, legal holds that suspend erasure, and the reports of retention runs
+
+-- Create candidate consents table
+CREATE TABLE public.candidate_consents (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  purpose VARCHAR(50) NOT NULL,
+  lawful_basis VARCHAR(50) NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  consented_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ,
+  withdrawn_at TIMESTAMPTZ,
+  renewal_requested_at TIMESTAMPTZ,
+  renewal_token TEXT UNIQUE,
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_consent_purpose CHECK (purpose IN ('RECRUITMENT', 'TALENT_POOL')),
+  CONSTRAINT valid_consent_lawful_basis CHECK (lawful_basis IN ('CONSENT', 'LEGITIMATE_INTEREST', 'CONTRACT', 'LEGAL_OBLIGATION')),
+  CONSTRAINT valid_consent_source CHECK (source IN ('CAREERS_SITE', 'RECRUITER', 'EMAIL', 'IMPORT', 'RENEWAL_LINK')),
+  CONSTRAINT valid_consent_expiry CHECK (expires_at > consented_at),
+  CONSTRAINT valid_consent_renewal_token CHECK (renewal_token ~ '^[A-Za-z0-9_-]{16,64}$'),
+  CONSTRAINT valid_consent_notes_length CHECK (length(notes) <= 2000)
+);
+
+-- Create legal holds table
+CREATE TABLE public.candidate_legal_holds (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  placed_by UUID NOT NULL REFERENCES auth.users(id),
+  released_at TIMESTAMPTZ,
+  released_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_legal_hold_reason CHECK (length(trim(reason)) > 0 AND length(reason) <= 2000),
+  CONSTRAINT valid_legal_hold_release CHECK ((released_at IS NULL) = (released_by IS NULL))
+);
+
+-- Create retention runs table
+CREATE TABLE public.retention_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  dry_run BOOLEAN NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL,
+  report JSONB NOT NULL,
+  triggered_by UUID REFERENCES auth.users(id)
+);
+
+-- Create indexes; a candidate has one consent in force per purpose
+CREATE UNIQUE INDEX idx_candidate_consents_active ON public.candidate_consents(candidate_id, purpose)
+  WHERE withdrawn_at IS NULL;
+CREATE INDEX idx_candidate_consents_expiry ON public.candidate_consents(expires_at)
+  WHERE withdrawn_at IS NULL AND expires_at IS NOT NULL;
+CREATE INDEX idx_candidate_legal_holds_candidate ON public.candidate_legal_holds(candidate_id)
+  WHERE released_at IS NULL;
+CREATE INDEX idx_retention_runs_started ON public.retention_runs(started_at DESC);
+
+-- Create triggers for timestamp management
+CREATE TRIGGER update_candidate_consents_timestamp
+  BEFORE UPDATE ON public.candidate_consents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_candidate_legal_holds_timestamp
+  BEFORE UPDATE ON public.candidate_legal_holds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_consents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.candidate_legal_holds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retention_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; recruiters record consents, admins place holds and run retention
+CREATE POLICY candidate_consents_select ON public.candidate_consents
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+  );
+
+CREATE POLICY candidate_consents_manage ON public.candidate_consents
+  FOR ALL USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+CREATE POLICY candidate_legal_holds_select ON public.candidate_legal_holds
+  FOR SELECT USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY candidate_legal_holds_manage ON public.candidate_legal_holds
+  FOR ALL USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+CREATE POLICY retention_runs_select ON public.retention_runs
+  FOR SELECT USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+-- Add audit logging
+CREATE TRIGGER audit_candidate_consents_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_consents
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_candidate_legal_holds_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_legal_holds
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.candidate_consents IS 'Lawful basis on which a candidate''s data is held, per purpose';
+COMMENT ON COLUMN public.candidate_consents.expires_at IS 'When the basis lapses; candidates with no basis in force are anonymized by the retention worker';
+COMMENT ON COLUMN public.candidate_consents.renewal_requested_at IS 'When the candidate was emailed to renew; cleared once they do';
+COMMENT ON COLUMN public.candidate_consents.renewal_token IS 'Token of the public renewal link emailed to the candidate';
+COMMENT ON TABLE public.candidate_legal_holds IS 'Holds that keep a candidate and their merged duplicates from being erased while in force';
+COMMENT ON TABLE public.retention_runs IS 'Reports of retention runs, including dry runs that changed nothing';
+COMMENT ON COLUMN public.retention_runs.triggered_by IS 'Admin who started the run; NULL for scheduled runs';
@@ -0,0 +1,159 @@
+-- Migration: Candidate Portal Tables
+-- Version: 1.0.0
+-- Description: Links candidate accounts to their candidate profile, adds resume versions, candidate stage labels,
+-- interview confirmations and take-home submissions, and row level security limiting candidates to their own data
+
+-- Link candidate accounts to their profile; one account per candidate
+ALTER TABLE public.candidates
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_candidates_user ON public.candidates(user_id)
+  WHERE user_id IS NOT NULL;
+
+-- Stage label shown to candidates instead of the internal stage name
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN candidate_label VARCHAR(100),
+  ADD CONSTRAINT valid_stage_candidate_label_length CHECK (length(trim(candidate_label)) BETWEEN 1 AND 100);
+
+-- Candidate responses to interview invitations
+ALTER TABLE public.interviews
+  ADD COLUMN IF NOT EXISTS candidate_confirmed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN candidate_confirmed_at TIMESTAMPTZ,
+  ADD COLUMN reschedule_requested_at TIMESTAMPTZ,
+  ADD COLUMN reschedule_reason TEXT,
+  ADD COLUMN reschedule_preferred_times TIMESTAMPTZ[],
+  ADD CONSTRAINT valid_reschedule_reason_length CHECK (length(reschedule_reason) <= 1000);
+
+-- Create resume versions table
+CREATE TABLE public.candidate_resume_versions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  resume_url TEXT NOT NULL,
+  resume_checksum TEXT,
+  uploaded_by UUID REFERENCES auth.users(id),
+
+  -- Constraints
+  CONSTRAINT valid_resume_version CHECK (version > 0),
+  CONSTRAINT valid_resume_file_name_length CHECK (length(file_name) BETWEEN 1 AND 255),
+  CONSTRAINT unique_resume_version UNIQUE (candidate_id, version)
+);
+
+-- Create take-home submissions table
+CREATE TABLE public.take_home_submissions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  interview_id UUID NOT NULL UNIQUE REFERENCES public.interviews(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  file_url TEXT,
+  link_url TEXT,
+  notes TEXT,
+
+  -- Constraints
+  CONSTRAINT valid_submission_content CHECK (file_url IS NOT NULL OR link_url IS NOT NULL),
+  CONSTRAINT valid_submission_notes_length CHECK (length(notes) <= 2000)
+);
+
+-- Create indexes
+CREATE INDEX idx_candidate_resume_versions_candidate ON public.candidate_resume_versions(candidate_id, version DESC);
+CREATE INDEX idx_take_home_submissions_candidate ON public.take_home_submissions(candidate_id);
+CREATE INDEX idx_interviews_reschedule_requested ON public.interviews(reschedule_requested_at)
+  WHERE reschedule_requested_at IS NOT NULL;
+
+-- Candidate profile of the signed-in candidate account; accounts linked to a merged
+-- duplicate resolve to the primary profile that took over its data
+CREATE OR REPLACE FUNCTION public.portal_candidate_id()
+RETURNS UUID AS $$
+  SELECT COALESCE(c.merged_into_id, c.id)
+  FROM public.candidates c
+  WHERE c.user_id::text = auth.jwt() ->> 'sub'
+  AND auth.jwt() ->> 'role' = 'CANDIDATE'
+  AND c.anonymized_at IS NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Enable Row Level Security
+ALTER TABLE public.candidate_resume_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.take_home_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Candidates read their profile through their account, not through the profile id.
+-- Only staff update candidate rows; candidates change their profile through the portal
+-- endpoint, which only writes the fields they may edit.
+DROP POLICY candidates_select ON public.candidates;
+DROP POLICY candidates_update ON public.candidates;
+
+CREATE POLICY candidates_select ON public.candidates
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR id = public.portal_candidate_id()
+  );
+
+CREATE POLICY candidates_update ON public.candidates
+  FOR UPDATE USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  )
+  WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+  );
+
+-- Create RLS policies; candidates read their own applications, interviews and answers
+CREATE POLICY applications_select_own ON public.applications
+  FOR SELECT USING (candidate_id = public.portal_candidate_id());
+
+CREATE POLICY interviews_select_own ON public.interviews
+  FOR SELECT USING (candidate_id = public.portal_candidate_id());
+
+CREATE POLICY application_screening_answers_select_own ON public.application_screening_answers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.applications
+      WHERE applications.id = application_id
+      AND applications.candidate_id = public.portal_candidate_id()
+    )
+  );
+
+CREATE POLICY candidate_resume_versions_select ON public.candidate_resume_versions
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+    OR candidate_id = public.portal_candidate_id()
+  );
+
+CREATE POLICY candidate_resume_versions_insert ON public.candidate_resume_versions
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    OR candidate_id = public.portal_candidate_id()
+  );
+
+CREATE POLICY take_home_submissions_select ON public.take_home_submissions
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER', 'HIRING_MANAGER')
+    OR candidate_id = public.portal_candidate_id()
+  );
+
+CREATE POLICY take_home_submissions_insert ON public.take_home_submissions
+  FOR INSERT WITH CHECK (candidate_id = public.portal_candidate_id());
+
+-- Add audit logging
+CREATE TRIGGER audit_candidate_resume_versions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.candidate_resume_versions
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_take_home_submissions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.take_home_submissions
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.candidates.user_id IS 'Candidate account that owns the profile in the candidate portal';
+COMMENT ON COLUMN public.pipeline_stages.candidate_label IS 'Label candidates see for the stage; a default per category when null';
+COMMENT ON COLUMN public.interviews.reschedule_requested_at IS 'When the candidate asked to reschedule; cleared once the interview is moved';
+COMMENT ON TABLE public.candidate_resume_versions IS 'Resumes uploaded for a candidate; the latest version is the current resume';
+COMMENT ON TABLE public.take_home_submissions IS 'Take-home assignments handed in by candidates from the portal';
+COMMENT ON FUNCTION public.portal_candidate_id() IS 'Candidate profile owned by the signed-in candidate account, used by row level security';
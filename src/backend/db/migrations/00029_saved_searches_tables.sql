@@ -0,0 +1,152 @@
+-- Migration: Saved Searches Tables
+-- Version: 1.0.0
+-- Description: Adds named, shareable candidate and job searches, subscriptions to their new results, and in-app notifications
+
+-- Create saved searches table
+CREATE TABLE public.saved_searches (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  name VARCHAR(100) NOT NULL,
+  entity_type VARCHAR(20) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Constraints
+  CONSTRAINT valid_saved_search_name CHECK (length(trim(name)) > 0),
+  CONSTRAINT valid_saved_search_entity_type CHECK (entity_type IN ('CANDIDATE', 'JOB'))
+);
+
+-- Create saved search subscriptions table
+CREATE TABLE public.saved_search_subscriptions (
+  -- Base fields
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Core fields
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL,
+  channel VARCHAR(20) NOT NULL,
+  evaluated_until TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_digest_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_subscription_frequency CHECK (frequency IN ('HOURLY', 'DAILY', 'WEEKLY')),
+  CONSTRAINT valid_subscription_channel CHECK (channel IN ('IN_APP', 'EMAIL'))
+);
+
+-- Create saved search results table
+CREATE TABLE public.saved_search_results (
+  subscription_id UUID NOT NULL REFERENCES public.saved_search_subscriptions(id) ON DELETE CASCADE,
+  entity_id UUID NOT NULL,
+  notified_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (subscription_id, entity_id)
+);
+
+-- Create notifications table
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  recipient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  body TEXT,
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}',
+  read_at TIMESTAMPTZ
+);
+
+-- Create indexes; a user subscribes to a search once
+CREATE INDEX idx_saved_searches_owner ON public.saved_searches(owner_id);
+CREATE INDEX idx_saved_searches_shared ON public.saved_searches(entity_type) WHERE is_shared;
+CREATE UNIQUE INDEX idx_saved_search_subscriptions_user ON public.saved_search_subscriptions(saved_search_id, user_id);
+CREATE INDEX idx_saved_search_subscriptions_due ON public.saved_search_subscriptions(next_run_at);
+CREATE INDEX idx_notifications_recipient ON public.notifications(recipient_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(recipient_id) WHERE read_at IS NULL;
+
+-- Searches only read rows changed since their last run
+CREATE INDEX IF NOT EXISTS idx_candidates_updated_at ON public.candidates(updated_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_updated_at ON public.jobs(updated_at);
+
+-- Create triggers for timestamp management
+CREATE TRIGGER update_saved_searches_timestamp
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_saved_search_subscriptions_timestamp
+  BEFORE UPDATE ON public.saved_search_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; searches are seen by their owner or by everyone once shared,
+-- and only the owner or an admin changes them
+CREATE POLICY saved_searches_select ON public.saved_searches
+  FOR SELECT USING (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    AND (is_shared OR owner_id::text = auth.jwt() ->> 'sub')
+  );
+
+CREATE POLICY saved_searches_insert ON public.saved_searches
+  FOR INSERT WITH CHECK (
+    auth.jwt() ->> 'role' IN ('ADMIN', 'RECRUITER')
+    AND owner_id::text = auth.jwt() ->> 'sub'
+  );
+
+CREATE POLICY saved_searches_manage ON public.saved_searches
+  FOR UPDATE USING (
+    owner_id::text = auth.jwt() ->> 'sub' OR auth.jwt() ->> 'role' = 'ADMIN'
+  );
+
+CREATE POLICY saved_searches_delete ON public.saved_searches
+  FOR DELETE USING (
+    owner_id::text = auth.jwt() ->> 'sub' OR auth.jwt() ->> 'role' = 'ADMIN'
+  );
+
+CREATE POLICY saved_search_subscriptions_own ON public.saved_search_subscriptions
+  FOR ALL USING (user_id::text = auth.jwt() ->> 'sub');
+
+CREATE POLICY saved_search_results_own ON public.saved_search_results
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_search_subscriptions s
+      WHERE s.id = subscription_id AND s.user_id::text = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE POLICY notifications_select ON public.notifications
+  FOR SELECT USING (recipient_id::text = auth.jwt() ->> 'sub');
+
+CREATE POLICY notifications_update ON public.notifications
+  FOR UPDATE USING (recipient_id::text = auth.jwt() ->> 'sub');
+
+-- Add audit logging
+CREATE TRIGGER audit_saved_searches_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.saved_searches
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+CREATE TRIGGER audit_saved_search_subscriptions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.saved_search_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION audit.log_changes();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.saved_searches IS 'Named candidate and job searches, private to their owner unless shared';
+COMMENT ON COLUMN public.saved_searches.filters IS 'Filters of the candidate or job search, as the search endpoints take them';
+COMMENT ON TABLE public.saved_search_subscriptions IS 'Users following the new results of a saved search';
+COMMENT ON COLUMN public.saved_search_subscriptions.evaluated_until IS 'Rows changed up to this time have been checked against the search';
+COMMENT ON TABLE public.saved_search_results IS 'Results a subscriber has been sent, so they are only sent once';
+COMMENT ON TABLE public.notifications IS 'In-app notifications shown to users';
\ No newline at end of file
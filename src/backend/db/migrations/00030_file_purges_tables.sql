@@ -0,0 +1,40 @@
+-- Migration: File Purges Tables
+-- Version: 1.0.0
+-- Description: Queues the stored files of erased candidates so they are purged after the erasure commits and retried when a purge fails
+
+-- Create file purges table
+CREATE TABLE public.file_purges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  bucket VARCHAR(50) NOT NULL,
+  storage_key TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_attempted_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT valid_file_purge_bucket CHECK (bucket IN ('resumes', 'documents')),
+  CONSTRAINT unique_file_purge UNIQUE (bucket, storage_key)
+);
+
+-- Create indexes
+CREATE INDEX idx_file_purges_created ON public.file_purges(created_at);
+
+-- Create trigger for timestamp management
+CREATE TRIGGER update_file_purges_timestamp
+  BEFORE UPDATE ON public.file_purges
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.file_purges ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies; only admins see files still waiting to be purged
+CREATE POLICY file_purges_select ON public.file_purges
+  FOR SELECT USING (auth.jwt() ->> 'role' = 'ADMIN');
+
+-- Add comments for documentation
+COMMENT ON TABLE public.file_purges IS 'Stored files of erased candidates still to be purged; rows are removed once the file is gone';
+COMMENT ON COLUMN public.file_purges.storage_key IS 'Key of the file in its bucket; the URLs referring to it were erased with the records';
+COMMENT ON COLUMN public.file_purges.last_error IS 'Why the last purge attempt failed; the retention worker retries it';
@@ -25,14 +25,16 @@ const METRIC_QUERIES = {
   time_to_hire: `
     WITH hire_times AS (
       SELECT 
-        j.department,
+        COALESCE(d.name, 'Unassigned') as department,
         j.job_type,
         j.location,
         EXTRACT(EPOCH FROM (h.hired_at - a.applied_at))/86400 as days_to_hire
       FROM applications a
       JOIN jobs j ON a.job_id = j.id
+      LEFT JOIN departments d ON d.id = j.department_id
       JOIN hires h ON a.id = h.application_id
       WHERE a.applied_at BETWEEN $1 AND $2
+        AND (cardinality($5::uuid[]) = 0 OR j.department_id IN (SELECT department_subtree($5::uuid[])))
     )
     SELECT 
       $3::text as metric_name,
@@ -51,15 +53,17 @@ const METRIC_QUERIES = {
   conversion_rate: `
     WITH conversion_stats AS (
       SELECT 
-        j.department,
+        COALESCE(d.name, 'Unassigned') as department,
         j.job_type,
         j.location,
         COUNT(h.id)::float / COUNT(a.id)::float as conversion
       FROM applications a
       JOIN jobs j ON a.job_id = j.id
+      LEFT JOIN departments d ON d.id = j.department_id
       LEFT JOIN hires h ON a.id = h.application_id
       WHERE a.applied_at BETWEEN $1 AND $2
-      GROUP BY j.department, j.job_type, j.location
+        AND (cardinality($5::uuid[]) = 0 OR j.department_id IN (SELECT department_subtree($5::uuid[])))
+      GROUP BY d.name, j.job_type, j.location
     )
     SELECT 
       $3::text as metric_name,
@@ -117,7 +121,8 @@ async function calculateMetrics(filters: AnalyticsFilters): Promise<MetricsData[
           filters.start_date,
           filters.end_date,
           metricName,
-          dimension
+          dimension,
+          filters.departments
         ]);
         
         return result.rows.map(row => ({
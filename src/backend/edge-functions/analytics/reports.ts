@@ -14,8 +14,10 @@ import {
   AnalyticsFilters,
   ReportData
 } from '../../types/analytics';
+import { AttributionModel, SOURCE_EFFECTIVENESS_METRICS } from '../../types/sources';
 import { databaseConfig } from '../../config/database';
 import { ErrorCode, ApiResponse, ErrorResponse } from '../../types/common';
+import { getSourceEffectiveness } from '../../services/sources/attribution';
 
 // Performance monitoring decorator
 function withMetrics(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
@@ -102,21 +104,28 @@ export class ReportGenerator {
     // Validate filters
     const validatedFilters = analyticsFiltersSchema.parse(filters);
 
+    // Filtering on a department includes the departments below it
+    const { data: departmentIds, error: departmentError } = await this.supabase
+      .rpc('department_subtree', { p_department_ids: validatedFilters.departments });
+
+    if (departmentError) throw departmentError;
+
     const { data, error } = await this.supabase
       .from('applications')
       .select(`
         status,
         count(*),
         jobs (
-          department,
-          location
+          department_id,
+          location,
+          departments ( name )
         )
       `)
       .gte('created_at', validatedFilters.start_date)
       .lte('created_at', validatedFilters.end_date)
-      .in('jobs.department', validatedFilters.departments)
+      .in('jobs.department_id', departmentIds)
       .in('jobs.location', validatedFilters.locations)
-      .groupBy('status, jobs.department, jobs.location');
+      .groupBy('status, jobs.department_id, jobs.location');
 
     if (error) throw error;
 
@@ -126,7 +135,7 @@ export class ReportGenerator {
       dimension: MetricDimension.STAGE,
       timestamp: new Date(),
       stage: row.status,
-      department: row.jobs.department,
+      department: row.jobs.departments?.name ?? 'Unassigned',
       location: row.jobs.location
     }));
   }
@@ -155,6 +164,39 @@ export class ReportGenerator {
       department: row.department
     }));
   }
+
+  @withMetrics
+  @withCache(600)
+  @withErrorHandling
+  async generateSourceEffectivenessReport(
+    filters: AnalyticsFilters,
+    metricNames: string[]
+  ): Promise<MetricsData[]> {
+    const validatedFilters = analyticsFiltersSchema.parse(filters);
+    const model = validatedFilters.attribution_model ?? AttributionModel.LAST_TOUCH;
+
+    const pool = await this.dbPool;
+    const client = await pool.connect();
+    try {
+      const sources = await getSourceEffectiveness(client, validatedFilters, model);
+
+      // Report every source metric unless the configuration asks for specific ones
+      const requested = SOURCE_EFFECTIVENESS_METRICS.filter(name => metricNames.includes(name));
+      const names = requested.length ? requested : SOURCE_EFFECTIVENESS_METRICS;
+
+      return sources.flatMap(source => names.map(name => ({
+        metric_name: name,
+        value: source[name],
+        dimension: MetricDimension.SOURCE,
+        timestamp: new Date(),
+        channel: source.channel,
+        sub_source: source.sub_source,
+        attribution_model: model
+      }))) as MetricsData[];
+    } finally {
+      client.release();
+    }
+  }
 }
 
 @withErrorHandling
@@ -173,6 +215,9 @@ export async function generateReport(
     case ReportType.TIME_TO_HIRE:
       metrics = await generator.generateTimeToHireReport(filters);
       break;
+    case ReportType.SOURCE_EFFECTIVENESS:
+      metrics = await generator.generateSourceEffectivenessReport(filters, validatedConfig.metrics);
+      break;
     default:
       throw new Error(`Unsupported report type: ${validatedConfig.type}`);
   }
@@ -0,0 +1,253 @@
+import { Application, CLOSED_APPLICATION_STATUSES, applicationCreateSchema } from '../../types/applications';
+import { JobStatus } from '../../types/jobs';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { resolveStageStatus } from '../../types/pipelines';
+import { ReferralOrigin } from '../../types/referrals';
+import { appendStageHistory, createStageHistoryEntry } from '../../services/pipeline/stage-history';
+import { getJobPipeline, resolveTargetStage } from '../../services/pipeline/templates';
+import { assertTransitionAllowed } from '../../services/pipeline/transitions';
+import { attributeApplication } from '../../services/sources/attribution';
+import { resolveReferralLink } from '../../services/referrals/links';
+import { buildReferralSource, recordReferral } from '../../services/referrals/referrals';
+import { evaluateScreeningAnswers, saveScreeningAnswers } from '../../services/screening/answers';
+import { rejectFailedKnockout } from '../../services/screening/knockouts';
+import { getJobScreening } from '../../services/screening/questions';
+
+// Roles allowed to add candidates to a job pipeline
+const ALLOWED_ROLES = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Edge function handler for creating an application of a candidate to a job
+ */
+export async function createApplication(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!ALLOWED_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(applicationCreateSchema, await req.json());
+
+    logger.info('Processing application create request', {
+      correlationId,
+      jobId: payload.job_id,
+      candidateId: payload.candidate_id,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Applications can only be opened against published jobs
+      const { rows: [job] } = await client.query(
+        'SELECT id, status FROM jobs WHERE id = $1',
+        [payload.job_id]
+      );
+      if (!job) {
+        throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+      }
+      if (job.status !== JobStatus.PUBLISHED) {
+        throw new AppError('Job is not accepting applications', ErrorCode.BAD_REQUEST, {
+          status: job.status
+        });
+      }
+
+      const { rows: [candidate] } = await client.query(
+        'SELECT id FROM candidates WHERE id = $1',
+        [payload.candidate_id]
+      );
+      if (!candidate) {
+        throw new AppError('Candidate not found', ErrorCode.NOT_FOUND);
+      }
+
+      // Prevent duplicate open applications for the same job
+      const { rows: [existing] } = await client.query(
+        `SELECT id FROM applications
+         WHERE job_id = $1 AND candidate_id = $2 AND status <> ALL($3::text[])
+         LIMIT 1`,
+        [payload.job_id, payload.candidate_id, CLOSED_APPLICATION_STATUSES]
+      );
+      if (existing) {
+        throw new AppError('Candidate already has an open application for this job', ErrorCode.CONFLICT, {
+          applicationId: existing.id
+        });
+      }
+
+      // Recruiters may add a candidate before every required question is answered
+      const screening = await getJobScreening(client, payload.job_id as UUID);
+      const answers = evaluateScreeningAnswers(screening.questions, payload.screening_answers ?? [], {
+        requireAll: false
+      });
+
+      // Applications through an employee's referral link are credited to that employee
+      const referralLink = payload.referral_code
+        ? await resolveReferralLink(client, payload.referral_code, payload.job_id as UUID)
+        : null;
+
+      // Place the application in the requested stage of the job's pipeline template
+      const pipeline = await getJobPipeline(client, payload.job_id);
+      const stage = resolveTargetStage(pipeline.stages, payload);
+      const status = resolveStageStatus(stage);
+
+      // Placing an application past the first stage follows the same rules as moving it there
+      await assertTransitionAllowed(client, {
+        templateId: pipeline.id,
+        from: null,
+        to: stage,
+        application: payload,
+        context: { role: user.role }
+      });
+
+      const stageHistory = appendStageHistory([], createStageHistoryEntry(
+        null,
+        status,
+        user.sub,
+        undefined,
+        { from: null, to: stage.id }
+      ));
+
+      const { rows: [created] } = await client.query<Application>(
+        `INSERT INTO applications (
+          job_id,
+          candidate_id,
+          status,
+          stage_id,
+          resume_version,
+          stage_history,
+          metadata,
+          created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *`,
+        [
+          payload.job_id,
+          payload.candidate_id,
+          status,
+          stage.id,
+          payload.resume_version ?? null,
+          JSON.stringify(stageHistory),
+          JSON.stringify(payload.metadata),
+          user.sub
+        ]
+      );
+
+      const attributed = await attributeApplication(
+        client,
+        created,
+        referralLink ? buildReferralSource(referralLink.referrer_name) : payload.source,
+        user.sub
+      );
+
+      if (referralLink) {
+        await recordReferral(client, {
+          referrerId: referralLink.referrer_id,
+          application: attributed,
+          origin: ReferralOrigin.LINK,
+          referralLinkId: referralLink.id
+        });
+      }
+
+      await saveScreeningAnswers(client, attributed.id, answers);
+      const application = await rejectFailedKnockout(client, attributed, answers, screening.settings) ?? attributed;
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'application',
+          application.id,
+          'create',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Application created successfully', {
+        correlationId,
+        applicationId: application.id,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: application,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createApplication'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
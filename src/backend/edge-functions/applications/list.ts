@@ -0,0 +1,189 @@
+import { ApplicationWithCandidate, applicationListParamsSchema } from '../../types/applications';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { createPaginatedResponse, ErrorCode, UUID } from '../../types/common';
+import { jobVisibilityCondition } from '../../services/jobs/hiring-teams';
+import { screeningAnswersSelect } from '../../services/screening/answers';
+
+// Roles allowed to view any job pipeline; hiring managers only see the jobs of their
+// hiring teams and departments
+const PIPELINE_ROLES = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Parses list parameters from the request query string
+ */
+function parseListParams(url: URL): Record<string, unknown> {
+  const params = url.searchParams;
+  return {
+    job_id: params.get('job_id') || undefined,
+    candidate_id: params.get('candidate_id') || undefined,
+    status: params.get('status') ? params.get('status')!.split(',') : undefined,
+    answers: params.getAll('answer').length ? params.getAll('answer') : undefined,
+    knockout: params.get('knockout') || undefined,
+    page: params.get('page') ? Number(params.get('page')) : undefined,
+    limit: params.get('limit') ? Number(params.get('limit')) : undefined
+  };
+}
+
+/**
+ * Edge function handler for listing applications per job or per candidate
+ */
+export async function listApplications(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!PIPELINE_ROLES.includes(user.role) && user.role !== UserRole.HIRING_MANAGER) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const params = await validateInput(
+      applicationListParamsSchema,
+      parseListParams(new URL(req.url))
+    );
+
+    // Build parameterized query
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (params.job_id) {
+      conditions.push(`a.job_id = $${paramIndex++}`);
+      values.push(params.job_id);
+    }
+
+    if (params.candidate_id) {
+      conditions.push(`a.candidate_id = $${paramIndex++}`);
+      values.push(params.candidate_id);
+    }
+
+    if (params.status?.length) {
+      conditions.push(`a.status = ANY($${paramIndex++}::text[])`);
+      values.push(params.status);
+    }
+
+    // Answers match case-insensitively on their text, e.g. true, an option or a number
+    for (const answer of params.answers ?? []) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM application_screening_answers s
+        WHERE s.application_id = a.id
+          AND s.question_id = $${paramIndex++}
+          AND lower(s.value #>> '{}') = lower($${paramIndex++})
+      )`);
+      values.push(answer.question_id, answer.value);
+    }
+
+    if (params.knockout) {
+      conditions.push(`${params.knockout === 'failed' ? '' : 'NOT '}EXISTS (
+        SELECT 1 FROM application_screening_answers s
+        WHERE s.application_id = a.id AND s.knockout_passed = false
+      )`);
+    }
+
+    if (!PIPELINE_ROLES.includes(user.role)) {
+      conditions.push(jobVisibilityCondition('j', `$${paramIndex++}`));
+      values.push(user.sub);
+    }
+
+    values.push(params.limit, (params.page - 1) * params.limit);
+
+    const pool = await databaseConfig.getPool();
+    const { rows } = await pool.query({
+      text: `
+        SELECT a.*,
+               json_build_object(
+                 'id', c.id,
+                 'full_name', c.full_name,
+                 'email', c.email,
+                 'location', c.location,
+                 'status', c.status,
+                 'skills', c.skills,
+                 'experience_level', c.experience_level
+               ) AS candidate,
+               ${screeningAnswersSelect('a')} AS screening_answers,
+               j.title AS job_title,
+               COUNT(*) OVER() AS total_count
+        FROM applications a
+        JOIN candidates c ON c.id = a.candidate_id
+        JOIN jobs j ON j.id = a.job_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY a.updated_at DESC
+        LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+      `,
+      values,
+      timeout: 5000
+    });
+
+    const applications: ApplicationWithCandidate[] = rows.map(({ total_count, ...row }) => row);
+    const total = rows[0] ? parseInt(rows[0].total_count) : 0;
+
+    logger.info('Applications listed', {
+      correlationId,
+      jobId: params.job_id,
+      candidateId: params.candidate_id,
+      count: applications.length
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: createPaginatedResponse(applications, total, {
+          page: params.page,
+          limit: params.limit
+        }),
+        error: null
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listApplications'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
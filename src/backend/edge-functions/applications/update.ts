@@ -0,0 +1,265 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { Application, applicationUpdateSchema } from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { PipelineStage, resolveStageStatus } from '../../types/pipelines';
+import { createStageHistoryEntry } from '../../services/pipeline/stage-history';
+import { getJobPipeline, resolveTargetStage } from '../../services/pipeline/templates';
+import { assertTransitionAllowed } from '../../services/pipeline/transitions';
+import { markReferralHired } from '../../services/referrals/referrals';
+import { notifyReferrerOfHire } from '../../services/referrals/notifications';
+import { canViewJob } from '../../services/jobs/hiring-teams';
+
+// Request schema for application update
+const updateApplicationRequestSchema = z.object({
+  applicationId: z.string().uuid(),
+  payload: applicationUpdateSchema
+});
+
+/**
+ * Edge function handler for updating an application and moving it between stages
+ */
+export async function updateApplication(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role === UserRole.CANDIDATE || user.role === UserRole.GUEST) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { applicationId, payload } = await validateInput(
+      updateApplicationRequestSchema,
+      await req.json()
+    );
+
+    if (payload.status === ApplicationStatus.WITHDRAWN) {
+      throw new AppError('Use the withdraw endpoint to withdraw an application', ErrorCode.BAD_REQUEST);
+    }
+
+    logger.info('Processing application update request', {
+      correlationId,
+      applicationId,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the application row so concurrent moves append history in order
+      const { rows: [application] } = await client.query<Application>(
+        'SELECT * FROM applications WHERE id = $1 FOR UPDATE',
+        [applicationId]
+      );
+
+      if (!application) {
+        throw new AppError('Application not found', ErrorCode.NOT_FOUND);
+      }
+
+      if (user.role === UserRole.HIRING_MANAGER && !(await canViewJob(client, application.job_id, user))) {
+        throw new AppError('Application not found or access denied', ErrorCode.NOT_FOUND);
+      }
+
+      if (application.status === ApplicationStatus.WITHDRAWN) {
+        throw new AppError('Withdrawn applications cannot be updated', ErrorCode.CONFLICT);
+      }
+
+      // Build update query dynamically
+      const updates: string[] = [];
+      const values: any[] = [applicationId];
+      let paramCount = 2;
+
+      // Resolve the target stage within the job's pipeline template
+      let targetStage: PipelineStage | null = null;
+      let currentStage: PipelineStage | null = null;
+      let templateId: UUID | null = null;
+      if (payload.stage_id || (payload.status && payload.status !== application.status)) {
+        const pipeline = await getJobPipeline(client, application.job_id);
+        targetStage = resolveTargetStage(pipeline.stages, payload);
+        currentStage = pipeline.stages.find(stage => stage.id === application.stage_id) ?? null;
+        templateId = pipeline.id;
+      }
+
+      const stageChanged = targetStage !== null && targetStage.id !== application.stage_id;
+      if (stageChanged) {
+        // Enforce the template's transition rules before recording the move
+        await assertTransitionAllowed(client, {
+          templateId: templateId!,
+          from: currentStage,
+          to: targetStage!,
+          application,
+          context: {
+            role: user.role,
+            reason: payload.reason,
+            feedback: payload.feedback
+          }
+        });
+
+        const nextStatus = resolveStageStatus(targetStage!);
+        const entry = createStageHistoryEntry(
+          application.status,
+          nextStatus,
+          user.sub,
+          payload.reason,
+          { from: application.stage_id, to: targetStage!.id }
+        );
+        updates.push(`status = $${paramCount++}`);
+        values.push(nextStatus);
+        updates.push(`stage_id = $${paramCount++}`);
+        values.push(targetStage!.id);
+        updates.push(`stage_history = stage_history || $${paramCount++}::jsonb`);
+        values.push(JSON.stringify([entry]));
+      }
+
+      if (payload.feedback !== undefined) {
+        updates.push(`feedback = $${paramCount++}`);
+        values.push(JSON.stringify(payload.feedback));
+      }
+
+      if (payload.metadata !== undefined) {
+        updates.push(`metadata = COALESCE(metadata, '{}'::jsonb) || $${paramCount++}::jsonb`);
+        values.push(JSON.stringify(payload.metadata));
+      }
+
+      if (!updates.length) {
+        await client.query('ROLLBACK');
+        return new Response(
+          JSON.stringify({ success: true, data: application, error: null }),
+          {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Correlation-ID': correlationId
+            }
+          }
+        );
+      }
+
+      updates.push('updated_at = NOW()');
+
+      const { rows: [updatedApplication] } = await client.query<Application>(
+        `UPDATE applications
+         SET ${updates.join(', ')}
+         WHERE id = $1
+         RETURNING *`,
+        values
+      );
+
+      const hiredReferral = updatedApplication.status === ApplicationStatus.OFFER_ACCEPTED
+        ? await markReferralHired(client, updatedApplication.id)
+        : null;
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'application',
+          applicationId,
+          stageChanged ? 'stage_change' : 'update',
+          user.sub,
+          JSON.stringify({
+            ...payload,
+            ...(stageChanged ? {
+              previous_status: application.status,
+              previous_stage_id: application.stage_id
+            } : {})
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      const referrerNotified = hiredReferral
+        ? await notifyReferrerOfHire(client, hiredReferral, correlationId)
+        : false;
+
+      logger.info('Application updated successfully', {
+        correlationId,
+        applicationId,
+        from: application.status,
+        to: updatedApplication.status,
+        referrerNotified,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: updatedApplication,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'updateApplication'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import { z } from 'zod'; // ^3.22.0
+
+import {
+  Application,
+  TERMINAL_APPLICATION_STATUSES,
+  applicationWithdrawSchema
+} from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { createStageHistoryEntry } from '../../services/pipeline/stage-history';
+
+// Request schema for application withdrawal
+const withdrawApplicationRequestSchema = applicationWithdrawSchema.extend({
+  applicationId: z.string().uuid()
+});
+
+/**
+ * Edge function handler for withdrawing an application, either by the candidate
+ * themselves or by a recruiter acting on their behalf
+ */
+export async function withdrawApplication(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+
+    const { applicationId, reason } = await validateInput(
+      withdrawApplicationRequestSchema,
+      await req.json()
+    );
+    const sanitizedReason = reason ? sanitizeInput(reason) : undefined;
+
+    logger.info('Processing application withdrawal request', {
+      correlationId,
+      applicationId,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [application] } = await client.query<Application & { candidate_user_id: UUID }>(
+        `SELECT a.*, c.user_id AS candidate_user_id
+         FROM applications a
+         JOIN candidates c ON c.id = a.candidate_id
+         WHERE a.id = $1
+         FOR UPDATE OF a`,
+        [applicationId]
+      );
+
+      if (!application) {
+        throw new AppError('Application not found', ErrorCode.NOT_FOUND);
+      }
+
+      const isOwner = application.candidate_user_id === user.sub;
+      const isStaff = [UserRole.ADMIN, UserRole.RECRUITER].includes(user.role);
+      if (!isOwner && !isStaff) {
+        throw new AppError('Application not found or access denied', ErrorCode.NOT_FOUND);
+      }
+
+      if (TERMINAL_APPLICATION_STATUSES.includes(application.status)) {
+        throw new AppError('Application can no longer be withdrawn', ErrorCode.CONFLICT, {
+          status: application.status
+        });
+      }
+
+      const entry = createStageHistoryEntry(
+        application.status,
+        ApplicationStatus.WITHDRAWN,
+        user.sub,
+        sanitizedReason
+      );
+
+      const { rows: [withdrawnApplication] } = await client.query<Application>(
+        `UPDATE applications
+         SET status = $2,
+             stage_history = stage_history || $3::jsonb,
+             withdrawn_at = NOW(),
+             withdrawal_reason = $4,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [
+          applicationId,
+          ApplicationStatus.WITHDRAWN,
+          JSON.stringify([entry]),
+          sanitizedReason ?? null
+        ]
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'application',
+          applicationId,
+          'withdraw',
+          user.sub,
+          JSON.stringify({
+            previous_status: application.status,
+            reason: sanitizedReason ?? null
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Application withdrawn successfully', {
+        correlationId,
+        applicationId,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: withdrawnApplication,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'withdrawApplication'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
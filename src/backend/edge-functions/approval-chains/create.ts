@@ -0,0 +1,146 @@
+import { ApprovalChain, approvalChainCreateSchema } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { replaceChainSteps } from '../../services/approvals/chains';
+
+/**
+ * Edge function handler for creating an approval chain. An active chain replaces the
+ * chain currently gating its entity type.
+ */
+export async function createApprovalChain(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.ADMIN) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(approvalChainCreateSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (payload.is_active) {
+        await client.query(
+          'UPDATE approval_chains SET is_active = false, updated_at = NOW() WHERE entity_type = $1 AND is_active',
+          [payload.entity_type]
+        );
+      }
+
+      const { rows: [chain] } = await client.query<Omit<ApprovalChain, 'steps'>>(
+        `INSERT INTO approval_chains (name, entity_type, is_active, reminder_interval_hours, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [
+          sanitizeInput(payload.name),
+          payload.entity_type,
+          payload.is_active,
+          payload.reminder_interval_hours,
+          user.sub
+        ]
+      );
+
+      const steps = await replaceChainSteps(client, chain.id, payload.steps);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'approval_chain',
+          chain.id,
+          'create',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Approval chain created successfully', {
+        correlationId,
+        chainId: chain.id,
+        entityType: chain.entity_type,
+        stepCount: steps.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...chain, steps },
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createApprovalChain'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
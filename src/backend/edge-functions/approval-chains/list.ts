@@ -0,0 +1,118 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { APPROVER_ROLES, ApprovalChain, ApprovalEntityType } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getChainSteps } from '../../services/approvals/chains';
+
+// Request parameters validation schema
+const listChainsParamsSchema = z.object({
+  entity_type: z.nativeEnum(ApprovalEntityType).optional()
+});
+
+/**
+ * Edge function handler for listing approval chains with their approver steps, active chains first
+ */
+export async function listApprovalChains(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!APPROVER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const params = await validateInput(listChainsParamsSchema, {
+      entity_type: searchParams.get('entity_type') || undefined
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const { rows: chains } = await client.query<Omit<ApprovalChain, 'steps'>>(
+        `SELECT *
+         FROM approval_chains
+         WHERE ($1::approval_entity_type IS NULL OR entity_type = $1)
+         ORDER BY is_active DESC, entity_type ASC, name ASC`,
+        [params.entity_type ?? null]
+      );
+
+      const steps = await getChainSteps(client, chains.map(chain => chain.id));
+      const data: ApprovalChain[] = chains.map(chain => ({
+        ...chain,
+        steps: steps.get(chain.id) ?? []
+      }));
+
+      logger.info('Approval chains retrieved', {
+        correlationId,
+        entityType: params.entity_type,
+        count: data.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listApprovalChains'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
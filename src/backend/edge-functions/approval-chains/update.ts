@@ -0,0 +1,175 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { ApprovalChain, approvalChainUpdateSchema } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getChainSteps, replaceChainSteps } from '../../services/approvals/chains';
+
+// Request schema for approval chain update
+const updateChainRequestSchema = z.object({
+  chainId: z.string().uuid(),
+  payload: approvalChainUpdateSchema
+});
+
+/**
+ * Edge function handler for updating an approval chain. Provided steps replace the
+ * chain's approvers for future requests; pending requests keep the approvers they
+ * started with.
+ */
+export async function updateApprovalChain(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.ADMIN) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { chainId, payload } = await validateInput(updateChainRequestSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [existing] } = await client.query<Omit<ApprovalChain, 'steps'>>(
+        'SELECT * FROM approval_chains WHERE id = $1 FOR UPDATE',
+        [chainId]
+      );
+      if (!existing) {
+        throw new AppError('Approval chain not found', ErrorCode.NOT_FOUND);
+      }
+
+      if (payload.is_active && !existing.is_active) {
+        await client.query(
+          'UPDATE approval_chains SET is_active = false, updated_at = NOW() WHERE entity_type = $1 AND is_active',
+          [existing.entity_type]
+        );
+      }
+
+      // Build update query dynamically
+      const updates: string[] = [];
+      const values: any[] = [chainId];
+      let paramCount = 2;
+
+      if (payload.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(sanitizeInput(payload.name));
+      }
+      if (payload.is_active !== undefined) {
+        updates.push(`is_active = $${paramCount++}`);
+        values.push(payload.is_active);
+      }
+      if (payload.reminder_interval_hours !== undefined) {
+        updates.push(`reminder_interval_hours = $${paramCount++}`);
+        values.push(payload.reminder_interval_hours);
+      }
+      updates.push('updated_at = NOW()');
+
+      const { rows: [chain] } = await client.query<Omit<ApprovalChain, 'steps'>>(
+        `UPDATE approval_chains SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      const steps = payload.steps
+        ? await replaceChainSteps(client, chainId as UUID, payload.steps)
+        : (await getChainSteps(client, [chainId as UUID])).get(chainId as UUID) ?? [];
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'approval_chain',
+          chainId,
+          'update',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Approval chain updated successfully', {
+        correlationId,
+        chainId,
+        stepsReplaced: !!payload.steps,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...chain, steps },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'updateApprovalChain'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { APPROVER_ROLES, ApprovalStatus, approvalDecisionSchema } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { applyApprovalDecision, findDecidableStep, getActiveStepOrder } from '../../services/approvals/engine';
+import { lockApprovalRequest } from '../../services/approvals/requests';
+import { notifyActiveApprovers } from '../../services/approvals/notifications';
+
+// Request schema for an approval decision
+const decideApprovalRequestSchema = z.object({
+  requestId: z.string().uuid(),
+  payload: approvalDecisionSchema
+});
+
+/**
+ * Edge function handler for approving or rejecting the current step of an approval
+ * request. Approvers of the next step are notified when the request advances.
+ */
+export async function decideApproval(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!APPROVER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { requestId, payload } = await validateInput(decideApprovalRequestSchema, await req.json());
+    const comment = payload.comment ? sanitizeInput(payload.comment) : null;
+
+    logger.info('Processing approval decision', {
+      correlationId,
+      requestId,
+      decision: payload.decision,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const request = await lockApprovalRequest(client, requestId as UUID);
+      const step = findDecidableStep(request, user);
+      const previousOrder = getActiveStepOrder(request.steps);
+
+      const now = new Date();
+      const outcome = applyApprovalDecision(request.steps, step.id, payload.decision, user.sub, comment, now);
+
+      // Persist only the steps the decision touched
+      for (const updated of outcome.steps) {
+        const original = request.steps.find(s => s.id === updated.id);
+        if (original?.status === updated.status) continue;
+
+        await client.query(
+          `UPDATE approval_request_steps
+           SET status = $2,
+               decided_by = $3,
+               decided_at = $4,
+               comment = $5,
+               updated_at = NOW()
+           WHERE id = $1`,
+          [updated.id, updated.status, updated.decided_by, updated.decided_at, updated.comment]
+        );
+      }
+
+      const { rows: [decided] } = await client.query(
+        `UPDATE approval_requests
+         SET status = $2,
+             completed_at = $3,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [requestId, outcome.status, outcome.status === ApprovalStatus.PENDING ? null : now]
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'approval_request',
+          requestId,
+          payload.decision,
+          user.sub,
+          JSON.stringify({
+            stepId: step.id,
+            stepOrder: step.step_order,
+            comment,
+            status: outcome.status
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      const advanced = outcome.status === ApprovalStatus.PENDING &&
+        getActiveStepOrder(outcome.steps) !== previousOrder;
+      const notified = advanced ? await notifyActiveApprovers(client, requestId as UUID, correlationId) : 0;
+
+      logger.info('Approval decision recorded', {
+        correlationId,
+        requestId,
+        decision: payload.decision,
+        status: outcome.status,
+        notified,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...decided, steps: outcome.steps },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'decideApproval'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
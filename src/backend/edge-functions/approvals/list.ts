@@ -0,0 +1,117 @@
+import { APPROVER_ROLES, ApprovalRequest, approvalListParamsSchema } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getActiveChain } from '../../services/approvals/chains';
+import { getRequestSteps } from '../../services/approvals/requests';
+
+/**
+ * Edge function handler for the approval state of a job or offer: the chain that
+ * currently gates it and its approval requests, newest first
+ */
+export async function listApprovals(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!APPROVER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const params = await validateInput(approvalListParamsSchema, {
+      entity_type: searchParams.get('entity_type') || undefined,
+      entity_id: searchParams.get('entity_id') || undefined
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const chain = await getActiveChain(client, params.entity_type);
+
+      const { rows } = await client.query<Omit<ApprovalRequest, 'steps'>>(
+        `SELECT *
+         FROM approval_requests
+         WHERE entity_type = $1 AND entity_id = $2
+         ORDER BY created_at DESC`,
+        [params.entity_type, params.entity_id]
+      );
+
+      const steps = await getRequestSteps(client, rows.map(request => request.id));
+      const requests: ApprovalRequest[] = rows.map(request => ({
+        ...request,
+        steps: steps.get(request.id) ?? []
+      }));
+
+      logger.info('Approvals retrieved', {
+        correlationId,
+        entityType: params.entity_type,
+        entityId: params.entity_id,
+        count: requests.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { chain, requests },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listApprovals'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { APPROVER_ROLES, ApprovalStatus, ApprovalStepStatus, PendingApproval } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getRequestSteps } from '../../services/approvals/requests';
+
+/**
+ * Edge function handler for the approvals awaiting the current user: pending requests
+ * whose active step names the user or their role, excluding the user's own requests
+ */
+export async function listPendingApprovals(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!APPROVER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const { rows } = await client.query<Omit<PendingApproval, 'steps'>>(
+        `SELECT r.*, COALESCE(j.title, oj.title) AS job_title, c.full_name AS candidate_name
+         FROM approval_requests r
+         LEFT JOIN jobs j ON r.entity_type = 'job' AND j.id = r.entity_id
+         LEFT JOIN offers o ON r.entity_type = 'offer' AND o.id = r.entity_id
+         LEFT JOIN jobs oj ON oj.id = o.job_id
+         LEFT JOIN candidates c ON c.id = o.candidate_id
+         WHERE r.status = $3
+           AND r.requested_by <> $1
+           AND EXISTS (
+             SELECT 1
+             FROM approval_request_steps s
+             WHERE s.request_id = r.id
+               AND s.status = $4
+               AND (s.approver_id = $1 OR (s.approver_id IS NULL AND s.approver_role = $2))
+               AND s.step_order = (
+                 SELECT MIN(step_order) FROM approval_request_steps
+                 WHERE request_id = r.id AND status = $4
+               )
+           )
+         ORDER BY r.created_at ASC`,
+        [user.sub, user.role, ApprovalStatus.PENDING, ApprovalStepStatus.PENDING]
+      );
+
+      const steps = await getRequestSteps(client, rows.map(request => request.id));
+      const data: PendingApproval[] = rows.map(request => ({
+        ...request,
+        steps: steps.get(request.id) ?? []
+      }));
+
+      logger.info('Pending approvals retrieved', {
+        correlationId,
+        count: data.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listPendingApprovals'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
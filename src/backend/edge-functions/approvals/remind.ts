@@ -0,0 +1,133 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { APPROVER_ROLES, ApprovalStatus } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { notifyActiveApprovers, sendDueApprovalReminders } from '../../services/approvals/notifications';
+
+// Request schema for approval reminders; without a request id every overdue request is reminded
+const remindApprovalsRequestSchema = z.object({
+  requestId: z.string().uuid().optional()
+});
+
+/**
+ * Edge function handler for approval reminders. A requester (or an administrator) can
+ * nudge the current approvers of one request; administrators can sweep every request
+ * whose reminder interval has passed.
+ */
+export async function remindApprovals(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!APPROVER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { requestId } = await validateInput(remindApprovalsRequestSchema, await req.json());
+
+    if (!requestId && user.role !== UserRole.ADMIN) {
+      throw new AppError('Only administrators can send all due reminders', ErrorCode.FORBIDDEN);
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      let data: { requests: number; emails: number };
+
+      if (requestId) {
+        const { rows: [request] } = await client.query<{ status: ApprovalStatus; requested_by: UUID }>(
+          'SELECT status, requested_by FROM approval_requests WHERE id = $1',
+          [requestId]
+        );
+
+        if (!request || (request.requested_by !== user.sub && user.role !== UserRole.ADMIN)) {
+          throw new AppError('Approval request not found or access denied', ErrorCode.NOT_FOUND);
+        }
+        if (request.status !== ApprovalStatus.PENDING) {
+          throw new AppError('Approval request is no longer pending', ErrorCode.CONFLICT, {
+            status: request.status
+          });
+        }
+
+        data = {
+          requests: 1,
+          emails: await notifyActiveApprovers(client, requestId as UUID, correlationId)
+        };
+      } else {
+        data = await sendDueApprovalReminders(client, correlationId);
+      }
+
+      logger.info('Approval reminders sent', {
+        correlationId,
+        requestId,
+        ...data,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'remindApprovals'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { APPROVER_ROLES, approvalRequestCreateSchema } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getActiveChain } from '../../services/approvals/chains';
+import { createApprovalRequest } from '../../services/approvals/requests';
+import { canRequestApproval, loadApprovalSubject } from '../../services/approvals/subjects';
+import { notifyActiveApprovers } from '../../services/approvals/notifications';
+
+/**
+ * Edge function handler for requesting approval of a draft job or offer through the
+ * active chain of its entity type. The first approvers are notified once it is saved.
+ */
+export async function requestApproval(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!APPROVER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(approvalRequestCreateSchema, await req.json());
+
+    logger.info('Processing approval request', {
+      correlationId,
+      entityType: payload.entity_type,
+      entityId: payload.entity_id,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const subject = await loadApprovalSubject(client, payload.entity_type, payload.entity_id as UUID);
+      if (!canRequestApproval(subject, user)) {
+        throw new AppError('Entity not found or access denied', ErrorCode.NOT_FOUND);
+      }
+
+      if (!subject.isDraft) {
+        throw new AppError('Approval can only be requested for drafts', ErrorCode.CONFLICT);
+      }
+
+      const chain = await getActiveChain(client, payload.entity_type);
+      if (!chain) {
+        throw new AppError('No approval chain is configured for this entity type', ErrorCode.CONFLICT, {
+          entityType: payload.entity_type
+        });
+      }
+
+      const request = await createApprovalRequest(client, chain, subject.entityId, subject.version, user.sub);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'approval_request',
+          request.id,
+          'create',
+          user.sub,
+          JSON.stringify({
+            entityType: request.entity_type,
+            entityId: request.entity_id,
+            entityVersion: request.entity_version,
+            chainId: chain.id
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      const notified = await notifyActiveApprovers(client, request.id, correlationId);
+
+      logger.info('Approval requested successfully', {
+        correlationId,
+        requestId: request.id,
+        chainId: chain.id,
+        notified,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: request,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'requestApproval'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
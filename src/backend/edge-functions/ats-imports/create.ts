@@ -0,0 +1,161 @@
+import { IMPORT_MANAGER_ROLES } from '../../types/imports';
+import { atsImportOptionsSchema } from '../../types/ats-imports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { convertAtsExport } from '../../services/imports/adapters';
+import { runAtsImport } from '../../services/imports/ats-imports';
+
+// Largest export file accepted
+const MAX_EXPORT_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+/**
+ * Edge function handler importing an export from another applicant tracking system.
+ * Expects multipart form data with the JSON export in the file field, the system it
+ * comes from in the source field (detected when omitted) and dry_run=true to only
+ * report what the import would do. Returns the reconciliation report of the run.
+ */
+export async function importAtsExport(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!IMPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      throw new AppError('An export file is required', ErrorCode.BAD_REQUEST);
+    }
+    if (file.size > MAX_EXPORT_FILE_SIZE) {
+      throw new AppError('The export file exceeds the 50MB limit', ErrorCode.VALIDATION_ERROR);
+    }
+
+    const options = await validateInput(atsImportOptionsSchema, {
+      source: formData.get('source') || undefined,
+      dry_run: formData.get('dry_run') === 'true'
+    });
+
+    let document: unknown;
+    try {
+      document = JSON.parse(await file.text());
+    } catch {
+      throw new AppError('The export file is not valid JSON', ErrorCode.VALIDATION_ERROR);
+    }
+    const atsExport = convertAtsExport(document, options.source);
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const report = await runAtsImport(client, atsExport, {
+        file_name: file.name.slice(0, 255),
+        dry_run: options.dry_run
+      }, user.sub);
+
+      // A dry run leaves nothing behind
+      if (options.dry_run) {
+        await client.query('ROLLBACK');
+      } else {
+        // Record audit log
+        await client.query(
+          `INSERT INTO audit_logs (
+            entity_type,
+            entity_id,
+            action,
+            user_id,
+            changes,
+            correlation_id
+          ) VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            'ats_import_run',
+            report.run!.id,
+            'create',
+            user.sub,
+            JSON.stringify({ source: atsExport.source, file_name: file.name, totals: report.totals }),
+            correlationId
+          ]
+        );
+
+        await client.query('COMMIT');
+      }
+
+      logger.info('ATS export imported', {
+        correlationId,
+        runId: report.run?.id ?? null,
+        source: atsExport.source,
+        dryRun: options.dry_run,
+        totals: report.totals,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: report,
+          error: null
+        }),
+        {
+          status: options.dry_run ? 200 : 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'runAtsImportUpload'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
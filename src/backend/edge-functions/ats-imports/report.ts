@@ -0,0 +1,106 @@
+import { IMPORT_MANAGER_ROLES } from '../../types/imports';
+import { reconciliationReportFormatSchema } from '../../types/ats-imports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { getReconciliationReport, toReconciliationCsv } from '../../services/imports/ats-imports';
+
+/**
+ * Edge function handler returning the reconciliation report of an ATS import run, as
+ * JSON or, with format=csv, as a CSV download
+ */
+export async function getAtsImportReport(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!IMPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract run ID from URL (/ats-imports/:id/report)
+    const url = new URL(req.url);
+    const runId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+    const format = await validateInput(reconciliationReportFormatSchema, url.searchParams.get('format') ?? undefined);
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const report = await getReconciliationReport(client, runId);
+
+      if (format === 'csv') {
+        return new Response(toReconciliationCsv(report), {
+          status: 200,
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="ats-import-${runId}.csv"`,
+            'Cache-Control': 'private, no-store',
+            'X-Correlation-ID': correlationId
+          }
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: report,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'getAtsImportReport'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  CandidateExportRequest,
+  CandidateExportStatus,
+  EXPORT_MANAGER_ROLES,
+  MAX_EXPORT_ROWS,
+  MAX_INLINE_EXPORT_ROWS,
+  candidateExportRequestSchema
+} from '../../types/exports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import {
+  EXPORT_FILE_TYPES,
+  countExportCandidates,
+  createCandidateExport,
+  writeCandidateExport
+} from '../../services/exports/candidate-exports';
+
+/**
+ * Edge function handler exporting the candidates matching the search filters as CSV,
+ * XLSX or JSON Resume. Exports of up to MAX_INLINE_EXPORT_ROWS candidates are streamed
+ * back as a download; larger ones are queued for the export worker and returned with
+ * status 202, to be polled until their download link is ready.
+ */
+export async function exportCandidates(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!EXPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const request = await validateInput(
+      candidateExportRequestSchema,
+      await req.json()
+    ) as CandidateExportRequest;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    // Once the export is streamed the stream releases the client
+    let streaming = false;
+    try {
+      const rowCount = await countExportCandidates(client, request.filters);
+      if (rowCount > MAX_EXPORT_ROWS) {
+        throw new AppError(`A single export can contain at most ${MAX_EXPORT_ROWS} candidates`, ErrorCode.VALIDATION_ERROR, {
+          row_count: rowCount
+        });
+      }
+      const inline = rowCount <= MAX_INLINE_EXPORT_ROWS;
+
+      await client.query('BEGIN');
+
+      const candidateExport = await createCandidateExport(
+        client,
+        request,
+        rowCount,
+        inline ? CandidateExportStatus.COMPLETED : CandidateExportStatus.QUEUED,
+        user.sub
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate_export',
+          candidateExport.id,
+          'export',
+          user.sub,
+          JSON.stringify({ format: request.format, filters: request.filters, columns: request.columns, row_count: rowCount }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidates exported', {
+        correlationId,
+        exportId: candidateExport.id,
+        format: request.format,
+        rowCount,
+        background: !inline,
+        userId: user.sub
+      });
+
+      if (!inline) {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            data: candidateExport,
+            error: null
+          }),
+          {
+            status: 202,
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Correlation-ID': correlationId
+            }
+          }
+        );
+      }
+
+      const chunks = writeCandidateExport(client, request);
+      const encoder = new TextEncoder();
+      let released = false;
+      const release = () => {
+        if (!released) {
+          released = true;
+          client.release();
+        }
+      };
+
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { value, done } = await chunks.next();
+            if (done) {
+              controller.close();
+              release();
+              return;
+            }
+            controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value);
+          } catch (error) {
+            logger.error(error as Error, { correlationId, context: 'exportCandidates' });
+            controller.error(error);
+            release();
+          }
+        },
+        async cancel() {
+          await chunks.return(undefined);
+          release();
+        }
+      });
+      streaming = true;
+
+      const { extension, content_type } = EXPORT_FILE_TYPES[request.format];
+      return new Response(body, {
+        status: 200,
+        headers: {
+          'Content-Type': content_type,
+          'Content-Disposition': `attachment; filename="candidates-${new Date().toISOString().slice(0, 10)}.${extension}"`,
+          'Cache-Control': 'private, no-store',
+          'X-Export-ID': candidateExport.id,
+          'X-Correlation-ID': correlationId
+        }
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      if (!streaming) {
+        client.release();
+      }
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'exportCandidates'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { EXPORT_MANAGER_ROLES, candidateProfileOptionsSchema } from '../../types/exports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { getProfileBranding, getProfileCandidate, renderCandidateProfile } from '../../services/exports/profile-pdf';
+
+/**
+ * Edge function handler returning a branded one-page PDF profile of a candidate for
+ * sharing with hiring managers. Email and phone are only included with
+ * include_contact=true.
+ */
+export async function downloadCandidateProfile(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!EXPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract candidate ID from URL (/candidates/:id/profile.pdf)
+    const url = new URL(req.url);
+    const candidateId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+    const options = await validateInput(candidateProfileOptionsSchema, {
+      include_contact: url.searchParams.get('include_contact') ?? undefined
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const candidate = await getProfileCandidate(client, candidateId);
+      const pdf = await renderCandidateProfile(candidate, {
+        branding: getProfileBranding(),
+        include_contact: options.include_contact
+      });
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate',
+          candidateId,
+          'export_profile',
+          user.sub,
+          JSON.stringify({ format: 'PDF', include_contact: options.include_contact }),
+          correlationId
+        ]
+      );
+
+      const fileName = candidate.full_name.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'candidate';
+      return new Response(pdf, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${fileName}-profile.pdf"`,
+          'Cache-Control': 'private, no-store',
+          'X-Correlation-ID': correlationId
+        }
+      });
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'downloadCandidateProfile'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { CandidateExportStatus, CandidateExportWithDownload, EXPORT_MANAGER_ROLES } from '../../types/exports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { FileHandler } from '../../services/storage/file-handler';
+import { getCandidateExport } from '../../services/exports/candidate-exports';
+
+const fileHandler = new FileHandler();
+
+/**
+ * Edge function handler returning an export, polled while the export worker writes it.
+ * Once its file is written the export comes with a signed download link, and handing
+ * out the link is recorded in the audit log. Users only see their own exports unless
+ * they are admins.
+ */
+export async function getCandidateExportStatus(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!EXPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract export ID from URL (/candidate-exports/:id)
+    const exportId = await validateInput(uuidSchema, new URL(req.url).pathname.split('/').pop()) as UUID;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const candidateExport = await getCandidateExport(client, exportId);
+      if (user.role !== UserRole.ADMIN && candidateExport.created_by !== user.sub) {
+        throw new AppError('Export not found', ErrorCode.NOT_FOUND, { exportId });
+      }
+
+      const result: CandidateExportWithDownload = { ...candidateExport, download_url: null, download_expires_at: null };
+      if (candidateExport.status === CandidateExportStatus.COMPLETED && candidateExport.file_key) {
+        const { url, expires } = await fileHandler.generateSignedUrl('exports', candidateExport.file_key);
+        result.download_url = url;
+        result.download_expires_at = new Date(expires);
+
+        // Record audit log
+        await client.query(
+          `INSERT INTO audit_logs (
+            entity_type,
+            entity_id,
+            action,
+            user_id,
+            changes,
+            correlation_id
+          ) VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            'candidate_export',
+            exportId,
+            'download',
+            user.sub,
+            JSON.stringify({ file_key: candidateExport.file_key }),
+            correlationId
+          ]
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: result,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'getCandidateExportStatus'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
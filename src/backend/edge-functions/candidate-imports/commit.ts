@@ -0,0 +1,139 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { IMPORT_MANAGER_ROLES } from '../../types/imports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getCandidateImport, queueCandidateImport } from '../../services/imports/candidate-imports';
+
+// Request schema for committing an import
+const commitImportRequestSchema = z.object({
+  importId: z.string().uuid()
+});
+
+/**
+ * Edge function handler committing a previewed import with the options of its last dry
+ * run. Rows are written in batches by the candidate import worker; progress is read
+ * from the import.
+ */
+export async function commitCandidateImport(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!IMPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { importId } = await validateInput(
+      commitImportRequestSchema,
+      await req.json()
+    );
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const candidateImport = await queueCandidateImport(
+        client,
+        await getCandidateImport(client, importId as UUID, true)
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate_import',
+          importId,
+          'commit',
+          user.sub,
+          JSON.stringify({ mapping: candidateImport.mapping, duplicate_strategy: candidateImport.duplicate_strategy }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate import queued', {
+        correlationId,
+        importId,
+        rowCount: candidateImport.row_count,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: candidateImport,
+          error: null
+        }),
+        {
+          status: 202,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'commitCandidateImport'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { IMPORT_MANAGER_ROLES } from '../../types/imports';
+import { UserRole } from '../../types/auth';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { FileHandler } from '../../services/storage/file-handler';
+import { storeCandidateImport } from '../../services/imports/candidate-imports';
+import { suggestImportMapping } from '../../services/imports/mapping';
+import { listResumeFiles, openResumeArchive } from '../../services/imports/resumes';
+import { readSpreadsheet } from '../../services/imports/spreadsheet';
+
+// Rows returned with a new import to help map its columns
+const SAMPLE_ROW_COUNT = 5;
+
+const fileHandler = new FileHandler();
+
+/**
+ * Edge function handler uploading a spreadsheet of candidates to import. Expects
+ * multipart form data with the CSV or XLSX file in the file field and, optionally, a zip
+ * archive of the resumes the rows reference in the resumes field. Returns the new import
+ * with a suggested column mapping and the first rows of the file.
+ */
+export async function createCandidateImport(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!IMPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      throw new AppError('A spreadsheet is required', ErrorCode.BAD_REQUEST);
+    }
+
+    const spreadsheet = await readSpreadsheet(file);
+
+    // Resumes are stored with the import and only extracted for the rows that are committed
+    const resumes = formData.get('resumes');
+    let resumeArchiveKey: string | null = null;
+    let resumeFiles: string[] = [];
+    if (resumes instanceof File && resumes.size > 0) {
+      resumeFiles = listResumeFiles(await openResumeArchive(resumes));
+      try {
+        ({ key: resumeArchiveKey } = await fileHandler.uploadFile(resumes, 'imports', `candidates/${user.sub}`));
+      } catch (error) {
+        throw new AppError('Resume archive could not be uploaded', ErrorCode.BAD_REQUEST, {
+          reason: (error as Error).message
+        });
+      }
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const candidateImport = await storeCandidateImport(client, spreadsheet, {
+        file_name: file.name.slice(0, 255),
+        resume_archive_key: resumeArchiveKey,
+        resume_files: resumeFiles
+      }, user.sub);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate_import',
+          candidateImport.id,
+          'create',
+          user.sub,
+          JSON.stringify({
+            file_name: candidateImport.file_name,
+            row_count: candidateImport.row_count,
+            resume_count: resumeFiles.length
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate import uploaded successfully', {
+        correlationId,
+        importId: candidateImport.id,
+        rowCount: candidateImport.row_count,
+        resumeCount: resumeFiles.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            ...candidateImport,
+            suggested_mapping: suggestImportMapping(spreadsheet.headers),
+            sample_rows: spreadsheet.rows.slice(0, SAMPLE_ROW_COUNT)
+          },
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createCandidateImport'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { IMPORT_MANAGER_ROLES } from '../../types/imports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { buildImportErrorReport, getCandidateImport } from '../../services/imports/candidate-imports';
+
+/**
+ * Edge function handler downloading the error report of an import as CSV, so the
+ * failing rows can be fixed in the spreadsheet and imported again
+ */
+export async function downloadImportErrorReport(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!IMPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract import ID from URL (/candidate-imports/:id/errors)
+    const importId = await validateInput(uuidSchema, new URL(req.url).pathname.split('/').slice(-2)[0]) as UUID;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const candidateImport = await getCandidateImport(client, importId);
+      const report = await buildImportErrorReport(client, candidateImport);
+      const fileName = `${candidateImport.file_name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')}-errors.csv`;
+
+      logger.info('Candidate import error report downloaded', {
+        correlationId,
+        importId,
+        userId: user.sub
+      });
+
+      return new Response(report, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'private, no-store',
+          'X-Correlation-ID': correlationId
+        }
+      });
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'downloadImportErrorReport'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { IMPORT_MANAGER_ROLES, candidateImportOptionsSchema } from '../../types/imports';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { dryRunCandidateImport, getCandidateImport } from '../../services/imports/candidate-imports';
+
+// Request schema for an import dry run
+const previewImportRequestSchema = z.object({
+  importId: z.string().uuid(),
+  payload: candidateImportOptionsSchema
+});
+
+/**
+ * Edge function handler running an import as a dry run with a column mapping and
+ * duplicate strategy: every row is validated and checked for duplicates without writing
+ * any candidate. The options are kept for the commit; running the preview again with
+ * other options replaces them.
+ */
+export async function previewCandidateImport(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!IMPORT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { importId, payload } = await validateInput(
+      previewImportRequestSchema,
+      await req.json()
+    );
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const candidateImport = await getCandidateImport(client, importId as UUID, true);
+      const preview = await dryRunCandidateImport(client, candidateImport, payload);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate_import',
+          importId,
+          'preview',
+          user.sub,
+          JSON.stringify({ ...payload, row_counts: preview.row_counts }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate import previewed', {
+        correlationId,
+        importId,
+        rowCounts: preview.row_counts,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: preview,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'previewCandidateImport'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -4,8 +4,14 @@ import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
 import { cache } from '@vercel/cache'; // ^1.0.0
 import { ResumeParser } from '../../services/ai/resume-parser';
 import { ResumeStorage } from '../../services/storage/resume-storage';
-import { candidateSchema, CandidateStatus, ExperienceLevel } from '../../types/candidates';
-import { ErrorCode } from '../../types/common';
+import { calculateChecksum } from '../../services/storage/file-handler';
+import { buildDuplicateKeys, findDuplicateCandidates } from '../../services/candidates/duplicates';
+import { parseUtmParams, recordTouchpoint } from '../../services/sources/attribution';
+import { candidateSchema, CandidateStatus, DuplicateCandidateMatch, ExperienceLevel } from '../../types/candidates';
+import { SourceChannel, sourceInputSchema } from '../../types/sources';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { databaseConfig } from '../../config/database';
 import { Logger } from '../../utils/logger';
 
 // Initialize services
@@ -25,6 +31,8 @@ const createCandidateRequestSchema = z.object({
   phone: z.string().optional(),
   location: z.string(),
   resume: z.instanceof(File).optional(),
+  ignoreDuplicates: z.boolean(),
+  source: sourceInputSchema.optional(),
   preferences: z.object({
     preferredJobTypes: z.array(z.string()),
     preferredLocations: z.array(z.string()),
@@ -68,12 +76,46 @@ export async function createCandidate(req: Request): Promise<Response> {
       phone: formData.get('phone'),
       location: formData.get('location'),
       resume: formData.get('resume') as File | null,
+      ignoreDuplicates: formData.get('ignoreDuplicates') === 'true',
+      source: formData.get('source') ?
+        JSON.parse(formData.get('source') as string) : undefined,
       preferences: formData.get('preferences') ? 
         JSON.parse(formData.get('preferences') as string) : undefined
     };
 
     const validatedData = createCandidateRequestSchema.parse(payload);
 
+    // Profiles submitted without an explicit source came in through the career site form
+    const referrer = req.headers.get('referer');
+    const source = validatedData.source ?? {
+      channel: SourceChannel.CAREER_SITE,
+      ...parseUtmParams(referrer),
+      ...(referrer ? { referrer_url: referrer.slice(0, 2000) } : {})
+    };
+
+    // Re-applicants often use another address or number; warn before creating a second profile
+    const resumeChecksum = validatedData.resume ? await calculateChecksum(validatedData.resume) : null;
+    const duplicateKeys = buildDuplicateKeys(validatedData);
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    let duplicates: DuplicateCandidateMatch[];
+    try {
+      duplicates = await findDuplicateCandidates(client, {
+        full_name: validatedData.fullName,
+        email: validatedData.email,
+        phone: validatedData.phone,
+        resume_checksum: resumeChecksum
+      });
+    } finally {
+      client.release();
+    }
+
+    if (duplicates.length && !validatedData.ignoreDuplicates) {
+      throw new AppError('Possible duplicate candidates found', ErrorCode.CONFLICT, {
+        matches: duplicates
+      });
+    }
+
     // Process resume if provided
     let resumeData = null;
     let resumeUrl = null;
@@ -120,9 +162,11 @@ export async function createCandidate(req: Request): Promise<Response> {
       },
       match_score: 0,
       metadata: {
-        source: 'web-application',
         created_at: new Date().toISOString(),
-        resume_parsed: !!resumeData
+        resume_parsed: !!resumeData,
+        ...(duplicates.length > 0 && {
+          ignored_duplicate_ids: duplicates.map(match => match.candidate_id)
+        })
       }
     };
 
@@ -132,7 +176,11 @@ export async function createCandidate(req: Request): Promise<Response> {
     // Create candidate in database
     const { data: candidate, error } = await supabase
       .from('candidates')
-      .insert(validatedCandidate)
+      .insert({
+        ...validatedCandidate,
+        ...duplicateKeys,
+        resume_checksum: resumeChecksum
+      })
       .select()
       .single();
 
@@ -141,6 +189,36 @@ export async function createCandidate(req: Request): Promise<Response> {
       throw error;
     }
 
+    const sourceClient = await pool.connect();
+    try {
+      await recordTouchpoint(sourceClient, candidate.id as UUID, source, null);
+
+      // Record audit log; the profile and its first resume start the candidate's timeline
+      const auditEntries: Array<[string, Record<string, unknown>]> = [
+        ['create', { channel: source.channel, resume_parsed: !!resumeData }]
+      ];
+      if (validatedData.resume) {
+        auditEntries.push(['resume_upload', {
+          file_name: validatedData.resume.name,
+          size: validatedData.resume.size
+        }]);
+      }
+      for (const [action, changes] of auditEntries) {
+        await sourceClient.query(
+          `INSERT INTO audit_logs (
+            entity_type,
+            entity_id,
+            action,
+            user_id,
+            changes
+          ) VALUES ($1, $2, $3, $4, $5)`,
+          ['candidate', candidate.id, action, null, JSON.stringify(changes)]
+        );
+      }
+    } finally {
+      sourceClient.release();
+    }
+
     // Cache candidate data
     await cache.set(`candidate:${candidate.id}`, candidate, 300);
 
@@ -167,14 +245,17 @@ export async function createCandidate(req: Request): Promise<Response> {
       error: {
         code: error instanceof z.ZodError ? 
           ErrorCode.VALIDATION_ERROR : 
+          error instanceof AppError ? error.code :
           ErrorCode.INTERNAL_ERROR,
         message: error instanceof Error ? error.message : 'Internal server error',
-        details: error instanceof z.ZodError ? error.errors : null
+        details: error instanceof z.ZodError ? error.errors :
+          error instanceof AppError ? error.details : null
       }
     };
 
     return new Response(JSON.stringify(errorResponse), {
-      status: error instanceof z.ZodError ? 400 : 500,
+      status: error instanceof z.ZodError ? 400 :
+        error instanceof AppError && error.code === ErrorCode.CONFLICT ? 409 : 500,
       headers: {
         'Content-Type': 'application/json'
       }
@@ -1,165 +1,139 @@
-import { createClient } from '@supabase/supabase-js'; // ^2.38.0
-import { datadogRum } from '@datadog/browser-rum'; // ^4.0.0
-import winston from 'winston'; // ^3.8.0
-import { authenticateRequest, requireRole } from '../../middleware/auth';
-import { AppError, handleError } from '../../utils/error-handler';
-import { CandidateId } from '../../types/candidates';
-import { ErrorCode } from '../../types/common';
+import { PRIVACY_MANAGER_ROLES } from '../../types/privacy';
 import { UserRole } from '../../types/auth';
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_KEY!
-);
-
-// Initialize security audit logger
-const auditLogger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  defaultMeta: { service: 'candidate-deletion' },
-  transports: [
-    new winston.transports.File({ filename: 'security-audit.log' })
-  ]
-});
-
-// Performance monitoring decorator
-function monitorPerformance(
-  target: any,
-  propertyKey: string,
-  descriptor: PropertyDescriptor
-) {
-  const originalMethod = descriptor.value;
-
-  descriptor.value = async function (...args: any[]) {
-    const startTime = performance.now();
-    try {
-      const result = await originalMethod.apply(this, args);
-      const duration = performance.now() - startTime;
-      
-      // Send metrics to Datadog
-      datadogRum.addTiming('candidate.deletion.duration', duration);
-      return result;
-    } catch (error) {
-      datadogRum.addError(error as Error);
-      throw error;
-    }
-  };
-  return descriptor;
-}
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { eraseSubjectData, purgeQueuedFiles } from '../../services/privacy/subject-data';
+import { FileHandler } from '../../services/storage/file-handler';
 
 /**
- * Edge function handler for secure candidate deletion with cascade operations
- * Implements comprehensive security checks, transaction management, and audit logging
+ * Edge function handler for deleting a candidate. The candidate and their merged
+ * duplicates are anonymized in place rather than removed, so applications, interviews
+ * and offers still count towards hiring metrics, and their stored files are purged.
+ * Erasures requested by the candidate go through their data subject request instead.
  */
-@authenticateRequest
-@requireRole([UserRole.ADMIN, UserRole.RECRUITER])
-@monitorPerformance
-export async function deleteCandidate(req: Request, res: Response): Promise<void> {
-  const correlationId = `del_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  try {
-    // Extract and validate candidate ID
-    const candidateId = req.params.id as CandidateId;
-    if (!candidateId) {
-      throw new AppError('Candidate ID is required', ErrorCode.BAD_REQUEST);
-    }
-
-    // Start database transaction
-    const { data: candidate, error: fetchError } = await supabase
-      .from('candidates')
-      .select('*')
-      .eq('id', candidateId)
-      .single();
+export async function deleteCandidate(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
 
-    if (fetchError || !candidate) {
-      throw new AppError('Candidate not found', ErrorCode.NOT_FOUND);
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
     }
 
-    // Verify user permissions for the specific candidate
-    if (req.user?.role !== UserRole.ADMIN && candidate.recruiter_id !== req.user?.id) {
-      throw new AppError('Unauthorized to delete this candidate', ErrorCode.FORBIDDEN);
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!PRIVACY_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
     }
 
-    // Begin transaction for cascade deletion
-    const { error: txError } = await supabase.rpc('begin_transaction');
-    if (txError) throw txError;
+    // Extract candidate ID from URL (/candidates/:id)
+    const url = new URL(req.url);
+    const candidateId = await validateInput(uuidSchema, url.pathname.split('/').pop()) as UUID;
 
+    const fileHandler = new FileHandler();
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
     try {
-      // Delete from hotlists first (many-to-many relationship)
-      const { error: hotlistError } = await supabase
-        .from('hotlist_candidates')
-        .delete()
-        .eq('candidate_id', candidateId);
-      if (hotlistError) throw hotlistError;
-
-      // Delete related interviews
-      const { error: interviewError } = await supabase
-        .from('interviews')
-        .delete()
-        .eq('candidate_id', candidateId);
-      if (interviewError) throw interviewError;
-
-      // Delete applications
-      const { error: applicationError } = await supabase
-        .from('applications')
-        .delete()
-        .eq('candidate_id', candidateId);
-      if (applicationError) throw applicationError;
-
-      // Delete candidate profile
-      const { error: deleteError } = await supabase
-        .from('candidates')
-        .delete()
-        .eq('id', candidateId);
-      if (deleteError) throw deleteError;
+      await client.query('BEGIN');
+
+      const { evidence, purgeIds } = await eraseSubjectData(client, candidateId, fileHandler);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate',
+          candidateId,
+          'anonymize',
+          user.sub,
+          JSON.stringify(evidence),
+          correlationId
+        ]
+      );
 
-      // Commit transaction
-      const { error: commitError } = await supabase.rpc('commit_transaction');
-      if (commitError) throw commitError;
+      await client.query('COMMIT');
 
-      // Log successful deletion to security audit
-      auditLogger.info('Candidate deleted successfully', {
-        candidateId,
-        userId: req.user?.id,
-        userRole: req.user?.role,
-        correlationId,
-        timestamp: new Date().toISOString()
+      // Only this erasure's files; those that cannot be purged now stay queued for the
+      // retention worker, which also works through the rest of the queue
+      const purge = await purgeQueuedFiles(client, fileHandler, { ids: purgeIds }).catch(error => {
+        logger.error(error as Error, { correlationId, context: 'deleteCandidate' });
+        return null;
       });
 
-      // Track successful deletion metric
-      datadogRum.addAction('candidate_deleted', {
+      logger.info('Candidate anonymized', {
+        correlationId,
         candidateId,
-        correlationId
+        filesToPurge: evidence.files_to_purge,
+        filesPurged: purge?.purged ?? 0,
+        userId: user.sub
       });
 
-      res.status(200).json({
-        success: true,
-        data: {
-          message: 'Candidate deleted successfully',
-          correlationId
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: evidence,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
         }
-      });
+      );
+
     } catch (error) {
-      // Rollback transaction on any error
-      await supabase.rpc('rollback_transaction');
+      await client.query('ROLLBACK');
       throw error;
+    } finally {
+      client.release();
     }
-  } catch (error) {
-    // Log deletion failure
-    auditLogger.error('Candidate deletion failed', {
-      error,
-      candidateId: req.params.id,
-      userId: req.user?.id,
-      correlationId
-    });
 
-    const errorResponse = handleError(error as Error, {
+  } catch (error) {
+    logger.error(error as Error, {
       correlationId,
-      operation: 'candidate_deletion'
+      context: 'deleteCandidate'
     });
 
-    res.status(errorResponse.error.code === ErrorCode.NOT_FOUND ? 404 : 500)
-      .json(errorResponse);
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
   }
-}
\ No newline at end of file
+}
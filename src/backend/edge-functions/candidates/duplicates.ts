@@ -0,0 +1,116 @@
+import { DuplicateCandidateInput, findDuplicateCandidates } from '../../services/candidates/duplicates';
+import { candidateDuplicateCheckSchema } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+
+/**
+ * Edge function handler for duplicate candidate checks. Checks either a profile about to
+ * be created or imported, or an existing candidate against the rest of the talent pool.
+ */
+export async function checkDuplicateCandidates(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.ADMIN && user.role !== UserRole.RECRUITER) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(candidateDuplicateCheckSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      let input: DuplicateCandidateInput = {
+        full_name: payload.full_name!,
+        email: payload.email!,
+        phone: payload.phone
+      };
+
+      if (payload.candidate_id) {
+        const { rows: [candidate] } = await client.query<DuplicateCandidateInput>(
+          `SELECT full_name, email, phone, resume_checksum
+           FROM candidates
+           WHERE id = $1 AND merged_into_id IS NULL`,
+          [payload.candidate_id]
+        );
+        if (!candidate) {
+          throw new AppError('Candidate not found', ErrorCode.NOT_FOUND);
+        }
+        input = candidate;
+      }
+
+      const matches = await findDuplicateCandidates(client, input, payload.candidate_id as UUID | undefined);
+
+      logger.info('Duplicate candidate check completed', {
+        correlationId,
+        candidateId: payload.candidate_id,
+        matches: matches.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: matches,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'checkDuplicateCandidates'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
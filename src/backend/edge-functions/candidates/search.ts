@@ -1,10 +1,11 @@
 import { createClient } from '@supabase/supabase-js'; // ^2.0.0
 import { z } from 'zod'; // ^3.22.0
 import { rateLimit } from '../../utils/rate-limit';
-import { CandidateSearchParams, CandidateStatus } from '../../types/candidates';
+import { CandidateSearchParams, candidateSearchFiltersSchema } from '../../types/candidates';
 import { PaginatedResponse } from '../../types/common';
 import { MatchingService } from '../../services/ai/matching';
 import { aiConfig } from '../../config/ai';
+import { CANDIDATE_SEARCH_DOCUMENT, buildCandidateFilterConditions } from '../../services/candidates/search-filters';
 
 // Initialize Supabase client
 const supabase = createClient(
@@ -19,16 +20,7 @@ const matchingService = new MatchingService(
 );
 
 // Enhanced search parameters validation schema
-const searchParamsSchema = z.object({
-  query: z.string().optional(),
-  status: z.array(z.nativeEnum(CandidateStatus)).optional(),
-  skills: z.array(z.string()).optional(),
-  experienceLevel: z.array(z.string()).optional(),
-  location: z.string().optional(),
-  salaryRange: z.object({
-    min: z.number().min(0),
-    max: z.number().min(0)
-  }).optional(),
+const searchParamsSchema = candidateSearchFiltersSchema.extend({
   page: z.number().min(1).default(1),
   pageSize: z.number().min(10).max(100).default(20),
   jobId: z.string().uuid().optional(),
@@ -42,53 +34,13 @@ function buildSearchQuery(params: CandidateSearchParams): string {
   let query = `
     SELECT 
       c.*,
-      ts_rank_cd(to_tsvector('english', 
-        coalesce(c.full_name, '') || ' ' || 
-        coalesce(c.skills::text, '') || ' ' || 
-        coalesce(c.experience::text, '')
-      ), plainto_tsquery('english', $1)) as search_rank
+      ts_rank_cd(${CANDIDATE_SEARCH_DOCUMENT}, plainto_tsquery('english', $1)) as search_rank
     FROM candidates c
-    WHERE 1=1
+    WHERE c.anonymized_at IS NULL
   `;
 
-  const conditions: string[] = [];
   const values: any[] = [params.query || ''];
-
-  // Status filter
-  if (params.status?.length) {
-    conditions.push(`c.status = ANY($${values.length + 1})`);
-    values.push(params.status);
-  }
-
-  // Skills filter with array intersection
-  if (params.skills?.length) {
-    conditions.push(`c.skills && $${values.length + 1}`);
-    values.push(params.skills);
-  }
-
-  // Experience level filter
-  if (params.experienceLevel?.length) {
-    conditions.push(`c.experience_level = ANY($${values.length + 1})`);
-    values.push(params.experienceLevel);
-  }
-
-  // Location filter with geographic consideration
-  if (params.location) {
-    conditions.push(`
-      c.location ILIKE $${values.length + 1} OR 
-      c.preferences->>'preferred_locations' ? $${values.length + 1}
-    `);
-    values.push(`%${params.location}%`);
-  }
-
-  // Salary range filter
-  if (params.salaryRange) {
-    conditions.push(`
-      c.preferences->>'salary_expectation_min' <= $${values.length + 1} AND
-      c.preferences->>'salary_expectation_max' >= $${values.length + 2}
-    `);
-    values.push(params.salaryRange.max, params.salaryRange.min);
-  }
+  const conditions = buildCandidateFilterConditions(params, values);
 
   // Add conditions to base query
   if (conditions.length) {
@@ -105,7 +57,11 @@ export async function searchCandidates(request: Request): Promise<Response> {
   try {
     // Parse and validate request parameters
     const { searchParams } = new URL(request.url);
-    const params = searchParamsSchema.parse(Object.fromEntries(searchParams));
+    // Tags repeat in the query string, one parameter per tag
+    const params = searchParamsSchema.parse({
+      ...Object.fromEntries(searchParams),
+      tags: searchParams.getAll('tags')
+    });
 
     // Apply rate limiting
     const rateLimitResult = await rateLimit(request, {
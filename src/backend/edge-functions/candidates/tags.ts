@@ -0,0 +1,132 @@
+import { TAG_USER_ROLES, bulkTagSchema } from '../../types/tags';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { resolveTagNames, setCandidateTags } from '../../services/tags/tags';
+
+/**
+ * Edge function handler for tagging and untagging many candidates at once. Tags to add
+ * can be given by name; names that are not tags yet become free-form tags.
+ */
+export async function bulkTagCandidates(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!TAG_USER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const request = await validateInput(bulkTagSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const named = await resolveTagNames(client, request.add_tag_names, user.sub);
+      const add = [...request.add_tag_ids, ...named.map(tag => tag.id)] as UUID[];
+      const result = await setCandidateTags(
+        client,
+        request.candidate_ids as UUID[],
+        { add, remove: request.remove_tag_ids as UUID[] },
+        user.sub
+      );
+
+      // Record audit log, one entry per candidate so each shows its tagging
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        )
+        SELECT 'candidate', candidate_id, 'tag', $2, $3, $4
+        FROM unnest($1::uuid[]) AS candidate_id`,
+        [
+          request.candidate_ids,
+          user.sub,
+          JSON.stringify({ added_tag_ids: add, removed_tag_ids: request.remove_tag_ids }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidates tagged successfully', {
+        correlationId,
+        candidateCount: request.candidate_ids.length,
+        ...result,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...result, tags: named },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'bulkTagCandidates'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { rateLimit } from '@vercel/edge-rate-limit'; // ^1.0.0
 
 import { Candidate, CandidateStatus, ExperienceLevel } from '../../types/candidates';
 import { validateInput } from '../../utils/validation';
+import { normalizeEmail, normalizePhone } from '../../services/candidates/duplicates';
 import { AppError } from '../../utils/error-handler';
 import { ErrorCode } from '../../types/common';
 
@@ -117,6 +118,12 @@ export const updateCandidate = rateLimit({
     const validatedBody = await validateInput(updateCandidateSchema, rawBody);
     const sanitizedBody = sanitizeObject(validatedBody);
 
+    // Keep the duplicate detection keys in step with the contact details
+    const duplicateKeys = {
+      ...(sanitizedBody.email && { normalized_email: normalizeEmail(sanitizedBody.email) }),
+      ...(sanitizedBody.phone !== undefined && { normalized_phone: normalizePhone(sanitizedBody.phone) })
+    };
+
     // Update candidate with retry logic
     let retries = 0;
     let updateError: Error | null = null;
@@ -127,6 +134,7 @@ export const updateCandidate = rateLimit({
           .from('candidates')
           .update({
             ...sanitizedBody,
+            ...duplicateKeys,
             updated_at: new Date().toISOString()
           })
           .eq('id', candidateId)
@@ -0,0 +1,322 @@
+import { OpenAI } from 'openai'; // ^4.0.0
+import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
+import { careerApplicationSchema } from '../../types/careers';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { databaseConfig } from '../../config/database';
+import { aiConfig } from '../../config/ai';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { AuthErrorCode } from '../../types/auth';
+import { ResumeParser } from '../../services/ai/resume-parser';
+import { ResumeStorage } from '../../services/storage/resume-storage';
+import { FileHandler, calculateChecksum } from '../../services/storage/file-handler';
+import { getPublicJob } from '../../services/careers/jobs';
+import { getScreeningQuestions } from '../../services/screening/questions';
+import { evaluateScreeningAnswers } from '../../services/screening/answers';
+import {
+  deleteAnswerFiles,
+  getAnswerFiles,
+  parseAnswersField,
+  uploadAnswerFiles
+} from '../../services/screening/files';
+import { ScreeningQuestion } from '../../types/screening';
+import { CareerApplicationReceipt } from '../../types/careers';
+import {
+  CareerResume,
+  buildCareerReceipt,
+  buildCareerSiteSource,
+  hasOpenCareerApplication,
+  submitCareerApplication
+} from '../../services/careers/applications';
+
+// Anonymous submissions are limited tightly per client IP to keep out spam
+const rateLimiter = rateLimit({
+  requests: 10,
+  duration: '1h'
+});
+
+const resumeStorage = new ResumeStorage();
+const fileHandler = new FileHandler();
+const resumeParser = new ResumeParser(
+  new OpenAI({ apiKey: aiConfig.openai.apiKey }),
+  fileHandler
+);
+
+/**
+ * Uploads the applicant's resume and extracts what it can from it. A resume that cannot
+ * be parsed does not fail the application; recruiters still get the file.
+ */
+async function processResume(resume: File, jobId: UUID, correlationId: string): Promise<CareerResume> {
+  const checksum = await calculateChecksum(resume);
+
+  let upload: Awaited<ReturnType<ResumeStorage['uploadResume']>>;
+  try {
+    upload = await resumeStorage.uploadResume(resume, crypto.randomUUID(), {
+      source: 'careers-site',
+      jobId
+    });
+  } catch (error) {
+    throw new AppError('Resume could not be uploaded', ErrorCode.BAD_REQUEST, {
+      reason: (error as Error).message
+    });
+  }
+
+  let parsed: CareerResume['parsed'] = null;
+  try {
+    const candidate = await resumeParser.parseResume('resumes', upload.key, {
+      extractEducation: true,
+      extractExperience: true,
+      extractSkills: true
+    });
+    parsed = {
+      experience_level: candidate.experience_level,
+      skills: candidate.skills,
+      experience: candidate.experience,
+      education: candidate.education
+    };
+  } catch (error) {
+    logger.warn('Resume parsing failed for careers site application', {
+      correlationId,
+      jobId,
+      error: (error as Error).message
+    });
+  }
+
+  return {
+    url: upload.url,
+    checksum,
+    parsed
+  };
+}
+
+/**
+ * Removes the files stored for an application that was not made. Removal is best
+ * effort; the storage handler logs the files it could not remove.
+ */
+async function discardApplicationFiles(
+  answers: Array<{ value: unknown }>,
+  resume: CareerResume | null
+): Promise<void> {
+  await deleteAnswerFiles(answers, fileHandler);
+  const resumeKey = resume && fileHandler.getStorageKey('resumes', resume.url);
+  if (resumeKey) {
+    await resumeStorage.deleteResume(resumeKey).catch(() => undefined);
+  }
+}
+
+function receiptResponse(receipt: CareerApplicationReceipt, correlationId: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: true,
+      data: receipt,
+      error: null
+    }),
+    {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Correlation-ID': correlationId
+      }
+    }
+  );
+}
+
+/**
+ * Edge function handler for applications submitted through the public careers site
+ * and its embeddable form. Expects multipart form data with the applicant's details,
+ * a resume file, screening answers as JSON in the answers field, and one
+ * answer_file_<question id> file per file upload question answered.
+ */
+export async function applyToCareerJob(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    const clientIp = req.headers.get('cf-connecting-ip') ||
+      req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      'anonymous';
+    const { success } = await rateLimiter.limit(clientIp);
+    if (!success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          data: null,
+          error: {
+            code: AuthErrorCode.RATE_LIMIT_EXCEEDED,
+            message: 'Too many applications, please try again later',
+            details: { retryAfter: 3600 }
+          }
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': '3600',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    }
+
+    // Extract job ID from URL (/careers/jobs/:id/apply)
+    const segments = new URL(req.url).pathname.split('/');
+    const jobId = await validateInput(uuidSchema, segments[segments.length - 2]) as UUID;
+
+    const formData = await req.formData();
+    const optionalField = (name: string) => (formData.get(name) as string | null) || undefined;
+    const payload = await validateInput(careerApplicationSchema, {
+      full_name: formData.get('full_name'),
+      email: formData.get('email'),
+      phone: optionalField('phone'),
+      location: formData.get('location'),
+      cover_letter: optionalField('cover_letter'),
+      referral_code: optionalField('referral_code'),
+      source_url: optionalField('source_url'),
+      answers: parseAnswersField(formData.get('answers'))
+    });
+
+    const resumeFile = formData.get('resume');
+    if (!(resumeFile instanceof File) || resumeFile.size === 0) {
+      throw new AppError('A resume is required', ErrorCode.BAD_REQUEST);
+    }
+
+    logger.info('Processing careers site application', {
+      correlationId,
+      jobId,
+      hasReferralCode: !!payload.referral_code
+    });
+
+    const pool = await databaseConfig.getPool();
+
+    // Reject applications that would be refused before storing anything: to unpublished
+    // jobs, with required questions unanswered, or from applicants who already applied.
+    // Attached files stand in for the answers they are uploaded as.
+    const lookupClient = await pool.connect();
+    let questions: ScreeningQuestion[];
+    try {
+      const job = await getPublicJob(lookupClient, jobId);
+      questions = await getScreeningQuestions(lookupClient, jobId);
+      evaluateScreeningAnswers(questions, [
+        ...payload.answers,
+        ...getAnswerFiles(formData, questions).map(({ question, file }) => ({
+          question_id: question.id,
+          value: file.name || question.id
+        }))
+      ], { requireAll: true });
+
+      if (await hasOpenCareerApplication(lookupClient, jobId, payload)) {
+        logger.info('Careers site application received', {
+          correlationId,
+          jobId,
+          applicationId: null,
+          alreadyApplied: true
+        });
+        return receiptResponse(buildCareerReceipt(job), correlationId);
+      }
+    } finally {
+      lookupClient.release();
+    }
+
+    const answerFiles = await uploadAnswerFiles(formData, jobId, questions, fileHandler, 'careers-site');
+    payload.answers.push(...answerFiles);
+
+    let resume: CareerResume | null = null;
+    const client = await pool.connect();
+    try {
+      resume = await processResume(resumeFile, jobId, correlationId);
+      const source = buildCareerSiteSource(payload.source_url, req.headers.get('referer'));
+
+      await client.query('BEGIN');
+
+      const { receipt, application } = await submitCareerApplication(
+        client,
+        jobId,
+        payload,
+        resume,
+        source
+      );
+
+      if (application) {
+        // Record audit log; contact details stay out of it
+        await client.query(
+          `INSERT INTO audit_logs (
+            entity_type,
+            entity_id,
+            action,
+            user_id,
+            changes,
+            correlation_id
+          ) VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            'application',
+            application.id,
+            'create',
+            null,
+            JSON.stringify({
+              job_id: jobId,
+              candidate_id: application.candidate_id,
+              channel: 'careers_site',
+              referral_code: !!payload.referral_code
+            }),
+            correlationId
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      // The applicant applied since the check above; that application has its own files
+      if (!application) {
+        await discardApplicationFiles(answerFiles, resume);
+      }
+
+      logger.info('Careers site application received', {
+        correlationId,
+        jobId,
+        applicationId: application?.id ?? null,
+        alreadyApplied: !application
+      });
+
+      return receiptResponse(receipt, correlationId);
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      await discardApplicationFiles(answerFiles, resume);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'applyToCareerJob'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
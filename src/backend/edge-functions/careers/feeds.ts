@@ -0,0 +1,145 @@
+import Redis from 'ioredis'; // ^5.3.0
+import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
+import { FEED_CACHE_TTL, FEED_CONTENT_TYPES, FeedFormat, feedFormatSchema } from '../../types/syndication';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode } from '../../types/common';
+import {
+  getFeedFingerprint,
+  getFeedPublisher,
+  listSyndicatedJobs,
+  renderFeed
+} from '../../services/syndication/feeds';
+
+// Initialize Redis client for caching
+const redis = new Redis({
+  host: process.env.REDIS_HOST,
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+  maxRetriesPerRequest: 3,
+  enableReadyCheck: true
+});
+
+const CACHE_PREFIX = 'careers:feed:';
+
+// Rate limiting configuration, per client IP; aggregators poll without logging in
+const rateLimiter = rateLimit({
+  requests: 1000,
+  duration: '1h'
+});
+
+/**
+ * Edge function handler serving the job syndication feeds (Indeed XML, RSS and Atom)
+ * of the public careers site. Feeds are cached under a fingerprint of the live jobs, so
+ * a closed or filled job disappears from every feed on the next request.
+ */
+export async function getJobFeed(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    const clientIp = req.headers.get('cf-connecting-ip') ||
+      req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      'anonymous';
+    const { success } = await rateLimiter.limit(clientIp);
+    if (!success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          data: null,
+          error: {
+            code: ErrorCode.FORBIDDEN,
+            message: 'Too many requests, please try again later',
+            details: { retryAfter: 3600 }
+          }
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': '3600',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    }
+
+    // Extract feed format from URL (/careers/feeds/:format)
+    const url = new URL(req.url);
+    const format = await validateInput(feedFormatSchema, url.pathname.split('/').pop()) as FeedFormat;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const fingerprint = await getFeedFingerprint(client);
+      const etag = `"${format}-${fingerprint}"`;
+      const headers = {
+        'Content-Type': FEED_CONTENT_TYPES[format],
+        'Cache-Control': `public, max-age=${FEED_CACHE_TTL}`,
+        'ETag': etag,
+        'X-Correlation-ID': correlationId
+      };
+
+      if (req.headers.get('if-none-match') === etag) {
+        return new Response(null, { status: 304, headers });
+      }
+
+      const cacheKey = `${CACHE_PREFIX}${format}:${fingerprint}`;
+      let feed = await redis.get(cacheKey);
+      if (!feed) {
+        const jobs = await listSyndicatedJobs(client);
+        feed = renderFeed(format, jobs, {
+          publisher: getFeedPublisher(),
+          baseUrl: process.env.APP_URL ?? '',
+          feedUrl: `${url.origin}${url.pathname}`,
+          generatedAt: new Date()
+        });
+        await redis.setex(cacheKey, FEED_CACHE_TTL, feed);
+
+        logger.info('Job feed generated', {
+          correlationId,
+          format,
+          jobCount: jobs.length
+        });
+      }
+
+      return new Response(feed, { status: 200, headers });
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'getJobFeed'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
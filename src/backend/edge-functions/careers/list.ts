@@ -0,0 +1,125 @@
+import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
+import { publicJobListParamsSchema } from '../../types/careers';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode } from '../../types/common';
+import { listPublicJobs } from '../../services/careers/jobs';
+
+// Rate limiting configuration, per client IP; the careers site needs no login
+const rateLimiter = rateLimit({
+  requests: 1000,
+  duration: '1h'
+});
+
+// Published jobs change rarely; let browsers and the CDN reuse listings briefly
+const CACHE_CONTROL = 'public, max-age=300';
+
+/**
+ * Edge function handler listing published jobs on the public careers site
+ */
+export async function listCareerJobs(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    const clientIp = req.headers.get('cf-connecting-ip') ||
+      req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      'anonymous';
+    const { success } = await rateLimiter.limit(clientIp);
+    if (!success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          data: null,
+          error: {
+            code: ErrorCode.FORBIDDEN,
+            message: 'Too many requests, please try again later',
+            details: { retryAfter: 3600 }
+          }
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': '3600',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const params = await validateInput(publicJobListParamsSchema, {
+      search: searchParams.get('search') || undefined,
+      type: searchParams.get('type') || undefined,
+      location: searchParams.get('location') || undefined,
+      remote_only: searchParams.get('remote_only') === 'true',
+      page: searchParams.has('page') ? Number(searchParams.get('page')) : undefined,
+      limit: searchParams.has('limit') ? Number(searchParams.get('limit')) : undefined
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const jobs = await listPublicJobs(client, params);
+
+      logger.info('Careers site jobs listed', {
+        correlationId,
+        count: jobs.data.length,
+        total: jobs.total
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: jobs,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': CACHE_CONTROL,
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listCareerJobs'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
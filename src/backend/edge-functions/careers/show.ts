@@ -0,0 +1,120 @@
+import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { getPublicJob } from '../../services/careers/jobs';
+import { getPublicScreeningQuestions } from '../../services/screening/questions';
+import { getFeedPublisher } from '../../services/syndication/feeds';
+import { toJobPostingJsonLd } from '../../services/syndication/json-ld';
+
+// Rate limiting configuration, per client IP; the careers site needs no login
+const rateLimiter = rateLimit({
+  requests: 1000,
+  duration: '1h'
+});
+
+const CACHE_CONTROL = 'public, max-age=300';
+
+/**
+ * Edge function handler showing a published job on the public careers site, with the
+ * schema.org JobPosting the job page embeds for search engines and the screening
+ * questions of its application form
+ */
+export async function getCareerJob(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    const clientIp = req.headers.get('cf-connecting-ip') ||
+      req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      'anonymous';
+    const { success } = await rateLimiter.limit(clientIp);
+    if (!success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          data: null,
+          error: {
+            code: ErrorCode.FORBIDDEN,
+            message: 'Too many requests, please try again later',
+            details: { retryAfter: 3600 }
+          }
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': '3600',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    }
+
+    // Extract job ID from URL
+    const jobId = await validateInput(uuidSchema, new URL(req.url).pathname.split('/').pop()) as UUID;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const job = await getPublicJob(client, jobId);
+      const screeningQuestions = await getPublicScreeningQuestions(client, jobId);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            ...job,
+            screening_questions: screeningQuestions,
+            structured_data: toJobPostingJsonLd(job, getFeedPublisher())
+          },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': CACHE_CONTROL,
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'getCareerJob'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
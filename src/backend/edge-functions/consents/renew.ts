@@ -0,0 +1,119 @@
+import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
+import { consentRenewalTokenSchema } from '../../types/privacy';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode } from '../../types/common';
+import { renewConsent as extendConsent } from '../../services/privacy/consents';
+
+// Anonymous renewals are limited per client IP so tokens cannot be guessed
+const rateLimiter = rateLimit({
+  requests: 20,
+  duration: '1h'
+});
+
+/**
+ * Edge function handler for the consent renewal link emailed to candidates. The
+ * candidate needs no account; the token in the link identifies the consent. Only what
+ * was renewed and until when is returned.
+ */
+export async function renewConsent(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    const clientIp = req.headers.get('cf-connecting-ip') ||
+      req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      'anonymous';
+    const { success } = await rateLimiter.limit(clientIp);
+    if (!success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          data: null,
+          error: {
+            code: ErrorCode.FORBIDDEN,
+            message: 'Too many attempts, please try again later',
+            details: { retryAfter: 3600 }
+          }
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': '3600',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    }
+
+    // Extract token from URL (/consents/renew/:token)
+    const url = new URL(req.url);
+    const token = await validateInput(consentRenewalTokenSchema, url.pathname.split('/').pop());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const renewal = await extendConsent(client, token);
+      await client.query('COMMIT');
+
+      logger.info('Candidate consent renewed', { correlationId });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: renewal,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'renewConsent'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { DEPARTMENT_MANAGER_ROLES, Department, departmentCreateSchema } from '../../types/departments';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import {
+  assertDepartmentNameAvailable,
+  assertValidParent,
+  setDepartmentMembers
+} from '../../services/departments/departments';
+
+/**
+ * Edge function handler for creating a department, optionally below a parent department
+ */
+export async function createDepartment(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!DEPARTMENT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(departmentCreateSchema, await req.json());
+    const name = sanitizeInput(payload.name);
+    const costCenter = payload.cost_center ? sanitizeInput(payload.cost_center) : null;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (payload.parent_id) {
+        await assertValidParent(client, payload.parent_id as UUID);
+      }
+      await assertDepartmentNameAvailable(client, name, payload.parent_id as UUID | null);
+
+      const { rows: [department] } = await client.query<Department>(
+        `INSERT INTO departments (name, parent_id, cost_center, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [name, payload.parent_id, costCenter, user.sub]
+      );
+
+      await setDepartmentMembers(client, department.id, payload.member_ids as UUID[]);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'department',
+          department.id,
+          'create',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Department created successfully', {
+        correlationId,
+        departmentId: department.id,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...department, member_ids: [...new Set(payload.member_ids)] },
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createDepartment'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
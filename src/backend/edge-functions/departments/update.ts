@@ -0,0 +1,208 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { DEPARTMENT_MANAGER_ROLES, Department, departmentUpdateSchema } from '../../types/departments';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import {
+  assertDepartmentNameAvailable,
+  assertValidParent,
+  setDepartmentMembers
+} from '../../services/departments/departments';
+
+// Request schema for department update
+const updateDepartmentRequestSchema = z.object({
+  departmentId: z.string().uuid(),
+  payload: departmentUpdateSchema
+});
+
+/**
+ * Edge function handler for renaming, moving, archiving or restoring a department and
+ * replacing its members. Departments are archived rather than deleted so jobs keep
+ * their department for reporting.
+ */
+export async function updateDepartment(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!DEPARTMENT_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { departmentId, payload } = await validateInput(
+      updateDepartmentRequestSchema,
+      await req.json()
+    );
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [existing] } = await client.query<Department>(
+        'SELECT * FROM departments WHERE id = $1 FOR UPDATE',
+        [departmentId]
+      );
+      if (!existing) {
+        throw new AppError('Department not found', ErrorCode.NOT_FOUND);
+      }
+
+      const name = payload.name !== undefined ? sanitizeInput(payload.name) : existing.name;
+      const parentId = payload.parent_id !== undefined ? payload.parent_id as UUID | null : existing.parent_id;
+      const willBeActive = payload.archived !== undefined ? !payload.archived : !existing.archived_at;
+
+      if (payload.parent_id) {
+        await assertValidParent(client, payload.parent_id as UUID, departmentId as UUID);
+      }
+      if (willBeActive) {
+        await assertDepartmentNameAvailable(client, name, parentId, departmentId as UUID);
+      }
+
+      // Archiving a department would hide its active children from the tree
+      if (payload.archived && !existing.archived_at) {
+        const { rows: [child] } = await client.query(
+          'SELECT 1 FROM departments WHERE parent_id = $1 AND archived_at IS NULL LIMIT 1',
+          [departmentId]
+        );
+        if (child) {
+          throw new AppError(
+            'Archive or move the departments below this department first',
+            ErrorCode.CONFLICT
+          );
+        }
+      }
+
+      // Build update query dynamically
+      const updates: string[] = [];
+      const values: any[] = [departmentId];
+      let paramCount = 2;
+
+      if (payload.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(name);
+      }
+      if (payload.parent_id !== undefined) {
+        updates.push(`parent_id = $${paramCount++}`);
+        values.push(parentId);
+      }
+      if (payload.cost_center !== undefined) {
+        updates.push(`cost_center = $${paramCount++}`);
+        values.push(payload.cost_center ? sanitizeInput(payload.cost_center) : null);
+      }
+      if (payload.archived !== undefined) {
+        updates.push(payload.archived ? 'archived_at = COALESCE(archived_at, NOW())' : 'archived_at = NULL');
+      }
+      updates.push('updated_at = NOW()');
+
+      const { rows: [department] } = await client.query<Department>(
+        `UPDATE departments SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      if (payload.member_ids !== undefined) {
+        await setDepartmentMembers(client, departmentId as UUID, payload.member_ids as UUID[]);
+      }
+
+      const { rows: [{ member_ids }] } = await client.query<{ member_ids: UUID[] }>(
+        `SELECT COALESCE(array_agg(user_id), '{}') AS member_ids
+         FROM department_members WHERE department_id = $1`,
+        [departmentId]
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'department',
+          departmentId,
+          'update',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Department updated successfully', {
+        correlationId,
+        departmentId,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...department, member_ids },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'updateDepartment'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
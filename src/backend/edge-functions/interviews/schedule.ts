@@ -8,6 +8,7 @@ import { Interview, InterviewType, InterviewStatus, InterviewMode } from '../../
 import { InterviewScheduler } from '../../services/calendar/scheduler';
 import { EmailSender } from '../../services/email/sender';
 import { ApiResponse } from '../../types/common';
+import { CandidateEmailCategory } from '../../types/timeline';
 import { logger } from '../../utils/logger';
 
 // Initialize Supabase client
@@ -174,8 +175,8 @@ export async function scheduleInterviewHandler(
       );
     }
 
-    // Send email notifications
-    await emailSender.sendBulkEmails([
+    // Send email notifications; the candidate's email comes first
+    const [candidateEmail] = await emailSender.sendBulkEmails([
       {
         to: candidate.data.email,
         subject: `Interview Scheduled: ${job.data.title}`,
@@ -198,6 +199,22 @@ export async function scheduleInterviewHandler(
       }))
     ]);
 
+    // Record the candidate's email for their activity timeline
+    if (candidateEmail?.success) {
+      const { error: emailLogError } = await supabase
+        .from('candidate_emails')
+        .insert([{
+          candidate_id: validatedData.candidateId,
+          category: CandidateEmailCategory.INTERVIEW,
+          subject: `Interview Scheduled: ${job.data.title}`,
+          recipient: candidate.data.email,
+          correlation_id: correlationId
+        }]);
+      if (emailLogError) {
+        logger.warn('Interview email could not be recorded', { correlationId, error: emailLogError });
+      }
+    }
+
     // Log success
     logger.info('Interview scheduled successfully', {
       correlationId,
@@ -118,9 +118,11 @@ export default async function updateInterview(req: Request): Promise<ApiResponse
       throw new AppError('Interview not found', 'NOT_FOUND');
     }
 
+    const rescheduled = Boolean(validatedPayload.scheduled_at &&
+      validatedPayload.scheduled_at.getTime() !== new Date(interview.scheduled_at).getTime());
+
     // Handle calendar updates if scheduled_at changed
-    if (validatedPayload.scheduled_at && 
-        validatedPayload.scheduled_at.getTime() !== interview.scheduled_at.getTime()) {
+    if (rescheduled) {
       let retryCount = 0;
       let calendarUpdateSuccess = false;
 
@@ -156,7 +158,15 @@ export default async function updateInterview(req: Request): Promise<ApiResponse
         ...validatedPayload,
         updated_at: new Date(),
         status: validatedPayload.status || interview.status,
-        last_modified_by: userId
+        last_modified_by: userId,
+        // A new time answers the candidate's reschedule request and needs confirming again
+        ...(rescheduled && {
+          candidate_confirmed: false,
+          candidate_confirmed_at: null,
+          reschedule_requested_at: null,
+          reschedule_reason: null,
+          reschedule_preferred_times: null
+        })
       })
       .eq('id', id)
       .single();
@@ -0,0 +1,167 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { JOB_TEMPLATE_MANAGER_ROLES, JobTemplate, jobTemplateUpdateSchema } from '../../types/jobs';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { assertTemplateNameAvailable } from '../../services/jobs/templates';
+
+// Request schema for job template update
+const updateTemplateRequestSchema = z.object({
+  templateId: z.string().uuid(),
+  payload: jobTemplateUpdateSchema
+});
+
+/**
+ * Edge function handler for renaming, archiving or restoring a job template. Template
+ * content is not edited in place; save an updated job as a new template instead.
+ */
+export async function updateJobTemplate(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!JOB_TEMPLATE_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { templateId, payload } = await validateInput(
+      updateTemplateRequestSchema,
+      await req.json()
+    );
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [existing] } = await client.query<JobTemplate>(
+        'SELECT * FROM job_templates WHERE id = $1 FOR UPDATE',
+        [templateId]
+      );
+      if (!existing) {
+        throw new AppError('Job template not found', ErrorCode.NOT_FOUND);
+      }
+
+      // The name must stay unique among active templates, including when restoring one
+      const name = payload.name !== undefined ? sanitizeInput(payload.name) : existing.name;
+      const willBeActive = payload.archived !== undefined ? !payload.archived : !existing.archived_at;
+      if (willBeActive) {
+        await assertTemplateNameAvailable(client, name, templateId as UUID);
+      }
+
+      // Build update query dynamically
+      const updates: string[] = [];
+      const values: any[] = [templateId];
+      let paramCount = 2;
+
+      if (payload.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(name);
+      }
+      if (payload.archived !== undefined) {
+        updates.push(payload.archived ? 'archived_at = NOW()' : 'archived_at = NULL');
+      }
+      updates.push('updated_at = NOW()');
+
+      const { rows: [template] } = await client.query<JobTemplate>(
+        `UPDATE job_templates SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'job_template',
+          templateId,
+          'update',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Job template updated successfully', {
+        correlationId,
+        templateId,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: template,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'updateJobTemplate'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
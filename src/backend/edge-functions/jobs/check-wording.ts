@@ -0,0 +1,89 @@
+import { JOB_REVIEWER_ROLES, jobWordingCheckSchema } from '../../types/jobs';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getJobDescriptionWriter } from '../../services/ai/job-writer';
+
+/**
+ * Edge function handler flagging exclusionary or biased wording, unrealistic
+ * requirement stacks and a missing salary range in a job, with suggested replacements.
+ * The local rule list still answers when the AI service is unavailable.
+ */
+export async function checkJobWording(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!JOB_REVIEWER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const input = await validateInput(jobWordingCheckSchema, await req.json());
+
+    const result = await getJobDescriptionWriter().checkWording(input);
+
+    logger.info('Job wording checked', {
+      correlationId,
+      issueCount: result.issues.length,
+      aiChecked: result.ai_checked,
+      userId: user.sub
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: result,
+        error: null
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'checkJobWording'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
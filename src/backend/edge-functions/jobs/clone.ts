@@ -0,0 +1,138 @@
+import { JOB_TEMPLATE_MANAGER_ROLES, Job, jobCloneSchema } from '../../types/jobs';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { cloneJob } from '../../services/jobs/templates';
+
+/**
+ * Edge function handler for cloning a job, optionally with a different title, location
+ * or job type. The clone starts as a draft owned by the current user.
+ */
+export async function cloneJobPosting(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!JOB_TEMPLATE_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract source job ID from URL (/jobs/:id/clone)
+    const sourceJobId = await validateInput(uuidSchema, new URL(req.url).pathname.split('/').slice(-2)[0]) as UUID;
+    const changes = await validateInput(jobCloneSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [source] } = await client.query<Job>(
+        'SELECT * FROM jobs WHERE id = $1',
+        [sourceJobId]
+      );
+      if (!source) {
+        throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+      }
+
+      const job = await cloneJob(client, source, {
+        ...changes,
+        ...(changes.title ? { title: sanitizeInput(changes.title) } : {}),
+        ...(changes.location ? { location: sanitizeInput(changes.location) } : {})
+      }, user.sub);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'job',
+          job.id,
+          'clone',
+          user.sub,
+          JSON.stringify({ source_job_id: sourceJobId, ...changes }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Job cloned successfully', {
+        correlationId,
+        jobId: job.id,
+        sourceJobId,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: job,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'cloneJobPosting'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -4,9 +4,10 @@ import { rateLimit } from '@supabase/gotrue-js'; // ^2.33.0
 import { Job, JobStatus, jobSchema } from '../../types/jobs';
 import { validateInput, sanitizeInput } from '../../utils/validation';
 import { AppError } from '../../utils/error-handler';
-import { ErrorCode } from '../../types/common';
+import { ErrorCode, UUID } from '../../types/common';
 import { databaseConfig } from '../../config/database';
 import { logger } from '../../utils/logger';
+import { assertActiveDepartment } from '../../services/departments/departments';
 
 // Constants for request validation
 const MAX_TITLE_LENGTH = 200;
@@ -59,6 +60,14 @@ async function validateJobInput(data: unknown): Promise<z.infer<typeof createJob
       );
     }
 
+    if (validatedData.publish_at && validatedData.publish_at.getTime() <= Date.now()) {
+      throw new AppError(
+        'Scheduled publish time must be in the future',
+        ErrorCode.VALIDATION_ERROR,
+        { publish_at: validatedData.publish_at }
+      );
+    }
+
     return validatedData;
   } catch (error) {
     if (error instanceof AppError) {
@@ -111,14 +120,21 @@ export const createJob = rateLimit({
         try {
           await client.query('BEGIN');
 
+          if (jobData.department_id) {
+            await assertActiveDepartment(client, jobData.department_id as UUID);
+          }
+
           // Insert job record with parameterized query
           const query = `
             INSERT INTO jobs (
               id, title, description, creator_id, requirements,
               status, type, skills, posted_at, salary_min,
-              salary_max, location, remote_allowed
+              salary_max, location, remote_allowed, pipeline_template_id,
+              headcount, publish_at, department_id
             ) VALUES (
-              $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+              $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+              COALESCE($14, (SELECT id FROM pipeline_templates WHERE is_default)),
+              $15, $16, $17
             ) RETURNING *
           `;
 
@@ -135,7 +151,11 @@ export const createJob = rateLimit({
             jobData.salary_min,
             jobData.salary_max,
             jobData.location,
-            jobData.remote_allowed
+            jobData.remote_allowed,
+            jobData.pipeline_template_id ?? null,
+            jobData.headcount,
+            jobData.publish_at ?? null,
+            jobData.department_id ?? null
           ];
 
           const result = await client.query(query, values);
@@ -167,6 +187,9 @@ export const createJob = rateLimit({
           client.release();
         }
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         logger.error('Failed to create job', {
           error,
           jobData: { ...jobData, id: jobId }
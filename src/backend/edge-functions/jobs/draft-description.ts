@@ -0,0 +1,88 @@
+import { JOB_REVIEWER_ROLES, jobDescriptionDraftSchema } from '../../types/jobs';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getJobDescriptionWriter } from '../../services/ai/job-writer';
+
+/**
+ * Edge function handler drafting the description and requirements of a job from its
+ * title, level and a few highlights
+ */
+export async function draftJobDescription(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!JOB_REVIEWER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const input = await validateInput(jobDescriptionDraftSchema, await req.json());
+
+    const draft = await getJobDescriptionWriter().draft(input);
+
+    logger.info('Job description drafted', {
+      correlationId,
+      issueCount: draft.issues.length,
+      userId: user.sub
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: draft,
+        error: null
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'draftJobDescription'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.SERVICE_UNAVAILABLE ? 503 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -1,27 +1,19 @@
 import { z } from 'zod'; // ^3.22.0
 import Redis from 'ioredis'; // ^5.3.0
-import { Job, JobStatus, JobType, ExperienceLevel } from '../../types/jobs';
-import { validateInput, sanitizeInput } from '../../utils/validation';
+import { Job, jobSearchFiltersSchema } from '../../types/jobs';
+import { validateInput } from '../../utils/validation';
 import { databaseConfig } from '../../config/database';
 import { PaginatedResponse, createPaginatedResponse } from '../../types/common';
 import { AppError } from '../../utils/error-handler';
 import { logger } from '../../utils/logger';
+import { buildJobFilterConditions } from '../../services/jobs/search-filters';
 
 // Cache configuration
 const CACHE_TTL = 900; // 15 minutes in seconds
 const redis = new Redis(process.env.REDIS_URL as string);
 
 // Search parameters schema with comprehensive validation
-const searchParamsSchema = z.object({
-  query: z.string().trim().min(1).max(200).optional(),
-  status: z.array(z.nativeEnum(JobStatus)).optional(),
-  type: z.array(z.nativeEnum(JobType)).optional(),
-  skills: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
-  experience_level: z.array(z.nativeEnum(ExperienceLevel)).optional(),
-  location: z.string().trim().min(1).max(100).optional(),
-  remote_only: z.boolean().optional(),
-  salary_min: z.number().min(0).max(1000000).optional(),
-  salary_max: z.number().min(0).max(1000000).optional(),
+const searchParamsSchema = jobSearchFiltersSchema.extend({
   page: z.number().min(1).max(1000).default(1),
   limit: z.number().min(1).max(100).default(20)
 });
@@ -47,88 +39,31 @@ function buildSearchQuery(params: z.infer<typeof searchParamsSchema>): {
   values: any[];
 } {
   const values: any[] = [];
-  const conditions: string[] = ['status = \'PUBLISHED\''];
-  let paramIndex = 1;
-
-  // Full-text search with weighted columns
-  if (params.query) {
-    const sanitizedQuery = sanitizeInput(params.query);
-    values.push(sanitizedQuery);
-    conditions.push(`
-      (to_tsvector('english', title) || 
-       to_tsvector('english', description) || 
-       to_tsvector('english', array_to_string(skills, ' '))) @@ plainto_tsquery('english', $${paramIndex++})
-    `);
-  }
-
-  // Status filter
-  if (params.status?.length) {
-    values.push(params.status);
-    conditions.push(`status = ANY($${paramIndex++})`);
-  }
-
-  // Job type filter
-  if (params.type?.length) {
-    values.push(params.type);
-    conditions.push(`type = ANY($${paramIndex++})`);
-  }
-
-  // Skills filter
-  if (params.skills?.length) {
-    values.push(params.skills);
-    conditions.push(`skills && $${paramIndex++}`);
-  }
-
-  // Experience level filter
-  if (params.experience_level?.length) {
-    values.push(params.experience_level);
-    conditions.push(`requirements->>'experience_level' = ANY($${paramIndex++})`);
-  }
-
-  // Location filter
-  if (params.location) {
-    const sanitizedLocation = sanitizeInput(params.location);
-    values.push(`%${sanitizedLocation}%`);
-    conditions.push(`location ILIKE $${paramIndex++}`);
-  }
-
-  // Remote filter
-  if (params.remote_only) {
-    conditions.push('remote_allowed = true');
-  }
-
-  // Salary range filter
-  if (params.salary_min !== undefined) {
-    values.push(params.salary_min);
-    conditions.push(`salary_max >= $${paramIndex++}`);
-  }
-  if (params.salary_max !== undefined) {
-    values.push(params.salary_max);
-    conditions.push(`salary_min <= $${paramIndex++}`);
-  }
+  const conditions: string[] = ['j.status = \'PUBLISHED\'', ...buildJobFilterConditions(params, values)];
 
   // Calculate pagination offset
   const offset = (params.page - 1) * params.limit;
   values.push(params.limit, offset);
+  const limitIndex = values.length - 1;
 
   const query = `
     WITH job_search AS (
       SELECT *,
         ts_rank(
-          setweight(to_tsvector('english', title), 'A') ||
-          setweight(to_tsvector('english', description), 'B') ||
-          setweight(to_tsvector('english', array_to_string(skills, ' ')), 'C'),
+          setweight(to_tsvector('english', j.title), 'A') ||
+          setweight(to_tsvector('english', j.description), 'B') ||
+          setweight(to_tsvector('english', array_to_string(j.skills, ' ')), 'C'),
           plainto_tsquery('english', $1)
         ) as rank
-      FROM jobs
+      FROM jobs j
       WHERE ${conditions.join(' AND ')}
       ORDER BY 
         CASE WHEN $1 IS NOT NULL THEN rank ELSE posted_at END DESC,
         posted_at DESC
-      LIMIT $${paramIndex++} OFFSET $${paramIndex}
+      LIMIT $${limitIndex} OFFSET $${limitIndex + 1}
     )
     SELECT 
-      (SELECT COUNT(*) FROM jobs WHERE ${conditions.join(' AND ')}) as total_count,
+      (SELECT COUNT(*) FROM jobs j WHERE ${conditions.join(' AND ')}) as total_count,
       (SELECT json_agg(j.*) FROM job_search j) as jobs
   `;
 
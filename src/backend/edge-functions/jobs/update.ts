@@ -2,12 +2,16 @@ import { z } from 'zod'; // ^3.22.0
 import { rateLimit } from '@upstash/ratelimit'; // ^1.0.0
 import sanitizeHtml from 'sanitize-html'; // ^2.11.0
 
-import { Job, JobUpdatePayload, jobUpdatePayloadSchema } from '../../types/jobs';
+import { Job, JobStatus, JobUpdatePayload, jobUpdatePayloadSchema } from '../../types/jobs';
+import { ApprovalEntityType } from '../../types/approvals';
 import { validateInput } from '../../utils/validation';
 import { AppError } from '../../utils/error-handler';
 import { databaseConfig } from '../../config/database';
 import { logger } from '../../utils/logger';
 import { ErrorCode, UUID } from '../../types/common';
+import { assertApproved, withdrawApprovals } from '../../services/approvals/requests';
+import { getChangedRevisionFields, recordJobRevision } from '../../services/jobs/revisions';
+import { assertActiveDepartment } from '../../services/departments/departments';
 
 // Rate limiting configuration
 const rateLimiter = rateLimit({
@@ -95,8 +99,8 @@ export async function updateJob(req: Request): Promise<Response> {
       await client.query('BEGIN');
 
       // Check if job exists and user has permission
-      const { rows: [job] } = await client.query(
-        `SELECT * FROM jobs WHERE id = $1 AND creator_id = $2`,
+      const { rows: [job] } = await client.query<Job>(
+        `SELECT * FROM jobs WHERE id = $1 AND creator_id = $2 FOR UPDATE`,
         [jobId, req.headers.get('x-user-id')]
       );
 
@@ -104,6 +108,68 @@ export async function updateJob(req: Request): Promise<Response> {
         throw new AppError('Job not found or access denied', ErrorCode.NOT_FOUND);
       }
 
+      // Switching templates would strand applications in stages of the old template
+      if (payload.pipeline_template_id !== undefined &&
+          payload.pipeline_template_id !== job.pipeline_template_id) {
+        const { rows: [{ count }] } = await client.query(
+          'SELECT COUNT(*)::int AS count FROM applications WHERE job_id = $1',
+          [jobId]
+        );
+        if (count > 0) {
+          throw new AppError('Pipeline template cannot be changed once the job has applications', ErrorCode.CONFLICT, {
+            applicationCount: count
+          });
+        }
+
+        if (payload.pipeline_template_id) {
+          const { rows: [template] } = await client.query(
+            'SELECT id FROM pipeline_templates WHERE id = $1 AND archived_at IS NULL',
+            [payload.pipeline_template_id]
+          );
+          if (!template) {
+            throw new AppError('Pipeline template not found', ErrorCode.NOT_FOUND);
+          }
+        }
+      }
+
+      // Editing what a draft was approved for withdraws the approval, also one still pending
+      const changedFields = getChangedRevisionFields(job, payload);
+      const salaryChanged =
+        (payload.salary_min !== undefined && payload.salary_min !== Number(job.salary_min)) ||
+        (payload.salary_max !== undefined && payload.salary_max !== Number(job.salary_max));
+      if (job.status === JobStatus.DRAFT && (changedFields.length || salaryChanged)) {
+        await withdrawApprovals(client, ApprovalEntityType.JOB, jobId);
+      }
+
+      // Publishing a draft waits for the job approval chain, when one is active
+      if (payload.status === JobStatus.PUBLISHED && job.status === JobStatus.DRAFT) {
+        await assertApproved(client, ApprovalEntityType.JOB, jobId);
+      }
+
+      // Only drafts can be scheduled, and a schedule must leave time before the job closes
+      if (payload.publish_at) {
+        if ((payload.status ?? job.status) !== JobStatus.DRAFT) {
+          throw new AppError('Only draft jobs can be scheduled for publishing', ErrorCode.CONFLICT, {
+            status: payload.status ?? job.status
+          });
+        }
+        if (payload.publish_at.getTime() <= Date.now()) {
+          throw new AppError('Scheduled publish time must be in the future', ErrorCode.VALIDATION_ERROR);
+        }
+      }
+      if (payload.department_id && payload.department_id !== job.department_id) {
+        await assertActiveDepartment(client, payload.department_id as UUID);
+      }
+
+      const publishAt = payload.publish_at !== undefined ? payload.publish_at : job.publish_at;
+      const closedAt = payload.closed_at !== undefined ? payload.closed_at : job.closed_at;
+      if (publishAt && closedAt && new Date(closedAt) <= new Date(publishAt)) {
+        throw new AppError('Jobs must close after their scheduled publish time', ErrorCode.VALIDATION_ERROR, {
+          publish_at: publishAt,
+          closed_at: closedAt
+        });
+      }
+
       // Build update query dynamically
       const updates: string[] = [];
       const values: any[] = [jobId];
@@ -117,6 +183,14 @@ export async function updateJob(req: Request): Promise<Response> {
         }
       });
 
+      // A new closing date gets a new expiry warning; publishing by hand drops the schedule
+      if (payload.closed_at !== undefined) {
+        updates.push('expiry_warning_sent_at = NULL');
+      }
+      if (payload.status === JobStatus.PUBLISHED && payload.publish_at === undefined) {
+        updates.push('publish_at = NULL');
+      }
+
       // Add updated_at timestamp
       updates.push('updated_at = NOW()');
 
@@ -129,6 +203,11 @@ export async function updateJob(req: Request): Promise<Response> {
         values
       );
 
+      // Title, description and requirement changes are kept as revisions
+      const revision = changedFields.length
+        ? await recordJobRevision(client, job, updatedJob, changedFields, req.headers.get('x-user-id') as UUID)
+        : null;
+
       // Record audit log
       await client.query(
         `INSERT INTO audit_logs (
@@ -144,7 +223,7 @@ export async function updateJob(req: Request): Promise<Response> {
           jobId,
           'update',
           req.headers.get('x-user-id'),
-          JSON.stringify(payload),
+          JSON.stringify({ ...payload, revision: revision?.revision }),
           correlationId
         ]
       );
@@ -188,7 +267,8 @@ export async function updateJob(req: Request): Promise<Response> {
     const statusCode = error instanceof AppError ? 
       (error.code === ErrorCode.NOT_FOUND ? 404 :
        error.code === ErrorCode.UNAUTHORIZED ? 401 :
-       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
 
     return new Response(
       JSON.stringify({
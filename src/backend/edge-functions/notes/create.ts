@@ -0,0 +1,133 @@
+import { NOTE_AUTHOR_ROLES, noteCreateSchema } from '../../types/notes';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { createNote as insertNote } from '../../services/notes/notes';
+import { notifyMentionedUsers } from '../../services/notes/notifications';
+
+/**
+ * Edge function handler for writing a note on a candidate or one of their
+ * applications. Users mentioned in the note are emailed once it is saved.
+ */
+export async function createNote(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!NOTE_AUTHOR_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const input = await validateInput(noteCreateSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const note = await insertNote(client, input, user.sub);
+
+      // Record audit log; the body is kept in the note's history, not the log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate_note',
+          note.id,
+          'create',
+          user.sub,
+          JSON.stringify({
+            candidate_id: note.candidate_id,
+            application_id: note.application_id,
+            visibility: note.visibility,
+            mentions: note.mentions
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      const notified = await notifyMentionedUsers(client, note, note.mentions, correlationId);
+
+      logger.info('Candidate note created successfully', {
+        correlationId,
+        noteId: note.id,
+        candidateId: note.candidate_id,
+        userId: user.sub,
+        notified
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: note,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createNote'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NOTE_AUTHOR_ROLES, noteUpdateSchema } from '../../types/notes';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { updateNote as editNote } from '../../services/notes/notes';
+import { notifyMentionedUsers } from '../../services/notes/notifications';
+
+/**
+ * Edge function handler for editing a note. Authors edit their own notes only; every
+ * edit is kept as a new version, and users mentioned for the first time are emailed.
+ */
+export async function updateNote(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!NOTE_AUTHOR_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract note ID from URL (/notes/:id)
+    const url = new URL(req.url);
+    const noteId = await validateInput(uuidSchema, url.pathname.split('/').pop()) as UUID;
+    const update = await validateInput(noteUpdateSchema, await req.json());
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { note, added_mentions } = await editNote(client, noteId, update, { id: user.sub, role: user.role });
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate_note',
+          note.id,
+          'update',
+          user.sub,
+          JSON.stringify({
+            version: note.version,
+            body_changed: update.body !== undefined,
+            visibility: update.visibility,
+            added_mentions
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      const notified = await notifyMentionedUsers(client, note, added_mentions, correlationId);
+
+      logger.info('Candidate note updated successfully', {
+        correlationId,
+        noteId,
+        version: note.version,
+        userId: user.sub,
+        notified
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: note,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'updateNote'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
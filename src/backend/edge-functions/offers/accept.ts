@@ -0,0 +1,136 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { OfferResponse, offerRespondSchema } from '../../types/offers';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { OfferEmailVariant } from '../../services/email/templates/status-update';
+import { recordOfferResponse } from '../../services/offers/outcomes';
+import { sendOfferEmail } from '../../services/offers/notifications';
+import { markReferralHired } from '../../services/referrals/referrals';
+import { notifyReferrerOfHire } from '../../services/referrals/notifications';
+
+// Request schema for accepting an offer
+const acceptOfferRequestSchema = offerRespondSchema.extend({
+  offerId: z.string().uuid()
+});
+
+/**
+ * Edge function handler for accepting a sent offer, either by the candidate
+ * themselves or by a recruiter recording their answer; the application moves
+ * to the job pipeline's hired stage
+ */
+export async function acceptOffer(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+
+    const { offerId, reason } = await validateInput(acceptOfferRequestSchema, await req.json());
+
+    logger.info('Processing offer acceptance request', {
+      correlationId,
+      offerId,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { offer, application } = await recordOfferResponse(client, {
+        offerId: offerId as UUID,
+        response: OfferResponse.ACCEPT,
+        user,
+        reason: reason ? sanitizeInput(reason) : undefined,
+        correlationId
+      });
+
+      const hiredReferral = await markReferralHired(client, application.id);
+
+      await client.query('COMMIT');
+
+      const emailSent = await sendOfferEmail(client, offer, OfferEmailVariant.ACCEPTED, correlationId, user.sub);
+      const referrerNotified = hiredReferral
+        ? await notifyReferrerOfHire(client, hiredReferral, correlationId)
+        : false;
+
+      logger.info('Offer accepted successfully', {
+        correlationId,
+        offerId,
+        applicationId: application.id,
+        applicationStatus: application.status,
+        emailSent,
+        referrerNotified,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { offer, application },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'acceptOffer'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { Application, TERMINAL_APPLICATION_STATUSES } from '../../types/applications';
+import { Offer, OfferStatus, offerCreateSchema } from '../../types/offers';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { canManageOffer } from '../../services/offers/access';
+import { recordOfferVersion } from '../../services/offers/versions';
+
+/**
+ * Edge function handler for drafting an offer for an application
+ */
+export async function createOffer(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role === UserRole.CANDIDATE || user.role === UserRole.GUEST) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(offerCreateSchema, await req.json());
+
+    if (new Date(payload.expires_at).getTime() <= Date.now()) {
+      throw new AppError('Offer expiry must be in the future', ErrorCode.VALIDATION_ERROR, {
+        field: 'expires_at'
+      });
+    }
+
+    logger.info('Processing offer creation request', {
+      correlationId,
+      applicationId: payload.application_id,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [application] } = await client.query<Application & { job_creator_id: UUID }>(
+        `SELECT a.*, j.creator_id AS job_creator_id
+         FROM applications a
+         JOIN jobs j ON j.id = a.job_id
+         WHERE a.id = $1
+         FOR UPDATE OF a`,
+        [payload.application_id]
+      );
+
+      if (!application || !canManageOffer(application, user)) {
+        throw new AppError('Application not found or access denied', ErrorCode.NOT_FOUND);
+      }
+
+      if (TERMINAL_APPLICATION_STATUSES.includes(application.status)) {
+        throw new AppError('Offers cannot be created for closed applications', ErrorCode.CONFLICT, {
+          status: application.status
+        });
+      }
+
+      const { rows: [openOffer] } = await client.query<{ id: UUID }>(
+        `SELECT id FROM offers WHERE application_id = $1 AND status IN ($2, $3)`,
+        [application.id, OfferStatus.DRAFT, OfferStatus.SENT]
+      );
+
+      if (openOffer) {
+        throw new AppError('Application already has an open offer; revise it instead', ErrorCode.CONFLICT, {
+          offerId: openOffer.id
+        });
+      }
+
+      const { rows: [offer] } = await client.query<Offer>(
+        `INSERT INTO offers (
+          application_id,
+          candidate_id,
+          job_id,
+          status,
+          version,
+          base_salary,
+          bonus,
+          equity,
+          currency,
+          start_date,
+          expires_at,
+          notes,
+          created_by
+        ) VALUES ($1, $2, $3, $4, 1, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [
+          application.id,
+          application.candidate_id,
+          application.job_id,
+          OfferStatus.DRAFT,
+          payload.base_salary,
+          payload.bonus,
+          payload.equity ? sanitizeInput(payload.equity) : null,
+          payload.currency,
+          payload.start_date,
+          payload.expires_at,
+          payload.notes ? sanitizeInput(payload.notes) : null,
+          user.sub
+        ]
+      );
+
+      const version = await recordOfferVersion(client, offer, user.sub);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'offer',
+          offer.id,
+          'create',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Offer created successfully', {
+        correlationId,
+        offerId: offer.id,
+        applicationId: application.id,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...offer, versions: [version] },
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createOffer'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
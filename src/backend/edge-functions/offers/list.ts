@@ -0,0 +1,148 @@
+import { Offer, OfferStatus, OfferVersion, offerListParamsSchema } from '../../types/offers';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { OFFER_MANAGER_ROLES } from '../../services/offers/access';
+import { getOfferVersions } from '../../services/offers/versions';
+
+/**
+ * Edge function handler for listing the offers of an application or candidate with
+ * their version history. Candidates only see offers sent to them, without history.
+ */
+export async function listOffers(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role === UserRole.GUEST) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const url = new URL(req.url);
+    const params = await validateInput(offerListParamsSchema, {
+      application_id: url.searchParams.get('application_id') || undefined,
+      candidate_id: url.searchParams.get('candidate_id') || undefined
+    });
+
+    // Build parameterized query
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (params.application_id) {
+      conditions.push(`o.application_id = $${paramIndex++}`);
+      values.push(params.application_id);
+    }
+
+    if (params.candidate_id) {
+      conditions.push(`o.candidate_id = $${paramIndex++}`);
+      values.push(params.candidate_id);
+    }
+
+    const isCandidate = user.role === UserRole.CANDIDATE;
+    if (isCandidate) {
+      conditions.push(`c.user_id = $${paramIndex++}`);
+      values.push(user.sub);
+      conditions.push(`o.status <> $${paramIndex++}`);
+      values.push(OfferStatus.DRAFT);
+    } else if (!OFFER_MANAGER_ROLES.includes(user.role)) {
+      conditions.push(`j.creator_id = $${paramIndex++}`);
+      values.push(user.sub);
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      // Sent offers past their expiry are marked expired as they are read
+      await client.query(
+        `UPDATE offers
+         SET status = $1, updated_at = NOW()
+         WHERE status = $2 AND expires_at <= NOW()`,
+        [OfferStatus.EXPIRED, OfferStatus.SENT]
+      );
+
+      const { rows: offers } = await client.query<Offer & { job_title: string }>(
+        `SELECT o.*, j.title AS job_title
+         FROM offers o
+         JOIN jobs j ON j.id = o.job_id
+         JOIN candidates c ON c.id = o.candidate_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY o.created_at DESC`,
+        values
+      );
+
+      const versions = isCandidate
+        ? new Map<UUID, OfferVersion[]>()
+        : await getOfferVersions(client, offers.map(offer => offer.id));
+
+      logger.info('Offers listed successfully', {
+        correlationId,
+        count: offers.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: offers.map(offer => (
+            isCandidate ? offer : { ...offer, versions: versions.get(offer.id) ?? [] }
+          )),
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listOffers'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { OPEN_OFFER_STATUSES, Offer, OfferStatus, offerReviseSchema } from '../../types/offers';
+import { ApprovalEntityType } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { canManageOffer, lockOffer } from '../../services/offers/access';
+import { getOfferVersions, mergeOfferTerms, recordOfferVersion } from '../../services/offers/versions';
+import { cancelPendingApproval } from '../../services/approvals/requests';
+
+// Request schema for offer revision
+const reviseOfferRequestSchema = z.object({
+  offerId: z.string().uuid(),
+  payload: offerReviseSchema
+});
+
+/**
+ * Edge function handler for revising the terms of an open offer. Each revision records a
+ * new version; revising a sent offer returns it to draft until it is sent again.
+ */
+export async function reviseOffer(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role === UserRole.CANDIDATE || user.role === UserRole.GUEST) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { offerId, payload } = await validateInput(reviseOfferRequestSchema, await req.json());
+
+    if (payload.expires_at && new Date(payload.expires_at).getTime() <= Date.now()) {
+      throw new AppError('Offer expiry must be in the future', ErrorCode.VALIDATION_ERROR, {
+        field: 'expires_at'
+      });
+    }
+
+    logger.info('Processing offer revision request', {
+      correlationId,
+      offerId,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const offer = await lockOffer(client, offerId as UUID);
+      if (!canManageOffer(offer, user)) {
+        throw new AppError('Offer not found or access denied', ErrorCode.NOT_FOUND);
+      }
+
+      if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+        throw new AppError('Only draft or sent offers can be revised', ErrorCode.CONFLICT, {
+          status: offer.status
+        });
+      }
+
+      const { terms, changedFields } = mergeOfferTerms(offer, {
+        ...payload,
+        equity: payload.equity ? sanitizeInput(payload.equity) : payload.equity
+      });
+
+      if (!changedFields.length) {
+        throw new AppError('Revision does not change any offer terms', ErrorCode.VALIDATION_ERROR);
+      }
+
+      const { rows: [revisedOffer] } = await client.query<Offer>(
+        `UPDATE offers
+         SET version = version + 1,
+             status = $2,
+             base_salary = $3,
+             bonus = $4,
+             equity = $5,
+             currency = $6,
+             start_date = $7,
+             expires_at = $8,
+             notes = COALESCE($9, notes),
+             sent_at = NULL,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [
+          offerId,
+          OfferStatus.DRAFT,
+          terms.base_salary,
+          terms.bonus,
+          terms.equity,
+          terms.currency,
+          terms.start_date,
+          terms.expires_at,
+          payload.notes ? sanitizeInput(payload.notes) : null
+        ]
+      );
+
+      const changeReason = sanitizeInput(payload.change_reason);
+      await recordOfferVersion(client, revisedOffer, user.sub, changeReason);
+      const versions = await getOfferVersions(client, [revisedOffer.id]);
+
+      // An approval in flight was asked for the previous terms
+      const cancelledApprovalId = await cancelPendingApproval(client, ApprovalEntityType.OFFER, offerId as UUID);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'offer',
+          offerId,
+          'revise',
+          user.sub,
+          JSON.stringify({
+            version: revisedOffer.version,
+            previous_status: offer.status,
+            changed_fields: changedFields,
+            change_reason: changeReason,
+            cancelled_approval_id: cancelledApprovalId
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Offer revised successfully', {
+        correlationId,
+        offerId,
+        version: revisedOffer.version,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...revisedOffer, versions: versions.get(revisedOffer.id) ?? [] },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'reviseOffer'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
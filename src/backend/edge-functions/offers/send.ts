@@ -0,0 +1,192 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { TERMINAL_APPLICATION_STATUSES } from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { Offer, OfferStatus } from '../../types/offers';
+import { ApprovalEntityType } from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { OfferEmailVariant } from '../../services/email/templates/status-update';
+import { canManageOffer, lockOffer } from '../../services/offers/access';
+import { sendOfferEmail } from '../../services/offers/notifications';
+import { assertApproved } from '../../services/approvals/requests';
+
+// Request schema for sending an offer
+const sendOfferRequestSchema = z.object({
+  offerId: z.string().uuid()
+});
+
+/**
+ * Edge function handler for sending a draft offer to the candidate
+ */
+export async function sendOffer(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role === UserRole.CANDIDATE || user.role === UserRole.GUEST) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { offerId } = await validateInput(sendOfferRequestSchema, await req.json());
+
+    logger.info('Processing offer send request', {
+      correlationId,
+      offerId,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const offer = await lockOffer(client, offerId as UUID);
+      if (!canManageOffer(offer, user)) {
+        throw new AppError('Offer not found or access denied', ErrorCode.NOT_FOUND);
+      }
+
+      if (offer.status !== OfferStatus.DRAFT) {
+        throw new AppError('Only draft offers can be sent', ErrorCode.CONFLICT, {
+          status: offer.status
+        });
+      }
+
+      if (new Date(offer.expires_at).getTime() <= Date.now()) {
+        throw new AppError('Offer expiry has passed; revise the offer before sending', ErrorCode.CONFLICT, {
+          expiresAt: offer.expires_at
+        });
+      }
+
+      const { rows: [application] } = await client.query<{ status: ApplicationStatus }>(
+        `SELECT status FROM applications WHERE id = $1`,
+        [offer.application_id]
+      );
+
+      if (TERMINAL_APPLICATION_STATUSES.includes(application.status)) {
+        throw new AppError('Offers cannot be sent for closed applications', ErrorCode.CONFLICT, {
+          status: application.status
+        });
+      }
+
+      // Each offer version needs its own approval before it reaches the candidate
+      await assertApproved(client, ApprovalEntityType.OFFER, offer.id, offer.version);
+
+      const { rows: [sentOffer] } = await client.query<Offer>(
+        `UPDATE offers
+         SET status = $2,
+             sent_at = NOW(),
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [offerId, OfferStatus.SENT]
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'offer',
+          offerId,
+          'send',
+          user.sub,
+          JSON.stringify({ version: sentOffer.version }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      // Revised terms are announced with the revision variant of the offer email
+      const emailSent = await sendOfferEmail(
+        client,
+        sentOffer,
+        sentOffer.version > 1 ? OfferEmailVariant.REVISED : OfferEmailVariant.SENT,
+        correlationId,
+        user.sub
+      );
+
+      logger.info('Offer sent successfully', {
+        correlationId,
+        offerId,
+        version: sentOffer.version,
+        emailSent,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: sentOffer,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'sendOffer'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
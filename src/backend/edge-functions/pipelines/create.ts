@@ -0,0 +1,159 @@
+import { PipelineTemplate, pipelineTemplateCreateSchema } from '../../types/pipelines';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getTemplateStages } from '../../services/pipeline/templates';
+
+/**
+ * Edge function handler for creating a pipeline template with ordered stages
+ */
+export async function createPipelineTemplate(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (![UserRole.ADMIN, UserRole.RECRUITER].includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(pipelineTemplateCreateSchema, await req.json());
+
+    if (payload.is_default && user.role !== UserRole.ADMIN) {
+      throw new AppError('Only administrators can change the default template', ErrorCode.FORBIDDEN);
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (payload.is_default) {
+        await client.query('UPDATE pipeline_templates SET is_default = false WHERE is_default');
+      }
+
+      const { rows: [template] } = await client.query<Omit<PipelineTemplate, 'stages'>>(
+        `INSERT INTO pipeline_templates (name, description, is_default, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [
+          sanitizeInput(payload.name),
+          payload.description ? sanitizeInput(payload.description) : null,
+          payload.is_default,
+          user.sub
+        ]
+      );
+
+      // Stage positions follow the order of the submitted list
+      for (const [position, stage] of payload.stages.entries()) {
+        await client.query(
+          `INSERT INTO pipeline_stages (template_id, name, position, category, application_status, candidate_label)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            template.id,
+            sanitizeInput(stage.name),
+            position,
+            stage.category,
+            stage.application_status ?? null,
+            stage.candidate_label ? sanitizeInput(stage.candidate_label) : null
+          ]
+        );
+      }
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'pipeline_template',
+          template.id,
+          'create',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      const stages = await getTemplateStages(client, template.id);
+
+      await client.query('COMMIT');
+
+      logger.info('Pipeline template created successfully', {
+        correlationId,
+        templateId: template.id,
+        stageCount: stages.length,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...template, stages },
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createPipelineTemplate'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { PipelineTemplate } from '../../types/pipelines';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getJobPipeline } from '../../services/pipeline/templates';
+import { getTemplateTransitionRules } from '../../services/pipeline/transitions';
+
+// Request parameters validation schema
+const listTemplatesParamsSchema = z.object({
+  job_id: z.string().uuid().optional(),
+  include_archived: z.boolean().default(false)
+});
+
+/**
+ * Edge function handler for listing pipeline templates, or resolving the template of a job
+ * together with its explicit transition rules
+ */
+export async function listPipelineTemplates(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (![UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER].includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const params = await validateInput(listTemplatesParamsSchema, {
+      job_id: searchParams.get('job_id') || undefined,
+      include_archived: searchParams.get('include_archived') === 'true'
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      let data: PipelineTemplate | PipelineTemplate[];
+
+      if (params.job_id) {
+        const pipeline = await getJobPipeline(client, params.job_id);
+        data = {
+          ...pipeline,
+          transition_rules: await getTemplateTransitionRules(client, pipeline.id)
+        };
+      } else {
+        const { rows } = await client.query<PipelineTemplate>(
+          `SELECT t.*,
+                  COALESCE(
+                    json_agg(s.* ORDER BY s.position) FILTER (WHERE s.id IS NOT NULL),
+                    '[]'
+                  ) AS stages
+           FROM pipeline_templates t
+           LEFT JOIN pipeline_stages s ON s.template_id = t.id
+           WHERE ($1::boolean OR t.archived_at IS NULL)
+           GROUP BY t.id
+           ORDER BY t.is_default DESC, t.name ASC`,
+          [params.include_archived]
+        );
+        data = rows;
+      }
+
+      logger.info('Pipeline templates retrieved', {
+        correlationId,
+        jobId: params.job_id,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'listPipelineTemplates'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
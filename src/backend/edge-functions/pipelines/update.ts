@@ -0,0 +1,302 @@
+import { z } from 'zod'; // ^3.22.0
+
+import { PipelineTemplate, pipelineTemplateUpdateSchema } from '../../types/pipelines';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { getTemplateStages } from '../../services/pipeline/templates';
+import { getTemplateTransitionRules } from '../../services/pipeline/transitions';
+
+// Request schema for pipeline template update
+const updateTemplateRequestSchema = z.object({
+  templateId: z.string().uuid(),
+  payload: pipelineTemplateUpdateSchema
+});
+
+/**
+ * Edge function handler for updating a pipeline template. When stages are provided they
+ * replace the ordered list: stages with an id are kept, new stages are inserted and
+ * omitted stages are removed unless applications still sit in them, and the same holds
+ * for changing the category or status of a kept stage. Provided transition
+ * rules likewise replace the template's explicit rules.
+ */
+export async function updatePipelineTemplate(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (![UserRole.ADMIN, UserRole.RECRUITER].includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const { templateId, payload } = await validateInput(
+      updateTemplateRequestSchema,
+      await req.json()
+    );
+
+    if (payload.is_default !== undefined && user.role !== UserRole.ADMIN) {
+      throw new AppError('Only administrators can change the default template', ErrorCode.FORBIDDEN);
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [existing] } = await client.query<Omit<PipelineTemplate, 'stages'>>(
+        'SELECT * FROM pipeline_templates WHERE id = $1 FOR UPDATE',
+        [templateId]
+      );
+      if (!existing) {
+        throw new AppError('Pipeline template not found', ErrorCode.NOT_FOUND);
+      }
+
+      if (payload.archived && (existing.is_default || payload.is_default)) {
+        throw new AppError('The default template cannot be archived', ErrorCode.CONFLICT);
+      }
+
+      if (payload.is_default) {
+        await client.query('UPDATE pipeline_templates SET is_default = false WHERE is_default AND id <> $1', [templateId]);
+      }
+
+      // Build update query dynamically
+      const updates: string[] = [];
+      const values: any[] = [templateId];
+      let paramCount = 2;
+
+      if (payload.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(sanitizeInput(payload.name));
+      }
+      if (payload.description !== undefined) {
+        updates.push(`description = $${paramCount++}`);
+        values.push(payload.description ? sanitizeInput(payload.description) : null);
+      }
+      if (payload.is_default !== undefined) {
+        updates.push(`is_default = $${paramCount++}`);
+        values.push(payload.is_default);
+      }
+      if (payload.archived !== undefined) {
+        updates.push(payload.archived ? 'archived_at = NOW()' : 'archived_at = NULL');
+      }
+      updates.push('updated_at = NOW()');
+
+      const { rows: [template] } = await client.query<Omit<PipelineTemplate, 'stages'>>(
+        `UPDATE pipeline_templates SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      if (payload.stages) {
+        const currentStages = await getTemplateStages(client, templateId as UUID);
+        const keptIds = new Set(payload.stages.filter(s => s.id).map(s => s.id));
+
+        const unknown = [...keptIds].filter(id => !currentStages.some(s => s.id === id));
+        if (unknown.length) {
+          throw new AppError('Stages do not belong to this template', ErrorCode.VALIDATION_ERROR, {
+            stageIds: unknown
+          });
+        }
+
+        // Removed stages must be empty so no application loses its place in the pipeline
+        const removedIds = currentStages.filter(s => !keptIds.has(s.id)).map(s => s.id);
+        if (removedIds.length) {
+          const { rows: [{ count }] } = await client.query(
+            'SELECT COUNT(*)::int AS count FROM applications WHERE stage_id = ANY($1::uuid[])',
+            [removedIds]
+          );
+          if (count > 0) {
+            throw new AppError('Cannot remove stages that still contain applications', ErrorCode.CONFLICT, {
+              stageIds: removedIds,
+              applicationCount: count
+            });
+          }
+          await client.query('DELETE FROM pipeline_stages WHERE id = ANY($1::uuid[])', [removedIds]);
+        }
+
+        // Likewise a stage's category and status stay fixed while applications sit in it,
+        // as their status was derived from them
+        const remappedIds = payload.stages
+          .filter(stage => {
+            const current = currentStages.find(s => s.id === stage.id);
+            return current && (
+              current.category !== stage.category ||
+              current.application_status !== (stage.application_status ?? null)
+            );
+          })
+          .map(stage => stage.id);
+        if (remappedIds.length) {
+          const { rows: [{ count }] } = await client.query(
+            'SELECT COUNT(*)::int AS count FROM applications WHERE stage_id = ANY($1::uuid[])',
+            [remappedIds]
+          );
+          if (count > 0) {
+            throw new AppError('Cannot change the category or status of stages that contain applications', ErrorCode.CONFLICT, {
+              stageIds: remappedIds,
+              applicationCount: count
+            });
+          }
+        }
+
+        // Positions are re-assigned from the submitted order; the unique constraint is deferred
+        for (const [position, stage] of payload.stages.entries()) {
+          if (stage.id) {
+            await client.query(
+              `UPDATE pipeline_stages
+               SET name = $2, position = $3, category = $4, application_status = $5, candidate_label = $6
+               WHERE id = $1`,
+              [
+                stage.id,
+                sanitizeInput(stage.name),
+                position,
+                stage.category,
+                stage.application_status ?? null,
+                stage.candidate_label ? sanitizeInput(stage.candidate_label) : null
+              ]
+            );
+          } else {
+            await client.query(
+              `INSERT INTO pipeline_stages (template_id, name, position, category, application_status, candidate_label)
+               VALUES ($1, $2, $3, $4, $5, $6)`,
+              [
+                templateId,
+                sanitizeInput(stage.name),
+                position,
+                stage.category,
+                stage.application_status ?? null,
+                stage.candidate_label ? sanitizeInput(stage.candidate_label) : null
+              ]
+            );
+          }
+        }
+      }
+
+      const stages = await getTemplateStages(client, templateId as UUID);
+
+      if (payload.transition_rules) {
+        const stageIds = new Set(stages.map(stage => stage.id));
+        const unknownStageIds = payload.transition_rules
+          .flatMap(rule => [rule.from_stage_id, rule.to_stage_id])
+          .filter((id): id is string => id !== null && !stageIds.has(id as UUID));
+        if (unknownStageIds.length) {
+          throw new AppError('Transition rules reference stages outside this template', ErrorCode.VALIDATION_ERROR, {
+            stageIds: [...new Set(unknownStageIds)]
+          });
+        }
+
+        await client.query('DELETE FROM pipeline_transition_rules WHERE template_id = $1', [templateId]);
+        for (const rule of payload.transition_rules) {
+          await client.query(
+            `INSERT INTO pipeline_transition_rules (
+              template_id, from_stage_id, to_stage_id, is_allowed, allowed_roles, required_fields, created_by
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+              templateId,
+              rule.from_stage_id,
+              rule.to_stage_id,
+              rule.is_allowed,
+              rule.allowed_roles,
+              rule.required_fields,
+              user.sub
+            ]
+          );
+        }
+      }
+
+      const transitionRules = await getTemplateTransitionRules(client, templateId as UUID);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'pipeline_template',
+          templateId,
+          'update',
+          user.sub,
+          JSON.stringify(payload),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Pipeline template updated successfully', {
+        correlationId,
+        templateId,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { ...template, stages, transition_rules: transitionRules },
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'updatePipelineTemplate'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { interviewResponseSchema, InterviewResponse } from '../../types/portal';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { resolvePortalCandidate } from '../../services/portal/profile';
+import { respondToInterview } from '../../services/portal/interviews';
+import { notifyInterviewScheduler } from '../../services/portal/notifications';
+
+/**
+ * Edge function handler for the candidate confirming an interview or asking to move it.
+ * Whoever scheduled the interview is emailed about reschedule requests.
+ */
+export async function respondToPortalInterview(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.CANDIDATE) {
+      throw new AppError('The candidate portal is only open to candidates', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract interview ID from URL (/portal/interviews/:id/respond)
+    const url = new URL(req.url);
+    const interviewId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+
+    const response = await validateInput(interviewResponseSchema, await req.json()) as InterviewResponse;
+    if (response.action === 'reschedule') {
+      response.reason = sanitizeInput(response.reason);
+    }
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const candidateId = await resolvePortalCandidate(client, user.sub);
+      const { interview, scheduledBy } = await respondToInterview(client, candidateId, interviewId, response);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'interview',
+          interviewId,
+          response.action === 'confirm' ? 'candidate_confirm' : 'candidate_reschedule_request',
+          user.sub,
+          JSON.stringify({
+            candidate_id: candidateId,
+            preferred_times: response.action === 'reschedule' ? response.preferred_times : undefined
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate responded to interview', {
+        correlationId,
+        interviewId,
+        action: response.action
+      });
+
+      if (response.action === 'reschedule') {
+        await notifyInterviewScheduler(
+          client,
+          interviewId,
+          scheduledBy,
+          { type: 'reschedule_requested', response },
+          correlationId
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: interview,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'respondToPortalInterview'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
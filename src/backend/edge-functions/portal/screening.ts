@@ -0,0 +1,157 @@
+import { portalScreeningAnswersSchema, PortalScreeningAnswers } from '../../types/portal';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { FileHandler } from '../../services/storage/file-handler';
+import { parseAnswersField, uploadAnswerFiles } from '../../services/screening/files';
+import { resolvePortalCandidate } from '../../services/portal/profile';
+import { answerScreeningQuestions, getOpenScreeningQuestions } from '../../services/portal/applications';
+
+const fileHandler = new FileHandler();
+
+/**
+ * Edge function handler for the candidate answering the screening questions left open
+ * on an application. Expects multipart form data with the answers as JSON in the
+ * answers field and one answer_file_<question id> file per file upload question.
+ */
+export async function answerPortalScreening(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.CANDIDATE) {
+      throw new AppError('The candidate portal is only open to candidates', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract application ID from URL (/portal/applications/:id/screening)
+    const url = new URL(req.url);
+    const applicationId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+
+    const formData = await req.formData();
+    const answersField = parseAnswersField(formData.get('answers'));
+
+    const pool = await databaseConfig.getPool();
+
+    // Check the application is the candidate's and still open before storing any file
+    const lookupClient = await pool.connect();
+    let candidateId: UUID;
+    let open: Awaited<ReturnType<typeof getOpenScreeningQuestions>>;
+    try {
+      candidateId = await resolvePortalCandidate(lookupClient, user.sub);
+      open = await getOpenScreeningQuestions(lookupClient, candidateId, applicationId);
+    } finally {
+      lookupClient.release();
+    }
+
+    const files = await uploadAnswerFiles(formData, open.jobId, open.questions, fileHandler, 'candidate-portal');
+    const { answers } = await validateInput(portalScreeningAnswersSchema, {
+      answers: [...(Array.isArray(answersField) ? answersField : []), ...files]
+    }) as PortalScreeningAnswers;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Questions are loaded again under lock, in case they were answered meanwhile
+      const { questions } = await getOpenScreeningQuestions(client, candidateId, applicationId);
+      const answered = await answerScreeningQuestions(client, applicationId, questions, answers);
+
+      // Record audit log; answers stay out of it
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'application',
+          applicationId,
+          'screening_answers',
+          user.sub,
+          JSON.stringify({
+            candidate_id: candidateId,
+            answered
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate answered screening questions', {
+        correlationId,
+        applicationId,
+        answered
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { application_id: applicationId, answered },
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'answerPortalScreening'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
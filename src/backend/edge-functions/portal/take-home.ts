@@ -0,0 +1,182 @@
+import { takeHomeSubmissionSchema, TakeHomeSubmissionInput } from '../../types/portal';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { FileHandler } from '../../services/storage/file-handler';
+import { resolvePortalCandidate } from '../../services/portal/profile';
+import { submitTakeHome } from '../../services/portal/interviews';
+import { notifyInterviewScheduler } from '../../services/portal/notifications';
+
+const fileHandler = new FileHandler();
+
+/**
+ * Edge function handler for the candidate handing in a take-home assignment. Expects
+ * multipart form data with an optional file, link_url and notes; a file or a link is
+ * required. Whoever scheduled the assignment is emailed.
+ */
+export async function submitPortalTakeHome(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.CANDIDATE) {
+      throw new AppError('The candidate portal is only open to candidates', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract interview ID from URL (/portal/interviews/:id/submission)
+    const url = new URL(req.url);
+    const interviewId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+
+    const formData = await req.formData();
+    const submission = await validateInput(takeHomeSubmissionSchema, {
+      link_url: (formData.get('link_url') as string | null) || undefined,
+      notes: (formData.get('notes') as string | null) || undefined
+    }) as TakeHomeSubmissionInput;
+    if (submission.notes) submission.notes = sanitizeInput(submission.notes);
+
+    const file = formData.get('file');
+    const hasFile = file instanceof File && file.size > 0;
+    if (!hasFile && !submission.link_url) {
+      throw new AppError('A file or a link is required', ErrorCode.VALIDATION_ERROR);
+    }
+
+    const pool = await databaseConfig.getPool();
+
+    const lookupClient = await pool.connect();
+    let candidateId: UUID;
+    try {
+      candidateId = await resolvePortalCandidate(lookupClient, user.sub);
+    } finally {
+      lookupClient.release();
+    }
+
+    let fileUrl: string | null = null;
+    if (hasFile) {
+      try {
+        const upload = await fileHandler.uploadFile(file as File, 'documents', `take-home/${interviewId}`, {
+          metadata: { source: 'candidate-portal', interviewId, candidateId },
+          cacheControl: 'private, no-cache'
+        });
+        fileUrl = upload.url;
+      } catch (error) {
+        throw new AppError('Submission file could not be uploaded', ErrorCode.BAD_REQUEST, {
+          reason: (error as Error).message
+        });
+      }
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { submission: created, scheduledBy } = await submitTakeHome(
+        client,
+        candidateId,
+        interviewId,
+        submission,
+        fileUrl
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'interview',
+          interviewId,
+          'take_home_submit',
+          user.sub,
+          JSON.stringify({
+            candidate_id: candidateId,
+            submission_id: created.id,
+            has_file: !!fileUrl,
+            has_link: !!created.link_url
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate submitted a take-home assignment', {
+        correlationId,
+        interviewId,
+        submissionId: created.id
+      });
+
+      await notifyInterviewScheduler(client, interviewId, scheduledBy, { type: 'take_home_submitted' }, correlationId);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: created,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'submitPortalTakeHome'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
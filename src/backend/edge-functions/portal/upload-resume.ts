@@ -0,0 +1,158 @@
+import { UserRole } from '../../types/auth';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { ResumeStorage } from '../../services/storage/resume-storage';
+import { calculateChecksum } from '../../services/storage/file-handler';
+import { addResumeVersion, resolvePortalCandidate } from '../../services/portal/profile';
+
+const resumeStorage = new ResumeStorage();
+
+/**
+ * Edge function handler for the candidate uploading a new resume from the portal.
+ * Expects multipart form data with the file in the resume field; the upload becomes
+ * the candidate's current resume and earlier versions are kept.
+ */
+export async function uploadPortalResume(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (user.role !== UserRole.CANDIDATE) {
+      throw new AppError('The candidate portal is only open to candidates', ErrorCode.FORBIDDEN);
+    }
+
+    const formData = await req.formData();
+    const resumeFile = formData.get('resume');
+    if (!(resumeFile instanceof File) || resumeFile.size === 0) {
+      throw new AppError('A resume is required', ErrorCode.BAD_REQUEST);
+    }
+
+    const pool = await databaseConfig.getPool();
+
+    // Resolve the profile before storing anything under it
+    const lookupClient = await pool.connect();
+    let candidateId: UUID;
+    try {
+      candidateId = await resolvePortalCandidate(lookupClient, user.sub);
+    } finally {
+      lookupClient.release();
+    }
+
+    let upload: Awaited<ReturnType<ResumeStorage['uploadResume']>>;
+    try {
+      upload = await resumeStorage.uploadResume(resumeFile, candidateId, { source: 'candidate-portal' });
+    } catch (error) {
+      throw new AppError('Resume could not be uploaded', ErrorCode.BAD_REQUEST, {
+        reason: (error as Error).message
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const version = await addResumeVersion(
+        client,
+        candidateId,
+        { url: upload.url, file_name: resumeFile.name, checksum: await calculateChecksum(resumeFile) },
+        user.sub
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate',
+          candidateId,
+          'resume_upload',
+          user.sub,
+          JSON.stringify({
+            version: version.version,
+            file_name: version.file_name
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Candidate uploaded a resume version', {
+        correlationId,
+        candidateId,
+        version: version.version
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: version,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'uploadPortalResume'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { PRIVACY_MANAGER_ROLES, DataSubjectRequestType } from '../../types/privacy';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { completeDataSubjectRequest, getActionableRequest } from '../../services/privacy/data-subject-requests';
+import { eraseSubjectData, purgeQueuedFiles } from '../../services/privacy/subject-data';
+import { FileHandler } from '../../services/storage/file-handler';
+
+/**
+ * Edge function handler answering an erasure request. The candidate and their merged
+ * duplicates are anonymized in place and their files purged once that commits; the
+ * request is completed with the evidence, which is also written to the audit log.
+ * Files that cannot be purged right away are retried by the retention worker.
+ */
+export async function erasePrivacyRequest(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!PRIVACY_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract request ID from URL (/privacy-requests/:id/erase)
+    const url = new URL(req.url);
+    const requestId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+
+    const fileHandler = new FileHandler();
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const request = await getActionableRequest(client, requestId, DataSubjectRequestType.ERASURE);
+      const { evidence, purgeIds } = await eraseSubjectData(client, request.candidate_id, fileHandler);
+      const completed = await completeDataSubjectRequest(client, requestId, evidence, user.sub);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate',
+          request.candidate_id,
+          'erase',
+          user.sub,
+          JSON.stringify({ request_id: requestId, ...evidence }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      // Only this erasure's files; those that cannot be purged now stay queued for the
+      // retention worker, which also works through the rest of the queue
+      const purge = await purgeQueuedFiles(client, fileHandler, { ids: purgeIds }).catch(error => {
+        logger.error(error as Error, { correlationId, context: 'erasePrivacyRequest' });
+        return null;
+      });
+
+      logger.info('Personal data erased', {
+        correlationId,
+        requestId,
+        candidateId: request.candidate_id,
+        filesToPurge: evidence.files_to_purge,
+        filesPurged: purge?.purged ?? 0,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: completed,
+          error: null
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'erasePrivacyRequest'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { PRIVACY_MANAGER_ROLES, DataSubjectRequestType } from '../../types/privacy';
+import { UserRole } from '../../types/auth';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID, uuidSchema } from '../../types/common';
+import { completeDataSubjectRequest, getActionableRequest } from '../../services/privacy/data-subject-requests';
+import { buildSubjectDataBundle } from '../../services/privacy/subject-data';
+import { FileHandler } from '../../services/storage/file-handler';
+
+/**
+ * Edge function handler answering an access request. It returns a zip of everything
+ * held on the candidate and their merged duplicates, as JSON with the resumes and files
+ * they uploaded, and completes the request with a count of what the bundle held.
+ */
+export async function exportPrivacyRequest(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!PRIVACY_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    // Extract request ID from URL (/privacy-requests/:id/export)
+    const url = new URL(req.url);
+    const requestId = await validateInput(uuidSchema, url.pathname.split('/').slice(-2)[0]) as UUID;
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const request = await getActionableRequest(client, requestId, DataSubjectRequestType.ACCESS);
+      const { archive, evidence } = await buildSubjectDataBundle(client, request.candidate_id, new FileHandler());
+      await completeDataSubjectRequest(client, requestId, evidence, user.sub);
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'candidate',
+          request.candidate_id,
+          'export_personal_data',
+          user.sub,
+          JSON.stringify({ request_id: requestId, ...evidence }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Personal data exported', {
+        correlationId,
+        requestId,
+        candidateId: request.candidate_id,
+        userId: user.sub
+      });
+
+      return new Response(archive, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="personal-data-${requestId}.zip"`,
+          'Cache-Control': 'private, no-store',
+          'X-Correlation-ID': correlationId
+        }
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'exportPrivacyRequest'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
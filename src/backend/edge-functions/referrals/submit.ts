@@ -0,0 +1,152 @@
+import { REFERRER_ROLES, referralSubmitSchema } from '../../types/referrals';
+import { UserRole } from '../../types/auth';
+import { validateInput, sanitizeInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { submitReferral } from '../../services/referrals/referrals';
+
+/**
+ * Edge function handler for an employee referring someone to a published job; the
+ * referred person enters the job's pipeline credited to the employee
+ */
+export async function createReferral(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!REFERRER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const payload = await validateInput(referralSubmitSchema, await req.json());
+
+    logger.info('Processing referral submission', {
+      correlationId,
+      jobId: payload.job_id,
+      userId: user.sub
+    });
+
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: [referrer] } = await client.query<{ full_name: string }>(
+        'SELECT full_name FROM auth.users WHERE id = $1',
+        [user.sub]
+      );
+      if (!referrer) {
+        throw new AppError('User not found', ErrorCode.UNAUTHORIZED);
+      }
+
+      const { referral, application } = await submitReferral(
+        client,
+        { id: user.sub, full_name: referrer.full_name },
+        {
+          ...payload,
+          relationship: payload.relationship ? sanitizeInput(payload.relationship) : undefined,
+          note: payload.note ? sanitizeInput(payload.note) : undefined
+        }
+      );
+
+      // Record audit log
+      await client.query(
+        `INSERT INTO audit_logs (
+          entity_type,
+          entity_id,
+          action,
+          user_id,
+          changes,
+          correlation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          'referral',
+          referral.id,
+          'create',
+          user.sub,
+          JSON.stringify({
+            job_id: referral.job_id,
+            candidate_id: referral.candidate_id,
+            application_id: application.id,
+            origin: referral.origin
+          }),
+          correlationId
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Referral submitted successfully', {
+        correlationId,
+        referralId: referral.id,
+        applicationId: application.id,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: referral,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'createReferral'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
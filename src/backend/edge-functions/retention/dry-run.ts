@@ -0,0 +1,103 @@
+import { PRIVACY_MANAGER_ROLES } from '../../types/privacy';
+import { UserRole } from '../../types/auth';
+import { AppError } from '../../utils/error-handler';
+import { verifyJWT } from '../../utils/security';
+import { databaseConfig } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { ErrorCode, UUID } from '../../types/common';
+import { FileHandler } from '../../services/storage/file-handler';
+import { ResumeStorage } from '../../services/storage/resume-storage';
+import { enforceRetention, saveRetentionRun } from '../../services/privacy/retention';
+
+/**
+ * Edge function handler running a dry run of consent and retention enforcement. Nothing
+ * is changed or sent; the report of what the retention worker would do now is stored
+ * with the other runs and returned.
+ */
+export async function previewRetention(req: Request): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+
+  try {
+    // Extract and validate JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AppError('Missing or invalid authorization', ErrorCode.UNAUTHORIZED);
+    }
+
+    const user = await verifyJWT(authHeader.substring(7)) as { sub: UUID; role: UserRole };
+    if (!PRIVACY_MANAGER_ROLES.includes(user.role)) {
+      throw new AppError('Insufficient permissions', ErrorCode.FORBIDDEN);
+    }
+
+    const startedAt = new Date();
+    const pool = await databaseConfig.getPool();
+    const client = await pool.connect();
+    try {
+      const report = await enforceRetention(
+        client,
+        { dryRun: true, now: startedAt, correlationId },
+        { fileHandler: new FileHandler(), resumeStorage: new ResumeStorage() }
+      );
+      const run = await saveRetentionRun(client, report, startedAt, user.sub);
+
+      logger.info('Retention dry run completed', {
+        correlationId,
+        runId: run.id,
+        userId: user.sub
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: run,
+          error: null
+        }),
+        {
+          status: 201,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Correlation-ID': correlationId
+          }
+        }
+      );
+
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'previewRetention'
+    });
+
+    const statusCode = error instanceof AppError ?
+      (error.code === ErrorCode.NOT_FOUND ? 404 :
+       error.code === ErrorCode.UNAUTHORIZED ? 401 :
+       error.code === ErrorCode.FORBIDDEN ? 403 :
+       error.code === ErrorCode.CONFLICT ? 409 : 400) : 500;
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: error instanceof AppError ? {
+          code: error.code,
+          message: error.message,
+          details: error.details
+        } : {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          details: null
+        }
+      }),
+      {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Correlation-ID': correlationId
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod'; // ^3.22.0
+import { OpenAIService } from './openai';
+import { AppError } from '../../utils/error-handler';
+import { ErrorCode } from '../../types/common';
+import { logger } from '../../utils/logger';
+import {
+  JobDescriptionDraft,
+  WordingCheckResult,
+  WordingIssue,
+  WordingIssueCategory,
+  WordingIssueSource,
+  jobDescriptionDraftSchema,
+  jobRequirementsSchema,
+  jobWordingCheckSchema
+} from '../../types/jobs';
+import {
+  checkWordingRules,
+  findRequirementStackIssues,
+  findRuleMatches,
+  getWordingTexts
+} from '../jobs/wording';
+
+// Validation Schemas
+const draftResponseSchema = z.object({
+  description: z.string().min(1),
+  requirements: jobRequirementsSchema.omit({ experience_level: true })
+});
+
+const aiWordingIssueSchema = z.object({
+  category: z.enum([WordingIssueCategory.EXCLUSIONARY, WordingIssueCategory.BIASED]),
+  path: z.string(),
+  excerpt: z.string().min(1),
+  message: z.string().min(1),
+  suggestion: z.string().nullable()
+});
+
+const DRAFT_PROMPT = `You write inclusive, concise job postings. Write the description and requirements of the job below.
+Use plain, gender-neutral language, avoid jargon and hype words, and keep requirements realistic for the level.
+The description is HTML using only <p>, <ul>, <li> and <strong> tags.
+Respond with JSON only, in the form:
+{"description": string, "requirements": {"years_experience": number, "required_skills": string[], "preferred_skills": string[], "qualifications": string[], "responsibilities": string[]}}`;
+
+const WORDING_PROMPT = `Review the texts of a job posting below for exclusionary wording (age, gender, disability, national origin) and biased wording (coded language, screening for similarity).
+Only report phrases that appear verbatim in a text. Respond with a JSON array only, in the form:
+[{"category": "EXCLUSIONARY" | "BIASED", "path": string, "excerpt": string, "message": string, "suggestion": string | null}]
+Respond with [] when nothing needs to change.`;
+
+/**
+ * Extracts the JSON payload of a completion, which models sometimes wrap in a code fence
+ */
+function parseCompletionJson(completion: string): unknown {
+  const fenced = completion.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : completion).trim());
+}
+
+export class JobDescriptionWriter {
+  private readonly openAIService: OpenAIService;
+
+  constructor(openAIService: OpenAIService) {
+    this.openAIService = openAIService;
+  }
+
+  /**
+   * Drafts the description and requirements of a job from its title, level and a few
+   * highlights. The draft is checked against the local wording rules before it is returned.
+   */
+  public async draft(input: z.infer<typeof jobDescriptionDraftSchema>): Promise<JobDescriptionDraft> {
+    const prompt = [
+      DRAFT_PROMPT,
+      '',
+      `Title: ${input.title}`,
+      `Level: ${input.experience_level}`,
+      input.type ? `Type: ${input.type}` : null,
+      input.location ? `Location: ${input.location}` : null,
+      'Highlights:',
+      ...input.highlights.map(highlight => `- ${highlight}`)
+    ].filter(line => line !== null).join('\n');
+
+    const completion = await this.openAIService.generateCompletion(prompt, { temperature: 0.7 });
+
+    let parsed: z.infer<typeof draftResponseSchema>;
+    try {
+      parsed = draftResponseSchema.parse(parseCompletionJson(completion));
+    } catch (error) {
+      throw new AppError('The writer returned an unusable draft; please try again', ErrorCode.INTERNAL_ERROR, {
+        originalError: (error as Error).message
+      });
+    }
+
+    // Salary is set in the form rather than drafted, so only wording and requirements are checked
+    const requirements = { ...parsed.requirements, experience_level: input.experience_level };
+    const texts = getWordingTexts({ title: input.title, description: parsed.description, requirements });
+    return {
+      description: parsed.description,
+      requirements,
+      issues: [
+        ...texts.flatMap(([path, text]) => findRuleMatches(path, text)),
+        ...findRequirementStackIssues(requirements)
+      ]
+    };
+  }
+
+  /**
+   * Checks the wording of a job with the local rules and, when the AI service is
+   * available, the model. Falls back to the local rules alone when the model fails.
+   */
+  public async checkWording(job: z.infer<typeof jobWordingCheckSchema>): Promise<WordingCheckResult> {
+    const issues = checkWordingRules(job);
+    const texts = new Map(getWordingTexts(job));
+
+    let aiIssues: WordingIssue[];
+    try {
+      const prompt = [
+        WORDING_PROMPT,
+        '',
+        JSON.stringify(Object.fromEntries(texts))
+      ].join('\n');
+      const completion = await this.openAIService.generateCompletion(prompt, { temperature: 0 });
+      aiIssues = z.array(aiWordingIssueSchema).parse(parseCompletionJson(completion))
+        .flatMap(issue => locateIssue(issue, texts.get(issue.path)));
+    } catch (error) {
+      logger.warn('AI wording check unavailable, using local rules only', {
+        reason: error instanceof AppError ? error.code : (error as Error).message
+      });
+      return { issues, ai_checked: false };
+    }
+
+    // The rules already cover a phrase when they flagged an overlapping excerpt
+    const additional = aiIssues.filter(aiIssue => !issues.some(issue =>
+      issue.path === aiIssue.path &&
+      issue.start !== null && issue.end !== null &&
+      issue.start < aiIssue.end! && aiIssue.start! < issue.end
+    ));
+
+    return { issues: [...issues, ...additional], ai_checked: true };
+  }
+}
+
+/**
+ * Positions an issue reported by the model within its text; issues whose excerpt
+ * is not in the text are dropped
+ */
+function locateIssue(issue: z.infer<typeof aiWordingIssueSchema>, text: string | undefined): WordingIssue[] {
+  const start = text?.indexOf(issue.excerpt) ?? -1;
+  if (start < 0) return [];
+
+  return [{
+    category: issue.category,
+    source: WordingIssueSource.AI,
+    path: issue.path,
+    message: issue.message,
+    excerpt: issue.excerpt,
+    suggestion: issue.suggestion,
+    start,
+    end: start + issue.excerpt.length
+  }];
+}
+
+let sharedWriter: JobDescriptionWriter | null = null;
+
+/**
+ * Writer shared by the job description endpoints so they share one circuit breaker
+ */
+export function getJobDescriptionWriter(): JobDescriptionWriter {
+  sharedWriter ??= new JobDescriptionWriter(new OpenAIService());
+  return sharedWriter;
+}
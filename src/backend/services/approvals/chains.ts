@@ -0,0 +1,102 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  APPROVER_ROLES,
+  ApprovalChain,
+  ApprovalChainStep,
+  ApprovalEntityType,
+  approvalChainStepInputSchema
+} from '../../types/approvals';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Approver step accepted when creating or replacing chain steps
+ */
+export type ApprovalChainStepInput = z.infer<typeof approvalChainStepInputSchema>;
+
+/**
+ * Loads the approver steps of the given chains, grouped by chain and ordered by step order
+ * @param client - Database client
+ * @param chainIds - Chain identifiers
+ */
+export async function getChainSteps(
+  client: PoolClient,
+  chainIds: UUID[]
+): Promise<Map<UUID, ApprovalChainStep[]>> {
+  const stepsByChain = new Map<UUID, ApprovalChainStep[]>();
+  if (!chainIds.length) return stepsByChain;
+
+  const { rows } = await client.query<ApprovalChainStep>(
+    `SELECT id, chain_id, step_order, approver_role, approver_id
+     FROM approval_chain_steps
+     WHERE chain_id = ANY($1)
+     ORDER BY step_order ASC, created_at ASC`,
+    [chainIds]
+  );
+
+  for (const step of rows) {
+    stepsByChain.set(step.chain_id, [...(stepsByChain.get(step.chain_id) ?? []), step]);
+  }
+  return stepsByChain;
+}
+
+/**
+ * Loads the active approval chain of an entity type, or null when the entity type is not gated
+ * @param client - Database client
+ * @param entityType - Gated entity type
+ */
+export async function getActiveChain(
+  client: PoolClient,
+  entityType: ApprovalEntityType
+): Promise<ApprovalChain | null> {
+  const { rows: [chain] } = await client.query<Omit<ApprovalChain, 'steps'>>(
+    'SELECT * FROM approval_chains WHERE entity_type = $1 AND is_active',
+    [entityType]
+  );
+  if (!chain) return null;
+
+  const steps = await getChainSteps(client, [chain.id]);
+  return { ...chain, steps: steps.get(chain.id) ?? [] };
+}
+
+/**
+ * Replaces the approvers of a chain. Named approvers must be existing users in an
+ * approver role. Requests already started keep their own copy of the steps.
+ * @param client - Database client inside an open transaction
+ * @param chainId - Chain identifier
+ * @param steps - New approver steps
+ */
+export async function replaceChainSteps(
+  client: PoolClient,
+  chainId: UUID,
+  steps: ApprovalChainStepInput[]
+): Promise<ApprovalChainStep[]> {
+  const approverIds = [...new Set(steps.map(step => step.approver_id).filter(Boolean))];
+  if (approverIds.length) {
+    const { rows } = await client.query<{ id: UUID }>(
+      'SELECT id FROM auth.users WHERE id = ANY($1) AND role = ANY($2)',
+      [approverIds, APPROVER_ROLES]
+    );
+    const found = new Set(rows.map(row => row.id));
+    const missing = approverIds.filter(id => !found.has(id as UUID));
+    if (missing.length) {
+      throw new AppError('Approvers must be users with an approver role', ErrorCode.VALIDATION_ERROR, {
+        approverIds: missing
+      });
+    }
+  }
+
+  await client.query('DELETE FROM approval_chain_steps WHERE chain_id = $1', [chainId]);
+
+  for (const step of steps) {
+    await client.query(
+      `INSERT INTO approval_chain_steps (chain_id, step_order, approver_role, approver_id)
+       VALUES ($1, $2, $3, $4)`,
+      [chainId, step.step_order, step.approver_role ?? null, step.approver_id ?? null]
+    );
+  }
+
+  const stepsByChain = await getChainSteps(client, [chainId]);
+  return stepsByChain.get(chainId) ?? [];
+}
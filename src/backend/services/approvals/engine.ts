@@ -0,0 +1,120 @@
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  ApprovalRequestStep,
+  ApprovalStatus,
+  ApprovalStepStatus
+} from '../../types/approvals';
+import { UserRole } from '../../types/auth';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Returns the step order currently awaiting decisions: the lowest order that still has
+ * a pending step. Later orders wait until every step of this one has approved.
+ * @param steps - Steps of an approval request
+ */
+export function getActiveStepOrder(steps: Pick<ApprovalRequestStep, 'step_order' | 'status'>[]): number | null {
+  const pending = steps
+    .filter(step => step.status === ApprovalStepStatus.PENDING)
+    .map(step => step.step_order);
+  return pending.length ? Math.min(...pending) : null;
+}
+
+/**
+ * Checks whether a user is named by a step, directly or through their role
+ * @param step - Approver step
+ * @param user - Authenticated user
+ */
+export function isStepApprover(
+  step: Pick<ApprovalRequestStep, 'approver_id' | 'approver_role'>,
+  user: { sub: UUID; role: UserRole }
+): boolean {
+  return step.approver_id !== null ? step.approver_id === user.sub : step.approver_role === user.role;
+}
+
+/**
+ * Finds the active step a user can decide on, enforcing that requesters never approve
+ * their own request
+ * @param request - Approval request with its steps
+ * @param user - Authenticated user
+ */
+export function findDecidableStep(
+  request: Pick<ApprovalRequest, 'status' | 'requested_by' | 'steps'>,
+  user: { sub: UUID; role: UserRole }
+): ApprovalRequestStep {
+  if (request.status !== ApprovalStatus.PENDING) {
+    throw new AppError('Approval request is no longer pending', ErrorCode.CONFLICT, {
+      status: request.status
+    });
+  }
+
+  if (request.requested_by === user.sub) {
+    throw new AppError('Requesters cannot decide on their own approval request', ErrorCode.FORBIDDEN);
+  }
+
+  const activeOrder = getActiveStepOrder(request.steps);
+  const step = request.steps.find(candidate =>
+    candidate.step_order === activeOrder &&
+    candidate.status === ApprovalStepStatus.PENDING &&
+    isStepApprover(candidate, user)
+  );
+
+  if (!step) {
+    throw new AppError('No approval step is awaiting your decision', ErrorCode.FORBIDDEN, {
+      activeStepOrder: activeOrder
+    });
+  }
+  return step;
+}
+
+/**
+ * Resolves the request status from its steps: any rejection rejects the request and
+ * it is approved once no step is left pending
+ * @param steps - Steps of an approval request
+ */
+export function resolveApprovalStatus(steps: Pick<ApprovalRequestStep, 'status'>[]): ApprovalStatus {
+  if (steps.some(step => step.status === ApprovalStepStatus.REJECTED)) {
+    return ApprovalStatus.REJECTED;
+  }
+  return steps.some(step => step.status === ApprovalStepStatus.PENDING)
+    ? ApprovalStatus.PENDING
+    : ApprovalStatus.APPROVED;
+}
+
+/**
+ * Applies a decision to one step of a request. A rejection skips every step still
+ * pending, so the remaining approvers are not asked.
+ * @param steps - Steps of an approval request
+ * @param stepId - Step being decided
+ * @param decision - Approver decision
+ * @param decidedBy - User recording the decision
+ * @param comment - Optional approver comment
+ * @param now - Decision time
+ */
+export function applyApprovalDecision(
+  steps: ApprovalRequestStep[],
+  stepId: UUID,
+  decision: ApprovalDecision,
+  decidedBy: UUID,
+  comment: string | null,
+  now: Date
+): { steps: ApprovalRequestStep[]; status: ApprovalStatus } {
+  const decided = steps.map(step => {
+    if (step.id === stepId) {
+      return {
+        ...step,
+        status: decision === ApprovalDecision.APPROVE ? ApprovalStepStatus.APPROVED : ApprovalStepStatus.REJECTED,
+        decided_by: decidedBy,
+        decided_at: now,
+        comment
+      };
+    }
+    if (decision === ApprovalDecision.REJECT && step.status === ApprovalStepStatus.PENDING) {
+      return { ...step, status: ApprovalStepStatus.SKIPPED };
+    }
+    return step;
+  });
+
+  return { steps: decided, status: resolveApprovalStatus(decided) };
+}
@@ -0,0 +1,153 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApprovalEntityType, ApprovalStatus, ApprovalStepStatus } from '../../types/approvals';
+import { UUID } from '../../types/common';
+import { EmailSender } from '../email/sender';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { getActiveStepOrder } from './engine';
+import { getRequestSteps } from './requests';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+/**
+ * Emails the approvers of the active step order of a pending request and stamps the
+ * steps as reminded. Called when a request starts or advances, and by the reminder
+ * sweep; delivery failures are logged and never fail the caller.
+ * @param client - Database client, outside of the transaction that changed the request
+ * @param requestId - Approval request identifier
+ * @param correlationId - Correlation id of the triggering request
+ * @returns Number of reminder emails sent
+ */
+export async function notifyActiveApprovers(
+  client: PoolClient,
+  requestId: UUID,
+  correlationId: string
+): Promise<number> {
+  try {
+    const { rows: [request] } = await client.query<{
+      entity_type: ApprovalEntityType;
+      status: ApprovalStatus;
+      requested_by: UUID;
+      reminder_interval_hours: number;
+      job_title: string | null;
+      candidate_name: string | null;
+    }>(
+      `SELECT r.entity_type, r.status, r.requested_by, ch.reminder_interval_hours,
+              COALESCE(j.title, oj.title) AS job_title, c.full_name AS candidate_name
+       FROM approval_requests r
+       JOIN approval_chains ch ON ch.id = r.chain_id
+       LEFT JOIN jobs j ON r.entity_type = 'job' AND j.id = r.entity_id
+       LEFT JOIN offers o ON r.entity_type = 'offer' AND o.id = r.entity_id
+       LEFT JOIN jobs oj ON oj.id = o.job_id
+       LEFT JOIN candidates c ON c.id = o.candidate_id
+       WHERE r.id = $1`,
+      [requestId]
+    );
+
+    if (!request || request.status !== ApprovalStatus.PENDING) {
+      return 0;
+    }
+
+    const steps = (await getRequestSteps(client, [requestId])).get(requestId) ?? [];
+    const activeOrder = getActiveStepOrder(steps);
+    const activeSteps = steps.filter(
+      step => step.step_order === activeOrder && step.status === ApprovalStepStatus.PENDING
+    );
+    if (!activeSteps.length) return 0;
+
+    // Approvers named by role are every user with that role, except the requester
+    const { rows: recipients } = await client.query<{
+      email: string;
+      full_name: string;
+      role: string;
+    }>(
+      `SELECT email, full_name, role
+       FROM auth.users
+       WHERE (id = ANY($1) OR role = ANY($2))
+         AND id <> $3`,
+      [
+        activeSteps.map(step => step.approver_id).filter(Boolean),
+        activeSteps.map(step => step.approver_role).filter(Boolean),
+        request.requested_by
+      ]
+    );
+
+    const description = request.entity_type === ApprovalEntityType.OFFER
+      ? `Offer for ${request.candidate_name ?? 'a candidate'} (${request.job_title ?? 'job'}) is awaiting your approval`
+      : `Job opening "${request.job_title ?? 'Untitled'}" is awaiting your approval before it is published`;
+    const deadline = new Date(Date.now() + request.reminder_interval_hours * 3600000);
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      const { subject, html, text } = await reminderTemplate.generateActionReminder(
+        {
+          type: 'approval',
+          deadline,
+          priority: 'medium',
+          description,
+          actionUrl: `${process.env.APP_URL}/approvals`
+        },
+        { name: recipient.full_name, email: recipient.email, role: recipient.role }
+      );
+
+      if (await emailSender.sendEmail({ to: recipient.email, subject, html, text })) {
+        sent++;
+      }
+    }
+
+    await client.query(
+      `UPDATE approval_request_steps
+       SET last_reminded_at = NOW(),
+           updated_at = NOW()
+       WHERE id = ANY($1)`,
+      [activeSteps.map(step => step.id)]
+    );
+
+    return sent;
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'notifyActiveApprovers',
+      requestId
+    });
+    return 0;
+  }
+}
+
+/**
+ * Reminds approvers of every pending request whose active step has waited longer than
+ * the reminder interval of its chain
+ * @param client - Database client
+ * @param correlationId - Correlation id of the triggering request
+ */
+export async function sendDueApprovalReminders(
+  client: PoolClient,
+  correlationId: string
+): Promise<{ requests: number; emails: number }> {
+  const { rows } = await client.query<{ id: UUID }>(
+    `SELECT r.id
+     FROM approval_requests r
+     JOIN approval_chains ch ON ch.id = r.chain_id
+     WHERE r.status = 'PENDING'
+       AND EXISTS (
+         SELECT 1
+         FROM approval_request_steps s
+         WHERE s.request_id = r.id
+           AND s.status = 'PENDING'
+           AND s.step_order = (
+             SELECT MIN(step_order) FROM approval_request_steps
+             WHERE request_id = r.id AND status = 'PENDING'
+           )
+           AND COALESCE(s.last_reminded_at, r.created_at)
+             <= NOW() - make_interval(hours => ch.reminder_interval_hours)
+       )
+     ORDER BY r.created_at ASC`
+  );
+
+  let emails = 0;
+  for (const { id } of rows) {
+    emails += await notifyActiveApprovers(client, id, correlationId);
+  }
+  return { requests: rows.length, emails };
+}
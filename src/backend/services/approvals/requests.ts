@@ -0,0 +1,191 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  ApprovalChain,
+  ApprovalEntityType,
+  ApprovalRequest,
+  ApprovalRequestStep,
+  ApprovalStatus
+} from '../../types/approvals';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Loads the steps of the given approval requests, grouped by request
+ * @param client - Database client
+ * @param requestIds - Request identifiers
+ */
+export async function getRequestSteps(
+  client: PoolClient,
+  requestIds: UUID[]
+): Promise<Map<UUID, ApprovalRequestStep[]>> {
+  const stepsByRequest = new Map<UUID, ApprovalRequestStep[]>();
+  if (!requestIds.length) return stepsByRequest;
+
+  const { rows } = await client.query<ApprovalRequestStep>(
+    `SELECT *
+     FROM approval_request_steps
+     WHERE request_id = ANY($1)
+     ORDER BY step_order ASC, created_at ASC`,
+    [requestIds]
+  );
+
+  for (const step of rows) {
+    stepsByRequest.set(step.request_id, [...(stepsByRequest.get(step.request_id) ?? []), step]);
+  }
+  return stepsByRequest;
+}
+
+/**
+ * Loads and locks an approval request with its steps so concurrent decisions apply in order
+ * @param client - Database client inside an open transaction
+ * @param requestId - Request identifier
+ */
+export async function lockApprovalRequest(client: PoolClient, requestId: UUID): Promise<ApprovalRequest> {
+  const { rows: [request] } = await client.query<Omit<ApprovalRequest, 'steps'>>(
+    'SELECT * FROM approval_requests WHERE id = $1 FOR UPDATE',
+    [requestId]
+  );
+
+  if (!request) {
+    throw new AppError('Approval request not found', ErrorCode.NOT_FOUND);
+  }
+
+  const steps = await getRequestSteps(client, [request.id]);
+  return { ...request, steps: steps.get(request.id) ?? [] };
+}
+
+/**
+ * Starts an approval request for an entity, copying the approvers of the chain so later
+ * chain edits do not change requests already in flight
+ * @param client - Database client inside an open transaction
+ * @param chain - Active chain of the entity type
+ * @param entityId - Entity the approval is for
+ * @param entityVersion - Entity version the approval applies to, when the entity is versioned
+ * @param requestedBy - Requesting user
+ */
+export async function createApprovalRequest(
+  client: PoolClient,
+  chain: ApprovalChain,
+  entityId: UUID,
+  entityVersion: number | null,
+  requestedBy: UUID
+): Promise<ApprovalRequest> {
+  const { rows: [pending] } = await client.query<{ id: UUID }>(
+    `SELECT id FROM approval_requests
+     WHERE entity_type = $1 AND entity_id = $2 AND status = $3`,
+    [chain.entity_type, entityId, ApprovalStatus.PENDING]
+  );
+  if (pending) {
+    throw new AppError('An approval request is already pending', ErrorCode.CONFLICT, {
+      approvalRequestId: pending.id
+    });
+  }
+
+  const { rows: [request] } = await client.query<Omit<ApprovalRequest, 'steps'>>(
+    `INSERT INTO approval_requests (chain_id, entity_type, entity_id, entity_version, requested_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [chain.id, chain.entity_type, entityId, entityVersion, requestedBy]
+  );
+
+  for (const step of chain.steps) {
+    await client.query(
+      `INSERT INTO approval_request_steps (request_id, step_order, approver_role, approver_id)
+       VALUES ($1, $2, $3, $4)`,
+      [request.id, step.step_order, step.approver_role, step.approver_id]
+    );
+  }
+
+  const steps = await getRequestSteps(client, [request.id]);
+  return { ...request, steps: steps.get(request.id) ?? [] };
+}
+
+/**
+ * Cancels the pending approval of an entity, e.g. when the terms it was asked for change
+ * @param client - Database client inside an open transaction
+ * @param entityType - Gated entity type
+ * @param entityId - Entity identifier
+ */
+export async function cancelPendingApproval(
+  client: PoolClient,
+  entityType: ApprovalEntityType,
+  entityId: UUID
+): Promise<UUID | null> {
+  const { rows: [cancelled] } = await client.query<{ id: UUID }>(
+    `UPDATE approval_requests
+     SET status = $3,
+         completed_at = NOW(),
+         updated_at = NOW()
+     WHERE entity_type = $1 AND entity_id = $2 AND status = $4
+     RETURNING id`,
+    [entityType, entityId, ApprovalStatus.CANCELLED, ApprovalStatus.PENDING]
+  );
+  return cancelled?.id ?? null;
+}
+
+/**
+ * Cancels the pending and approved requests of an unversioned entity whose approved
+ * content changed, so the change is approved again before the gate passes
+ * @param client - Database client inside an open transaction
+ * @param entityType - Gated entity type
+ * @param entityId - Entity identifier
+ * @returns Identifiers of the cancelled requests
+ */
+export async function withdrawApprovals(
+  client: PoolClient,
+  entityType: ApprovalEntityType,
+  entityId: UUID
+): Promise<UUID[]> {
+  const { rows } = await client.query<{ id: UUID }>(
+    `UPDATE approval_requests
+     SET status = $3,
+         completed_at = NOW(),
+         updated_at = NOW()
+     WHERE entity_type = $1 AND entity_id = $2 AND status = ANY($4)
+     RETURNING id`,
+    [entityType, entityId, ApprovalStatus.CANCELLED, [ApprovalStatus.PENDING, ApprovalStatus.APPROVED]]
+  );
+  return rows.map(row => row.id);
+}
+
+/**
+ * Gate for actions that need approval. Passes when no chain is active for the entity type
+ * or when the latest request for the entity (and version) is approved; otherwise throws a
+ * conflict carrying the current approval state. The gate never starts a request itself,
+ * since the failing action rolls its transaction back.
+ * @param client - Database client
+ * @param entityType - Gated entity type
+ * @param entityId - Entity identifier
+ * @param entityVersion - Version the approval must match, for versioned entities
+ */
+export async function assertApproved(
+  client: PoolClient,
+  entityType: ApprovalEntityType,
+  entityId: UUID,
+  entityVersion: number | null = null
+): Promise<void> {
+  const { rows: [chain] } = await client.query<{ id: UUID }>(
+    'SELECT id FROM approval_chains WHERE entity_type = $1 AND is_active',
+    [entityType]
+  );
+  if (!chain) return;
+
+  const { rows: [latest] } = await client.query<{ id: UUID; status: ApprovalStatus }>(
+    `SELECT id, status
+     FROM approval_requests
+     WHERE entity_type = $1
+       AND entity_id = $2
+       AND entity_version IS NOT DISTINCT FROM $3::int
+       AND status <> $4
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [entityType, entityId, entityVersion, ApprovalStatus.CANCELLED]
+  );
+
+  if (latest?.status !== ApprovalStatus.APPROVED) {
+    throw new AppError('Approval required', ErrorCode.CONFLICT, {
+      approvalStatus: latest?.status ?? null,
+      approvalRequestId: latest?.id ?? null
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApprovalEntityType } from '../../types/approvals';
+import { JobStatus } from '../../types/jobs';
+import { OfferStatus } from '../../types/offers';
+import { UserRole } from '../../types/auth';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Gated entity as seen by the approval engine
+ */
+export interface ApprovalSubject {
+  entityType: ApprovalEntityType;
+  entityId: UUID;
+  // Offer version the approval applies to; jobs are not versioned
+  version: number | null;
+  ownerId: UUID;
+  // Approvals are only requested while the job or offer is still a draft
+  isDraft: boolean;
+}
+
+/**
+ * Loads the job or offer an approval is requested for
+ * @param client - Database client
+ * @param entityType - Gated entity type
+ * @param entityId - Entity identifier
+ */
+export async function loadApprovalSubject(
+  client: PoolClient,
+  entityType: ApprovalEntityType,
+  entityId: UUID
+): Promise<ApprovalSubject> {
+  if (entityType === ApprovalEntityType.JOB) {
+    const { rows: [job] } = await client.query<{ status: JobStatus; creator_id: UUID }>(
+      'SELECT status, creator_id FROM jobs WHERE id = $1',
+      [entityId]
+    );
+    if (!job) {
+      throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+    }
+    return {
+      entityType,
+      entityId,
+      version: null,
+      ownerId: job.creator_id,
+      isDraft: job.status === JobStatus.DRAFT
+    };
+  }
+
+  const { rows: [offer] } = await client.query<{ status: OfferStatus; version: number; creator_id: UUID }>(
+    `SELECT o.status, o.version, j.creator_id
+     FROM offers o
+     JOIN jobs j ON j.id = o.job_id
+     WHERE o.id = $1`,
+    [entityId]
+  );
+  if (!offer) {
+    throw new AppError('Offer not found', ErrorCode.NOT_FOUND);
+  }
+  return {
+    entityType,
+    entityId,
+    version: offer.version,
+    ownerId: offer.creator_id,
+    isDraft: offer.status === OfferStatus.DRAFT
+  };
+}
+
+/**
+ * Checks whether a user may request and follow approvals for a job or offer: admins and
+ * recruiters for any job, hiring managers for the jobs they own
+ * @param subject - Gated entity
+ * @param user - Authenticated user
+ */
+export function canRequestApproval(
+  subject: Pick<ApprovalSubject, 'ownerId'>,
+  user: { sub: UUID; role: UserRole }
+): boolean {
+  return [UserRole.ADMIN, UserRole.RECRUITER].includes(user.role) ||
+    (user.role === UserRole.HIRING_MANAGER && subject.ownerId === user.sub);
+}
@@ -0,0 +1,202 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { CandidateStatus, DuplicateCandidateMatch, DuplicateMatchReason } from '../../types/candidates';
+import { UUID } from '../../types/common';
+import { formatPhoneNumber } from '../../utils/formatting';
+
+// Likelihood that two profiles are the same person when a single signal matches
+const MATCH_WEIGHTS: Record<DuplicateMatchReason, number> = {
+  [DuplicateMatchReason.RESUME]: 0.95,
+  [DuplicateMatchReason.EMAIL]: 0.9,
+  [DuplicateMatchReason.PHONE]: 0.7,
+  [DuplicateMatchReason.NAME]: 0.5
+};
+
+// Minimum combined score reported as a likely duplicate; a name alone never reaches it
+export const DUPLICATE_MATCH_THRESHOLD = 0.6;
+
+// Minimum trigram similarity for a name to count as matching
+export const NAME_SIMILARITY_THRESHOLD = 0.5;
+
+const MAX_DUPLICATE_MATCHES = 10;
+const MIN_INTERNATIONAL_PHONE_DIGITS = 7;
+
+// Providers that ignore dots in the local part of an address
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+/**
+ * Values of a profile that duplicate detection compares
+ */
+export interface DuplicateCandidateInput {
+  full_name: string;
+  email: string;
+  phone?: string | null;
+  resume_checksum?: string | null;
+}
+
+/**
+ * Normalized match keys stored with each candidate
+ */
+export interface DuplicateKeys {
+  normalized_email: string;
+  normalized_phone: string | null;
+}
+
+interface DuplicateCandidateRow {
+  id: UUID;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  status: CandidateStatus;
+  created_at: Date;
+  normalized_email: string | null;
+  normalized_phone: string | null;
+  resume_checksum: string | null;
+  name_similarity: number;
+}
+
+/**
+ * Normalizes an email address so that sub-addresses and provider aliases of the same
+ * mailbox compare equal
+ * @param email - Email address as entered
+ */
+export function normalizeEmail(email: string): string {
+  const trimmed = email.trim().toLowerCase();
+  const at = trimmed.lastIndexOf('@');
+  if (at < 1) {
+    return trimmed;
+  }
+
+  let local = trimmed.slice(0, at).split('+')[0];
+  let domain = trimmed.slice(at + 1);
+  if (DOT_INSENSITIVE_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return `${local}@${domain}`;
+}
+
+/**
+ * Normalizes a phone number to its digits, including the country code. Numbers without
+ * an explicit international prefix are read as US numbers.
+ * @param phone - Phone number as entered
+ * @returns Digits of the number, or null when it is missing or invalid
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone?.trim()) {
+    return null;
+  }
+
+  const international = /^\+(?!1)/.test(phone.trim());
+  try {
+    const formatted = formatPhoneNumber(phone, international ? 'INTL' : 'US', {
+      showExtension: false,
+      separator: ''
+    });
+    const digits = formatted.replace(/\D/g, '');
+    if (international) {
+      return digits.length >= MIN_INTERNATIONAL_PHONE_DIGITS ? digits : null;
+    }
+    return digits.length === 10 ? `1${digits}` : digits;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the normalized match keys of a profile
+ * @param input - Email and phone as entered
+ */
+export function buildDuplicateKeys(input: Pick<DuplicateCandidateInput, 'email' | 'phone'>): DuplicateKeys {
+  return {
+    normalized_email: normalizeEmail(input.email),
+    normalized_phone: normalizePhone(input.phone)
+  };
+}
+
+/**
+ * Scores how likely an existing candidate is the same person as a profile. Each matching
+ * signal is treated as independent evidence, so the score is the chance that at least
+ * one of them is right.
+ * @param keys - Normalized keys and resume checksum of the profile being checked
+ * @param candidate - Normalized keys of the existing candidate and the trigram similarity of the names
+ */
+export function scoreDuplicate(
+  keys: DuplicateKeys & { resume_checksum?: string | null },
+  candidate: Pick<DuplicateCandidateRow, 'normalized_email' | 'normalized_phone' | 'resume_checksum' | 'name_similarity'>
+): { score: number; reasons: DuplicateMatchReason[] } {
+  const reasons: DuplicateMatchReason[] = [];
+  if (keys.resume_checksum && keys.resume_checksum === candidate.resume_checksum) {
+    reasons.push(DuplicateMatchReason.RESUME);
+  }
+  if (keys.normalized_email === candidate.normalized_email) {
+    reasons.push(DuplicateMatchReason.EMAIL);
+  }
+  if (keys.normalized_phone && keys.normalized_phone === candidate.normalized_phone) {
+    reasons.push(DuplicateMatchReason.PHONE);
+  }
+
+  let miss = reasons.reduce((product, reason) => product * (1 - MATCH_WEIGHTS[reason]), 1);
+  if (candidate.name_similarity >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push(DuplicateMatchReason.NAME);
+    miss *= 1 - MATCH_WEIGHTS[DuplicateMatchReason.NAME] * candidate.name_similarity;
+  }
+
+  return { score: Math.round((1 - miss) * 100) / 100, reasons };
+}
+
+/**
+ * Finds existing candidates that likely duplicate a profile, best match first. Merged
+ * candidates are never reported.
+ * @param client - Database client
+ * @param input - Profile being created, imported or checked
+ * @param excludeId - Candidate the profile belongs to, when checking an existing candidate
+ */
+export async function findDuplicateCandidates(
+  client: PoolClient,
+  input: DuplicateCandidateInput,
+  excludeId?: UUID
+): Promise<DuplicateCandidateMatch[]> {
+  const keys = buildDuplicateKeys(input);
+
+  const { rows } = await client.query<DuplicateCandidateRow>(
+    `SELECT id, full_name, email, phone, status, created_at,
+            normalized_email, normalized_phone, resume_checksum,
+            similarity(full_name, $1) AS name_similarity
+     FROM candidates
+     WHERE merged_into_id IS NULL
+       AND anonymized_at IS NULL
+       AND ($5::uuid IS NULL OR id <> $5::uuid)
+       AND (
+         normalized_email = $2
+         OR normalized_phone = $3
+         OR resume_checksum = $4
+         OR full_name % $1
+       )
+     ORDER BY name_similarity DESC
+     LIMIT 50`,
+    [input.full_name.trim(), keys.normalized_email, keys.normalized_phone, input.resume_checksum ?? null, excludeId ?? null]
+  );
+
+  return rows
+    .map(row => {
+      const nameSimilarity = Number(row.name_similarity);
+      const { score, reasons } = scoreDuplicate(
+        { ...keys, resume_checksum: input.resume_checksum },
+        { ...row, name_similarity: nameSimilarity }
+      );
+      return {
+        candidate_id: row.id,
+        full_name: row.full_name,
+        email: row.email,
+        phone: row.phone,
+        status: row.status,
+        created_at: row.created_at,
+        score,
+        name_similarity: Math.round(nameSimilarity * 100) / 100,
+        reasons
+      };
+    })
+    .filter(match => match.score >= DUPLICATE_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DUPLICATE_MATCHES);
+}
@@ -0,0 +1,268 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  Candidate,
+  CandidateMerge,
+  CandidateMergeCounts,
+  CandidateStatus,
+  Education,
+  WorkExperience
+} from '../../types/candidates';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { normalizePhone } from './duplicates';
+
+/**
+ * Candidate row with the duplicate tracking columns
+ */
+export interface MergeableCandidate extends Candidate {
+  normalized_email: string | null;
+  normalized_phone: string | null;
+  resume_checksum: string | null;
+  merged_into_id: UUID | null;
+  merged_at: Date | null;
+}
+
+/**
+ * Profile fields of the primary candidate after a merge
+ */
+export interface CombinedCandidateProfile {
+  skills: string[];
+  experience: WorkExperience[];
+  education: Education[];
+  phone: string;
+  normalized_phone: string | null;
+  resume_url: string;
+  resume_checksum: string | null;
+}
+
+const normalizeKey = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// Dates compare by day; JSONB entries may carry a time part or none
+const dateKey = (value: unknown) => normalizeKey(value instanceof Date ? value.toISOString() : value).slice(0, 10);
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const itemKey = key(item);
+    if (seen.has(itemKey)) {
+      return false;
+    }
+    seen.add(itemKey);
+    return true;
+  });
+}
+
+/**
+ * Combines the profile of a duplicate into the primary candidate. Skills, experience and
+ * education are joined without repeats; contact details and the resume of the primary
+ * win, and only gaps are filled from the duplicate.
+ * @param primary - Candidate that is kept
+ * @param duplicate - Candidate merged into the primary
+ */
+export function combineCandidateProfiles(
+  primary: MergeableCandidate,
+  duplicate: MergeableCandidate
+): CombinedCandidateProfile {
+  const phone = primary.phone || duplicate.phone || '';
+  const keepPrimaryResume = !!primary.resume_url;
+
+  return {
+    skills: uniqueBy([...(primary.skills ?? []), ...(duplicate.skills ?? [])], normalizeKey),
+    experience: uniqueBy(
+      [...(primary.experience ?? []), ...(duplicate.experience ?? [])],
+      entry => [normalizeKey(entry.company), normalizeKey(entry.title), dateKey(entry.start_date)].join('|')
+    ),
+    education: uniqueBy(
+      [...(primary.education ?? []), ...(duplicate.education ?? [])],
+      entry => [entry.institution, entry.degree, entry.field_of_study].map(normalizeKey).join('|')
+    ),
+    phone,
+    normalized_phone: normalizePhone(phone),
+    resume_url: keepPrimaryResume ? primary.resume_url : duplicate.resume_url,
+    resume_checksum: keepPrimaryResume ? primary.resume_checksum : duplicate.resume_checksum
+  };
+}
+
+/**
+ * Locks both candidates of a merge in a stable order
+ * @param client - Database client inside the merge transaction
+ * @param primaryId - Candidate that is kept
+ * @param duplicateId - Candidate merged into the primary
+ */
+async function lockMergeCandidates(
+  client: PoolClient,
+  primaryId: UUID,
+  duplicateId: UUID
+): Promise<{ primary: MergeableCandidate; duplicate: MergeableCandidate }> {
+  const { rows } = await client.query<MergeableCandidate>(
+    `SELECT * FROM candidates WHERE id = ANY($1::uuid[]) ORDER BY id FOR UPDATE`,
+    [[primaryId, duplicateId]]
+  );
+
+  const primary = rows.find(row => row.id === primaryId);
+  const duplicate = rows.find(row => row.id === duplicateId);
+  if (!primary || !duplicate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, {
+      candidateId: primary ? duplicateId : primaryId
+    });
+  }
+
+  for (const candidate of [primary, duplicate]) {
+    if (candidate.merged_into_id) {
+      throw new AppError('Candidate has already been merged', ErrorCode.CONFLICT, {
+        candidateId: candidate.id,
+        mergedIntoId: candidate.merged_into_id
+      });
+    }
+  }
+
+  return { primary, duplicate };
+}
+
+/**
+ * Merges a duplicate candidate into a primary candidate. Applications, interviews, offers,
+ * hotlist memberships, tags, source touchpoints, referrals, notes and sent emails move to
+ * the primary, the profiles are combined and the duplicate is archived with a pointer to the
+ * primary. A snapshot of the duplicate is kept in candidate_merges.
+ * @param client - Database client inside the merge transaction
+ * @param primaryId - Candidate that is kept
+ * @param duplicateId - Candidate merged into the primary
+ * @param mergedBy - User performing the merge
+ */
+export async function mergeCandidates(
+  client: PoolClient,
+  primaryId: UUID,
+  duplicateId: UUID,
+  mergedBy: UUID
+): Promise<{ candidate: MergeableCandidate; merge: CandidateMerge }> {
+  const { primary, duplicate } = await lockMergeCandidates(client, primaryId, duplicateId);
+
+  const applications = await client.query(
+    `UPDATE applications SET candidate_id = $1, updated_at = NOW() WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+  const interviews = await client.query(
+    `UPDATE interviews SET candidate_id = $1, updated_at = NOW() WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+  const offers = await client.query(
+    `UPDATE offers SET candidate_id = $1, updated_at = NOW() WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+
+  // Hotlists that already hold the primary keep its membership
+  const hotlists = await client.query(
+    `INSERT INTO hotlist_members (
+       hotlist_id, candidate_id, added_by_id, notes, match_score, status, metadata, added_at
+     )
+     SELECT hotlist_id, $1, added_by_id, notes, match_score, status, metadata, added_at
+     FROM hotlist_members
+     WHERE candidate_id = $2
+     ON CONFLICT (hotlist_id, candidate_id) DO NOTHING`,
+    [primaryId, duplicateId]
+  );
+  await client.query(`DELETE FROM hotlist_members WHERE candidate_id = $1`, [duplicateId]);
+
+  // Tags on both profiles end up once on the primary
+  await client.query(
+    `INSERT INTO candidate_tags (candidate_id, tag_id, added_by, added_at)
+     SELECT $1, tag_id, added_by, added_at
+     FROM candidate_tags
+     WHERE candidate_id = $2
+     ON CONFLICT (candidate_id, tag_id) DO NOTHING`,
+    [primaryId, duplicateId]
+  );
+  await client.query(`DELETE FROM candidate_tags WHERE candidate_id = $1`, [duplicateId]);
+
+  // Source history and referrals move too; the primary's first touch becomes the earliest of both
+  await client.query(
+    `UPDATE source_touchpoints SET candidate_id = $1 WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+  await client.query(
+    `UPDATE referrals SET candidate_id = $1, updated_at = NOW() WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+
+  // Notes and the record of emails sent belong to the person, not the profile
+  await client.query(
+    `UPDATE candidate_notes SET candidate_id = $1 WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+  await client.query(
+    `UPDATE candidate_emails SET candidate_id = $1 WHERE candidate_id = $2`,
+    [primaryId, duplicateId]
+  );
+  await client.query(
+    `UPDATE candidates
+     SET first_touch_source_id = (
+       SELECT id FROM source_touchpoints
+       WHERE candidate_id = $1
+       ORDER BY occurred_at
+       LIMIT 1
+     )
+     WHERE id = $1`,
+    [primaryId]
+  );
+
+  // Profiles merged into the duplicate earlier now point at the primary directly
+  await client.query(
+    `UPDATE candidates SET merged_into_id = $1, updated_at = NOW() WHERE merged_into_id = $2`,
+    [primaryId, duplicateId]
+  );
+
+  const profile = combineCandidateProfiles(primary, duplicate);
+  const { rows: [candidate] } = await client.query<MergeableCandidate>(
+    `UPDATE candidates
+     SET skills = $2,
+         experience = $3,
+         education = $4,
+         phone = $5,
+         normalized_phone = $6,
+         resume_url = $7,
+         resume_checksum = $8,
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [
+      primaryId,
+      profile.skills,
+      JSON.stringify(profile.experience),
+      JSON.stringify(profile.education),
+      profile.phone,
+      profile.normalized_phone,
+      profile.resume_url,
+      profile.resume_checksum
+    ]
+  );
+
+  await client.query(
+    `UPDATE candidates
+     SET status = $2, merged_into_id = $3, merged_at = NOW(), updated_at = NOW()
+     WHERE id = $1`,
+    [duplicateId, CandidateStatus.ARCHIVED, primaryId]
+  );
+
+  const movedRecords: CandidateMergeCounts = {
+    applications: applications.rowCount ?? 0,
+    interviews: interviews.rowCount ?? 0,
+    offers: offers.rowCount ?? 0,
+    hotlists: hotlists.rowCount ?? 0
+  };
+
+  // The match embedding is derived data and is left out of the snapshot
+  const { ai_match_vector: _vector, ...snapshot } = duplicate as MergeableCandidate & { ai_match_vector?: unknown };
+  const { rows: [merge] } = await client.query<CandidateMerge>(
+    `INSERT INTO candidate_merges (
+       primary_candidate_id,
+       merged_candidate_id,
+       merged_by,
+       merged_snapshot,
+       moved_records
+     ) VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [primaryId, duplicateId, mergedBy, JSON.stringify(snapshot), JSON.stringify(movedRecords)]
+  );
+
+  return { candidate, merge };
+}
@@ -0,0 +1,67 @@
+import { CandidateSearchFilters } from '../../types/candidates';
+
+// Text the keyword query is matched and ranked against
+export const CANDIDATE_SEARCH_DOCUMENT = `to_tsvector('english',
+  coalesce(c.full_name, '') || ' ' ||
+  coalesce(c.skills::text, '') || ' ' ||
+  coalesce(c.experience::text, '')
+)`;
+
+/**
+ * WHERE conditions for the structured filters of the candidate search, on candidates
+ * aliased as `c`. Parameters are appended to `values`, so conditions can follow any
+ * parameters the caller already has.
+ * @param filters - Search filters
+ * @param values - Query parameters, extended in place
+ * @returns Conditions to join with AND; empty when nothing is filtered
+ */
+export function buildCandidateFilterConditions(filters: CandidateSearchFilters, values: unknown[]): string[] {
+  const conditions: string[] = [];
+
+  // Status filter
+  if (filters.status?.length) {
+    values.push(filters.status);
+    conditions.push(`c.status = ANY($${values.length})`);
+  }
+
+  // Skills filter with array intersection
+  if (filters.skills?.length) {
+    values.push(filters.skills);
+    conditions.push(`c.skills && $${values.length}`);
+  }
+
+  // Experience level filter
+  if (filters.experienceLevel?.length) {
+    values.push(filters.experienceLevel);
+    conditions.push(`c.experience_level = ANY($${values.length})`);
+  }
+
+  // Location filter, also matching locations the candidate would move to
+  if (filters.location) {
+    values.push(`%${filters.location}%`, filters.location);
+    conditions.push(`(
+      c.location ILIKE $${values.length - 1} OR
+      c.preferences -> 'preferred_locations' ? $${values.length}
+    )`);
+  }
+
+  // Salary range filter: the candidate's expectations overlap the range
+  if (filters.salaryRange) {
+    values.push(filters.salaryRange.max, filters.salaryRange.min);
+    conditions.push(`
+      (c.preferences ->> 'salary_expectation_min')::numeric <= $${values.length - 1} AND
+      (c.preferences ->> 'salary_expectation_max')::numeric >= $${values.length}
+    `);
+  }
+
+  // Tag filter: any of the selected tags
+  if (filters.tags?.length) {
+    values.push(filters.tags);
+    conditions.push(`EXISTS (
+      SELECT 1 FROM candidate_tags ct
+      WHERE ct.candidate_id = c.id AND ct.tag_id = ANY($${values.length}::uuid[])
+    )`);
+  }
+
+  return conditions;
+}
@@ -0,0 +1,257 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, PaginatedResponse, UUID, createPaginatedResponse } from '../../types/common';
+import { UserRole } from '../../types/auth';
+import { CandidateEmailCategory, TimelineEvent, TimelineEventType, TimelineQuery } from '../../types/timeline';
+import { AppError } from '../../utils/error-handler';
+import { ALL_JOBS_ROLES } from '../jobs/hiring-teams';
+import { noteVisibilityCondition } from '../notes/notes';
+
+/**
+ * User reading a timeline; some activity is only shown to the people allowed to see it
+ */
+export interface TimelineViewer {
+  id: UUID;
+  role: UserRole;
+}
+
+/**
+ * Timeline row as selected, before its summary is written
+ */
+type TimelineRow = Omit<TimelineEvent, 'summary'>;
+
+// Audit log actions on candidates shown in the timeline
+const PROFILE_ACTIONS = ['create', 'update', 'merge'];
+const RESUME_ACTIONS = ['resume_upload'];
+
+// Characters of a note shown in its timeline entry
+const NOTE_EXCERPT_LENGTH = 200;
+
+/**
+ * Builds the query selecting one kind of activity of the candidate in $1. Every source
+ * selects the same columns so they can be merged into one stream.
+ * @param type - Kind of activity
+ * @param viewer - User reading the timeline
+ * @param param - Adds a query parameter and returns its placeholder
+ */
+function buildTimelineSource(
+  type: TimelineEventType,
+  viewer: TimelineViewer,
+  param: (value: unknown) => string
+): string {
+  switch (type) {
+    case TimelineEventType.APPLICATION:
+      return `SELECT a.id::text AS id, '${type}' AS type, a.created_at AS occurred_at, a.created_by AS actor_id,
+                     a.id AS application_id,
+                     jsonb_build_object('job_id', j.id, 'job_title', j.title, 'status', a.status) AS details
+              FROM applications a
+              JOIN jobs j ON j.id = a.job_id
+              WHERE a.candidate_id = $1`;
+
+    // The first entry of a stage history is the application itself
+    case TimelineEventType.STAGE_CHANGE:
+      return `SELECT a.id::text || ':' || h.position AS id, '${type}' AS type,
+                     (h.entry ->> 'changed_at')::timestamptz AS occurred_at, (h.entry ->> 'actor_id')::uuid AS actor_id,
+                     a.id AS application_id,
+                     jsonb_build_object(
+                       'job_id', j.id,
+                       'job_title', j.title,
+                       'from_status', h.entry -> 'from_status',
+                       'to_status', h.entry -> 'to_status',
+                       'reason', h.entry -> 'reason'
+                     ) AS details
+              FROM applications a
+              JOIN jobs j ON j.id = a.job_id
+              CROSS JOIN LATERAL jsonb_array_elements(a.stage_history) WITH ORDINALITY AS h(entry, position)
+              WHERE a.candidate_id = $1 AND h.entry ->> 'from_status' IS NOT NULL`;
+
+    case TimelineEventType.INTERVIEW:
+      return `SELECT i.id::text AS id, '${type}' AS type, i.created_at AS occurred_at, i.created_by AS actor_id,
+                     NULL::uuid AS application_id,
+                     jsonb_build_object(
+                       'interview_id', i.id,
+                       'job_id', j.id,
+                       'job_title', j.title,
+                       'interview_type', i.type,
+                       'mode', i.mode,
+                       'status', i.status,
+                       'scheduled_at', i.scheduled_at
+                     ) AS details
+              FROM interviews i
+              JOIN jobs j ON j.id = i.job_id
+              WHERE i.candidate_id = $1`;
+
+    case TimelineEventType.FEEDBACK:
+      return `SELECT f.id::text AS id, '${type}' AS type, f.created_at AS occurred_at, f.interviewer_id AS actor_id,
+                     NULL::uuid AS application_id,
+                     jsonb_build_object(
+                       'interview_id', i.id,
+                       'job_title', j.title,
+                       'interview_type', i.type,
+                       'overall_rating', f.overall_rating,
+                       'hire_recommendation', f.hire_recommendation
+                     ) AS details
+              FROM interview_feedback f
+              JOIN interviews i ON i.id = f.interview_id
+              JOIN jobs j ON j.id = i.job_id
+              WHERE i.candidate_id = $1`;
+
+    case TimelineEventType.EMAIL:
+      return `SELECT e.id::text AS id, '${type}' AS type, e.created_at AS occurred_at, e.sent_by AS actor_id,
+                     e.application_id,
+                     jsonb_build_object('category', e.category, 'subject', e.subject, 'recipient', e.recipient) AS details
+              FROM candidate_emails e
+              WHERE e.candidate_id = $1`;
+
+    // Private hotlists only show up for the people who can open them
+    case TimelineEventType.HOTLIST: {
+      const canSeeAll = viewer.role === UserRole.ADMIN || viewer.role === UserRole.RECRUITER;
+      const viewerId = canSeeAll ? null : param(viewer.id);
+      return `SELECT h.id::text AS id, '${type}' AS type, m.added_at AS occurred_at, m.added_by_id AS actor_id,
+                     NULL::uuid AS application_id,
+                     jsonb_build_object('hotlist_id', h.id, 'hotlist_name', h.name, 'notes', m.notes) AS details
+              FROM hotlist_members m
+              JOIN hotlists h ON h.id = m.hotlist_id
+              WHERE m.candidate_id = $1 AND h.deleted_at IS NULL${viewerId ? `
+                AND (
+                  h.owner_id = ${viewerId}::uuid
+                  OR h.visibility = 'public'
+                  OR EXISTS (
+                    SELECT 1 FROM hotlist_collaborators hc
+                    WHERE hc.hotlist_id = h.id AND hc.user_id = ${viewerId}::uuid
+                  )
+                )` : ''}`;
+    }
+
+    case TimelineEventType.RESUME:
+      return `SELECT l.id::text AS id, '${type}' AS type, l.created_at AS occurred_at, l.user_id AS actor_id,
+                     NULL::uuid AS application_id,
+                     jsonb_build_object('file_name', l.changes ->> 'file_name') AS details
+              FROM audit_logs l
+              WHERE l.entity_type = 'candidate' AND l.entity_id = $1 AND l.action = ANY(${param(RESUME_ACTIONS)})`;
+
+    // Only the names of edited fields are shown; their values may be contact details
+    case TimelineEventType.PROFILE:
+      return `SELECT l.id::text AS id, '${type}' AS type, l.created_at AS occurred_at, l.user_id AS actor_id,
+                     NULL::uuid AS application_id,
+                     jsonb_build_object(
+                       'action', l.action,
+                       'fields', CASE WHEN jsonb_typeof(l.changes) = 'object'
+                         THEN (SELECT COALESCE(jsonb_agg(field ORDER BY field), '[]') FROM jsonb_object_keys(l.changes) AS field)
+                         ELSE '[]'::jsonb
+                       END
+                     ) AS details
+              FROM audit_logs l
+              WHERE l.entity_type = 'candidate' AND l.entity_id = $1 AND l.action = ANY(${param(PROFILE_ACTIONS)})`;
+
+    // Notes follow their visibility; private notes only show up for their author
+    case TimelineEventType.NOTE:
+      return `SELECT n.id::text AS id, '${type}' AS type, n.created_at AS occurred_at, n.author_id AS actor_id,
+                     n.application_id,
+                     jsonb_build_object(
+                       'note_id', n.id,
+                       'visibility', n.visibility,
+                       'pinned', n.pinned_at IS NOT NULL,
+                       'edited', n.edited_at IS NOT NULL,
+                       'excerpt', left(n.body_text, ${NOTE_EXCERPT_LENGTH})
+                     ) AS details
+              FROM candidate_notes n
+              WHERE n.candidate_id = $1
+                AND ${noteVisibilityCondition('n', `${param(viewer.id)}::uuid`, `${param(ALL_JOBS_ROLES.includes(viewer.role))}::boolean`)}`;
+  }
+}
+
+const formatStatus = (status: unknown) => String(status ?? '').toLowerCase().replace(/_/g, ' ');
+
+const EMAIL_CATEGORY_LABELS: Record<CandidateEmailCategory, string> = {
+  [CandidateEmailCategory.INTERVIEW]: 'Interview email',
+  [CandidateEmailCategory.OFFER]: 'Offer email',
+  [CandidateEmailCategory.REJECTION]: 'Rejection email',
+  [CandidateEmailCategory.STATUS_UPDATE]: 'Status update email',
+  [CandidateEmailCategory.OTHER]: 'Email'
+};
+
+/**
+ * One-line description of a timeline entry, e.g. "Moved from screening to interviewing
+ * for Backend Engineer"
+ * @param event - Timeline entry without its summary
+ */
+export function describeTimelineEvent(event: TimelineRow): string {
+  const details = event.details;
+  switch (event.type) {
+    case TimelineEventType.APPLICATION:
+      return `Applied to ${details.job_title}`;
+    case TimelineEventType.STAGE_CHANGE:
+      return `Moved from ${formatStatus(details.from_status)} to ${formatStatus(details.to_status)} for ${details.job_title}`;
+    case TimelineEventType.INTERVIEW:
+      return `${formatStatus(details.interview_type).replace(/^./, letter => letter.toUpperCase())} interview scheduled for ${details.job_title}`;
+    case TimelineEventType.FEEDBACK:
+      return `Interview feedback for ${details.job_title}: ${details.hire_recommendation ? 'recommends hiring' : 'does not recommend hiring'}`;
+    case TimelineEventType.EMAIL:
+      return `${EMAIL_CATEGORY_LABELS[details.category as CandidateEmailCategory] ?? 'Email'} sent: ${details.subject}`;
+    case TimelineEventType.HOTLIST:
+      return `Added to hotlist ${details.hotlist_name}`;
+    case TimelineEventType.RESUME:
+      return details.file_name ? `Resume uploaded: ${details.file_name}` : 'Resume uploaded';
+    case TimelineEventType.PROFILE: {
+      if (details.action === 'create') return 'Profile created';
+      if (details.action === 'merge') return 'Merged with a duplicate profile';
+      const fields = (details.fields as string[] | undefined) ?? [];
+      return fields.length > 0 ? `Profile edited: ${fields.map(formatStatus).join(', ')}` : 'Profile edited';
+    }
+    case TimelineEventType.NOTE: {
+      const excerpt = String(details.excerpt ?? '');
+      return `Note: ${excerpt.length >= NOTE_EXCERPT_LENGTH ? `${excerpt}…` : excerpt}`;
+    }
+  }
+}
+
+/**
+ * Retrieves the activity of a candidate as one stream, newest first: applications and
+ * their stage changes, interviews and feedback, emails sent, hotlist additions, resume
+ * uploads, profile edits and notes.
+ * @param client - Database client
+ * @param candidateId - Candidate identifier
+ * @param query - Kinds of activity to include (all when empty) and the page to read
+ * @param viewer - User reading the timeline
+ * @throws AppError when the candidate does not exist
+ */
+export async function getCandidateTimeline(
+  client: PoolClient,
+  candidateId: UUID,
+  query: TimelineQuery,
+  viewer: TimelineViewer
+): Promise<PaginatedResponse<TimelineEvent>> {
+  const { rows: [candidate] } = await client.query<{ id: UUID }>(
+    'SELECT id FROM candidates WHERE id = $1',
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+
+  const values: unknown[] = [candidateId];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  const types = query.types.length > 0 ? [...new Set(query.types)] : Object.values(TimelineEventType);
+  const events = types.map(type => buildTimelineSource(type, viewer, param)).join('\nUNION ALL\n');
+
+  const { rows: [{ total }] } = await client.query<{ total: number }>(
+    `SELECT COUNT(*)::int AS total FROM (${events}) AS events`,
+    values
+  );
+
+  const { rows } = await client.query<TimelineRow>(
+    `SELECT e.id, e.type, e.occurred_at, e.actor_id, u.full_name AS actor_name, e.application_id, e.details
+     FROM (${events}) AS e
+     LEFT JOIN auth.users u ON u.id = e.actor_id
+     ORDER BY e.occurred_at DESC, e.type, e.id
+     LIMIT ${param(query.limit)} OFFSET ${param((query.page - 1) * query.limit)}`,
+    values
+  );
+
+  const data = rows.map(row => ({ ...row, summary: describeTimelineEvent(row) }));
+  return createPaginatedResponse(data, total, query);
+}
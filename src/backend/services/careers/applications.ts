@@ -0,0 +1,233 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import { Application, CLOSED_APPLICATION_STATUSES } from '../../types/applications';
+import { CareerApplicationReceipt, PublicJob, careerApplicationSchema } from '../../types/careers';
+import { Candidate, CandidateStatus } from '../../types/candidates';
+import { ExperienceLevel } from '../../types/jobs';
+import { resolveStageStatus } from '../../types/pipelines';
+import { ReferralOrigin } from '../../types/referrals';
+import { SourceChannel, SourceInput } from '../../types/sources';
+import { UUID } from '../../types/common';
+import { buildDuplicateKeys } from '../candidates/duplicates';
+import { appendStageHistory, createStageHistoryEntry } from '../pipeline/stage-history';
+import { getJobPipeline, resolveTargetStage } from '../pipeline/templates';
+import { resolveReferralLink } from '../referrals/links';
+import { buildReferralSource, recordReferral } from '../referrals/referrals';
+import { attributeApplication, parseUtmParams } from '../sources/attribution';
+import { evaluateScreeningAnswers, saveScreeningAnswers } from '../screening/answers';
+import { rejectFailedKnockout } from '../screening/knockouts';
+import { getJobScreening } from '../screening/questions';
+import { getPublicJob } from './jobs';
+
+/**
+ * Resume uploaded with a careers site application
+ */
+export interface CareerResume {
+  url: string;
+  checksum: string;
+  parsed: Partial<Pick<Candidate, 'experience_level' | 'skills' | 'experience' | 'education'>> | null;
+}
+
+/**
+ * Source of a careers site application, from the page the applicant came from
+ * @param sourceUrl - URL of the page hosting the form, as reported by the form
+ * @param referer - Referer header of the request, used when the form reports none
+ */
+export function buildCareerSiteSource(
+  sourceUrl: string | undefined,
+  referer: string | null
+): SourceInput {
+  const pageUrl = sourceUrl ?? referer;
+  return {
+    channel: SourceChannel.CAREER_SITE,
+    ...parseUtmParams(pageUrl),
+    ...(pageUrl ? { referrer_url: pageUrl.slice(0, 2000) } : {})
+  };
+}
+
+/**
+ * Receipt for an application to a job, the same whether or not an application was made
+ */
+export function buildCareerReceipt(job: Pick<PublicJob, 'id' | 'title'>): CareerApplicationReceipt {
+  return {
+    job_id: job.id,
+    job_title: job.title,
+    submitted_at: new Date()
+  };
+}
+
+/**
+ * Candidate an applicant is matched to by email, the oldest one when there are several
+ */
+async function findApplicantCandidate(client: PoolClient, normalizedEmail: string | null): Promise<UUID | null> {
+  const { rows: [existing] } = await client.query<{ id: UUID }>(
+    `SELECT id FROM candidates
+     WHERE normalized_email = $1 AND merged_into_id IS NULL
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [normalizedEmail]
+  );
+  return existing?.id ?? null;
+}
+
+async function hasOpenApplication(client: PoolClient, jobId: UUID, candidateId: UUID): Promise<boolean> {
+  const { rows: [open] } = await client.query(
+    `SELECT id FROM applications
+     WHERE job_id = $1 AND candidate_id = $2 AND status <> ALL($3::text[])
+     LIMIT 1`,
+    [jobId, candidateId, CLOSED_APPLICATION_STATUSES]
+  );
+  return !!open;
+}
+
+/**
+ * Whether the applicant already has an open application for the job, checked before
+ * their files are stored since a second application would not be made
+ * @param client - Database client
+ * @param jobId - Job applied to
+ * @param payload - Applicant details from the form
+ */
+export async function hasOpenCareerApplication(
+  client: PoolClient,
+  jobId: UUID,
+  payload: z.infer<typeof careerApplicationSchema>
+): Promise<boolean> {
+  const candidateId = await findApplicantCandidate(client, buildDuplicateKeys(payload).normalized_email);
+  return !!candidateId && await hasOpenApplication(client, jobId, candidateId);
+}
+
+/**
+ * Applies to a published job through the careers site. The applicant is matched to an
+ * existing candidate by email or added as a new one, and an application is opened in
+ * the first stage of the job's pipeline. An applicant who already has an open
+ * application for the job gets the same receipt without a second application, and the
+ * existing profile is never overwritten by an anonymous submission. Screening answers
+ * are stored with the application, and a failed knockout rejects it when the job is set
+ * to; the receipt looks the same either way.
+ * @param client - Database client inside an open transaction
+ * @param jobId - Job applied to
+ * @param payload - Applicant details from the form
+ * @param resume - Uploaded resume and what could be parsed from it
+ * @param source - Page the applicant came from
+ */
+export async function submitCareerApplication(
+  client: PoolClient,
+  jobId: UUID,
+  payload: z.infer<typeof careerApplicationSchema>,
+  resume: CareerResume,
+  source: SourceInput
+): Promise<{ receipt: CareerApplicationReceipt; application: Application | null }> {
+  const receipt = buildCareerReceipt(await getPublicJob(client, jobId));
+
+  // Required questions must be answered before anything is stored
+  const screening = await getJobScreening(client, jobId);
+  const answers = evaluateScreeningAnswers(screening.questions, payload.answers, { requireAll: true });
+
+  // Applications through an employee's referral link are credited to that employee. A
+  // stale or mistyped link must not cost the applicant their application.
+  const referralLink = payload.referral_code
+    ? await resolveReferralLink(client, payload.referral_code, jobId).catch(() => null)
+    : null;
+
+  const duplicateKeys = buildDuplicateKeys(payload);
+  let candidateId = await findApplicantCandidate(client, duplicateKeys.normalized_email);
+  if (candidateId) {
+    if (await hasOpenApplication(client, jobId, candidateId)) {
+      return { receipt, application: null };
+    }
+  } else {
+    const { rows: [candidate] } = await client.query<{ id: UUID }>(
+      `INSERT INTO candidates (
+         full_name,
+         email,
+         phone,
+         location,
+         status,
+         experience_level,
+         skills,
+         experience,
+         education,
+         resume_url,
+         normalized_email,
+         normalized_phone,
+         resume_checksum,
+         metadata
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       RETURNING id`,
+      [
+        payload.full_name,
+        payload.email,
+        payload.phone ?? '',
+        payload.location,
+        CandidateStatus.ACTIVE,
+        resume.parsed?.experience_level ?? ExperienceLevel.ENTRY,
+        resume.parsed?.skills ?? [],
+        JSON.stringify(resume.parsed?.experience ?? []),
+        JSON.stringify(resume.parsed?.education ?? []),
+        resume.url,
+        duplicateKeys.normalized_email,
+        duplicateKeys.normalized_phone,
+        resume.checksum,
+        JSON.stringify({ resume_parsed: !!resume.parsed, applied_via: 'careers_site' })
+      ]
+    );
+    candidateId = candidate.id;
+  }
+
+  // Careers site applications always start in the first stage of the job's pipeline
+  const pipeline = await getJobPipeline(client, jobId);
+  const stage = resolveTargetStage(pipeline.stages, {});
+  const status = resolveStageStatus(stage);
+  const stageHistory = appendStageHistory([], createStageHistoryEntry(
+    null,
+    status,
+    null,
+    'Careers site application',
+    { from: null, to: stage.id }
+  ));
+
+  // The resume and cover letter belong to this application, also for known candidates
+  const { rows: [created] } = await client.query<Application>(
+    `INSERT INTO applications (
+       job_id,
+       candidate_id,
+       status,
+       stage_id,
+       stage_history,
+       metadata
+     ) VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      jobId,
+      candidateId,
+      status,
+      stage.id,
+      JSON.stringify(stageHistory),
+      JSON.stringify({
+        resume_url: resume.url,
+        ...(payload.cover_letter ? { cover_letter: payload.cover_letter } : {})
+      })
+    ]
+  );
+
+  const application = await attributeApplication(
+    client,
+    created,
+    referralLink ? buildReferralSource(referralLink.referrer_name) : source,
+    null
+  );
+
+  if (referralLink) {
+    await recordReferral(client, {
+      referrerId: referralLink.referrer_id,
+      application,
+      origin: ReferralOrigin.LINK,
+      referralLinkId: referralLink.id
+    });
+  }
+
+  await saveScreeningAnswers(client, application.id, answers);
+  const rejected = await rejectFailedKnockout(client, application, answers, screening.settings);
+
+  return { receipt, application: rejected ?? application };
+}
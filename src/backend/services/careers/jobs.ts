@@ -0,0 +1,88 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import { PUBLIC_JOB_COLUMNS, PublicJob, publicJobListParamsSchema } from '../../types/careers';
+import { JobStatus } from '../../types/jobs';
+import { createPaginatedResponse, ErrorCode, PaginatedResponse, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+// Public columns, qualified for queries that join other tables
+const PUBLIC_JOB_SELECT = PUBLIC_JOB_COLUMNS.map(column => `j.${column}`).join(', ');
+
+/**
+ * Builds the URL of a job on the public careers site
+ * @param jobId - Job identifier
+ * @param baseUrl - Public application URL
+ */
+export function buildCareerJobUrl(jobId: UUID, baseUrl: string = process.env.APP_URL ?? ''): string {
+  return `${baseUrl}/careers/${jobId}`;
+}
+
+/**
+ * Lists published jobs for the careers site, newest first
+ * @param client - Database client
+ * @param params - Search, filters and pagination
+ */
+export async function listPublicJobs(
+  client: PoolClient,
+  params: z.infer<typeof publicJobListParamsSchema>
+): Promise<PaginatedResponse<PublicJob>> {
+  const conditions: string[] = ['j.status = $1'];
+  const values: any[] = [JobStatus.PUBLISHED];
+  let paramIndex = 2;
+
+  if (params.search) {
+    conditions.push(`(
+      to_tsvector('english', j.title || ' ' || j.description) @@ plainto_tsquery($${paramIndex})
+      OR j.skills @> ARRAY[$${paramIndex}]::text[]
+    )`);
+    values.push(params.search);
+    paramIndex++;
+  }
+
+  if (params.type) {
+    conditions.push(`j.type = $${paramIndex++}`);
+    values.push(params.type);
+  }
+
+  if (params.location) {
+    conditions.push(`(j.location ILIKE $${paramIndex++} OR j.remote_allowed = true)`);
+    values.push(`%${params.location}%`);
+  }
+
+  if (params.remote_only) {
+    conditions.push('j.remote_allowed = true');
+  }
+
+  const { rows } = await client.query<PublicJob & { total_count: string }>(
+    `SELECT ${PUBLIC_JOB_SELECT}, COUNT(*) OVER() AS total_count
+     FROM jobs j
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY j.posted_at DESC
+     LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+    [...values, params.limit, (params.page - 1) * params.limit]
+  );
+
+  const total = rows.length ? parseInt(rows[0].total_count) : 0;
+  const jobs = rows.map(({ total_count, ...job }) => job);
+
+  return createPaginatedResponse(jobs, total, { page: params.page, limit: params.limit });
+}
+
+/**
+ * Gets a published job for the careers site. Jobs in any other status are reported as
+ * not found, so drafts and closed jobs cannot be probed.
+ * @param client - Database client
+ * @param jobId - Job identifier
+ */
+export async function getPublicJob(client: PoolClient, jobId: UUID): Promise<PublicJob> {
+  const { rows: [job] } = await client.query<PublicJob>(
+    `SELECT ${PUBLIC_JOB_SELECT}
+     FROM jobs j
+     WHERE j.id = $1 AND j.status = $2`,
+    [jobId, JobStatus.PUBLISHED]
+  );
+  if (!job) {
+    throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+  }
+  return job;
+}
@@ -0,0 +1,178 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  STAFF_ROLES,
+  DepartmentWithMembers,
+  StaffMember,
+  departmentListParamsSchema
+} from '../../types/departments';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Lists the department hierarchy depth first, each department with its members
+ * @param client - Database client
+ * @param params - Whether archived departments are included
+ */
+export async function getDepartments(
+  client: PoolClient,
+  params: z.infer<typeof departmentListParamsSchema>
+): Promise<DepartmentWithMembers[]> {
+  const { rows } = await client.query<DepartmentWithMembers>(
+    `WITH RECURSIVE tree AS (
+       SELECT d.*, 0 AS depth, ARRAY[lower(d.name)]::text[] AS path
+       FROM departments d
+       WHERE d.parent_id IS NULL
+       UNION ALL
+       SELECT d.*, t.depth + 1, t.path || lower(d.name)
+       FROM departments d
+       JOIN tree t ON d.parent_id = t.id
+     )
+     SELECT tree.id, tree.created_at, tree.updated_at, tree.created_by, tree.name, tree.parent_id,
+            tree.cost_center, tree.archived_at, tree.depth,
+            COALESCE(array_agg(m.user_id) FILTER (WHERE m.user_id IS NOT NULL), '{}') AS member_ids
+     FROM tree
+     LEFT JOIN department_members m ON m.department_id = tree.id
+     WHERE $1::boolean OR tree.archived_at IS NULL
+     GROUP BY tree.id, tree.created_at, tree.updated_at, tree.created_by, tree.name, tree.parent_id,
+              tree.cost_center, tree.archived_at, tree.depth, tree.path
+     ORDER BY tree.path`,
+    [params.include_archived]
+  );
+  return rows;
+}
+
+/**
+ * Rejects a parent that is archived, missing, or the department itself or one below it
+ * @param client - Database client
+ * @param parentId - Proposed parent department
+ * @param departmentId - Department being moved; omitted for new departments
+ */
+export async function assertValidParent(
+  client: PoolClient,
+  parentId: UUID,
+  departmentId?: UUID
+): Promise<void> {
+  const { rows: [parent] } = await client.query<{ id: UUID; archived_at: Date | null }>(
+    'SELECT id, archived_at FROM departments WHERE id = $1',
+    [parentId]
+  );
+  if (!parent || parent.archived_at) {
+    throw new AppError('Parent department not found', ErrorCode.NOT_FOUND, { parentId });
+  }
+
+  if (departmentId) {
+    const { rows: [cycle] } = await client.query(
+      'SELECT 1 FROM department_subtree($1::uuid[]) AS id WHERE id = $2',
+      [[departmentId], parentId]
+    );
+    if (cycle) {
+      throw new AppError('A department cannot be moved below itself', ErrorCode.CONFLICT, { parentId });
+    }
+  }
+}
+
+/**
+ * Rejects a department that is missing or archived; jobs can only be filed under
+ * active departments
+ * @param client - Database client
+ * @param departmentId - Department a job is assigned to
+ */
+export async function assertActiveDepartment(client: PoolClient, departmentId: UUID): Promise<void> {
+  const { rows: [department] } = await client.query<{ id: UUID }>(
+    'SELECT id FROM departments WHERE id = $1 AND archived_at IS NULL',
+    [departmentId]
+  );
+  if (!department) {
+    throw new AppError('Department not found', ErrorCode.VALIDATION_ERROR, { departmentId });
+  }
+}
+
+/**
+ * Rejects a name already used by an active department under the same parent
+ * @param client - Database client
+ * @param name - Department name
+ * @param parentId - Parent department, or null for top-level departments
+ * @param excludeId - Department being renamed or moved
+ */
+export async function assertDepartmentNameAvailable(
+  client: PoolClient,
+  name: string,
+  parentId: UUID | null,
+  excludeId?: UUID
+): Promise<void> {
+  const { rows: [existing] } = await client.query<{ id: UUID }>(
+    `SELECT id FROM departments
+     WHERE lower(name) = lower($1)
+       AND parent_id IS NOT DISTINCT FROM $2
+       AND archived_at IS NULL
+       AND id IS DISTINCT FROM $3`,
+    [name, parentId, excludeId ?? null]
+  );
+  if (existing) {
+    throw new AppError('A department with this name already exists here', ErrorCode.CONFLICT, {
+      departmentId: existing.id
+    });
+  }
+}
+
+/**
+ * Replaces the members of a department. Only staff can belong to departments.
+ * @param client - Database client inside the department transaction
+ * @param departmentId - Department whose membership is replaced
+ * @param memberIds - New members
+ */
+export async function setDepartmentMembers(
+  client: PoolClient,
+  departmentId: UUID,
+  memberIds: UUID[]
+): Promise<void> {
+  const uniqueIds = [...new Set(memberIds)];
+  await assertStaffUsers(client, uniqueIds);
+
+  await client.query('DELETE FROM department_members WHERE department_id = $1', [departmentId]);
+  if (uniqueIds.length) {
+    await client.query(
+      `INSERT INTO department_members (department_id, user_id)
+       SELECT $1, unnest($2::uuid[])`,
+      [departmentId, uniqueIds]
+    );
+  }
+}
+
+/**
+ * Rejects user ids that do not belong to staff
+ * @param client - Database client
+ * @param userIds - Users to check
+ */
+export async function assertStaffUsers(client: PoolClient, userIds: UUID[]): Promise<void> {
+  if (!userIds.length) return;
+
+  const { rows } = await client.query<{ id: UUID }>(
+    'SELECT id FROM auth.users WHERE id = ANY($1::uuid[]) AND role = ANY($2)',
+    [userIds, STAFF_ROLES]
+  );
+  const found = new Set(rows.map(row => row.id));
+  const invalid = userIds.filter(id => !found.has(id));
+  if (invalid.length) {
+    throw new AppError('Only staff can be added', ErrorCode.VALIDATION_ERROR, { userIds: invalid });
+  }
+}
+
+/**
+ * Lists staff users with the departments they belong to
+ * @param client - Database client
+ */
+export async function getStaffMembers(client: PoolClient): Promise<StaffMember[]> {
+  const { rows } = await client.query<StaffMember>(
+    `SELECT u.id, u.full_name, u.email, u.role,
+            COALESCE(array_agg(m.department_id) FILTER (WHERE m.department_id IS NOT NULL), '{}') AS department_ids
+     FROM auth.users u
+     LEFT JOIN department_members m ON m.user_id = u.id
+     WHERE u.role = ANY($1) AND NOT u.account_locked
+     GROUP BY u.id
+     ORDER BY u.full_name ASC`,
+    [STAFF_ROLES]
+  );
+  return rows;
+}
@@ -0,0 +1,41 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { CandidateEmail, CandidateEmailCategory } from '../../types/timeline';
+
+/**
+ * Email sent to a candidate to record
+ */
+export interface CandidateEmailRecord {
+  candidate_id: UUID;
+  application_id?: UUID | null;
+  category: CandidateEmailCategory;
+  subject: string;
+  recipient: string;
+  sent_by?: UUID | null;
+  correlation_id?: string | null;
+}
+
+/**
+ * Records an email sent to a candidate so it shows up in their timeline. Only the
+ * subject is kept; bodies may hold offer terms and are not stored twice.
+ * @param client - Database client
+ * @param email - Sent email
+ */
+export async function recordCandidateEmail(client: PoolClient, email: CandidateEmailRecord): Promise<CandidateEmail> {
+  const { rows: [recorded] } = await client.query<CandidateEmail>(
+    `INSERT INTO candidate_emails (
+      candidate_id, application_id, category, subject, recipient, sent_by, correlation_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING *`,
+    [
+      email.candidate_id,
+      email.application_id ?? null,
+      email.category,
+      email.subject.slice(0, 500),
+      email.recipient,
+      email.sent_by ?? null,
+      email.correlation_id ?? null
+    ]
+  );
+  return recorded;
+}
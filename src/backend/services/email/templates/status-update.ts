@@ -17,10 +17,20 @@ interface TemplateConfig {
   };
 }
 
+/**
+ * Offer-specific variants of the status update email
+ */
+export enum OfferEmailVariant {
+  SENT = 'sent',
+  REVISED = 'revised',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined'
+}
+
 /**
  * Interface for template data
  */
-interface StatusTemplateData {
+export interface StatusTemplateData {
   candidateName: string;
   jobTitle: string;
   companyName: string;
@@ -33,6 +43,17 @@ interface StatusTemplateData {
     location?: string;
     interviewerName?: string;
   };
+  offerVariant?: OfferEmailVariant;
+  offerDetails?: {
+    baseSalary: number;
+    bonus?: number | null;
+    equity?: string | null;
+    currency: string;
+    startDate: string;
+    expiresAt: string;
+    version: number;
+    responseUrl?: string;
+  };
 }
 
 /**
@@ -72,6 +93,10 @@ export class StatusUpdateEmailTemplate {
       return new Date(date).toLocaleDateString();
     });
 
+    handlebars.registerHelper('formatCurrency', (amount: number, currency: string) => {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    });
+
     handlebars.registerHelper('sanitize', (text: string) => {
       if (!text) return '';
       return this.sanitizeContent(text);
@@ -89,17 +114,18 @@ export class StatusUpdateEmailTemplate {
       // Validate input data
       this.validateTemplateData(templateData);
 
-      // Generate cache key
-      const cacheKey = `${templateData.applicationStatus}_${locale}`;
+      // Generate cache key; offer variants take precedence over the application status
+      const cacheKey = templateData.offerVariant
+        ? `offer_${templateData.offerVariant}_${locale}`
+        : `${templateData.applicationStatus}_${locale}`;
 
       // Check cache first
       let htmlTemplate = this.templateCache.get(cacheKey);
       
       if (!htmlTemplate) {
-        const statusContent = await this.getStatusSpecificContent(
-          templateData.applicationStatus,
-          locale
-        );
+        const statusContent = templateData.offerVariant
+          ? await this.getOfferSpecificContent(templateData.offerVariant, locale)
+          : await this.getStatusSpecificContent(templateData.applicationStatus, locale);
 
         // Compile and cache template
         htmlTemplate = handlebars.compile(statusContent.html, {
@@ -164,6 +190,19 @@ export class StatusUpdateEmailTemplate {
     return templates[status] || templates[ApplicationStatus.APPLIED];
   }
 
+  /**
+   * Retrieves offer variant content
+   */
+  private async getOfferSpecificContent(
+    variant: OfferEmailVariant,
+    locale: string
+  ): Promise<{ html: string; text: string }> {
+    return {
+      html: this.i18n.t(`templates.offer.${variant}.html`, { lng: locale }),
+      text: this.i18n.t(`templates.offer.${variant}.text`, { lng: locale }),
+    };
+  }
+
   /**
    * Validates template data structure and content
    */
@@ -179,6 +218,15 @@ export class StatusUpdateEmailTemplate {
     if (data.nextSteps && data.nextSteps.length > this.securityConfig.maxLength) {
       throw new Error('Next steps content exceeds maximum length');
     }
+
+    if (data.offerVariant) {
+      if (!Object.values(OfferEmailVariant).includes(data.offerVariant)) {
+        throw new Error('Invalid offer email variant');
+      }
+      if (!data.offerDetails) {
+        throw new Error('Offer details are required for offer emails');
+      }
+    }
   }
 
   /**
@@ -198,6 +246,11 @@ export class StatusUpdateEmailTemplate {
         interviewerName: data.interviewDetails.interviewerName ?
           this.sanitizeContent(data.interviewDetails.interviewerName) : undefined,
       } : undefined,
+      offerDetails: data.offerDetails ? {
+        ...data.offerDetails,
+        equity: data.offerDetails.equity ?
+          this.sanitizeContent(data.offerDetails.equity) : undefined,
+      } : undefined,
     };
   }
 
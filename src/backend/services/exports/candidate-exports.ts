@@ -0,0 +1,381 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import ExcelJS from 'exceljs'; // ^4.4.0
+import {
+  CandidateExport,
+  CandidateExportColumn,
+  CandidateExportFormat,
+  CandidateExportRequest,
+  CandidateExportStatus
+} from '../../types/exports';
+import { CandidatePreferences, CandidateSearchFilters, Education, WorkExperience } from '../../types/candidates';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { CANDIDATE_SEARCH_DOCUMENT, buildCandidateFilterConditions } from '../candidates/search-filters';
+import { toCsv } from '../imports/spreadsheet';
+
+// Candidates read per query while an export is written
+const EXPORT_BATCH_SIZE = 500;
+
+// Header of each column; the names match what the spreadsheet import recognizes
+const COLUMN_HEADERS: Record<CandidateExportColumn, string> = {
+  id: 'ID',
+  full_name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  location: 'Location',
+  status: 'Status',
+  experience_level: 'Experience Level',
+  skills: 'Skills',
+  current_title: 'Current Title',
+  current_company: 'Current Company',
+  education: 'Education',
+  salary_expectation_min: 'Salary Min',
+  salary_expectation_max: 'Salary Max',
+  remote_only: 'Remote Only',
+  open_to_relocation: 'Open to Relocation',
+  resume_url: 'Resume URL',
+  created_at: 'Created At',
+  updated_at: 'Updated At'
+};
+
+/**
+ * File extension and content type of each format
+ */
+export const EXPORT_FILE_TYPES: Record<CandidateExportFormat, { extension: string; content_type: string }> = {
+  [CandidateExportFormat.CSV]: { extension: 'csv', content_type: 'text/csv; charset=utf-8' },
+  [CandidateExportFormat.XLSX]: {
+    extension: 'xlsx',
+    content_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  },
+  [CandidateExportFormat.JSON_RESUME]: { extension: 'json', content_type: 'application/json; charset=utf-8' }
+};
+
+/**
+ * Candidate as read for an export
+ */
+export interface ExportedCandidate {
+  id: UUID;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  location: string;
+  status: string;
+  experience_level: string;
+  skills: string[];
+  experience: WorkExperience[];
+  education: Education[];
+  preferences: Partial<CandidatePreferences> | null;
+  resume_url: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+type ExportValue = string | number | null;
+
+const EXPORTED_CANDIDATE_COLUMNS = `c.id, c.full_name, c.email, c.phone, c.location, c.status, c.experience_level,
+  c.skills, c.experience, c.education, c.preferences, c.resume_url, c.created_at, c.updated_at`;
+
+/**
+ * WHERE clause selecting the candidates matching the search filters; merged duplicates
+ * and erased candidates are never exported
+ */
+function buildExportConditions(filters: CandidateSearchFilters, values: unknown[]): string {
+  const conditions = ['c.anonymized_at IS NULL', 'c.merged_into_id IS NULL', ...buildCandidateFilterConditions(filters, values)];
+  if (filters.query?.trim()) {
+    values.push(filters.query.trim());
+    conditions.push(`${CANDIDATE_SEARCH_DOCUMENT} @@ plainto_tsquery('english', $${values.length})`);
+  }
+  return conditions.join(' AND ');
+}
+
+/**
+ * Date part of a stored date, e.g. "2024-01-15"
+ */
+const toIsoDate = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Position a candidate holds now, or their latest one
+ */
+const getCurrentPosition = (experience: WorkExperience[]): WorkExperience | undefined =>
+  [...experience].sort((a, b) =>
+    Number(b.is_current) - Number(a.is_current) ||
+    new Date(b.start_date).getTime() - new Date(a.start_date).getTime()
+  )[0];
+
+/**
+ * Most recent education entry as one line, e.g. "BSc Computer Science, University of Lisbon"
+ */
+const describeEducation = (education: Education[]): string | null => {
+  const latest = [...education].sort((a, b) => new Date(b.end_date).getTime() - new Date(a.end_date).getTime())[0];
+  return latest ? `${latest.degree} ${latest.field_of_study}, ${latest.institution}` : null;
+};
+
+const yesNo = (value: boolean | undefined): string | null => value === undefined ? null : value ? 'Yes' : 'No';
+
+/**
+ * Number of candidates matching the search filters
+ * @param client - Database client
+ * @param filters - Candidate search filters
+ */
+export async function countExportCandidates(client: PoolClient, filters: CandidateSearchFilters): Promise<number> {
+  const values: unknown[] = [];
+  const { rows: [result] } = await client.query<{ count: number }>(
+    `SELECT COUNT(*)::int AS count FROM candidates c WHERE ${buildExportConditions(filters, values)}`,
+    values
+  );
+  return result.count;
+}
+
+/**
+ * Reads the candidates matching the search filters in batches, in a stable order, so
+ * exports of any size never hold every candidate in memory at once
+ * @param client - Database client
+ * @param filters - Candidate search filters
+ */
+export async function* readExportCandidates(
+  client: PoolClient,
+  filters: CandidateSearchFilters
+): AsyncGenerator<ExportedCandidate[]> {
+  let lastId: UUID | null = null;
+
+  while (true) {
+    const values: unknown[] = [];
+    let where = buildExportConditions(filters, values);
+    if (lastId) {
+      values.push(lastId);
+      where += ` AND c.id > $${values.length}`;
+    }
+    values.push(EXPORT_BATCH_SIZE);
+
+    const { rows } = await client.query<ExportedCandidate>(
+      `SELECT ${EXPORTED_CANDIDATE_COLUMNS}
+       FROM candidates c
+       WHERE ${where}
+       ORDER BY c.id
+       LIMIT $${values.length}`,
+      values
+    );
+    if (rows.length > 0) {
+      yield rows;
+    }
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Values of the selected columns of a candidate, in column order
+ */
+export function toExportValues(candidate: ExportedCandidate, columns: CandidateExportColumn[]): ExportValue[] {
+  const position = getCurrentPosition(candidate.experience ?? []);
+  const preferences = candidate.preferences ?? {};
+
+  const values: Record<CandidateExportColumn, () => ExportValue> = {
+    id: () => candidate.id,
+    full_name: () => candidate.full_name,
+    email: () => candidate.email,
+    phone: () => candidate.phone,
+    location: () => candidate.location,
+    status: () => candidate.status,
+    experience_level: () => candidate.experience_level,
+    skills: () => (candidate.skills ?? []).join('; '),
+    current_title: () => position?.title ?? null,
+    current_company: () => position?.company ?? null,
+    education: () => describeEducation(candidate.education ?? []),
+    salary_expectation_min: () => preferences.salary_expectation_min ?? null,
+    salary_expectation_max: () => preferences.salary_expectation_max ?? null,
+    remote_only: () => yesNo(preferences.remote_only),
+    open_to_relocation: () => yesNo(preferences.open_to_relocation),
+    resume_url: () => candidate.resume_url,
+    created_at: () => new Date(candidate.created_at).toISOString(),
+    updated_at: () => new Date(candidate.updated_at).toISOString()
+  };
+  return columns.map(column => values[column]());
+}
+
+/**
+ * Candidate as a document of the open JSON Resume schema (jsonresume.org). `meta.id`
+ * holds the candidate ID, so importing the document again updates the same profile.
+ */
+export function toJsonResume(candidate: ExportedCandidate): Record<string, unknown> {
+  return {
+    basics: {
+      name: candidate.full_name,
+      email: candidate.email,
+      ...(candidate.phone ? { phone: candidate.phone } : {}),
+      location: { address: candidate.location }
+    },
+    work: (candidate.experience ?? []).map(entry => ({
+      name: entry.company,
+      position: entry.title,
+      startDate: toIsoDate(entry.start_date),
+      ...(entry.end_date ? { endDate: toIsoDate(entry.end_date) } : {}),
+      ...(entry.location ? { location: entry.location } : {}),
+      summary: entry.description,
+      highlights: entry.achievements ?? []
+    })),
+    education: (candidate.education ?? []).map(entry => ({
+      institution: entry.institution,
+      area: entry.field_of_study,
+      studyType: entry.degree,
+      startDate: toIsoDate(entry.start_date),
+      endDate: toIsoDate(entry.end_date),
+      ...(entry.gpa !== null && entry.gpa !== undefined ? { score: String(entry.gpa) } : {}),
+      courses: entry.achievements ?? []
+    })),
+    skills: (candidate.skills ?? []).map(name => ({ name })),
+    meta: {
+      id: candidate.id,
+      lastModified: new Date(candidate.updated_at).toISOString()
+    }
+  };
+}
+
+/**
+ * Writes an export in chunks as its candidates are read: CSV line by line and JSON
+ * Resume as an array of documents. XLSX workbooks can only be written whole, so they
+ * come as a single chunk.
+ * @param client - Database client
+ * @param request - Format, filters and columns of the export
+ */
+export async function* writeCandidateExport(
+  client: PoolClient,
+  request: CandidateExportRequest
+): AsyncGenerator<string | Uint8Array> {
+  const batches = readExportCandidates(client, request.filters);
+
+  if (request.format === CandidateExportFormat.XLSX) {
+    const lines: ExportValue[][] = [request.columns.map(column => COLUMN_HEADERS[column])];
+    for await (const candidates of batches) {
+      lines.push(...candidates.map(candidate => toExportValues(candidate, request.columns)));
+    }
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Candidates').addRows(lines);
+    yield new Uint8Array(await workbook.xlsx.writeBuffer());
+    return;
+  }
+
+  if (request.format === CandidateExportFormat.JSON_RESUME) {
+    let first = true;
+    yield '[';
+    for await (const candidates of batches) {
+      for (const candidate of candidates) {
+        yield `${first ? '' : ','}\n${JSON.stringify(toJsonResume(candidate))}`;
+        first = false;
+      }
+    }
+    yield '\n]\n';
+    return;
+  }
+
+  yield toCsv([request.columns.map(column => COLUMN_HEADERS[column])]);
+  for await (const candidates of batches) {
+    yield `\r\n${toCsv(candidates.map(candidate => toExportValues(candidate, request.columns)))}`;
+  }
+  yield '\r\n';
+}
+
+/**
+ * Records an export
+ * @param client - Database client inside a transaction
+ * @param request - Format, filters and columns of the export
+ * @param rowCount - Candidates matching the filters
+ * @param status - COMPLETED for an export streamed straight back, QUEUED for the worker
+ * @param userId - User exporting the candidates
+ */
+export async function createCandidateExport(
+  client: PoolClient,
+  request: CandidateExportRequest,
+  rowCount: number,
+  status: CandidateExportStatus.COMPLETED | CandidateExportStatus.QUEUED,
+  userId: UUID
+): Promise<CandidateExport> {
+  const { rows: [candidateExport] } = await client.query<CandidateExport>(
+    `INSERT INTO candidate_exports (format, filters, columns, status, row_count, started_at, completed_at, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $6, $7)
+     RETURNING *`,
+    [
+      request.format,
+      JSON.stringify(request.filters),
+      request.columns,
+      status,
+      rowCount,
+      status === CandidateExportStatus.COMPLETED ? new Date() : null,
+      userId
+    ]
+  );
+  return candidateExport;
+}
+
+/**
+ * Retrieves an export
+ * @param client - Database client
+ * @param exportId - Export identifier
+ * @throws AppError when the export does not exist
+ */
+export async function getCandidateExport(client: PoolClient, exportId: UUID): Promise<CandidateExport> {
+  const { rows: [candidateExport] } = await client.query<CandidateExport>(
+    `SELECT * FROM candidate_exports WHERE id = $1`,
+    [exportId]
+  );
+  if (!candidateExport) {
+    throw new AppError('Export not found', ErrorCode.NOT_FOUND, { exportId });
+  }
+  return candidateExport;
+}
+
+/**
+ * Claims the oldest queued export for the export worker
+ * @param client - Database client
+ * @param now - Time the worker starts on it
+ * @returns The claimed export, or null when none are queued
+ */
+export async function claimCandidateExport(client: PoolClient, now: Date): Promise<CandidateExport | null> {
+  const { rows: [candidateExport] } = await client.query<CandidateExport>(
+    `UPDATE candidate_exports
+     SET status = $2, started_at = $1
+     WHERE id = (
+       SELECT id FROM candidate_exports
+       WHERE status = $3
+       ORDER BY created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [now, CandidateExportStatus.PROCESSING, CandidateExportStatus.QUEUED]
+  );
+  return candidateExport ?? null;
+}
+
+/**
+ * Marks an export completed with the file the worker wrote, or failed when no file
+ * could be written
+ * @param client - Database client
+ * @param exportId - Export being processed
+ * @param result - Storage key and exported candidate count, or the failure
+ * @param now - Time of completion
+ */
+export async function finishCandidateExport(
+  client: PoolClient,
+  exportId: UUID,
+  result: { file_key: string; row_count: number } | { error: string },
+  now: Date
+): Promise<void> {
+  if ('error' in result) {
+    await client.query(
+      `UPDATE candidate_exports SET status = $2, error = $3, completed_at = $4 WHERE id = $1`,
+      [exportId, CandidateExportStatus.FAILED, result.error, now]
+    );
+    return;
+  }
+  await client.query(
+    `UPDATE candidate_exports SET status = $2, file_key = $3, row_count = $4, completed_at = $5 WHERE id = $1`,
+    [exportId, CandidateExportStatus.COMPLETED, result.file_key, result.row_count, now]
+  );
+}
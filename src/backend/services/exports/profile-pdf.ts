@@ -0,0 +1,171 @@
+import dayjs from 'dayjs'; // ^1.11.10
+import PDFDocument from 'pdfkit'; // ^0.13.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { ExportedCandidate } from './candidate-exports';
+
+// Most entries of each section shown, so a profile always fits on one page
+const MAX_PROFILE_POSITIONS = 4;
+const MAX_PROFILE_EDUCATION = 2;
+const MAX_PROFILE_SKILLS = 24;
+
+const DEFAULT_BRAND_COLOR = '#0066cc';
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+
+/**
+ * Name and colour profiles are branded with
+ */
+export interface ProfileBranding {
+  company_name: string;
+  color: string;
+}
+
+/**
+ * Branding of profiles, from the environment
+ */
+export function getProfileBranding(): ProfileBranding {
+  const color = process.env.BRAND_COLOR ?? '';
+  return {
+    company_name: process.env.COMPANY_NAME ?? 'HotGigs',
+    color: /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_BRAND_COLOR
+  };
+}
+
+/**
+ * Retrieves a candidate for their profile
+ * @param client - Database client
+ * @param candidateId - Candidate identifier
+ * @throws AppError when the candidate does not exist, was merged into another profile or
+ * was erased
+ */
+export async function getProfileCandidate(client: PoolClient, candidateId: UUID): Promise<ExportedCandidate> {
+  const { rows: [candidate] } = await client.query<ExportedCandidate>(
+    `SELECT id, full_name, email, phone, location, status, experience_level, skills, experience,
+            education, preferences, resume_url, created_at, updated_at
+     FROM candidates
+     WHERE id = $1 AND merged_into_id IS NULL AND anonymized_at IS NULL`,
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+  return candidate;
+}
+
+/**
+ * Period of a position or education entry, e.g. "Mar 2021 – Present"
+ */
+const formatPeriod = (start: Date | string, end: Date | string | null) =>
+  `${dayjs(start).format('MMM YYYY')} – ${end ? dayjs(end).format('MMM YYYY') : 'Present'}`;
+
+/**
+ * Renders a one-page PDF profile of a candidate for sharing with hiring managers: a
+ * branded header, then their summary, skills, latest positions and education.
+ * Positions and education are listed newest first and cut to what fits on the page.
+ * @param candidate - Candidate to profile
+ * @param options - Branding, and whether to show email and phone
+ * @returns The PDF document
+ */
+export function renderCandidateProfile(
+  candidate: ExportedCandidate,
+  options: { branding: ProfileBranding; include_contact: boolean }
+): Promise<Buffer> {
+  const { branding } = options;
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 50,
+    info: { Title: `${candidate.full_name} – Candidate profile`, Author: branding.company_name }
+  });
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk as Buffer));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const contentWidth = doc.page.width - 100;
+  const section = (title: string) => {
+    doc.moveDown(0.8)
+      .fillColor(branding.color).font('Helvetica-Bold').fontSize(12).text(title.toUpperCase())
+      .moveDown(0.3)
+      .fillColor(TEXT_COLOR).font('Helvetica').fontSize(10);
+  };
+
+  // Header band
+  doc.rect(0, 0, doc.page.width, 70).fill(branding.color);
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(16).text(branding.company_name, 50, 27);
+  doc.font('Helvetica').fontSize(9).text(
+    `Candidate profile · ${dayjs().format('D MMM YYYY')}`,
+    50,
+    31,
+    { width: contentWidth, align: 'right' }
+  );
+
+  // Name and headline
+  const positions = [...(candidate.experience ?? [])]
+    .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime());
+  const current = positions.find(position => position.is_current) ?? positions[0];
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(22).text(candidate.full_name, 50, 95);
+  doc.font('Helvetica').fontSize(11).fillColor(MUTED_COLOR).text(
+    [current ? `${current.title} at ${current.company}` : null, candidate.location].filter(Boolean).join(' · ')
+  );
+  if (options.include_contact) {
+    doc.fontSize(10).text([candidate.email, candidate.phone].filter(Boolean).join(' · '));
+  }
+
+  section('Summary');
+  const preferences = candidate.preferences ?? {};
+  doc.text(`Experience level: ${candidate.experience_level}`);
+  if (preferences.remote_only !== undefined) {
+    doc.text(`Remote only: ${preferences.remote_only ? 'Yes' : 'No'}`);
+  }
+  if (preferences.open_to_relocation !== undefined) {
+    doc.text(`Open to relocation: ${preferences.open_to_relocation ? 'Yes' : 'No'}`);
+  }
+
+  if (candidate.skills?.length) {
+    section('Skills');
+    const shown = candidate.skills.slice(0, MAX_PROFILE_SKILLS);
+    const more = candidate.skills.length - shown.length;
+    doc.text(`${shown.join(' · ')}${more > 0 ? ` and ${more} more` : ''}`, { width: contentWidth });
+  }
+
+  if (positions.length > 0) {
+    section('Experience');
+    for (const position of positions.slice(0, MAX_PROFILE_POSITIONS)) {
+      doc.font('Helvetica-Bold').text(`${position.title}, ${position.company}`, { continued: true })
+        .font('Helvetica').fillColor(MUTED_COLOR).text(`   ${formatPeriod(position.start_date, position.end_date)}`)
+        .fillColor(TEXT_COLOR);
+      if (position.description) {
+        doc.fontSize(9).text(position.description, { width: contentWidth, height: 36, ellipsis: true }).fontSize(10);
+      }
+      doc.moveDown(0.4);
+    }
+  }
+
+  const education = [...(candidate.education ?? [])]
+    .sort((a, b) => new Date(b.end_date).getTime() - new Date(a.end_date).getTime());
+  if (education.length > 0) {
+    section('Education');
+    for (const entry of education.slice(0, MAX_PROFILE_EDUCATION)) {
+      doc.font('Helvetica-Bold').text(`${entry.degree} ${entry.field_of_study}`, { continued: true })
+        .font('Helvetica').fillColor(MUTED_COLOR).text(`   ${formatPeriod(entry.start_date, entry.end_date)}`)
+        .fillColor(TEXT_COLOR).text(entry.institution)
+        .moveDown(0.4);
+    }
+  }
+
+  // The footer sits in the bottom margin, which would otherwise start a second page
+  doc.page.margins.bottom = 0;
+  doc.fontSize(8).fillColor(MUTED_COLOR).text(
+    `Confidential – prepared by ${branding.company_name} for hiring purposes only.`,
+    50,
+    doc.page.height - 40,
+    { width: contentWidth, align: 'center', lineBreak: false }
+  );
+
+  doc.end();
+  return rendered;
+}
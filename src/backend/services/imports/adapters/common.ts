@@ -0,0 +1,298 @@
+import {
+  ApplicationStatus,
+  Education,
+  WorkExperience,
+  educationSchema,
+  workExperienceSchema
+} from '../../../types/candidates';
+import { ExperienceLevel, JobRequirements, JobType } from '../../../types/jobs';
+import {
+  AtsApplicationEvent,
+  AtsConversionIssue,
+  AtsEntityType,
+  AtsExport,
+  AtsImportSource
+} from '../../../types/ats-imports';
+
+// Stage names of other systems mapped to our statuses, checked in order
+const STAGE_STATUS_PATTERNS: Array<[RegExp, ApplicationStatus]> = [
+  [/withdr/i, ApplicationStatus.WITHDRAWN],
+  [/reject|disqualif|declined by|archived/i, ApplicationStatus.REJECTED],
+  [/hired|offer accepted/i, ApplicationStatus.OFFER_ACCEPTED],
+  [/offer declined/i, ApplicationStatus.OFFER_DECLINED],
+  [/offer/i, ApplicationStatus.OFFER_PENDING],
+  [/interview|onsite|on-site|assessment|panel/i, ApplicationStatus.INTERVIEWING],
+  [/screen|phone|review|qualif/i, ApplicationStatus.SCREENING]
+];
+
+// Employment types of other systems mapped to ours, checked in order
+const JOB_TYPE_PATTERNS: Array<[RegExp, JobType]> = [
+  [/intern/i, JobType.INTERNSHIP],
+  [/part/i, JobType.PART_TIME],
+  [/contract|temp|freelance|consult/i, JobType.CONTRACT],
+  [/remote/i, JobType.REMOTE]
+];
+
+// Years of work experience at which each level starts, highest first
+const EXPERIENCE_LEVEL_YEARS: Array<[number, ExperienceLevel]> = [
+  [15, ExperienceLevel.EXECUTIVE],
+  [10, ExperienceLevel.LEAD],
+  [6, ExperienceLevel.SENIOR],
+  [3, ExperienceLevel.MID],
+  [1, ExperienceLevel.JUNIOR]
+];
+
+// Placeholder for education fields an export leaves empty
+const NOT_SPECIFIED = 'Not specified';
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Object value of a parsed document, or null for anything else
+ */
+export const asRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+/**
+ * Array value of a parsed document; anything else is read as empty
+ */
+export const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+/**
+ * Objects in an array value of a parsed document
+ */
+export const asRecords = (value: unknown): Array<Record<string, unknown>> =>
+  asArray(value).map(asRecord).filter((record): record is Record<string, unknown> => record !== null);
+
+/**
+ * Trimmed text of a string or number value; anything else is read as empty
+ */
+export const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/**
+ * Non-negative number of a numeric or numeric text value, or null
+ */
+export const asNumber = (value: unknown): number | null => {
+  const number = typeof value === 'number' ? value : Number(asString(value).replace(/[^0-9.]/g, '') || NaN);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Date of an ISO date, a partial date such as "2019-06" or "2019", or epoch
+ * milliseconds; null when the value is empty or not a date
+ */
+export function parseDate(value: unknown): Date | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? new Date(value) : null;
+  }
+  const text = asString(value);
+  if (!text) return null;
+  const date = new Date(/^\d{4}(-\d{2})?$/.test(text) ? `${text.length === 4 ? `${text}-01` : text}-01T00:00:00Z` : text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Plain text of an HTML description
+ */
+export const htmlToText = (html: string): string =>
+  html
+    .replace(/<\s*(br|\/p|\/li|\/h\d)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*\n+/g, '\n\n')
+    .trim();
+
+/**
+ * Distinct non-empty values, in order
+ */
+export const uniqueStrings = (values: unknown[]): string[] =>
+  [...new Set(values.map(asString).filter(Boolean))];
+
+/**
+ * Status of an application from the name of its stage in another system; stages that
+ * match nothing, such as "New lead" or "Applied", are read as applied
+ */
+export const toApplicationStatus = (stageName: string): ApplicationStatus =>
+  STAGE_STATUS_PATTERNS.find(([pattern]) => pattern.test(stageName))?.[1] ?? ApplicationStatus.APPLIED;
+
+/**
+ * Job type from an employment type or commitment, full time by default
+ */
+export const toJobType = (employmentType: string): JobType =>
+  JOB_TYPE_PATTERNS.find(([pattern]) => pattern.test(employmentType))?.[1] ?? JobType.FULL_TIME;
+
+/**
+ * Experience level from the years covered by a candidate's work history
+ * @param experience - Work history
+ * @param now - Date ongoing positions end at
+ */
+export function inferExperienceLevel(experience: WorkExperience[], now: Date = new Date()): ExperienceLevel {
+  const years = experience.reduce(
+    (total, entry) => total + Math.max(0, ((entry.end_date ?? now).getTime() - entry.start_date.getTime()) / MS_PER_YEAR),
+    0
+  );
+  return EXPERIENCE_LEVEL_YEARS.find(([minimum]) => years >= minimum)?.[1] ?? ExperienceLevel.ENTRY;
+}
+
+/**
+ * Requirements of an imported job; exports rarely have structured requirements, so
+ * the job's skills are taken as required
+ */
+export const buildJobRequirements = (skills: string[]): JobRequirements => ({
+  experience_level: ExperienceLevel.ENTRY,
+  years_experience: 0,
+  required_skills: skills,
+  preferred_skills: [],
+  qualifications: [],
+  responsibilities: []
+});
+
+/**
+ * Empty export of a system, filled in by its adapter
+ */
+export const createAtsExport = (source: AtsImportSource): AtsExport => ({
+  source,
+  jobs: [],
+  candidates: [],
+  applications: [],
+  issues: []
+});
+
+/**
+ * Records a conversion issue of a record
+ */
+export const addIssue = (
+  issues: AtsConversionIssue[],
+  entityType: AtsEntityType,
+  externalId: string,
+  message: string
+) => issues.push({ entity_type: entityType, external_id: externalId, message });
+
+/**
+ * Position of a work history as read from an export
+ */
+export interface PositionInput {
+  company: unknown;
+  title: unknown;
+  start_date: unknown;
+  end_date?: unknown;
+  description?: unknown;
+  location?: unknown;
+  industry?: unknown;
+  achievements?: unknown[];
+  is_current?: boolean;
+}
+
+/**
+ * Education entry as read from an export
+ */
+export interface SchoolInput {
+  institution: unknown;
+  degree?: unknown;
+  field_of_study?: unknown;
+  start_date: unknown;
+  end_date: unknown;
+  gpa?: unknown;
+  achievements?: unknown[];
+}
+
+/**
+ * Position of a candidate's work history; positions without a company, title or start
+ * date cannot be stored and are left out
+ * @returns The position, or null when it is left out
+ */
+export function toWorkExperience(entry: PositionInput): WorkExperience | null {
+  const endDate = parseDate(entry.end_date);
+  const result = workExperienceSchema.safeParse({
+    company: asString(entry.company),
+    title: asString(entry.title),
+    start_date: parseDate(entry.start_date),
+    end_date: endDate,
+    description: htmlToText(asString(entry.description)),
+    skills_used: [],
+    location: asString(entry.location),
+    is_current: entry.is_current ?? !endDate,
+    achievements: uniqueStrings(entry.achievements ?? []),
+    industry: asString(entry.industry)
+  });
+  return result.success ? result.data as WorkExperience : null;
+}
+
+/**
+ * Education entry of a candidate; entries without an institution or start date cannot
+ * be stored and are left out. A missing end date is taken from the start date and a
+ * missing degree or field is stored as not specified.
+ * @returns The entry, or null when it is left out
+ */
+export function toEducation(entry: SchoolInput): Education | null {
+  const startDate = parseDate(entry.start_date);
+  const gpa = asNumber(entry.gpa);
+  const result = educationSchema.safeParse({
+    institution: asString(entry.institution),
+    degree: asString(entry.degree) || NOT_SPECIFIED,
+    field_of_study: asString(entry.field_of_study) || NOT_SPECIFIED,
+    start_date: startDate,
+    end_date: parseDate(entry.end_date) ?? startDate,
+    gpa: gpa !== null && gpa <= 4 ? gpa : null,
+    achievements: uniqueStrings(entry.achievements ?? []),
+    is_verified: false,
+    certifications: []
+  });
+  return result.success ? result.data as Education : null;
+}
+
+/**
+ * Work history and education of an exported candidate, recording an issue when
+ * entries had to be left out
+ * @param issues - Conversion issues of the export
+ * @param externalId - Candidate identifier in the export
+ */
+export function convertCandidateHistory(
+  issues: AtsConversionIssue[],
+  externalId: string,
+  positions: PositionInput[],
+  schools: SchoolInput[]
+): { experience: WorkExperience[]; education: Education[] } {
+  const experience = positions
+    .map(toWorkExperience)
+    .filter((entry): entry is WorkExperience => entry !== null);
+  if (experience.length < positions.length) {
+    addIssue(issues, AtsEntityType.CANDIDATE, externalId, 'Positions without a company, title or start date were left out');
+  }
+
+  const education = schools
+    .map(toEducation)
+    .filter((entry): entry is Education => entry !== null);
+  if (education.length < schools.length) {
+    addIssue(issues, AtsEntityType.CANDIDATE, externalId, 'Education without an institution or start date was left out');
+  }
+
+  return { experience, education };
+}
+
+/**
+ * History of an exported application: applied when it was created, then each later
+ * stage change in date order. Changes that keep the status are left out.
+ * @param appliedAt - When the application was created
+ * @param changes - Later stage changes in any order
+ * @returns Current status and the history, oldest first
+ */
+export function buildApplicationHistory(
+  appliedAt: Date,
+  changes: AtsApplicationEvent[]
+): { status: ApplicationStatus; history: AtsApplicationEvent[] } {
+  const history: AtsApplicationEvent[] = [{ status: ApplicationStatus.APPLIED, changed_at: appliedAt, stage_name: null }];
+  for (const change of [...changes].sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime())) {
+    if (change.status !== history[history.length - 1].status) {
+      history.push(change);
+    }
+  }
+  return { status: history[history.length - 1].status, history };
+}
@@ -0,0 +1,141 @@
+import { AtsEntityType, AtsImportAdapter, AtsImportSource } from '../../../types/ats-imports';
+import { ApplicationStatus } from '../../../types/candidates';
+import { JobStatus } from '../../../types/jobs';
+import {
+  addIssue,
+  asArray,
+  asRecord,
+  asRecords,
+  asString,
+  buildApplicationHistory,
+  buildJobRequirements,
+  convertCandidateHistory,
+  createAtsExport,
+  htmlToText,
+  inferExperienceLevel,
+  parseDate,
+  toApplicationStatus,
+  toJobType,
+  uniqueStrings
+} from './common';
+
+const JOB_STATUSES: Record<string, JobStatus> = {
+  open: JobStatus.PUBLISHED,
+  closed: JobStatus.CLOSED,
+  draft: JobStatus.DRAFT
+};
+
+/**
+ * Preferred value of a Greenhouse contact list such as email_addresses, personal first
+ */
+const getContactValue = (entries: unknown) => {
+  const records = asRecords(entries);
+  return asString((records.find(entry => entry.type === 'personal') ?? records[0])?.value);
+};
+
+/**
+ * Adapter for Greenhouse exports in the layout of the Harvest API: `jobs` and
+ * `candidates`, each candidate with its `applications`
+ */
+export const greenhouseAdapter: AtsImportAdapter = {
+  source: AtsImportSource.GREENHOUSE,
+  label: 'Greenhouse',
+
+  detect: document => {
+    const record = asRecord(document);
+    return !!record && (
+      asRecords(record.candidates).some(candidate => 'email_addresses' in candidate || 'first_name' in candidate) ||
+      asRecords(record.jobs).some(job => 'requisition_id' in job)
+    );
+  },
+
+  convert(document) {
+    const record = asRecord(document) ?? {};
+    const atsExport = createAtsExport(AtsImportSource.GREENHOUSE);
+
+    for (const job of asRecords(record.jobs)) {
+      const office = asRecords(job.offices)[0];
+      const location = asString(asRecord(office?.location)?.name) || asString(office?.name);
+      const employmentType = asRecords(job.custom_fields)
+        .find(field => asString(field.name).toLowerCase() === 'employment type');
+
+      atsExport.jobs.push({
+        external_id: asString(job.id),
+        title: asString(job.name),
+        description: htmlToText(asString(job.content) || asString(job.notes)),
+        status: JOB_STATUSES[asString(job.status)] ?? JobStatus.DRAFT,
+        type: toJobType(asString(employmentType?.value)),
+        location,
+        remote_allowed: /remote/i.test(location),
+        salary_min: 0,
+        salary_max: 0,
+        skills: [],
+        requirements: buildJobRequirements([]),
+        posted_at: parseDate(job.opened_at),
+        closed_at: parseDate(job.closed_at)
+      });
+    }
+
+    for (const candidate of asRecords(record.candidates)) {
+      const externalId = asString(candidate.id);
+      const { experience, education } = convertCandidateHistory(
+        atsExport.issues,
+        externalId,
+        asRecords(candidate.employments).map(entry => ({
+          company: entry.company_name,
+          title: entry.title,
+          start_date: entry.start_date,
+          end_date: entry.end_date
+        })),
+        asRecords(candidate.educations).map(entry => ({
+          institution: entry.school_name,
+          degree: entry.degree,
+          field_of_study: entry.discipline,
+          start_date: entry.start_date,
+          end_date: entry.end_date
+        }))
+      );
+
+      atsExport.candidates.push({
+        external_id: externalId,
+        full_name: uniqueStrings([candidate.first_name, candidate.last_name]).join(' '),
+        email: getContactValue(candidate.email_addresses).toLowerCase(),
+        phone: getContactValue(candidate.phone_numbers),
+        location: getContactValue(candidate.addresses),
+        experience_level: inferExperienceLevel(experience),
+        skills: uniqueStrings(asArray(candidate.tags)),
+        experience,
+        education
+      });
+
+      for (const application of asRecords(candidate.applications)) {
+        const applicationId = asString(application.id);
+        const jobId = asString(asRecords(application.jobs)[0]?.id);
+        const appliedAt = parseDate(application.applied_at);
+        if (!jobId || !appliedAt) {
+          addIssue(atsExport.issues, AtsEntityType.APPLICATION, applicationId,
+            application.prospect ? 'Prospects without a job are not imported' : 'Applications need a job and an application date');
+          continue;
+        }
+
+        const stageName = asString(asRecord(application.current_stage)?.name) || null;
+        const status = application.status === 'hired'
+          ? ApplicationStatus.OFFER_ACCEPTED
+          : application.status === 'rejected'
+            ? ApplicationStatus.REJECTED
+            : toApplicationStatus(stageName ?? '');
+        const changedAt = parseDate(application.rejected_at) ?? parseDate(application.last_activity_at) ?? appliedAt;
+
+        atsExport.applications.push({
+          external_id: applicationId,
+          candidate_external_id: externalId,
+          job_external_id: jobId,
+          applied_at: appliedAt,
+          ...buildApplicationHistory(appliedAt, [{ status, changed_at: changedAt, stage_name: stageName }])
+        });
+      }
+    }
+
+    return atsExport;
+  }
+};
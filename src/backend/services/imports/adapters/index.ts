@@ -0,0 +1,67 @@
+import { AtsExport, AtsImportAdapter, AtsImportSource, MAX_ATS_IMPORT_RECORDS } from '../../../types/ats-imports';
+import { ErrorCode } from '../../../types/common';
+import { AppError } from '../../../utils/error-handler';
+import { greenhouseAdapter } from './greenhouse';
+import { jsonResumeAdapter } from './json-resume';
+import { leverAdapter } from './lever';
+import { workableAdapter } from './workable';
+
+// Registered adapters by source; detection tries them in registration order
+const adapters = new Map<AtsImportSource, AtsImportAdapter>();
+
+/**
+ * Registers the adapter of a source, replacing any adapter registered for it before
+ * @param adapter - Adapter to register
+ */
+export function registerAtsImportAdapter(adapter: AtsImportAdapter): void {
+  adapters.set(adapter.source, adapter);
+}
+
+/**
+ * Adapter registered for a source
+ * @throws AppError when no adapter is registered for it
+ */
+export function getAtsImportAdapter(source: AtsImportSource): AtsImportAdapter {
+  const adapter = adapters.get(source);
+  if (!adapter) {
+    throw new AppError('Exports from this system cannot be imported', ErrorCode.VALIDATION_ERROR, { source });
+  }
+  return adapter;
+}
+
+/**
+ * Converts an export with the adapter of the named source, or with the first adapter
+ * that recognizes its layout
+ * @param document - Parsed export document
+ * @param source - System the export comes from, detected when omitted
+ * @throws AppError when the layout is not recognized or the export is too large
+ */
+export function convertAtsExport(document: unknown, source?: AtsImportSource): AtsExport {
+  const adapter = source
+    ? getAtsImportAdapter(source)
+    : [...adapters.values()].find(candidate => candidate.detect(document));
+
+  if (!adapter) {
+    throw new AppError('The export format was not recognized', ErrorCode.VALIDATION_ERROR);
+  }
+  if (!adapter.detect(document)) {
+    throw new AppError(`The file is not a ${adapter.label} export`, ErrorCode.VALIDATION_ERROR, { source });
+  }
+
+  const atsExport = adapter.convert(document);
+  const recordCount = atsExport.jobs.length + atsExport.candidates.length + atsExport.applications.length;
+  if (recordCount === 0) {
+    throw new AppError('The export does not contain any records', ErrorCode.VALIDATION_ERROR);
+  }
+  if (recordCount > MAX_ATS_IMPORT_RECORDS) {
+    throw new AppError(`A single import can contain at most ${MAX_ATS_IMPORT_RECORDS} records`, ErrorCode.VALIDATION_ERROR, {
+      record_count: recordCount
+    });
+  }
+  return atsExport;
+}
+
+registerAtsImportAdapter(greenhouseAdapter);
+registerAtsImportAdapter(leverAdapter);
+registerAtsImportAdapter(workableAdapter);
+registerAtsImportAdapter(jsonResumeAdapter);
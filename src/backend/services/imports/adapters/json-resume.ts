@@ -0,0 +1,78 @@
+import { AtsImportAdapter, AtsImportSource } from '../../../types/ats-imports';
+import {
+  asArray,
+  asRecord,
+  asRecords,
+  asString,
+  convertCandidateHistory,
+  createAtsExport,
+  inferExperienceLevel,
+  uniqueStrings
+} from './common';
+
+/**
+ * Resumes of a JSON Resume document: a single resume or a list of them
+ */
+const getResumes = (document: unknown) =>
+  (Array.isArray(document) ? asRecords(document) : [asRecord(document)])
+    .filter((resume): resume is Record<string, unknown> => !!asRecord(resume?.basics));
+
+/**
+ * Adapter for the open JSON Resume schema (jsonresume.org). Resumes carry no jobs or
+ * applications; a resume is identified by `meta.id`, or by its email address when it
+ * has none.
+ */
+export const jsonResumeAdapter: AtsImportAdapter = {
+  source: AtsImportSource.JSON_RESUME,
+  label: 'JSON Resume',
+
+  detect: document => getResumes(document).length > 0,
+
+  convert(document) {
+    const atsExport = createAtsExport(AtsImportSource.JSON_RESUME);
+
+    getResumes(document).forEach((resume, index) => {
+      const basics = asRecord(resume.basics) ?? {};
+      const location = asRecord(basics.location) ?? {};
+      const email = asString(basics.email).toLowerCase();
+      const externalId = asString(asRecord(resume.meta)?.id) || email || `resume-${index + 1}`;
+
+      const { experience, education } = convertCandidateHistory(
+        atsExport.issues,
+        externalId,
+        asRecords(resume.work).map(entry => ({
+          company: entry.name ?? entry.company,
+          title: entry.position,
+          start_date: entry.startDate,
+          end_date: entry.endDate,
+          description: entry.summary,
+          location: entry.location,
+          achievements: asArray(entry.highlights)
+        })),
+        asRecords(resume.education).map(entry => ({
+          institution: entry.institution,
+          degree: entry.studyType,
+          field_of_study: entry.area,
+          start_date: entry.startDate,
+          end_date: entry.endDate,
+          gpa: entry.score,
+          achievements: asArray(entry.courses)
+        }))
+      );
+
+      atsExport.candidates.push({
+        external_id: externalId,
+        full_name: asString(basics.name),
+        email,
+        phone: asString(basics.phone),
+        location: uniqueStrings([location.city, location.region, location.countryCode]).join(', '),
+        experience_level: inferExperienceLevel(experience),
+        skills: uniqueStrings(asRecords(resume.skills).flatMap(skill => [skill.name, ...asArray(skill.keywords)])),
+        experience,
+        education
+      });
+    });
+
+    return atsExport;
+  }
+};
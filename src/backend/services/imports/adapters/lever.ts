@@ -0,0 +1,175 @@
+import {
+  AtsApplicationEvent,
+  AtsCandidate,
+  AtsEntityType,
+  AtsImportAdapter,
+  AtsImportSource
+} from '../../../types/ats-imports';
+import { ApplicationStatus } from '../../../types/candidates';
+import { ExperienceLevel, JobStatus } from '../../../types/jobs';
+import {
+  addIssue,
+  asArray,
+  asNumber,
+  asRecord,
+  asRecords,
+  asString,
+  buildApplicationHistory,
+  buildJobRequirements,
+  createAtsExport,
+  htmlToText,
+  parseDate,
+  toApplicationStatus,
+  toJobType,
+  uniqueStrings
+} from './common';
+
+const POSTING_STATUSES: Record<string, JobStatus> = {
+  published: JobStatus.PUBLISHED,
+  internal: JobStatus.PUBLISHED,
+  closed: JobStatus.CLOSED,
+  draft: JobStatus.DRAFT,
+  pending: JobStatus.DRAFT,
+  rejected: JobStatus.ARCHIVED
+};
+
+/**
+ * Names of the records of a lookup list such as `stages`, keyed by id
+ */
+const getNames = (entries: unknown) =>
+  new Map(asRecords(entries).map(entry => [asString(entry.id), asString(entry.text)]));
+
+/**
+ * Description of a posting with its lists, such as requirements, appended
+ */
+const getPostingDescription = (posting: Record<string, unknown>) => {
+  const content = asRecord(posting.content) ?? {};
+  const lists = asRecords(content.lists).map(list => `${asString(list.text)}\n${htmlToText(asString(list.content))}`);
+  return [
+    asString(content.description) || htmlToText(asString(content.descriptionHtml)),
+    ...lists,
+    asString(content.closing) || htmlToText(asString(content.closingHtml))
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * Adapter for Lever exports in the layout of the Lever API: `postings`, `opportunities`
+ * and the `stages` and `archiveReasons` they refer to. A person with several
+ * opportunities is one candidate, identified by their Lever contact.
+ */
+export const leverAdapter: AtsImportAdapter = {
+  source: AtsImportSource.LEVER,
+  label: 'Lever',
+
+  detect: document => {
+    const record = asRecord(document);
+    return !!record && (
+      asRecords(record.opportunities).some(opportunity => 'stageChanges' in opportunity || 'contact' in opportunity) ||
+      asRecords(record.postings).some(posting => 'categories' in posting)
+    );
+  },
+
+  convert(document) {
+    const record = asRecord(document) ?? {};
+    const atsExport = createAtsExport(AtsImportSource.LEVER);
+    const stages = getNames(record.stages);
+    const archiveReasons = getNames(record.archiveReasons);
+
+    for (const posting of asRecords(record.postings)) {
+      const categories = asRecord(posting.categories) ?? {};
+      const salary = asRecord(posting.salaryRange) ?? {};
+      const location = asString(categories.location);
+      const skills = uniqueStrings(asArray(posting.tags));
+
+      atsExport.jobs.push({
+        external_id: asString(posting.id),
+        title: asString(posting.text),
+        description: getPostingDescription(posting),
+        status: POSTING_STATUSES[asString(posting.state)] ?? JobStatus.DRAFT,
+        type: toJobType(asString(categories.commitment)),
+        location,
+        remote_allowed: posting.workplaceType === 'remote' || /remote/i.test(location),
+        salary_min: asNumber(salary.min) ?? 0,
+        salary_max: asNumber(salary.max) ?? asNumber(salary.min) ?? 0,
+        skills,
+        requirements: buildJobRequirements(skills),
+        posted_at: parseDate(posting.createdAt),
+        closed_at: posting.state === 'closed' ? parseDate(posting.updatedAt) : null
+      });
+    }
+
+    const candidates = new Map<string, AtsCandidate>();
+    for (const opportunity of asRecords(record.opportunities)) {
+      const opportunityId = asString(opportunity.id);
+      const candidateId = asString(opportunity.contact) || opportunityId;
+
+      const known = candidates.get(candidateId);
+      if (known) {
+        known.skills = uniqueStrings([...known.skills, ...asArray(opportunity.tags)]);
+      } else {
+        candidates.set(candidateId, {
+          external_id: candidateId,
+          full_name: asString(opportunity.name),
+          email: asString(asArray(opportunity.emails)[0]).toLowerCase(),
+          phone: asString(asRecords(opportunity.phones)[0]?.value),
+          location: asString(opportunity.location),
+          experience_level: ExperienceLevel.ENTRY,
+          skills: uniqueStrings(asArray(opportunity.tags)),
+          experience: [],
+          education: []
+        });
+      }
+
+      // Stage changes belong to the opportunity, so every posting it applies to shares them
+      const changes: AtsApplicationEvent[] = asRecords(opportunity.stageChanges)
+        .map(change => {
+          const stageName = stages.get(asString(change.toStageId)) ?? null;
+          return {
+            status: toApplicationStatus(stageName ?? ''),
+            changed_at: parseDate(change.updatedAt),
+            stage_name: stageName
+          };
+        })
+        .filter((change): change is AtsApplicationEvent => change.changed_at !== null);
+
+      const archived = asRecord(opportunity.archived);
+      const archivedAt = parseDate(archived?.archivedAt);
+      if (archivedAt) {
+        const reason = archiveReasons.get(asString(archived?.reason)) ?? null;
+        changes.push({
+          status: /hired/i.test(reason ?? '') ? ApplicationStatus.OFFER_ACCEPTED : ApplicationStatus.REJECTED,
+          changed_at: archivedAt,
+          stage_name: reason
+        });
+      }
+
+      const applications = asRecords(opportunity.applications);
+      const postings = applications.length > 0
+        ? applications.map(application => ({ id: asString(application.id), posting: asString(application.posting), created_at: application.createdAt }))
+        : asArray(opportunity.postings).map(posting => ({ id: '', posting: asString(posting), created_at: opportunity.createdAt }));
+
+      if (!postings.some(application => application.posting)) {
+        addIssue(atsExport.issues, AtsEntityType.APPLICATION, opportunityId,
+          'Opportunities without a posting are imported as candidates only');
+      }
+
+      for (const application of postings.filter(entry => entry.posting)) {
+        const appliedAt = parseDate(application.created_at) ?? parseDate(opportunity.createdAt);
+        if (!appliedAt) {
+          addIssue(atsExport.issues, AtsEntityType.APPLICATION, opportunityId, 'Applications need an application date');
+          continue;
+        }
+        atsExport.applications.push({
+          external_id: application.id || `${opportunityId}:${application.posting}`,
+          candidate_external_id: candidateId,
+          job_external_id: application.posting,
+          applied_at: appliedAt,
+          ...buildApplicationHistory(appliedAt, changes.filter(change => change.changed_at >= appliedAt))
+        });
+      }
+    }
+    atsExport.candidates.push(...candidates.values());
+
+    return atsExport;
+  }
+};
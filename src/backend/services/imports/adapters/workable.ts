@@ -0,0 +1,157 @@
+import { AtsEntityType, AtsImportAdapter, AtsImportSource } from '../../../types/ats-imports';
+import { ApplicationStatus } from '../../../types/candidates';
+import { JobStatus } from '../../../types/jobs';
+import {
+  addIssue,
+  asArray,
+  asNumber,
+  asRecord,
+  asRecords,
+  asString,
+  buildApplicationHistory,
+  buildJobRequirements,
+  convertCandidateHistory,
+  createAtsExport,
+  htmlToText,
+  inferExperienceLevel,
+  parseDate,
+  toApplicationStatus,
+  toJobType,
+  uniqueStrings
+} from './common';
+
+const JOB_STATUSES: Record<string, JobStatus> = {
+  published: JobStatus.PUBLISHED,
+  closed: JobStatus.CLOSED,
+  draft: JobStatus.DRAFT,
+  archived: JobStatus.ARCHIVED
+};
+
+/**
+ * Adapter for Workable exports in the layout of the Workable API: `jobs` keyed by
+ * shortcode and `candidates`. Workable keeps a candidate record per job, so records
+ * sharing an email address are one candidate, identified by the oldest record's id;
+ * every record becomes an application.
+ */
+export const workableAdapter: AtsImportAdapter = {
+  source: AtsImportSource.WORKABLE,
+  label: 'Workable',
+
+  detect: document => {
+    const record = asRecord(document);
+    return !!record && (
+      asRecords(record.jobs).some(job => 'shortcode' in job) ||
+      asRecords(record.candidates).some(candidate => 'disqualified' in candidate || !!asRecord(candidate.job)?.shortcode)
+    );
+  },
+
+  convert(document) {
+    const record = asRecord(document) ?? {};
+    const atsExport = createAtsExport(AtsImportSource.WORKABLE);
+
+    for (const job of asRecords(record.jobs)) {
+      const location = asRecord(job.location) ?? {};
+      const salary = asRecord(job.salary) ?? {};
+      const locationText = asString(location.location_str) || uniqueStrings([location.city, location.region, location.country]).join(', ');
+
+      atsExport.jobs.push({
+        external_id: asString(job.shortcode),
+        title: asString(job.title),
+        description: [job.description, job.requirements, job.benefits]
+          .map(section => htmlToText(asString(section)))
+          .filter(Boolean)
+          .join('\n\n'),
+        status: JOB_STATUSES[asString(job.state)] ?? JobStatus.DRAFT,
+        type: toJobType(asString(job.employment_type)),
+        location: locationText,
+        remote_allowed: location.telecommuting === true || location.workplace_type === 'remote',
+        salary_min: asNumber(salary.salary_from) ?? 0,
+        salary_max: asNumber(salary.salary_to) ?? asNumber(salary.salary_from) ?? 0,
+        skills: [],
+        requirements: buildJobRequirements([]),
+        posted_at: parseDate(job.created_at),
+        closed_at: null
+      });
+    }
+
+    // Oldest record first, so the same record identifies a person on every import
+    const records = asRecords(record.candidates).sort((a, b) =>
+      asString(a.created_at).localeCompare(asString(b.created_at)) || asString(a.id).localeCompare(asString(b.id))
+    );
+    const candidateIds = new Map<string, string>();
+
+    for (const candidate of records) {
+      const recordId = asString(candidate.id);
+      const email = asString(candidate.email).toLowerCase();
+      const personKey = email || recordId;
+      let candidateId = candidateIds.get(personKey);
+
+      if (!candidateId) {
+        candidateId = recordId;
+        candidateIds.set(personKey, candidateId);
+
+        const { experience, education } = convertCandidateHistory(
+          atsExport.issues,
+          candidateId,
+          asRecords(candidate.experience_entries).map(entry => ({
+            company: entry.company,
+            title: entry.title,
+            start_date: entry.start_date,
+            end_date: entry.end_date,
+            description: entry.summary,
+            industry: entry.industry,
+            is_current: entry.current === true
+          })),
+          asRecords(candidate.education_entries).map(entry => ({
+            institution: entry.school,
+            degree: entry.degree,
+            field_of_study: entry.field_of_study,
+            start_date: entry.start_date,
+            end_date: entry.end_date
+          }))
+        );
+
+        atsExport.candidates.push({
+          external_id: candidateId,
+          full_name: asString(candidate.name) || uniqueStrings([candidate.firstname, candidate.lastname]).join(' '),
+          email,
+          phone: asString(candidate.phone),
+          location: asString(candidate.address) || asString(asRecord(candidate.location)?.location_str),
+          experience_level: inferExperienceLevel(experience),
+          skills: uniqueStrings(asArray(candidate.skills).map(skill => asRecord(skill)?.name ?? skill)),
+          experience,
+          education
+        });
+      }
+
+      const jobId = asString(asRecord(candidate.job)?.shortcode);
+      const appliedAt = parseDate(candidate.created_at);
+      if (!jobId || !appliedAt) {
+        addIssue(atsExport.issues, AtsEntityType.APPLICATION, recordId,
+          jobId ? 'Applications need an application date' : 'Talent pool candidates without a job are imported as candidates only');
+        continue;
+      }
+
+      const stageName = asString(candidate.stage) || null;
+      const hiredAt = parseDate(candidate.hired_at);
+      const disqualifiedAt = candidate.disqualified === true
+        ? parseDate(candidate.disqualified_at) ?? parseDate(candidate.updated_at) ?? appliedAt
+        : null;
+      const change = hiredAt
+        ? { status: ApplicationStatus.OFFER_ACCEPTED, changed_at: hiredAt, stage_name: stageName }
+        : disqualifiedAt
+          ? { status: ApplicationStatus.REJECTED, changed_at: disqualifiedAt, stage_name: stageName }
+          : { status: toApplicationStatus(stageName ?? ''), changed_at: parseDate(candidate.updated_at) ?? appliedAt, stage_name: stageName };
+
+      atsExport.applications.push({
+        external_id: recordId,
+        candidate_external_id: candidateId,
+        job_external_id: jobId,
+        applied_at: appliedAt,
+        ...buildApplicationHistory(appliedAt, [change])
+      });
+    }
+
+    return atsExport;
+  }
+};
@@ -0,0 +1,654 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  AtsApplication,
+  AtsCandidate,
+  AtsEntityType,
+  AtsExport,
+  AtsImportRun,
+  AtsJob,
+  ReconciliationOutcome,
+  ReconciliationRecord,
+  ReconciliationReport,
+  ReconciliationTotals
+} from '../../types/ats-imports';
+import { ApplicationStatus, CandidateStatus } from '../../types/candidates';
+import { StageHistoryEntry } from '../../types/applications';
+import { PipelineStage, resolveStageStatus } from '../../types/pipelines';
+import { SourceChannel } from '../../types/sources';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { logger } from '../../utils/logger';
+import { buildDuplicateKeys } from '../candidates/duplicates';
+import { getJobPipeline } from '../pipeline/templates';
+import { createStageHistoryEntry } from '../pipeline/stage-history';
+import { recordTouchpoint } from '../sources/attribution';
+import { getAtsImportAdapter } from './adapters';
+import { DEFAULT_IMPORTED_PREFERENCES } from './mapping';
+import { toCsv } from './spreadsheet';
+
+// Tables holding each entity type, for lookups by original identifier
+const ENTITY_TABLES: Record<AtsEntityType, string> = {
+  [AtsEntityType.JOB]: 'jobs',
+  [AtsEntityType.CANDIDATE]: 'candidates',
+  [AtsEntityType.APPLICATION]: 'applications'
+};
+
+const emailSchema = z.string().email();
+
+/**
+ * Record imported before, found by its original identifier
+ */
+interface ImportedEntity {
+  id: UUID;
+  checksum: string | null;
+}
+
+/**
+ * Outcome of importing one record
+ */
+type RecordResult = Pick<ReconciliationRecord, 'entity_id' | 'outcome' | 'message'>;
+
+/**
+ * State shared by the records of one run
+ */
+interface ImportRunContext {
+  client: PoolClient;
+  atsExport: AtsExport;
+  label: string;
+  userId: UUID;
+  // Our identifiers of the jobs and candidates of the export, by original identifier
+  jobIds: Map<string, UUID>;
+  candidateIds: Map<string, UUID>;
+  pipelines: Map<UUID, PipelineStage[]>;
+}
+
+/**
+ * Hex-encoded SHA-256 checksum of a converted record; a record whose checksum matches
+ * the one stored at its last import has not changed
+ */
+async function hashRecord(record: unknown): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(record)));
+  return Array.from(new Uint8Array(hash))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Metadata tying a record to its original in the source system; merged into existing
+ * metadata so identifiers from other systems are kept
+ */
+const buildExternalMetadata = (context: ImportRunContext, externalId: string, checksum: string) => ({
+  external_ids: { [context.atsExport.source]: externalId },
+  external_checksums: { [context.atsExport.source]: checksum }
+});
+
+// SQL merging the metadata built by buildExternalMetadata, passed as the given parameter
+const mergeExternalMetadataSql = (param: string) =>
+  `COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+     'external_ids', COALESCE(metadata -> 'external_ids', '{}'::jsonb) || (${param}::jsonb -> 'external_ids'),
+     'external_checksums', COALESCE(metadata -> 'external_checksums', '{}'::jsonb) || (${param}::jsonb -> 'external_checksums')
+   )`;
+
+/**
+ * Records of one entity type imported from the source before, by original identifier
+ */
+async function findImportedEntities(
+  client: PoolClient,
+  entityType: AtsEntityType,
+  source: string,
+  externalIds: string[]
+): Promise<Map<string, ImportedEntity>> {
+  if (externalIds.length === 0) {
+    return new Map();
+  }
+  const { rows } = await client.query<ImportedEntity & { external_id: string }>(
+    `SELECT id,
+            metadata -> 'external_ids' ->> $1 AS external_id,
+            metadata -> 'external_checksums' ->> $1 AS checksum
+     FROM ${ENTITY_TABLES[entityType]}
+     WHERE metadata -> 'external_ids' ? $1
+       AND metadata -> 'external_ids' ->> $1 = ANY($2::text[])`,
+    [source, [...new Set(externalIds)]]
+  );
+  return new Map(rows.map(row => [row.external_id, { id: row.id, checksum: row.checksum }]));
+}
+
+/**
+ * Creates or updates an exported job
+ */
+async function importJob(
+  context: ImportRunContext,
+  job: AtsJob,
+  existing: ImportedEntity | undefined
+): Promise<RecordResult> {
+  if (!job.title || !job.description) {
+    return { entity_id: existing?.id ?? null, outcome: ReconciliationOutcome.FAILED, message: 'Jobs need a title and a description' };
+  }
+
+  const checksum = await hashRecord(job);
+  if (existing?.checksum === checksum) {
+    return { entity_id: existing.id, outcome: ReconciliationOutcome.UNCHANGED, message: null };
+  }
+  const metadata = JSON.stringify(buildExternalMetadata(context, job.external_id, checksum));
+  const salaryMax = Math.max(job.salary_max, job.salary_min);
+
+  if (existing) {
+    await context.client.query(
+      `UPDATE jobs
+       SET title = $2, description = $3, status = $4, type = $5, location = $6, remote_allowed = $7,
+           salary_min = $8, salary_max = $9, skills = $10, closed_at = $11,
+           metadata = ${mergeExternalMetadataSql('$12')}, updated_at = NOW()
+       WHERE id = $1`,
+      [
+        existing.id,
+        job.title,
+        job.description,
+        job.status,
+        job.type,
+        job.location,
+        job.remote_allowed,
+        job.salary_min,
+        salaryMax,
+        job.skills,
+        job.closed_at,
+        metadata
+      ]
+    );
+    return { entity_id: existing.id, outcome: ReconciliationOutcome.UPDATED, message: null };
+  }
+
+  // Imported jobs keep the dates of the source system, so they are created when they were posted
+  const { rows: [created] } = await context.client.query<{ id: UUID }>(
+    `INSERT INTO jobs (
+       creator_id,
+       title,
+       description,
+       requirements,
+       status,
+       type,
+       skills,
+       salary_min,
+       salary_max,
+       location,
+       remote_allowed,
+       created_at,
+       posted_at,
+       closed_at,
+       metadata
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, COALESCE($12, NOW()), $12, $13, $14)
+     RETURNING id`,
+    [
+      context.userId,
+      job.title,
+      job.description,
+      JSON.stringify(job.requirements),
+      job.status,
+      job.type,
+      job.skills,
+      job.salary_min,
+      salaryMax,
+      job.location,
+      job.remote_allowed,
+      job.posted_at,
+      job.closed_at,
+      metadata
+    ]
+  );
+  return { entity_id: created.id, outcome: ReconciliationOutcome.CREATED, message: null };
+}
+
+/**
+ * Creates or updates an exported candidate. A candidate not imported from the source
+ * before is matched to an existing profile by email address, since addresses are
+ * unique, and that profile is updated and linked to the original.
+ */
+async function importCandidate(
+  context: ImportRunContext,
+  candidate: AtsCandidate,
+  existing: ImportedEntity | undefined
+): Promise<RecordResult> {
+  if (!candidate.full_name || !emailSchema.safeParse(candidate.email).success) {
+    return {
+      entity_id: existing?.id ?? null,
+      outcome: ReconciliationOutcome.FAILED,
+      message: 'Candidates need a name and a valid email address'
+    };
+  }
+
+  const checksum = await hashRecord(candidate);
+  if (existing?.checksum === checksum) {
+    return { entity_id: existing.id, outcome: ReconciliationOutcome.UNCHANGED, message: null };
+  }
+  const metadata = JSON.stringify(buildExternalMetadata(context, candidate.external_id, checksum));
+  const keys = buildDuplicateKeys(candidate);
+
+  let candidateId = existing?.id ?? null;
+  let message: string | null = null;
+  if (!candidateId) {
+    const { rows: [match] } = await context.client.query<{ id: UUID }>(
+      `SELECT id FROM candidates
+       WHERE normalized_email = $1 AND merged_into_id IS NULL
+       ORDER BY created_at
+       LIMIT 1`,
+      [keys.normalized_email]
+    );
+    candidateId = match?.id ?? null;
+    message = match ? 'Matched an existing candidate by email address' : null;
+  }
+
+  if (candidateId) {
+    // Values the export leaves empty keep what the profile has; skills are added to
+    await context.client.query(
+      `UPDATE candidates
+       SET full_name = $2,
+           phone = COALESCE(NULLIF($3, ''), phone),
+           normalized_phone = COALESCE($4, normalized_phone),
+           location = COALESCE(NULLIF($5, ''), location),
+           skills = ARRAY(SELECT DISTINCT unnest(skills || $6::text[])),
+           experience = CASE WHEN jsonb_array_length($7::jsonb) > 0 THEN $7::jsonb ELSE experience END,
+           education = CASE WHEN jsonb_array_length($8::jsonb) > 0 THEN $8::jsonb ELSE education END,
+           metadata = ${mergeExternalMetadataSql('$9')},
+           updated_at = NOW()
+       WHERE id = $1`,
+      [
+        candidateId,
+        candidate.full_name,
+        candidate.phone,
+        keys.normalized_phone,
+        candidate.location,
+        candidate.skills,
+        JSON.stringify(candidate.experience),
+        JSON.stringify(candidate.education),
+        metadata
+      ]
+    );
+    return { entity_id: candidateId, outcome: ReconciliationOutcome.UPDATED, message };
+  }
+
+  const { rows: [created] } = await context.client.query<{ id: UUID }>(
+    `INSERT INTO candidates (
+       full_name,
+       email,
+       phone,
+       location,
+       status,
+       experience_level,
+       skills,
+       experience,
+       education,
+       preferences,
+       resume_url,
+       normalized_email,
+       normalized_phone,
+       metadata,
+       created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NULL, $11, $12, $13::jsonb || $14::jsonb, $15)
+     RETURNING id`,
+    [
+      candidate.full_name,
+      candidate.email,
+      candidate.phone,
+      candidate.location,
+      CandidateStatus.ACTIVE,
+      candidate.experience_level,
+      candidate.skills,
+      JSON.stringify(candidate.experience),
+      JSON.stringify(candidate.education),
+      JSON.stringify(DEFAULT_IMPORTED_PREFERENCES),
+      keys.normalized_email,
+      keys.normalized_phone,
+      metadata,
+      JSON.stringify({ imported_from: context.label, resume_parsed: false }),
+      context.userId
+    ]
+  );
+  await recordTouchpoint(context.client, created.id, {
+    channel: SourceChannel.SOURCED,
+    sub_source: `${context.label} import`
+  }, context.userId);
+
+  return { entity_id: created.id, outcome: ReconciliationOutcome.CREATED, message: null };
+}
+
+/**
+ * Stage history of a new imported application, keeping the dates of the source system;
+ * the last entry moves the application into its stage
+ */
+const buildImportedHistory = (
+  context: ImportRunContext,
+  application: AtsApplication,
+  stageId: UUID
+): StageHistoryEntry[] =>
+  application.history.map((event, index) => ({
+    ...createStageHistoryEntry(
+      index === 0 ? null : application.history[index - 1].status,
+      event.status,
+      null,
+      `Imported from ${context.label}${event.stage_name ? `: ${event.stage_name}` : ''}`,
+      index === application.history.length - 1 ? { from: null, to: stageId } : undefined
+    ),
+    changed_at: event.changed_at.toISOString()
+  }));
+
+/**
+ * Stage of a job's pipeline an imported application is placed in: the first stage for
+ * its status, or the first stage when the pipeline has none for it
+ */
+async function resolveImportedStage(
+  context: ImportRunContext,
+  jobId: UUID,
+  status: ApplicationStatus
+): Promise<PipelineStage> {
+  let stages = context.pipelines.get(jobId);
+  if (!stages) {
+    stages = (await getJobPipeline(context.client, jobId)).stages;
+    context.pipelines.set(jobId, stages);
+  }
+  return stages.find(stage => resolveStageStatus(stage) === status) ?? stages[0];
+}
+
+/**
+ * Creates or updates an exported application. An application not imported before is
+ * matched to an existing application of the candidate to the job, which is updated and
+ * linked to the original.
+ */
+async function importApplication(
+  context: ImportRunContext,
+  application: AtsApplication,
+  existing: ImportedEntity | undefined
+): Promise<RecordResult> {
+  const jobId = context.jobIds.get(application.job_external_id);
+  const candidateId = context.candidateIds.get(application.candidate_external_id);
+  if (!jobId || !candidateId) {
+    return {
+      entity_id: existing?.id ?? null,
+      outcome: ReconciliationOutcome.SKIPPED,
+      message: jobId ? 'The candidate of the application was not imported' : 'The job of the application was not imported'
+    };
+  }
+
+  const checksum = await hashRecord(application);
+  if (existing?.checksum === checksum) {
+    return { entity_id: existing.id, outcome: ReconciliationOutcome.UNCHANGED, message: null };
+  }
+  const metadata = JSON.stringify(buildExternalMetadata(context, application.external_id, checksum));
+  const lastChange = application.history[application.history.length - 1];
+  const withdrawnAt = application.status === ApplicationStatus.WITHDRAWN ? lastChange.changed_at : null;
+
+  let current = existing ? { id: existing.id, message: null as string | null } : null;
+  if (!current) {
+    const { rows: [match] } = await context.client.query<{ id: UUID }>(
+      `SELECT id FROM applications
+       WHERE job_id = $1 AND candidate_id = $2 AND NOT (COALESCE(metadata -> 'external_ids', '{}'::jsonb) ? $3)
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [jobId, candidateId, context.atsExport.source]
+    );
+    current = match ? { id: match.id, message: 'Matched an existing application to the job' } : null;
+  }
+
+  if (current) {
+    const { rows: [{ status, stage_id: stageId }] } = await context.client.query<{ status: ApplicationStatus; stage_id: UUID | null }>(
+      `SELECT status, stage_id FROM applications WHERE id = $1 FOR UPDATE`,
+      [current.id]
+    );
+
+    // A changed status is appended to the history; history recorded here is never rewritten
+    const stage = status === application.status ? null : await resolveImportedStage(context, jobId, application.status);
+    const entry = stage && {
+      ...createStageHistoryEntry(
+        status,
+        application.status,
+        null,
+        `Imported from ${context.label}${lastChange.stage_name ? `: ${lastChange.stage_name}` : ''}`,
+        { from: stageId, to: stage.id }
+      ),
+      changed_at: lastChange.changed_at.toISOString()
+    };
+
+    await context.client.query(
+      `UPDATE applications
+       SET status = $2,
+           stage_id = $3,
+           stage_history = stage_history || $4::jsonb,
+           withdrawn_at = COALESCE(withdrawn_at, $5),
+           metadata = ${mergeExternalMetadataSql('$6')},
+           updated_at = NOW()
+       WHERE id = $1`,
+      [
+        current.id,
+        application.status,
+        stage?.id ?? stageId,
+        JSON.stringify(entry ? [entry] : []),
+        withdrawnAt,
+        metadata
+      ]
+    );
+    return { entity_id: current.id, outcome: ReconciliationOutcome.UPDATED, message: current.message };
+  }
+
+  const stage = await resolveImportedStage(context, jobId, application.status);
+  const history = buildImportedHistory(context, application, stage.id);
+
+  const { rows: [created] } = await context.client.query<{ id: UUID }>(
+    `INSERT INTO applications (
+       job_id,
+       candidate_id,
+       status,
+       stage_id,
+       stage_history,
+       withdrawn_at,
+       metadata,
+       created_by,
+       created_at
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb || $8::jsonb, $9, $10)
+     RETURNING id`,
+    [
+      jobId,
+      candidateId,
+      application.status,
+      stage.id,
+      JSON.stringify(history),
+      withdrawnAt,
+      metadata,
+      JSON.stringify({ imported_from: context.label }),
+      context.userId,
+      application.applied_at
+    ]
+  );
+  return { entity_id: created.id, outcome: ReconciliationOutcome.CREATED, message: null };
+}
+
+/**
+ * Imports one record in a savepoint, so a record that fails is rolled back on its own
+ */
+async function importRecord(
+  context: ImportRunContext,
+  entityType: AtsEntityType,
+  externalId: string,
+  run: () => Promise<RecordResult>
+): Promise<ReconciliationRecord> {
+  await context.client.query('SAVEPOINT ats_import_record');
+  try {
+    const result = await run();
+    await context.client.query('RELEASE SAVEPOINT ats_import_record');
+    return { entity_type: entityType, external_id: externalId, ...result };
+  } catch (error) {
+    await context.client.query('ROLLBACK TO SAVEPOINT ats_import_record');
+    logger.error(error as Error, { context: 'importRecord', entityType, externalId });
+    return {
+      entity_type: entityType,
+      external_id: externalId,
+      entity_id: null,
+      outcome: ReconciliationOutcome.FAILED,
+      message: error instanceof AppError ? error.message : 'The record could not be imported'
+    };
+  }
+}
+
+/**
+ * Zero counts for every entity type and outcome
+ */
+const emptyTotals = (): ReconciliationTotals => Object.fromEntries(
+  Object.values(AtsEntityType).map(entityType => [
+    entityType,
+    Object.fromEntries(Object.values(ReconciliationOutcome).map(outcome => [outcome, 0]))
+  ])
+) as ReconciliationTotals;
+
+/**
+ * Imports the jobs, candidates and applications of a converted export. Records imported
+ * from the same source before are found by their original identifiers and updated, so
+ * importing an export again never duplicates anything. Conversion issues are reported
+ * with the record they are about.
+ * @param client - Database client inside a transaction; a dry run rolls it back
+ * @param atsExport - Export converted by its adapter
+ * @param options - Name of the uploaded file and whether the run is a dry run
+ * @param userId - User running the import
+ * @returns Reconciliation report; the run is stored with it unless it is a dry run
+ */
+export async function runAtsImport(
+  client: PoolClient,
+  atsExport: AtsExport,
+  options: { file_name: string; dry_run: boolean },
+  userId: UUID
+): Promise<ReconciliationReport> {
+  const context: ImportRunContext = {
+    client,
+    atsExport,
+    label: getAtsImportAdapter(atsExport.source).label,
+    userId,
+    jobIds: new Map(),
+    candidateIds: new Map(),
+    pipelines: new Map()
+  };
+  const records: ReconciliationRecord[] = [];
+
+  // Applications may refer to jobs and candidates imported by an earlier run
+  const jobs = await findImportedEntities(client, AtsEntityType.JOB, atsExport.source, [
+    ...atsExport.jobs.map(job => job.external_id),
+    ...atsExport.applications.map(application => application.job_external_id)
+  ]);
+  jobs.forEach((job, externalId) => context.jobIds.set(externalId, job.id));
+  for (const job of atsExport.jobs) {
+    const record = await importRecord(context, AtsEntityType.JOB, job.external_id, () =>
+      importJob(context, job, jobs.get(job.external_id))
+    );
+    if (record.entity_id && record.outcome !== ReconciliationOutcome.FAILED) {
+      context.jobIds.set(job.external_id, record.entity_id);
+    }
+    records.push(record);
+  }
+
+  const candidates = await findImportedEntities(client, AtsEntityType.CANDIDATE, atsExport.source, [
+    ...atsExport.candidates.map(candidate => candidate.external_id),
+    ...atsExport.applications.map(application => application.candidate_external_id)
+  ]);
+  candidates.forEach((candidate, externalId) => context.candidateIds.set(externalId, candidate.id));
+  for (const candidate of atsExport.candidates) {
+    const record = await importRecord(context, AtsEntityType.CANDIDATE, candidate.external_id, () =>
+      importCandidate(context, candidate, candidates.get(candidate.external_id))
+    );
+    if (record.entity_id && record.outcome !== ReconciliationOutcome.FAILED) {
+      context.candidateIds.set(candidate.external_id, record.entity_id);
+    }
+    records.push(record);
+  }
+
+  const applications = await findImportedEntities(
+    client,
+    AtsEntityType.APPLICATION,
+    atsExport.source,
+    atsExport.applications.map(application => application.external_id)
+  );
+  for (const application of atsExport.applications) {
+    records.push(await importRecord(context, AtsEntityType.APPLICATION, application.external_id, () =>
+      importApplication(context, application, applications.get(application.external_id))
+    ));
+  }
+
+  // Records the adapter could not convert at all only have their issue to report
+  for (const issue of atsExport.issues) {
+    const record = records.find(entry =>
+      entry.entity_type === issue.entity_type && entry.external_id === issue.external_id
+    );
+    if (record) {
+      record.message = [record.message, issue.message].filter(Boolean).join('; ');
+    } else {
+      records.push({ ...issue, entity_id: null, outcome: ReconciliationOutcome.SKIPPED });
+    }
+  }
+
+  const totals = emptyTotals();
+  for (const record of records) {
+    totals[record.entity_type][record.outcome]++;
+  }
+
+  if (options.dry_run) {
+    return { run: null, source: atsExport.source, dry_run: true, totals, records };
+  }
+
+  const { rows: [run] } = await client.query<AtsImportRun>(
+    `INSERT INTO ats_import_runs (source, file_name, totals, created_by)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [atsExport.source, options.file_name, JSON.stringify(totals), userId]
+  );
+  await client.query(
+    `INSERT INTO ats_import_records (run_id, position, entity_type, external_id, entity_id, outcome, message)
+     SELECT $1, record.position, record.entity_type, record.external_id, record.entity_id, record.outcome, record.message
+     FROM unnest($2::int[], $3::text[], $4::text[], $5::uuid[], $6::text[], $7::text[])
+       AS record(position, entity_type, external_id, entity_id, outcome, message)`,
+    [
+      run.id,
+      records.map((_, index) => index + 1),
+      records.map(record => record.entity_type),
+      records.map(record => record.external_id),
+      records.map(record => record.entity_id),
+      records.map(record => record.outcome),
+      records.map(record => record.message)
+    ]
+  );
+
+  return { run, source: atsExport.source, dry_run: false, totals, records };
+}
+
+/**
+ * Reconciliation report of a stored run
+ * @param client - Database client
+ * @param runId - Run identifier
+ * @throws AppError when the run does not exist
+ */
+export async function getReconciliationReport(client: PoolClient, runId: UUID): Promise<ReconciliationReport> {
+  const { rows: [run] } = await client.query<AtsImportRun>(
+    `SELECT * FROM ats_import_runs WHERE id = $1`,
+    [runId]
+  );
+  if (!run) {
+    throw new AppError('Import run not found', ErrorCode.NOT_FOUND, { runId });
+  }
+
+  const { rows: records } = await client.query<ReconciliationRecord>(
+    `SELECT entity_type, external_id, entity_id, outcome, message
+     FROM ats_import_records
+     WHERE run_id = $1
+     ORDER BY position`,
+    [runId]
+  );
+  return { run, source: run.source, dry_run: false, totals: run.totals, records };
+}
+
+/**
+ * Reconciliation report as CSV, one line per exported record
+ */
+export const toReconciliationCsv = (report: ReconciliationReport): string => toCsv([
+  ['Type', 'Original ID', 'Outcome', 'Record ID', 'Details'],
+  ...report.records.map(record => [
+    record.entity_type,
+    record.external_id,
+    record.outcome,
+    record.entity_id,
+    record.message
+  ])
+]);
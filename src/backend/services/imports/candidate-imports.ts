@@ -0,0 +1,643 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import type JSZip from 'jszip'; // ^3.10.1
+import {
+  CandidateImport,
+  CandidateImportOptions,
+  CandidateImportPreview,
+  CandidateImportRow,
+  CandidateImportStatus,
+  CandidateImportWithProgress,
+  DuplicateStrategy,
+  ImportField,
+  ImportRowCounts,
+  ImportRowError,
+  ImportRowPreview,
+  ImportRowStatus
+} from '../../types/imports';
+import { SourceChannel } from '../../types/sources';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { logger } from '../../utils/logger';
+import { buildDuplicateKeys, findDuplicateCandidates, normalizeEmail } from '../candidates/duplicates';
+import { recordTouchpoint } from '../sources/attribution';
+import { ResumeStorage } from '../storage/resume-storage';
+import { calculateChecksum } from '../storage/file-handler';
+import { ImportedCandidate, getMissingColumns, mapImportRow } from './mapping';
+import { ParsedSpreadsheet, toCsv } from './spreadsheet';
+import { extractResume } from './resumes';
+
+const resumeStorage = new ResumeStorage();
+
+// Rows inserted per statement when an import is created
+const ROW_INSERT_CHUNK_SIZE = 1000;
+
+// Rows needing attention returned by a dry run; the error report has all of them
+const MAX_PREVIEW_ROWS = 500;
+
+// Outcome of a row matching an existing candidate under each strategy
+const DUPLICATE_OUTCOMES: Record<DuplicateStrategy, ImportRowStatus> = {
+  [DuplicateStrategy.SKIP]: ImportRowStatus.SKIPPED,
+  [DuplicateStrategy.UPDATE]: ImportRowStatus.UPDATED,
+  [DuplicateStrategy.CREATE]: ImportRowStatus.CREATED
+};
+
+// Candidate columns set from each directly mapped field when a candidate is updated
+const UPDATABLE_COLUMNS: Partial<Record<ImportField, keyof ImportedCandidate>> = {
+  full_name: 'full_name',
+  email: 'email',
+  phone: 'phone',
+  location: 'location',
+  status: 'status',
+  experience_level: 'experience_level',
+  skills: 'skills'
+};
+
+/**
+ * Files stored with an import
+ */
+export interface CandidateImportFiles {
+  file_name: string;
+  resume_archive_key: string | null;
+  resume_files: string[];
+}
+
+interface ImportRowOutcome {
+  status: ImportRowStatus;
+  candidate_id: UUID | null;
+  errors: ImportRowError[];
+}
+
+const emptyRowCounts = (): ImportRowCounts =>
+  Object.fromEntries(Object.values(ImportRowStatus).map(status => [status, 0])) as ImportRowCounts;
+
+/**
+ * Stores an uploaded spreadsheet as a new import, one record per row
+ * @param client - Database client inside a transaction
+ * @param spreadsheet - Parsed spreadsheet
+ * @param files - Name of the spreadsheet and the resume archive uploaded with it
+ * @param userId - User importing the file
+ */
+export async function storeCandidateImport(
+  client: PoolClient,
+  spreadsheet: ParsedSpreadsheet,
+  files: CandidateImportFiles,
+  userId: UUID
+): Promise<CandidateImport> {
+  const { rows: [candidateImport] } = await client.query<CandidateImport>(
+    `INSERT INTO candidate_imports (
+       file_name,
+       format,
+       headers,
+       row_count,
+       resume_archive_key,
+       resume_files,
+       created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      files.file_name,
+      spreadsheet.format,
+      spreadsheet.headers,
+      spreadsheet.rows.length,
+      files.resume_archive_key,
+      files.resume_files,
+      userId
+    ]
+  );
+
+  for (let start = 0; start < spreadsheet.rows.length; start += ROW_INSERT_CHUNK_SIZE) {
+    const chunk = spreadsheet.rows.slice(start, start + ROW_INSERT_CHUNK_SIZE);
+    await client.query(
+      `INSERT INTO candidate_import_rows (import_id, row_number, data)
+       SELECT $1, row.row_number, row.data
+       FROM unnest($2::int[], $3::jsonb[]) AS row(row_number, data)`,
+      [candidateImport.id, chunk.map(row => row.row_number), chunk.map(row => JSON.stringify(row.data))]
+    );
+  }
+
+  return candidateImport;
+}
+
+/**
+ * Loads an import
+ * @param client - Database client
+ * @param importId - Import to load
+ * @param forUpdate - Whether to lock the import for the rest of the transaction
+ * @throws AppError when the import does not exist
+ */
+export async function getCandidateImport(
+  client: PoolClient,
+  importId: UUID,
+  forUpdate = false
+): Promise<CandidateImport> {
+  const { rows: [candidateImport] } = await client.query<CandidateImport>(
+    `SELECT * FROM candidate_imports WHERE id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+    [importId]
+  );
+  if (!candidateImport) {
+    throw new AppError('Import not found', ErrorCode.NOT_FOUND);
+  }
+  return candidateImport;
+}
+
+/**
+ * Loads an import with the number of its rows per outcome
+ * @param client - Database client
+ * @param importId - Import to load
+ */
+export async function getCandidateImportWithProgress(
+  client: PoolClient,
+  importId: UUID
+): Promise<CandidateImportWithProgress> {
+  const candidateImport = await getCandidateImport(client, importId);
+  const { rows } = await client.query<{ status: ImportRowStatus; count: string }>(
+    `SELECT status, COUNT(*) AS count
+     FROM candidate_import_rows
+     WHERE import_id = $1
+     GROUP BY status`,
+    [importId]
+  );
+
+  const rowCounts = emptyRowCounts();
+  for (const row of rows) {
+    rowCounts[row.status] = Number(row.count);
+  }
+  return { ...candidateImport, row_counts: rowCounts };
+}
+
+/**
+ * Options an import was previewed with, which it is committed with
+ * @throws AppError when the import has not been previewed
+ */
+function getImportOptions(candidateImport: CandidateImport): CandidateImportOptions {
+  if (!candidateImport.mapping || !candidateImport.duplicate_strategy) {
+    throw new AppError('Preview the import before committing it', ErrorCode.CONFLICT);
+  }
+  return {
+    mapping: candidateImport.mapping,
+    duplicate_strategy: candidateImport.duplicate_strategy,
+    list_delimiter: candidateImport.list_delimiter
+  };
+}
+
+/**
+ * Dry run of an import: reads and validates every row with the given options and
+ * checks it for duplicates, without writing any candidate. Row errors are kept for the
+ * error report and the options are saved for the commit. Rows repeating an earlier
+ * row's email are counted as duplicates of it; other repeats within the file are only
+ * found when the import is committed.
+ * @param client - Database client inside a transaction
+ * @param candidateImport - Import locked for update
+ * @param options - Column mapping, duplicate strategy and list delimiter
+ * @throws AppError when the import was already committed or a mapped column is not in the file
+ */
+export async function dryRunCandidateImport(
+  client: PoolClient,
+  candidateImport: CandidateImport,
+  options: CandidateImportOptions
+): Promise<CandidateImportPreview> {
+  if (candidateImport.status !== CandidateImportStatus.UPLOADED) {
+    throw new AppError('The import has already been committed', ErrorCode.CONFLICT);
+  }
+
+  const missingColumns = getMissingColumns(options.mapping, candidateImport.headers);
+  if (missingColumns.length > 0) {
+    throw new AppError('Mapped columns are not in the file', ErrorCode.VALIDATION_ERROR, {
+      columns: missingColumns
+    });
+  }
+
+  const { rows } = await client.query<Pick<CandidateImportRow, 'row_number' | 'data'>>(
+    `SELECT row_number, data
+     FROM candidate_import_rows
+     WHERE import_id = $1
+     ORDER BY row_number`,
+    [candidateImport.id]
+  );
+
+  const rowCounts = emptyRowCounts();
+  const previews: ImportRowPreview[] = [];
+  const rowErrors: ImportRowError[][] = [];
+  const rowsByEmail = new Map<string, number>();
+
+  for (const row of rows) {
+    const mapped = mapImportRow(row.data, options, candidateImport.resume_files);
+    rowErrors.push(mapped.errors);
+
+    if (!mapped.candidate) {
+      rowCounts[ImportRowStatus.FAILED]++;
+      previews.push({
+        row_number: row.row_number,
+        status: ImportRowStatus.FAILED,
+        errors: mapped.errors,
+        duplicate_candidate_id: null,
+        duplicate_row_number: null
+      });
+      continue;
+    }
+
+    const email = normalizeEmail(mapped.candidate.email);
+    const earlierRow = rowsByEmail.get(email) ?? null;
+    const [match] = earlierRow === null
+      ? await findDuplicateCandidates(client, mapped.candidate)
+      : [];
+    if (earlierRow === null) {
+      rowsByEmail.set(email, row.row_number);
+    }
+
+    const isDuplicate = earlierRow !== null || !!match;
+    const status = isDuplicate ? DUPLICATE_OUTCOMES[options.duplicate_strategy] : ImportRowStatus.CREATED;
+    rowCounts[status]++;
+    if (isDuplicate) {
+      previews.push({
+        row_number: row.row_number,
+        status,
+        errors: [],
+        duplicate_candidate_id: match?.candidate_id ?? null,
+        duplicate_row_number: earlierRow
+      });
+    }
+  }
+
+  await client.query(
+    `UPDATE candidate_import_rows r
+     SET errors = preview.errors
+     FROM unnest($2::int[], $3::jsonb[]) AS preview(row_number, errors)
+     WHERE r.import_id = $1 AND r.row_number = preview.row_number`,
+    [candidateImport.id, rows.map(row => row.row_number), rowErrors.map(errors => JSON.stringify(errors))]
+  );
+
+  await client.query(
+    `UPDATE candidate_imports
+     SET mapping = $2, duplicate_strategy = $3, list_delimiter = $4, previewed_at = NOW()
+     WHERE id = $1`,
+    [candidateImport.id, JSON.stringify(options.mapping), options.duplicate_strategy, options.list_delimiter]
+  );
+
+  return {
+    import_id: candidateImport.id,
+    row_counts: rowCounts,
+    rows: previews.slice(0, MAX_PREVIEW_ROWS),
+    truncated: previews.length > MAX_PREVIEW_ROWS
+  };
+}
+
+/**
+ * Queues a previewed import for the import worker
+ * @param client - Database client inside a transaction
+ * @param candidateImport - Import locked for update
+ * @throws AppError when the import was already committed or has not been previewed
+ */
+export async function queueCandidateImport(
+  client: PoolClient,
+  candidateImport: CandidateImport
+): Promise<CandidateImport> {
+  if (candidateImport.status !== CandidateImportStatus.UPLOADED) {
+    throw new AppError('The import has already been committed', ErrorCode.CONFLICT);
+  }
+  getImportOptions(candidateImport);
+
+  const { rows: [queued] } = await client.query<CandidateImport>(
+    `UPDATE candidate_imports
+     SET status = $2, queued_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [candidateImport.id, CandidateImportStatus.QUEUED]
+  );
+  return queued;
+}
+
+/**
+ * Claims the oldest queued or unfinished import for processing
+ * @param client - Database client
+ * @param now - Time processing starts
+ * @returns The import, or null when there is nothing to process
+ */
+export async function claimCandidateImport(client: PoolClient, now: Date): Promise<CandidateImport | null> {
+  const { rows: [candidateImport] } = await client.query<CandidateImport>(
+    `UPDATE candidate_imports
+     SET status = $2, started_at = COALESCE(started_at, $1)
+     WHERE id = (
+       SELECT id FROM candidate_imports
+       WHERE status IN ($2, $3)
+       ORDER BY queued_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [now, CandidateImportStatus.PROCESSING, CandidateImportStatus.QUEUED]
+  );
+  return candidateImport ?? null;
+}
+
+/**
+ * Marks an import completed once none of its rows are pending
+ * @param client - Database client
+ * @param importId - Import being processed
+ * @param now - Time of completion
+ * @returns Whether the import completed
+ */
+export async function completeCandidateImport(client: PoolClient, importId: UUID, now: Date): Promise<boolean> {
+  const { rowCount } = await client.query(
+    `UPDATE candidate_imports
+     SET status = $3, completed_at = $2
+     WHERE id = $1
+       AND status = $4
+       AND NOT EXISTS (
+         SELECT 1 FROM candidate_import_rows
+         WHERE import_id = $1 AND status = $5
+       )`,
+    [importId, now, CandidateImportStatus.COMPLETED, CandidateImportStatus.PROCESSING, ImportRowStatus.PENDING]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Uploads the resume a row references from the import's archive
+ * @returns URL and checksum of the stored resume, or null when the archive does not contain it
+ */
+async function storeImportedResume(
+  archive: JSZip,
+  path: string,
+  candidateId: UUID,
+  importId: UUID
+): Promise<{ url: string; checksum: string } | null> {
+  const file = await extractResume(archive, path);
+  if (!file) {
+    return null;
+  }
+  const { url } = await resumeStorage.uploadResume(file, candidateId, {
+    source: 'candidate-import',
+    import_id: importId
+  });
+  return { url, checksum: await calculateChecksum(file) };
+}
+
+/**
+ * Creates the candidate of an imported row
+ */
+async function insertImportedCandidate(
+  client: PoolClient,
+  candidateId: UUID,
+  candidate: ImportedCandidate,
+  resume: { url: string; checksum: string } | null,
+  metadata: Record<string, unknown>,
+  createdBy: UUID | null
+): Promise<void> {
+  const keys = buildDuplicateKeys(candidate);
+  await client.query(
+    `INSERT INTO candidates (
+       id,
+       full_name,
+       email,
+       phone,
+       location,
+       status,
+       experience_level,
+       skills,
+       experience,
+       education,
+       preferences,
+       resume_url,
+       normalized_email,
+       normalized_phone,
+       resume_checksum,
+       metadata,
+       created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+    [
+      candidateId,
+      candidate.full_name,
+      candidate.email,
+      candidate.phone,
+      candidate.location,
+      candidate.status,
+      candidate.experience_level,
+      candidate.skills,
+      JSON.stringify(candidate.experience),
+      JSON.stringify(candidate.education),
+      JSON.stringify(candidate.preferences),
+      resume?.url ?? null,
+      keys.normalized_email,
+      keys.normalized_phone,
+      resume?.checksum ?? null,
+      JSON.stringify({ ...metadata, resume_parsed: false }),
+      createdBy
+    ]
+  );
+}
+
+/**
+ * Updates an existing candidate with the fields an imported row has values for;
+ * preferences are merged key by key so unmapped preferences are kept
+ */
+async function updateImportedCandidate(
+  client: PoolClient,
+  candidateId: UUID,
+  candidate: ImportedCandidate,
+  provided: ImportField[],
+  resume: { url: string; checksum: string } | null,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  const assignments: string[] = [];
+  const values: unknown[] = [candidateId];
+  const assign = (column: string, value: unknown, cast = '') => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}${cast}`);
+  };
+
+  for (const field of provided) {
+    const column = UPDATABLE_COLUMNS[field];
+    if (column) {
+      assign(column, candidate[column]);
+    }
+  }
+
+  const keys = buildDuplicateKeys(candidate);
+  if (provided.includes('email')) {
+    assign('normalized_email', keys.normalized_email);
+  }
+  if (provided.includes('phone')) {
+    assign('normalized_phone', keys.normalized_phone);
+  }
+
+  const preferences = Object.fromEntries(
+    provided
+      .filter(field => field.startsWith('preferences.'))
+      .map(field => {
+        const key = field.slice('preferences.'.length) as keyof ImportedCandidate['preferences'];
+        return [key, candidate.preferences[key]];
+      })
+  );
+  if (Object.keys(preferences).length > 0) {
+    values.push(JSON.stringify(preferences));
+    assignments.push(`preferences = COALESCE(preferences, '{}'::jsonb) || $${values.length}::jsonb`);
+  }
+
+  if (resume) {
+    assign('resume_url', resume.url);
+    assign('resume_checksum', resume.checksum);
+  }
+
+  values.push(JSON.stringify(metadata));
+  assignments.push(`metadata = COALESCE(metadata, '{}'::jsonb) || $${values.length}::jsonb`);
+
+  await client.query(
+    `UPDATE candidates SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = $1`,
+    values
+  );
+}
+
+/**
+ * Imports one row, deciding from the duplicate strategy whether a matching candidate
+ * is skipped, updated or created anyway
+ */
+async function importRow(
+  client: PoolClient,
+  candidateImport: CandidateImport,
+  options: CandidateImportOptions,
+  row: Pick<CandidateImportRow, 'row_number' | 'data'>,
+  archive: JSZip | null
+): Promise<ImportRowOutcome> {
+  const mapped = mapImportRow(row.data, options, candidateImport.resume_files);
+  if (!mapped.candidate) {
+    return { status: ImportRowStatus.FAILED, candidate_id: null, errors: mapped.errors };
+  }
+
+  const candidate = mapped.candidate;
+  const matches = await findDuplicateCandidates(client, candidate);
+  const [match] = matches;
+  if (match && options.duplicate_strategy === DuplicateStrategy.SKIP) {
+    return { status: ImportRowStatus.SKIPPED, candidate_id: match.candidate_id, errors: [] };
+  }
+
+  const isUpdate = !!match && options.duplicate_strategy === DuplicateStrategy.UPDATE;
+  const candidateId = isUpdate ? match.candidate_id : crypto.randomUUID() as UUID;
+
+  let resume: { url: string; checksum: string } | null = null;
+  if (mapped.resume_file) {
+    resume = archive ? await storeImportedResume(archive, mapped.resume_file, candidateId, candidateImport.id) : null;
+    if (!resume) {
+      return {
+        status: ImportRowStatus.FAILED,
+        candidate_id: null,
+        errors: [{ field: 'resume_file', message: 'Resume file not found in the archive' }]
+      };
+    }
+  }
+
+  const source = { import_id: candidateImport.id, row_number: row.row_number };
+  if (isUpdate) {
+    await updateImportedCandidate(client, candidateId, candidate, mapped.provided, resume, {
+      last_import: source
+    });
+    return { status: ImportRowStatus.UPDATED, candidate_id: candidateId, errors: [] };
+  }
+
+  await insertImportedCandidate(client, candidateId, candidate, resume, {
+    imported_from: source,
+    ...(matches.length > 0 && {
+      ignored_duplicate_ids: matches.map(duplicate => duplicate.candidate_id)
+    })
+  }, candidateImport.created_by);
+  await recordTouchpoint(client, candidateId, {
+    channel: SourceChannel.SOURCED,
+    sub_source: `Import: ${candidateImport.file_name}`.slice(0, 200)
+  }, candidateImport.created_by);
+
+  return { status: ImportRowStatus.CREATED, candidate_id: candidateId, errors: [] };
+}
+
+/**
+ * Commits the next batch of pending rows of an import in one transaction. A row that
+ * fails is rolled back on its own and recorded as failed; the rest of the batch is
+ * committed.
+ * @param client - Database client outside a transaction
+ * @param candidateImport - Import being processed
+ * @param archive - Resume archive of the import, if one was uploaded
+ * @param batchSize - Most rows committed
+ * @param now - Time the rows are processed
+ * @returns Number of rows processed; 0 once no rows are pending
+ */
+export async function commitImportBatch(
+  client: PoolClient,
+  candidateImport: CandidateImport,
+  archive: JSZip | null,
+  batchSize: number,
+  now: Date
+): Promise<number> {
+  const options = getImportOptions(candidateImport);
+
+  await client.query('BEGIN');
+  try {
+    const { rows } = await client.query<Pick<CandidateImportRow, 'row_number' | 'data'>>(
+      `SELECT row_number, data
+       FROM candidate_import_rows
+       WHERE import_id = $1 AND status = $2
+       ORDER BY row_number
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED`,
+      [candidateImport.id, ImportRowStatus.PENDING, batchSize]
+    );
+
+    for (const row of rows) {
+      let outcome: ImportRowOutcome;
+      await client.query('SAVEPOINT import_row');
+      try {
+        outcome = await importRow(client, candidateImport, options, row, archive);
+        await client.query('RELEASE SAVEPOINT import_row');
+      } catch (error) {
+        await client.query('ROLLBACK TO SAVEPOINT import_row');
+        logger.warn('Import row failed', {
+          importId: candidateImport.id,
+          rowNumber: row.row_number,
+          error: error instanceof Error ? error.message : error
+        });
+        outcome = {
+          status: ImportRowStatus.FAILED,
+          candidate_id: null,
+          errors: [{ field: 'row', message: 'The row could not be imported' }]
+        };
+      }
+
+      await client.query(
+        `UPDATE candidate_import_rows
+         SET status = $3, candidate_id = $4, errors = $5, processed_at = $6
+         WHERE import_id = $1 AND row_number = $2`,
+        [candidateImport.id, row.row_number, outcome.status, outcome.candidate_id, JSON.stringify(outcome.errors), now]
+      );
+    }
+
+    await client.query('COMMIT');
+    return rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Builds the error report of an import as CSV: the original columns of every row with
+ * errors, preceded by its line number and followed by its errors. Before the import is
+ * committed the report holds the errors of the last dry run.
+ * @param client - Database client
+ * @param candidateImport - Import to report on
+ */
+export async function buildImportErrorReport(client: PoolClient, candidateImport: CandidateImport): Promise<string> {
+  const { rows } = await client.query<Pick<CandidateImportRow, 'row_number' | 'data' | 'errors'>>(
+    `SELECT row_number, data, errors
+     FROM candidate_import_rows
+     WHERE import_id = $1 AND jsonb_array_length(errors) > 0
+     ORDER BY row_number`,
+    [candidateImport.id]
+  );
+
+  return toCsv([
+    ['Row', ...candidateImport.headers, 'Errors'],
+    ...rows.map(row => [
+      row.row_number,
+      ...candidateImport.headers.map(header => row.data[header] ?? ''),
+      row.errors.map(error => `${error.field}: ${error.message}`).join('; ')
+    ])
+  ]);
+}
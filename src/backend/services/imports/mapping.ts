@@ -0,0 +1,267 @@
+import { z } from 'zod'; // ^3.22.0
+import {
+  CandidatePreferences,
+  CandidateStatus,
+  candidateSchema
+} from '../../types/candidates';
+import { ExperienceLevel, JobType } from '../../types/jobs';
+import {
+  CandidateImportOptions,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportFieldMapping,
+  ImportRowError
+} from '../../types/imports';
+
+// Imported candidates may come without a resume; everything else is validated as usual
+const importedCandidateSchema = candidateSchema.extend({
+  resume_url: candidateSchema.shape.resume_url.nullable()
+});
+
+export type ImportedCandidate = z.infer<typeof importedCandidateSchema>;
+
+/**
+ * Candidate read from one spreadsheet row
+ */
+export interface MappedImportRow {
+  candidate: ImportedCandidate | null;
+  // Mapped fields the row has a value for; updates of existing candidates only touch these
+  provided: ImportField[];
+  resume_file: string | null;
+  errors: ImportRowError[];
+}
+
+type FieldKind = 'text' | 'list' | 'boolean' | 'number' | 'status' | 'experience_level' | 'job_types' | 'file';
+
+const FIELD_KINDS: Record<ImportField, FieldKind> = {
+  full_name: 'text',
+  email: 'text',
+  phone: 'text',
+  location: 'text',
+  status: 'status',
+  experience_level: 'experience_level',
+  skills: 'list',
+  resume_file: 'file',
+  'preferences.preferred_job_types': 'job_types',
+  'preferences.preferred_locations': 'list',
+  'preferences.remote_only': 'boolean',
+  'preferences.salary_expectation_min': 'number',
+  'preferences.salary_expectation_max': 'number',
+  'preferences.open_to_relocation': 'boolean',
+  'preferences.preferred_industries': 'list',
+  'preferences.preferred_companies': 'list',
+  'preferences.preferred_travel_percentage': 'number',
+  'preferences.excluded_industries': 'list'
+};
+
+// Header spellings recognized for each field besides the field name itself
+const FIELD_ALIASES: Partial<Record<ImportField, string[]>> = {
+  full_name: ['name', 'candidate', 'candidatename', 'fullname'],
+  email: ['emailaddress', 'mail', 'workemail', 'personalemail'],
+  phone: ['phonenumber', 'mobile', 'mobilephone', 'cell', 'telephone'],
+  location: ['city', 'address', 'currentlocation'],
+  status: ['candidatestatus'],
+  experience_level: ['seniority', 'level', 'careerlevel'],
+  skills: ['skillset', 'keywords', 'tags'],
+  resume_file: ['resume', 'cv', 'resumefilename', 'cvfile'],
+  'preferences.preferred_job_types': ['jobtypes', 'employmenttype', 'employmenttypes'],
+  'preferences.preferred_locations': ['preferredlocation', 'desiredlocations'],
+  'preferences.remote_only': ['remote', 'remoteonly'],
+  'preferences.salary_expectation_min': ['salarymin', 'minsalary', 'desiredsalary', 'salaryexpectation'],
+  'preferences.salary_expectation_max': ['salarymax', 'maxsalary'],
+  'preferences.open_to_relocation': ['relocation', 'willingtorelocate'],
+  'preferences.preferred_industries': ['industries'],
+  'preferences.preferred_companies': ['companies', 'targetcompanies'],
+  'preferences.preferred_travel_percentage': ['travel', 'travelpercentage'],
+  'preferences.excluded_industries': []
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'n', 'false', '0'];
+
+export const DEFAULT_IMPORTED_PREFERENCES: CandidatePreferences = {
+  preferred_job_types: [],
+  preferred_locations: [],
+  remote_only: false,
+  salary_expectation_min: 0,
+  salary_expectation_max: 0,
+  open_to_relocation: false,
+  preferred_industries: [],
+  preferred_companies: [],
+  preferred_travel_percentage: 0,
+  excluded_industries: []
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const toEnumValue = (value: string) => value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Name of a file without the folders of the archive it is in
+ */
+export const getBaseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+/**
+ * Suggests the column of each field from the file's headers, matching field names and
+ * common spellings regardless of case and punctuation. A column is used at most once.
+ * @param headers - Column headers of the file
+ */
+export function suggestImportMapping(headers: string[]): ImportFieldMapping {
+  const mapping: ImportFieldMapping = {};
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    const names = [field.split('.').pop() as string, ...(FIELD_ALIASES[field] ?? [])].map(normalizeHeader);
+    const header = headers.find(candidate => !used.has(candidate) && names.includes(normalizeHeader(candidate)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Columns of a mapping that are not in the file
+ * @param mapping - Column of each field
+ * @param headers - Column headers of the file
+ */
+export function getMissingColumns(mapping: ImportFieldMapping, headers: string[]): string[] {
+  return Object.values(mapping).filter((column): column is string => !!column && !headers.includes(column));
+}
+
+/**
+ * Converts one cell to the type of its field
+ * @returns The value, or an error message when the cell cannot be read as that type
+ */
+function parseCell(
+  kind: FieldKind,
+  value: string,
+  delimiter: string
+): { value: unknown } | { error: string } {
+  const list = () => [...new Set(value.split(delimiter).map(item => item.trim()).filter(Boolean))];
+
+  switch (kind) {
+    case 'list':
+      return { value: list() };
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { error: 'Expected yes or no' };
+    }
+    case 'number': {
+      const number = Number(value.replace(/[$€£,\s]/g, ''));
+      return Number.isFinite(number) ? { value: number } : { error: 'Expected a number' };
+    }
+    case 'status': {
+      const status = toEnumValue(value);
+      return Object.values(CandidateStatus).includes(status as CandidateStatus)
+        ? { value: status }
+        : { error: `Expected one of ${Object.values(CandidateStatus).join(', ')}` };
+    }
+    case 'experience_level': {
+      const level = toEnumValue(value);
+      return Object.values(ExperienceLevel).includes(level as ExperienceLevel)
+        ? { value: level }
+        : { error: `Expected one of ${Object.values(ExperienceLevel).join(', ')}` };
+    }
+    case 'job_types': {
+      const types = list().map(toEnumValue);
+      const invalid = types.filter(type => !Object.values(JobType).includes(type as JobType));
+      return invalid.length === 0
+        ? { value: types }
+        : { error: `Unknown job types: ${invalid.join(', ')}` };
+    }
+    default:
+      return { value: value.trim() };
+  }
+}
+
+/**
+ * Reads a candidate from a spreadsheet row through the column mapping and validates it
+ * with the candidate schema. Unmapped and empty fields get the defaults of a new
+ * profile; every problem in the row is reported, not just the first.
+ * @param data - Row keyed by column header
+ * @param options - Column mapping and list delimiter of the import
+ * @param resumeFiles - Files in the resume archive uploaded with the spreadsheet
+ */
+export function mapImportRow(
+  data: Record<string, string>,
+  options: Pick<CandidateImportOptions, 'mapping' | 'list_delimiter'>,
+  resumeFiles: string[] = []
+): MappedImportRow {
+  const errors: ImportRowError[] = [];
+  const provided: ImportField[] = [];
+  const values: Partial<Record<ImportField, unknown>> = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const column = options.mapping[field];
+    const cell = column ? data[column]?.trim() : '';
+    if (!cell) continue;
+
+    const parsed = parseCell(FIELD_KINDS[field], cell, options.list_delimiter);
+    if ('error' in parsed) {
+      errors.push({ field, message: parsed.error });
+      continue;
+    }
+    values[field] = parsed.value;
+    provided.push(field);
+  }
+
+  let resumeFile: string | null = null;
+  if (typeof values.resume_file === 'string') {
+    const name = getBaseName(values.resume_file).toLowerCase();
+    resumeFile = resumeFiles.find(file => getBaseName(file).toLowerCase() === name) ?? null;
+    if (!resumeFile) {
+      errors.push({
+        field: 'resume_file',
+        message: resumeFiles.length ? 'Resume file not found in the archive' : 'No resume archive was uploaded'
+      });
+    }
+  }
+
+  const preferences = Object.fromEntries(
+    provided
+      .filter(field => field.startsWith('preferences.'))
+      .map(field => [field.slice('preferences.'.length), values[field]])
+  );
+
+  const result = importedCandidateSchema.safeParse({
+    full_name: values.full_name ?? '',
+    email: typeof values.email === 'string' ? values.email.toLowerCase() : '',
+    phone: values.phone ?? '',
+    location: values.location ?? '',
+    status: values.status ?? CandidateStatus.ACTIVE,
+    experience_level: values.experience_level ?? ExperienceLevel.ENTRY,
+    skills: values.skills ?? [],
+    experience: [],
+    education: [],
+    resume_url: null,
+    preferences: { ...DEFAULT_IMPORTED_PREFERENCES, ...preferences },
+    match_score: 0,
+    metadata: {}
+  });
+
+  if (!result.success) {
+    errors.push(...result.error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message
+    })));
+  } else if (
+    provided.includes('preferences.salary_expectation_max') &&
+    result.data.preferences.salary_expectation_max < result.data.preferences.salary_expectation_min
+  ) {
+    errors.push({
+      field: 'preferences.salary_expectation_max',
+      message: 'Must not be below the minimum salary'
+    });
+  }
+
+  return {
+    candidate: errors.length === 0 && result.success ? result.data : null,
+    provided,
+    resume_file: resumeFile,
+    errors
+  };
+}
@@ -0,0 +1,72 @@
+import JSZip from 'jszip'; // ^3.10.1
+import { FileHandler } from '../storage/file-handler';
+import { storageConfig } from '../../config/storage';
+import { ErrorCode } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { getBaseName } from './mapping';
+
+const fileHandler = new FileHandler();
+
+// Content types of the resume formats accepted by resume storage
+const RESUME_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  rtf: 'application/rtf',
+  txt: 'text/plain'
+};
+
+/**
+ * Opens a zip archive of resumes
+ * @throws AppError when the file is not a readable zip archive
+ */
+export async function openResumeArchive(data: Blob | ArrayBuffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(data instanceof Blob ? await data.arrayBuffer() : data);
+  } catch {
+    throw new AppError('The resume archive is not a valid zip file', ErrorCode.VALIDATION_ERROR);
+  }
+}
+
+/**
+ * Paths of the resumes in an archive, leaving out folders, system files and files that
+ * are not in a resume format
+ */
+export function listResumeFiles(archive: JSZip): string[] {
+  const allowed = storageConfig.limits.allowedTypes.resumes;
+  return Object.values(archive.files)
+    .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/') && !getBaseName(entry.name).startsWith('.'))
+    .map(entry => entry.name)
+    .filter(name => allowed.includes(`.${name.split('.').pop()?.toLowerCase()}`));
+}
+
+/**
+ * Downloads the resume archive stored with an import
+ * @param key - Storage key of the archive
+ */
+export async function loadResumeArchive(key: string): Promise<JSZip> {
+  const { url } = await fileHandler.generateSignedUrl('imports', key);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Resume archive download failed with status ${response.status}`);
+  }
+  return openResumeArchive(await response.arrayBuffer());
+}
+
+/**
+ * Extracts one resume from an archive as a file named after it
+ * @param archive - Resume archive of the import
+ * @param path - Path of the resume in the archive
+ * @returns The resume, or null when the archive does not contain it
+ */
+export async function extractResume(archive: JSZip, path: string): Promise<File | null> {
+  const entry = archive.file(path);
+  if (!entry) {
+    return null;
+  }
+  const name = getBaseName(path);
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return new File([await entry.async('uint8array')], name, {
+    type: RESUME_CONTENT_TYPES[extension] ?? 'application/octet-stream'
+  });
+}
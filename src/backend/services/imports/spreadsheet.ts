@@ -0,0 +1,181 @@
+import ExcelJS from 'exceljs'; // ^4.4.0
+import { ImportFileFormat, MAX_IMPORT_ROWS } from '../../types/imports';
+import { ErrorCode } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Header and data rows of an uploaded spreadsheet; each row is keyed by column header
+ * and carries its line number in the file
+ */
+export interface ParsedSpreadsheet {
+  format: ImportFileFormat;
+  headers: string[];
+  rows: Array<{ row_number: number; data: Record<string, string> }>;
+}
+
+// Delimiters recognized in the header line of a CSV file, most common first
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Format of a spreadsheet from its file name
+ * @param fileName - Name of the uploaded file
+ * @returns Format, or null for files that cannot be imported
+ */
+export function getImportFileFormat(fileName: string): ImportFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'txt') return ImportFileFormat.CSV;
+  if (extension === 'xlsx') return ImportFileFormat.XLSX;
+  return null;
+}
+
+/**
+ * Picks the delimiter of a CSV file from the one occurring most in its header line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parses CSV text following RFC 4180: quoted values may contain delimiters, line breaks
+ * and doubled quotes. A byte order mark is ignored.
+ * @param text - Contents of the file
+ * @param delimiter - Value separator; detected from the header line when omitted
+ * @returns Lines of the file as lists of values
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^﻿/, '');
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      line.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line.push(value);
+      lines.push(line);
+      line = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || line.length > 0) {
+    line.push(value);
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Serializes lines of values as CSV, quoting values that need it
+ * @param lines - Lines as lists of values
+ */
+export function toCsv(lines: Array<Array<string | number | boolean | null | undefined>>): string {
+  const escape = (value: string | number | boolean | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return lines.map(line => line.map(escape).join(',')).join('\r\n');
+}
+
+/**
+ * Unique, non-empty column headers; blank headers are named after their position and
+ * repeated headers are numbered
+ */
+function normalizeHeaders(cells: string[]): string[] {
+  const seen = new Map<string, number>();
+  return cells.map((cell, index) => {
+    const header = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+}
+
+/**
+ * Reads the lines of the first worksheet of an XLSX workbook as text, the way the
+ * cells are displayed. Dates are read as ISO dates; blank lines are left out.
+ */
+async function readWorkbook(buffer: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const lines: string[][] = [];
+  sheet.eachRow(row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      const cell = row.getCell(column);
+      cells.push(cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text);
+    }
+    lines.push(cells);
+  });
+  return lines;
+}
+
+/**
+ * Reads an uploaded CSV or XLSX spreadsheet. The first line holds the column headers;
+ * blank lines are skipped.
+ * @param file - Uploaded spreadsheet
+ * @throws AppError when the format is not supported, the file has no header or no data,
+ * or it has more rows than a single import allows
+ */
+export async function readSpreadsheet(file: File): Promise<ParsedSpreadsheet> {
+  const format = getImportFileFormat(file.name);
+  if (!format) {
+    throw new AppError('Only CSV and XLSX files can be imported', ErrorCode.VALIDATION_ERROR, {
+      file_name: file.name
+    });
+  }
+
+  const lines = format === ImportFileFormat.CSV
+    ? parseCsv(await file.text())
+    : await readWorkbook(await file.arrayBuffer());
+
+  const [headerLine, ...dataLines] = lines;
+  if (!headerLine?.some(cell => String(cell).trim())) {
+    throw new AppError('The first line must contain column headers', ErrorCode.VALIDATION_ERROR);
+  }
+
+  const headers = normalizeHeaders(headerLine.map(String));
+  const rows = dataLines
+    .map((cells, index) => ({
+      row_number: index + 2,
+      data: Object.fromEntries(headers.map((header, column) => [header, String(cells[column] ?? '').trim()]))
+    }))
+    .filter(row => Object.values(row.data).some(Boolean));
+
+  if (rows.length === 0) {
+    throw new AppError('The file does not contain any rows', ErrorCode.VALIDATION_ERROR);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`A single import can contain at most ${MAX_IMPORT_ROWS} rows`, ErrorCode.VALIDATION_ERROR, {
+      row_count: rows.length
+    });
+  }
+
+  return { format, headers, rows };
+}
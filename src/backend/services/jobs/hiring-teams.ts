@@ -0,0 +1,117 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  HiringTeamMember,
+  HiringTeamRole,
+  JobHiringTeam,
+  hiringTeamUpdateSchema
+} from '../../types/departments';
+import { UserRole } from '../../types/auth';
+import { UUID } from '../../types/common';
+import { assertStaffUsers } from '../departments/departments';
+
+/**
+ * Roles that see every job and its applications
+ */
+export const ALL_JOBS_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * SQL condition limiting jobs to those a user owns, is on the hiring team of, or that
+ * belong to one of the user's departments or a department below it
+ * @param jobAlias - Alias of the jobs table in the query
+ * @param userParam - Placeholder of the user id, e.g. '$3'
+ */
+export function jobVisibilityCondition(jobAlias: string, userParam: string): string {
+  return `(
+    ${jobAlias}.creator_id = ${userParam}
+    OR EXISTS (
+      SELECT 1 FROM job_hiring_team_members team
+      WHERE team.job_id = ${jobAlias}.id AND team.user_id = ${userParam}
+    )
+    OR ${jobAlias}.department_id IN (SELECT user_department_scope(${userParam}))
+  )`;
+}
+
+/**
+ * Checks whether a user sees a job: admins and recruiters see every job, other staff
+ * the jobs matching jobVisibilityCondition
+ * @param client - Database client
+ * @param jobId - Job to check
+ * @param user - Authenticated user
+ */
+export async function canViewJob(
+  client: PoolClient,
+  jobId: UUID,
+  user: { sub: UUID; role: UserRole }
+): Promise<boolean> {
+  const { rows: [job] } = await client.query<{ visible: boolean }>(
+    `SELECT ($2::boolean OR ${jobVisibilityCondition('j', '$3')}) AS visible
+     FROM jobs j
+     WHERE j.id = $1`,
+    [jobId, ALL_JOBS_ROLES.includes(user.role), user.sub]
+  );
+  return job?.visible ?? false;
+}
+
+/**
+ * Loads the hiring team of a job grouped by team role
+ * @param client - Database client
+ * @param jobId - Job whose team is loaded
+ */
+export async function getHiringTeam(client: PoolClient, jobId: UUID): Promise<JobHiringTeam> {
+  const { rows: members } = await client.query<HiringTeamMember>(
+    `SELECT t.user_id, u.full_name, u.email, t.team_role
+     FROM job_hiring_team_members t
+     JOIN auth.users u ON u.id = t.user_id
+     WHERE t.job_id = $1
+     ORDER BY t.team_role, u.full_name`,
+    [jobId]
+  );
+
+  const idsFor = (role: HiringTeamRole) =>
+    members.filter(member => member.team_role === role).map(member => member.user_id);
+
+  return {
+    job_id: jobId,
+    recruiter_id: idsFor(HiringTeamRole.RECRUITER)[0] ?? null,
+    hiring_manager_id: idsFor(HiringTeamRole.HIRING_MANAGER)[0] ?? null,
+    coordinator_ids: idsFor(HiringTeamRole.COORDINATOR),
+    interviewer_ids: idsFor(HiringTeamRole.INTERVIEWER),
+    members
+  };
+}
+
+/**
+ * Replaces the hiring team of a job. Everyone on the team must be staff.
+ * @param client - Database client inside the update transaction
+ * @param jobId - Job whose team is replaced
+ * @param team - New team
+ * @param actorId - User assigning the team
+ */
+export async function setHiringTeam(
+  client: PoolClient,
+  jobId: UUID,
+  team: z.infer<typeof hiringTeamUpdateSchema>,
+  actorId: UUID
+): Promise<JobHiringTeam> {
+  const assignments: Array<[UUID, HiringTeamRole]> = [
+    ...(team.recruiter_id ? [[team.recruiter_id, HiringTeamRole.RECRUITER] as [UUID, HiringTeamRole]] : []),
+    ...(team.hiring_manager_id ? [[team.hiring_manager_id, HiringTeamRole.HIRING_MANAGER] as [UUID, HiringTeamRole]] : []),
+    ...[...new Set(team.coordinator_ids)].map(id => [id, HiringTeamRole.COORDINATOR] as [UUID, HiringTeamRole]),
+    ...[...new Set(team.interviewer_ids)].map(id => [id, HiringTeamRole.INTERVIEWER] as [UUID, HiringTeamRole])
+  ];
+
+  await assertStaffUsers(client, [...new Set(assignments.map(([userId]) => userId))]);
+
+  await client.query('DELETE FROM job_hiring_team_members WHERE job_id = $1', [jobId]);
+  if (assignments.length) {
+    await client.query(
+      `INSERT INTO job_hiring_team_members (job_id, user_id, team_role, created_by)
+       SELECT $1, member.user_id, member.team_role, $4
+       FROM unnest($2::uuid[], $3::text[]) AS member(user_id, team_role)`,
+      [jobId, assignments.map(([userId]) => userId), assignments.map(([, role]) => role), actorId]
+    );
+  }
+
+  return getHiringTeam(client, jobId);
+}
@@ -0,0 +1,149 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Job, JobLifecycleTrigger, JobStatus, JobStatusTransition } from '../../types/jobs';
+import { ApplicationStatus } from '../../types/candidates';
+
+/**
+ * Job with the number of its applications that accepted an offer
+ */
+export type JobWithAcceptedCount = Job & { accepted_count: number };
+
+/**
+ * Status a lifecycle rule moves a job into
+ */
+const TRIGGER_TARGET_STATUS: Record<JobLifecycleTrigger, JobStatus> = {
+  [JobLifecycleTrigger.SCHEDULED_PUBLISH]: JobStatus.PUBLISHED,
+  [JobLifecycleTrigger.EXPIRY]: JobStatus.CLOSED,
+  [JobLifecycleTrigger.HEADCOUNT_FILLED]: JobStatus.FILLED
+};
+
+/**
+ * Locks the draft jobs whose scheduled publish time has passed. Drafts that would
+ * already be closed by then are left alone.
+ * @param client - Database client inside the sweep transaction
+ * @param now - Time of the sweep
+ */
+export async function lockScheduledJobsDue(client: PoolClient, now: Date): Promise<Job[]> {
+  const { rows } = await client.query<Job>(
+    `SELECT * FROM jobs
+     WHERE status = $1 AND publish_at <= $2 AND (closed_at IS NULL OR closed_at > $2)
+     ORDER BY publish_at ASC
+     FOR UPDATE SKIP LOCKED`,
+    [JobStatus.DRAFT, now]
+  );
+  return rows;
+}
+
+/**
+ * Locks the published jobs whose closing date has passed
+ * @param client - Database client inside the sweep transaction
+ * @param now - Time of the sweep
+ */
+export async function lockExpiredJobs(client: PoolClient, now: Date): Promise<Job[]> {
+  const { rows } = await client.query<Job>(
+    `SELECT * FROM jobs
+     WHERE status = $1 AND closed_at <= $2
+     ORDER BY closed_at ASC
+     FOR UPDATE SKIP LOCKED`,
+    [JobStatus.PUBLISHED, now]
+  );
+  return rows;
+}
+
+/**
+ * Locks the published or closed jobs with at least as many accepted offers as openings
+ * @param client - Database client inside the sweep transaction
+ */
+export async function lockFilledJobs(client: PoolClient): Promise<JobWithAcceptedCount[]> {
+  const { rows } = await client.query<JobWithAcceptedCount>(
+    `SELECT j.*, accepted.count AS accepted_count
+     FROM jobs j
+     CROSS JOIN LATERAL (
+       SELECT COUNT(*)::int AS count
+       FROM applications a
+       WHERE a.job_id = j.id AND a.status = $1
+     ) accepted
+     WHERE j.status = ANY($2) AND accepted.count >= j.headcount
+     FOR UPDATE OF j SKIP LOCKED`,
+    [ApplicationStatus.OFFER_ACCEPTED, [JobStatus.PUBLISHED, JobStatus.CLOSED]]
+  );
+  return rows;
+}
+
+/**
+ * Claims the expiry warning of published jobs closing within the warning window, so
+ * each creator is warned once even with several workers running
+ * @param client - Database client
+ * @param now - Time of the sweep
+ * @param warningDays - Days before closing that creators are warned
+ */
+export async function claimExpiryWarnings(
+  client: PoolClient,
+  now: Date,
+  warningDays: number
+): Promise<Job[]> {
+  const { rows } = await client.query<Job>(
+    `UPDATE jobs SET expiry_warning_sent_at = $2
+     WHERE id IN (
+       SELECT id FROM jobs
+       WHERE status = $1
+         AND expiry_warning_sent_at IS NULL
+         AND closed_at > $2
+         AND closed_at <= $2 + make_interval(days => $3)
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [JobStatus.PUBLISHED, now, warningDays]
+  );
+  return rows;
+}
+
+/**
+ * Releases the expiry warning claim of a job whose warning could not be delivered, so
+ * the next sweep retries it
+ * @param client - Database client
+ * @param jobId - Job whose warning failed
+ */
+export async function releaseExpiryWarning(client: PoolClient, jobId: Job['id']): Promise<void> {
+  await client.query('UPDATE jobs SET expiry_warning_sent_at = NULL WHERE id = $1', [jobId]);
+}
+
+/**
+ * Moves a locked job into the status of a lifecycle rule and records the transition.
+ * Publishing stamps posted_at and drops the schedule; filling a job that is still open
+ * closes it now.
+ * @param client - Database client inside the sweep transaction
+ * @param job - Job locked by one of the sweeps
+ * @param trigger - Lifecycle rule making the transition
+ * @param details - Context kept with the transition, e.g. the accepted offer count
+ * @returns The updated job and its transition, or null if the job changed status meanwhile
+ */
+export async function transitionJobStatus(
+  client: PoolClient,
+  job: Job,
+  trigger: JobLifecycleTrigger,
+  details: Record<string, unknown> = {}
+): Promise<{ job: Job; transition: JobStatusTransition } | null> {
+  const toStatus = TRIGGER_TARGET_STATUS[trigger];
+
+  const { rows: [updated] } = await client.query<Job>(
+    `UPDATE jobs SET
+       status = $2,
+       posted_at = CASE WHEN $2 = $4 THEN NOW() ELSE posted_at END,
+       publish_at = CASE WHEN $2 = $4 THEN NULL ELSE publish_at END,
+       closed_at = CASE WHEN $2 = $5 AND (closed_at IS NULL OR closed_at > NOW()) THEN NOW() ELSE closed_at END,
+       updated_at = NOW()
+     WHERE id = $1 AND status = $3
+     RETURNING *`,
+    [job.id, toStatus, job.status, JobStatus.PUBLISHED, JobStatus.FILLED]
+  );
+  if (!updated) return null;
+
+  const { rows: [transition] } = await client.query<JobStatusTransition>(
+    `INSERT INTO job_status_transitions (job_id, from_status, to_status, trigger, details)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [job.id, job.status, toStatus, trigger, JSON.stringify(details)]
+  );
+
+  return { job: updated, transition };
+}
@@ -0,0 +1,62 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Job } from '../../types/jobs';
+import { EmailSender } from '../email/sender';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+/**
+ * Warns the creator of a published job that it closes soon, with a link to extend it.
+ * Delivery failures are logged and reported as false so the caller can retry later.
+ * @param client - Database client
+ * @param job - Published job with an upcoming closed_at
+ * @param correlationId - Correlation id of the lifecycle run
+ */
+export async function notifyCreatorOfExpiry(
+  client: PoolClient,
+  job: Job,
+  correlationId: string
+): Promise<boolean> {
+  try {
+    const { rows: [creator] } = await client.query<{
+      email: string;
+      full_name: string;
+      role: string;
+    }>(
+      'SELECT email, full_name, role FROM auth.users WHERE id = $1',
+      [job.creator_id]
+    );
+
+    if (!creator || !job.closed_at) {
+      logger.warn('Job expiry warning skipped', { correlationId, jobId: job.id });
+      return false;
+    }
+
+    const { html, text } = await reminderTemplate.generateActionReminder(
+      {
+        type: 'job_expiry',
+        deadline: new Date(job.closed_at),
+        priority: 'medium',
+        description: `Your job posting "${job.title}" closes on the date below and will stop accepting applications. Change its closing date to keep it open.`,
+        actionUrl: `${process.env.APP_URL}/jobs/${job.id}/edit`
+      },
+      { name: creator.full_name, email: creator.email, role: creator.role }
+    );
+
+    return await emailSender.sendEmail({
+      to: creator.email,
+      subject: `Your job posting closes soon: ${job.title}`,
+      html,
+      text
+    });
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'notifyCreatorOfExpiry',
+      jobId: job.id
+    });
+    return false;
+  }
+}
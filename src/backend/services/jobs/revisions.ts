@@ -0,0 +1,113 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { JOB_REVISION_FIELDS, Job, JobRevision, JobRevisionField } from '../../types/jobs';
+import { UUID } from '../../types/common';
+
+/**
+ * Compares submitted job description fields with the current ones
+ * @param current - Job holding the current description
+ * @param changes - Submitted fields; undefined fields are left unchanged
+ * @returns The fields whose value actually changed
+ */
+export function getChangedRevisionFields(
+  current: Pick<Job, JobRevisionField>,
+  changes: Partial<Pick<Job, JobRevisionField>>
+): JobRevisionField[] {
+  return JOB_REVISION_FIELDS.filter(field =>
+    changes[field] !== undefined && normalizeField(changes[field]) !== normalizeField(current[field])
+  );
+}
+
+/**
+ * Serializes a field so it compares by value; jsonb comes back with its keys reordered
+ */
+function normalizeField(value: unknown): string {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return JSON.stringify(value, Object.keys(value).sort());
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Inserts one revision snapshot of a job
+ */
+async function insertRevision(
+  client: PoolClient,
+  job: Job,
+  revision: number,
+  changedFields: JobRevisionField[],
+  actorId: UUID | null,
+  createdAt: Date
+): Promise<JobRevision> {
+  const { rows: [row] } = await client.query<JobRevision>(
+    `INSERT INTO job_revisions (
+      job_id,
+      revision,
+      title,
+      description,
+      requirements,
+      job_status,
+      changed_fields,
+      created_by,
+      created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      job.id,
+      revision,
+      job.title,
+      job.description,
+      JSON.stringify(job.requirements),
+      job.status,
+      changedFields,
+      actorId,
+      createdAt
+    ]
+  );
+  return row;
+}
+
+/**
+ * Records the description of a job after a change as a new revision. A job revised for
+ * the first time also gets its previous description recorded as revision 1, so the
+ * history starts from what was originally written.
+ * @param client - Database client inside the transaction that changed the job, holding its row lock
+ * @param previous - Job before the change
+ * @param updated - Job after the change
+ * @param changedFields - Description fields that changed
+ * @param actorId - User who changed the job
+ */
+export async function recordJobRevision(
+  client: PoolClient,
+  previous: Job,
+  updated: Job,
+  changedFields: JobRevisionField[],
+  actorId: UUID
+): Promise<JobRevision> {
+  const { rows: [{ latest }] } = await client.query<{ latest: number | null }>(
+    'SELECT MAX(revision) AS latest FROM job_revisions WHERE job_id = $1',
+    [previous.id]
+  );
+
+  let revision = latest ?? 0;
+  if (!revision) {
+    revision = 1;
+    await insertRevision(client, previous, revision, [], previous.creator_id, previous.updated_at);
+  }
+
+  return insertRevision(client, updated, revision + 1, changedFields, actorId, new Date());
+}
+
+/**
+ * Loads the revision history of a job, newest revision first
+ * @param client - Database client
+ * @param jobId - Job identifier
+ */
+export async function getJobRevisions(client: PoolClient, jobId: UUID): Promise<JobRevision[]> {
+  const { rows } = await client.query<JobRevision>(
+    `SELECT * FROM job_revisions
+     WHERE job_id = $1
+     ORDER BY revision DESC`,
+    [jobId]
+  );
+  return rows;
+}
@@ -0,0 +1,74 @@
+import { JobSearchFilters } from '../../types/jobs';
+import { sanitizeInput } from '../../utils/validation';
+
+// Text the keyword query is matched against
+export const JOB_SEARCH_DOCUMENT = `(
+  to_tsvector('english', j.title) ||
+  to_tsvector('english', j.description) ||
+  to_tsvector('english', array_to_string(j.skills, ' '))
+)`;
+
+/**
+ * WHERE conditions for the filters of the job search, on jobs aliased as `j`.
+ * Parameters are appended to `values`, so the keyword query is `$1` when it is the
+ * first filter built.
+ * @param filters - Search filters
+ * @param values - Query parameters, extended in place
+ * @returns Conditions to join with AND; empty when nothing is filtered
+ */
+export function buildJobFilterConditions(filters: JobSearchFilters, values: unknown[]): string[] {
+  const conditions: string[] = [];
+
+  // Full-text search
+  if (filters.query) {
+    values.push(sanitizeInput(filters.query));
+    conditions.push(`${JOB_SEARCH_DOCUMENT} @@ plainto_tsquery('english', $${values.length})`);
+  }
+
+  // Status filter
+  if (filters.status?.length) {
+    values.push(filters.status);
+    conditions.push(`j.status = ANY($${values.length})`);
+  }
+
+  // Job type filter
+  if (filters.type?.length) {
+    values.push(filters.type);
+    conditions.push(`j.type = ANY($${values.length})`);
+  }
+
+  // Skills filter
+  if (filters.skills?.length) {
+    values.push(filters.skills);
+    conditions.push(`j.skills && $${values.length}`);
+  }
+
+  // Experience level filter
+  if (filters.experience_level?.length) {
+    values.push(filters.experience_level);
+    conditions.push(`j.requirements->>'experience_level' = ANY($${values.length})`);
+  }
+
+  // Location filter
+  if (filters.location) {
+    values.push(`%${sanitizeInput(filters.location)}%`);
+    conditions.push(`j.location ILIKE $${values.length}`);
+  }
+
+  // Remote filter
+  if (filters.remote_only) {
+    conditions.push('j.remote_allowed = true');
+  }
+
+  // Salary range filter
+  if (filters.salary_min !== undefined) {
+    values.push(filters.salary_min);
+    conditions.push(`j.salary_max >= $${values.length}`);
+  }
+  if (filters.salary_max !== undefined) {
+    values.push(filters.salary_max);
+    conditions.push(`j.salary_min <= $${values.length}`);
+  }
+
+  return conditions;
+}
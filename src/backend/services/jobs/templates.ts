@@ -0,0 +1,175 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  JOB_TEMPLATE_FIELDS,
+  Job,
+  JobStatus,
+  JobTemplate,
+  JobTemplateContent,
+  jobCloneSchema,
+  jobTemplateListParamsSchema
+} from '../../types/jobs';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Copies the reusable content of a job or template
+ * @param source - Job or template to copy from
+ */
+export function pickTemplateContent(source: JobTemplateContent): JobTemplateContent {
+  const content = {} as Record<keyof JobTemplateContent, unknown>;
+  for (const field of JOB_TEMPLATE_FIELDS) {
+    content[field] = source[field] ?? null;
+  }
+  return content as JobTemplateContent;
+}
+
+/**
+ * Rejects a template name already used by another active template
+ * @param client - Database client
+ * @param name - Template name
+ * @param excludeId - Template being renamed
+ */
+export async function assertTemplateNameAvailable(
+  client: PoolClient,
+  name: string,
+  excludeId?: UUID
+): Promise<void> {
+  const { rows: [existing] } = await client.query<{ id: UUID }>(
+    `SELECT id FROM job_templates
+     WHERE lower(name) = lower($1) AND archived_at IS NULL AND id IS DISTINCT FROM $2`,
+    [name, excludeId ?? null]
+  );
+  if (existing) {
+    throw new AppError('A template with this name already exists', ErrorCode.CONFLICT, {
+      templateId: existing.id
+    });
+  }
+}
+
+/**
+ * Lists the template library by name, optionally filtered by template name or job title
+ * @param client - Database client
+ * @param params - Search text and whether archived templates are included
+ */
+export async function getJobTemplates(
+  client: PoolClient,
+  params: z.infer<typeof jobTemplateListParamsSchema>
+): Promise<JobTemplate[]> {
+  const { rows } = await client.query<JobTemplate>(
+    `SELECT * FROM job_templates
+     WHERE ($1::boolean OR archived_at IS NULL)
+       AND ($2::text IS NULL OR name ILIKE '%' || $2 || '%' OR title ILIKE '%' || $2 || '%')
+     ORDER BY name ASC`,
+    [params.include_archived, params.search || null]
+  );
+  return rows;
+}
+
+/**
+ * Saves the content of a job as a new template
+ * @param client - Database client
+ * @param job - Job to save
+ * @param name - Template name shown in the library
+ * @param actorId - User saving the template
+ */
+export async function saveJobAsTemplate(
+  client: PoolClient,
+  job: Job,
+  name: string,
+  actorId: UUID
+): Promise<JobTemplate> {
+  await assertTemplateNameAvailable(client, name);
+
+  const content = pickTemplateContent({ ...job, pipeline_template_id: job.pipeline_template_id ?? null });
+  const { rows: [template] } = await client.query<JobTemplate>(
+    `INSERT INTO job_templates (
+      name,
+      source_job_id,
+      created_by,
+      title,
+      description,
+      requirements,
+      type,
+      skills,
+      salary_min,
+      salary_max,
+      location,
+      remote_allowed,
+      pipeline_template_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    RETURNING *`,
+    [
+      name,
+      job.id,
+      actorId,
+      content.title,
+      content.description,
+      JSON.stringify(content.requirements),
+      content.type,
+      content.skills,
+      content.salary_min,
+      content.salary_max,
+      content.location,
+      content.remote_allowed,
+      content.pipeline_template_id
+    ]
+  );
+  return template;
+}
+
+/**
+ * Creates a draft job from the content of an existing job, with optional changes such
+ * as a different location or job type. The clone stays in the department of its source.
+ * @param client - Database client
+ * @param source - Job to clone
+ * @param changes - Fields to change in the clone
+ * @param creatorId - User creating the clone, who owns it
+ */
+export async function cloneJob(
+  client: PoolClient,
+  source: Job,
+  changes: z.infer<typeof jobCloneSchema>,
+  creatorId: UUID
+): Promise<Job> {
+  const content: JobTemplateContent = {
+    ...pickTemplateContent({ ...source, pipeline_template_id: source.pipeline_template_id ?? null }),
+    ...changes
+  };
+
+  const { rows: [job] } = await client.query<Job>(
+    `INSERT INTO jobs (
+      creator_id,
+      status,
+      posted_at,
+      title,
+      description,
+      requirements,
+      type,
+      skills,
+      salary_min,
+      salary_max,
+      location,
+      remote_allowed,
+      pipeline_template_id,
+      department_id
+    ) VALUES ($1, $2, NOW(), $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    RETURNING *`,
+    [
+      creatorId,
+      JobStatus.DRAFT,
+      content.title,
+      content.description,
+      JSON.stringify(content.requirements),
+      content.type,
+      content.skills,
+      content.salary_min,
+      content.salary_max,
+      content.location,
+      content.remote_allowed,
+      content.pipeline_template_id,
+      source.department_id ?? null
+    ]
+  );
+  return job;
+}
@@ -0,0 +1,250 @@
+import { z } from 'zod'; // ^3.22.0
+import {
+  ExperienceLevel,
+  JobRequirements,
+  WordingIssue,
+  WordingIssueCategory,
+  WordingIssueSource,
+  jobWordingCheckSchema
+} from '../../types/jobs';
+
+/**
+ * Phrase flagged by the local wording rules, with the wording suggested instead
+ */
+export interface WordingRule {
+  pattern: RegExp;
+  category: WordingIssueCategory.EXCLUSIONARY | WordingIssueCategory.BIASED;
+  message: string;
+  suggestion: string | null;
+}
+
+/**
+ * Local rule list used for every wording check; it also covers checks made while the
+ * AI service is unavailable. Patterns must be global so every occurrence is found.
+ */
+export const WORDING_RULES: readonly WordingRule[] = [
+  {
+    pattern: /\brock ?stars?\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Hype terms like "rockstar" discourage qualified candidates who do not see themselves that way',
+    suggestion: 'skilled engineer'
+  },
+  {
+    pattern: /\bninjas?\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Hype terms like "ninja" discourage qualified candidates who do not see themselves that way',
+    suggestion: 'specialist'
+  },
+  {
+    pattern: /\bgurus?\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Hype terms like "guru" discourage qualified candidates who do not see themselves that way',
+    suggestion: 'expert'
+  },
+  {
+    pattern: /\bdigital natives?\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: '"Digital native" implies an age preference',
+    suggestion: 'comfortable with digital tools'
+  },
+  {
+    pattern: /\brecent (?:college |university )?grad(?:uate)?s?\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Asking for recent graduates implies an age preference',
+    suggestion: 'early-career candidates'
+  },
+  {
+    pattern: /\byoung(?: and)? (?:energetic|dynamic|vibrant)\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Describing the team as young implies an age preference',
+    suggestion: 'energetic'
+  },
+  {
+    pattern: /\bable[- ]bodied\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: '"Able-bodied" excludes candidates with disabilities; describe the actual physical tasks instead',
+    suggestion: null
+  },
+  {
+    pattern: /\b(?:he\/she|she\/he|he or she|his\/her|his or her)\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Binary pronouns leave out non-binary candidates',
+    suggestion: 'they'
+  },
+  {
+    pattern: /\b(?:salesman|salesmen)\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Gendered job titles discourage candidates of other genders',
+    suggestion: 'salesperson'
+  },
+  {
+    pattern: /\bchairman\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: 'Gendered job titles discourage candidates of other genders',
+    suggestion: 'chair'
+  },
+  {
+    pattern: /\bmanpower\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: '"Manpower" is gendered',
+    suggestion: 'workforce'
+  },
+  {
+    pattern: /\b(?:you )?guys\b/gi,
+    category: WordingIssueCategory.EXCLUSIONARY,
+    message: '"Guys" is gendered',
+    suggestion: 'everyone'
+  },
+  {
+    pattern: /\baggressive\b/gi,
+    category: WordingIssueCategory.BIASED,
+    message: 'Masculine-coded words reduce applications from women',
+    suggestion: 'ambitious'
+  },
+  {
+    pattern: /\bdominant\b/gi,
+    category: WordingIssueCategory.BIASED,
+    message: 'Masculine-coded words reduce applications from women',
+    suggestion: 'leading'
+  },
+  {
+    pattern: /\bnative (?:english )?speakers?\b/gi,
+    category: WordingIssueCategory.BIASED,
+    message: 'Asking for native speakers discriminates by national origin; ask for the proficiency needed',
+    suggestion: 'fluent English speaker'
+  },
+  {
+    pattern: /\bculture fit\b/gi,
+    category: WordingIssueCategory.BIASED,
+    message: '"Culture fit" invites screening for similarity rather than shared values',
+    suggestion: 'alignment with our values'
+  },
+  {
+    pattern: /\bwork hard,? play hard\b/gi,
+    category: WordingIssueCategory.BIASED,
+    message: 'Suggests long hours and after-work socialising, which discourages caregivers',
+    suggestion: 'a supportive, high-performing team'
+  }
+];
+
+/**
+ * Most years of experience reasonable to require at each level
+ */
+export const MAX_YEARS_BY_LEVEL: Record<ExperienceLevel, number> = {
+  [ExperienceLevel.ENTRY]: 1,
+  [ExperienceLevel.JUNIOR]: 3,
+  [ExperienceLevel.MID]: 6,
+  [ExperienceLevel.SENIOR]: 10,
+  [ExperienceLevel.LEAD]: 15,
+  [ExperienceLevel.EXECUTIVE]: 25
+};
+
+/**
+ * Required skills beyond which a requirement list reads as a wish list
+ */
+export const MAX_REQUIRED_SKILLS = 10;
+
+/**
+ * Texts of a job checked for wording, keyed by their issue path
+ */
+export function getWordingTexts(
+  job: Pick<z.infer<typeof jobWordingCheckSchema>, 'title' | 'description' | 'requirements'>
+): Array<[string, string]> {
+  const texts: Array<[string, string]> = [['title', job.title], ['description', job.description]];
+  const listFields = ['required_skills', 'preferred_skills', 'qualifications', 'responsibilities'] as const;
+  for (const field of listFields) {
+    (job.requirements?.[field] ?? []).forEach((item, index) => {
+      texts.push([`requirements.${field}.${index}`, item]);
+    });
+  }
+  return texts;
+}
+
+/**
+ * Finds the phrases of the local rule list in one text
+ * @param path - Issue path of the text
+ * @param text - Text to check
+ */
+export function findRuleMatches(path: string, text: string): WordingIssue[] {
+  const issues: WordingIssue[] = [];
+  for (const rule of WORDING_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      issues.push({
+        category: rule.category,
+        source: WordingIssueSource.RULES,
+        path,
+        message: rule.message,
+        excerpt: match[0],
+        suggestion: rule.suggestion,
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length
+      });
+    }
+  }
+  return issues.sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+}
+
+/**
+ * Flags requirement stacks no candidate at the level is likely to meet
+ * @param requirements - Requirements of the job
+ */
+export function findRequirementStackIssues(requirements: Partial<JobRequirements> | undefined): WordingIssue[] {
+  const issues: WordingIssue[] = [];
+  if (!requirements) return issues;
+
+  const level = requirements.experience_level;
+  if (level && requirements.years_experience !== undefined &&
+      requirements.years_experience > MAX_YEARS_BY_LEVEL[level]) {
+    issues.push({
+      category: WordingIssueCategory.REQUIREMENT_STACK,
+      source: WordingIssueSource.RULES,
+      path: 'requirements.years_experience',
+      message: `${requirements.years_experience} years of experience is unrealistic for a ${level.toLowerCase()} role`,
+      excerpt: String(requirements.years_experience),
+      suggestion: String(MAX_YEARS_BY_LEVEL[level]),
+      start: null,
+      end: null
+    });
+  }
+
+  const requiredSkills = requirements.required_skills ?? [];
+  if (requiredSkills.length > MAX_REQUIRED_SKILLS) {
+    issues.push({
+      category: WordingIssueCategory.REQUIREMENT_STACK,
+      source: WordingIssueSource.RULES,
+      path: 'requirements.required_skills',
+      message: `${requiredSkills.length} required skills discourage candidates who meet most of them; move some to preferred skills`,
+      excerpt: null,
+      suggestion: null,
+      start: null,
+      end: null
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks the wording of a job against the local rule list, the requirement stack
+ * limits and the salary range. Deterministic, so it also runs without the AI service.
+ * @param job - Job content to check
+ */
+export function checkWordingRules(job: z.infer<typeof jobWordingCheckSchema>): WordingIssue[] {
+  const issues = getWordingTexts(job).flatMap(([path, text]) => findRuleMatches(path, text));
+  issues.push(...findRequirementStackIssues(job.requirements));
+
+  if (!job.salary_min && !job.salary_max) {
+    issues.push({
+      category: WordingIssueCategory.MISSING_SALARY,
+      source: WordingIssueSource.RULES,
+      path: 'salary',
+      message: 'Postings without a salary range get fewer applicants and are not allowed in some regions',
+      excerpt: null,
+      suggestion: null,
+      start: null,
+      end: null
+    });
+  }
+
+  return issues;
+}
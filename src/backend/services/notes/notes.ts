@@ -0,0 +1,357 @@
+import sanitizeHtml from 'sanitize-html'; // ^2.11.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, PaginatedResponse, UUID, createPaginatedResponse } from '../../types/common';
+import { UserRole } from '../../types/auth';
+import {
+  CandidateNote,
+  CandidateNoteRevision,
+  NoteCreate,
+  NoteListQuery,
+  NoteUpdate,
+  NoteVisibility
+} from '../../types/notes';
+import { AppError } from '../../utils/error-handler';
+import { ALL_JOBS_ROLES, jobVisibilityCondition } from '../jobs/hiring-teams';
+import { assertStaffUsers } from '../departments/departments';
+
+/**
+ * User reading or writing notes
+ */
+export interface NoteViewer {
+  id: UUID;
+  role: UserRole;
+}
+
+/**
+ * Note body once sanitized, with its plain text and the users it mentions
+ */
+export interface SanitizedNoteBody {
+  body: string;
+  body_text: string;
+  mentions: UUID[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Formatting the note editor produces; mentions are spans carrying the user's id
+const noteSanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: ['p', 'br', 'strong', 'em', 'u', 's', 'ul', 'ol', 'li', 'blockquote', 'code', 'pre', 'a', 'span'],
+  allowedAttributes: {
+    a: ['href'],
+    span: ['data-type', 'data-id', 'data-label', 'class']
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer' })
+  }
+};
+
+const TEXT_ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+/**
+ * Sanitizes the HTML of a note and reads the users mentioned in it. A mention is a
+ * `<span data-type="mention" data-id="...">` as written by the note editor.
+ * @param html - Note body from the editor
+ */
+export function sanitizeNoteBody(html: string): SanitizedNoteBody {
+  const mentions = new Set<UUID>();
+  const body = sanitizeHtml(html, {
+    ...noteSanitizeOptions,
+    transformTags: {
+      ...noteSanitizeOptions.transformTags,
+      span: (tagName, attribs) => {
+        if (attribs['data-type'] === 'mention' && UUID_PATTERN.test(attribs['data-id'] ?? '')) {
+          mentions.add(attribs['data-id'].toLowerCase() as UUID);
+          return { tagName, attribs };
+        }
+        // Only mentions carry a user id
+        const rest = { ...attribs };
+        delete rest['data-id'];
+        return { tagName, attribs: rest };
+      }
+    }
+  }).trim();
+
+  // Block ends become spaces so words of adjacent paragraphs stay apart
+  const bodyText = sanitizeHtml(body.replace(/<\/(p|li|blockquote|pre)>|<br\s*\/?>/gi, '$& '), {
+    allowedTags: [],
+    allowedAttributes: {}
+  })
+    .replace(/&(amp|lt|gt|quot|#39);/g, entity => TEXT_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!bodyText) {
+    throw new AppError('Note cannot be empty', ErrorCode.VALIDATION_ERROR);
+  }
+
+  return { body, body_text: bodyText, mentions: [...mentions] };
+}
+
+/**
+ * SQL condition limiting notes to those a user sees: their own notes, notes for
+ * everyone, and hiring team notes on candidates who applied to a job the user sees.
+ * A hiring team note about one application only counts that application's job.
+ * @param noteAlias - Alias of the candidate_notes table in the query
+ * @param userParam - Placeholder (or column) of the user id
+ * @param allJobsParam - Placeholder (or expression) that is true when the user sees every job
+ */
+export function noteVisibilityCondition(noteAlias: string, userParam: string, allJobsParam: string): string {
+  return `(
+    ${noteAlias}.author_id = ${userParam}
+    OR ${noteAlias}.visibility = '${NoteVisibility.EVERYONE}'
+    OR (
+      ${noteAlias}.visibility = '${NoteVisibility.HIRING_TEAM}'
+      AND (
+        ${allJobsParam}
+        OR EXISTS (
+          SELECT 1
+          FROM applications note_application
+          JOIN jobs note_job ON note_job.id = note_application.job_id
+          WHERE note_application.candidate_id = ${noteAlias}.candidate_id
+          AND (${noteAlias}.application_id IS NULL OR note_application.id = ${noteAlias}.application_id)
+          AND ${jobVisibilityCondition('note_job', userParam)}
+        )
+      )
+    )
+  )`;
+}
+
+const NOTE_COLUMNS = `n.id, n.created_at, n.updated_at, n.candidate_id, n.application_id, n.body, n.body_text,
+       n.visibility, n.mentions, n.version, n.pinned_at, n.pinned_by, n.edited_at, n.author_id,
+       author.full_name AS author_name`;
+
+/**
+ * Retrieves a note the viewer sees
+ * @param client - Database client
+ * @param noteId - Note identifier
+ * @param viewer - User reading the note
+ * @param forUpdate - Locks the note until the transaction ends
+ * @throws AppError when the note does not exist or is hidden from the viewer
+ */
+export async function getNote(
+  client: PoolClient,
+  noteId: UUID,
+  viewer: NoteViewer,
+  forUpdate = false
+): Promise<CandidateNote> {
+  const { rows: [note] } = await client.query<CandidateNote>(
+    `SELECT ${NOTE_COLUMNS}
+     FROM candidate_notes n
+     LEFT JOIN auth.users author ON author.id = n.author_id
+     WHERE n.id = $1 AND ${noteVisibilityCondition('n', '$2::uuid', '$3::boolean')}
+     ${forUpdate ? 'FOR UPDATE OF n' : ''}`,
+    [noteId, viewer.id, ALL_JOBS_ROLES.includes(viewer.role)]
+  );
+  // Hidden notes are reported as missing so their existence is not revealed
+  if (!note) {
+    throw new AppError('Note not found', ErrorCode.NOT_FOUND, { noteId });
+  }
+  return note;
+}
+
+/**
+ * Checks that a note's application belongs to its candidate
+ */
+async function assertCandidateApplication(
+  client: PoolClient,
+  candidateId: UUID,
+  applicationId: UUID | null | undefined
+): Promise<void> {
+  const { rows: [candidate] } = await client.query<{ id: UUID }>(
+    'SELECT id FROM candidates WHERE id = $1 AND merged_into_id IS NULL AND anonymized_at IS NULL',
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+
+  if (applicationId) {
+    const { rows: [application] } = await client.query<{ id: UUID }>(
+      'SELECT id FROM applications WHERE id = $1 AND candidate_id = $2',
+      [applicationId, candidateId]
+    );
+    if (!application) {
+      throw new AppError('Application not found for this candidate', ErrorCode.VALIDATION_ERROR, { applicationId });
+    }
+  }
+}
+
+/**
+ * Records a version of a note in its history
+ */
+async function addRevision(client: PoolClient, note: CandidateNote, editedBy: UUID): Promise<void> {
+  await client.query(
+    `INSERT INTO candidate_note_revisions (note_id, version, body, visibility, edited_by)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [note.id, note.version, note.body, note.visibility, editedBy]
+  );
+}
+
+/**
+ * Writes a note on a candidate, recording it as the first version in its history.
+ * Only staff can be mentioned.
+ * @param client - Database client, in a transaction
+ * @param input - Validated note
+ * @param authorId - User writing the note
+ * @throws AppError when the candidate or application does not exist, or a mentioned user is not staff
+ */
+export async function createNote(client: PoolClient, input: NoteCreate, authorId: UUID): Promise<CandidateNote> {
+  await assertCandidateApplication(client, input.candidate_id, input.application_id);
+  const { body, body_text, mentions } = sanitizeNoteBody(input.body);
+  await assertStaffUsers(client, mentions);
+
+  const { rows: [note] } = await client.query<CandidateNote>(
+    `INSERT INTO candidate_notes (candidate_id, application_id, body, body_text, visibility, mentions, author_id)
+     VALUES ($1, $2, $3, $4, $5, $6::uuid[], $7)
+     RETURNING *`,
+    [input.candidate_id, input.application_id ?? null, body, body_text, input.visibility, mentions, authorId]
+  );
+  await addRevision(client, note, authorId);
+  return note;
+}
+
+/**
+ * Edits a note, keeping the previous versions in its history. Only the author edits
+ * their notes.
+ * @param client - Database client, in a transaction
+ * @param noteId - Note to edit
+ * @param update - Validated changes
+ * @param viewer - User editing the note
+ * @returns The edited note and the users mentioned for the first time
+ * @throws AppError when the note is not found or belongs to someone else
+ */
+export async function updateNote(
+  client: PoolClient,
+  noteId: UUID,
+  update: NoteUpdate,
+  viewer: NoteViewer
+): Promise<{ note: CandidateNote; added_mentions: UUID[] }> {
+  const current = await getNote(client, noteId, viewer, true);
+  if (current.author_id !== viewer.id) {
+    throw new AppError('Only the author can edit a note', ErrorCode.FORBIDDEN, { noteId });
+  }
+
+  const sanitized = update.body !== undefined
+    ? sanitizeNoteBody(update.body)
+    : { body: current.body, body_text: current.body_text, mentions: current.mentions };
+  const visibility = update.visibility ?? current.visibility;
+  if (sanitized.body === current.body && visibility === current.visibility) {
+    return { note: current, added_mentions: [] };
+  }
+
+  const addedMentions = sanitized.mentions.filter(id => !current.mentions.includes(id));
+  await assertStaffUsers(client, addedMentions);
+
+  const { rows: [note] } = await client.query<CandidateNote>(
+    `UPDATE candidate_notes
+     SET body = $2, body_text = $3, visibility = $4, mentions = $5::uuid[], version = version + 1, edited_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [noteId, sanitized.body, sanitized.body_text, visibility, sanitized.mentions]
+  );
+  await addRevision(client, note, viewer.id);
+  return { note: { ...note, author_name: current.author_name }, added_mentions: addedMentions };
+}
+
+/**
+ * Pins a note to the top of its candidate's notes, or unpins it
+ * @param client - Database client
+ * @param noteId - Note to pin
+ * @param pinned - Whether the note is pinned
+ * @param viewer - User pinning the note
+ * @throws AppError when the note is not found
+ */
+export async function setNotePinned(
+  client: PoolClient,
+  noteId: UUID,
+  pinned: boolean,
+  viewer: NoteViewer
+): Promise<CandidateNote> {
+  const current = await getNote(client, noteId, viewer);
+  if (Boolean(current.pinned_at) === pinned) {
+    return current;
+  }
+
+  const { rows: [note] } = await client.query<CandidateNote>(
+    `UPDATE candidate_notes
+     SET pinned_at = CASE WHEN $2 THEN NOW() END, pinned_by = CASE WHEN $2 THEN $3::uuid END
+     WHERE id = $1
+     RETURNING *`,
+    [noteId, pinned, viewer.id]
+  );
+  return { ...note, author_name: current.author_name };
+}
+
+/**
+ * Lists the notes a viewer sees, pinned notes first and then newest first. Notes can
+ * be limited to a candidate or application and searched by their text.
+ * @param client - Database client
+ * @param query - Validated filters and page
+ * @param viewer - User reading the notes
+ */
+export async function listNotes(
+  client: PoolClient,
+  query: NoteListQuery,
+  viewer: NoteViewer
+): Promise<PaginatedResponse<CandidateNote & { candidate_name: string }>> {
+  const values: unknown[] = [viewer.id, ALL_JOBS_ROLES.includes(viewer.role)];
+  const conditions = [noteVisibilityCondition('n', '$1::uuid', '$2::boolean')];
+
+  if (query.candidate_id) {
+    values.push(query.candidate_id);
+    conditions.push(`n.candidate_id = $${values.length}`);
+  }
+  if (query.application_id) {
+    values.push(query.application_id);
+    conditions.push(`n.application_id = $${values.length}`);
+  }
+  if (query.q) {
+    values.push(query.q);
+    conditions.push(`n.search_vector @@ plainto_tsquery('english', $${values.length})`);
+  }
+
+  const where = conditions.join(' AND ');
+  const { rows: [{ total }] } = await client.query<{ total: number }>(
+    `SELECT COUNT(*)::int AS total FROM candidate_notes n WHERE ${where}`,
+    values
+  );
+
+  const { rows } = await client.query<CandidateNote & { candidate_name: string }>(
+    `SELECT ${NOTE_COLUMNS}, c.full_name AS candidate_name
+     FROM candidate_notes n
+     JOIN candidates c ON c.id = n.candidate_id
+     LEFT JOIN auth.users author ON author.id = n.author_id
+     WHERE ${where}
+     ORDER BY n.pinned_at DESC NULLS LAST, n.created_at DESC, n.id
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, query.limit, (query.page - 1) * query.limit]
+  );
+
+  return createPaginatedResponse(rows, total, query);
+}
+
+/**
+ * Retrieves every version of a note, newest first
+ * @param client - Database client
+ * @param noteId - Note identifier
+ * @param viewer - User reading the history
+ * @throws AppError when the note is not found
+ */
+export async function getNoteHistory(
+  client: PoolClient,
+  noteId: UUID,
+  viewer: NoteViewer
+): Promise<CandidateNoteRevision[]> {
+  await getNote(client, noteId, viewer);
+
+  const { rows } = await client.query<CandidateNoteRevision>(
+    `SELECT r.id, r.note_id, r.version, r.body, r.visibility, r.edited_by, u.full_name AS editor_name, r.created_at
+     FROM candidate_note_revisions r
+     LEFT JOIN auth.users u ON u.id = r.edited_by
+     WHERE r.note_id = $1
+     ORDER BY r.version DESC`,
+    [noteId]
+  );
+  return rows;
+}
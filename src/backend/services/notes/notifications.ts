@@ -0,0 +1,87 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { ALL_JOBS_ROLES } from '../jobs/hiring-teams';
+import { CandidateNote, NoteVisibility } from '../../types/notes';
+import { EmailSender } from '../email/sender';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { logger } from '../../utils/logger';
+import { noteVisibilityCondition } from './notes';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+// Length of the note excerpt quoted in the email
+const EXCERPT_LENGTH = 280;
+
+/**
+ * Emails the users mentioned in a note. Mentions in private notes, of the author, and
+ * of users who cannot see the note are not notified. Delivery failures are logged.
+ * @param client - Database client
+ * @param note - Note that mentions the users
+ * @param userIds - Users to notify
+ * @param correlationId - Correlation id of the request
+ * @returns Number of emails sent
+ */
+export async function notifyMentionedUsers(
+  client: PoolClient,
+  note: CandidateNote,
+  userIds: UUID[],
+  correlationId: string
+): Promise<number> {
+  if (note.visibility === NoteVisibility.PRIVATE || userIds.length === 0) {
+    return 0;
+  }
+
+  try {
+    const { rows: recipients } = await client.query<{
+      email: string;
+      full_name: string;
+      role: string;
+      candidate_name: string;
+      author_name: string | null;
+    }>(
+      `SELECT u.email, u.full_name, u.role, c.full_name AS candidate_name, author.full_name AS author_name
+       FROM candidate_notes n
+       JOIN candidates c ON c.id = n.candidate_id
+       LEFT JOIN auth.users author ON author.id = n.author_id
+       JOIN auth.users u ON u.id = ANY($2::uuid[]) AND u.id <> n.author_id
+       WHERE n.id = $1 AND ${noteVisibilityCondition('n', 'u.id', 'u.role = ANY($3)')}`,
+      [note.id, userIds, ALL_JOBS_ROLES]
+    );
+
+    const excerpt = note.body_text.length > EXCERPT_LENGTH
+      ? `${note.body_text.slice(0, EXCERPT_LENGTH)}…`
+      : note.body_text;
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      const author = recipient.author_name ?? 'A colleague';
+      const { html, text } = await reminderTemplate.generateActionReminder(
+        {
+          type: 'note_mention',
+          deadline: new Date(note.updated_at ?? note.created_at),
+          priority: 'low',
+          description: `${author} mentioned you in a note on ${recipient.candidate_name}: "${excerpt}"`,
+          actionUrl: `${process.env.APP_URL}/candidates/${note.candidate_id}?note=${note.id}`
+        },
+        { name: recipient.full_name, email: recipient.email, role: recipient.role }
+      );
+
+      const delivered = await emailSender.sendEmail({
+        to: recipient.email,
+        subject: `${author} mentioned you in a note on ${recipient.candidate_name}`,
+        html,
+        text
+      });
+      if (delivered) sent++;
+    }
+    return sent;
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'notifyMentionedUsers',
+      noteId: note.id
+    });
+    return 0;
+  }
+}
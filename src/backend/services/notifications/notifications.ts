@@ -0,0 +1,82 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { Notification, NotificationListQuery, NotificationType } from '../../types/notifications';
+
+/**
+ * Notification to show a user in the app
+ */
+export interface NotificationInput {
+  recipient_id: UUID;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Adds an in-app notification for a user
+ * @param client - Database client
+ * @param input - Notification and its recipient
+ */
+export async function createNotification(client: PoolClient, input: NotificationInput): Promise<Notification> {
+  const { rows: [notification] } = await client.query<Notification>(
+    `INSERT INTO notifications (recipient_id, type, title, body, link, data)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      input.recipient_id,
+      input.type,
+      input.title,
+      input.body ?? null,
+      input.link ?? null,
+      JSON.stringify(input.data ?? {})
+    ]
+  );
+  return notification;
+}
+
+/**
+ * Lists a user's notifications, newest first, with how many are unread
+ * @param client - Database client
+ * @param userId - Recipient
+ * @param query - Whether to list only unread notifications, and how many
+ */
+export async function listNotifications(
+  client: PoolClient,
+  userId: UUID,
+  query: NotificationListQuery
+): Promise<{ notifications: Notification[]; unread_count: number }> {
+  const { rows: notifications } = await client.query<Notification>(
+    `SELECT * FROM notifications
+     WHERE recipient_id = $1 AND (NOT $2 OR read_at IS NULL)
+     ORDER BY created_at DESC
+     LIMIT $3`,
+    [userId, query.unread, query.limit]
+  );
+  const { rows: [{ count }] } = await client.query<{ count: number }>(
+    'SELECT COUNT(*)::int AS count FROM notifications WHERE recipient_id = $1 AND read_at IS NULL',
+    [userId]
+  );
+  return { notifications, unread_count: count };
+}
+
+/**
+ * Marks a user's notifications read; notifications of other users are left alone
+ * @param client - Database client
+ * @param userId - Recipient
+ * @param notificationIds - Notifications to mark, or every unread one when omitted
+ * @returns Number of notifications marked
+ */
+export async function markNotificationsRead(
+  client: PoolClient,
+  userId: UUID,
+  notificationIds?: UUID[]
+): Promise<number> {
+  const { rowCount } = await client.query(
+    `UPDATE notifications SET read_at = NOW()
+     WHERE recipient_id = $1 AND read_at IS NULL AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))`,
+    [userId, notificationIds ?? null]
+  );
+  return rowCount ?? 0;
+}
@@ -0,0 +1,75 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Offer } from '../../types/offers';
+import { UserRole } from '../../types/auth';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Offer row joined with the owners used for access checks
+ */
+export type OfferWithOwners = Offer & {
+  job_creator_id: UUID;
+  candidate_user_id: UUID | null;
+};
+
+/**
+ * Roles that manage offers for any job; hiring managers only manage offers on jobs they own
+ */
+export const OFFER_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Loads and locks an offer so concurrent revisions and responses apply in order
+ * @param client - Database client inside an open transaction
+ * @param offerId - Offer identifier
+ */
+export async function lockOffer(client: PoolClient, offerId: UUID): Promise<OfferWithOwners> {
+  const { rows: [offer] } = await client.query<OfferWithOwners>(
+    `SELECT o.*, j.creator_id AS job_creator_id, c.user_id AS candidate_user_id
+     FROM offers o
+     JOIN jobs j ON j.id = o.job_id
+     JOIN candidates c ON c.id = o.candidate_id
+     WHERE o.id = $1
+     FOR UPDATE OF o`,
+    [offerId]
+  );
+
+  if (!offer) {
+    throw new AppError('Offer not found', ErrorCode.NOT_FOUND);
+  }
+  return offer;
+}
+
+/**
+ * Checks whether a user manages offers for the job of an offer
+ * @param offer - Offer with its job owner
+ * @param user - Authenticated user
+ */
+export function canManageOffer(
+  offer: Pick<OfferWithOwners, 'job_creator_id'>,
+  user: { sub: UUID; role: UserRole }
+): boolean {
+  return OFFER_MANAGER_ROLES.includes(user.role) ||
+    (user.role === UserRole.HIRING_MANAGER && offer.job_creator_id === user.sub);
+}
+
+/**
+ * Checks whether a user may answer an offer: the candidate it was extended to, or
+ * a recruiter recording the candidate's answer
+ * @param offer - Offer with its candidate owner
+ * @param user - Authenticated user
+ */
+export function canRespondToOffer(
+  offer: Pick<OfferWithOwners, 'candidate_user_id'>,
+  user: { sub: UUID; role: UserRole }
+): boolean {
+  return OFFER_MANAGER_ROLES.includes(user.role) ||
+    (offer.candidate_user_id !== null && offer.candidate_user_id === user.sub);
+}
+
+/**
+ * Removes the joined owner columns before an offer is returned to clients
+ * @param offer - Offer with owners
+ */
+export function toOffer({ job_creator_id, candidate_user_id, ...offer }: OfferWithOwners): Offer {
+  return offer;
+}
@@ -0,0 +1,110 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApplicationStatus } from '../../types/candidates';
+import { Offer } from '../../types/offers';
+import { CandidateEmailCategory } from '../../types/timeline';
+import { UUID } from '../../types/common';
+import { EmailSender } from '../email/sender';
+import { recordCandidateEmail } from '../email/history';
+import { OfferEmailVariant, createStatusUpdateTemplate } from '../email/templates/status-update';
+import { emailConfig } from '../../config/email';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const statusUpdateTemplate = createStatusUpdateTemplate();
+
+// Application status shown alongside each offer email variant
+const VARIANT_STATUS: Record<OfferEmailVariant, ApplicationStatus> = {
+  [OfferEmailVariant.SENT]: ApplicationStatus.OFFER_PENDING,
+  [OfferEmailVariant.REVISED]: ApplicationStatus.OFFER_PENDING,
+  [OfferEmailVariant.ACCEPTED]: ApplicationStatus.OFFER_ACCEPTED,
+  [OfferEmailVariant.DECLINED]: ApplicationStatus.OFFER_DECLINED
+};
+
+const VARIANT_SUBJECT: Record<OfferEmailVariant, string> = {
+  [OfferEmailVariant.SENT]: 'Your offer for {{jobTitle}}',
+  [OfferEmailVariant.REVISED]: 'Your revised offer for {{jobTitle}}',
+  [OfferEmailVariant.ACCEPTED]: 'Offer accepted: {{jobTitle}}',
+  [OfferEmailVariant.DECLINED]: 'Offer declined: {{jobTitle}}'
+};
+
+/**
+ * Emails the candidate about an offer. Delivery failures are logged and reported as
+ * false so they never roll back the offer change that triggered them.
+ * @param client - Database client used to load the candidate and job
+ * @param offer - Offer the email is about
+ * @param variant - Offer email variant to render
+ * @param correlationId - Correlation id of the triggering request
+ * @param actorId - User whose action sent the email, recorded in the candidate's timeline
+ */
+export async function sendOfferEmail(
+  client: PoolClient,
+  offer: Offer,
+  variant: OfferEmailVariant,
+  correlationId: string,
+  actorId: UUID | null = null
+): Promise<boolean> {
+  try {
+    const { rows: [recipient] } = await client.query<{
+      full_name: string;
+      email: string;
+      job_title: string;
+    }>(
+      `SELECT c.full_name, c.email, j.title AS job_title
+       FROM candidates c, jobs j
+       WHERE c.id = $1 AND j.id = $2`,
+      [offer.candidate_id, offer.job_id]
+    );
+
+    if (!recipient) {
+      logger.warn('Offer email recipient not found', { correlationId, offerId: offer.id });
+      return false;
+    }
+
+    const { html, text } = await statusUpdateTemplate.compileTemplate({
+      candidateName: recipient.full_name,
+      jobTitle: recipient.job_title,
+      companyName: emailConfig.sender.name,
+      applicationStatus: VARIANT_STATUS[variant],
+      contactEmail: emailConfig.sender.replyTo,
+      offerVariant: variant,
+      offerDetails: {
+        baseSalary: Number(offer.base_salary),
+        bonus: offer.bonus === null ? null : Number(offer.bonus),
+        equity: offer.equity,
+        currency: offer.currency,
+        startDate: String(offer.start_date),
+        expiresAt: new Date(offer.expires_at).toISOString(),
+        version: offer.version
+      }
+    });
+
+    const subject = VARIANT_SUBJECT[variant].replace('{{jobTitle}}', recipient.job_title);
+    const sent = await emailSender.sendEmail({
+      to: recipient.email,
+      subject,
+      html,
+      text,
+      priority: 'high'
+    });
+    if (sent) {
+      await recordCandidateEmail(client, {
+        candidate_id: offer.candidate_id,
+        application_id: offer.application_id,
+        category: CandidateEmailCategory.OFFER,
+        subject,
+        recipient: recipient.email,
+        sent_by: actorId,
+        correlation_id: correlationId
+      }).catch(error => logger.warn('Sent offer email could not be recorded', { correlationId, offerId: offer.id, error }));
+    }
+    return sent;
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'sendOfferEmail',
+      offerId: offer.id,
+      variant
+    });
+    return false;
+  }
+}
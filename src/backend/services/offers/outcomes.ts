@@ -0,0 +1,188 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Application } from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
+import { Offer, OfferResponse, OfferStatus } from '../../types/offers';
+import { PipelineStage, StageCategory, resolveStageStatus } from '../../types/pipelines';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { createStageHistoryEntry } from '../pipeline/stage-history';
+import { getJobPipeline } from '../pipeline/templates';
+import { canRespondToOffer, lockOffer, toOffer } from './access';
+
+/**
+ * Ensures a candidate can still respond to an offer
+ * @param offer - Offer being accepted or declined
+ * @param now - Time of the response
+ */
+export function assertOfferOpenForResponse(offer: Offer, now: Date = new Date()): void {
+  if (offer.status !== OfferStatus.SENT) {
+    throw new AppError('Only sent offers can be accepted or declined', ErrorCode.CONFLICT, {
+      status: offer.status
+    });
+  }
+
+  if (new Date(offer.expires_at).getTime() <= now.getTime()) {
+    throw new AppError('Offer has expired', ErrorCode.CONFLICT, {
+      status: OfferStatus.EXPIRED,
+      expiresAt: offer.expires_at
+    });
+  }
+}
+
+/**
+ * Resolves the stage an application moves into when its offer is answered. Templates
+ * that lack a stage for the exact offer status fall back to their first hired or
+ * rejected stage.
+ * @param stages - Ordered stages of the job's template
+ * @param response - Candidate response to the offer
+ */
+export function resolveOfferOutcomeStage(
+  stages: PipelineStage[],
+  response: OfferResponse
+): PipelineStage {
+  const [status, category] = response === OfferResponse.ACCEPT
+    ? [ApplicationStatus.OFFER_ACCEPTED, StageCategory.HIRED]
+    : [ApplicationStatus.OFFER_DECLINED, StageCategory.REJECTED];
+
+  const stage = stages.find(s => resolveStageStatus(s) === status)
+    ?? stages.find(s => s.category === category);
+
+  if (!stage) {
+    throw new AppError('No stage in the job pipeline can record the offer response', ErrorCode.CONFLICT, {
+      response
+    });
+  }
+  return stage;
+}
+
+/**
+ * Moves the application of an answered offer into the matching pipeline stage. The
+ * response itself is the gate for this move, so template transition rules are not
+ * applied; the stage history still records the change and its actor.
+ * @param client - Database client inside the transaction recording the response
+ * @param offer - Offer that was accepted or declined
+ * @param response - Candidate response
+ * @param actorId - User recording the response
+ * @param reason - Optional reason given with the response
+ */
+export async function moveApplicationForOffer(
+  client: PoolClient,
+  offer: Offer,
+  response: OfferResponse,
+  actorId: UUID,
+  reason?: string
+): Promise<Application> {
+  const { rows: [application] } = await client.query<Application>(
+    `SELECT * FROM applications WHERE id = $1 FOR UPDATE`,
+    [offer.application_id]
+  );
+
+  if (!application) {
+    throw new AppError('Application not found', ErrorCode.NOT_FOUND);
+  }
+
+  if (application.status === ApplicationStatus.WITHDRAWN) {
+    throw new AppError('Application has been withdrawn', ErrorCode.CONFLICT, {
+      applicationId: application.id
+    });
+  }
+
+  const pipeline = await getJobPipeline(client, application.job_id);
+  const stage = resolveOfferOutcomeStage(pipeline.stages, response);
+  if (stage.id === application.stage_id) {
+    return application;
+  }
+
+  const nextStatus = resolveStageStatus(stage);
+  const entry = createStageHistoryEntry(
+    application.status,
+    nextStatus,
+    actorId,
+    reason ?? `Offer ${response === OfferResponse.ACCEPT ? 'accepted' : 'declined'}`,
+    { from: application.stage_id, to: stage.id }
+  );
+
+  const { rows: [updatedApplication] } = await client.query<Application>(
+    `UPDATE applications
+     SET status = $2,
+         stage_id = $3,
+         stage_history = stage_history || $4::jsonb,
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [application.id, nextStatus, stage.id, JSON.stringify([entry])]
+  );
+
+  return updatedApplication;
+}
+
+/**
+ * Records a candidate's answer to an offer and moves its application accordingly
+ * @param client - Database client inside an open transaction
+ * @param params - Offer, response, responding user, optional reason and request correlation id
+ */
+export async function recordOfferResponse(
+  client: PoolClient,
+  params: {
+    offerId: UUID;
+    response: OfferResponse;
+    user: { sub: UUID; role: UserRole };
+    reason?: string;
+    correlationId: string;
+  }
+): Promise<{ offer: Offer; application: Application }> {
+  const { offerId, response, user, reason, correlationId } = params;
+
+  const lockedOffer = await lockOffer(client, offerId);
+  if (!canRespondToOffer(lockedOffer, user)) {
+    throw new AppError('Offer not found or access denied', ErrorCode.NOT_FOUND);
+  }
+
+  assertOfferOpenForResponse(lockedOffer);
+
+  const { rows: [offer] } = await client.query<Offer>(
+    `UPDATE offers
+     SET status = $2,
+         responded_at = NOW(),
+         response_reason = $3,
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [
+      offerId,
+      response === OfferResponse.ACCEPT ? OfferStatus.ACCEPTED : OfferStatus.DECLINED,
+      reason ?? null
+    ]
+  );
+
+  const application = await moveApplicationForOffer(client, toOffer(lockedOffer), response, user.sub, reason);
+
+  // Record audit log
+  await client.query(
+    `INSERT INTO audit_logs (
+      entity_type,
+      entity_id,
+      action,
+      user_id,
+      changes,
+      correlation_id
+    ) VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      'offer',
+      offerId,
+      response,
+      user.sub,
+      JSON.stringify({
+        version: offer.version,
+        reason: reason ?? null,
+        on_behalf_of_candidate: lockedOffer.candidate_user_id !== user.sub,
+        application_status: application.status,
+        application_stage_id: application.stage_id
+      }),
+      correlationId
+    ]
+  );
+
+  return { offer, application };
+}
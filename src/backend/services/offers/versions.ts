@@ -0,0 +1,116 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { OFFER_TERM_FIELDS, Offer, OfferTerms, OfferVersion } from '../../types/offers';
+import { UUID } from '../../types/common';
+
+/**
+ * Applies revised terms on top of the current terms of an offer
+ * @param current - Offer holding the current terms
+ * @param changes - Revised terms; undefined fields keep their current value
+ * @returns The merged terms and the fields whose value actually changed
+ */
+export function mergeOfferTerms(
+  current: Pick<Offer, keyof OfferTerms>,
+  changes: Partial<OfferTerms>
+): { terms: OfferTerms; changedFields: (keyof OfferTerms)[] } {
+  const terms = {} as Record<keyof OfferTerms, unknown>;
+  const changedFields: (keyof OfferTerms)[] = [];
+
+  for (const field of OFFER_TERM_FIELDS) {
+    const currentValue = normalizeTerm(field, current[field]);
+    const nextValue = changes[field] === undefined ? currentValue : normalizeTerm(field, changes[field]);
+    terms[field] = nextValue;
+    if (nextValue !== currentValue) {
+      changedFields.push(field);
+    }
+  }
+
+  return { terms: terms as OfferTerms, changedFields };
+}
+
+/**
+ * Normalizes stored and submitted term values so they compare by value; pg returns
+ * numerics as strings and timestamps as dates
+ */
+function normalizeTerm(field: keyof OfferTerms, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (field) {
+    case 'base_salary':
+    case 'bonus':
+      return Number(value);
+    case 'expires_at':
+      return new Date(value as string | Date).toISOString();
+    case 'start_date':
+      return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Records a snapshot of the current terms of an offer as a new version
+ * @param client - Database client inside the transaction that changed the offer
+ * @param offer - Offer after the change, carrying its new version number
+ * @param actorId - User who created or revised the offer
+ * @param changeReason - Optional reason recorded with a revision
+ */
+export async function recordOfferVersion(
+  client: PoolClient,
+  offer: Offer,
+  actorId: UUID,
+  changeReason?: string
+): Promise<OfferVersion> {
+  const { rows: [version] } = await client.query<OfferVersion>(
+    `INSERT INTO offer_versions (
+      offer_id,
+      version,
+      base_salary,
+      bonus,
+      equity,
+      currency,
+      start_date,
+      expires_at,
+      change_reason,
+      created_by
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING *`,
+    [
+      offer.id,
+      offer.version,
+      offer.base_salary,
+      offer.bonus,
+      offer.equity,
+      offer.currency,
+      offer.start_date,
+      offer.expires_at,
+      changeReason ?? null,
+      actorId
+    ]
+  );
+  return version;
+}
+
+/**
+ * Loads the version history of a set of offers, newest version first
+ * @param client - Database client
+ * @param offerIds - Offer identifiers
+ */
+export async function getOfferVersions(
+  client: PoolClient,
+  offerIds: UUID[]
+): Promise<Map<UUID, OfferVersion[]>> {
+  const versions = new Map<UUID, OfferVersion[]>();
+  if (!offerIds.length) return versions;
+
+  const { rows } = await client.query<OfferVersion>(
+    `SELECT * FROM offer_versions
+     WHERE offer_id = ANY($1::uuid[])
+     ORDER BY offer_id, version DESC`,
+    [offerIds]
+  );
+
+  for (const row of rows) {
+    versions.set(row.offer_id, [...(versions.get(row.offer_id) ?? []), row]);
+  }
+  return versions;
+}
@@ -0,0 +1,40 @@
+import { ApplicationStatus } from '../../types/candidates';
+import { StageHistoryEntry, stageHistoryEntrySchema } from '../../types/applications';
+import { UUID } from '../../types/common';
+
+/**
+ * Builds a validated stage history entry for an application stage change
+ * @param from - Previous status, null when the application is first created
+ * @param to - New status
+ * @param actorId - User performing the change; null for applicants using the public careers site
+ * @param reason - Optional free-text reason recorded with the change
+ * @param stages - Optional pipeline stage ids for templates with custom stages
+ */
+export function createStageHistoryEntry(
+  from: ApplicationStatus | null,
+  to: ApplicationStatus,
+  actorId: UUID | null,
+  reason?: string,
+  stages?: { from: UUID | null; to: UUID }
+): StageHistoryEntry {
+  return stageHistoryEntrySchema.parse({
+    from_status: from,
+    to_status: to,
+    actor_id: actorId,
+    changed_at: new Date().toISOString(),
+    ...(reason ? { reason } : {}),
+    ...(stages ? { from_stage_id: stages.from, to_stage_id: stages.to } : {})
+  }) as StageHistoryEntry;
+}
+
+/**
+ * Returns a new history array with the entry appended; existing entries are never rewritten
+ * @param history - Current stage history as stored on the application
+ * @param entry - Entry to append
+ */
+export function appendStageHistory(
+  history: StageHistoryEntry[] | null | undefined,
+  entry: StageHistoryEntry
+): StageHistoryEntry[] {
+  return [...(history ?? []), entry];
+}
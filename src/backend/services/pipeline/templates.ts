@@ -0,0 +1,78 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApplicationStatus } from '../../types/candidates';
+import { PipelineStage, PipelineTemplate, resolveStageStatus } from '../../types/pipelines';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Loads the ordered stages of a template
+ * @param client - Database client, usually inside an open transaction
+ * @param templateId - Template identifier
+ */
+export async function getTemplateStages(
+  client: PoolClient,
+  templateId: UUID
+): Promise<PipelineStage[]> {
+  const { rows } = await client.query<PipelineStage>(
+    `SELECT * FROM pipeline_stages WHERE template_id = $1 ORDER BY position ASC`,
+    [templateId]
+  );
+  return rows;
+}
+
+/**
+ * Loads the pipeline template used by a job, falling back to the default template
+ * @param client - Database client, usually inside an open transaction
+ * @param jobId - Job identifier
+ */
+export async function getJobPipeline(
+  client: PoolClient,
+  jobId: UUID
+): Promise<PipelineTemplate> {
+  const { rows: [template] } = await client.query<Omit<PipelineTemplate, 'stages'>>(
+    `SELECT t.*
+     FROM jobs j
+     JOIN pipeline_templates t
+       ON t.id = COALESCE(j.pipeline_template_id, (SELECT id FROM pipeline_templates WHERE is_default))
+     WHERE j.id = $1`,
+    [jobId]
+  );
+
+  if (!template) {
+    throw new AppError('Pipeline template not found for job', ErrorCode.NOT_FOUND, { jobId });
+  }
+
+  return { ...template, stages: await getTemplateStages(client, template.id) };
+}
+
+/**
+ * Resolves the stage an application should move into from an explicit stage id or a
+ * canonical status; a status alone maps to the first stage that resolves to it
+ * @param stages - Ordered stages of the job's template
+ * @param target - Requested stage id and/or status
+ */
+export function resolveTargetStage(
+  stages: PipelineStage[],
+  target: { stage_id?: UUID; status?: ApplicationStatus }
+): PipelineStage {
+  if (target.stage_id) {
+    const stage = stages.find(s => s.id === target.stage_id);
+    if (!stage) {
+      throw new AppError('Stage does not belong to the job pipeline', ErrorCode.VALIDATION_ERROR, {
+        stageId: target.stage_id
+      });
+    }
+    return stage;
+  }
+
+  const status = target.status ?? ApplicationStatus.APPLIED;
+  const stage = stages.find(s => resolveStageStatus(s) === status)
+    ?? (status === ApplicationStatus.APPLIED ? stages[0] : undefined);
+
+  if (!stage) {
+    throw new AppError('No stage in the job pipeline matches the requested status', ErrorCode.VALIDATION_ERROR, {
+      status
+    });
+  }
+  return stage;
+}
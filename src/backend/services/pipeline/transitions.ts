@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UserRole } from '../../types/auth';
+import {
+  COLLECTIBLE_REQUIREMENTS,
+  PIPELINE_ROLES,
+  PipelineStage,
+  PipelineTransitionRule,
+  StageCategory,
+  TransitionRequirement
+} from '../../types/pipelines';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Outcome of evaluating a transition rule against a requested move
+ */
+export interface TransitionCheck {
+  rule: PipelineTransitionRule;
+  allowed: boolean;
+  permitted: boolean;
+  missingFields: TransitionRequirement[];
+  unmetConditions: TransitionRequirement[];
+}
+
+/**
+ * Data supplied with a move and known about the application when evaluating a rule
+ */
+export interface TransitionContext {
+  role: UserRole;
+  reason?: string;
+  feedback?: Record<string, unknown>[];
+  hasInterviewFeedback?: boolean;
+}
+
+/**
+ * Builds the rule applied when a template has no explicit rule for a stage pair. Rejections
+ * need a reason, offers need interview feedback, hires only follow an offer, and moving an
+ * application out of a closed stage is restricted and needs a reason.
+ * @param from - Current stage, null for applications not yet placed on a stage
+ * @param to - Target stage
+ */
+export function getDefaultTransitionRule(
+  from: PipelineStage | null,
+  to: PipelineStage
+): PipelineTransitionRule {
+  let allowedRoles = [...PIPELINE_ROLES];
+  const requiredFields = new Set<TransitionRequirement>();
+  let isAllowed = true;
+
+  if (from?.category === StageCategory.HIRED) {
+    allowedRoles = [UserRole.ADMIN];
+    requiredFields.add(TransitionRequirement.REASON);
+  } else if (from?.category === StageCategory.REJECTED) {
+    allowedRoles = allowedRoles.filter(role => role !== UserRole.HIRING_MANAGER);
+    requiredFields.add(TransitionRequirement.REASON);
+  }
+
+  switch (to.category) {
+    case StageCategory.REJECTED:
+      requiredFields.add(TransitionRequirement.REASON);
+      break;
+    case StageCategory.OFFER:
+      requiredFields.add(TransitionRequirement.INTERVIEW_FEEDBACK);
+      break;
+    case StageCategory.HIRED:
+      isAllowed = from?.category === StageCategory.OFFER;
+      allowedRoles = allowedRoles.filter(role => role !== UserRole.HIRING_MANAGER);
+      break;
+  }
+
+  return {
+    template_id: to.template_id,
+    from_stage_id: from?.id ?? null,
+    to_stage_id: to.id,
+    is_allowed: isAllowed,
+    allowed_roles: allowedRoles,
+    required_fields: [...requiredFields]
+  };
+}
+
+/**
+ * Loads the explicit transition rules of a template
+ * @param client - Database client, usually inside an open transaction
+ * @param templateId - Template identifier
+ */
+export async function getTemplateTransitionRules(
+  client: PoolClient,
+  templateId: UUID
+): Promise<PipelineTransitionRule[]> {
+  const { rows } = await client.query<PipelineTransitionRule>(
+    `SELECT id, template_id, from_stage_id, to_stage_id, is_allowed, allowed_roles, required_fields
+     FROM pipeline_transition_rules
+     WHERE template_id = $1`,
+    [templateId]
+  );
+  return rows;
+}
+
+/**
+ * Resolves the rule for a move: an explicit rule for the exact pair wins over an explicit
+ * rule for any source stage, which wins over the category default
+ * @param rules - Explicit rules of the template
+ * @param from - Current stage, null for applications not yet placed on a stage
+ * @param to - Target stage
+ */
+export function findTransitionRule(
+  rules: PipelineTransitionRule[],
+  from: PipelineStage | null,
+  to: PipelineStage
+): PipelineTransitionRule {
+  const toRules = rules.filter(rule => rule.to_stage_id === to.id);
+  return toRules.find(rule => from !== null && rule.from_stage_id === from.id)
+    ?? toRules.find(rule => rule.from_stage_id === null)
+    ?? getDefaultTransitionRule(from, to);
+}
+
+/**
+ * Checks whether a candidate has a completed interview with feedback for a job
+ * @param client - Database client
+ * @param candidateId - Candidate identifier
+ * @param jobId - Job identifier
+ */
+export async function hasCompletedInterviewFeedback(
+  client: PoolClient,
+  candidateId: UUID,
+  jobId: UUID
+): Promise<boolean> {
+  const { rows: [{ has_feedback }] } = await client.query(
+    `SELECT EXISTS (
+       SELECT 1
+       FROM interviews i
+       JOIN interview_feedback f ON f.interview_id = i.id
+       WHERE i.candidate_id = $1 AND i.job_id = $2 AND i.status = 'COMPLETED'
+     ) AS has_feedback`,
+    [candidateId, jobId]
+  );
+  return has_feedback;
+}
+
+/**
+ * Evaluates a rule against the role of the mover and the data supplied with the move
+ * @param rule - Resolved transition rule
+ * @param context - Mover role, supplied fields and known preconditions
+ */
+export function evaluateTransitionRule(
+  rule: PipelineTransitionRule,
+  context: TransitionContext
+): TransitionCheck {
+  const satisfied: Record<TransitionRequirement, boolean> = {
+    [TransitionRequirement.REASON]: !!context.reason?.trim(),
+    [TransitionRequirement.FEEDBACK]: !!context.feedback?.length,
+    [TransitionRequirement.INTERVIEW_FEEDBACK]: !!context.hasInterviewFeedback
+  };
+  const unsatisfied = rule.required_fields.filter(requirement => !satisfied[requirement]);
+
+  return {
+    rule,
+    allowed: rule.is_allowed,
+    permitted: rule.allowed_roles.includes(context.role),
+    missingFields: unsatisfied.filter(requirement => COLLECTIBLE_REQUIREMENTS.includes(requirement)),
+    unmetConditions: unsatisfied.filter(requirement => !COLLECTIBLE_REQUIREMENTS.includes(requirement))
+  };
+}
+
+/**
+ * Enforces the transition rules of a template for an application move
+ * @param client - Database client, usually inside an open transaction
+ * @param params - Template, stages, application and move data
+ * @throws AppError CONFLICT when the move is not allowed, FORBIDDEN when the role may not
+ * make it, VALIDATION_ERROR with the missing fields and unmet conditions otherwise
+ */
+export async function assertTransitionAllowed(
+  client: PoolClient,
+  params: {
+    templateId: UUID;
+    from: PipelineStage | null;
+    to: PipelineStage;
+    application: { candidate_id: UUID; job_id: UUID };
+    context: Omit<TransitionContext, 'hasInterviewFeedback'>;
+  }
+): Promise<PipelineTransitionRule> {
+  const { templateId, from, to, application, context } = params;
+
+  const rules = await getTemplateTransitionRules(client, templateId);
+  const rule = findTransitionRule(rules, from, to);
+
+  const hasInterviewFeedback = rule.required_fields.includes(TransitionRequirement.INTERVIEW_FEEDBACK)
+    ? await hasCompletedInterviewFeedback(client, application.candidate_id, application.job_id)
+    : undefined;
+
+  const check = evaluateTransitionRule(rule, { ...context, hasInterviewFeedback });
+  const details = {
+    fromStageId: from?.id ?? null,
+    toStageId: to.id
+  };
+
+  if (!check.allowed) {
+    throw new AppError(
+      `Applications cannot be moved from ${from?.name ?? 'no stage'} to ${to.name}`,
+      ErrorCode.CONFLICT,
+      details
+    );
+  }
+
+  if (!check.permitted) {
+    throw new AppError(
+      `Your role cannot move applications to ${to.name}`,
+      ErrorCode.FORBIDDEN,
+      { ...details, allowedRoles: rule.allowed_roles }
+    );
+  }
+
+  if (check.missingFields.length || check.unmetConditions.length) {
+    throw new AppError(
+      `Additional information is required to move to ${to.name}`,
+      ErrorCode.VALIDATION_ERROR,
+      {
+        ...details,
+        missingFields: check.missingFields,
+        unmetConditions: check.unmetConditions
+      }
+    );
+  }
+
+  return rule;
+}
@@ -0,0 +1,198 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import { CLOSED_APPLICATION_STATUSES } from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { InterviewMode, InterviewType } from '../../types/interviews';
+import { StageCategory, resolveCandidateStageLabel } from '../../types/pipelines';
+import {
+  PortalApplication,
+  PortalTask,
+  PortalTaskType,
+  RESPONDABLE_INTERVIEW_STATUSES
+} from '../../types/portal';
+import { PublicScreeningQuestion, ScreeningQuestion, screeningAnswersSchema } from '../../types/screening';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { getScreeningQuestions } from '../screening/questions';
+import { evaluateScreeningAnswers, saveScreeningAnswers } from '../screening/answers';
+
+// Outcomes the candidate brought about themselves, shown as they are whatever the stage
+const CANDIDATE_OUTCOME_LABELS: Partial<Record<ApplicationStatus, string>> = {
+  [ApplicationStatus.WITHDRAWN]: 'Withdrawn',
+  [ApplicationStatus.OFFER_DECLINED]: 'Offer declined'
+};
+
+// Category of applications that are not on a pipeline stage, from their status
+const STATUS_CATEGORIES: Record<ApplicationStatus, StageCategory> = {
+  [ApplicationStatus.APPLIED]: StageCategory.SCREENING,
+  [ApplicationStatus.SCREENING]: StageCategory.SCREENING,
+  [ApplicationStatus.INTERVIEWING]: StageCategory.INTERVIEWING,
+  [ApplicationStatus.OFFER_PENDING]: StageCategory.OFFER,
+  [ApplicationStatus.OFFER_ACCEPTED]: StageCategory.HIRED,
+  [ApplicationStatus.OFFER_DECLINED]: StageCategory.REJECTED,
+  [ApplicationStatus.REJECTED]: StageCategory.REJECTED,
+  [ApplicationStatus.WITHDRAWN]: StageCategory.REJECTED
+};
+
+/**
+ * SQL condition matching take-home interviews, with the interviews table aliased as i
+ */
+export const TAKE_HOME_CONDITION = `(i.type = '${InterviewType.TAKE_HOME}' OR i.mode = '${InterviewMode.TAKE_HOME_ASSIGNMENT}')`;
+
+/**
+ * Lists the candidate's applications, most recently updated first. Candidates see the
+ * label recruiters set for each stage, or a default for the stage's category, never the
+ * internal stage name.
+ * @param client - Database client
+ * @param candidateId - Candidate resolved from the account
+ */
+export async function listPortalApplications(
+  client: PoolClient,
+  candidateId: UUID
+): Promise<PortalApplication[]> {
+  const { rows } = await client.query<{
+    id: UUID;
+    job_id: UUID;
+    job_title: string;
+    status: ApplicationStatus;
+    stage_category: StageCategory | null;
+    candidate_label: string | null;
+    applied_at: Date;
+    updated_at: Date;
+  }>(
+    `SELECT a.id, a.job_id, j.title AS job_title, a.status, s.category AS stage_category, s.candidate_label,
+            a.created_at AS applied_at, a.updated_at
+     FROM applications a
+     JOIN jobs j ON j.id = a.job_id
+     LEFT JOIN pipeline_stages s ON s.id = a.stage_id
+     WHERE a.candidate_id = $1
+     ORDER BY a.updated_at DESC`,
+    [candidateId]
+  );
+
+  return rows.map(({ candidate_label, stage_category, ...application }) => {
+    const category = stage_category ?? STATUS_CATEGORIES[application.status];
+    return {
+      ...application,
+      stage_category: category,
+      stage_label: CANDIDATE_OUTCOME_LABELS[application.status] ??
+        resolveCandidateStageLabel({ category, candidate_label })
+    };
+  });
+}
+
+/**
+ * Lists what the candidate still has to do: required screening questions left open on
+ * an application that is still in progress, for instance when it was added by a
+ * recruiter or the job asked more questions later, and take-home assignments not yet
+ * handed in.
+ * @param client - Database client
+ * @param candidateId - Candidate resolved from the account
+ */
+export async function listPortalTasks(client: PoolClient, candidateId: UUID): Promise<PortalTask[]> {
+  const { rows: screening } = await client.query<{
+    application_id: UUID;
+    job_title: string;
+    questions: PublicScreeningQuestion[];
+  }>(
+    `SELECT a.id AS application_id, j.title AS job_title,
+            json_agg(json_build_object(
+              'id', q.id, 'type', q.type, 'prompt', q.prompt, 'options', q.options, 'required', q.required
+            ) ORDER BY q.position) AS questions
+     FROM applications a
+     JOIN jobs j ON j.id = a.job_id
+     JOIN job_screening_questions q ON q.job_id = a.job_id AND q.archived_at IS NULL
+     WHERE a.candidate_id = $1 AND a.status <> ALL($2)
+       AND NOT EXISTS (
+         SELECT 1 FROM application_screening_answers s
+         WHERE s.application_id = a.id AND s.question_id = q.id
+       )
+     GROUP BY a.id, j.title
+     HAVING bool_or(q.required)
+     ORDER BY MIN(a.created_at)`,
+    [candidateId, CLOSED_APPLICATION_STATUSES]
+  );
+
+  const { rows: takeHomes } = await client.query<{
+    interview_id: UUID;
+    job_title: string;
+    due_at: Date;
+    assignment_url: string | null;
+  }>(
+    `SELECT i.id AS interview_id, j.title AS job_title, i.scheduled_at AS due_at, i.meeting_link AS assignment_url
+     FROM interviews i
+     JOIN jobs j ON j.id = i.job_id
+     WHERE i.candidate_id = $1 AND i.status = ANY($2) AND ${TAKE_HOME_CONDITION}
+       AND NOT EXISTS (SELECT 1 FROM take_home_submissions t WHERE t.interview_id = i.id)
+     ORDER BY i.scheduled_at ASC`,
+    [candidateId, RESPONDABLE_INTERVIEW_STATUSES]
+  );
+
+  return [
+    ...screening.map(task => ({ type: PortalTaskType.SCREENING_QUESTIONS as const, ...task })),
+    ...takeHomes.map(task => ({ type: PortalTaskType.TAKE_HOME as const, ...task }))
+  ];
+}
+
+/**
+ * Loads an application of the candidate with the questions its job asks that are still
+ * unanswered, locking it so the same questions are not answered twice
+ * @param client - Database client inside an open transaction
+ * @param candidateId - Candidate resolved from the account
+ * @param applicationId - Application the questions belong to
+ */
+export async function getOpenScreeningQuestions(
+  client: PoolClient,
+  candidateId: UUID,
+  applicationId: UUID
+): Promise<{ jobId: UUID; questions: ScreeningQuestion[] }> {
+  const { rows: [application] } = await client.query<{ job_id: UUID; status: ApplicationStatus }>(
+    'SELECT job_id, status FROM applications WHERE id = $1 AND candidate_id = $2 FOR UPDATE',
+    [applicationId, candidateId]
+  );
+  // Other candidates' applications are reported as missing, not as forbidden
+  if (!application) {
+    throw new AppError('Application not found', ErrorCode.NOT_FOUND);
+  }
+  if (CLOSED_APPLICATION_STATUSES.includes(application.status)) {
+    throw new AppError('Application is closed', ErrorCode.CONFLICT, { status: application.status });
+  }
+
+  const { rows: answered } = await client.query<{ question_id: UUID }>(
+    'SELECT question_id FROM application_screening_answers WHERE application_id = $1',
+    [applicationId]
+  );
+  const answeredIds = new Set(answered.map(answer => answer.question_id));
+  const questions = await getScreeningQuestions(client, application.job_id);
+
+  return {
+    jobId: application.job_id,
+    questions: questions.filter(question => !answeredIds.has(question.id))
+  };
+}
+
+/**
+ * Stores the candidate's answers to the open screening questions of an application;
+ * every required question left open must be answered. Knockout answers are evaluated
+ * and shown to recruiters, but answers given after applying never reject the
+ * application on their own, as it may already have moved on.
+ * @param client - Database client inside an open transaction
+ * @param applicationId - Application the answers are for
+ * @param questions - Open questions returned by getOpenScreeningQuestions
+ * @param answers - Answers given, including the URLs of uploaded answer files
+ * @returns Number of answers stored
+ */
+export async function answerScreeningQuestions(
+  client: PoolClient,
+  applicationId: UUID,
+  questions: ScreeningQuestion[],
+  answers: z.infer<typeof screeningAnswersSchema>
+): Promise<number> {
+  if (!questions.length) {
+    throw new AppError('No screening questions are left to answer', ErrorCode.CONFLICT);
+  }
+
+  const evaluated = evaluateScreeningAnswers(questions, answers, { requireAll: true });
+  await saveScreeningAnswers(client, applicationId, evaluated);
+  return evaluated.length;
+}
@@ -0,0 +1,166 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { InterviewStatus } from '../../types/interviews';
+import {
+  InterviewResponse,
+  PortalInterview,
+  RESPONDABLE_INTERVIEW_STATUSES,
+  TakeHomeSubmission,
+  TakeHomeSubmissionInput
+} from '../../types/portal';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { TAKE_HOME_CONDITION } from './applications';
+
+const PORTAL_INTERVIEW_COLUMNS = `i.id, i.job_id, j.title AS job_title, i.type, i.mode, i.status, i.scheduled_at,
+  i.duration_minutes, i.meeting_link, i.location, i.candidate_confirmed, i.candidate_confirmed_at,
+  i.reschedule_requested_at, i.reschedule_reason, t.submitted_at`;
+
+/**
+ * Lists the candidate's interviews, upcoming ones first
+ * @param client - Database client
+ * @param candidateId - Candidate resolved from the account
+ */
+export async function listPortalInterviews(client: PoolClient, candidateId: UUID): Promise<PortalInterview[]> {
+  const { rows } = await client.query<PortalInterview>(
+    `SELECT ${PORTAL_INTERVIEW_COLUMNS}
+     FROM interviews i
+     JOIN jobs j ON j.id = i.job_id
+     LEFT JOIN take_home_submissions t ON t.interview_id = i.id
+     WHERE i.candidate_id = $1
+     ORDER BY i.scheduled_at >= NOW() DESC, i.scheduled_at ASC`,
+    [candidateId]
+  );
+  return rows;
+}
+
+/**
+ * Locks an interview of the candidate that they can still respond to
+ * @throws AppError NOT_FOUND for interviews of other candidates, CONFLICT once the
+ *   interview is over, cancelled or past
+ */
+async function lockRespondableInterview(
+  client: PoolClient,
+  candidateId: UUID,
+  interviewId: UUID,
+  now: Date
+): Promise<{ status: InterviewStatus; scheduled_at: Date; is_take_home: boolean; created_by: UUID | null }> {
+  const { rows: [interview] } = await client.query<{
+    status: InterviewStatus;
+    scheduled_at: Date;
+    is_take_home: boolean;
+    created_by: UUID | null;
+  }>(
+    `SELECT i.status, i.scheduled_at, ${TAKE_HOME_CONDITION} AS is_take_home, i.created_by
+     FROM interviews i
+     WHERE i.id = $1 AND i.candidate_id = $2
+     FOR UPDATE`,
+    [interviewId, candidateId]
+  );
+  if (!interview) {
+    throw new AppError('Interview not found', ErrorCode.NOT_FOUND);
+  }
+  if (!RESPONDABLE_INTERVIEW_STATUSES.includes(interview.status)) {
+    throw new AppError('Interview can no longer be responded to', ErrorCode.CONFLICT, { status: interview.status });
+  }
+  if (!interview.is_take_home && new Date(interview.scheduled_at) <= now) {
+    throw new AppError('Interview has already taken place', ErrorCode.CONFLICT);
+  }
+  return interview;
+}
+
+/**
+ * Records the candidate's answer to an interview invitation. Confirming withdraws an
+ * earlier reschedule request; asking to reschedule withdraws an earlier confirmation,
+ * and the request stays open until a recruiter moves the interview.
+ * @param client - Database client inside an open transaction
+ * @param candidateId - Candidate resolved from the account
+ * @param interviewId - Interview responded to
+ * @param response - Validated response
+ * @param now - Current time, to reject past interviews and preferred times
+ * @returns The updated interview and the user who scheduled it, to notify
+ */
+export async function respondToInterview(
+  client: PoolClient,
+  candidateId: UUID,
+  interviewId: UUID,
+  response: InterviewResponse,
+  now: Date = new Date()
+): Promise<{ interview: PortalInterview; scheduledBy: UUID | null }> {
+  const current = await lockRespondableInterview(client, candidateId, interviewId, now);
+
+  if (response.action === 'confirm') {
+    await client.query(
+      `UPDATE interviews SET
+         candidate_confirmed = true, candidate_confirmed_at = $2,
+         reschedule_requested_at = NULL, reschedule_reason = NULL, reschedule_preferred_times = NULL,
+         updated_at = NOW()
+       WHERE id = $1`,
+      [interviewId, now]
+    );
+  } else {
+    const pastTimes = response.preferred_times.filter(time => time <= now);
+    if (pastTimes.length) {
+      throw new AppError('Preferred times must be in the future', ErrorCode.BAD_REQUEST, {
+        preferred_times: pastTimes.map(time => time.toISOString())
+      });
+    }
+    await client.query(
+      `UPDATE interviews SET
+         candidate_confirmed = false, candidate_confirmed_at = NULL,
+         reschedule_requested_at = $2, reschedule_reason = $3, reschedule_preferred_times = $4::timestamptz[],
+         updated_at = NOW()
+       WHERE id = $1`,
+      [interviewId, now, response.reason, response.preferred_times]
+    );
+  }
+
+  const { rows: [interview] } = await client.query<PortalInterview>(
+    `SELECT ${PORTAL_INTERVIEW_COLUMNS}
+     FROM interviews i
+     JOIN jobs j ON j.id = i.job_id
+     LEFT JOIN take_home_submissions t ON t.interview_id = i.id
+     WHERE i.id = $1`,
+    [interviewId]
+  );
+  return { interview, scheduledBy: current.created_by };
+}
+
+/**
+ * Hands in a take-home assignment; each assignment is submitted once. Submissions are
+ * accepted after the due time, and recruiters see when they arrived.
+ * @param client - Database client inside an open transaction
+ * @param candidateId - Candidate resolved from the account
+ * @param interviewId - Take-home interview the submission is for
+ * @param submission - Validated link and notes
+ * @param fileUrl - Uploaded submission file, if any
+ * @param now - Current time
+ * @returns The submission and the user who scheduled the assignment, to notify
+ */
+export async function submitTakeHome(
+  client: PoolClient,
+  candidateId: UUID,
+  interviewId: UUID,
+  submission: TakeHomeSubmissionInput,
+  fileUrl: string | null,
+  now: Date = new Date()
+): Promise<{ submission: TakeHomeSubmission; scheduledBy: UUID | null }> {
+  const interview = await lockRespondableInterview(client, candidateId, interviewId, now);
+  if (!interview.is_take_home) {
+    throw new AppError('Interview is not a take-home assignment', ErrorCode.BAD_REQUEST);
+  }
+  if (!fileUrl && !submission.link_url) {
+    throw new AppError('A file or a link is required', ErrorCode.VALIDATION_ERROR);
+  }
+
+  const { rows: [created] } = await client.query<TakeHomeSubmission>(
+    `INSERT INTO take_home_submissions (interview_id, candidate_id, file_url, link_url, notes)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (interview_id) DO NOTHING
+     RETURNING id, interview_id, candidate_id, file_url, link_url, notes, submitted_at`,
+    [interviewId, candidateId, fileUrl, submission.link_url ?? null, submission.notes || null]
+  );
+  if (!created) {
+    throw new AppError('Assignment has already been submitted', ErrorCode.CONFLICT);
+  }
+  return { submission: created, scheduledBy: interview.created_by };
+}
@@ -0,0 +1,89 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { InterviewResponse } from '../../types/portal';
+import { EmailSender } from '../email/sender';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+/**
+ * What the candidate did in the portal that the scheduler of the interview hears about
+ */
+export type PortalInterviewEvent =
+  | { type: 'reschedule_requested'; response: Extract<InterviewResponse, { action: 'reschedule' }> }
+  | { type: 'take_home_submitted' };
+
+/**
+ * Emails the user who scheduled an interview when the candidate asks to move it or hands
+ * in a take-home assignment. Confirmations show on the interview and are not emailed.
+ * Delivery failures are logged.
+ * @param client - Database client
+ * @param interviewId - Interview the candidate acted on
+ * @param scheduledBy - User who scheduled the interview
+ * @param event - What the candidate did
+ * @param correlationId - Correlation id of the request
+ * @returns Whether the email was sent
+ */
+export async function notifyInterviewScheduler(
+  client: PoolClient,
+  interviewId: UUID,
+  scheduledBy: UUID | null,
+  event: PortalInterviewEvent,
+  correlationId: string
+): Promise<boolean> {
+  if (!scheduledBy) return false;
+
+  try {
+    const { rows: [recipient] } = await client.query<{
+      email: string;
+      full_name: string;
+      role: string;
+      candidate_name: string;
+      job_title: string;
+      scheduled_at: Date;
+    }>(
+      `SELECT u.email, u.full_name, u.role, c.full_name AS candidate_name, j.title AS job_title, i.scheduled_at
+       FROM interviews i
+       JOIN candidates c ON c.id = i.candidate_id
+       JOIN jobs j ON j.id = i.job_id
+       JOIN auth.users u ON u.id = $2
+       WHERE i.id = $1`,
+      [interviewId, scheduledBy]
+    );
+    if (!recipient) return false;
+
+    let subject: string;
+    let description: string;
+    if (event.type === 'reschedule_requested') {
+      const times = event.response.preferred_times.map(time => time.toISOString()).join(', ');
+      subject = `${recipient.candidate_name} asked to reschedule their ${recipient.job_title} interview`;
+      description = `${recipient.candidate_name} cannot make the interview for ${recipient.job_title}: ` +
+        `"${event.response.reason}"${times ? `. Preferred times: ${times}` : ''}`;
+    } else {
+      subject = `${recipient.candidate_name} submitted their ${recipient.job_title} take-home assignment`;
+      description = `${recipient.candidate_name} handed in the take-home assignment for ${recipient.job_title}`;
+    }
+
+    const { html, text } = await reminderTemplate.generateActionReminder(
+      {
+        type: event.type,
+        deadline: new Date(recipient.scheduled_at),
+        priority: event.type === 'reschedule_requested' ? 'high' : 'medium',
+        description,
+        actionUrl: `${process.env.APP_URL}/interviews/${interviewId}`
+      },
+      { name: recipient.full_name, email: recipient.email, role: recipient.role }
+    );
+
+    return await emailSender.sendEmail({ to: recipient.email, subject, html, text });
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'notifyInterviewScheduler',
+      interviewId
+    });
+    return false;
+  }
+}
@@ -0,0 +1,195 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { PortalProfile, PortalProfileUpdate, ResumeVersion } from '../../types/portal';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { normalizePhone } from '../candidates/duplicates';
+
+const PROFILE_COLUMNS = 'id, full_name, email, phone, location, skills, preferences, resume_url, updated_at';
+
+/**
+ * Resumes uploaded to the portal, as stored with a new version
+ */
+export interface UploadedResume {
+  url: string;
+  file_name: string;
+  checksum: string | null;
+}
+
+/**
+ * Finds the candidate profile a candidate account owns. On the first visit the account
+ * claims the profile held under its verified email address, so candidates who applied
+ * before signing up see their applications. Accounts linked to a merged duplicate
+ * resolve to the primary profile that took over its data.
+ * @param client - Database client inside an open transaction
+ * @param userId - Candidate account
+ * @returns Identifier of the candidate profile
+ * @throws AppError NOT_FOUND when no profile is linked to or can be claimed by the account
+ */
+export async function resolvePortalCandidate(client: PoolClient, userId: UUID): Promise<UUID> {
+  const { rows: [linked] } = await client.query<{ id: UUID }>(
+    `SELECT COALESCE(c.merged_into_id, c.id) AS id
+     FROM candidates c
+     WHERE c.user_id = $1 AND c.anonymized_at IS NULL`,
+    [userId]
+  );
+  if (linked) return linked.id;
+
+  const { rows: [claimed] } = await client.query<{ id: UUID }>(
+    `UPDATE candidates SET user_id = $1, updated_at = NOW()
+     WHERE id = (
+       SELECT c.id FROM candidates c
+       JOIN auth.users u ON u.id = $1
+       WHERE u.email_verified AND lower(c.email) = lower(u.email)
+         AND c.user_id IS NULL AND c.merged_into_id IS NULL AND c.anonymized_at IS NULL
+       ORDER BY c.created_at ASC
+       LIMIT 1
+       FOR UPDATE OF c
+     )
+     RETURNING id`,
+    [userId]
+  );
+  if (!claimed) {
+    throw new AppError('No candidate profile is linked to this account', ErrorCode.NOT_FOUND);
+  }
+  return claimed.id;
+}
+
+/**
+ * Loads the candidate's own profile
+ * @param client - Database client
+ * @param candidateId - Candidate resolved from the account
+ */
+export async function getPortalProfile(client: PoolClient, candidateId: UUID): Promise<PortalProfile> {
+  const { rows: [profile] } = await client.query<PortalProfile>(
+    `SELECT ${PROFILE_COLUMNS} FROM candidates WHERE id = $1`,
+    [candidateId]
+  );
+  if (!profile) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND);
+  }
+  return profile;
+}
+
+/**
+ * Applies the candidate's changes to their profile. Preferences are merged into those
+ * held, so a partial update keeps the rest; the email address identifies the account
+ * and cannot be changed here.
+ * @param client - Database client inside an open transaction
+ * @param candidateId - Candidate resolved from the account
+ * @param update - Validated profile changes
+ */
+export async function updatePortalProfile(
+  client: PoolClient,
+  candidateId: UUID,
+  update: PortalProfileUpdate
+): Promise<PortalProfile> {
+  const assignments: string[] = [];
+  const values: unknown[] = [candidateId];
+  const assign = (column: string, value: unknown, cast = '') => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}${cast}`);
+  };
+
+  if (update.full_name !== undefined) assign('full_name', update.full_name);
+  if (update.location !== undefined) assign('location', update.location);
+  if (update.skills !== undefined) assign('skills', [...new Set(update.skills)], '::text[]');
+  if (update.phone !== undefined) {
+    assign('phone', update.phone || null);
+    assign('normalized_phone', normalizePhone(update.phone));
+  }
+  if (update.preferences !== undefined) {
+    values.push(JSON.stringify(update.preferences));
+    assignments.push(`preferences = COALESCE(preferences, '{}'::jsonb) || $${values.length}::jsonb`);
+  }
+
+  const { rows: [profile] } = await client.query<PortalProfile>(
+    `UPDATE candidates SET ${assignments.join(', ')}, updated_at = NOW()
+     WHERE id = $1
+     RETURNING ${PROFILE_COLUMNS}`,
+    values
+  );
+  if (!profile) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND);
+  }
+  return profile;
+}
+
+/**
+ * Lists the resumes uploaded for a candidate, latest version first
+ * @param client - Database client
+ * @param candidateId - Candidate resolved from the account
+ */
+export async function listResumeVersions(client: PoolClient, candidateId: UUID): Promise<ResumeVersion[]> {
+  const { rows } = await client.query<ResumeVersion>(
+    `SELECT id, candidate_id, version, file_name, resume_url, uploaded_by, created_at
+     FROM candidate_resume_versions
+     WHERE candidate_id = $1
+     ORDER BY version DESC`,
+    [candidateId]
+  );
+  return rows;
+}
+
+/**
+ * Stores an uploaded resume as the candidate's next version and makes it their current
+ * resume. A resume held from before versions were kept is recorded as the first version
+ * so the history stays complete.
+ * @param client - Database client inside an open transaction
+ * @param candidateId - Candidate resolved from the account
+ * @param resume - Uploaded resume
+ * @param uploadedBy - User who uploaded it
+ */
+export async function addResumeVersion(
+  client: PoolClient,
+  candidateId: UUID,
+  resume: UploadedResume,
+  uploadedBy: UUID
+): Promise<ResumeVersion> {
+  // Locks the candidate so concurrent uploads number their versions in turn
+  const { rows: [candidate] } = await client.query<{
+    resume_url: string | null;
+    resume_checksum: string | null;
+    created_at: Date;
+    latest_version: number | null;
+  }>(
+    `SELECT c.resume_url, c.resume_checksum, c.created_at,
+            (SELECT MAX(version) FROM candidate_resume_versions WHERE candidate_id = c.id) AS latest_version
+     FROM candidates c
+     WHERE c.id = $1
+     FOR UPDATE OF c`,
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND);
+  }
+
+  let version = candidate.latest_version ?? 0;
+  if (version === 0 && candidate.resume_url) {
+    version = 1;
+    await client.query(
+      `INSERT INTO candidate_resume_versions (candidate_id, version, file_name, resume_url, resume_checksum, created_at)
+       VALUES ($1, 1, $2, $3, $4, $5)`,
+      [
+        candidateId,
+        decodeURIComponent(candidate.resume_url.split('?')[0].split('/').pop() || 'resume'),
+        candidate.resume_url,
+        candidate.resume_checksum,
+        candidate.created_at
+      ]
+    );
+  }
+
+  const { rows: [created] } = await client.query<ResumeVersion>(
+    `INSERT INTO candidate_resume_versions (candidate_id, version, file_name, resume_url, resume_checksum, uploaded_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, candidate_id, version, file_name, resume_url, uploaded_by, created_at`,
+    [candidateId, version + 1, resume.file_name, resume.url, resume.checksum, uploadedBy]
+  );
+
+  await client.query(
+    'UPDATE candidates SET resume_url = $2, resume_checksum = $3, updated_at = NOW() WHERE id = $1',
+    [candidateId, resume.url, resume.checksum]
+  );
+
+  return created;
+}
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, UUID } from '../../types/common';
+import {
+  CandidateConsent,
+  CandidateConsentCreate,
+  CandidateConsentUpdate,
+  ConsentSource,
+  LawfulBasis
+} from '../../types/privacy';
+import { AppError } from '../../utils/error-handler';
+
+// Random bytes per token; base64url encodes 18 bytes as 24 characters
+const TOKEN_BYTES = 18;
+
+// Consents the candidate can renew themselves that are about to lapse and whose renewal
+// was not requested yet; $1 is the time of the sweep and $2 the notice in days
+const DUE_FOR_RENEWAL = `
+  cc.lawful_basis = '${LawfulBasis.CONSENT}'
+  AND cc.withdrawn_at IS NULL
+  AND cc.renewal_requested_at IS NULL
+  AND cc.expires_at > $1
+  AND cc.expires_at <= $1 + make_interval(days => $2)
+  AND EXISTS (
+    SELECT 1 FROM candidates c
+    WHERE c.id = cc.candidate_id AND c.anonymized_at IS NULL AND c.merged_into_id IS NULL
+  )`;
+
+/**
+ * Generates an unguessable consent renewal token
+ */
+export function generateRenewalToken(): string {
+  return crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Builds the public link a candidate follows to renew their consent
+ * @param token - Renewal token of the consent
+ * @param baseUrl - Public application URL
+ */
+export function buildRenewalUrl(token: string, baseUrl: string = process.env.APP_URL ?? ''): string {
+  return `${baseUrl}/consent/renew/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Rejects candidates that do not exist, were merged into another profile or were erased
+ */
+async function assertConsentCandidate(client: PoolClient, candidateId: UUID): Promise<void> {
+  const { rows: [candidate] } = await client.query<{ merged_into_id: UUID | null; anonymized: boolean }>(
+    'SELECT merged_into_id, anonymized_at IS NOT NULL AS anonymized FROM candidates WHERE id = $1',
+    [candidateId]
+  );
+  if (!candidate || candidate.anonymized) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+  if (candidate.merged_into_id) {
+    throw new AppError('Candidate was merged into another profile', ErrorCode.BAD_REQUEST, {
+      candidateId,
+      mergedIntoId: candidate.merged_into_id
+    });
+  }
+}
+
+/**
+ * Locks a consent that is still in force for a change
+ */
+async function lockActiveConsent(client: PoolClient, consentId: UUID): Promise<CandidateConsent> {
+  const { rows: [consent] } = await client.query<CandidateConsent>(
+    'SELECT * FROM candidate_consents WHERE id = $1 FOR UPDATE',
+    [consentId]
+  );
+  if (!consent) {
+    throw new AppError('Consent not found', ErrorCode.NOT_FOUND, { consentId });
+  }
+  if (consent.withdrawn_at) {
+    throw new AppError('Consent was withdrawn', ErrorCode.CONFLICT, { consentId });
+  }
+  return consent;
+}
+
+/**
+ * Lists a candidate's consents, those in force first
+ * @param client - Database client
+ * @param candidateId - Candidate the consents were given by
+ */
+export async function listCandidateConsents(client: PoolClient, candidateId: UUID): Promise<CandidateConsent[]> {
+  const { rows } = await client.query<CandidateConsent>(
+    `SELECT * FROM candidate_consents
+     WHERE candidate_id = $1
+     ORDER BY withdrawn_at IS NOT NULL, COALESCE(expires_at, 'infinity') <= NOW(), consented_at DESC`,
+    [candidateId]
+  );
+  return rows;
+}
+
+/**
+ * Records the basis on which a candidate's data is held for a purpose
+ * @param client - Database client
+ * @param candidateId - Candidate giving the consent
+ * @param input - Validated consent
+ * @param recordedBy - User recording it
+ * @throws AppError when the candidate does not exist or already has a consent in force
+ * for the purpose
+ */
+export async function recordConsent(
+  client: PoolClient,
+  candidateId: UUID,
+  input: CandidateConsentCreate,
+  recordedBy: UUID
+): Promise<CandidateConsent> {
+  await assertConsentCandidate(client, candidateId);
+
+  const { rows: [consent] } = await client.query<CandidateConsent>(
+    `INSERT INTO candidate_consents (
+       candidate_id, purpose, lawful_basis, source, consented_at, expires_at, notes, recorded_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (candidate_id, purpose) WHERE withdrawn_at IS NULL DO NOTHING
+     RETURNING *`,
+    [
+      candidateId,
+      input.purpose,
+      input.lawful_basis,
+      input.source,
+      input.consented_at,
+      input.expires_at ?? null,
+      input.notes ?? null,
+      recordedBy
+    ]
+  );
+  if (!consent) {
+    throw new AppError('The candidate already has a consent for this purpose; update or withdraw it', ErrorCode.CONFLICT, {
+      candidateId,
+      purpose: input.purpose
+    });
+  }
+  return consent;
+}
+
+/**
+ * Corrects a consent in force. Moving its expiry makes the candidate due for a new
+ * renewal email.
+ * @param client - Database client
+ * @param consentId - Consent to change
+ * @param update - Validated changes
+ * @throws AppError when the consent does not exist or was withdrawn
+ */
+export async function updateConsent(
+  client: PoolClient,
+  consentId: UUID,
+  update: CandidateConsentUpdate
+): Promise<CandidateConsent> {
+  const consent = await lockActiveConsent(client, consentId);
+  if (update.expires_at && update.expires_at <= new Date(consent.consented_at)) {
+    throw new AppError('Expiry must be after the consent date', ErrorCode.BAD_REQUEST, { consentId });
+  }
+
+  const expiryChanged = update.expires_at !== undefined;
+  const { rows: [updated] } = await client.query<CandidateConsent>(
+    `UPDATE candidate_consents
+     SET lawful_basis = COALESCE($2, lawful_basis),
+         expires_at = CASE WHEN $3 THEN $4::timestamptz ELSE expires_at END,
+         notes = CASE WHEN $5 THEN $6 ELSE notes END,
+         renewal_requested_at = CASE WHEN $3 THEN NULL ELSE renewal_requested_at END
+     WHERE id = $1
+     RETURNING *`,
+    [
+      consentId,
+      update.lawful_basis ?? null,
+      expiryChanged,
+      update.expires_at ?? null,
+      update.notes !== undefined,
+      update.notes ?? null
+    ]
+  );
+  return updated;
+}
+
+/**
+ * Withdraws a consent. The candidate is anonymized on the next retention run unless
+ * another basis keeps their data.
+ * @param client - Database client
+ * @param consentId - Consent to withdraw
+ * @throws AppError when the consent does not exist or was already withdrawn
+ */
+export async function withdrawConsent(client: PoolClient, consentId: UUID): Promise<CandidateConsent> {
+  await lockActiveConsent(client, consentId);
+
+  const { rows: [withdrawn] } = await client.query<CandidateConsent>(
+    `UPDATE candidate_consents
+     SET withdrawn_at = NOW(), renewal_token = NULL
+     WHERE id = $1
+     RETURNING *`,
+    [consentId]
+  );
+  return withdrawn;
+}
+
+/**
+ * Consents that are due for a renewal email, without claiming them
+ * @param client - Database client
+ * @param now - Time of the sweep
+ * @param noticeDays - Days before expiry that candidates are emailed
+ */
+export async function findConsentsDueForRenewal(
+  client: PoolClient,
+  now: Date,
+  noticeDays: number
+): Promise<CandidateConsent[]> {
+  const { rows } = await client.query<CandidateConsent>(
+    `SELECT * FROM candidate_consents cc WHERE ${DUE_FOR_RENEWAL} ORDER BY cc.expires_at`,
+    [now, noticeDays]
+  );
+  return rows;
+}
+
+/**
+ * Claims the consents due for a renewal email and gives each a new renewal token, so
+ * each candidate is emailed once even with several workers running
+ * @param client - Database client
+ * @param now - Time of the sweep
+ * @param noticeDays - Days before expiry that candidates are emailed
+ */
+export async function claimConsentRenewals(
+  client: PoolClient,
+  now: Date,
+  noticeDays: number
+): Promise<CandidateConsent[]> {
+  const { rows } = await client.query<CandidateConsent>(
+    `UPDATE candidate_consents SET renewal_requested_at = $1
+     WHERE id IN (
+       SELECT cc.id FROM candidate_consents cc
+       WHERE ${DUE_FOR_RENEWAL}
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [now, noticeDays]
+  );
+
+  const claimed: CandidateConsent[] = [];
+  for (const consent of rows) {
+    const { rows: [withToken] } = await client.query<CandidateConsent>(
+      'UPDATE candidate_consents SET renewal_token = $2 WHERE id = $1 RETURNING *',
+      [consent.id, generateRenewalToken()]
+    );
+    claimed.push(withToken);
+  }
+  return claimed;
+}
+
+/**
+ * Releases the renewal claim of a consent whose email could not be delivered, so the
+ * next sweep retries it
+ * @param client - Database client
+ * @param consentId - Consent whose email failed
+ */
+export async function releaseConsentRenewal(client: PoolClient, consentId: UUID): Promise<void> {
+  await client.query('UPDATE candidate_consents SET renewal_requested_at = NULL WHERE id = $1', [consentId]);
+}
+
+/**
+ * Renews a consent through the link emailed to the candidate. The consent runs for as
+ * long again as it originally did, counted from now. Following the link again before
+ * the next renewal email changes nothing.
+ * @param client - Database client
+ * @param token - Token from the renewal link
+ * @returns What the candidate consented to and until when
+ * @throws AppError when the link is unknown, or the consent was withdrawn or erased
+ */
+export async function renewConsent(
+  client: PoolClient,
+  token: string
+): Promise<Pick<CandidateConsent, 'purpose' | 'expires_at'>> {
+  const { rows: [consent] } = await client.query<CandidateConsent & { anonymized: boolean }>(
+    `SELECT cc.*, c.anonymized_at IS NOT NULL AS anonymized
+     FROM candidate_consents cc
+     JOIN candidates c ON c.id = cc.candidate_id
+     WHERE cc.renewal_token = $1
+     FOR UPDATE OF cc`,
+    [token]
+  );
+  if (!consent || consent.anonymized) {
+    throw new AppError('Renewal link not found', ErrorCode.NOT_FOUND);
+  }
+  if (consent.withdrawn_at) {
+    throw new AppError('This consent was withdrawn', ErrorCode.CONFLICT);
+  }
+  if (!consent.renewal_requested_at || !consent.expires_at) {
+    return { purpose: consent.purpose, expires_at: consent.expires_at };
+  }
+
+  const { rows: [renewed] } = await client.query<CandidateConsent>(
+    `UPDATE candidate_consents
+     SET expires_at = NOW() + (expires_at - consented_at),
+         consented_at = NOW(),
+         source = $2,
+         renewal_requested_at = NULL
+     WHERE id = $1
+     RETURNING *`,
+    [consent.id, ConsentSource.RENEWAL_LINK]
+  );
+  return { purpose: renewed.purpose, expires_at: renewed.expires_at };
+}
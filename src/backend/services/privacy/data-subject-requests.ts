@@ -0,0 +1,277 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, PaginatedResponse, UUID, createPaginatedResponse } from '../../types/common';
+import {
+  AccessEvidence,
+  DataSubjectRequest,
+  DataSubjectRequestCreate,
+  DataSubjectRequestListQuery,
+  DataSubjectRequestStatus,
+  DataSubjectRequestSummary,
+  DataSubjectRequestType,
+  DataSubjectRequestUpdate,
+  ErasureEvidence,
+  PrivacyRegulation,
+  RESPONSE_DEADLINE_DAYS
+} from '../../types/privacy';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Deadline for answering a request received at the given time
+ * @param regulation - Law the request is made under
+ * @param receivedAt - When the request was received
+ */
+export function responseDueAt(regulation: PrivacyRegulation, receivedAt: Date): Date {
+  return new Date(receivedAt.getTime() + RESPONSE_DEADLINE_DAYS[regulation] * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Finds the candidate a request is about by the email it came from. Merged duplicates
+ * resolve to the profile they were merged into.
+ */
+async function findCandidateByEmail(client: PoolClient, email: string): Promise<UUID | null> {
+  const { rows: [candidate] } = await client.query<{ id: UUID }>(
+    `SELECT COALESCE(merged_into_id, id) AS id
+     FROM candidates
+     WHERE lower(email) = $1 AND anonymized_at IS NULL
+     ORDER BY merged_into_id NULLS FIRST, created_at
+     LIMIT 1`,
+    [email]
+  );
+  return candidate?.id ?? null;
+}
+
+/**
+ * Rejects candidates that do not exist or were merged into another profile
+ */
+async function assertRequestCandidate(client: PoolClient, candidateId: UUID): Promise<void> {
+  const { rows: [candidate] } = await client.query<{ merged_into_id: UUID | null }>(
+    'SELECT merged_into_id FROM candidates WHERE id = $1',
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+  if (candidate.merged_into_id) {
+    throw new AppError('Candidate was merged into another profile', ErrorCode.BAD_REQUEST, {
+      candidateId,
+      mergedIntoId: candidate.merged_into_id
+    });
+  }
+}
+
+/**
+ * Logs a data subject request with its statutory deadline
+ * @param client - Database client
+ * @param input - Validated request
+ * @param createdBy - User logging the request
+ * @throws AppError when the given candidate does not exist
+ */
+export async function createDataSubjectRequest(
+  client: PoolClient,
+  input: DataSubjectRequestCreate,
+  createdBy: UUID
+): Promise<DataSubjectRequest> {
+  if (input.candidate_id) {
+    await assertRequestCandidate(client, input.candidate_id);
+  }
+  const candidateId = input.candidate_id ?? await findCandidateByEmail(client, input.subject_email!);
+  const receivedAt = input.received_at ?? new Date();
+
+  const { rows: [request] } = await client.query<DataSubjectRequest>(
+    `INSERT INTO data_subject_requests (
+       type, regulation, candidate_id, subject_email, received_at, due_at, notes, created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      input.type,
+      input.regulation,
+      candidateId,
+      input.subject_email ?? null,
+      receivedAt,
+      responseDueAt(input.regulation, receivedAt),
+      input.notes ?? null,
+      createdBy
+    ]
+  );
+  return request;
+}
+
+/**
+ * Lists requests, open requests due soonest first
+ * @param client - Database client
+ * @param query - Validated filters and page
+ */
+export async function listDataSubjectRequests(
+  client: PoolClient,
+  query: DataSubjectRequestListQuery
+): Promise<PaginatedResponse<DataSubjectRequestSummary>> {
+  const values: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (query.status) {
+    values.push(query.status);
+    conditions.push(`r.status = $${values.length}`);
+  }
+  if (query.type) {
+    values.push(query.type);
+    conditions.push(`r.type = $${values.length}`);
+  }
+  if (query.overdue !== undefined) {
+    conditions.push(`${query.overdue ? '' : 'NOT '}(r.status = 'OPEN' AND r.due_at < NOW())`);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { rows: [{ total }] } = await client.query<{ total: number }>(
+    `SELECT COUNT(*)::int AS total FROM data_subject_requests r ${where}`,
+    values
+  );
+
+  const { rows } = await client.query<DataSubjectRequestSummary>(
+    `SELECT r.*, c.full_name AS candidate_name, (r.status = 'OPEN' AND r.due_at < NOW()) AS overdue
+     FROM data_subject_requests r
+     LEFT JOIN candidates c ON c.id = r.candidate_id
+     ${where}
+     ORDER BY r.status = 'OPEN' DESC, r.due_at, r.id
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, query.limit, (query.page - 1) * query.limit]
+  );
+
+  return createPaginatedResponse(rows, total, query);
+}
+
+/**
+ * Retrieves a request
+ * @param client - Database client
+ * @param requestId - Request identifier
+ * @param forUpdate - Locks the request for the rest of the transaction
+ * @throws AppError when the request does not exist
+ */
+export async function getDataSubjectRequest(
+  client: PoolClient,
+  requestId: UUID,
+  forUpdate = false
+): Promise<DataSubjectRequest> {
+  const { rows: [request] } = await client.query<DataSubjectRequest>(
+    `SELECT * FROM data_subject_requests WHERE id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+    [requestId]
+  );
+  if (!request) {
+    throw new AppError('Data subject request not found', ErrorCode.NOT_FOUND, { requestId });
+  }
+  return request;
+}
+
+/**
+ * Retrieves an open request of the given type, with the candidate it is about
+ * @throws AppError when the request does not exist, is of another type, is no longer
+ * open or is not linked to a candidate
+ */
+export async function getActionableRequest(
+  client: PoolClient,
+  requestId: UUID,
+  type: DataSubjectRequestType
+): Promise<DataSubjectRequest & { candidate_id: UUID }> {
+  const request = await getDataSubjectRequest(client, requestId, true);
+  if (request.type !== type) {
+    throw new AppError(`This is not ${type === DataSubjectRequestType.ACCESS ? 'an access' : 'an erasure'} request`, ErrorCode.BAD_REQUEST, {
+      requestId,
+      type: request.type
+    });
+  }
+  if (request.status !== DataSubjectRequestStatus.OPEN) {
+    throw new AppError(`Request is already ${request.status.toLowerCase()}`, ErrorCode.CONFLICT, {
+      requestId,
+      status: request.status
+    });
+  }
+  if (!request.candidate_id) {
+    throw new AppError('Link the request to a candidate first', ErrorCode.BAD_REQUEST, { requestId });
+  }
+  return request as DataSubjectRequest & { candidate_id: UUID };
+}
+
+/**
+ * Links an open request to a candidate or edits its notes
+ * @param client - Database client, in a transaction
+ * @param requestId - Request identifier
+ * @param update - Validated changes
+ * @throws AppError when the request is closed or the candidate does not exist
+ */
+export async function updateDataSubjectRequest(
+  client: PoolClient,
+  requestId: UUID,
+  update: DataSubjectRequestUpdate
+): Promise<DataSubjectRequest> {
+  const current = await getDataSubjectRequest(client, requestId, true);
+  if (current.status !== DataSubjectRequestStatus.OPEN) {
+    throw new AppError('Closed requests cannot be changed', ErrorCode.CONFLICT, { requestId, status: current.status });
+  }
+  if (update.candidate_id) {
+    await assertRequestCandidate(client, update.candidate_id);
+  }
+
+  const { rows: [request] } = await client.query<DataSubjectRequest>(
+    `UPDATE data_subject_requests SET candidate_id = $2, notes = $3 WHERE id = $1 RETURNING *`,
+    [
+      requestId,
+      update.candidate_id !== undefined ? update.candidate_id : current.candidate_id,
+      update.notes !== undefined ? update.notes : current.notes
+    ]
+  );
+  return request;
+}
+
+/**
+ * Declines an open request
+ * @param client - Database client, in a transaction
+ * @param requestId - Request identifier
+ * @param reason - Why the request was declined
+ * @param userId - User declining the request
+ * @throws AppError when the request does not exist or is closed
+ */
+export async function rejectDataSubjectRequest(
+  client: PoolClient,
+  requestId: UUID,
+  reason: string,
+  userId: UUID
+): Promise<DataSubjectRequest> {
+  const current = await getDataSubjectRequest(client, requestId, true);
+  if (current.status !== DataSubjectRequestStatus.OPEN) {
+    throw new AppError(`Request is already ${current.status.toLowerCase()}`, ErrorCode.CONFLICT, {
+      requestId,
+      status: current.status
+    });
+  }
+
+  const { rows: [request] } = await client.query<DataSubjectRequest>(
+    `UPDATE data_subject_requests
+     SET status = $2, rejection_reason = $3, completed_at = NOW(), completed_by = $4
+     WHERE id = $1
+     RETURNING *`,
+    [requestId, DataSubjectRequestStatus.REJECTED, reason, userId]
+  );
+  return request;
+}
+
+/**
+ * Closes a request as answered with the evidence of what was done
+ * @param client - Database client, in a transaction
+ * @param requestId - Request identifier
+ * @param evidence - What was exported or erased
+ * @param userId - User who answered the request
+ */
+export async function completeDataSubjectRequest(
+  client: PoolClient,
+  requestId: UUID,
+  evidence: AccessEvidence | ErasureEvidence,
+  userId: UUID
+): Promise<DataSubjectRequest> {
+  const { rows: [request] } = await client.query<DataSubjectRequest>(
+    `UPDATE data_subject_requests
+     SET status = $2, evidence = $3, completed_at = NOW(), completed_by = $4
+     WHERE id = $1
+     RETURNING *`,
+    [requestId, DataSubjectRequestStatus.COMPLETED, JSON.stringify(evidence), userId]
+  );
+  return request;
+}
@@ -0,0 +1,100 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, UUID } from '../../types/common';
+import { CandidateLegalHold } from '../../types/privacy';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * SQL condition true when a hold is in force on the candidate aliased c, the profile
+ * it was merged into, or any duplicate merged into the same profile
+ */
+export const ON_LEGAL_HOLD = `EXISTS (
+  SELECT 1 FROM candidate_legal_holds h
+  JOIN candidates hc ON hc.id = h.candidate_id
+  WHERE h.released_at IS NULL AND COALESCE(hc.merged_into_id, hc.id) = COALESCE(c.merged_into_id, c.id)
+)`;
+
+/**
+ * Lists the holds placed on a candidate, those in force first
+ * @param client - Database client
+ * @param candidateId - Candidate the holds are on
+ */
+export async function listLegalHolds(client: PoolClient, candidateId: UUID): Promise<CandidateLegalHold[]> {
+  const { rows } = await client.query<CandidateLegalHold>(
+    `SELECT * FROM candidate_legal_holds
+     WHERE candidate_id = $1
+     ORDER BY released_at IS NOT NULL, created_at DESC`,
+    [candidateId]
+  );
+  return rows;
+}
+
+/**
+ * Places a hold on a candidate. While it is in force neither a data subject request
+ * nor the retention worker can erase them or delete their resumes.
+ * @param client - Database client
+ * @param candidateId - Candidate to hold
+ * @param reason - Why the data must be kept, e.g. the matter it is kept for
+ * @param placedBy - Admin placing the hold
+ * @throws AppError when the candidate does not exist, was merged or was erased
+ */
+export async function placeLegalHold(
+  client: PoolClient,
+  candidateId: UUID,
+  reason: string,
+  placedBy: UUID
+): Promise<CandidateLegalHold> {
+  const { rows: [candidate] } = await client.query<{ merged_into_id: UUID | null; anonymized: boolean }>(
+    'SELECT merged_into_id, anonymized_at IS NOT NULL AS anonymized FROM candidates WHERE id = $1',
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+  if (candidate.merged_into_id) {
+    throw new AppError('Candidate was merged into another profile', ErrorCode.BAD_REQUEST, {
+      candidateId,
+      mergedIntoId: candidate.merged_into_id
+    });
+  }
+  if (candidate.anonymized) {
+    throw new AppError("The candidate's data has been erased", ErrorCode.CONFLICT, { candidateId });
+  }
+
+  const { rows: [hold] } = await client.query<CandidateLegalHold>(
+    `INSERT INTO candidate_legal_holds (candidate_id, reason, placed_by)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [candidateId, reason, placedBy]
+  );
+  return hold;
+}
+
+/**
+ * Releases a hold in force
+ * @param client - Database client
+ * @param holdId - Hold to release
+ * @param releasedBy - Admin releasing it
+ * @throws AppError when the hold does not exist or was already released
+ */
+export async function releaseLegalHold(
+  client: PoolClient,
+  holdId: UUID,
+  releasedBy: UUID
+): Promise<CandidateLegalHold> {
+  const { rows: [released] } = await client.query<CandidateLegalHold>(
+    `UPDATE candidate_legal_holds
+     SET released_at = NOW(), released_by = $2
+     WHERE id = $1 AND released_at IS NULL
+     RETURNING *`,
+    [holdId, releasedBy]
+  );
+  if (released) {
+    return released;
+  }
+
+  const { rows: [existing] } = await client.query('SELECT id FROM candidate_legal_holds WHERE id = $1', [holdId]);
+  if (!existing) {
+    throw new AppError('Legal hold not found', ErrorCode.NOT_FOUND, { holdId });
+  }
+  throw new AppError('Legal hold was already released', ErrorCode.CONFLICT, { holdId });
+}
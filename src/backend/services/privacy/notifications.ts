@@ -0,0 +1,86 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { CandidateConsent, ConsentPurpose } from '../../types/privacy';
+import { CandidateEmailCategory } from '../../types/timeline';
+import { EmailSender } from '../email/sender';
+import { recordCandidateEmail } from '../email/history';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { emailConfig } from '../../config/email';
+import { logger } from '../../utils/logger';
+import { buildRenewalUrl } from './consents';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+const PURPOSE_DESCRIPTIONS: Record<ConsentPurpose, string> = {
+  [ConsentPurpose.RECRUITMENT]: 'to consider you for the roles you applied to',
+  [ConsentPurpose.TALENT_POOL]: 'to contact you about future openings'
+};
+
+/**
+ * Emails a candidate a link to renew a consent before it expires, and records the email
+ * in their timeline. Delivery failures are logged and reported as false so the caller
+ * can retry later.
+ * @param client - Database client
+ * @param consent - Claimed consent with its renewal token
+ * @param correlationId - Correlation id of the retention run
+ */
+export async function sendConsentRenewalEmail(
+  client: PoolClient,
+  consent: CandidateConsent,
+  correlationId: string
+): Promise<boolean> {
+  try {
+    const { rows: [candidate] } = await client.query<{ full_name: string; email: string }>(
+      'SELECT full_name, email FROM candidates WHERE id = $1',
+      [consent.candidate_id]
+    );
+
+    if (!candidate || !consent.renewal_token || !consent.expires_at) {
+      logger.warn('Consent renewal email skipped', { correlationId, consentId: consent.id });
+      return false;
+    }
+
+    const { html, text } = await reminderTemplate.generateActionReminder(
+      {
+        type: 'consent_renewal',
+        deadline: new Date(consent.expires_at),
+        priority: 'medium',
+        description: `${emailConfig.sender.name} holds your details ${PURPOSE_DESCRIPTIONS[consent.purpose]} with your consent, which expires on the date below. Renew it to stay in our records; otherwise your personal data will be erased.`,
+        actionUrl: buildRenewalUrl(consent.renewal_token)
+      },
+      { name: candidate.full_name, email: candidate.email, role: 'candidate' }
+    );
+
+    const subject = `Please renew your consent to keep your details with ${emailConfig.sender.name}`;
+    const sent = await emailSender.sendEmail({
+      to: candidate.email,
+      subject,
+      html,
+      text
+    });
+    if (!sent) {
+      return false;
+    }
+
+    // The email is out; failing to record it must not get it sent again
+    await recordCandidateEmail(client, {
+      candidate_id: consent.candidate_id,
+      category: CandidateEmailCategory.OTHER,
+      subject,
+      recipient: candidate.email,
+      correlation_id: correlationId
+    }).catch(error => logger.warn('Sent consent renewal email could not be recorded', {
+      correlationId,
+      consentId: consent.id,
+      error
+    }));
+    return true;
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'sendConsentRenewalEmail',
+      consentId: consent.id
+    });
+    return false;
+  }
+}
@@ -0,0 +1,433 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApplicationStatus } from '../../types/candidates';
+import { CLOSED_APPLICATION_STATUSES } from '../../types/applications';
+import { ErrorCode, PaginatedResponse, UUID, createPaginatedResponse } from '../../types/common';
+import {
+  CONSENT_RENEWAL_NOTICE_DAYS,
+  RetentionReason,
+  RetentionReport,
+  RetentionRun,
+  RetentionRunListQuery
+} from '../../types/privacy';
+import { storageConfig } from '../../config/storage';
+import { AppError } from '../../utils/error-handler';
+import { logger } from '../../utils/logger';
+import { FileHandler } from '../storage/file-handler';
+import { ResumeStorage } from '../storage/resume-storage';
+import { claimConsentRenewals, findConsentsDueForRenewal, releaseConsentRenewal } from './consents';
+import { ON_LEGAL_HOLD } from './legal-holds';
+import { sendConsentRenewalEmail } from './notifications';
+import { eraseSubjectData, purgeQueuedFiles } from './subject-data';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Applications in these statuses no longer need the candidate's data; hired candidates
+// count as done too
+const ENDED_APPLICATION_STATUSES: ApplicationStatus[] = [
+  ...CLOSED_APPLICATION_STATUSES,
+  ApplicationStatus.OFFER_ACCEPTED
+];
+
+/**
+ * Settings of a retention run
+ */
+export interface RetentionOptions {
+  dryRun: boolean;
+  now: Date;
+  correlationId: string;
+  noticeDays?: number;
+  retentionDays?: number;
+}
+
+/**
+ * Stores used to purge files
+ */
+export interface RetentionStorage {
+  fileHandler: FileHandler;
+  resumeStorage: ResumeStorage;
+}
+
+/**
+ * Resume in storage past its retention date, with the URLs records refer to it by
+ */
+interface ExpiredResume {
+  candidate_id: UUID;
+  key: string;
+  urls: string[];
+  expired_at: Date;
+}
+
+/**
+ * Profiles to anonymize: those with no consent or other basis in force for any of the
+ * merge family and no application in progress, whose every basis was withdrawn or
+ * lapsed, or who never had one and last applied or were added longer ago than the
+ * retention period. Profiles under a legal hold are returned flagged so they can be
+ * reported.
+ * @param client - Database client
+ * @param now - Time of the run
+ * @param retentionDays - Days candidate data is kept without a basis
+ */
+export async function findCandidatesDueForErasure(
+  client: PoolClient,
+  now: Date,
+  retentionDays: number
+): Promise<Array<{ id: UUID; reason: RetentionReason; on_legal_hold: boolean }>> {
+  const { rows } = await client.query<{ id: UUID; had_consent: boolean; on_legal_hold: boolean }>(
+    `SELECT c.id, f.had_consent, ${ON_LEGAL_HOLD} AS on_legal_hold
+     FROM candidates c
+     CROSS JOIN LATERAL (
+       SELECT
+         EXISTS (SELECT 1 FROM candidate_consents cc WHERE cc.candidate_id = ANY(ids)) AS had_consent,
+         EXISTS (
+           SELECT 1 FROM candidate_consents cc
+           WHERE cc.candidate_id = ANY(ids) AND cc.withdrawn_at IS NULL
+             AND (cc.expires_at IS NULL OR cc.expires_at > $1)
+         ) AS consent_in_force,
+         EXISTS (
+           SELECT 1 FROM applications a
+           WHERE a.candidate_id = ANY(ids) AND a.status <> ALL($2::text[])
+         ) AS in_progress,
+         (SELECT MAX(a.created_at) FROM applications a WHERE a.candidate_id = ANY(ids)) AS last_applied_at
+       FROM (SELECT array_agg(d.id) AS ids FROM candidates d WHERE d.id = c.id OR d.merged_into_id = c.id) family
+     ) f
+     WHERE c.merged_into_id IS NULL
+       AND c.anonymized_at IS NULL
+       AND NOT f.consent_in_force
+       AND NOT f.in_progress
+       AND (f.had_consent OR GREATEST(c.created_at, f.last_applied_at) < $1 - make_interval(days => $3))
+     ORDER BY c.created_at`,
+    [now, ENDED_APPLICATION_STATUSES, retentionDays]
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    reason: row.had_consent ? RetentionReason.CONSENT_EXPIRED : RetentionReason.RETENTION_EXPIRED,
+    on_legal_hold: row.on_legal_hold
+  }));
+}
+
+/**
+ * Resumes of kept candidates whose storage retention date has passed. Only resumes of
+ * profiles and applications older than the retention period can have expired, so only
+ * those are looked up in storage. Files stored without a retention date expire the
+ * retention period after upload.
+ * @param client - Database client
+ * @param now - Time of the run
+ * @param storage - Stores the resumes are kept in
+ * @returns The expired resumes, the candidates whose resumes are held, and the lookups
+ * that failed
+ */
+async function findExpiredResumes(
+  client: PoolClient,
+  now: Date,
+  storage: RetentionStorage
+): Promise<{ expired: ExpiredResume[]; held: UUID[]; failed: RetentionReport['failed'] }> {
+  const retentionDays = storageConfig.buckets.resumes.retentionDays;
+  const { rows } = await client.query<{ candidate_id: UUID; url: string; on_legal_hold: boolean }>(
+    `SELECT c.id AS candidate_id, c.resume_url AS url, ${ON_LEGAL_HOLD} AS on_legal_hold
+     FROM candidates c
+     WHERE c.resume_url IS NOT NULL AND c.anonymized_at IS NULL
+       AND c.created_at < $1 - make_interval(days => $2)
+     UNION
+     SELECT a.candidate_id, a.metadata ->> 'resume_url', ${ON_LEGAL_HOLD}
+     FROM applications a
+     JOIN candidates c ON c.id = a.candidate_id
+     WHERE a.metadata ->> 'resume_url' IS NOT NULL AND c.anonymized_at IS NULL
+       AND a.created_at < $1 - make_interval(days => $2)
+     UNION
+     SELECT v.candidate_id, v.resume_url, ${ON_LEGAL_HOLD}
+     FROM candidate_resume_versions v
+     JOIN candidates c ON c.id = v.candidate_id
+     WHERE c.anonymized_at IS NULL
+       AND v.created_at < $1 - make_interval(days => $2)`,
+    [now, retentionDays]
+  );
+
+  const held = new Set<UUID>();
+  const resumes = new Map<string, Omit<ExpiredResume, 'expired_at'>>();
+  for (const row of rows) {
+    if (row.on_legal_hold) {
+      held.add(row.candidate_id);
+      continue;
+    }
+    const key = storage.fileHandler.getStorageKey('resumes', row.url);
+    if (!key) continue;
+    const resume = resumes.get(key) ?? { candidate_id: row.candidate_id, key, urls: [] };
+    resume.urls.push(row.url);
+    resumes.set(key, resume);
+  }
+
+  const expired: ExpiredResume[] = [];
+  const failed: RetentionReport['failed'] = [];
+  for (const resume of resumes.values()) {
+    try {
+      const { metadata } = await storage.resumeStorage.getResume(resume.key);
+      const expiredAt = metadata.retention?.expiryDate
+        ? new Date(metadata.retention.expiryDate)
+        : new Date(new Date(metadata.created_at).getTime() + retentionDays * DAY_MS);
+      if (expiredAt <= now) {
+        expired.push({ ...resume, expired_at: expiredAt });
+      }
+    } catch (error) {
+      failed.push({ candidate_id: resume.candidate_id, step: 'resume', error: (error as Error).message });
+    }
+  }
+
+  return { expired, held: [...held], failed };
+}
+
+/**
+ * Anonymizes a candidate in its own transaction, so one failure does not undo the rest
+ * of the run
+ * @returns Whether the candidate was anonymized, or found under a hold placed meanwhile
+ */
+async function anonymizeCandidate(
+  client: PoolClient,
+  candidateId: UUID,
+  reason: RetentionReason,
+  fileHandler: FileHandler,
+  correlationId: string
+): Promise<'anonymized' | 'held'> {
+  await client.query('BEGIN');
+  try {
+    const { evidence } = await eraseSubjectData(client, candidateId, fileHandler);
+
+    await client.query(
+      `INSERT INTO audit_logs (
+        entity_type,
+        entity_id,
+        action,
+        user_id,
+        changes,
+        correlation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        'candidate',
+        candidateId,
+        'anonymize',
+        null,
+        JSON.stringify({ reason, ...evidence }),
+        correlationId
+      ]
+    );
+
+    await client.query('COMMIT');
+    return 'anonymized';
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof AppError && error.code === ErrorCode.CONFLICT) {
+      return 'held';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deletes an expired resume and drops the references to it, in its own transaction
+ */
+async function deleteExpiredResume(
+  client: PoolClient,
+  resume: ExpiredResume,
+  resumeStorage: ResumeStorage,
+  correlationId: string
+): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await client.query(
+      'UPDATE candidates SET resume_url = NULL, resume_checksum = NULL WHERE resume_url = ANY($1::text[])',
+      [resume.urls]
+    );
+    await client.query(
+      `UPDATE applications SET metadata = metadata - 'resume_url'
+       WHERE metadata ->> 'resume_url' = ANY($1::text[])`,
+      [resume.urls]
+    );
+    await client.query(
+      'DELETE FROM candidate_resume_versions WHERE resume_url = ANY($1::text[])',
+      [resume.urls]
+    );
+
+    await client.query(
+      `INSERT INTO audit_logs (
+        entity_type,
+        entity_id,
+        action,
+        user_id,
+        changes,
+        correlation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        'candidate',
+        resume.candidate_id,
+        'delete_resume',
+        null,
+        JSON.stringify({ key: resume.key, reason: RetentionReason.RETENTION_EXPIRED, expired_at: resume.expired_at }),
+        correlationId
+      ]
+    );
+
+    await resumeStorage.deleteResume(resume.key);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Enforces consent and retention once:
+ * 1. emails candidates whose consent expires within the notice period a renewal link;
+ * 2. anonymizes candidates whose consent or retention has expired;
+ * 3. purges the files of anonymized candidates, also those an earlier purge failed on;
+ * 4. deletes the resumes of kept candidates past their storage retention date.
+ * Candidates under a legal hold are left alone and reported. A dry run changes and
+ * sends nothing and reports what a real run would do. Failures are reported per
+ * candidate and retried on the next run.
+ * @param client - Database client, outside a transaction
+ * @param options - Run settings
+ * @param storage - Stores the files are kept in
+ */
+export async function enforceRetention(
+  client: PoolClient,
+  options: RetentionOptions,
+  storage: RetentionStorage
+): Promise<RetentionReport> {
+  const { dryRun, now, correlationId } = options;
+  const report: RetentionReport = {
+    dry_run: dryRun,
+    evaluated_at: now.toISOString(),
+    renewal_requests: [],
+    anonymized: [],
+    resumes_deleted: [],
+    files_purged: 0,
+    held: [],
+    failed: []
+  };
+  const held = new Set<UUID>();
+  const noticeDays = options.noticeDays ?? CONSENT_RENEWAL_NOTICE_DAYS;
+
+  const consents = dryRun
+    ? await findConsentsDueForRenewal(client, now, noticeDays)
+    : await claimConsentRenewals(client, now, noticeDays);
+  for (const consent of consents) {
+    const sent = !dryRun && await sendConsentRenewalEmail(client, consent, correlationId);
+    if (!dryRun && !sent) {
+      await releaseConsentRenewal(client, consent.id);
+      report.failed.push({ candidate_id: consent.candidate_id, step: 'renewal', error: 'Email could not be sent' });
+      continue;
+    }
+    report.renewal_requests.push({
+      consent_id: consent.id,
+      candidate_id: consent.candidate_id,
+      expires_at: new Date(consent.expires_at!).toISOString(),
+      sent
+    });
+  }
+
+  const candidates = await findCandidatesDueForErasure(
+    client,
+    now,
+    options.retentionDays ?? storageConfig.buckets.resumes.retentionDays
+  );
+  for (const candidate of candidates) {
+    if (candidate.on_legal_hold) {
+      held.add(candidate.id);
+      continue;
+    }
+    if (dryRun) {
+      report.anonymized.push({ candidate_id: candidate.id, reason: candidate.reason });
+      continue;
+    }
+    try {
+      const outcome = await anonymizeCandidate(client, candidate.id, candidate.reason, storage.fileHandler, correlationId);
+      if (outcome === 'held') {
+        held.add(candidate.id);
+      } else {
+        report.anonymized.push({ candidate_id: candidate.id, reason: candidate.reason });
+      }
+    } catch (error) {
+      logger.error(error as Error, { correlationId, context: 'enforceRetention', candidateId: candidate.id });
+      report.failed.push({ candidate_id: candidate.id, step: 'anonymize', error: (error as Error).message });
+    }
+  }
+
+  // Files that still cannot be purged stay queued for the next run
+  if (!dryRun) {
+    try {
+      const purge = await purgeQueuedFiles(client, storage.fileHandler);
+      report.files_purged = purge.purged;
+      if (purge.failed) {
+        logger.warn('Files could not be purged', { correlationId, failed: purge.failed });
+      }
+    } catch (error) {
+      logger.error(error as Error, { correlationId, context: 'enforceRetention' });
+      report.failed.push({ candidate_id: null, step: 'purge', error: (error as Error).message });
+    }
+  }
+
+  // In a dry run the candidates due for anonymization still hold their resumes
+  const anonymized = new Set(report.anonymized.map(entry => entry.candidate_id));
+  const resumes = await findExpiredResumes(client, now, storage);
+  resumes.held.forEach(candidateId => held.add(candidateId));
+  report.failed.push(...resumes.failed);
+  for (const resume of resumes.expired) {
+    if (anonymized.has(resume.candidate_id)) continue;
+    try {
+      if (!dryRun) {
+        await deleteExpiredResume(client, resume, storage.resumeStorage, correlationId);
+      }
+      report.resumes_deleted.push({
+        candidate_id: resume.candidate_id,
+        key: resume.key,
+        expired_at: resume.expired_at.toISOString()
+      });
+    } catch (error) {
+      logger.error(error as Error, { correlationId, context: 'enforceRetention', key: resume.key });
+      report.failed.push({ candidate_id: resume.candidate_id, step: 'resume', error: (error as Error).message });
+    }
+  }
+
+  report.held = [...held];
+  return report;
+}
+
+/**
+ * Stores the report of a retention run
+ * @param client - Database client
+ * @param report - Report of the run
+ * @param startedAt - When the run started
+ * @param triggeredBy - Admin who started the run, or null for scheduled runs
+ */
+export async function saveRetentionRun(
+  client: PoolClient,
+  report: RetentionReport,
+  startedAt: Date,
+  triggeredBy: UUID | null
+): Promise<RetentionRun> {
+  const { rows: [run] } = await client.query<RetentionRun>(
+    `INSERT INTO retention_runs (dry_run, started_at, completed_at, report, triggered_by)
+     VALUES ($1, $2, NOW(), $3, $4)
+     RETURNING *`,
+    [report.dry_run, startedAt, JSON.stringify(report), triggeredBy]
+  );
+  return run;
+}
+
+/**
+ * Lists retention runs, latest first
+ * @param client - Database client
+ * @param query - Validated page
+ */
+export async function listRetentionRuns(
+  client: PoolClient,
+  query: RetentionRunListQuery
+): Promise<PaginatedResponse<RetentionRun>> {
+  const { rows: [{ total }] } = await client.query<{ total: number }>(
+    'SELECT COUNT(*)::int AS total FROM retention_runs'
+  );
+  const { rows } = await client.query<RetentionRun>(
+    'SELECT * FROM retention_runs ORDER BY started_at DESC, id LIMIT $1 OFFSET $2',
+    [query.limit, (query.page - 1) * query.limit]
+  );
+  return createPaginatedResponse(rows, total, query);
+}
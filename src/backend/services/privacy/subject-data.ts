@@ -0,0 +1,378 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import JSZip from 'jszip'; // ^3.10.1
+import { ErrorCode, UUID } from '../../types/common';
+import { AccessEvidence, ErasureEvidence } from '../../types/privacy';
+import { ScreeningQuestionType } from '../../types/screening';
+import { AppError } from '../../utils/error-handler';
+import { FileHandler } from '../storage/file-handler';
+import { ON_LEGAL_HOLD } from './legal-holds';
+
+/**
+ * Name shown for erased candidates
+ */
+export const ANONYMIZED_NAME = 'Anonymized candidate';
+
+// Placeholder for free text that was erased but whose column cannot be empty
+const REDACTED = '[redacted]';
+
+// Files purged from storage per call of purgeQueuedFiles
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Records held on a person, by section of the access bundle. Each query selects the
+ * records of the candidates in $1.
+ */
+const SUBJECT_DATA_QUERIES: Record<string, string> = {
+  profiles: `SELECT id, full_name, email, phone, location, status, experience_level, skills, experience,
+                    education, preferences, resume_url, merged_into_id, created_at, updated_at
+             FROM candidates WHERE id = ANY($1::uuid[])`,
+  work_experience: 'SELECT * FROM candidate_work_experience WHERE candidate_id = ANY($1::uuid[])',
+  education: 'SELECT * FROM candidate_education WHERE candidate_id = ANY($1::uuid[])',
+  job_preferences: 'SELECT * FROM candidate_preferences WHERE candidate_id = ANY($1::uuid[])',
+  applications: `SELECT a.id, a.candidate_id, a.job_id, j.title AS job_title, a.status, a.stage_history, a.metadata,
+                        a.created_at, a.updated_at
+                 FROM applications a JOIN jobs j ON j.id = a.job_id
+                 WHERE a.candidate_id = ANY($1::uuid[])`,
+  screening_answers: `SELECT s.application_id, q.prompt AS question, s.value, s.knockout_passed, s.created_at
+                      FROM application_screening_answers s
+                      JOIN applications a ON a.id = s.application_id
+                      JOIN job_screening_questions q ON q.id = s.question_id
+                      WHERE a.candidate_id = ANY($1::uuid[])`,
+  interviews: `SELECT id, candidate_id, job_id, type, mode, status, scheduled_at, duration_minutes, location,
+                      meeting_link, notes, created_at
+               FROM interviews WHERE candidate_id = ANY($1::uuid[])`,
+  interview_feedback: `SELECT f.id, f.interview_id, f.overall_rating, f.strengths, f.weaknesses, f.notes,
+                              f.hire_recommendation, f.additional_feedback, f.created_at
+                       FROM interview_feedback f JOIN interviews i ON i.id = f.interview_id
+                       WHERE i.candidate_id = ANY($1::uuid[])`,
+  offers: `SELECT id, application_id, job_id, status, base_salary, bonus, equity, currency, start_date,
+                  expires_at, notes, sent_at, responded_at, response_reason, created_at
+           FROM offers WHERE candidate_id = ANY($1::uuid[])`,
+  notes: `SELECT id, candidate_id, application_id, body_text, visibility, created_at, edited_at
+          FROM candidate_notes WHERE candidate_id = ANY($1::uuid[])`,
+  emails: `SELECT id, application_id, category, subject, recipient, created_at
+           FROM candidate_emails WHERE candidate_id = ANY($1::uuid[])`,
+  referrals: `SELECT id, job_id, application_id, origin, relationship, note, hired_at, created_at
+              FROM referrals WHERE candidate_id = ANY($1::uuid[])`,
+  sources: `SELECT channel, sub_source, occurred_at, utm_source, utm_medium, utm_campaign, utm_term, utm_content,
+                   referrer_url
+            FROM source_touchpoints WHERE candidate_id = ANY($1::uuid[])`,
+  hotlists: `SELECT h.name AS hotlist, m.notes, m.status, m.added_at
+             FROM hotlist_members m JOIN hotlists h ON h.id = m.hotlist_id
+             WHERE m.candidate_id = ANY($1::uuid[])`,
+  tags: `SELECT t.name, t.category, ct.added_at
+         FROM candidate_tags ct JOIN tags t ON t.id = ct.tag_id
+         WHERE ct.candidate_id = ANY($1::uuid[])`,
+  consents: `SELECT purpose, lawful_basis, source, consented_at, expires_at, withdrawn_at, notes
+             FROM candidate_consents WHERE candidate_id = ANY($1::uuid[])`,
+  resume_versions: `SELECT version, file_name, resume_url, created_at
+                    FROM candidate_resume_versions WHERE candidate_id = ANY($1::uuid[])`,
+  take_home_submissions: `SELECT interview_id, file_url, link_url, notes, submitted_at
+                          FROM take_home_submissions WHERE candidate_id = ANY($1::uuid[])`
+};
+
+/**
+ * The candidate and the duplicates merged into it, which hold data on the same person
+ * @throws AppError when the candidate does not exist
+ */
+export async function getSubjectCandidateIds(client: PoolClient, candidateId: UUID): Promise<UUID[]> {
+  const { rows } = await client.query<{ id: UUID }>(
+    'SELECT id FROM candidates WHERE id = $1 OR merged_into_id = $1 ORDER BY merged_into_id NULLS FIRST, id',
+    [candidateId]
+  );
+  if (!rows.length) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+  return rows.map(row => row.id);
+}
+
+/**
+ * File a candidate uploaded, with the URL records refer to it by
+ */
+export interface SubjectFile {
+  bucket: 'resumes' | 'documents';
+  key: string;
+  url: string;
+}
+
+/**
+ * Every resume and resume version, every file attached to a screening answer, and every
+ * take-home file uploaded for the candidates. Resumes are kept in the resumes bucket,
+ * the other files in documents.
+ * @param client - Database client
+ * @param candidateIds - Candidate and merged duplicates
+ * @param fileHandler - Storage the files are kept in
+ */
+export async function getSubjectFiles(
+  client: PoolClient,
+  candidateIds: UUID[],
+  fileHandler: FileHandler
+): Promise<SubjectFile[]> {
+  const { rows } = await client.query<{ url: string; bucket: SubjectFile['bucket'] }>(
+    `SELECT resume_url AS url, 'resumes' AS bucket FROM candidates
+     WHERE id = ANY($1::uuid[]) AND resume_url IS NOT NULL
+     UNION
+     SELECT metadata ->> 'resume_url', 'resumes' FROM applications
+     WHERE candidate_id = ANY($1::uuid[]) AND metadata ->> 'resume_url' IS NOT NULL
+     UNION
+     SELECT s.value #>> '{}', 'documents'
+     FROM application_screening_answers s
+     JOIN applications a ON a.id = s.application_id
+     JOIN job_screening_questions q ON q.id = s.question_id
+     WHERE a.candidate_id = ANY($1::uuid[]) AND q.type = $2 AND jsonb_typeof(s.value) = 'string'
+     UNION
+     SELECT resume_url, 'resumes' FROM candidate_resume_versions
+     WHERE candidate_id = ANY($1::uuid[])
+     UNION
+     SELECT file_url, 'documents' FROM take_home_submissions
+     WHERE candidate_id = ANY($1::uuid[]) AND file_url IS NOT NULL`,
+    [candidateIds, ScreeningQuestionType.FILE]
+  );
+
+  const files = new Map<string, SubjectFile>();
+  for (const { url, bucket } of rows) {
+    const key = fileHandler.getStorageKey(bucket, url);
+    if (key && !files.has(`${bucket}/${key}`)) {
+      files.set(`${bucket}/${key}`, { bucket, key, url });
+    }
+  }
+  return [...files.values()];
+}
+
+/**
+ * Contents of a stored file
+ */
+async function downloadSubjectFile(fileHandler: FileHandler, file: SubjectFile): Promise<ArrayBuffer> {
+  const { url } = await fileHandler.generateSignedUrl(file.bucket, file.key);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`File download failed with status ${response.status}`);
+  }
+  return response.arrayBuffer();
+}
+
+/**
+ * Builds the machine-readable bundle of everything held on a person: a data.json file
+ * with their profile and every record about them, and the resumes and files they
+ * uploaded under files/.
+ * @param client - Database client
+ * @param candidateId - Candidate the request is about
+ * @param fileHandler - Storage the files are kept in
+ * @returns The zip archive and the evidence of what it holds
+ * @throws AppError when the candidate does not exist or was erased
+ */
+export async function buildSubjectDataBundle(
+  client: PoolClient,
+  candidateId: UUID,
+  fileHandler: FileHandler
+): Promise<{ archive: Uint8Array; evidence: AccessEvidence }> {
+  const candidateIds = await getSubjectCandidateIds(client, candidateId);
+  const { rows: [{ anonymized }] } = await client.query<{ anonymized: boolean }>(
+    'SELECT anonymized_at IS NOT NULL AS anonymized FROM candidates WHERE id = $1',
+    [candidateId]
+  );
+  if (anonymized) {
+    throw new AppError("The candidate's data has been erased", ErrorCode.CONFLICT, { candidateId });
+  }
+
+  const exportedAt = new Date().toISOString();
+  const data: Record<string, unknown> = { exported_at: exportedAt, candidate_id: candidateId };
+  const records: Record<string, number> = {};
+  for (const [section, query] of Object.entries(SUBJECT_DATA_QUERIES)) {
+    const { rows } = await client.query(query, [candidateIds]);
+    data[section] = rows;
+    records[section] = rows.length;
+  }
+
+  const archive = new JSZip();
+  const files: { url: string; path: string }[] = [];
+  for (const file of await getSubjectFiles(client, candidateIds, fileHandler)) {
+    const path = `files/${file.bucket}/${file.key.split('/').pop()}`;
+    archive.file(path, await downloadSubjectFile(fileHandler, file));
+    files.push({ url: file.url, path });
+  }
+  data.files = files;
+  archive.file('data.json', JSON.stringify(data, null, 2));
+
+  return {
+    archive: await archive.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }),
+    evidence: { exported_at: exportedAt, candidate_ids: candidateIds, records, files: files.length }
+  };
+}
+
+/**
+ * Erases a person's personal data in place. Profiles keep their status, experience
+ * level, skills and dates, and applications, interviews, offers and emails keep their
+ * outcomes and timestamps, so hiring metrics stay intact; names, contact details, free
+ * text and uploaded files are removed. Storage is not part of the transaction, so the
+ * resumes and files they uploaded are only queued for purging here; pass the returned
+ * purge ids to purgeQueuedFiles once the transaction commits.
+ * @param client - Database client, in a transaction
+ * @param candidateId - Candidate to erase, with the duplicates merged into it
+ * @param fileHandler - Storage the files are kept in
+ * @returns Evidence of the erasure, without personal data, and the queued file purges
+ * @throws AppError when the candidate does not exist, was merged into another profile or
+ * is under a legal hold
+ */
+export async function eraseSubjectData(
+  client: PoolClient,
+  candidateId: UUID,
+  fileHandler: FileHandler
+): Promise<{ evidence: ErasureEvidence; purgeIds: UUID[] }> {
+  const { rows: [candidate] } = await client.query<{ merged_into_id: UUID | null; on_legal_hold: boolean }>(
+    `SELECT c.merged_into_id, ${ON_LEGAL_HOLD} AS on_legal_hold FROM candidates c WHERE c.id = $1 FOR UPDATE`,
+    [candidateId]
+  );
+  if (!candidate) {
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, { candidateId });
+  }
+  if (candidate.merged_into_id) {
+    throw new AppError('Candidate was merged into another profile', ErrorCode.BAD_REQUEST, {
+      candidateId,
+      mergedIntoId: candidate.merged_into_id
+    });
+  }
+  if (candidate.on_legal_hold) {
+    throw new AppError('Candidate is under a legal hold', ErrorCode.CONFLICT, { candidateId });
+  }
+
+  const candidateIds = await getSubjectCandidateIds(client, candidateId);
+  const files = await getSubjectFiles(client, candidateIds, fileHandler);
+  const records: Record<string, number> = {};
+  const run = async (section: string, query: string) => {
+    const { rowCount } = await client.query(query, [candidateIds]);
+    records[section] = rowCount ?? 0;
+  };
+
+  await run('profiles', `UPDATE candidates
+    SET full_name = '${ANONYMIZED_NAME}', email = 'erased+' || id || '@anonymized.invalid', phone = NULL,
+        location = '${REDACTED}', experience = '[]', education = '[]', preferences = '{}', resume_url = NULL,
+        normalized_email = NULL, normalized_phone = NULL, resume_checksum = NULL, profile_embedding = NULL, match_scores = '{}',
+        metadata = NULL, user_id = NULL, anonymized_at = COALESCE(anonymized_at, NOW()), updated_at = NOW()
+    WHERE id = ANY($1::uuid[])`);
+  await run('work_experience', 'DELETE FROM candidate_work_experience WHERE candidate_id = ANY($1::uuid[])');
+  await run('education', 'DELETE FROM candidate_education WHERE candidate_id = ANY($1::uuid[])');
+  await run('job_preferences', 'DELETE FROM candidate_preferences WHERE candidate_id = ANY($1::uuid[])');
+  await run('applications', `UPDATE applications
+    SET metadata = metadata - 'resume_url' - 'cover_letter', updated_at = NOW()
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('screening_answers', `UPDATE application_screening_answers
+    SET value = to_jsonb('${REDACTED}'::text)
+    WHERE application_id IN (SELECT id FROM applications WHERE candidate_id = ANY($1::uuid[]))`);
+  await run('interviews', `UPDATE interviews
+    SET notes = NULL, meeting_link = NULL, location = NULL, reschedule_reason = NULL, reschedule_preferred_times = NULL,
+        updated_at = NOW()
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('interview_feedback', `UPDATE interview_feedback
+    SET strengths = NULL, weaknesses = NULL, notes = NULL, additional_feedback = NULL, updated_at = NOW()
+    WHERE interview_id IN (SELECT id FROM interviews WHERE candidate_id = ANY($1::uuid[]))`);
+  await run('offers', `UPDATE offers
+    SET notes = NULL, response_reason = NULL, updated_at = NOW()
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('notes', 'DELETE FROM candidate_notes WHERE candidate_id = ANY($1::uuid[])');
+  await run('emails', `UPDATE candidate_emails
+    SET subject = '${REDACTED}', recipient = '${REDACTED}'
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('referrals', `UPDATE referrals
+    SET relationship = NULL, note = NULL, updated_at = NOW()
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('sources', `UPDATE source_touchpoints
+    SET utm_term = NULL, utm_content = NULL, referrer_url = NULL
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('hotlists', `UPDATE hotlist_members
+    SET notes = NULL, metadata = '{}', updated_at = NOW()
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('tags', 'DELETE FROM candidate_tags WHERE candidate_id = ANY($1::uuid[])');
+  await run('consents', `UPDATE candidate_consents
+    SET notes = NULL, renewal_token = NULL, updated_at = NOW()
+    WHERE candidate_id = ANY($1::uuid[])`);
+  await run('resume_versions', 'DELETE FROM candidate_resume_versions WHERE candidate_id = ANY($1::uuid[])');
+  await run('take_home_submissions', 'DELETE FROM take_home_submissions WHERE candidate_id = ANY($1::uuid[])');
+  await run('import_rows', `UPDATE candidate_import_rows SET data = '{}' WHERE candidate_id = ANY($1::uuid[])`);
+  await run('merge_snapshots', `UPDATE candidate_merges
+    SET merged_snapshot = '{}'
+    WHERE primary_candidate_id = ANY($1::uuid[]) OR merged_candidate_id = ANY($1::uuid[])`);
+  await run('requests', 'UPDATE data_subject_requests SET subject_email = NULL WHERE candidate_id = ANY($1::uuid[])');
+
+  // Audit entries keep which fields changed but not their values
+  await run('audit_logs', `UPDATE audit_logs
+    SET changes = CASE WHEN jsonb_typeof(changes) = 'object'
+      THEN (SELECT COALESCE(jsonb_object_agg(field, '${REDACTED}'), '{}') FROM jsonb_object_keys(changes) AS field)
+      ELSE NULL
+    END
+    WHERE entity_type = 'candidate' AND entity_id = ANY($1::uuid[])`);
+
+  // Row snapshots written by the change log triggers, including those of this erasure
+  await run('change_log', `UPDATE audit.change_log
+    SET old_data = CASE WHEN old_data IS NULL THEN NULL ELSE jsonb_build_object('id', old_data -> 'id', 'redacted', true) END,
+        new_data = CASE WHEN new_data IS NULL THEN NULL ELSE jsonb_build_object('id', new_data -> 'id', 'redacted', true) END
+    WHERE (table_name = 'candidates' AND COALESCE(new_data, old_data) ->> 'id' = ANY($1::text[]))
+       OR COALESCE(new_data, old_data) ->> 'candidate_id' = ANY($1::text[])
+       OR (table_name = 'candidate_merges' AND (
+         COALESCE(new_data, old_data) ->> 'primary_candidate_id' = ANY($1::text[])
+         OR COALESCE(new_data, old_data) ->> 'merged_candidate_id' = ANY($1::text[])
+       ))`);
+
+  // Rolled back with the records when the erasure fails, so no file goes before its record
+  const { rows: purges } = files.length
+    ? await client.query<{ id: UUID }>(
+      `INSERT INTO file_purges (bucket, storage_key)
+       SELECT * FROM unnest($1::text[], $2::text[])
+       ON CONFLICT (bucket, storage_key) DO UPDATE SET updated_at = NOW()
+       RETURNING id`,
+      [files.map(file => file.bucket), files.map(file => file.key)]
+    )
+    : { rows: [] };
+
+  return {
+    evidence: {
+      erased_at: new Date().toISOString(),
+      candidate_ids: candidateIds,
+      records,
+      files_to_purge: files.length
+    },
+    purgeIds: purges.map(purge => purge.id)
+  };
+}
+
+/**
+ * Purges queued files from storage. Files never tried come first, then those whose last
+ * attempt is oldest, so files that keep failing do not hold up the rest of the queue. A
+ * file that cannot be purged stays queued with the error; the retention worker works
+ * through the queue on every run.
+ * @param client - Database client, outside a transaction
+ * @param fileHandler - Storage the files are kept in
+ * @param options - Queued purges to limit the call to, and the most files to purge
+ * @returns How many files were purged and how many failed
+ */
+export async function purgeQueuedFiles(
+  client: PoolClient,
+  fileHandler: FileHandler,
+  options: { ids?: UUID[]; limit?: number } = {}
+): Promise<{ purged: number; failed: number }> {
+  const { rows } = await client.query<{ id: UUID; bucket: SubjectFile['bucket']; storage_key: string }>(
+    `SELECT id, bucket, storage_key FROM file_purges
+     WHERE $1::uuid[] IS NULL OR id = ANY($1::uuid[])
+     ORDER BY last_attempted_at NULLS FIRST, created_at
+     LIMIT $2`,
+    [options.ids ?? null, options.limit ?? options.ids?.length ?? PURGE_BATCH_SIZE]
+  );
+
+  let purged = 0;
+  for (const file of rows) {
+    try {
+      await fileHandler.deleteFile(file.bucket, file.storage_key);
+      await client.query('DELETE FROM file_purges WHERE id = $1', [file.id]);
+      purged++;
+    } catch (error) {
+      await client.query(
+        `UPDATE file_purges
+         SET attempts = attempts + 1, last_error = $2, last_attempted_at = NOW()
+         WHERE id = $1`,
+        [file.id, (error as Error).message]
+      );
+    }
+  }
+
+  return { purged, failed: rows.length - purged };
+}
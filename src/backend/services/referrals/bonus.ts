@@ -0,0 +1,68 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import { ApplicationStatus } from '../../types/candidates';
+import {
+  REFERRAL_BONUS_WAITING_DAYS,
+  ReferralBonusEntry,
+  referralBonusReportParamsSchema
+} from '../../types/referrals';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Works out whether a referred hire qualifies its referrer for a bonus: the hire must
+ * have stayed hired for the whole waiting period
+ * @param hiredAt - When the referred candidate accepted the offer
+ * @param stillHired - Whether the application is still in the hired status
+ * @param now - Time of the evaluation
+ */
+export function evaluateBonusEligibility(
+  hiredAt: Date,
+  stillHired: boolean,
+  now: Date = new Date()
+): { eligible_on: Date; eligible: boolean } {
+  const eligibleOn = new Date(new Date(hiredAt).getTime() + REFERRAL_BONUS_WAITING_DAYS * DAY_MS);
+  return {
+    eligible_on: eligibleOn,
+    eligible: stillHired && eligibleOn.getTime() <= now.getTime()
+  };
+}
+
+/**
+ * Lists hired referrals with their bonus eligibility, most recent hires first
+ * @param client - Database client
+ * @param params - Optional hire period and whether to keep eligible referrals only
+ */
+export async function getReferralBonusReport(
+  client: PoolClient,
+  params: z.infer<typeof referralBonusReportParamsSchema>
+): Promise<ReferralBonusEntry[]> {
+  const { rows } = await client.query<Omit<ReferralBonusEntry, 'eligible_on' | 'eligible'>>(
+    `SELECT r.id AS referral_id,
+            r.referrer_id,
+            u.full_name AS referrer_name,
+            u.email AS referrer_email,
+            c.full_name AS candidate_name,
+            j.title AS job_title,
+            r.hired_at,
+            a.status = $3 AS still_hired
+     FROM referrals r
+     JOIN auth.users u ON u.id = r.referrer_id
+     JOIN applications a ON a.id = r.application_id
+     JOIN candidates c ON c.id = r.candidate_id
+     JOIN jobs j ON j.id = r.job_id
+     WHERE r.hired_at IS NOT NULL
+       AND ($1::timestamptz IS NULL OR r.hired_at >= $1)
+       AND ($2::timestamptz IS NULL OR r.hired_at <= $2)
+     ORDER BY r.hired_at DESC`,
+    [params.hired_from ?? null, params.hired_to ?? null, ApplicationStatus.OFFER_ACCEPTED]
+  );
+
+  const now = new Date();
+  const entries = rows.map(row => ({
+    ...row,
+    ...evaluateBonusEligibility(row.hired_at, row.still_hired, now)
+  }));
+
+  return params.eligible_only ? entries.filter(entry => entry.eligible) : entries;
+}
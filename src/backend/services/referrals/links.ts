@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg'; // ^8.11.0
+import { JobStatus } from '../../types/jobs';
+import { ReferralLink } from '../../types/referrals';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { buildCareerJobUrl } from '../careers/jobs';
+
+// Random bytes per token; base64url encodes 18 bytes as 24 characters
+const TOKEN_BYTES = 18;
+
+/**
+ * Generates an unguessable referral link token
+ */
+export function generateReferralToken(): string {
+  return crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Builds the shareable URL of a referral link, which opens the job on the public
+ * careers site
+ * @param link - Referral link
+ * @param baseUrl - Public application URL
+ */
+export function buildReferralUrl(
+  link: Pick<ReferralLink, 'job_id' | 'token'>,
+  baseUrl: string = process.env.APP_URL ?? ''
+): string {
+  return `${buildCareerJobUrl(link.job_id, baseUrl)}?ref=${encodeURIComponent(link.token)}`;
+}
+
+/**
+ * Returns the employee's referral link for a job, creating it on first use. Links can
+ * only be created for published jobs.
+ * @param client - Database client
+ * @param referrerId - Employee sharing the link
+ * @param jobId - Job the link points to
+ */
+export async function getOrCreateReferralLink(
+  client: PoolClient,
+  referrerId: UUID,
+  jobId: UUID
+): Promise<ReferralLink> {
+  const { rows: [job] } = await client.query<{ status: JobStatus }>(
+    'SELECT status FROM jobs WHERE id = $1',
+    [jobId]
+  );
+  if (!job) {
+    throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+  }
+  if (job.status !== JobStatus.PUBLISHED) {
+    throw new AppError('Job is not accepting applications', ErrorCode.BAD_REQUEST, {
+      status: job.status
+    });
+  }
+
+  const { rows: [created] } = await client.query<ReferralLink>(
+    `INSERT INTO referral_links (referrer_id, job_id, token)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (referrer_id, job_id) DO NOTHING
+     RETURNING *`,
+    [referrerId, jobId, generateReferralToken()]
+  );
+  if (created) {
+    return created;
+  }
+
+  const { rows: [existing] } = await client.query<ReferralLink>(
+    'SELECT * FROM referral_links WHERE referrer_id = $1 AND job_id = $2',
+    [referrerId, jobId]
+  );
+  return existing;
+}
+
+/**
+ * Resolves the referral link an application arrived through
+ * @param client - Database client
+ * @param token - Token from the referral URL
+ * @param jobId - Job being applied to; links only credit applications to their own job
+ */
+export async function resolveReferralLink(
+  client: PoolClient,
+  token: string,
+  jobId: UUID
+): Promise<ReferralLink & { referrer_name: string }> {
+  const { rows: [link] } = await client.query<ReferralLink & { referrer_name: string }>(
+    `SELECT l.*, u.full_name AS referrer_name
+     FROM referral_links l
+     JOIN auth.users u ON u.id = l.referrer_id
+     WHERE l.token = $1`,
+    [token]
+  );
+
+  if (!link || link.job_id !== jobId) {
+    throw new AppError('Referral link is not valid for this job', ErrorCode.BAD_REQUEST);
+  }
+  return link;
+}
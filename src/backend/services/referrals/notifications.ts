@@ -0,0 +1,76 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Referral } from '../../types/referrals';
+import { EmailSender } from '../email/sender';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { evaluateBonusEligibility } from './bonus';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+/**
+ * Tells an employee that a candidate they referred was hired and when the referral
+ * bonus waiting period ends. Delivery failures are logged and reported as false so
+ * they never fail the hire that triggered them.
+ * @param client - Database client, outside of the transaction that recorded the hire
+ * @param referral - Referral whose candidate was hired
+ * @param correlationId - Correlation id of the triggering request
+ */
+export async function notifyReferrerOfHire(
+  client: PoolClient,
+  referral: Referral,
+  correlationId: string
+): Promise<boolean> {
+  try {
+    const { rows: [recipient] } = await client.query<{
+      email: string;
+      full_name: string;
+      role: string;
+      job_title: string;
+    }>(
+      `SELECT u.email, u.full_name, u.role, j.title AS job_title
+       FROM auth.users u, jobs j
+       WHERE u.id = $1 AND j.id = $2`,
+      [referral.referrer_id, referral.job_id]
+    );
+
+    if (!recipient || !referral.hired_at) {
+      logger.warn('Referral hire notification skipped', { correlationId, referralId: referral.id });
+      return false;
+    }
+
+    const { eligible_on } = evaluateBonusEligibility(referral.hired_at, true);
+    const { html, text } = await reminderTemplate.generateActionReminder(
+      {
+        type: 'referral',
+        deadline: eligible_on,
+        priority: 'low',
+        description: `Your referral for "${recipient.job_title}" has been hired. Thank you for helping us grow the team; the referral bonus waiting period ends on the date below.`,
+        actionUrl: `${process.env.APP_URL}/referrals`
+      },
+      { name: recipient.full_name, email: recipient.email, role: recipient.role }
+    );
+
+    const sent = await emailSender.sendEmail({
+      to: recipient.email,
+      subject: `Your referral was hired: ${recipient.job_title}`,
+      html,
+      text
+    });
+
+    if (sent) {
+      await client.query(
+        `UPDATE referrals SET referrer_notified_at = NOW(), updated_at = NOW() WHERE id = $1`,
+        [referral.id]
+      );
+    }
+    return sent;
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'notifyReferrerOfHire',
+      referralId: referral.id
+    });
+    return false;
+  }
+}
@@ -0,0 +1,286 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import { Application, CLOSED_APPLICATION_STATUSES } from '../../types/applications';
+import { ApplicationStatus, CandidateStatus } from '../../types/candidates';
+import { ExperienceLevel, JobStatus } from '../../types/jobs';
+import { resolveStageStatus } from '../../types/pipelines';
+import {
+  Referral,
+  ReferralOrigin,
+  ReferralProgress,
+  ReferralSummary,
+  referralSubmitSchema
+} from '../../types/referrals';
+import { SourceChannel, SourceInput } from '../../types/sources';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { normalizeEmail, normalizePhone } from '../candidates/duplicates';
+import { appendStageHistory, createStageHistoryEntry } from '../pipeline/stage-history';
+import { getJobPipeline, resolveTargetStage } from '../pipeline/templates';
+import { attributeApplication } from '../sources/attribution';
+
+// Progress shown to the referrer for each application status
+const PROGRESS_BY_STATUS: Record<ApplicationStatus, ReferralProgress> = {
+  [ApplicationStatus.APPLIED]: ReferralProgress.SUBMITTED,
+  [ApplicationStatus.SCREENING]: ReferralProgress.IN_REVIEW,
+  [ApplicationStatus.INTERVIEWING]: ReferralProgress.INTERVIEWING,
+  [ApplicationStatus.OFFER_PENDING]: ReferralProgress.FINAL_STAGE,
+  [ApplicationStatus.OFFER_ACCEPTED]: ReferralProgress.HIRED,
+  [ApplicationStatus.OFFER_DECLINED]: ReferralProgress.CLOSED,
+  [ApplicationStatus.REJECTED]: ReferralProgress.CLOSED,
+  [ApplicationStatus.WITHDRAWN]: ReferralProgress.CLOSED
+};
+
+/**
+ * Maps an application status to the progress its referrer may see
+ * @param status - Current application status
+ */
+export function getReferralProgress(status: ApplicationStatus): ReferralProgress {
+  return PROGRESS_BY_STATUS[status] ?? ReferralProgress.IN_REVIEW;
+}
+
+/**
+ * Reduces a candidate name to initials, e.g. "Jane Doe" becomes "J. D."
+ * @param fullName - Candidate name
+ */
+export function toInitials(fullName: string): string {
+  return fullName
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => `${part.charAt(0).toUpperCase()}.`)
+    .join(' ');
+}
+
+/**
+ * Source recorded for applications a referral produces
+ * @param referrerName - Name of the referring employee
+ */
+export function buildReferralSource(referrerName: string): SourceInput {
+  return {
+    channel: SourceChannel.REFERRAL,
+    sub_source: referrerName.slice(0, 200)
+  };
+}
+
+/**
+ * Records the referral behind a new application
+ * @param client - Database client inside the transaction creating the application
+ * @param params - Referrer, application, origin and the details given by the referrer
+ */
+export async function recordReferral(
+  client: PoolClient,
+  params: {
+    referrerId: UUID;
+    application: Pick<Application, 'id' | 'job_id' | 'candidate_id'>;
+    origin: ReferralOrigin;
+    referralLinkId?: UUID;
+    relationship?: string;
+    note?: string;
+  }
+): Promise<Referral> {
+  const { rows: [referral] } = await client.query<Referral>(
+    `INSERT INTO referrals (
+       referrer_id,
+       job_id,
+       candidate_id,
+       application_id,
+       origin,
+       referral_link_id,
+       relationship,
+       note
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      params.referrerId,
+      params.application.job_id,
+      params.application.candidate_id,
+      params.application.id,
+      params.origin,
+      params.referralLinkId ?? null,
+      params.relationship ?? null,
+      params.note ?? null
+    ]
+  );
+  return referral;
+}
+
+/**
+ * Submits a referral on behalf of an employee. The referred person is matched to an
+ * existing candidate by email or added as a new one, and an application is opened in
+ * the first stage of the job's pipeline, credited to the referrer.
+ * @param client - Database client inside an open transaction
+ * @param referrer - Referring employee
+ * @param payload - Referred person, job and referral details
+ */
+export async function submitReferral(
+  client: PoolClient,
+  referrer: { id: UUID; full_name: string },
+  payload: z.infer<typeof referralSubmitSchema>
+): Promise<{ referral: Referral; application: Application }> {
+  const { rows: [job] } = await client.query<{ status: JobStatus }>(
+    'SELECT status FROM jobs WHERE id = $1',
+    [payload.job_id]
+  );
+  if (!job) {
+    throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+  }
+  if (job.status !== JobStatus.PUBLISHED) {
+    throw new AppError('Job is not accepting applications', ErrorCode.BAD_REQUEST, {
+      status: job.status
+    });
+  }
+
+  const normalizedEmail = normalizeEmail(payload.email);
+  const { rows: [existing] } = await client.query<{ id: UUID }>(
+    `SELECT id FROM candidates
+     WHERE normalized_email = $1 AND merged_into_id IS NULL
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [normalizedEmail]
+  );
+
+  let candidateId = existing?.id;
+  if (candidateId) {
+    // The referrer learns nothing about the candidate's other applications
+    const { rows: [open] } = await client.query(
+      `SELECT id FROM applications
+       WHERE job_id = $1 AND candidate_id = $2 AND status <> ALL($3::text[])
+       LIMIT 1`,
+      [payload.job_id, candidateId, CLOSED_APPLICATION_STATUSES]
+    );
+    if (open) {
+      throw new AppError('This person is already being considered for the job', ErrorCode.CONFLICT);
+    }
+  } else {
+    const { rows: [candidate] } = await client.query<{ id: UUID }>(
+      `INSERT INTO candidates (
+         full_name,
+         email,
+         phone,
+         location,
+         status,
+         experience_level,
+         skills,
+         normalized_email,
+         normalized_phone,
+         metadata
+       ) VALUES ($1, $2, $3, $4, $5, $6, '{}', $7, $8, $9)
+       RETURNING id`,
+      [
+        payload.full_name,
+        payload.email,
+        payload.phone ?? '',
+        payload.location,
+        CandidateStatus.ACTIVE,
+        ExperienceLevel.ENTRY,
+        normalizedEmail,
+        payload.phone ? normalizePhone(payload.phone) : null,
+        JSON.stringify({ referred_by: referrer.id })
+      ]
+    );
+    candidateId = candidate.id;
+  }
+
+  // Referred candidates always start in the first stage of the job's pipeline
+  const pipeline = await getJobPipeline(client, payload.job_id as UUID);
+  const stage = resolveTargetStage(pipeline.stages, {});
+  const status = resolveStageStatus(stage);
+  const stageHistory = appendStageHistory([], createStageHistoryEntry(
+    null,
+    status,
+    referrer.id,
+    'Employee referral',
+    { from: null, to: stage.id }
+  ));
+
+  const { rows: [created] } = await client.query<Application>(
+    `INSERT INTO applications (
+       job_id,
+       candidate_id,
+       status,
+       stage_id,
+       stage_history,
+       metadata,
+       created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      payload.job_id,
+      candidateId,
+      status,
+      stage.id,
+      JSON.stringify(stageHistory),
+      JSON.stringify({}),
+      referrer.id
+    ]
+  );
+
+  const application = await attributeApplication(
+    client,
+    created,
+    buildReferralSource(referrer.full_name),
+    referrer.id
+  );
+
+  const referral = await recordReferral(client, {
+    referrerId: referrer.id,
+    application,
+    origin: ReferralOrigin.SUBMISSION,
+    relationship: payload.relationship,
+    note: payload.note
+  });
+
+  return { referral, application };
+}
+
+/**
+ * Lists an employee's referrals, newest first, with anonymized progress
+ * @param client - Database client
+ * @param referrerId - Referring employee
+ */
+export async function listReferrals(
+  client: PoolClient,
+  referrerId: UUID
+): Promise<ReferralSummary[]> {
+  const { rows } = await client.query<Omit<ReferralSummary, 'progress'> & { status: ApplicationStatus }>(
+    `SELECT r.id, r.job_id, j.title AS job_title, c.full_name AS candidate_name,
+            r.origin, r.created_at, r.hired_at, a.status
+     FROM referrals r
+     JOIN applications a ON a.id = r.application_id
+     JOIN jobs j ON j.id = r.job_id
+     JOIN candidates c ON c.id = r.candidate_id
+     WHERE r.referrer_id = $1
+     ORDER BY r.created_at DESC`,
+    [referrerId]
+  );
+
+  return rows.map(({ status, ...referral }) => ({
+    ...referral,
+    candidate_name: referral.origin === ReferralOrigin.LINK
+      ? toInitials(referral.candidate_name)
+      : referral.candidate_name,
+    progress: getReferralProgress(status)
+  }));
+}
+
+/**
+ * Stamps the hire of a referred application, once
+ * @param client - Database client inside the transaction that moved the application
+ * @param applicationId - Application that reached the hired status
+ * @returns The referral behind the application, or null when it was not referred or
+ * its hire was already recorded
+ */
+export async function markReferralHired(
+  client: PoolClient,
+  applicationId: UUID
+): Promise<Referral | null> {
+  const { rows: [referral] } = await client.query<Referral>(
+    `UPDATE referrals
+     SET hired_at = NOW(), updated_at = NOW()
+     WHERE application_id = $1 AND hired_at IS NULL
+     RETURNING *`,
+    [applicationId]
+  );
+  return referral ?? null;
+}
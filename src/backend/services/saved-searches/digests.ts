@@ -0,0 +1,161 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { CandidateSearchFilters } from '../../types/candidates';
+import { JobSearchFilters, JobStatus } from '../../types/jobs';
+import {
+  DIGEST_INTERVAL_MS,
+  DigestResult,
+  DigestRun,
+  SavedSearch,
+  SavedSearchEntity,
+  SavedSearchSubscription
+} from '../../types/saved-searches';
+import { CANDIDATE_SEARCH_DOCUMENT, buildCandidateFilterConditions } from '../candidates/search-filters';
+import { buildJobFilterConditions } from '../jobs/search-filters';
+import { sendSavedSearchDigest } from './notifications';
+
+/**
+ * Query selecting the candidates or jobs matching a search among those changed in a
+ * window, as `id`, `label`, `detail` and `changed_at`. The window bounds are `$1`
+ * (exclusive) and `$2` (inclusive).
+ */
+function buildMatchQuery(search: SavedSearch, values: unknown[]): string {
+  if (search.entity_type === SavedSearchEntity.CANDIDATE) {
+    const filters = search.filters as CandidateSearchFilters;
+    const conditions = buildCandidateFilterConditions(filters, values);
+    // The search only ranks by keywords; a digest lists the candidates they match
+    if (filters.query?.trim()) {
+      values.push(filters.query);
+      conditions.push(`${CANDIDATE_SEARCH_DOCUMENT} @@ plainto_tsquery('english', $${values.length})`);
+    }
+    return `SELECT c.id, c.full_name AS label, c.location AS detail, c.updated_at AS changed_at
+      FROM candidates c
+      WHERE c.anonymized_at IS NULL AND c.updated_at > $1 AND c.updated_at <= $2
+      ${conditions.map(condition => `AND ${condition}`).join(' ')}`;
+  }
+
+  // Like the job search, saved job searches only find published jobs
+  const conditions = buildJobFilterConditions(search.filters as JobSearchFilters, values);
+  values.push(JobStatus.PUBLISHED);
+  conditions.push(`j.status = $${values.length}`);
+  return `SELECT j.id, j.title AS label, j.location AS detail, j.updated_at AS changed_at
+    FROM jobs j
+    WHERE j.updated_at > $1 AND j.updated_at <= $2
+    ${conditions.map(condition => `AND ${condition}`).join(' ')}`;
+}
+
+/**
+ * Finds the candidates or jobs that started matching a search for a subscriber: rows
+ * added or changed since the subscription was last evaluated that match the search and
+ * were never sent to the subscriber before. They are recorded as sent.
+ * @param client - Database client, in a transaction
+ * @param subscription - Subscription being evaluated
+ * @param search - Search it follows
+ * @param until - End of the evaluated window
+ * @returns New results, most recently changed first
+ */
+export async function collectNewResults(
+  client: PoolClient,
+  subscription: SavedSearchSubscription,
+  search: SavedSearch,
+  until: Date
+): Promise<DigestResult[]> {
+  const values: unknown[] = [subscription.evaluated_until, until];
+  const matchQuery = buildMatchQuery(search, values);
+  values.push(subscription.id);
+
+  const { rows } = await client.query<DigestResult>(
+    `WITH matches AS (${matchQuery}),
+     recorded AS (
+       INSERT INTO saved_search_results (subscription_id, entity_id)
+       SELECT $${values.length}, id FROM matches
+       ON CONFLICT DO NOTHING
+       RETURNING entity_id
+     )
+     SELECT m.id, m.label, m.detail
+     FROM matches m
+     JOIN recorded r ON r.entity_id = m.id
+     ORDER BY m.changed_at DESC`,
+    values
+  );
+  return rows;
+}
+
+/**
+ * Lists the subscriptions whose next digest is due
+ * @param client - Database client
+ * @param now - Time digests are due by
+ */
+export async function listDueSubscriptionIds(client: PoolClient, now: Date): Promise<UUID[]> {
+  const { rows } = await client.query<{ id: UUID }>(
+    'SELECT id FROM saved_search_subscriptions WHERE next_run_at <= $1 ORDER BY next_run_at',
+    [now]
+  );
+  return rows.map(row => row.id);
+}
+
+/**
+ * Locks a due subscription with its search for the rest of the transaction. Returns
+ * null when another run holds it or it is no longer due.
+ * @param client - Database client, in a transaction
+ * @param subscriptionId - Subscription to lock
+ * @param now - Time digests are due by
+ */
+export async function lockDueSubscription(
+  client: PoolClient,
+  subscriptionId: UUID,
+  now: Date
+): Promise<{ subscription: SavedSearchSubscription; search: SavedSearch } | null> {
+  const { rows: [subscription] } = await client.query<SavedSearchSubscription>(
+    `SELECT * FROM saved_search_subscriptions
+     WHERE id = $1 AND next_run_at <= $2
+     FOR UPDATE SKIP LOCKED`,
+    [subscriptionId, now]
+  );
+  if (!subscription) return null;
+
+  const { rows: [search] } = await client.query<SavedSearch>(
+    'SELECT * FROM saved_searches WHERE id = $1',
+    [subscription.saved_search_id]
+  );
+  return search ? { subscription, search } : null;
+}
+
+/**
+ * Evaluates a subscription up to now and sends its subscriber a digest of the new
+ * results, if any. The subscription moves on to its next run either way; when the
+ * digest could not be delivered the caller rolls the transaction back so the results
+ * are sent by a later run.
+ * @param client - Database client, in a transaction
+ * @param subscription - Locked subscription
+ * @param search - Search it follows
+ * @param now - End of the evaluated window
+ * @param correlationId - Correlation id of the run
+ */
+export async function runSubscriptionDigest(
+  client: PoolClient,
+  subscription: SavedSearchSubscription,
+  search: SavedSearch,
+  now: Date,
+  correlationId: string
+): Promise<DigestRun> {
+  const results = await collectNewResults(client, subscription, search, now);
+  const delivered = results.length > 0
+    && await sendSavedSearchDigest(client, subscription, search, results, correlationId);
+
+  await client.query(
+    `UPDATE saved_search_subscriptions
+     SET evaluated_until = $2,
+         next_run_at = $2::timestamptz + $3 * interval '1 millisecond',
+         last_digest_at = CASE WHEN $4 THEN $2 ELSE last_digest_at END
+     WHERE id = $1`,
+    [subscription.id, now, DIGEST_INTERVAL_MS[subscription.frequency], delivered]
+  );
+
+  return {
+    subscription_id: subscription.id,
+    saved_search_id: search.id,
+    new_results: results.length,
+    delivered
+  };
+}
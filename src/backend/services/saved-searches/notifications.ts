@@ -0,0 +1,105 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { NotificationType } from '../../types/notifications';
+import {
+  DigestChannel,
+  DigestResult,
+  MAX_DIGEST_RESULTS,
+  SavedSearch,
+  SavedSearchEntity,
+  SavedSearchSubscription
+} from '../../types/saved-searches';
+import { EmailSender } from '../email/sender';
+import { ReminderEmailTemplate } from '../email/templates/reminder';
+import { createNotification } from '../notifications/notifications';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const reminderTemplate = new ReminderEmailTemplate({ baseUrl: process.env.APP_URL });
+
+const ENTITY_NOUNS: Record<SavedSearchEntity, [string, string]> = {
+  [SavedSearchEntity.CANDIDATE]: ['candidate', 'candidates'],
+  [SavedSearchEntity.JOB]: ['job', 'jobs']
+};
+
+const ENTITY_PATHS: Record<SavedSearchEntity, string> = {
+  [SavedSearchEntity.CANDIDATE]: 'candidates',
+  [SavedSearchEntity.JOB]: 'jobs'
+};
+
+/**
+ * Headline of a digest, e.g. `3 new candidates match "Java in Berlin"`
+ */
+export function digestTitle(search: SavedSearch, count: number): string {
+  const [singular, plural] = ENTITY_NOUNS[search.entity_type];
+  return `${count} new ${count === 1 ? singular : plural} ${count === 1 ? 'matches' : 'match'} "${search.name}"`;
+}
+
+/**
+ * Sends a subscriber the new results of a saved search, in the app or by email. The
+ * in-app notification links to the search and holds the ids of the results; names are
+ * only listed in emails. Email delivery failures are logged.
+ * @param client - Database client
+ * @param subscription - Subscription the digest is for
+ * @param search - Search followed
+ * @param results - New results, most relevant first
+ * @param correlationId - Correlation id of the run
+ * @returns Whether the digest was delivered
+ */
+export async function sendSavedSearchDigest(
+  client: PoolClient,
+  subscription: SavedSearchSubscription,
+  search: SavedSearch,
+  results: DigestResult[],
+  correlationId: string
+): Promise<boolean> {
+  const title = digestTitle(search, results.length);
+  const searchUrl = `/${ENTITY_PATHS[search.entity_type]}?saved_search=${search.id}`;
+
+  if (subscription.channel === DigestChannel.IN_APP) {
+    await createNotification(client, {
+      recipient_id: subscription.user_id,
+      type: NotificationType.SAVED_SEARCH_DIGEST,
+      title,
+      link: searchUrl,
+      data: {
+        saved_search_id: search.id,
+        entity_type: search.entity_type,
+        result_ids: results.slice(0, MAX_DIGEST_RESULTS).map(result => result.id),
+        total: results.length
+      }
+    });
+    return true;
+  }
+
+  try {
+    const { rows: [recipient] } = await client.query<{ email: string; full_name: string; role: string }>(
+      'SELECT email, full_name, role FROM auth.users WHERE id = $1',
+      [subscription.user_id]
+    );
+    if (!recipient) return false;
+
+    const listed = results.slice(0, MAX_DIGEST_RESULTS)
+      .map(result => (result.detail ? `${result.label} (${result.detail})` : result.label));
+    const more = results.length - listed.length;
+
+    const { html, text } = await reminderTemplate.generateActionReminder(
+      {
+        type: 'saved_search_digest',
+        deadline: new Date(),
+        priority: 'low',
+        description: `${title}: ${listed.join(', ')}${more > 0 ? ` and ${more} more` : ''}.`,
+        actionUrl: `${process.env.APP_URL}${searchUrl}`
+      },
+      { name: recipient.full_name, email: recipient.email, role: recipient.role }
+    );
+
+    return await emailSender.sendEmail({ to: recipient.email, subject: title, html, text });
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'sendSavedSearchDigest',
+      subscriptionId: subscription.id
+    });
+    return false;
+  }
+}
@@ -0,0 +1,207 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, UUID } from '../../types/common';
+import { UserRole } from '../../types/auth';
+import {
+  DIGEST_INTERVAL_MS,
+  SAVED_SEARCH_FILTER_SCHEMAS,
+  SavedSearch,
+  SavedSearchCreate,
+  SavedSearchListQuery,
+  SavedSearchSubscribe,
+  SavedSearchSubscription,
+  SavedSearchUpdate,
+  SavedSearchWithSubscription
+} from '../../types/saved-searches';
+import { AppError } from '../../utils/error-handler';
+import { validateInput } from '../../utils/validation';
+
+/**
+ * User acting on saved searches
+ */
+export interface SavedSearchUser {
+  id: UUID;
+  role: UserRole;
+}
+
+/**
+ * Lists the searches a user can see: their own and those shared by others, each with
+ * the user's subscription to it
+ * @param client - Database client
+ * @param userId - User listing the searches
+ * @param query - Optional entity type to list
+ */
+export async function listSavedSearches(
+  client: PoolClient,
+  userId: UUID,
+  query: SavedSearchListQuery = {}
+): Promise<SavedSearchWithSubscription[]> {
+  const { rows } = await client.query<SavedSearchWithSubscription>(
+    `SELECT s.*, owner.full_name AS owner_name,
+       CASE WHEN sub.id IS NULL THEN NULL ELSE json_build_object(
+         'frequency', sub.frequency,
+         'channel', sub.channel,
+         'last_digest_at', sub.last_digest_at
+       ) END AS subscription
+     FROM saved_searches s
+     LEFT JOIN auth.users owner ON owner.id = s.owner_id
+     LEFT JOIN saved_search_subscriptions sub ON sub.saved_search_id = s.id AND sub.user_id = $1
+     WHERE (s.owner_id = $1 OR s.is_shared) AND ($2::text IS NULL OR s.entity_type = $2)
+     ORDER BY s.owner_id = $1 DESC, lower(s.name)`,
+    [userId, query.entity_type ?? null]
+  );
+  return rows;
+}
+
+/**
+ * Retrieves a search the user can see, optionally locking it for the rest of the
+ * transaction. Searches private to someone else are reported as missing.
+ * @throws AppError when the search does not exist or is not visible to the user
+ */
+async function findVisibleSearch(
+  client: PoolClient,
+  searchId: UUID,
+  userId: UUID,
+  lock: boolean = false
+): Promise<SavedSearch> {
+  const { rows: [search] } = await client.query<SavedSearch>(
+    `SELECT * FROM saved_searches WHERE id = $1 ${lock ? 'FOR UPDATE' : ''}`,
+    [searchId]
+  );
+  if (!search || (!search.is_shared && search.owner_id !== userId)) {
+    throw new AppError('Saved search not found', ErrorCode.NOT_FOUND, { savedSearchId: searchId });
+  }
+  return search;
+}
+
+/**
+ * Retrieves a search the user may change: their own, or any as an admin
+ * @throws AppError when the search is not visible or belongs to someone else
+ */
+async function lockOwnedSearch(client: PoolClient, searchId: UUID, user: SavedSearchUser): Promise<SavedSearch> {
+  const search = await findVisibleSearch(client, searchId, user.id, true);
+  if (search.owner_id !== user.id && user.role !== UserRole.ADMIN) {
+    throw new AppError('Only the owner can change a saved search', ErrorCode.FORBIDDEN, { savedSearchId: searchId });
+  }
+  return search;
+}
+
+/**
+ * Saves a search
+ * @param client - Database client
+ * @param input - Validated name, sharing and filters
+ * @param ownerId - User saving the search
+ */
+export async function createSavedSearch(
+  client: PoolClient,
+  input: SavedSearchCreate,
+  ownerId: UUID
+): Promise<SavedSearch> {
+  const { rows: [search] } = await client.query<SavedSearch>(
+    `INSERT INTO saved_searches (name, entity_type, filters, is_shared, owner_id)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [input.name, input.entity_type, JSON.stringify(input.filters), input.is_shared, ownerId]
+  );
+  return search;
+}
+
+/**
+ * Renames a search, changes its filters or shares or unshares it. Unsharing ends the
+ * subscriptions of everyone but the owner, who can no longer see the search.
+ * @param client - Database client, in a transaction
+ * @param searchId - Search to change
+ * @param update - Validated changes; filters are checked against the search's entity type
+ * @param user - User changing the search
+ * @throws AppError when the search is not the user's to change or the filters are invalid
+ */
+export async function updateSavedSearch(
+  client: PoolClient,
+  searchId: UUID,
+  update: SavedSearchUpdate,
+  user: SavedSearchUser
+): Promise<SavedSearch> {
+  const current = await lockOwnedSearch(client, searchId, user);
+  const filters = update.filters !== undefined
+    ? await validateInput(SAVED_SEARCH_FILTER_SCHEMAS[current.entity_type], update.filters)
+    : current.filters;
+
+  const { rows: [search] } = await client.query<SavedSearch>(
+    `UPDATE saved_searches
+     SET name = $2, filters = $3, is_shared = $4
+     WHERE id = $1
+     RETURNING *`,
+    [searchId, update.name ?? current.name, JSON.stringify(filters), update.is_shared ?? current.is_shared]
+  );
+
+  if (current.is_shared && !search.is_shared) {
+    await client.query(
+      'DELETE FROM saved_search_subscriptions WHERE saved_search_id = $1 AND user_id <> $2',
+      [searchId, search.owner_id]
+    );
+  }
+  return search;
+}
+
+/**
+ * Deletes a search with its subscriptions
+ * @param client - Database client, in a transaction
+ * @param searchId - Search to delete
+ * @param user - User deleting the search
+ * @throws AppError when the search is not the user's to delete
+ */
+export async function deleteSavedSearch(client: PoolClient, searchId: UUID, user: SavedSearchUser): Promise<SavedSearch> {
+  const search = await lockOwnedSearch(client, searchId, user);
+  await client.query('DELETE FROM saved_searches WHERE id = $1', [searchId]);
+  return search;
+}
+
+/**
+ * Subscribes a user to the new results of a search, or changes how often and where
+ * they are sent. Results are tracked from the time of subscribing, so the first digest
+ * only holds candidates or jobs added or changed since.
+ * @param client - Database client, in a transaction
+ * @param searchId - Search to follow
+ * @param userId - Subscriber
+ * @param input - Validated frequency and channel
+ * @param now - Time the subscription starts at
+ * @throws AppError when the search is not visible to the user
+ */
+export async function subscribeToSavedSearch(
+  client: PoolClient,
+  searchId: UUID,
+  userId: UUID,
+  input: SavedSearchSubscribe,
+  now: Date = new Date()
+): Promise<SavedSearchSubscription> {
+  await findVisibleSearch(client, searchId, userId);
+
+  // A changed frequency counts from the last time the search was evaluated
+  const { rows: [subscription] } = await client.query<SavedSearchSubscription>(
+    `INSERT INTO saved_search_subscriptions (saved_search_id, user_id, frequency, channel, evaluated_until, next_run_at)
+     VALUES ($1, $2, $3, $4, $5, $5::timestamptz + $6 * interval '1 millisecond')
+     ON CONFLICT (saved_search_id, user_id) DO UPDATE
+     SET frequency = EXCLUDED.frequency,
+         channel = EXCLUDED.channel,
+         next_run_at = saved_search_subscriptions.evaluated_until + $6 * interval '1 millisecond'
+     RETURNING *`,
+    [searchId, userId, input.frequency, input.channel, now, DIGEST_INTERVAL_MS[input.frequency]]
+  );
+  return subscription;
+}
+
+/**
+ * Ends a user's subscription to a search
+ * @param client - Database client
+ * @param searchId - Search followed
+ * @param userId - Subscriber
+ * @throws AppError when the user is not subscribed
+ */
+export async function unsubscribeFromSavedSearch(client: PoolClient, searchId: UUID, userId: UUID): Promise<void> {
+  const { rowCount } = await client.query(
+    'DELETE FROM saved_search_subscriptions WHERE saved_search_id = $1 AND user_id = $2',
+    [searchId, userId]
+  );
+  if (!rowCount) {
+    throw new AppError('Not subscribed to this saved search', ErrorCode.NOT_FOUND, { savedSearchId: searchId });
+  }
+}
@@ -0,0 +1,152 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  EvaluatedScreeningAnswer,
+  NumericRange,
+  ScreeningAnswerValue,
+  ScreeningQuestion,
+  ScreeningQuestionType,
+  screeningAnswersSchema
+} from '../../types/screening';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Checks an answer against the expected answer of a knockout question
+ * @param question - Question answered
+ * @param value - Answer given, already checked to fit the question type
+ * @returns Whether the answer passes, or null for questions that are not knockouts
+ */
+export function evaluateKnockout(question: ScreeningQuestion, value: ScreeningAnswerValue): boolean | null {
+  if (!question.is_knockout || question.expected_answer === null) return null;
+
+  switch (question.type) {
+    case ScreeningQuestionType.YES_NO:
+      return value === question.expected_answer;
+    case ScreeningQuestionType.MULTIPLE_CHOICE:
+      return (question.expected_answer as string[]).includes(value as string);
+    case ScreeningQuestionType.NUMERIC: {
+      const { min, max } = question.expected_answer as NumericRange;
+      return (min === null || (value as number) >= min) && (max === null || (value as number) <= max);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reason an answer does not fit its question, or null when it does
+ */
+function getAnswerIssue(question: ScreeningQuestion, value: ScreeningAnswerValue): string | null {
+  switch (question.type) {
+    case ScreeningQuestionType.TEXT:
+      return typeof value === 'string' && value.length > 0 ? null : 'Expected a text answer';
+    case ScreeningQuestionType.YES_NO:
+      return typeof value === 'boolean' ? null : 'Expected yes or no';
+    case ScreeningQuestionType.MULTIPLE_CHOICE:
+      return typeof value === 'string' && question.options.includes(value) ? null : 'Expected one of the options';
+    case ScreeningQuestionType.NUMERIC:
+      return typeof value === 'number' ? null : 'Expected a number';
+    case ScreeningQuestionType.FILE:
+      return typeof value === 'string' && value.length > 0 ? null : 'Expected an uploaded file';
+  }
+}
+
+/**
+ * Checks answers against the questions of a job and evaluates the knockouts among them.
+ * All problems are reported together in the error details, keyed by question.
+ * @param questions - Questions the job currently asks
+ * @param answers - Answers given with the application
+ * @param options.requireAll - Whether required questions must be answered; applicants
+ *   must answer them, recruiters adding a candidate may leave them open
+ */
+export function evaluateScreeningAnswers(
+  questions: ScreeningQuestion[],
+  answers: z.infer<typeof screeningAnswersSchema>,
+  options: { requireAll: boolean }
+): EvaluatedScreeningAnswer[] {
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const issues: Array<{ question_id: string; message: string }> = [];
+  const evaluated: EvaluatedScreeningAnswer[] = [];
+  const answered = new Set<string>();
+
+  for (const answer of answers) {
+    const question = byId.get(answer.question_id as UUID);
+    if (!question) {
+      issues.push({ question_id: answer.question_id, message: 'Question is not asked for this job' });
+      continue;
+    }
+    if (answered.has(answer.question_id)) {
+      issues.push({ question_id: answer.question_id, message: 'Question answered more than once' });
+      continue;
+    }
+    answered.add(answer.question_id);
+
+    const issue = getAnswerIssue(question, answer.value);
+    if (issue) {
+      issues.push({ question_id: question.id, message: issue });
+      continue;
+    }
+    evaluated.push({ question, value: answer.value, knockout_passed: evaluateKnockout(question, answer.value) });
+  }
+
+  if (options.requireAll) {
+    for (const question of questions) {
+      if (question.required && !answered.has(question.id)) {
+        issues.push({ question_id: question.id, message: 'An answer is required' });
+      }
+    }
+  }
+
+  if (issues.length) {
+    throw new AppError('Screening answers are invalid', ErrorCode.VALIDATION_ERROR, { answers: issues });
+  }
+  return evaluated;
+}
+
+/**
+ * Stores the evaluated answers of an application
+ * @param client - Database client inside the application transaction
+ * @param applicationId - Application the answers were given with
+ * @param answers - Answers returned by evaluateScreeningAnswers
+ */
+export async function saveScreeningAnswers(
+  client: PoolClient,
+  applicationId: UUID,
+  answers: EvaluatedScreeningAnswer[]
+): Promise<void> {
+  if (!answers.length) return;
+
+  await client.query(
+    `INSERT INTO application_screening_answers (application_id, question_id, value, knockout_passed)
+     SELECT $1, answer.question_id, answer.value, answer.knockout_passed
+     FROM unnest($2::uuid[], $3::jsonb[], $4::boolean[]) AS answer(question_id, value, knockout_passed)`,
+    [
+      applicationId,
+      answers.map(answer => answer.question.id),
+      answers.map(answer => JSON.stringify(answer.value)),
+      answers.map(answer => answer.knockout_passed)
+    ]
+  );
+}
+
+/**
+ * SQL expression building the answers of an application for pipeline views, in the
+ * order of the questions
+ * @param applicationAlias - Alias of the applications table in the query
+ */
+export function screeningAnswersSelect(applicationAlias: string): string {
+  return `COALESCE((
+    SELECT json_agg(json_build_object(
+      'question_id', q.id,
+      'prompt', q.prompt,
+      'type', q.type,
+      'value', s.value,
+      'is_knockout', q.is_knockout,
+      'knockout_passed', s.knockout_passed
+    ) ORDER BY q.position)
+    FROM application_screening_answers s
+    JOIN job_screening_questions q ON q.id = s.question_id
+    WHERE s.application_id = ${applicationAlias}.id
+  ), '[]'::json)`;
+}
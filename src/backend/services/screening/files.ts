@@ -0,0 +1,91 @@
+import { ScreeningQuestion, ScreeningQuestionType } from '../../types/screening';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { FileHandler } from '../storage/file-handler';
+
+// Form fields carrying the files of file upload questions, followed by the question id
+export const ANSWER_FILE_PREFIX = 'answer_file_';
+
+/**
+ * Parses the screening answers, sent as a JSON array alongside the other form fields
+ */
+export function parseAnswersField(field: string | File | null): unknown {
+  if (typeof field !== 'string' || !field) return [];
+  try {
+    return JSON.parse(field);
+  } catch {
+    throw new AppError('Screening answers are malformed', ErrorCode.BAD_REQUEST);
+  }
+}
+
+/**
+ * Files attached to file upload questions, by question. Files for other questions are
+ * ignored.
+ * @param formData - Submitted form with one answer_file_<question id> field per file
+ * @param questions - Questions the files may answer
+ */
+export function getAnswerFiles(
+  formData: FormData,
+  questions: ScreeningQuestion[]
+): Array<{ question: ScreeningQuestion; file: File }> {
+  return questions.flatMap(question => {
+    if (question.type !== ScreeningQuestionType.FILE) return [];
+    const file = formData.get(`${ANSWER_FILE_PREFIX}${question.id}`);
+    return file instanceof File && file.size > 0 ? [{ question, file }] : [];
+  });
+}
+
+/**
+ * Uploads the files attached to file upload questions and returns them as answers.
+ * When one upload fails, the files already uploaded are removed again.
+ * @param formData - Submitted form with one answer_file_<question id> field per file
+ * @param jobId - Job asking the questions
+ * @param questions - Questions the files may answer
+ * @param fileHandler - Storage the files are kept in
+ * @param source - Where the answers were given, kept in the file metadata
+ */
+export async function uploadAnswerFiles(
+  formData: FormData,
+  jobId: UUID,
+  questions: ScreeningQuestion[],
+  fileHandler: FileHandler,
+  source: string
+): Promise<Array<{ question_id: string; value: string }>> {
+  const answers: Array<{ question_id: string; value: string }> = [];
+
+  for (const { question, file } of getAnswerFiles(formData, questions)) {
+    try {
+      const upload = await fileHandler.uploadFile(file, 'documents', `screening/${jobId}`, {
+        metadata: { source, jobId, questionId: question.id },
+        cacheControl: 'private, no-cache'
+      });
+      answers.push({ question_id: question.id, value: upload.url });
+    } catch (error) {
+      await deleteAnswerFiles(answers, fileHandler);
+      throw new AppError('Answer file could not be uploaded', ErrorCode.BAD_REQUEST, {
+        questionId: question.id,
+        reason: (error as Error).message
+      });
+    }
+  }
+
+  return answers;
+}
+
+/**
+ * Removes uploaded answer files whose answers were not saved. Removal is best effort;
+ * the storage handler logs the files it could not remove.
+ * @param answers - Answers holding the URLs of the uploaded files
+ * @param fileHandler - Storage the files are kept in
+ */
+export async function deleteAnswerFiles(
+  answers: Array<{ value: unknown }>,
+  fileHandler: FileHandler
+): Promise<void> {
+  await Promise.allSettled(answers.map(answer => {
+    const key = typeof answer.value === 'string'
+      ? fileHandler.getStorageKey('documents', answer.value)
+      : null;
+    return key ? fileHandler.deleteFile('documents', key) : Promise.resolve();
+  }));
+}
@@ -0,0 +1,122 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Application } from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { resolveStageStatus } from '../../types/pipelines';
+import {
+  ApplicationRejectionEmail,
+  EvaluatedScreeningAnswer,
+  JobScreeningSettings
+} from '../../types/screening';
+import { UUID } from '../../types/common';
+import { logger } from '../../utils/logger';
+import { getJobPipeline } from '../pipeline/templates';
+import { createStageHistoryEntry } from '../pipeline/stage-history';
+
+/**
+ * Rejects an application that failed a knockout question when its job rejects
+ * automatically, and schedules the rejection email after the job's delay. The move is
+ * made by the system, so the pipeline's transition rules do not apply to it. Jobs
+ * whose pipeline has no rejected stage keep the application where it is.
+ * @param client - Database client inside the application transaction
+ * @param application - Application just created
+ * @param answers - Evaluated answers of the application
+ * @param settings - Knockout settings of the job
+ * @param now - Time of the rejection
+ * @returns The rejected application, or null when it was left as it is
+ */
+export async function rejectFailedKnockout(
+  client: PoolClient,
+  application: Application,
+  answers: EvaluatedScreeningAnswer[],
+  settings: JobScreeningSettings,
+  now: Date = new Date()
+): Promise<Application | null> {
+  const failed = answers.filter(answer => answer.knockout_passed === false);
+  if (!failed.length || !settings.knockout_auto_reject) return null;
+
+  const pipeline = await getJobPipeline(client, application.job_id);
+  const rejectedStage = pipeline.stages.find(stage => resolveStageStatus(stage) === ApplicationStatus.REJECTED);
+  if (!rejectedStage) {
+    logger.warn('Knockout rejection skipped: pipeline has no rejected stage', {
+      applicationId: application.id,
+      templateId: pipeline.id
+    });
+    return null;
+  }
+
+  const entry = createStageHistoryEntry(
+    application.status,
+    ApplicationStatus.REJECTED,
+    null,
+    `Failed knockout question: ${failed[0].question.prompt}`.slice(0, 1000),
+    { from: application.stage_id, to: rejectedStage.id }
+  );
+
+  const { rows: [rejected] } = await client.query<Application>(
+    `UPDATE applications SET
+       status = $2,
+       stage_id = $3,
+       stage_history = stage_history || $4::jsonb,
+       updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [application.id, ApplicationStatus.REJECTED, rejectedStage.id, JSON.stringify([entry])]
+  );
+
+  if (settings.knockout_email_delay_hours !== null) {
+    await client.query(
+      `INSERT INTO application_rejection_emails (application_id, send_at)
+       VALUES ($1, $2 + make_interval(hours => $3))`,
+      [application.id, now, settings.knockout_email_delay_hours]
+    );
+  }
+
+  return rejected;
+}
+
+/**
+ * Claims the rejection emails that are due, so each is sent once even with several
+ * workers running
+ * @param client - Database client
+ * @param now - Time of the sweep
+ */
+export async function claimDueRejectionEmails(
+  client: PoolClient,
+  now: Date
+): Promise<ApplicationRejectionEmail[]> {
+  const { rows } = await client.query<ApplicationRejectionEmail>(
+    `UPDATE application_rejection_emails SET sent_at = $1
+     WHERE id IN (
+       SELECT id FROM application_rejection_emails
+       WHERE sent_at IS NULL AND cancelled_at IS NULL AND send_at <= $1
+       ORDER BY send_at ASC
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [now]
+  );
+  return rows;
+}
+
+/**
+ * Releases the claim of a rejection email that could not be delivered, so the next
+ * sweep retries it
+ * @param client - Database client
+ * @param emailId - Email that failed
+ */
+export async function releaseRejectionEmail(client: PoolClient, emailId: UUID): Promise<void> {
+  await client.query('UPDATE application_rejection_emails SET sent_at = NULL WHERE id = $1', [emailId]);
+}
+
+/**
+ * Cancels a claimed rejection email whose application is no longer rejected, e.g.
+ * because a recruiter moved it back into the pipeline during the delay
+ * @param client - Database client
+ * @param emailId - Email to cancel
+ */
+export async function cancelRejectionEmail(client: PoolClient, emailId: UUID): Promise<void> {
+  await client.query(
+    'UPDATE application_rejection_emails SET sent_at = NULL, cancelled_at = NOW() WHERE id = $1',
+    [emailId]
+  );
+}
@@ -0,0 +1,94 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApplicationStatus } from '../../types/candidates';
+import { ApplicationRejectionEmail } from '../../types/screening';
+import { CandidateEmailCategory } from '../../types/timeline';
+import { UUID } from '../../types/common';
+import { EmailSender } from '../email/sender';
+import { recordCandidateEmail } from '../email/history';
+import { createStatusUpdateTemplate } from '../email/templates/status-update';
+import { emailConfig } from '../../config/email';
+import { logger } from '../../utils/logger';
+
+const emailSender = new EmailSender();
+const statusUpdateTemplate = createStatusUpdateTemplate();
+
+/**
+ * Outcome of a delayed rejection email
+ */
+export type RejectionEmailOutcome = 'sent' | 'failed' | 'cancelled';
+
+/**
+ * Sends the delayed rejection email of an application rejected by a knockout question.
+ * Applications that left the rejected status during the delay are not emailed.
+ * Delivery failures are logged and reported as 'failed' so the caller can retry later.
+ * @param client - Database client used to load the application
+ * @param email - Claimed rejection email
+ * @param correlationId - Correlation id of the worker run
+ */
+export async function sendKnockoutRejectionEmail(
+  client: PoolClient,
+  email: ApplicationRejectionEmail,
+  correlationId: string
+): Promise<RejectionEmailOutcome> {
+  try {
+    const { rows: [recipient] } = await client.query<{
+      status: ApplicationStatus;
+      candidate_id: UUID;
+      full_name: string;
+      email: string;
+      job_title: string;
+    }>(
+      `SELECT a.status, a.candidate_id, c.full_name, c.email, j.title AS job_title
+       FROM applications a
+       JOIN candidates c ON c.id = a.candidate_id
+       JOIN jobs j ON j.id = a.job_id
+       WHERE a.id = $1`,
+      [email.application_id]
+    );
+
+    if (!recipient || recipient.status !== ApplicationStatus.REJECTED) {
+      return 'cancelled';
+    }
+
+    const { html, text } = await statusUpdateTemplate.compileTemplate({
+      candidateName: recipient.full_name,
+      jobTitle: recipient.job_title,
+      companyName: emailConfig.sender.name,
+      applicationStatus: ApplicationStatus.REJECTED,
+      contactEmail: emailConfig.sender.replyTo
+    });
+
+    const subject = `Your application for ${recipient.job_title}`;
+    const sent = await emailSender.sendEmail({
+      to: recipient.email,
+      subject,
+      html,
+      text
+    });
+    if (!sent) {
+      return 'failed';
+    }
+
+    // The email is out; failing to record it must not get it sent again
+    await recordCandidateEmail(client, {
+      candidate_id: recipient.candidate_id,
+      application_id: email.application_id,
+      category: CandidateEmailCategory.REJECTION,
+      subject,
+      recipient: recipient.email,
+      correlation_id: correlationId
+    }).catch(error => logger.warn('Sent rejection email could not be recorded', {
+      correlationId,
+      applicationId: email.application_id,
+      error
+    }));
+    return 'sent';
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'sendKnockoutRejectionEmail',
+      applicationId: email.application_id
+    });
+    return 'failed';
+  }
+}
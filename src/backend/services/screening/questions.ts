@@ -0,0 +1,151 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  JobScreening,
+  JobScreeningSettings,
+  PublicScreeningQuestion,
+  ScreeningQuestion,
+  jobScreeningUpdateSchema
+} from '../../types/screening';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Loads the screening questions a job currently asks, in order
+ * @param client - Database client
+ * @param jobId - Job whose questions are loaded
+ */
+export async function getScreeningQuestions(client: PoolClient, jobId: UUID): Promise<ScreeningQuestion[]> {
+  const { rows } = await client.query<ScreeningQuestion>(
+    `SELECT * FROM job_screening_questions
+     WHERE job_id = $1 AND archived_at IS NULL
+     ORDER BY position ASC`,
+    [jobId]
+  );
+  return rows;
+}
+
+/**
+ * Screening questions of a job as shown on the careers site, without knockout rules
+ * @param client - Database client
+ * @param jobId - Published job
+ */
+export async function getPublicScreeningQuestions(
+  client: PoolClient,
+  jobId: UUID
+): Promise<PublicScreeningQuestion[]> {
+  const questions = await getScreeningQuestions(client, jobId);
+  return questions.map(({ id, type, prompt, options, required }) => ({ id, type, prompt, options, required }));
+}
+
+/**
+ * Loads the screening questions and knockout settings of a job
+ * @param client - Database client
+ * @param jobId - Job whose screening is loaded
+ */
+export async function getJobScreening(client: PoolClient, jobId: UUID): Promise<JobScreening> {
+  const { rows: [settings] } = await client.query<JobScreeningSettings>(
+    'SELECT knockout_auto_reject, knockout_email_delay_hours FROM jobs WHERE id = $1',
+    [jobId]
+  );
+  if (!settings) {
+    throw new AppError('Job not found', ErrorCode.NOT_FOUND);
+  }
+
+  return {
+    job_id: jobId,
+    questions: await getScreeningQuestions(client, jobId),
+    settings
+  };
+}
+
+/**
+ * Replaces the screening questions and knockout settings of a job. Questions left out
+ * are archived rather than deleted so earlier answers keep their question, and a kept
+ * question cannot change type since its answers would no longer fit it.
+ * @param client - Database client inside the update transaction
+ * @param jobId - Job whose screening is replaced
+ * @param screening - New questions, in order, and settings
+ * @param actorId - User editing the questions
+ */
+export async function setJobScreening(
+  client: PoolClient,
+  jobId: UUID,
+  screening: z.infer<typeof jobScreeningUpdateSchema>,
+  actorId: UUID
+): Promise<JobScreening> {
+  const current = new Map((await getScreeningQuestions(client, jobId)).map(question => [question.id, question]));
+
+  for (const question of screening.questions) {
+    if (!question.id) continue;
+    const existing = current.get(question.id as UUID);
+    if (!existing) {
+      throw new AppError('Screening question does not belong to the job', ErrorCode.VALIDATION_ERROR, {
+        questionId: question.id
+      });
+    }
+    if (existing.type !== question.type) {
+      throw new AppError('The type of an existing question cannot change; add a new question instead', ErrorCode.VALIDATION_ERROR, {
+        questionId: question.id
+      });
+    }
+  }
+
+  const keptIds = screening.questions.flatMap(question => (question.id ? [question.id] : []));
+  await client.query(
+    `UPDATE job_screening_questions SET archived_at = NOW()
+     WHERE job_id = $1 AND archived_at IS NULL AND NOT (id = ANY($2::uuid[]))`,
+    [jobId, keptIds]
+  );
+
+  for (const [position, question] of screening.questions.entries()) {
+    const values = [
+      position,
+      question.prompt,
+      question.options,
+      question.required,
+      question.is_knockout,
+      question.expected_answer === null ? null : JSON.stringify(question.expected_answer)
+    ];
+
+    if (question.id) {
+      await client.query(
+        `UPDATE job_screening_questions SET
+           position = $2,
+           prompt = $3,
+           options = $4,
+           required = $5,
+           is_knockout = $6,
+           expected_answer = $7
+         WHERE id = $1`,
+        [question.id, ...values]
+      );
+    } else {
+      await client.query(
+        `INSERT INTO job_screening_questions (
+           job_id,
+           type,
+           position,
+           prompt,
+           options,
+           required,
+           is_knockout,
+           expected_answer,
+           created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [jobId, question.type, ...values, actorId]
+      );
+    }
+  }
+
+  await client.query(
+    `UPDATE jobs SET
+       knockout_auto_reject = $2,
+       knockout_email_delay_hours = $3,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [jobId, screening.settings.knockout_auto_reject, screening.settings.knockout_email_delay_hours]
+  );
+
+  return getJobScreening(client, jobId);
+}
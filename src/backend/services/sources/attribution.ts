@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { Application } from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { UUID } from '../../types/common';
+import {
+  AttributionModel,
+  SourceChannel,
+  SourceEffectiveness,
+  SourceInput,
+  SourceTouchpoint,
+  UTM_PARAMS,
+  UtmParams
+} from '../../types/sources';
+
+// Application column holding the touchpoint each model credits
+const ATTRIBUTION_COLUMNS: Record<AttributionModel, string> = {
+  [AttributionModel.FIRST_TOUCH]: 'first_touch_source_id',
+  [AttributionModel.LAST_TOUCH]: 'last_touch_source_id'
+};
+
+interface SourceCountsRow {
+  channel: SourceChannel | null;
+  sub_source: string | null;
+  applicants: number | string;
+  interviews: number | string;
+  offers: number | string;
+  hires: number | string;
+}
+
+/**
+ * Reads the campaign parameters of an inbound link
+ * @param url - Landing page or referrer URL
+ * @returns UTM parameters present on the URL; empty when the URL is missing or invalid
+ */
+export function parseUtmParams(url: string | null | undefined): UtmParams {
+  if (!url) {
+    return {};
+  }
+
+  let searchParams: URLSearchParams;
+  try {
+    searchParams = new URL(url).searchParams;
+  } catch {
+    return {};
+  }
+
+  const params: UtmParams = {};
+  for (const name of UTM_PARAMS) {
+    const value = searchParams.get(name)?.trim();
+    if (value) {
+      params[name] = value.slice(0, 200);
+    }
+  }
+  return params;
+}
+
+/**
+ * Records a touchpoint of a candidate with a source. The candidate's first touch is
+ * moved to this touchpoint when it is the earliest one.
+ * @param client - Database client
+ * @param candidateId - Candidate who reached us
+ * @param source - Channel, sub-source and campaign parameters
+ * @param createdBy - User recording the touchpoint; null for public forms
+ * @param options - Application the touchpoint led to and when it happened
+ */
+export async function recordTouchpoint(
+  client: PoolClient,
+  candidateId: UUID,
+  source: SourceInput,
+  createdBy: UUID | null,
+  options: { applicationId?: UUID; occurredAt?: Date } = {}
+): Promise<SourceTouchpoint> {
+  const { rows: [touchpoint] } = await client.query<SourceTouchpoint>(
+    `INSERT INTO source_touchpoints (
+       candidate_id,
+       application_id,
+       channel,
+       sub_source,
+       utm_source,
+       utm_medium,
+       utm_campaign,
+       utm_term,
+       utm_content,
+       referrer_url,
+       occurred_at,
+       created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, COALESCE($11, NOW()), $12)
+     RETURNING *`,
+    [
+      candidateId,
+      options.applicationId ?? null,
+      source.channel,
+      source.sub_source ?? null,
+      source.utm_source ?? null,
+      source.utm_medium ?? null,
+      source.utm_campaign ?? null,
+      source.utm_term ?? null,
+      source.utm_content ?? null,
+      source.referrer_url ?? null,
+      options.occurredAt ?? null,
+      createdBy
+    ]
+  );
+
+  await client.query(
+    `UPDATE candidates c
+     SET first_touch_source_id = $2
+     WHERE c.id = $1
+       AND (
+         c.first_touch_source_id IS NULL
+         OR (SELECT occurred_at FROM source_touchpoints WHERE id = c.first_touch_source_id) > $3
+       )`,
+    [candidateId, touchpoint.id, touchpoint.occurred_at]
+  );
+
+  return touchpoint;
+}
+
+/**
+ * Attributes a new application to its sources. The first touch is the candidate's
+ * earliest touchpoint; the last touch is the given source, or the candidate's latest
+ * touchpoint when the application did not arrive through a source of its own.
+ * @param client - Database client inside the transaction creating the application
+ * @param application - Newly created application
+ * @param source - Source the application arrived through, if known
+ * @param createdBy - User creating the application; null for public forms
+ */
+export async function attributeApplication(
+  client: PoolClient,
+  application: Application,
+  source: SourceInput | undefined,
+  createdBy: UUID | null
+): Promise<Application> {
+  const lastTouch = source
+    ? await recordTouchpoint(client, application.candidate_id, source, createdBy, {
+        applicationId: application.id
+      })
+    : undefined;
+
+  const { rows: [attributed] } = await client.query<Application>(
+    `UPDATE applications a
+     SET first_touch_source_id = c.first_touch_source_id,
+         last_touch_source_id = COALESCE($3::uuid, (
+           SELECT id FROM source_touchpoints
+           WHERE candidate_id = c.id
+           ORDER BY occurred_at DESC
+           LIMIT 1
+         ))
+     FROM candidates c
+     WHERE a.id = $1 AND c.id = $2
+     RETURNING a.*`,
+    [application.id, application.candidate_id, lastTouch?.id ?? null]
+  );
+
+  return attributed ?? application;
+}
+
+/**
+ * Adds conversion rates to the funnel counts of a source; rates are shares of applicants
+ * @param row - Source and its funnel counts
+ */
+export function computeSourceEffectiveness(row: SourceCountsRow): SourceEffectiveness {
+  const applicants = Number(row.applicants);
+  const interviews = Number(row.interviews);
+  const offers = Number(row.offers);
+  const hires = Number(row.hires);
+  const rate = (count: number) => applicants ? Math.round((count / applicants) * 10000) / 10000 : 0;
+
+  return {
+    channel: row.channel,
+    sub_source: row.sub_source,
+    applicants,
+    interviews,
+    offers,
+    hires,
+    interview_rate: rate(interviews),
+    offer_rate: rate(offers),
+    hire_rate: rate(hires)
+  };
+}
+
+/**
+ * Counts applicants, interviews, offers and hires per source for applications created
+ * in a period. Applications without a credited touchpoint are grouped under a null channel.
+ * @param client - Database client
+ * @param params - Reporting period and optional job locations
+ * @param model - Touchpoint each application is credited to
+ */
+export async function getSourceEffectiveness(
+  client: PoolClient,
+  params: { start_date: Date; end_date: Date; locations?: string[] },
+  model: AttributionModel
+): Promise<SourceEffectiveness[]> {
+  const column = ATTRIBUTION_COLUMNS[model];
+
+  const { rows } = await client.query<SourceCountsRow>(
+    `WITH attributed AS (
+       SELECT s.channel,
+              s.sub_source,
+              EXISTS (
+                SELECT 1 FROM interviews i
+                WHERE i.candidate_id = a.candidate_id AND i.job_id = a.job_id
+              ) AS interviewed,
+              EXISTS (SELECT 1 FROM offers o WHERE o.application_id = a.id) AS offered,
+              a.status = $4 AS hired
+       FROM applications a
+       JOIN jobs j ON j.id = a.job_id
+       LEFT JOIN source_touchpoints s ON s.id = a.${column}
+       WHERE a.created_at >= $1
+         AND a.created_at <= $2
+         AND (cardinality($3::text[]) = 0 OR j.location = ANY($3::text[]))
+     )
+     SELECT channel,
+            sub_source,
+            COUNT(*) AS applicants,
+            COUNT(*) FILTER (WHERE interviewed) AS interviews,
+            COUNT(*) FILTER (WHERE offered) AS offers,
+            COUNT(*) FILTER (WHERE hired) AS hires
+     FROM attributed
+     GROUP BY channel, sub_source
+     ORDER BY applicants DESC, channel, sub_source`,
+    [params.start_date, params.end_date, params.locations ?? [], ApplicationStatus.OFFER_ACCEPTED]
+  );
+
+  return rows.map(computeSourceEffectiveness);
+}
@@ -34,6 +34,18 @@ interface FileDownloadOptions {
   forceDownload?: boolean;
 }
 
+/**
+ * Calculates the hex-encoded SHA-256 checksum of a file's contents
+ * @param file - File to hash
+ */
+async function calculateChecksum(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 class FileHandler {
   private supabaseClient;
   private virusScanner;
@@ -77,14 +89,6 @@ class FileHandler {
     }
   }
 
-  private async calculateChecksum(file: File): Promise<string> {
-    const buffer = await file.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-    return Array.from(new Uint8Array(hashBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-  }
-
   async validateFile(
     file: File,
     bucketName: keyof typeof storageConfig.buckets
@@ -140,7 +144,7 @@ class FileHandler {
     const fileId = uuidv4();
     const fileExtension = file.name.split('.').pop();
     const key = `${options.customPath || path}/${fileId}.${fileExtension}`;
-    const checksum = await this.calculateChecksum(file);
+    const checksum = await calculateChecksum(file);
 
     const metadata: FileMetadata = {
       id: fileId as any,
@@ -245,6 +249,41 @@ class FileHandler {
     }
   }
 
+  /**
+   * Storage key of a file from the CDN or signed URL it was stored under, or null when
+   * the URL is not in the bucket
+   */
+  getStorageKey(bucketName: keyof typeof storageConfig.buckets, url: string): string | null {
+    const path = decodeURIComponent(url.split(/[?#]/)[0]);
+    const bucketPrefix = `/${bucketName}/`;
+    const start = path.indexOf(bucketPrefix);
+    if (start === -1) {
+      return null;
+    }
+    const key = path.slice(start + bucketPrefix.length);
+    return key && !key.endsWith('/') ? key : null;
+  }
+
+  async deleteFile(
+    bucketName: keyof typeof storageConfig.buckets,
+    key: string
+  ): Promise<void> {
+    try {
+      await this.retryOperation(async () => {
+        const { error } = await this.supabaseClient.storage
+          .from(bucketName)
+          .remove([key]);
+
+        if (error) throw error;
+      });
+
+      this.logger.info('File deleted successfully', { bucket: bucketName, key });
+    } catch (error) {
+      this.logger.error('File deletion failed', { error, bucket: bucketName, key });
+      throw error;
+    }
+  }
+
   async generateSignedUrl(
     bucketName: keyof typeof storageConfig.buckets,
     key: string,
@@ -289,4 +328,4 @@ class FileHandler {
   }
 }
 
-export { FileHandler, type FileMetadata, type FileUploadOptions, type FileDownloadOptions };
\ No newline at end of file
+export { FileHandler, calculateChecksum, type FileMetadata, type FileUploadOptions, type FileDownloadOptions };
\ No newline at end of file
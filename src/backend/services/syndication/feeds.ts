@@ -0,0 +1,66 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { PUBLIC_JOB_COLUMNS } from '../../types/careers';
+import { JobStatus } from '../../types/jobs';
+import { FeedContext, FeedFormat, FeedPublisher, SyndicatedJob } from '../../types/syndication';
+import { serializeIndeedFeed } from './indeed';
+import { serializeAtomFeed, serializeRssFeed } from './rss';
+
+// Live jobs: published and not past a set closing date
+const LIVE_JOB_CONDITION = `status = '${JobStatus.PUBLISHED}' AND (closed_at IS NULL OR closed_at > NOW())`;
+
+/**
+ * Organization named in feeds and structured data, from the environment
+ */
+export function getFeedPublisher(): FeedPublisher {
+  return {
+    name: process.env.COMPANY_NAME ?? 'HotGigs',
+    url: process.env.COMPANY_URL ?? process.env.APP_URL ?? '',
+    ...(process.env.COMPANY_LOGO_URL ? { logo_url: process.env.COMPANY_LOGO_URL } : {})
+  };
+}
+
+/**
+ * Fingerprint of the live jobs. Publishing, editing, closing, filling or deleting a job
+ * and a closing date passing all change it, so cached feeds keyed by it never list a
+ * job that is no longer open.
+ * @param client - Database client
+ */
+export async function getFeedFingerprint(client: PoolClient): Promise<string> {
+  const { rows: [state] } = await client.query<{ live: number; last_updated: Date | null }>(
+    `SELECT COUNT(*) FILTER (WHERE ${LIVE_JOB_CONDITION})::int AS live,
+            MAX(updated_at) AS last_updated
+     FROM jobs`
+  );
+  return `${state.live}-${state.last_updated ? new Date(state.last_updated).getTime() : 0}`;
+}
+
+/**
+ * Lists the jobs to syndicate, newest first
+ * @param client - Database client
+ */
+export async function listSyndicatedJobs(client: PoolClient): Promise<SyndicatedJob[]> {
+  const { rows } = await client.query<SyndicatedJob>(
+    `SELECT ${PUBLIC_JOB_COLUMNS.join(', ')}, closed_at, updated_at
+     FROM jobs
+     WHERE ${LIVE_JOB_CONDITION}
+     ORDER BY posted_at DESC`
+  );
+  return rows;
+}
+
+/**
+ * Serializes jobs in the requested feed format
+ * @param format - Feed format
+ * @param jobs - Live jobs to syndicate
+ * @param context - Publisher, URLs and build date of the feed
+ */
+export function renderFeed(format: FeedFormat, jobs: SyndicatedJob[], context: FeedContext): string {
+  switch (format) {
+    case FeedFormat.INDEED:
+      return serializeIndeedFeed(jobs, context);
+    case FeedFormat.RSS:
+      return serializeRssFeed(jobs, context);
+    case FeedFormat.ATOM:
+      return serializeAtomFeed(jobs, context);
+  }
+}
@@ -0,0 +1,61 @@
+import { PublicJob } from '../../types/careers';
+
+/**
+ * Parts of a free-text job location such as "Austin, TX, US"
+ */
+export interface LocationParts {
+  locality: string;
+  region?: string;
+  country?: string;
+}
+
+/**
+ * Escapes text for use in XML element content and attribute values
+ * @param value - Raw text
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wraps text in a CDATA section, splitting any terminator inside the text
+ * @param value - Raw text, possibly containing markup
+ */
+export function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Splits a location into locality, region and country. Jobs store locations as
+ * entered, so anything beyond "locality, region, country" stays with the locality.
+ * @param location - Location as entered on the job
+ */
+export function splitLocation(location: string): LocationParts {
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length <= 1) {
+    return { locality: parts[0] ?? '' };
+  }
+  if (parts.length === 2) {
+    return { locality: parts[0], region: parts[1] };
+  }
+
+  const country = parts[parts.length - 1];
+  const region = parts[parts.length - 2];
+  return { locality: parts.slice(0, -2).join(', '), region, country };
+}
+
+/**
+ * Formats a job's yearly salary range for feeds that take it as text
+ * @param job - Salary bounds of the job
+ */
+export function formatSalaryRange(job: Pick<PublicJob, 'salary_min' | 'salary_max'>): string {
+  const format = (amount: number) => `$${amount.toLocaleString('en-US')}`;
+  return job.salary_min === job.salary_max
+    ? `${format(job.salary_min)} per year`
+    : `${format(job.salary_min)} - ${format(job.salary_max)} per year`;
+}
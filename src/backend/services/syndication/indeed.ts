@@ -0,0 +1,59 @@
+import { JobType } from '../../types/jobs';
+import { FeedContext, SyndicatedJob } from '../../types/syndication';
+import { buildCareerJobUrl } from '../careers/jobs';
+import { cdata, formatSalaryRange, splitLocation } from './format';
+
+// Indeed jobtype vocabulary; remote jobs leave the contract type out and are marked
+// through remotetype instead
+export const INDEED_JOB_TYPES: Record<JobType, string | null> = {
+  [JobType.FULL_TIME]: 'fulltime',
+  [JobType.PART_TIME]: 'parttime',
+  [JobType.CONTRACT]: 'contract',
+  [JobType.INTERNSHIP]: 'internship',
+  [JobType.REMOTE]: null
+};
+
+/**
+ * Serializes one job as an Indeed XML job element
+ */
+function serializeIndeedJob(job: SyndicatedJob, context: FeedContext): string {
+  const location = splitLocation(job.location);
+  const jobType = INDEED_JOB_TYPES[job.type];
+  const elements = [
+    `<title>${cdata(job.title)}</title>`,
+    `<date>${cdata(new Date(job.posted_at).toUTCString())}</date>`,
+    `<referencenumber>${cdata(job.id)}</referencenumber>`,
+    `<url>${cdata(buildCareerJobUrl(job.id, context.baseUrl))}</url>`,
+    `<company>${cdata(context.publisher.name)}</company>`,
+    `<city>${cdata(location.locality)}</city>`,
+    ...(location.region ? [`<state>${cdata(location.region)}</state>`] : []),
+    ...(location.country ? [`<country>${cdata(location.country)}</country>`] : []),
+    `<description>${cdata(job.description)}</description>`,
+    `<salary>${cdata(formatSalaryRange(job))}</salary>`,
+    ...(jobType ? [`<jobtype>${cdata(jobType)}</jobtype>`] : []),
+    ...(job.remote_allowed || job.type === JobType.REMOTE
+      ? [`<remotetype>${cdata('Fully remote')}</remotetype>`]
+      : []),
+    ...(job.closed_at ? [`<expirationdate>${cdata(new Date(job.closed_at).toUTCString())}</expirationdate>`] : [])
+  ];
+
+  return `  <job>\n${elements.map(element => `    ${element}`).join('\n')}\n  </job>`;
+}
+
+/**
+ * Serializes jobs as an Indeed-style XML feed
+ * @param jobs - Live jobs to syndicate
+ * @param context - Publisher, URLs and build date of the feed
+ */
+export function serializeIndeedFeed(jobs: SyndicatedJob[], context: FeedContext): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<source>',
+    `  <publisher>${cdata(context.publisher.name)}</publisher>`,
+    `  <publisherurl>${cdata(context.publisher.url)}</publisherurl>`,
+    `  <lastBuildDate>${context.generatedAt.toUTCString()}</lastBuildDate>`,
+    ...jobs.map(job => serializeIndeedJob(job, context)),
+    '</source>',
+    ''
+  ].join('\n');
+}
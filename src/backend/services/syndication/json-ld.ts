@@ -0,0 +1,82 @@
+import { PublicJob } from '../../types/careers';
+import { JobType } from '../../types/jobs';
+import { FeedPublisher, SyndicatedJob } from '../../types/syndication';
+import { buildCareerJobUrl } from '../careers/jobs';
+import { splitLocation } from './format';
+
+// schema.org employmentType vocabulary, as read by Google for Jobs. Remote says where
+// the work happens rather than how it is contracted, so it is reported as OTHER with a
+// telecommute location type.
+export const SCHEMA_ORG_EMPLOYMENT_TYPES: Record<JobType, string> = {
+  [JobType.FULL_TIME]: 'FULL_TIME',
+  [JobType.PART_TIME]: 'PART_TIME',
+  [JobType.CONTRACT]: 'CONTRACTOR',
+  [JobType.INTERNSHIP]: 'INTERN',
+  [JobType.REMOTE]: 'OTHER'
+};
+
+/**
+ * Builds the schema.org JobPosting of a published job, for embedding as JSON-LD in its
+ * public job page
+ * @param job - Published job; a set closing date becomes the posting's valid-through date
+ * @param publisher - Hiring organization
+ * @param baseUrl - Public application URL
+ */
+export function toJobPostingJsonLd(
+  job: PublicJob & Partial<Pick<SyndicatedJob, 'closed_at'>>,
+  publisher: FeedPublisher,
+  baseUrl?: string
+): Record<string, unknown> {
+  const location = splitLocation(job.location);
+  const isRemote = job.remote_allowed || job.type === JobType.REMOTE;
+
+  return {
+    '@context': 'https://schema.org/',
+    '@type': 'JobPosting',
+    title: job.title,
+    description: job.description,
+    identifier: {
+      '@type': 'PropertyValue',
+      name: publisher.name,
+      value: job.id
+    },
+    url: buildCareerJobUrl(job.id, baseUrl),
+    datePosted: new Date(job.posted_at).toISOString(),
+    ...(job.closed_at ? { validThrough: new Date(job.closed_at).toISOString() } : {}),
+    employmentType: SCHEMA_ORG_EMPLOYMENT_TYPES[job.type],
+    hiringOrganization: {
+      '@type': 'Organization',
+      name: publisher.name,
+      sameAs: publisher.url,
+      ...(publisher.logo_url ? { logo: publisher.logo_url } : {})
+    },
+    jobLocation: {
+      '@type': 'Place',
+      address: {
+        '@type': 'PostalAddress',
+        addressLocality: location.locality,
+        ...(location.region ? { addressRegion: location.region } : {}),
+        ...(location.country ? { addressCountry: location.country } : {})
+      }
+    },
+    ...(isRemote ? { jobLocationType: 'TELECOMMUTE' } : {}),
+    ...(isRemote && location.country ? {
+      applicantLocationRequirements: { '@type': 'Country', name: location.country }
+    } : {}),
+    baseSalary: {
+      '@type': 'MonetaryAmount',
+      currency: 'USD',
+      value: {
+        '@type': 'QuantitativeValue',
+        minValue: job.salary_min,
+        maxValue: job.salary_max,
+        unitText: 'YEAR'
+      }
+    },
+    skills: job.skills.join(', '),
+    experienceRequirements: {
+      '@type': 'OccupationalExperienceRequirements',
+      monthsOfExperience: job.requirements.years_experience * 12
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { JobType } from '../../types/jobs';
+import { FeedContext, SyndicatedJob } from '../../types/syndication';
+import { buildCareerJobUrl } from '../careers/jobs';
+import { escapeXml } from './format';
+
+// RSS and Atom have no employment vocabulary; job types become readable categories
+export const FEED_JOB_CATEGORIES: Record<JobType, { term: string; label: string }> = {
+  [JobType.FULL_TIME]: { term: 'full-time', label: 'Full-time' },
+  [JobType.PART_TIME]: { term: 'part-time', label: 'Part-time' },
+  [JobType.CONTRACT]: { term: 'contract', label: 'Contract' },
+  [JobType.INTERNSHIP]: { term: 'internship', label: 'Internship' },
+  [JobType.REMOTE]: { term: 'remote', label: 'Remote' }
+};
+
+/**
+ * Serializes jobs as an RSS 2.0 feed
+ * @param jobs - Live jobs to syndicate
+ * @param context - Publisher, URLs and build date of the feed
+ */
+export function serializeRssFeed(jobs: SyndicatedJob[], context: FeedContext): string {
+  const items = jobs.map(job => {
+    const url = escapeXml(buildCareerJobUrl(job.id, context.baseUrl));
+    return [
+      '    <item>',
+      `      <title>${escapeXml(`${job.title} (${job.location})`)}</title>`,
+      `      <link>${url}</link>`,
+      `      <guid isPermaLink="true">${url}</guid>`,
+      `      <pubDate>${new Date(job.posted_at).toUTCString()}</pubDate>`,
+      `      <category>${FEED_JOB_CATEGORIES[job.type].label}</category>`,
+      `      <description>${escapeXml(job.description)}</description>`,
+      '    </item>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(`Jobs at ${context.publisher.name}`)}</title>`,
+    `    <link>${escapeXml(`${context.baseUrl}/careers`)}</link>`,
+    `    <description>${escapeXml(`Open positions at ${context.publisher.name}`)}</description>`,
+    `    <atom:link href="${escapeXml(context.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${context.generatedAt.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serializes jobs as an Atom feed
+ * @param jobs - Live jobs to syndicate
+ * @param context - Publisher, URLs and build date of the feed; the feed URL is its id
+ */
+export function serializeAtomFeed(jobs: SyndicatedJob[], context: FeedContext): string {
+  // The feed changes whenever one of its jobs does
+  const updated = jobs.reduce(
+    (latest, job) => Math.max(latest, new Date(job.updated_at).getTime()),
+    jobs.length ? 0 : context.generatedAt.getTime()
+  );
+
+  const entries = jobs.map(job => {
+    const url = escapeXml(buildCareerJobUrl(job.id, context.baseUrl));
+    const category = FEED_JOB_CATEGORIES[job.type];
+    return [
+      '  <entry>',
+      `    <id>${url}</id>`,
+      `    <title>${escapeXml(`${job.title} (${job.location})`)}</title>`,
+      `    <link rel="alternate" href="${url}"/>`,
+      `    <published>${new Date(job.posted_at).toISOString()}</published>`,
+      `    <updated>${new Date(job.updated_at).toISOString()}</updated>`,
+      `    <category term="${category.term}" label="${category.label}"/>`,
+      `    <summary type="html">${escapeXml(job.description)}</summary>`,
+      '  </entry>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(context.feedUrl)}</id>`,
+    `  <title>${escapeXml(`Jobs at ${context.publisher.name}`)}</title>`,
+    `  <link rel="self" href="${escapeXml(context.feedUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(`${context.baseUrl}/careers`)}"/>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(context.publisher.name)}</name></author>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,260 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, UUID } from '../../types/common';
+import { DEFAULT_TAG_COLOR, Tag, TagCreate, TagListQuery, TagUpdate, TagWithUsage } from '../../types/tags';
+import { AppError } from '../../utils/error-handler';
+
+/**
+ * Lists tags with the number of candidates carrying them, curated tags first and then
+ * by category and name
+ * @param client - Database client
+ * @param query - Optional name search, category and curated filter
+ */
+export async function listTags(client: PoolClient, query: TagListQuery = {}): Promise<TagWithUsage[]> {
+  const values: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (query.q) {
+    values.push(`%${query.q}%`);
+    conditions.push(`t.name ILIKE $${values.length}`);
+  }
+  if (query.category) {
+    values.push(query.category);
+    conditions.push(`t.category = $${values.length}`);
+  }
+  if (query.curated !== undefined) {
+    values.push(query.curated);
+    conditions.push(`t.is_curated = $${values.length}`);
+  }
+
+  const { rows } = await client.query<TagWithUsage>(
+    `SELECT t.*, (SELECT COUNT(*)::int FROM candidate_tags ct WHERE ct.tag_id = t.id) AS candidate_count
+     FROM tags t
+     ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY t.is_curated DESC, t.category NULLS LAST, lower(t.name)`,
+    values
+  );
+  return rows;
+}
+
+/**
+ * Rejects a tag name already used by another tag, ignoring case
+ * @param client - Database client
+ * @param name - Tag name
+ * @param excludeId - Tag being renamed
+ */
+async function assertTagNameAvailable(client: PoolClient, name: string, excludeId?: UUID): Promise<void> {
+  const { rows: [existing] } = await client.query<{ id: UUID; name: string }>(
+    'SELECT id, name FROM tags WHERE lower(name) = lower($1) AND ($2::uuid IS NULL OR id <> $2)',
+    [name, excludeId ?? null]
+  );
+  if (existing) {
+    throw new AppError(`A tag named "${existing.name}" already exists`, ErrorCode.CONFLICT, { tagId: existing.id });
+  }
+}
+
+/**
+ * Creates a tag
+ * @param client - Database client
+ * @param input - Validated tag
+ * @param createdBy - User creating the tag
+ * @throws AppError when a tag with the same name exists
+ */
+export async function createTag(client: PoolClient, input: TagCreate, createdBy: UUID): Promise<Tag> {
+  await assertTagNameAvailable(client, input.name);
+
+  const { rows: [tag] } = await client.query<Tag>(
+    `INSERT INTO tags (name, color, category, is_curated, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [input.name, input.color, input.category ?? null, input.is_curated, createdBy]
+  );
+  return tag;
+}
+
+/**
+ * Finds tags by name, ignoring case, and creates free-form tags for names that do not
+ * exist yet
+ * @param client - Database client
+ * @param names - Tag names
+ * @param createdBy - User the new tags are created by
+ */
+export async function resolveTagNames(client: PoolClient, names: string[], createdBy: UUID): Promise<Tag[]> {
+  // New tags keep the first spelling given
+  const byKey = new Map<string, string>();
+  for (const name of names) {
+    const key = name.trim().toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, name.trim());
+  }
+  const unique = [...byKey.values()];
+  if (!unique.length) return [];
+
+  await client.query(
+    `INSERT INTO tags (name, color, created_by)
+     SELECT name, $2, $3 FROM unnest($1::text[]) AS name
+     ON CONFLICT ((lower(name))) DO NOTHING`,
+    [unique, DEFAULT_TAG_COLOR, createdBy]
+  );
+
+  const { rows } = await client.query<Tag>(
+    'SELECT * FROM tags WHERE lower(name) = ANY($1::text[])',
+    [unique.map(name => name.toLowerCase())]
+  );
+  return rows;
+}
+
+/**
+ * Retrieves a tag, locking it for the rest of the transaction
+ * @throws AppError when the tag does not exist
+ */
+async function lockTag(client: PoolClient, tagId: UUID): Promise<Tag> {
+  const { rows: [tag] } = await client.query<Tag>('SELECT * FROM tags WHERE id = $1 FOR UPDATE', [tagId]);
+  if (!tag) {
+    throw new AppError('Tag not found', ErrorCode.NOT_FOUND, { tagId });
+  }
+  return tag;
+}
+
+/**
+ * Renames, recolours or recategorizes a tag, or adds it to or removes it from the
+ * curated set. Renaming applies to every candidate carrying the tag.
+ * @param client - Database client, in a transaction
+ * @param tagId - Tag to edit
+ * @param update - Validated changes
+ * @throws AppError when the tag does not exist or the new name is taken
+ */
+export async function updateTag(client: PoolClient, tagId: UUID, update: TagUpdate): Promise<Tag> {
+  const current = await lockTag(client, tagId);
+  if (update.name !== undefined && update.name.toLowerCase() !== current.name.toLowerCase()) {
+    await assertTagNameAvailable(client, update.name, tagId);
+  }
+
+  const { rows: [tag] } = await client.query<Tag>(
+    `UPDATE tags
+     SET name = $2, color = $3, category = $4, is_curated = $5
+     WHERE id = $1
+     RETURNING *`,
+    [
+      tagId,
+      update.name ?? current.name,
+      update.color ?? current.color,
+      update.category !== undefined ? update.category : current.category,
+      update.is_curated ?? current.is_curated
+    ]
+  );
+  return tag;
+}
+
+/**
+ * Merges tags into another: candidates carrying any of the merged tags carry the
+ * target instead, and the merged tags are deleted
+ * @param client - Database client, in a transaction
+ * @param sourceIds - Tags merged away
+ * @param targetId - Tag that is kept
+ * @returns The target tag and the number of candidates newly given it
+ * @throws AppError when a tag does not exist
+ */
+export async function mergeTags(
+  client: PoolClient,
+  sourceIds: UUID[],
+  targetId: UUID
+): Promise<{ tag: Tag; candidates_moved: number }> {
+  const tag = await lockTag(client, targetId);
+  const { rows: sources } = await client.query<{ id: UUID }>(
+    'SELECT id FROM tags WHERE id = ANY($1::uuid[]) FOR UPDATE',
+    [sourceIds]
+  );
+  const missing = sourceIds.filter(id => !sources.some(source => source.id === id));
+  if (missing.length) {
+    throw new AppError('Tag not found', ErrorCode.NOT_FOUND, { tagIds: missing });
+  }
+
+  // Candidates that already carry the target keep their original tagging
+  const { rowCount } = await client.query(
+    `INSERT INTO candidate_tags (candidate_id, tag_id, added_by, added_at)
+     SELECT DISTINCT ON (candidate_id) candidate_id, $2, added_by, added_at
+     FROM candidate_tags
+     WHERE tag_id = ANY($1::uuid[])
+     ORDER BY candidate_id, added_at
+     ON CONFLICT (candidate_id, tag_id) DO NOTHING`,
+    [sourceIds, targetId]
+  );
+  await client.query('DELETE FROM tags WHERE id = ANY($1::uuid[])', [sourceIds]);
+
+  return { tag, candidates_moved: rowCount ?? 0 };
+}
+
+/**
+ * Deletes a tag and removes it from every candidate
+ * @param client - Database client
+ * @param tagId - Tag to delete
+ * @returns The deleted tag and the number of candidates that carried it
+ * @throws AppError when the tag does not exist
+ */
+export async function deleteTag(client: PoolClient, tagId: UUID): Promise<{ tag: Tag; candidate_count: number }> {
+  const tag = await lockTag(client, tagId);
+  const { rowCount } = await client.query('DELETE FROM candidate_tags WHERE tag_id = $1', [tagId]);
+  await client.query('DELETE FROM tags WHERE id = $1', [tagId]);
+  return { tag, candidate_count: rowCount ?? 0 };
+}
+
+/**
+ * Adds and removes tags on many candidates at once. Tags already on a candidate are
+ * left as they are.
+ * @param client - Database client, in a transaction
+ * @param candidateIds - Candidates to tag
+ * @param changes - Tags to add and to remove
+ * @param userId - User tagging the candidates
+ * @returns Number of tags added and removed
+ * @throws AppError when a candidate or tag does not exist
+ */
+export async function setCandidateTags(
+  client: PoolClient,
+  candidateIds: UUID[],
+  changes: { add: UUID[]; remove: UUID[] },
+  userId: UUID
+): Promise<{ added: number; removed: number }> {
+  const uniqueCandidates = [...new Set(candidateIds)];
+  const { rows: candidates } = await client.query<{ id: UUID }>(
+    'SELECT id FROM candidates WHERE id = ANY($1::uuid[]) AND merged_into_id IS NULL AND anonymized_at IS NULL',
+    [uniqueCandidates]
+  );
+  if (candidates.length !== uniqueCandidates.length) {
+    const found = new Set(candidates.map(candidate => candidate.id));
+    throw new AppError('Candidate not found', ErrorCode.NOT_FOUND, {
+      candidateIds: uniqueCandidates.filter(id => !found.has(id))
+    });
+  }
+
+  const tagIds = [...new Set([...changes.add, ...changes.remove])];
+  if (tagIds.length) {
+    const { rows: tags } = await client.query<{ id: UUID }>('SELECT id FROM tags WHERE id = ANY($1::uuid[])', [tagIds]);
+    if (tags.length !== tagIds.length) {
+      const found = new Set(tags.map(tag => tag.id));
+      throw new AppError('Tag not found', ErrorCode.NOT_FOUND, { tagIds: tagIds.filter(id => !found.has(id)) });
+    }
+  }
+
+  let added = 0;
+  if (changes.add.length) {
+    const result = await client.query(
+      `INSERT INTO candidate_tags (candidate_id, tag_id, added_by)
+       SELECT candidate_id, tag_id, $3
+       FROM unnest($1::uuid[]) AS candidate_id
+       CROSS JOIN unnest($2::uuid[]) AS tag_id
+       ON CONFLICT (candidate_id, tag_id) DO NOTHING`,
+      [uniqueCandidates, [...new Set(changes.add)], userId]
+    );
+    added = result.rowCount ?? 0;
+  }
+
+  let removed = 0;
+  if (changes.remove.length) {
+    const result = await client.query(
+      'DELETE FROM candidate_tags WHERE candidate_id = ANY($1::uuid[]) AND tag_id = ANY($2::uuid[])',
+      [uniqueCandidates, changes.remove]
+    );
+    removed = result.rowCount ?? 0;
+  }
+
+  return { added, removed };
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'; // ^0.34.0
+import { UUID } from '../../types/common';
+import { ApplicationStatus } from '../../types/candidates';
+import {
+  StageHistoryEntry,
+  applicationCreateSchema,
+  applicationListParamsSchema,
+  applicationUpdateSchema
+} from '../../types/applications';
+import {
+  appendStageHistory,
+  createStageHistoryEntry
+} from '../../services/pipeline/stage-history';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const ACTOR_ID = '5f8d0d55-b3a4-4a8e-9c1a-2f6f0c7e1d11' as UUID;
+const JOB_ID = '9b2c4e6a-1d3f-4b5a-8c7e-0f1a2b3c4d5e';
+const CANDIDATE_ID = '1a2b3c4d-5e6f-4a8b-9c0d-1e2f3a4b5c6d';
+
+describe('Application Management', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Stage History', () => {
+    it('should record actor and timestamp for a stage change', () => {
+      const entry = createStageHistoryEntry(
+        ApplicationStatus.APPLIED,
+        ApplicationStatus.SCREENING,
+        ACTOR_ID
+      );
+
+      expect(entry).toEqual({
+        from_status: ApplicationStatus.APPLIED,
+        to_status: ApplicationStatus.SCREENING,
+        actor_id: ACTOR_ID,
+        changed_at: '2024-01-15T10:00:00.000Z'
+      });
+    });
+
+    it('should allow a null source status for new applications', () => {
+      const entry = createStageHistoryEntry(null, ApplicationStatus.APPLIED, ACTOR_ID);
+      expect(entry.from_status).toBeNull();
+    });
+
+    it('should include the reason when provided', () => {
+      const entry = createStageHistoryEntry(
+        ApplicationStatus.INTERVIEWING,
+        ApplicationStatus.REJECTED,
+        ACTOR_ID,
+        'Skills mismatch'
+      );
+      expect(entry.reason).toBe('Skills mismatch');
+    });
+
+    it('should reject an invalid actor id', () => {
+      expect(() => createStageHistoryEntry(
+        ApplicationStatus.APPLIED,
+        ApplicationStatus.SCREENING,
+        'not-a-uuid' as UUID
+      )).toThrow();
+    });
+
+    it('should append without mutating existing history', () => {
+      const existing: StageHistoryEntry[] = [
+        createStageHistoryEntry(null, ApplicationStatus.APPLIED, ACTOR_ID)
+      ];
+      const next = createStageHistoryEntry(
+        ApplicationStatus.APPLIED,
+        ApplicationStatus.SCREENING,
+        ACTOR_ID
+      );
+
+      const updated = appendStageHistory(existing, next);
+
+      expect(updated).toHaveLength(2);
+      expect(updated[1]).toBe(next);
+      expect(existing).toHaveLength(1);
+    });
+
+    it('should treat missing history as empty', () => {
+      const entry = createStageHistoryEntry(null, ApplicationStatus.APPLIED, ACTOR_ID);
+      expect(appendStageHistory(null, entry)).toEqual([entry]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should default new applications to APPLIED', async () => {
+      const validated = await validateInput(applicationCreateSchema, {
+        job_id: JOB_ID,
+        candidate_id: CANDIDATE_ID
+      });
+      expect(validated.status).toBe(ApplicationStatus.APPLIED);
+      expect(validated.metadata).toEqual({});
+    });
+
+    it('should reject an empty update payload', async () => {
+      await expect(validateInput(applicationUpdateSchema, {})).rejects.toThrow(AppError);
+    });
+
+    it('should reject unknown statuses', async () => {
+      await expect(validateInput(applicationUpdateSchema, {
+        status: 'HIRED'
+      })).rejects.toThrow(AppError);
+    });
+
+    it('should require a job or candidate filter when listing', async () => {
+      await expect(validateInput(applicationListParamsSchema, {})).rejects.toThrow(AppError);
+
+      const validated = await validateInput(applicationListParamsSchema, { job_id: JOB_ID });
+      expect(validated).toMatchObject({ job_id: JOB_ID, page: 1, limit: 50 });
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { UserRole } from '../../types/auth';
+import {
+  ApprovalDecision,
+  ApprovalEntityType,
+  ApprovalRequestStep,
+  ApprovalStatus,
+  ApprovalStepStatus,
+  approvalChainStepInputSchema,
+  approvalDecisionSchema
+} from '../../types/approvals';
+import {
+  applyApprovalDecision,
+  findDecidableStep,
+  getActiveStepOrder,
+  isStepApprover,
+  resolveApprovalStatus
+} from '../../services/approvals/engine';
+import { withdrawApprovals } from '../../services/approvals/requests';
+import { canRequestApproval } from '../../services/approvals/subjects';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const REQUEST_ID = '5d6e7f8a-9b0c-4d1e-8f2a-3b4c5d6e7f8a' as UUID;
+const JOB_ID = '4c5d6e7f-8a9b-4c0d-9e1f-2a3b4c5d6e7f' as UUID;
+const REQUESTER_ID = '8e9f0a1b-2c3d-4e5f-8a6b-7c8d9e0f1a2b' as UUID;
+const FINANCE_ID = '2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f' as UUID;
+const RECRUITER_ID = '6b7c8d9e-0f1a-4b2c-9d3e-4f5a6b7c8d9e' as UUID;
+const MANAGER_STEP_ID = '1f2a3b4c-5d6e-4f7a-8b9c-0d1e2f3a4b5c' as UUID;
+const FINANCE_STEP_ID = '2a3b4c5d-6e7f-4a8b-9c0d-1e2f3a4b5c6d' as UUID;
+const RECRUITER_STEP_ID = '3b4c5d6e-7f8a-4b9c-8d0e-2f3a4b5c6d7e' as UUID;
+const DECIDED_AT = new Date('2024-01-20T10:00:00.000Z');
+
+const createStep = (
+  id: UUID,
+  step_order: number,
+  approver: { approver_role?: UserRole; approver_id?: UUID },
+  status: ApprovalStepStatus = ApprovalStepStatus.PENDING
+): ApprovalRequestStep => ({
+  id,
+  request_id: REQUEST_ID,
+  step_order,
+  approver_role: approver.approver_role ?? null,
+  approver_id: approver.approver_id ?? null,
+  status,
+  decided_by: null,
+  decided_at: null,
+  comment: null,
+  last_reminded_at: null,
+  created_at: new Date('2024-01-15'),
+  updated_at: new Date('2024-01-15')
+});
+
+// Hiring manager approval first, then finance and a recruiter in parallel
+const createSteps = () => [
+  createStep(MANAGER_STEP_ID, 0, { approver_role: UserRole.HIRING_MANAGER }),
+  createStep(FINANCE_STEP_ID, 1, { approver_id: FINANCE_ID }),
+  createStep(RECRUITER_STEP_ID, 1, { approver_role: UserRole.RECRUITER })
+];
+
+describe('Approval Chains', () => {
+  describe('Validation', () => {
+    it('should require exactly one approver on a chain step', async () => {
+      await expect(validateInput(approvalChainStepInputSchema, {
+        step_order: 0
+      })).rejects.toThrow(AppError);
+
+      await expect(validateInput(approvalChainStepInputSchema, {
+        step_order: 0,
+        approver_role: UserRole.ADMIN,
+        approver_id: FINANCE_ID
+      })).rejects.toThrow(AppError);
+
+      await expect(validateInput(approvalChainStepInputSchema, {
+        step_order: 0,
+        approver_role: UserRole.CANDIDATE
+      })).rejects.toThrow(AppError);
+    });
+
+    it('should require a comment when rejecting', async () => {
+      await expect(validateInput(approvalDecisionSchema, {
+        decision: ApprovalDecision.REJECT
+      })).rejects.toThrow(AppError);
+
+      const validated = await validateInput(approvalDecisionSchema, {
+        decision: ApprovalDecision.APPROVE
+      });
+      expect(validated.comment).toBeUndefined();
+    });
+  });
+
+  describe('Step resolution', () => {
+    it('should activate the lowest step order with pending steps', () => {
+      const steps = createSteps();
+      expect(getActiveStepOrder(steps)).toBe(0);
+
+      steps[0].status = ApprovalStepStatus.APPROVED;
+      expect(getActiveStepOrder(steps)).toBe(1);
+
+      steps[1].status = ApprovalStepStatus.APPROVED;
+      steps[2].status = ApprovalStepStatus.APPROVED;
+      expect(getActiveStepOrder(steps)).toBeNull();
+    });
+
+    it('should match named approvers by id before role', () => {
+      const [byRole, byId] = createSteps();
+
+      expect(isStepApprover(byRole, { sub: RECRUITER_ID, role: UserRole.HIRING_MANAGER })).toBe(true);
+      expect(isStepApprover(byId, { sub: FINANCE_ID, role: UserRole.ADMIN })).toBe(true);
+      expect(isStepApprover(byId, { sub: RECRUITER_ID, role: UserRole.ADMIN })).toBe(false);
+    });
+
+    it('should only let approvers of the active step decide', () => {
+      const request = { status: ApprovalStatus.PENDING, requested_by: REQUESTER_ID, steps: createSteps() };
+
+      expect(() => findDecidableStep(request, { sub: FINANCE_ID, role: UserRole.ADMIN }))
+        .toThrow('No approval step is awaiting your decision');
+      expect(findDecidableStep(request, { sub: RECRUITER_ID, role: UserRole.HIRING_MANAGER }).id)
+        .toBe(MANAGER_STEP_ID);
+    });
+
+    it('should not let requesters approve their own request', () => {
+      const request = { status: ApprovalStatus.PENDING, requested_by: REQUESTER_ID, steps: createSteps() };
+
+      expect(() => findDecidableStep(request, { sub: REQUESTER_ID, role: UserRole.HIRING_MANAGER }))
+        .toThrow('Requesters cannot decide on their own approval request');
+    });
+
+    it('should reject decisions on completed requests', () => {
+      const request = { status: ApprovalStatus.APPROVED, requested_by: REQUESTER_ID, steps: createSteps() };
+
+      expect(() => findDecidableStep(request, { sub: RECRUITER_ID, role: UserRole.HIRING_MANAGER }))
+        .toThrow('Approval request is no longer pending');
+    });
+  });
+
+  describe('Decisions', () => {
+    it('should wait for every parallel approver before approving', () => {
+      const first = applyApprovalDecision(
+        createSteps(), MANAGER_STEP_ID, ApprovalDecision.APPROVE, RECRUITER_ID, null, DECIDED_AT
+      );
+      expect(first.status).toBe(ApprovalStatus.PENDING);
+
+      const second = applyApprovalDecision(
+        first.steps, FINANCE_STEP_ID, ApprovalDecision.APPROVE, FINANCE_ID, 'Within budget', DECIDED_AT
+      );
+      expect(second.status).toBe(ApprovalStatus.PENDING);
+      expect(second.steps[1]).toMatchObject({
+        status: ApprovalStepStatus.APPROVED,
+        decided_by: FINANCE_ID,
+        decided_at: DECIDED_AT,
+        comment: 'Within budget'
+      });
+
+      const third = applyApprovalDecision(
+        second.steps, RECRUITER_STEP_ID, ApprovalDecision.APPROVE, RECRUITER_ID, null, DECIDED_AT
+      );
+      expect(third.status).toBe(ApprovalStatus.APPROVED);
+    });
+
+    it('should skip the remaining steps when a step is rejected', () => {
+      const { steps, status } = applyApprovalDecision(
+        createSteps(), MANAGER_STEP_ID, ApprovalDecision.REJECT, RECRUITER_ID, 'Headcount frozen', DECIDED_AT
+      );
+
+      expect(status).toBe(ApprovalStatus.REJECTED);
+      expect(steps.map(step => step.status)).toEqual([
+        ApprovalStepStatus.REJECTED,
+        ApprovalStepStatus.SKIPPED,
+        ApprovalStepStatus.SKIPPED
+      ]);
+    });
+
+    it('should resolve the request status from its steps', () => {
+      expect(resolveApprovalStatus([])).toBe(ApprovalStatus.APPROVED);
+      expect(resolveApprovalStatus([
+        { status: ApprovalStepStatus.APPROVED },
+        { status: ApprovalStepStatus.REJECTED },
+        { status: ApprovalStepStatus.SKIPPED }
+      ])).toBe(ApprovalStatus.REJECTED);
+    });
+  });
+
+  describe('Access', () => {
+    it('should let hiring managers request approval only for their own jobs', () => {
+      const subject = { ownerId: REQUESTER_ID };
+
+      expect(canRequestApproval(subject, { sub: REQUESTER_ID, role: UserRole.HIRING_MANAGER })).toBe(true);
+      expect(canRequestApproval(subject, { sub: FINANCE_ID, role: UserRole.HIRING_MANAGER })).toBe(false);
+      expect(canRequestApproval(subject, { sub: RECRUITER_ID, role: UserRole.RECRUITER })).toBe(true);
+    });
+  });
+
+  describe('Withdrawal', () => {
+    it('should withdraw granted as well as pending approvals of an edited job', async () => {
+      const client = { query: vi.fn().mockResolvedValue({ rows: [{ id: REQUEST_ID }] }) } as unknown as PoolClient;
+
+      const withdrawn = await withdrawApprovals(client, ApprovalEntityType.JOB, JOB_ID);
+
+      const [[sql, values]] = vi.mocked(client.query).mock.calls;
+      expect(sql).toContain('status = ANY($4)');
+      expect(values).toEqual([
+        ApprovalEntityType.JOB,
+        JOB_ID,
+        ApprovalStatus.CANCELLED,
+        [ApprovalStatus.PENDING, ApprovalStatus.APPROVED]
+      ]);
+      expect(withdrawn).toEqual([REQUEST_ID]);
+    });
+  });
+});
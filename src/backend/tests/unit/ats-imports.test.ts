@@ -0,0 +1,302 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  AtsEntityType,
+  AtsImportSource,
+  ReconciliationOutcome
+} from '../../types/ats-imports';
+import { ApplicationStatus } from '../../types/candidates';
+import { JobStatus, JobType } from '../../types/jobs';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { buildApplicationHistory, toApplicationStatus } from '../../services/imports/adapters/common';
+import { convertAtsExport } from '../../services/imports/adapters';
+import { runAtsImport, toReconciliationCsv } from '../../services/imports/ats-imports';
+
+// Test data fixtures
+const USER_ID = '0c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f' as UUID;
+const EXISTING_CANDIDATE_ID = '5e6f7a8b-9c0d-4e1f-8a2b-3c4d5e6f7a8b' as UUID;
+
+const greenhouseExport = {
+  jobs: [{
+    id: 4001,
+    requisition_id: 'ENG-12',
+    name: 'Backend Engineer',
+    content: '<p>Build the APIs behind our hiring products.</p>',
+    status: 'open',
+    offices: [{ name: 'Berlin', location: { name: 'Berlin, Germany' } }],
+    custom_fields: [{ name: 'Employment Type', value: 'Contract' }],
+    opened_at: '2026-03-01T09:00:00Z',
+    closed_at: null
+  }],
+  candidates: [{
+    id: 9001,
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    email_addresses: [{ value: 'ada@work.example', type: 'work' }, { value: 'Ada@Example.com', type: 'personal' }],
+    phone_numbers: [],
+    tags: ['Analytics', 'Python', 'Analytics'],
+    employments: [
+      { company_name: 'Analytical Engines', title: 'Engineer', start_date: '2018-01-01', end_date: null },
+      { company_name: '', title: 'Consultant', start_date: '2015-01-01', end_date: '2017-12-31' }
+    ],
+    educations: [],
+    applications: [
+      {
+        id: 7001,
+        applied_at: '2026-03-05T10:00:00Z',
+        last_activity_at: '2026-03-12T10:00:00Z',
+        status: 'active',
+        current_stage: { name: 'Technical Interview' },
+        jobs: [{ id: 4001 }]
+      },
+      { id: 7002, prospect: true, applied_at: '2026-03-06T10:00:00Z', jobs: [] }
+    ]
+  }]
+};
+
+const leverExport = {
+  stages: [{ id: 'stage-screen', text: 'Phone Screen' }, { id: 'stage-onsite', text: 'On-site' }],
+  archiveReasons: [{ id: 'reason-hired', text: 'Hired' }],
+  postings: [{
+    id: 'posting-1',
+    text: 'Product Designer',
+    state: 'published',
+    categories: { commitment: 'Part-time', location: 'Remote' },
+    content: { description: 'Design the recruiter workspace.', lists: [{ text: 'Requirements', content: '<li>Figma</li>' }] },
+    tags: ['Figma'],
+    salaryRange: { min: 70000, max: 90000 },
+    createdAt: 1772352000000
+  }],
+  opportunities: [{
+    id: 'opp-1',
+    contact: 'contact-1',
+    name: 'Grace Hopper',
+    emails: ['grace@example.com'],
+    phones: [{ value: '+1 555 0100' }],
+    tags: ['Design'],
+    createdAt: 1772438400000,
+    applications: [{ id: 'app-1', posting: 'posting-1', createdAt: 1772438400000 }],
+    stageChanges: [
+      { toStageId: 'stage-onsite', updatedAt: 1772611200000 },
+      { toStageId: 'stage-screen', updatedAt: 1772524800000 }
+    ],
+    archived: { reason: 'reason-hired', archivedAt: 1772784000000 }
+  }]
+};
+
+const workableExport = {
+  jobs: [{
+    shortcode: 'ABC123',
+    title: 'Data Analyst',
+    state: 'published',
+    description: '<p>Turn hiring data into insight.</p>',
+    location: { city: 'Lisbon', country: 'Portugal', telecommuting: false },
+    created_at: '2026-02-01T00:00:00Z'
+  }],
+  candidates: [
+    {
+      id: 'w-2',
+      name: 'Alan Turing',
+      email: 'alan@example.com',
+      stage: 'Interview',
+      disqualified: true,
+      disqualified_at: '2026-02-20T00:00:00Z',
+      job: { shortcode: 'ABC123' },
+      created_at: '2026-02-10T00:00:00Z'
+    },
+    {
+      id: 'w-1',
+      name: 'Alan Turing',
+      email: 'Alan@Example.com',
+      stage: 'Applied',
+      disqualified: false,
+      job: { shortcode: 'XYZ999' },
+      created_at: '2026-01-15T00:00:00Z'
+    }
+  ]
+};
+
+const jsonResume = {
+  basics: {
+    name: 'Katherine Johnson',
+    email: 'Katherine@Example.com',
+    location: { city: 'Hampton', region: 'Virginia', countryCode: 'US' }
+  },
+  work: [{ name: 'NASA', position: 'Mathematician', startDate: '2010-06', highlights: ['Orbital mechanics'] }],
+  education: [{ institution: 'West Virginia State College', area: 'Mathematics', startDate: '2004' }],
+  skills: [{ name: 'Mathematics', keywords: ['Orbital mechanics', 'Mathematics'] }]
+};
+
+const createMockClient = () => ({
+  query: vi.fn().mockImplementation(async (sql: string) =>
+    sql.includes('normalized_email = $1') ? { rows: [{ id: EXISTING_CANDIDATE_ID }] } : { rows: [] }
+  )
+}) as unknown as PoolClient & { query: ReturnType<typeof vi.fn> };
+
+describe('ATS Imports', () => {
+  describe('Adapters', () => {
+    it('should convert a Greenhouse export and report what was left out', () => {
+      const atsExport = convertAtsExport(greenhouseExport);
+
+      expect(atsExport.source).toBe(AtsImportSource.GREENHOUSE);
+      expect(atsExport.jobs[0]).toMatchObject({
+        external_id: '4001',
+        description: 'Build the APIs behind our hiring products.',
+        status: JobStatus.PUBLISHED,
+        type: JobType.CONTRACT,
+        location: 'Berlin, Germany'
+      });
+      expect(atsExport.candidates[0]).toMatchObject({
+        external_id: '9001',
+        full_name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        skills: ['Analytics', 'Python']
+      });
+      expect(atsExport.candidates[0].experience).toHaveLength(1);
+      expect(atsExport.applications).toHaveLength(1);
+      expect(atsExport.applications[0]).toMatchObject({
+        external_id: '7001',
+        job_external_id: '4001',
+        status: ApplicationStatus.INTERVIEWING
+      });
+      expect(atsExport.issues.map(issue => [issue.entity_type, issue.external_id])).toEqual([
+        [AtsEntityType.CANDIDATE, '9001'],
+        [AtsEntityType.APPLICATION, '7002']
+      ]);
+    });
+
+    it('should replay Lever stage changes in date order', () => {
+      const atsExport = convertAtsExport(leverExport);
+
+      expect(atsExport.source).toBe(AtsImportSource.LEVER);
+      expect(atsExport.jobs[0]).toMatchObject({
+        type: JobType.PART_TIME,
+        remote_allowed: true,
+        salary_min: 70000,
+        salary_max: 90000
+      });
+      expect(atsExport.jobs[0].description).toContain('Requirements\nFigma');
+      expect(atsExport.candidates[0].external_id).toBe('contact-1');
+      expect(atsExport.applications[0].history.map(event => event.status)).toEqual([
+        ApplicationStatus.APPLIED,
+        ApplicationStatus.SCREENING,
+        ApplicationStatus.INTERVIEWING,
+        ApplicationStatus.OFFER_ACCEPTED
+      ]);
+      expect(atsExport.applications[0].status).toBe(ApplicationStatus.OFFER_ACCEPTED);
+    });
+
+    it('should combine Workable records of one person under the oldest record', () => {
+      const atsExport = convertAtsExport(workableExport);
+
+      expect(atsExport.source).toBe(AtsImportSource.WORKABLE);
+      expect(atsExport.jobs[0]).toMatchObject({ external_id: 'ABC123', location: 'Lisbon, Portugal' });
+      expect(atsExport.candidates).toHaveLength(1);
+      expect(atsExport.candidates[0].external_id).toBe('w-1');
+      expect(atsExport.applications.map(application => [application.external_id, application.candidate_external_id, application.status])).toEqual([
+        ['w-1', 'w-1', ApplicationStatus.APPLIED],
+        ['w-2', 'w-1', ApplicationStatus.REJECTED]
+      ]);
+    });
+
+    it('should convert JSON Resume documents into candidates', () => {
+      const atsExport = convertAtsExport([jsonResume]);
+
+      expect(atsExport.source).toBe(AtsImportSource.JSON_RESUME);
+      expect(atsExport.jobs).toEqual([]);
+      expect(atsExport.candidates[0]).toMatchObject({
+        external_id: 'katherine@example.com',
+        location: 'Hampton, Virginia, US',
+        skills: ['Mathematics', 'Orbital mechanics']
+      });
+      expect(atsExport.candidates[0].experience[0]).toMatchObject({ company: 'NASA', is_current: true });
+      expect(atsExport.candidates[0].education[0]).toMatchObject({
+        degree: 'Not specified',
+        field_of_study: 'Mathematics'
+      });
+    });
+
+    it('should reject exports that do not match the named system', () => {
+      expect(() => convertAtsExport(jsonResume, AtsImportSource.LEVER)).toThrow('The file is not a Lever export');
+      expect(() => convertAtsExport({ rows: [] })).toThrow(AppError);
+      try {
+        convertAtsExport({ jobs: [], candidates: [] }, AtsImportSource.GREENHOUSE);
+        expect.fail('Expected the export to be rejected');
+      } catch (error) {
+        expect((error as AppError).code).toBe(ErrorCode.VALIDATION_ERROR);
+      }
+    });
+  });
+
+  describe('Application history', () => {
+    it('should map stage names of other systems to statuses', () => {
+      expect(toApplicationStatus('Hiring Manager Review')).toBe(ApplicationStatus.SCREENING);
+      expect(toApplicationStatus('Offer Declined')).toBe(ApplicationStatus.OFFER_DECLINED);
+      expect(toApplicationStatus('Withdrew')).toBe(ApplicationStatus.WITHDRAWN);
+      expect(toApplicationStatus('')).toBe(ApplicationStatus.APPLIED);
+    });
+
+    it('should leave out stage changes that keep the status', () => {
+      const appliedAt = new Date('2026-03-01T00:00:00Z');
+      const { status, history } = buildApplicationHistory(appliedAt, [
+        { status: ApplicationStatus.INTERVIEWING, changed_at: new Date('2026-03-08T00:00:00Z'), stage_name: 'Onsite' },
+        { status: ApplicationStatus.INTERVIEWING, changed_at: new Date('2026-03-05T00:00:00Z'), stage_name: 'Panel' },
+        { status: ApplicationStatus.APPLIED, changed_at: new Date('2026-03-02T00:00:00Z'), stage_name: 'New' }
+      ]);
+
+      expect(status).toBe(ApplicationStatus.INTERVIEWING);
+      expect(history.map(event => event.stage_name)).toEqual([null, 'Panel']);
+    });
+  });
+
+  describe('Reconciliation', () => {
+    it('should report a dry run without storing the run', async () => {
+      const client = createMockClient();
+      const atsExport = convertAtsExport([
+        jsonResume,
+        { basics: { name: 'No Email' }, meta: { id: 'resume-without-email' } }
+      ]);
+
+      const report = await runAtsImport(client, atsExport, { file_name: 'resumes.json', dry_run: true }, USER_ID);
+
+      expect(report.run).toBeNull();
+      expect(report.records).toEqual([
+        expect.objectContaining({
+          external_id: 'katherine@example.com',
+          entity_id: EXISTING_CANDIDATE_ID,
+          outcome: ReconciliationOutcome.UPDATED,
+          message: 'Matched an existing candidate by email address'
+        }),
+        expect.objectContaining({
+          external_id: 'resume-without-email',
+          outcome: ReconciliationOutcome.FAILED
+        })
+      ]);
+      expect(report.totals[AtsEntityType.CANDIDATE][ReconciliationOutcome.UPDATED]).toBe(1);
+      expect(report.totals[AtsEntityType.CANDIDATE][ReconciliationOutcome.FAILED]).toBe(1);
+      expect(client.query.mock.calls.some(([sql]) => String(sql).includes('ats_import_runs'))).toBe(false);
+    });
+
+    it('should write one CSV line per record', () => {
+      const csv = toReconciliationCsv({
+        run: null,
+        source: AtsImportSource.LEVER,
+        dry_run: true,
+        totals: {} as never,
+        records: [{
+          entity_type: AtsEntityType.APPLICATION,
+          external_id: 'app-1',
+          entity_id: null,
+          outcome: ReconciliationOutcome.SKIPPED,
+          message: 'The job of the application was not imported'
+        }]
+      });
+
+      expect(csv.split(/\r?\n/).filter(Boolean)).toEqual([
+        'Type,Original ID,Outcome,Record ID,Details',
+        'APPLICATION,app-1,SKIPPED,,The job of the application was not imported'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { careerApplicationSchema, publicJobListParamsSchema } from '../../types/careers';
+import { JobStatus } from '../../types/jobs';
+import { SourceChannel } from '../../types/sources';
+import { getPublicJob, listPublicJobs } from '../../services/careers/jobs';
+import { buildCareerSiteSource, hasOpenCareerApplication } from '../../services/careers/applications';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const JOB_ID = '3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c' as UUID;
+
+const createClient = (rows: unknown[]) => {
+  const query = vi.fn().mockResolvedValue({ rows });
+  return { client: { query } as unknown as PoolClient, query };
+};
+
+describe('Careers Site', () => {
+  describe('Public jobs', () => {
+    it('should only select public columns of published jobs', async () => {
+      const { client, query } = createClient([]);
+
+      await listPublicJobs(client, await validateInput(publicJobListParamsSchema, {}));
+
+      const [sql, values] = query.mock.calls[0];
+      expect(sql).not.toMatch(/j\.\*|creator_id|pipeline_template_id/);
+      expect(values[0]).toBe(JobStatus.PUBLISHED);
+    });
+
+    it('should strip the window count from listed jobs', async () => {
+      const { client } = createClient([{ id: JOB_ID, title: 'Senior Engineer', total_count: '1' }]);
+
+      const result = await listPublicJobs(client, await validateInput(publicJobListParamsSchema, {}));
+
+      expect(result.total).toBe(1);
+      expect(result.data).toEqual([{ id: JOB_ID, title: 'Senior Engineer' }]);
+    });
+
+    it('should report unpublished jobs as not found', async () => {
+      const { client } = createClient([]);
+
+      await expect(getPublicJob(client, JOB_ID)).rejects.toThrow('Job not found');
+    });
+
+    it('should cap page size for anonymous callers', async () => {
+      await expect(validateInput(publicJobListParamsSchema, { limit: 500 })).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('Applications', () => {
+    it('should attribute applications to the page hosting the form', () => {
+      const source = buildCareerSiteSource(
+        'https://www.example.com/about/jobs?utm_source=newsletter&utm_campaign=fall',
+        'https://app.example.com/careers/embed'
+      );
+
+      expect(source).toEqual({
+        channel: SourceChannel.CAREER_SITE,
+        utm_source: 'newsletter',
+        utm_campaign: 'fall',
+        referrer_url: 'https://www.example.com/about/jobs?utm_source=newsletter&utm_campaign=fall'
+      });
+    });
+
+    it('should fall back to the referer when the form reports no page', () => {
+      expect(buildCareerSiteSource(undefined, null)).toEqual({ channel: SourceChannel.CAREER_SITE });
+    });
+
+    it('should find open applications of known applicants before anything is stored', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ id: '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e' }] })
+        .mockResolvedValueOnce({ rows: [{ id: '6c7d8e9f-0a1b-4c2d-8e3f-4a5b6c7d8e9f' }] });
+      const payload = await validateInput(careerApplicationSchema, {
+        full_name: 'Jane Doe',
+        email: ' Jane@Example.com',
+        location: 'Austin, TX'
+      });
+
+      expect(await hasOpenCareerApplication({ query } as unknown as PoolClient, JOB_ID, payload)).toBe(true);
+      expect(query.mock.calls[0][1]).toEqual(['jane@example.com']);
+      expect(query.mock.calls[1][1][0]).toBe(JOB_ID);
+    });
+
+    it('should not look for applications of unknown applicants', async () => {
+      const { client, query } = createClient([]);
+      const payload = await validateInput(careerApplicationSchema, {
+        full_name: 'Jane Doe',
+        email: 'jane@example.com',
+        location: 'Austin, TX'
+      });
+
+      expect(await hasOpenCareerApplication(client, JOB_ID, payload)).toBe(false);
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject malformed referral codes', async () => {
+      await expect(validateInput(careerApplicationSchema, {
+        full_name: 'Jane Doe',
+        email: 'jane@example.com',
+        location: 'Austin, TX',
+        referral_code: 'not a code'
+      })).rejects.toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  HiringTeamRole,
+  departmentUpdateSchema,
+  hiringTeamUpdateSchema
+} from '../../types/departments';
+import { UserRole } from '../../types/auth';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { assertStaffUsers, assertValidParent } from '../../services/departments/departments';
+import { canViewJob, jobVisibilityCondition, setHiringTeam } from '../../services/jobs/hiring-teams';
+
+// Test data fixtures
+const JOB_ID = '3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c' as UUID;
+const RECRUITER_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d' as UUID;
+const MANAGER_ID = '1b2c3d4e-5f6a-4b7c-9d8e-0f1a2b3c4d5e' as UUID;
+const INTERVIEWER_ID = '2c3d4e5f-6a7b-4c8d-8e9f-1a2b3c4d5e6f' as UUID;
+
+describe('Departments', () => {
+  describe('Validation', () => {
+    it('should reject department updates that change nothing', () => {
+      expect(departmentUpdateSchema.safeParse({}).success).toBe(false);
+      expect(departmentUpdateSchema.safeParse({ archived: true }).success).toBe(true);
+    });
+
+    it('should default the coordinators and interviewer pool to empty', () => {
+      expect(hiringTeamUpdateSchema.parse({ recruiter_id: null, hiring_manager_id: null })).toEqual({
+        recruiter_id: null,
+        hiring_manager_id: null,
+        coordinator_ids: [],
+        interviewer_ids: []
+      });
+    });
+  });
+
+  describe('Hierarchy', () => {
+    it('should reject moving a department below itself', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ id: 'child', archived_at: null }] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+      const client = { query } as unknown as PoolClient;
+
+      await expect(assertValidParent(client, 'child' as UUID, 'parent' as UUID))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(query.mock.calls[1][1]).toEqual([['parent'], 'child']);
+    });
+
+    it('should reject archived parents', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ id: 'old', archived_at: new Date() }] });
+      const client = { query } as unknown as PoolClient;
+
+      await expect(assertValidParent(client, 'old' as UUID)).rejects.toBeInstanceOf(AppError);
+    });
+  });
+
+  describe('Hiring teams', () => {
+    it('should only accept staff on a hiring team', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ id: RECRUITER_ID }] });
+      const client = { query } as unknown as PoolClient;
+
+      await expect(assertStaffUsers(client, [RECRUITER_ID, INTERVIEWER_ID]))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { userIds: [INTERVIEWER_ID] } });
+    });
+
+    it('should replace the team with one row per member and role', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ id: RECRUITER_ID }, { id: MANAGER_ID }, { id: INTERVIEWER_ID }] })
+        .mockResolvedValue({ rows: [] });
+      const client = { query } as unknown as PoolClient;
+
+      await setHiringTeam(client, JOB_ID, {
+        recruiter_id: RECRUITER_ID,
+        hiring_manager_id: MANAGER_ID,
+        coordinator_ids: [RECRUITER_ID],
+        interviewer_ids: [INTERVIEWER_ID, INTERVIEWER_ID, MANAGER_ID]
+      }, RECRUITER_ID);
+
+      const [, [jobId, userIds, roles]] = query.mock.calls[2];
+      expect(jobId).toBe(JOB_ID);
+      expect(userIds).toEqual([RECRUITER_ID, MANAGER_ID, RECRUITER_ID, INTERVIEWER_ID, MANAGER_ID]);
+      expect(roles).toEqual([
+        HiringTeamRole.RECRUITER,
+        HiringTeamRole.HIRING_MANAGER,
+        HiringTeamRole.COORDINATOR,
+        HiringTeamRole.INTERVIEWER,
+        HiringTeamRole.INTERVIEWER
+      ]);
+    });
+
+    it('should scope hiring managers to their teams and departments', () => {
+      const condition = jobVisibilityCondition('j', '$3');
+
+      expect(condition).toContain('j.creator_id = $3');
+      expect(condition).toContain('team.user_id = $3');
+      expect(condition).toContain('j.department_id IN (SELECT user_department_scope($3))');
+    });
+
+    it('should let recruiters see every job', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ visible: true }] });
+      const client = { query } as unknown as PoolClient;
+
+      await expect(canViewJob(client, JOB_ID, { sub: RECRUITER_ID, role: UserRole.RECRUITER }))
+        .resolves.toBe(true);
+      expect(query.mock.calls[0][1]).toEqual([JOB_ID, true, RECRUITER_ID]);
+    });
+  });
+});
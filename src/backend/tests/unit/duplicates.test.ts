@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'; // ^0.34.0
+import {
+  CandidateStatus,
+  DuplicateMatchReason,
+  Education,
+  WorkExperience,
+  candidateMergeSchema
+} from '../../types/candidates';
+import { ExperienceLevel } from '../../types/jobs';
+import { UUID } from '../../types/common';
+import {
+  DUPLICATE_MATCH_THRESHOLD,
+  buildDuplicateKeys,
+  normalizeEmail,
+  normalizePhone,
+  scoreDuplicate
+} from '../../services/candidates/duplicates';
+import { MergeableCandidate, combineCandidateProfiles } from '../../services/candidates/merge';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const PRIMARY_ID = '3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c' as UUID;
+const DUPLICATE_ID = '7a8b9c0d-1e2f-4a3b-9c4d-5e6f7a8b9c0d' as UUID;
+
+const position = (overrides: Partial<WorkExperience>): WorkExperience => ({
+  company: 'Acme',
+  title: 'Engineer',
+  start_date: new Date('2020-01-01T00:00:00.000Z'),
+  end_date: null,
+  description: '',
+  skills_used: [],
+  location: '',
+  is_current: true,
+  achievements: [],
+  industry: '',
+  ...overrides
+});
+
+const school = (overrides: Partial<Education>): Education => ({
+  institution: 'State University',
+  degree: 'BSc',
+  field_of_study: 'Computer Science',
+  start_date: new Date('2014-09-01'),
+  end_date: new Date('2018-06-30'),
+  gpa: null,
+  achievements: [],
+  is_verified: false,
+  certifications: [],
+  ...overrides
+});
+
+const createCandidate = (overrides: Partial<MergeableCandidate> = {}): MergeableCandidate => ({
+  id: PRIMARY_ID,
+  full_name: 'Jane Doe',
+  email: 'jane.doe@example.com',
+  phone: '(555) 123-4567',
+  location: 'Austin, TX',
+  status: CandidateStatus.ACTIVE,
+  experience_level: ExperienceLevel.SENIOR,
+  skills: ['TypeScript', 'React'],
+  experience: [],
+  education: [],
+  resume_url: 'https://storage.example.com/resumes/jane.pdf',
+  preferences: {
+    preferred_job_types: [],
+    preferred_locations: [],
+    remote_only: false,
+    salary_expectation_min: 0,
+    salary_expectation_max: 0,
+    open_to_relocation: false,
+    preferred_industries: [],
+    preferred_companies: [],
+    preferred_travel_percentage: 0,
+    excluded_industries: []
+  },
+  match_score: 0,
+  metadata: {},
+  normalized_email: 'jane.doe@example.com',
+  normalized_phone: '15551234567',
+  resume_checksum: 'abc123',
+  merged_into_id: null,
+  merged_at: null,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+  ...overrides
+});
+
+describe('Duplicate Candidates', () => {
+  describe('Normalization', () => {
+    it('should ignore case, sub-address tags and gmail dots in emails', () => {
+      expect(normalizeEmail(' Jane.Doe+jobs@Example.com ')).toBe('jane.doe@example.com');
+      expect(normalizeEmail('jane.doe+careers@googlemail.com')).toBe('janedoe@gmail.com');
+      expect(normalizeEmail('J.a.n.e.Doe@gmail.com')).toBe('janedoe@gmail.com');
+    });
+
+    it('should reduce phone numbers to digits with a country code', () => {
+      expect(normalizePhone('(555) 123-4567')).toBe('15551234567');
+      expect(normalizePhone('+1 555.123.4567')).toBe('15551234567');
+      expect(normalizePhone('+44 20 7946 0958')).toBe('442079460958');
+    });
+
+    it('should drop missing or invalid phone numbers', () => {
+      expect(normalizePhone(undefined)).toBeNull();
+      expect(normalizePhone('  ')).toBeNull();
+      expect(normalizePhone('123')).toBeNull();
+    });
+  });
+
+  describe('Scoring', () => {
+    const keys = buildDuplicateKeys({ email: 'jane.doe+apply@example.com', phone: '555-123-4567' });
+
+    it('should report a matching email as a likely duplicate', () => {
+      const { score, reasons } = scoreDuplicate(keys, {
+        normalized_email: 'jane.doe@example.com',
+        normalized_phone: null,
+        resume_checksum: null,
+        name_similarity: 0.2
+      });
+
+      expect(reasons).toEqual([DuplicateMatchReason.EMAIL]);
+      expect(score).toBe(0.9);
+    });
+
+    it('should combine independent signals into a higher score', () => {
+      const { score, reasons } = scoreDuplicate(keys, {
+        normalized_email: 'jdoe@example.org',
+        normalized_phone: '15551234567',
+        resume_checksum: null,
+        name_similarity: 1
+      });
+
+      expect(reasons).toEqual([DuplicateMatchReason.PHONE, DuplicateMatchReason.NAME]);
+      expect(score).toBe(0.85);
+    });
+
+    it('should not flag a shared name on its own', () => {
+      const { score, reasons } = scoreDuplicate(keys, {
+        normalized_email: 'other@example.com',
+        normalized_phone: null,
+        resume_checksum: null,
+        name_similarity: 1
+      });
+
+      expect(reasons).toEqual([DuplicateMatchReason.NAME]);
+      expect(score).toBeLessThan(DUPLICATE_MATCH_THRESHOLD);
+    });
+
+    it('should match identical resumes', () => {
+      const { score, reasons } = scoreDuplicate({ ...keys, resume_checksum: 'abc123' }, {
+        normalized_email: 'other@example.com',
+        normalized_phone: null,
+        resume_checksum: 'abc123',
+        name_similarity: 0
+      });
+
+      expect(reasons).toEqual([DuplicateMatchReason.RESUME]);
+      expect(score).toBeGreaterThanOrEqual(DUPLICATE_MATCH_THRESHOLD);
+    });
+  });
+
+  describe('Merging', () => {
+    it('should refuse to merge a candidate into itself', async () => {
+      await expect(validateInput(candidateMergeSchema, {
+        primary_id: PRIMARY_ID,
+        duplicate_id: PRIMARY_ID
+      })).rejects.toThrow(AppError);
+    });
+
+    it('should combine profiles without repeating entries', () => {
+      const primary = createCandidate({
+        skills: ['TypeScript', 'React'],
+        experience: [position({})],
+        education: [school({})]
+      });
+      const duplicate = createCandidate({
+        id: DUPLICATE_ID,
+        skills: ['react', 'GraphQL'],
+        experience: [
+          position({ company: 'ACME ', title: 'engineer', start_date: new Date('2020-01-01T09:30:00.000Z') }),
+          position({ company: 'Globex', title: 'Developer', start_date: new Date('2018-03-01') })
+        ],
+        education: [school({ institution: 'state university' })]
+      });
+
+      const profile = combineCandidateProfiles(primary, duplicate);
+
+      expect(profile.skills).toEqual(['TypeScript', 'React', 'GraphQL']);
+      expect(profile.experience.map(entry => entry.company)).toEqual(['Acme', 'Globex']);
+      expect(profile.education).toHaveLength(1);
+    });
+
+    it('should keep the primary contact details and fill gaps from the duplicate', () => {
+      const primary = createCandidate({ phone: '', resume_url: '', resume_checksum: null });
+      const duplicate = createCandidate({
+        id: DUPLICATE_ID,
+        phone: '+1 (555) 987-6543',
+        resume_url: 'https://storage.example.com/resumes/jane-2.pdf',
+        resume_checksum: 'def456'
+      });
+
+      const profile = combineCandidateProfiles(primary, duplicate);
+
+      expect(profile.phone).toBe('+1 (555) 987-6543');
+      expect(profile.normalized_phone).toBe('15559876543');
+      expect(profile.resume_url).toBe('https://storage.example.com/resumes/jane-2.pdf');
+      expect(profile.resume_checksum).toBe('def456');
+    });
+  });
+});
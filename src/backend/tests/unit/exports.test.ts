@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  CandidateExportFormat,
+  DEFAULT_EXPORT_COLUMNS,
+  candidateExportRequestSchema
+} from '../../types/exports';
+import { CandidateStatus, Education, WorkExperience } from '../../types/candidates';
+import { ExperienceLevel } from '../../types/jobs';
+import { UUID } from '../../types/common';
+import { buildCandidateFilterConditions } from '../../services/candidates/search-filters';
+import {
+  ExportedCandidate,
+  toExportValues,
+  toJsonResume,
+  writeCandidateExport
+} from '../../services/exports/candidate-exports';
+import { parseCsv, readSpreadsheet } from '../../services/imports/spreadsheet';
+
+// Test data fixtures
+const CANDIDATE_ID = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e' as UUID;
+
+const position = (overrides: Partial<WorkExperience>): WorkExperience => ({
+  company: 'Acme',
+  title: 'Engineer',
+  start_date: new Date('2019-01-01'),
+  end_date: new Date('2021-06-30'),
+  description: '',
+  skills_used: [],
+  location: '',
+  is_current: false,
+  achievements: [],
+  industry: '',
+  ...overrides
+});
+
+const school: Education = {
+  institution: 'University of Lisbon',
+  degree: 'BSc',
+  field_of_study: 'Computer Science',
+  start_date: new Date('2014-09-01'),
+  end_date: new Date('2018-06-30'),
+  gpa: 3.6,
+  achievements: [],
+  is_verified: false,
+  certifications: []
+};
+
+const candidate: ExportedCandidate = {
+  id: CANDIDATE_ID,
+  full_name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '+351 910 000 000',
+  location: 'Lisbon, Portugal',
+  status: CandidateStatus.ACTIVE,
+  experience_level: ExperienceLevel.SENIOR,
+  skills: ['TypeScript', 'SQL'],
+  experience: [
+    position({ title: 'Engineer', company: 'Acme' }),
+    position({ title: 'Staff Engineer', company: 'Globex', start_date: new Date('2021-07-01'), end_date: null, is_current: true })
+  ],
+  education: [school],
+  preferences: { salary_expectation_min: 80000, remote_only: true },
+  resume_url: null,
+  created_at: new Date('2024-01-15T00:00:00.000Z'),
+  updated_at: new Date('2024-02-01T12:00:00.000Z')
+};
+
+describe('Candidate Exports', () => {
+  describe('Requests', () => {
+    it('should export the default columns when none are selected', () => {
+      expect(candidateExportRequestSchema.parse({ format: CandidateExportFormat.CSV }).columns).toEqual(DEFAULT_EXPORT_COLUMNS);
+      expect(candidateExportRequestSchema.parse({ format: CandidateExportFormat.CSV, columns: [] }).columns).toEqual(DEFAULT_EXPORT_COLUMNS);
+    });
+
+    it('should reject columns that cannot be exported', () => {
+      expect(candidateExportRequestSchema.safeParse({
+        format: CandidateExportFormat.XLSX,
+        columns: ['full_name', 'password']
+      }).success).toBe(false);
+    });
+  });
+
+  describe('Filters', () => {
+    it('should number parameters after the ones already given', () => {
+      const values: unknown[] = ['react'];
+      const conditions = buildCandidateFilterConditions({
+        status: [CandidateStatus.ACTIVE],
+        location: 'Lisbon',
+        salaryRange: { min: 50000, max: 90000 }
+      }, values);
+
+      expect(values).toEqual(['react', [CandidateStatus.ACTIVE], '%Lisbon%', 'Lisbon', 90000, 50000]);
+      expect(conditions[0]).toBe('c.status = ANY($2)');
+      expect(conditions[1]).toContain('c.location ILIKE $3');
+      expect(conditions[1]).toContain("c.preferences -> 'preferred_locations' ? $4");
+      expect(conditions[2]).toContain('<= $5');
+      expect(conditions[2]).toContain('>= $6');
+    });
+  });
+
+  describe('Formats', () => {
+    it('should read the selected columns in order', () => {
+      expect(toExportValues(candidate, [
+        'full_name',
+        'current_title',
+        'current_company',
+        'skills',
+        'education',
+        'salary_expectation_min',
+        'salary_expectation_max',
+        'remote_only'
+      ])).toEqual([
+        'Jane Doe',
+        'Staff Engineer',
+        'Globex',
+        'TypeScript; SQL',
+        'BSc Computer Science, University of Lisbon',
+        80000,
+        null,
+        'Yes'
+      ]);
+    });
+
+    it('should write JSON Resume documents the importer can read back', () => {
+      const resume = toJsonResume(candidate);
+
+      expect(resume).toMatchObject({
+        basics: { name: 'Jane Doe', email: 'jane@example.com', location: { address: 'Lisbon, Portugal' } },
+        skills: [{ name: 'TypeScript' }, { name: 'SQL' }],
+        meta: { id: CANDIDATE_ID }
+      });
+      expect((resume.work as Array<Record<string, unknown>>)[1]).toEqual(expect.objectContaining({
+        name: 'Globex',
+        position: 'Staff Engineer',
+        startDate: '2021-07-01'
+      }));
+      expect((resume.work as Array<Record<string, unknown>>)[1]).not.toHaveProperty('endDate');
+      expect((resume.education as Array<Record<string, unknown>>)[0]).toMatchObject({ studyType: 'BSc', score: '3.6' });
+    });
+
+    it('should stream CSV from batches of candidates', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [candidate, { ...candidate, id: 'c2', full_name: 'Doe, John', skills: [] }] })
+      } as unknown as PoolClient;
+
+      let csv = '';
+      for await (const chunk of writeCandidateExport(client, {
+        format: CandidateExportFormat.CSV,
+        filters: { skills: ['SQL'] },
+        columns: ['full_name', 'email', 'skills']
+      })) {
+        csv += chunk;
+      }
+
+      expect(parseCsv(csv)).toEqual([
+        ['Name', 'Email', 'Skills'],
+        ['Jane Doe', 'jane@example.com', 'TypeScript; SQL'],
+        ['Doe, John', 'jane@example.com', '']
+      ]);
+      expect(vi.mocked(client.query)).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(client.query).mock.calls[0][0]).toContain('c.merged_into_id IS NULL AND c.skills && $1');
+    });
+
+    it('should write XLSX workbooks the importer can read back', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [candidate] })
+      } as unknown as PoolClient;
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of writeCandidateExport(client, {
+        format: CandidateExportFormat.XLSX,
+        filters: {},
+        columns: ['full_name', 'email', 'salary_expectation_min']
+      })) {
+        chunks.push(Buffer.from(chunk as Uint8Array));
+      }
+
+      const spreadsheet = await readSpreadsheet(new File([Buffer.concat(chunks)], 'candidates.xlsx'));
+      expect(spreadsheet.headers).toEqual(['Name', 'Email', 'Salary Min']);
+      expect(spreadsheet.rows).toEqual([
+        { row_number: 2, data: { Name: 'Jane Doe', Email: 'jane@example.com', 'Salary Min': '80000' } }
+      ]);
+    });
+  });
+});
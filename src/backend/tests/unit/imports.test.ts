@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  CandidateImport,
+  CandidateImportStatus,
+  DuplicateStrategy,
+  ImportFileFormat,
+  candidateImportOptionsSchema
+} from '../../types/imports';
+import { CandidateStatus } from '../../types/candidates';
+import { ExperienceLevel, JobType } from '../../types/jobs';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { parseCsv, toCsv } from '../../services/imports/spreadsheet';
+import { mapImportRow, suggestImportMapping } from '../../services/imports/mapping';
+import { dryRunCandidateImport } from '../../services/imports/candidate-imports';
+
+// Mock the storage clients the import service loads
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ storage: { from: vi.fn() } }))
+}));
+
+vi.mock('clamscan', () => ({ default: vi.fn() }));
+vi.mock('clamav.js', () => ({ default: {} }));
+
+// Test data fixtures
+const IMPORT_ID = '4a5b6c7d-8e9f-4a0b-9c1d-2e3f4a5b6c7d' as UUID;
+
+const HEADERS = ['Name', 'E-mail Address', 'Skills', 'Seniority', 'Remote', 'Salary Min', 'Salary Max', 'CV'];
+
+const options = {
+  mapping: {
+    full_name: 'Name',
+    email: 'E-mail Address',
+    skills: 'Skills',
+    experience_level: 'Seniority',
+    'preferences.remote_only': 'Remote',
+    'preferences.salary_expectation_min': 'Salary Min',
+    'preferences.salary_expectation_max': 'Salary Max',
+    resume_file: 'CV'
+  },
+  list_delimiter: ';'
+};
+
+const buildImport = (overrides: Partial<CandidateImport> = {}): CandidateImport => ({
+  id: IMPORT_ID,
+  file_name: 'candidates.csv',
+  format: ImportFileFormat.CSV,
+  headers: HEADERS,
+  row_count: 1,
+  resume_archive_key: null,
+  resume_files: [],
+  mapping: null,
+  duplicate_strategy: null,
+  list_delimiter: ';',
+  status: CandidateImportStatus.UPLOADED,
+  previewed_at: null,
+  queued_at: null,
+  started_at: null,
+  completed_at: null,
+  created_by: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+describe('Candidate Imports', () => {
+  describe('Spreadsheets', () => {
+    it('should parse quoted values with delimiters, quotes and line breaks', () => {
+      const text = '﻿Name,Notes\r\n"Doe, Jane","Said ""hi""\nthen left"\r\nJohn Smith,\r\n';
+
+      expect(parseCsv(text)).toEqual([
+        ['Name', 'Notes'],
+        ['Doe, Jane', 'Said "hi"\nthen left'],
+        ['John Smith', '']
+      ]);
+    });
+
+    it('should detect the delimiter from the header line', () => {
+      expect(parseCsv('Name;Email\nJane;jane@example.com')).toEqual([
+        ['Name', 'Email'],
+        ['Jane', 'jane@example.com']
+      ]);
+    });
+
+    it('should write CSV that parses back to the same values', () => {
+      const lines = [['Row', 'Errors'], ['2', 'email: Invalid email, "x"']];
+
+      expect(parseCsv(toCsv(lines), ',')).toEqual(lines);
+    });
+  });
+
+  describe('Mapping', () => {
+    it('should suggest columns from common header spellings', () => {
+      expect(suggestImportMapping(HEADERS)).toEqual({
+        full_name: 'Name',
+        email: 'E-mail Address',
+        experience_level: 'Seniority',
+        skills: 'Skills',
+        resume_file: 'CV',
+        'preferences.remote_only': 'Remote',
+        'preferences.salary_expectation_min': 'Salary Min',
+        'preferences.salary_expectation_max': 'Salary Max'
+      });
+    });
+
+    it('should require the name and email columns', () => {
+      expect(candidateImportOptionsSchema.safeParse({
+        mapping: { full_name: 'Name' },
+        duplicate_strategy: DuplicateStrategy.SKIP
+      }).success).toBe(false);
+      expect(candidateImportOptionsSchema.parse({
+        mapping: { full_name: 'Name', email: 'Email' },
+        duplicate_strategy: DuplicateStrategy.SKIP
+      }).list_delimiter).toBe(';');
+    });
+
+    it('should read nested preferences and lists into a valid candidate', () => {
+      const mapped = mapImportRow({
+        Name: 'Jane Doe',
+        'E-mail Address': 'Jane.Doe@Example.com',
+        Skills: 'TypeScript; SQL;TypeScript',
+        Seniority: 'senior',
+        Remote: 'yes',
+        'Salary Min': '$90,000',
+        'Salary Max': '',
+        CV: 'resumes/jane-doe.pdf',
+        'Job Types': 'full time'
+      }, {
+        ...options,
+        mapping: { ...options.mapping, 'preferences.preferred_job_types': 'Job Types' }
+      }, ['export/Jane-Doe.PDF']);
+
+      expect(mapped.errors).toEqual([]);
+      expect(mapped.resume_file).toBe('export/Jane-Doe.PDF');
+      expect(mapped.candidate).toMatchObject({
+        full_name: 'Jane Doe',
+        email: 'jane.doe@example.com',
+        status: CandidateStatus.ACTIVE,
+        experience_level: ExperienceLevel.SENIOR,
+        skills: ['TypeScript', 'SQL'],
+        resume_url: null,
+        preferences: {
+          remote_only: true,
+          salary_expectation_min: 90000,
+          preferred_job_types: [JobType.FULL_TIME]
+        }
+      });
+      expect(mapped.provided).not.toContain('preferences.salary_expectation_max');
+    });
+
+    it('should report every problem in a row', () => {
+      const mapped = mapImportRow({
+        Name: '',
+        'E-mail Address': 'not-an-email',
+        Skills: '',
+        Seniority: 'guru',
+        Remote: 'sometimes',
+        'Salary Min': '',
+        'Salary Max': '',
+        CV: 'jane.pdf'
+      }, options);
+
+      expect(mapped.candidate).toBeNull();
+      expect(mapped.errors.map(error => error.field)).toEqual(expect.arrayContaining([
+        'experience_level',
+        'preferences.remote_only',
+        'resume_file',
+        'full_name',
+        'email'
+      ]));
+    });
+  });
+
+  describe('Dry runs', () => {
+    it('should refuse imports that were already committed', async () => {
+      const query = vi.fn();
+      const client = { query } as unknown as PoolClient;
+      const dryRun = () => dryRunCandidateImport(
+        client,
+        buildImport({ status: CandidateImportStatus.QUEUED }),
+        { ...options, duplicate_strategy: DuplicateStrategy.SKIP }
+      );
+
+      await expect(dryRun()).rejects.toThrow(AppError);
+      await expect(dryRun()).rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('should reject mapped columns that are not in the file', async () => {
+      const client = { query: vi.fn() } as unknown as PoolClient;
+
+      await expect(dryRunCandidateImport(
+        client,
+        buildImport(),
+        { ...options, mapping: { ...options.mapping, phone: 'Mobile' }, duplicate_strategy: DuplicateStrategy.SKIP }
+      )).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        details: { columns: ['Mobile'] }
+      });
+    });
+  });
+});
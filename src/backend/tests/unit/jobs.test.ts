@@ -1,9 +1,29 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'; // ^0.34.0
 import { createClient } from '@supabase/supabase-js'; // ^2.33.0
-import { Job, JobStatus, JobType, ExperienceLevel, jobSchema } from '../../types/jobs';
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  Job,
+  JobLifecycleTrigger,
+  JobStatus,
+  JobType,
+  ExperienceLevel,
+  WordingIssueCategory,
+  WordingIssueSource,
+  jobSchema,
+  jobCloneSchema
+} from '../../types/jobs';
 import { validateInput, sanitizeInput } from '../../utils/validation';
 import { AppError } from '../../utils/error-handler';
-import { ErrorCode } from '../../types/common';
+import { ErrorCode, UUID } from '../../types/common';
+import { getChangedRevisionFields, recordJobRevision } from '../../services/jobs/revisions';
+import { cloneJob, saveJobAsTemplate } from '../../services/jobs/templates';
+import { transitionJobStatus } from '../../services/jobs/lifecycle';
+import { checkWordingRules } from '../../services/jobs/wording';
+import { JobDescriptionWriter, getJobDescriptionWriter } from '../../services/ai/job-writer';
+import { OpenAIService } from '../../services/ai/openai';
+import { verifyJWT } from '../../utils/security';
+import { UserRole } from '../../types/auth';
+import { checkJobWording } from '../../edge-functions/jobs/check-wording';
 
 // Mock Supabase client
 vi.mock('@supabase/supabase-js', () => ({
@@ -19,6 +39,16 @@ vi.mock('@supabase/supabase-js', () => ({
   }))
 }));
 
+vi.mock('../../utils/security', () => ({
+  verifyJWT: vi.fn()
+}));
+
+// Handlers get the shared writer; the class itself stays real for the writer tests
+vi.mock('../../services/ai/job-writer', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../services/ai/job-writer')>(),
+  getJobDescriptionWriter: vi.fn()
+}));
+
 // Test data fixtures
 const mockValidJob: Job = {
   id: 'test-uuid' as any,
@@ -42,6 +72,9 @@ const mockValidJob: Job = {
   salary_max: 150000,
   location: 'Remote',
   remote_allowed: true,
+  headcount: 1,
+  publish_at: null,
+  expiry_warning_sent_at: null,
   created_at: new Date(),
   updated_at: new Date()
 };
@@ -188,4 +221,229 @@ describe('Job Management', () => {
       expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(5);
     });
   });
-});
\ No newline at end of file
+
+  describe('Job Revisions', () => {
+    it('should only report description fields whose value changed', () => {
+      const changed = getChangedRevisionFields(mockValidJob, {
+        title: mockValidJob.title,
+        description: 'Looking for an experienced platform engineer'
+      });
+      expect(changed).toEqual(['description']);
+    });
+
+    it('should compare requirements by value regardless of key order', () => {
+      const { responsibilities, ...rest } = mockValidJob.requirements;
+      expect(getChangedRevisionFields(mockValidJob, {
+        requirements: { responsibilities, ...rest }
+      })).toEqual([]);
+    });
+
+    it('should record the original description as revision 1 on the first change', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ latest: null }] })
+        .mockResolvedValue({ rows: [{ revision: 2 }] });
+      const client = { query } as unknown as PoolClient;
+      const updated = { ...mockValidJob, title: 'Staff Software Engineer', status: JobStatus.PUBLISHED };
+
+      await recordJobRevision(client, mockValidJob, updated, ['title'], 'editor-uuid' as UUID);
+
+      expect(query).toHaveBeenCalledTimes(3);
+      const [, baseline] = query.mock.calls[1];
+      expect(baseline.slice(0, 3)).toEqual([mockValidJob.id, 1, 'Senior Software Engineer']);
+      const [, revision] = query.mock.calls[2];
+      expect(revision.slice(0, 3)).toEqual([mockValidJob.id, 2, 'Staff Software Engineer']);
+      expect(revision.slice(5, 8)).toEqual([JobStatus.PUBLISHED, ['title'], 'editor-uuid']);
+    });
+
+    it('should continue numbering from the latest revision', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ latest: 3 }] })
+        .mockResolvedValue({ rows: [{ revision: 4 }] });
+      const client = { query } as unknown as PoolClient;
+
+      await recordJobRevision(client, mockValidJob, mockValidJob, ['description'], 'editor-uuid' as UUID);
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(query.mock.calls[1][1][1]).toBe(4);
+    });
+  });
+
+  describe('Job Templates and Cloning', () => {
+    it('should clone a job as a draft with a new location and type', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ id: 'clone-uuid' }] });
+      const client = { query } as unknown as PoolClient;
+      const changes = await validateInput(jobCloneSchema, { location: 'Austin, TX', type: JobType.CONTRACT });
+
+      await cloneJob(client, mockValidJob, changes, 'recruiter-uuid' as UUID);
+
+      const [, values] = query.mock.calls[0];
+      expect(values[0]).toBe('recruiter-uuid');
+      expect(values[1]).toBe(JobStatus.DRAFT);
+      expect(values[2]).toBe(mockValidJob.title);
+      expect(values[5]).toBe(JobType.CONTRACT);
+      expect(values[9]).toBe('Austin, TX');
+    });
+
+    it('should reject an empty location for a clone', async () => {
+      await expect(validateInput(jobCloneSchema, { location: '  ' })).rejects.toThrow(AppError);
+    });
+
+    it('should reject a template name already in the library', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ id: 'template-uuid' }] });
+      const client = { query } as unknown as PoolClient;
+
+      await expect(saveJobAsTemplate(client, mockValidJob, 'Senior Backend Engineer', 'recruiter-uuid' as UUID))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Job Lifecycle', () => {
+    it('should publish a scheduled draft and record the transition', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ ...mockValidJob, status: JobStatus.PUBLISHED }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'transition-uuid', trigger: JobLifecycleTrigger.SCHEDULED_PUBLISH }] });
+      const client = { query } as unknown as PoolClient;
+      const scheduled = { ...mockValidJob, publish_at: new Date('2024-03-01T09:00:00Z') };
+
+      const result = await transitionJobStatus(client, scheduled, JobLifecycleTrigger.SCHEDULED_PUBLISH, {
+        publish_at: scheduled.publish_at
+      });
+
+      expect(result?.job.status).toBe(JobStatus.PUBLISHED);
+      const [, update] = query.mock.calls[0];
+      expect(update.slice(0, 3)).toEqual([mockValidJob.id, JobStatus.PUBLISHED, JobStatus.DRAFT]);
+      const [, transition] = query.mock.calls[1];
+      expect(transition.slice(0, 4)).toEqual([
+        mockValidJob.id,
+        JobStatus.DRAFT,
+        JobStatus.PUBLISHED,
+        JobLifecycleTrigger.SCHEDULED_PUBLISH
+      ]);
+    });
+
+    it('should mark a job filled from its current status', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [{ ...mockValidJob, status: JobStatus.FILLED }] });
+      const client = { query } as unknown as PoolClient;
+      const published = { ...mockValidJob, status: JobStatus.PUBLISHED, headcount: 2 };
+
+      await transitionJobStatus(client, published, JobLifecycleTrigger.HEADCOUNT_FILLED, {
+        headcount: 2,
+        accepted_count: 2
+      });
+
+      expect(query.mock.calls[0][1].slice(1, 3)).toEqual([JobStatus.FILLED, JobStatus.PUBLISHED]);
+      expect(JSON.parse(query.mock.calls[1][1][4])).toEqual({ headcount: 2, accepted_count: 2 });
+    });
+
+    it('should skip a job whose status changed before the transition', async () => {
+      const query = vi.fn().mockResolvedValue({ rows: [] });
+      const client = { query } as unknown as PoolClient;
+
+      const result = await transitionJobStatus(
+        client,
+        { ...mockValidJob, status: JobStatus.PUBLISHED },
+        JobLifecycleTrigger.EXPIRY
+      );
+
+      expect(result).toBeNull();
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a headcount below one', async () => {
+      await expect(validateInput(jobSchema.pick({ headcount: true }), { headcount: 0 })).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('Job Wording', () => {
+    const wordingInput = {
+      title: 'Rockstar Developer',
+      description: '<p>Join our young and energetic team. Native English speakers only.</p>',
+      requirements: {
+        experience_level: ExperienceLevel.JUNIOR,
+        years_experience: 8,
+        required_skills: ['TypeScript']
+      },
+      salary_min: 90000,
+      salary_max: 120000
+    };
+
+    it('should flag rule phrases with their position and a replacement', () => {
+      const issues = checkWordingRules(wordingInput);
+      const rockstar = issues.find(issue => issue.path === 'title');
+
+      expect(rockstar).toMatchObject({
+        category: WordingIssueCategory.EXCLUSIONARY,
+        excerpt: 'Rockstar',
+        suggestion: 'skilled engineer',
+        start: 0,
+        end: 8
+      });
+      expect(issues.filter(issue => issue.path === 'description').map(issue => issue.excerpt))
+        .toEqual(['young and energetic', 'Native English speakers']);
+    });
+
+    it('should flag requirement stacks and a missing salary', () => {
+      const issues = checkWordingRules({ ...wordingInput, salary_min: null, salary_max: 0 });
+
+      expect(issues.map(issue => issue.category)).toEqual(expect.arrayContaining([
+        WordingIssueCategory.REQUIREMENT_STACK,
+        WordingIssueCategory.MISSING_SALARY
+      ]));
+      expect(issues.find(issue => issue.path === 'requirements.years_experience')?.suggestion).toBe('3');
+    });
+
+    it('should fall back to the local rules when the AI circuit breaker is open', async () => {
+      const openAIService = {
+        generateCompletion: vi.fn().mockRejectedValue(
+          new AppError('Service temporarily unavailable', ErrorCode.SERVICE_UNAVAILABLE)
+        )
+      } as unknown as OpenAIService;
+
+      const result = await new JobDescriptionWriter(openAIService).checkWording(wordingInput);
+
+      expect(result.ai_checked).toBe(false);
+      expect(result.issues).toEqual(checkWordingRules(wordingInput));
+    });
+
+    it('should add AI findings the rules missed at their position in the text', async () => {
+      const openAIService = {
+        generateCompletion: vi.fn().mockResolvedValue(JSON.stringify([
+          { category: 'BIASED', path: 'description', excerpt: 'Native English', message: 'Duplicate', suggestion: null },
+          { category: 'EXCLUSIONARY', path: 'description', excerpt: 'our young', message: 'Age', suggestion: 'our' },
+          { category: 'BIASED', path: 'title', excerpt: 'not in the text', message: 'Invented', suggestion: null }
+        ]))
+      } as unknown as OpenAIService;
+
+      const result = await new JobDescriptionWriter(openAIService).checkWording({
+        ...wordingInput,
+        description: '<p>Meet our young team. Native English speakers only.</p>'
+      });
+
+      const aiIssues = result.issues.filter(issue => issue.source === WordingIssueSource.AI);
+      expect(result.ai_checked).toBe(true);
+      expect(aiIssues).toEqual([expect.objectContaining({ excerpt: 'our young', start: 8, end: 17 })]);
+    });
+
+    it('should respond with the wording check result', async () => {
+      const result = { issues: checkWordingRules(wordingInput), ai_checked: false };
+      const checkWording = vi.fn().mockResolvedValue(result);
+      vi.mocked(getJobDescriptionWriter).mockReturnValue({ checkWording } as unknown as JobDescriptionWriter);
+      vi.mocked(verifyJWT).mockResolvedValue({ sub: 'recruiter-uuid', role: UserRole.RECRUITER });
+
+      const response = await checkJobWording(new Request('https://api.example.com/jobs/check-wording', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer token' },
+        body: JSON.stringify(wordingInput)
+      }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        success: true,
+        data: JSON.parse(JSON.stringify(result)),
+        error: null
+      });
+      expect(checkWording).toHaveBeenCalledWith(expect.objectContaining({ title: wordingInput.title }));
+    });
+  });
+});
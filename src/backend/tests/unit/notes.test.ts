@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { CandidateNote, NoteVisibility, noteUpdateSchema } from '../../types/notes';
+import { TimelineEventType } from '../../types/timeline';
+import { UserRole } from '../../types/auth';
+import { ErrorCode, UUID } from '../../types/common';
+import { listNotes, sanitizeNoteBody, updateNote } from '../../services/notes/notes';
+import { describeTimelineEvent } from '../../services/candidates/timeline';
+
+// Test data fixtures
+const CANDIDATE_ID = '5f6a7b8c-9d0e-4f1a-8b2c-4d5e6f7a8b9c' as UUID;
+const AUTHOR = { id: '6a7b8c9d-0e1f-4a2b-9c3d-5e6f7a8b9c0d' as UUID, role: UserRole.RECRUITER };
+const HIRING_MANAGER = { id: '7b8c9d0e-1f2a-4b3c-8d4e-6f7a8b9c0d1e' as UUID, role: UserRole.HIRING_MANAGER };
+
+const note: CandidateNote = {
+  id: '8c9d0e1f-2a3b-4c4d-9e5f-7a8b9c0d1e2f' as UUID,
+  created_at: new Date('2024-03-01T10:00:00.000Z'),
+  updated_at: new Date('2024-03-01T10:00:00.000Z'),
+  candidate_id: CANDIDATE_ID,
+  application_id: null,
+  body: '<p>Strong on SQL</p>',
+  body_text: 'Strong on SQL',
+  visibility: NoteVisibility.HIRING_TEAM,
+  mentions: [],
+  version: 1,
+  pinned_at: null,
+  pinned_by: null,
+  edited_at: null,
+  author_id: AUTHOR.id,
+  author_name: 'Rita Recruiter'
+};
+
+describe('Candidate Notes', () => {
+  describe('Bodies', () => {
+    it('should keep editor formatting and read mentions', () => {
+      const sanitized = sanitizeNoteBody(
+        `<p>Ask <span data-type="mention" data-id="${HIRING_MANAGER.id}" data-label="Hugo">@Hugo</span> about <strong>salary</strong></p>` +
+        '<p>Then<script>alert(1)</script> <a href="javascript:alert(1)" onclick="x()">call</a></p>'
+      );
+
+      expect(sanitized.mentions).toEqual([HIRING_MANAGER.id]);
+      expect(sanitized.body).toContain('<strong>salary</strong>');
+      expect(sanitized.body).not.toContain('script');
+      expect(sanitized.body).not.toContain('javascript:');
+      expect(sanitized.body).not.toContain('onclick');
+      expect(sanitized.body_text).toBe('Ask @Hugo about salary Then call');
+    });
+
+    it('should only read mentions from mention spans', () => {
+      const sanitized = sanitizeNoteBody(`<p><span data-id="${HIRING_MANAGER.id}">Hugo</span> &amp; team</p>`);
+
+      expect(sanitized.mentions).toEqual([]);
+      expect(sanitized.body).not.toContain('data-id');
+      expect(sanitized.body_text).toBe('Hugo & team');
+    });
+
+    it('should reject notes without text', () => {
+      expect(() => sanitizeNoteBody('<p><script>alert(1)</script></p>')).toThrow('Note cannot be empty');
+    });
+  });
+
+  describe('Edits', () => {
+    it('should require a change', () => {
+      expect(noteUpdateSchema.safeParse({}).success).toBe(false);
+      expect(noteUpdateSchema.safeParse({ visibility: NoteVisibility.PRIVATE }).success).toBe(true);
+    });
+
+    it('should keep a new version and report new mentions', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [note] })
+          .mockResolvedValueOnce({ rows: [{ id: HIRING_MANAGER.id }] })
+          .mockResolvedValueOnce({ rows: [{ ...note, version: 2 }] })
+          .mockResolvedValueOnce({ rows: [] })
+      } as unknown as PoolClient;
+
+      const { note: edited, added_mentions } = await updateNote(client, note.id, {
+        body: `<p>Strong on SQL, <span data-type="mention" data-id="${HIRING_MANAGER.id}">@Hugo</span> agrees</p>`
+      }, AUTHOR);
+
+      expect(edited.version).toBe(2);
+      expect(added_mentions).toEqual([HIRING_MANAGER.id]);
+      expect(vi.mocked(client.query).mock.calls[0][0]).toContain('FOR UPDATE OF n');
+      expect(vi.mocked(client.query).mock.calls[3][0]).toContain('INSERT INTO candidate_note_revisions');
+      expect(vi.mocked(client.query).mock.calls[3][1]).toEqual([
+        note.id, 2, edited.body, NoteVisibility.HIRING_TEAM, AUTHOR.id
+      ]);
+    });
+
+    it('should only let the author edit a note', async () => {
+      const client = { query: vi.fn().mockResolvedValueOnce({ rows: [note] }) } as unknown as PoolClient;
+
+      await expect(updateNote(client, note.id, { body: '<p>Edited</p>' }, HIRING_MANAGER))
+        .rejects.toMatchObject({ code: ErrorCode.FORBIDDEN });
+    });
+  });
+
+  describe('Listing', () => {
+    it('should search the notes the viewer sees, pinned first', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [{ total: 1 }] })
+          .mockResolvedValueOnce({ rows: [note] })
+      } as unknown as PoolClient;
+
+      const notes = await listNotes(client, { candidate_id: CANDIDATE_ID, q: 'sql', page: 1, limit: 25 }, HIRING_MANAGER);
+
+      expect(notes.total).toBe(1);
+      const [sql, values] = vi.mocked(client.query).mock.calls[1] as [string, unknown[]];
+      expect(sql).toContain('n.author_id = $1::uuid');
+      expect(sql).toContain("n.visibility = 'HIRING_TEAM'");
+      expect(sql).toContain("plainto_tsquery('english', $4)");
+      expect(sql).toContain('ORDER BY n.pinned_at DESC NULLS LAST');
+      expect(values).toEqual([HIRING_MANAGER.id, false, CANDIDATE_ID, 'sql', 25, 0]);
+    });
+  });
+
+  describe('Timeline', () => {
+    it('should show an excerpt of the note', () => {
+      expect(describeTimelineEvent({
+        id: note.id,
+        type: TimelineEventType.NOTE,
+        occurred_at: note.created_at,
+        actor_id: AUTHOR.id,
+        actor_name: 'Rita Recruiter',
+        application_id: null,
+        details: { excerpt: 'Strong on SQL' }
+      })).toBe('Note: Strong on SQL');
+    });
+  });
+});
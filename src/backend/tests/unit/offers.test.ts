@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'; // ^0.34.0
+import { UUID } from '../../types/common';
+import { ApplicationStatus } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
+import {
+  Offer,
+  OfferResponse,
+  OfferStatus,
+  offerCreateSchema,
+  offerReviseSchema
+} from '../../types/offers';
+import { PipelineStage, StageCategory } from '../../types/pipelines';
+import { mergeOfferTerms } from '../../services/offers/versions';
+import { assertOfferOpenForResponse, resolveOfferOutcomeStage } from '../../services/offers/outcomes';
+import { canManageOffer, canRespondToOffer } from '../../services/offers/access';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const TEMPLATE_ID = '7c1e2d3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f' as UUID;
+const APPLICATION_ID = '3d4e5f6a-7b8c-4d9e-8f0a-1b2c3d4e5f6a' as UUID;
+const CANDIDATE_USER_ID = '6b7c8d9e-0f1a-4b2c-9d3e-4f5a6b7c8d9e' as UUID;
+const MANAGER_ID = '8e9f0a1b-2c3d-4e5f-8a6b-7c8d9e0f1a2b' as UUID;
+
+const createStage = (
+  id: string,
+  position: number,
+  category: StageCategory,
+  application_status: ApplicationStatus | null = null
+): PipelineStage => ({
+  id: id as UUID,
+  template_id: TEMPLATE_ID,
+  name: `Stage ${position}`,
+  position,
+  category,
+  application_status,
+  candidate_label: null,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01')
+});
+
+const createOffer = (overrides: Partial<Offer> = {}): Offer => ({
+  id: '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d' as UUID,
+  application_id: APPLICATION_ID,
+  candidate_id: '1a2b3c4d-5e6f-4a8b-9c0d-1e2f3a4b5c6d' as UUID,
+  job_id: '9b2c4e6a-1d3f-4b5a-8c7e-0f1a2b3c4d5e' as UUID,
+  status: OfferStatus.SENT,
+  version: 1,
+  base_salary: 120000,
+  bonus: 10000,
+  equity: '5,000 options vesting over 4 years',
+  currency: 'USD',
+  start_date: '2024-03-01',
+  expires_at: new Date('2024-02-01T00:00:00.000Z'),
+  notes: null,
+  sent_at: new Date('2024-01-15T00:00:00.000Z'),
+  responded_at: null,
+  response_reason: null,
+  created_by: MANAGER_ID,
+  created_at: new Date('2024-01-10'),
+  updated_at: new Date('2024-01-15'),
+  ...overrides
+});
+
+describe('Offer Management', () => {
+  describe('Validation', () => {
+    it('should default the currency and optional compensation', async () => {
+      const validated = await validateInput(offerCreateSchema, {
+        application_id: APPLICATION_ID,
+        base_salary: 95000,
+        start_date: '2024-03-01',
+        expires_at: '2024-02-01T00:00:00.000Z'
+      });
+
+      expect(validated).toMatchObject({ currency: 'USD', bonus: null, equity: null });
+    });
+
+    it('should reject currencies that are not ISO 4217 codes', async () => {
+      await expect(validateInput(offerCreateSchema, {
+        application_id: APPLICATION_ID,
+        base_salary: 95000,
+        currency: 'usd',
+        start_date: '2024-03-01',
+        expires_at: '2024-02-01T00:00:00.000Z'
+      })).rejects.toThrow(AppError);
+    });
+
+    it('should require a change reason and at least one term for a revision', async () => {
+      await expect(validateInput(offerReviseSchema, {
+        base_salary: 100000
+      })).rejects.toThrow(AppError);
+
+      await expect(validateInput(offerReviseSchema, {
+        notes: 'Updated notes only',
+        change_reason: 'Clarification'
+      })).rejects.toThrow(AppError);
+
+      const validated = await validateInput(offerReviseSchema, {
+        bonus: 15000,
+        change_reason: 'Counter offer'
+      });
+      expect(validated.base_salary).toBeUndefined();
+      expect(validated.bonus).toBe(15000);
+    });
+  });
+
+  describe('Revisions', () => {
+    it('should only report fields whose value changed', () => {
+      const { terms, changedFields } = mergeOfferTerms(createOffer(), {
+        base_salary: 120000,
+        bonus: 12000,
+        expires_at: '2024-02-01T00:00:00.000Z'
+      });
+
+      expect(changedFields).toEqual(['bonus']);
+      expect(terms).toMatchObject({
+        base_salary: 120000,
+        bonus: 12000,
+        currency: 'USD',
+        start_date: '2024-03-01',
+        expires_at: '2024-02-01T00:00:00.000Z'
+      });
+    });
+
+    it('should allow clearing optional compensation', () => {
+      const { terms, changedFields } = mergeOfferTerms(createOffer(), { equity: null });
+      expect(terms.equity).toBeNull();
+      expect(changedFields).toEqual(['equity']);
+    });
+  });
+
+  describe('Responses', () => {
+    it('should only accept responses to sent offers', () => {
+      expect(() => assertOfferOpenForResponse(
+        createOffer({ status: OfferStatus.DRAFT }),
+        new Date('2024-01-20T00:00:00.000Z')
+      )).toThrow(AppError);
+    });
+
+    it('should reject responses after the offer expires', () => {
+      expect(() => assertOfferOpenForResponse(
+        createOffer(),
+        new Date('2024-02-01T00:00:00.000Z')
+      )).toThrow('Offer has expired');
+
+      expect(() => assertOfferOpenForResponse(
+        createOffer(),
+        new Date('2024-01-31T23:59:59.000Z')
+      )).not.toThrow();
+    });
+
+    it('should let the candidate or a recruiter respond', () => {
+      const offer = { candidate_user_id: CANDIDATE_USER_ID };
+      expect(canRespondToOffer(offer, { sub: CANDIDATE_USER_ID, role: UserRole.CANDIDATE })).toBe(true);
+      expect(canRespondToOffer(offer, { sub: MANAGER_ID, role: UserRole.RECRUITER })).toBe(true);
+      expect(canRespondToOffer(offer, { sub: MANAGER_ID, role: UserRole.HIRING_MANAGER })).toBe(false);
+    });
+
+    it('should restrict hiring managers to offers on their own jobs', () => {
+      expect(canManageOffer({ job_creator_id: MANAGER_ID }, { sub: MANAGER_ID, role: UserRole.HIRING_MANAGER })).toBe(true);
+      expect(canManageOffer({ job_creator_id: MANAGER_ID }, { sub: CANDIDATE_USER_ID, role: UserRole.HIRING_MANAGER })).toBe(false);
+    });
+  });
+
+  describe('Application Outcome', () => {
+    const STAGES: PipelineStage[] = [
+      createStage('00000000-0000-4000-8000-000000000001', 0, StageCategory.SCREENING, ApplicationStatus.APPLIED),
+      createStage('00000000-0000-4000-8000-000000000002', 1, StageCategory.OFFER),
+      createStage('00000000-0000-4000-8000-000000000003', 2, StageCategory.HIRED),
+      createStage('00000000-0000-4000-8000-000000000004', 3, StageCategory.REJECTED),
+      createStage('00000000-0000-4000-8000-000000000005', 4, StageCategory.REJECTED, ApplicationStatus.OFFER_DECLINED)
+    ];
+
+    it('should move accepted offers to the hired stage', () => {
+      expect(resolveOfferOutcomeStage(STAGES, OfferResponse.ACCEPT)).toBe(STAGES[2]);
+    });
+
+    it('should prefer the declined stage over other rejected stages', () => {
+      expect(resolveOfferOutcomeStage(STAGES, OfferResponse.DECLINE)).toBe(STAGES[4]);
+    });
+
+    it('should fall back to the first rejected stage without a declined stage', () => {
+      expect(resolveOfferOutcomeStage(STAGES.slice(0, 4), OfferResponse.DECLINE)).toBe(STAGES[3]);
+    });
+
+    it('should fail when the pipeline cannot record the response', () => {
+      expect(() => resolveOfferOutcomeStage(STAGES.slice(0, 2), OfferResponse.ACCEPT)).toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest'; // ^0.34.0
+import { UUID } from '../../types/common';
+import { ApplicationStatus } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
+import {
+  PipelineStage,
+  PipelineTransitionRule,
+  StageCategory,
+  TransitionRequirement,
+  pipelineTemplateCreateSchema,
+  pipelineTemplateUpdateSchema,
+  resolveStageStatus
+} from '../../types/pipelines';
+import { resolveTargetStage } from '../../services/pipeline/templates';
+import {
+  evaluateTransitionRule,
+  findTransitionRule,
+  getDefaultTransitionRule
+} from '../../services/pipeline/transitions';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const TEMPLATE_ID = '7c1e2d3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f' as UUID;
+
+const createStage = (
+  id: string,
+  position: number,
+  category: StageCategory,
+  application_status: ApplicationStatus | null = null
+): PipelineStage => ({
+  id: id as UUID,
+  template_id: TEMPLATE_ID,
+  name: `Stage ${position}`,
+  position,
+  category,
+  application_status,
+  candidate_label: null,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01')
+});
+
+const STAGES: PipelineStage[] = [
+  createStage('00000000-0000-4000-8000-000000000001', 0, StageCategory.SCREENING, ApplicationStatus.APPLIED),
+  createStage('00000000-0000-4000-8000-000000000002', 1, StageCategory.SCREENING),
+  createStage('00000000-0000-4000-8000-000000000003', 2, StageCategory.INTERVIEWING),
+  createStage('00000000-0000-4000-8000-000000000004', 3, StageCategory.INTERVIEWING),
+  createStage('00000000-0000-4000-8000-000000000005', 4, StageCategory.OFFER),
+  createStage('00000000-0000-4000-8000-000000000006', 5, StageCategory.HIRED),
+  createStage('00000000-0000-4000-8000-000000000007', 6, StageCategory.REJECTED)
+];
+
+describe('Pipeline Templates', () => {
+  describe('Stage Status Resolution', () => {
+    it('should prefer the explicit application status of a stage', () => {
+      expect(resolveStageStatus(STAGES[0])).toBe(ApplicationStatus.APPLIED);
+    });
+
+    it('should fall back to the status of the stage category', () => {
+      expect(resolveStageStatus(STAGES[1])).toBe(ApplicationStatus.SCREENING);
+      expect(resolveStageStatus(STAGES[4])).toBe(ApplicationStatus.OFFER_PENDING);
+      expect(resolveStageStatus(STAGES[5])).toBe(ApplicationStatus.OFFER_ACCEPTED);
+    });
+  });
+
+  describe('Target Stage Resolution', () => {
+    it('should resolve an explicit stage id', () => {
+      const stage = resolveTargetStage(STAGES, { stage_id: STAGES[3].id });
+      expect(stage).toBe(STAGES[3]);
+    });
+
+    it('should reject a stage from another template', () => {
+      expect(() => resolveTargetStage(STAGES, {
+        stage_id: '00000000-0000-4000-8000-000000000099' as UUID
+      })).toThrow(AppError);
+    });
+
+    it('should map a status to the first matching stage', () => {
+      const stage = resolveTargetStage(STAGES, { status: ApplicationStatus.INTERVIEWING });
+      expect(stage).toBe(STAGES[2]);
+    });
+
+    it('should place new applications in the first stage by default', () => {
+      const stages = STAGES.slice(1);
+      expect(resolveTargetStage(stages, {})).toBe(stages[0]);
+    });
+
+    it('should reject a status no stage resolves to', () => {
+      expect(() => resolveTargetStage(STAGES.slice(0, 3), {
+        status: ApplicationStatus.OFFER_PENDING
+      })).toThrow(AppError);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept an ordered list of stages', async () => {
+      const validated = await validateInput(pipelineTemplateCreateSchema, {
+        name: 'Engineering',
+        stages: [
+          { name: 'Phone Screen', category: StageCategory.SCREENING },
+          { name: 'Onsite', category: StageCategory.INTERVIEWING },
+          { name: 'Hired', category: StageCategory.HIRED }
+        ]
+      });
+      expect(validated.is_default).toBe(false);
+      expect(validated.stages.map(stage => stage.name)).toEqual(['Phone Screen', 'Onsite', 'Hired']);
+    });
+
+    it('should reject duplicate stage names', async () => {
+      await expect(validateInput(pipelineTemplateCreateSchema, {
+        name: 'Engineering',
+        stages: [
+          { name: 'Interview', category: StageCategory.INTERVIEWING },
+          { name: 'interview', category: StageCategory.INTERVIEWING }
+        ]
+      })).rejects.toThrow(AppError);
+    });
+
+    it('should reject unknown categories', async () => {
+      await expect(validateInput(pipelineTemplateCreateSchema, {
+        name: 'Engineering',
+        stages: [{ name: 'Sourced', category: 'sourcing' }]
+      })).rejects.toThrow(AppError);
+    });
+
+    it('should not allow withdrawn as a stage status', async () => {
+      await expect(validateInput(pipelineTemplateUpdateSchema, {
+        stages: [{
+          name: 'Withdrawn',
+          category: StageCategory.REJECTED,
+          application_status: ApplicationStatus.WITHDRAWN
+        }]
+      })).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('Transition Rules', () => {
+    const [applied, screening, onsite, panel, offer, hired, rejected] = STAGES;
+
+    it('should allow forward moves between open stages without extra data', () => {
+      const rule = getDefaultTransitionRule(applied, onsite);
+      expect(rule).toMatchObject({
+        from_stage_id: applied.id,
+        to_stage_id: onsite.id,
+        is_allowed: true,
+        required_fields: []
+      });
+      expect(rule.allowed_roles).toContain(UserRole.HIRING_MANAGER);
+    });
+
+    it('should require a reason to reject', () => {
+      const rule = getDefaultTransitionRule(screening, rejected);
+      expect(rule.required_fields).toEqual([TransitionRequirement.REASON]);
+    });
+
+    it('should require interview feedback to move to an offer stage', () => {
+      const rule = getDefaultTransitionRule(panel, offer);
+      expect(rule.required_fields).toEqual([TransitionRequirement.INTERVIEW_FEEDBACK]);
+    });
+
+    it('should only allow hires from an offer stage', () => {
+      expect(getDefaultTransitionRule(onsite, hired).is_allowed).toBe(false);
+
+      const rule = getDefaultTransitionRule(offer, hired);
+      expect(rule.is_allowed).toBe(true);
+      expect(rule.allowed_roles).not.toContain(UserRole.HIRING_MANAGER);
+    });
+
+    it('should restrict reopening hired applications to administrators', () => {
+      const rule = getDefaultTransitionRule(hired, onsite);
+      expect(rule.allowed_roles).toEqual([UserRole.ADMIN]);
+      expect(rule.required_fields).toContain(TransitionRequirement.REASON);
+    });
+
+    it('should prefer an explicit rule for the stage pair over a rule for any source', () => {
+      const anySource: PipelineTransitionRule = {
+        template_id: TEMPLATE_ID,
+        from_stage_id: null,
+        to_stage_id: onsite.id,
+        is_allowed: true,
+        allowed_roles: [UserRole.ADMIN],
+        required_fields: []
+      };
+      const pair: PipelineTransitionRule = {
+        ...anySource,
+        from_stage_id: screening.id,
+        required_fields: [TransitionRequirement.FEEDBACK]
+      };
+
+      expect(findTransitionRule([anySource, pair], screening, onsite)).toBe(pair);
+      expect(findTransitionRule([anySource, pair], applied, onsite)).toBe(anySource);
+      expect(findTransitionRule([anySource, pair], applied, panel).from_stage_id).toBe(applied.id);
+    });
+
+    it('should split missing fields from unmet conditions', () => {
+      const rule: PipelineTransitionRule = {
+        ...getDefaultTransitionRule(panel, offer),
+        required_fields: [TransitionRequirement.REASON, TransitionRequirement.INTERVIEW_FEEDBACK]
+      };
+
+      const check = evaluateTransitionRule(rule, {
+        role: UserRole.RECRUITER,
+        reason: '   ',
+        hasInterviewFeedback: false
+      });
+
+      expect(check.permitted).toBe(true);
+      expect(check.missingFields).toEqual([TransitionRequirement.REASON]);
+      expect(check.unmetConditions).toEqual([TransitionRequirement.INTERVIEW_FEEDBACK]);
+    });
+
+    it('should pass once the required data is supplied', () => {
+      const check = evaluateTransitionRule(getDefaultTransitionRule(screening, rejected), {
+        role: UserRole.HIRING_MANAGER,
+        reason: 'Not enough experience'
+      });
+
+      expect(check).toMatchObject({
+        allowed: true,
+        permitted: true,
+        missingFields: [],
+        unmetConditions: []
+      });
+    });
+
+    it('should deny roles outside the rule', () => {
+      const check = evaluateTransitionRule(getDefaultTransitionRule(offer, hired), {
+        role: UserRole.HIRING_MANAGER
+      });
+      expect(check.permitted).toBe(false);
+    });
+  });
+});
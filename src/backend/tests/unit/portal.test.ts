@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ApplicationStatus } from '../../types/candidates';
+import { InterviewStatus } from '../../types/interviews';
+import { StageCategory, resolveCandidateStageLabel } from '../../types/pipelines';
+import { MAX_PREFERRED_TIMES, interviewResponseSchema, portalProfileUpdateSchema } from '../../types/portal';
+import { ScreeningQuestion, ScreeningQuestionType } from '../../types/screening';
+import { ErrorCode, UUID } from '../../types/common';
+import { resolvePortalCandidate } from '../../services/portal/profile';
+import {
+  answerScreeningQuestions,
+  getOpenScreeningQuestions,
+  listPortalApplications
+} from '../../services/portal/applications';
+import { respondToInterview, submitTakeHome } from '../../services/portal/interviews';
+
+// Test data fixtures
+const USER_ID = '9b0c1d2e-3f4a-4b5c-8d6e-7f8a9b0c1d2e' as UUID;
+const CANDIDATE_ID = 'a0b1c2d3-e4f5-4a6b-9c7d-8e9f0a1b2c3d' as UUID;
+const APPLICATION_ID = 'c2d3e4f5-a6b7-4c8d-9e0f-0a1b2c3d4e5f' as UUID;
+const INTERVIEW_ID = 'd3e4f5a6-b7c8-4d9e-8f0a-1b2c3d4e5f6a' as UUID;
+const JOB_ID = 'e4f5a6b7-c8d9-4e0f-9a1b-2c3d4e5f6a7b' as UUID;
+const NOW = new Date('2024-06-01T09:00:00.000Z');
+const NEXT_WEEK = new Date('2024-06-08T09:00:00.000Z');
+
+const question = (overrides: Partial<ScreeningQuestion>): ScreeningQuestion => ({
+  id: 'f5a6b7c8-d9e0-4f1a-8b2c-3d4e5f6a7b8c' as UUID,
+  created_at: NOW,
+  updated_at: NOW,
+  job_id: JOB_ID,
+  position: 0,
+  type: ScreeningQuestionType.YES_NO,
+  prompt: 'Are you authorized to work in the EU?',
+  options: [],
+  required: true,
+  is_knockout: true,
+  expected_answer: true,
+  archived_at: null,
+  created_by: USER_ID,
+  ...overrides
+});
+
+const interviewRow = (overrides: Record<string, unknown> = {}) => ({
+  status: InterviewStatus.SCHEDULED,
+  scheduled_at: NEXT_WEEK,
+  is_take_home: false,
+  created_by: USER_ID,
+  ...overrides
+});
+
+const clientReturning = (...results: unknown[][]) => {
+  const query = vi.fn();
+  for (const rows of results) query.mockResolvedValueOnce({ rows });
+  return { query } as unknown as PoolClient;
+};
+
+describe('Candidate Portal', () => {
+  describe('Accounts', () => {
+    it('should resolve accounts to the profile they are linked to', async () => {
+      await expect(resolvePortalCandidate(clientReturning([{ id: CANDIDATE_ID }]), USER_ID))
+        .resolves.toBe(CANDIDATE_ID);
+    });
+
+    it('should report accounts without a profile to claim as not found', async () => {
+      await expect(resolvePortalCandidate(clientReturning([], []), USER_ID))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+    });
+
+    it('should not let candidates change their email address', () => {
+      expect(portalProfileUpdateSchema.safeParse({ email: 'other@example.com' }).success).toBe(false);
+      expect(portalProfileUpdateSchema.safeParse({
+        preferences: { salary_expectation_min: 90000, salary_expectation_max: 80000 }
+      }).success).toBe(false);
+    });
+  });
+
+  describe('Applications', () => {
+    it('should show candidates stage labels rather than internal stage names', async () => {
+      const row = (
+        id: string,
+        status: ApplicationStatus,
+        stage_category: StageCategory | null,
+        candidate_label: string | null
+      ) => ({
+        id,
+        job_id: JOB_ID,
+        job_title: 'Backend Engineer',
+        status,
+        stage_category,
+        candidate_label,
+        applied_at: NOW,
+        updated_at: NOW
+      });
+      const client = clientReturning([
+        row('1', ApplicationStatus.INTERVIEWING, StageCategory.INTERVIEWING, 'Meet the team'),
+        row('2', ApplicationStatus.SCREENING, StageCategory.SCREENING, null),
+        row('3', ApplicationStatus.OFFER_PENDING, null, null),
+        row('4', ApplicationStatus.WITHDRAWN, StageCategory.INTERVIEWING, 'Meet the team')
+      ]);
+
+      const applications = await listPortalApplications(client, CANDIDATE_ID);
+
+      expect(applications.map(application => application.stage_label)).toEqual([
+        'Meet the team',
+        resolveCandidateStageLabel({ category: StageCategory.SCREENING, candidate_label: null }),
+        resolveCandidateStageLabel({ category: StageCategory.OFFER, candidate_label: null }),
+        'Withdrawn'
+      ]);
+      expect(applications[0]).not.toHaveProperty('candidate_label');
+    });
+
+    it('should only offer open questions of the candidate\'s own open applications', async () => {
+      await expect(getOpenScreeningQuestions(clientReturning([]), CANDIDATE_ID, APPLICATION_ID))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+      await expect(getOpenScreeningQuestions(
+        clientReturning([{ job_id: JOB_ID, status: ApplicationStatus.REJECTED }]),
+        CANDIDATE_ID,
+        APPLICATION_ID
+      )).rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+
+      const answered = question({});
+      const open = question({ id: 'a6b7c8d9-e0f1-4a2b-9c3d-4e5f6a7b8c9d' as UUID, position: 1 });
+      const { questions } = await getOpenScreeningQuestions(
+        clientReturning(
+          [{ job_id: JOB_ID, status: ApplicationStatus.SCREENING }],
+          [{ question_id: answered.id }],
+          [answered, open]
+        ),
+        CANDIDATE_ID,
+        APPLICATION_ID
+      );
+      expect(questions).toEqual([open]);
+    });
+
+    it('should require every open required question to be answered', async () => {
+      const client = clientReturning([]);
+      await expect(answerScreeningQuestions(client, APPLICATION_ID, [question({})], []))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+      await expect(answerScreeningQuestions(client, APPLICATION_ID, [], []))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(client.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Interviews', () => {
+    it('should let candidates confirm their upcoming interviews', async () => {
+      const client = clientReturning([interviewRow()], [], [{ id: INTERVIEW_ID }]);
+
+      const { scheduledBy } = await respondToInterview(client, CANDIDATE_ID, INTERVIEW_ID, { action: 'confirm' }, NOW);
+
+      expect(scheduledBy).toBe(USER_ID);
+      const [lookup, update] = vi.mocked(client.query).mock.calls;
+      expect(lookup[1]).toEqual([INTERVIEW_ID, CANDIDATE_ID]);
+      expect(update[0]).toContain('candidate_confirmed = true');
+      expect(update[0]).toContain('reschedule_requested_at = NULL');
+    });
+
+    it('should not accept responses to other candidates\', past or cancelled interviews', async () => {
+      const respond = (rows: unknown[]) =>
+        respondToInterview(clientReturning(rows), CANDIDATE_ID, INTERVIEW_ID, { action: 'confirm' }, NOW);
+
+      await expect(respond([])).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+      await expect(respond([interviewRow({ status: InterviewStatus.CANCELLED })]))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      await expect(respond([interviewRow({ scheduled_at: new Date('2024-05-30T09:00:00.000Z') })]))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+    });
+
+    it('should only accept reschedule requests proposing future times', async () => {
+      expect(interviewResponseSchema.safeParse({ action: 'reschedule', reason: ' ' }).success).toBe(false);
+      expect(interviewResponseSchema.safeParse({
+        action: 'reschedule',
+        reason: 'Travelling that week',
+        preferred_times: Array.from({ length: MAX_PREFERRED_TIMES + 1 }, () => NEXT_WEEK.toISOString())
+      }).success).toBe(false);
+
+      const client = clientReturning([interviewRow()]);
+      await expect(respondToInterview(client, CANDIDATE_ID, INTERVIEW_ID, {
+        action: 'reschedule',
+        reason: 'Travelling that week',
+        preferred_times: [new Date('2024-05-31T09:00:00.000Z'), NEXT_WEEK]
+      }, NOW)).rejects.toMatchObject({ code: ErrorCode.BAD_REQUEST });
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take a single submission per take-home assignment', async () => {
+      await expect(submitTakeHome(
+        clientReturning([interviewRow()]),
+        CANDIDATE_ID,
+        INTERVIEW_ID,
+        { link_url: 'https://github.com/jane/assignment' },
+        null,
+        NOW
+      )).rejects.toMatchObject({ code: ErrorCode.BAD_REQUEST });
+
+      await expect(submitTakeHome(
+        clientReturning([interviewRow({ is_take_home: true })], []),
+        CANDIDATE_ID,
+        INTERVIEW_ID,
+        { link_url: 'https://github.com/jane/assignment' },
+        null,
+        NOW
+      )).rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+    });
+  });
+});
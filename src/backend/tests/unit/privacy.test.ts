@@ -0,0 +1,423 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  CandidateConsent,
+  ConsentPurpose,
+  ConsentSource,
+  DataSubjectRequest,
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  LawfulBasis,
+  PrivacyRegulation,
+  RetentionReason,
+  candidateConsentCreateSchema,
+  dataSubjectRequestCreateSchema
+} from '../../types/privacy';
+import { ErrorCode, UUID } from '../../types/common';
+import {
+  createDataSubjectRequest,
+  getActionableRequest,
+  responseDueAt
+} from '../../services/privacy/data-subject-requests';
+import { eraseSubjectData, purgeQueuedFiles } from '../../services/privacy/subject-data';
+import { renewConsent } from '../../services/privacy/consents';
+import { enforceRetention } from '../../services/privacy/retention';
+import { sendConsentRenewalEmail } from '../../services/privacy/notifications';
+import { FileHandler } from '../../services/storage/file-handler';
+import { ResumeStorage } from '../../services/storage/resume-storage';
+
+// Mock storage clients
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({
+    storage: {
+      from: vi.fn(() => ({
+        remove: vi.fn().mockResolvedValue({ data: [], error: null })
+      }))
+    }
+  }))
+}));
+
+vi.mock('clamscan', () => ({ default: vi.fn() }));
+vi.mock('clamav.js', () => ({ default: {} }));
+
+// Mock renewal emails
+vi.mock('../../services/privacy/notifications', () => ({
+  sendConsentRenewalEmail: vi.fn()
+}));
+
+// Test data fixtures
+const USER_ID = '9b0c1d2e-3f4a-4b5c-8d6e-7f8a9b0c1d2e' as UUID;
+const CANDIDATE_ID = 'a0b1c2d3-e4f5-4a6b-9c7d-8e9f0a1b2c3d' as UUID;
+const DUPLICATE_ID = 'b1c2d3e4-f5a6-4b7c-8d9e-9f0a1b2c3d4e' as UUID;
+const REQUEST_ID = 'c2d3e4f5-a6b7-4c8d-9e0f-0a1b2c3d4e5f' as UUID;
+const HELD_ID = 'd3e4f5a6-b7c8-4d9e-8f0a-1b2c3d4e5f6a' as UUID;
+const CONSENT_ID = 'e4f5a6b7-c8d9-4e0f-9a1b-2c3d4e5f6a7b' as UUID;
+const RECEIVED_AT = new Date('2024-03-01T09:00:00.000Z');
+const NOW = new Date('2024-06-01T09:00:00.000Z');
+
+const request = (overrides: Partial<DataSubjectRequest>): DataSubjectRequest => ({
+  id: REQUEST_ID,
+  created_at: RECEIVED_AT,
+  updated_at: RECEIVED_AT,
+  type: DataSubjectRequestType.ERASURE,
+  regulation: PrivacyRegulation.GDPR,
+  status: DataSubjectRequestStatus.OPEN,
+  candidate_id: CANDIDATE_ID,
+  subject_email: 'jane@example.com',
+  received_at: RECEIVED_AT,
+  due_at: new Date('2024-03-31T09:00:00.000Z'),
+  notes: null,
+  rejection_reason: null,
+  evidence: null,
+  completed_at: null,
+  completed_by: null,
+  created_by: USER_ID,
+  ...overrides
+});
+
+const consent = (overrides: Partial<CandidateConsent>): CandidateConsent => ({
+  id: CONSENT_ID,
+  created_at: RECEIVED_AT,
+  updated_at: RECEIVED_AT,
+  candidate_id: CANDIDATE_ID,
+  purpose: ConsentPurpose.TALENT_POOL,
+  lawful_basis: LawfulBasis.CONSENT,
+  source: ConsentSource.CAREERS_SITE,
+  consented_at: RECEIVED_AT,
+  expires_at: new Date('2024-06-20T09:00:00.000Z'),
+  withdrawn_at: null,
+  renewal_requested_at: null,
+  renewal_token: null,
+  notes: null,
+  recorded_by: USER_ID,
+  ...overrides
+});
+
+describe('Data Subject Requests', () => {
+  describe('Deadlines', () => {
+    it('should give GDPR requests 30 days and CCPA requests 45 days', () => {
+      expect(responseDueAt(PrivacyRegulation.GDPR, RECEIVED_AT)).toEqual(new Date('2024-03-31T09:00:00.000Z'));
+      expect(responseDueAt(PrivacyRegulation.CCPA, RECEIVED_AT)).toEqual(new Date('2024-04-15T09:00:00.000Z'));
+    });
+  });
+
+  describe('Requests', () => {
+    it('should require the candidate or the email the request came from', () => {
+      expect(dataSubjectRequestCreateSchema.safeParse({
+        type: DataSubjectRequestType.ACCESS,
+        regulation: PrivacyRegulation.GDPR
+      }).success).toBe(false);
+      expect(dataSubjectRequestCreateSchema.parse({
+        type: DataSubjectRequestType.ACCESS,
+        regulation: PrivacyRegulation.GDPR,
+        subject_email: ' Jane@Example.com '
+      }).subject_email).toBe('jane@example.com');
+    });
+
+    it('should not accept requests received in the future', () => {
+      expect(dataSubjectRequestCreateSchema.safeParse({
+        type: DataSubjectRequestType.ACCESS,
+        regulation: PrivacyRegulation.GDPR,
+        subject_email: 'jane@example.com',
+        received_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+      }).success).toBe(false);
+    });
+
+    it('should link requests to the candidate with the email they came from', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [{ id: CANDIDATE_ID }] })
+          .mockResolvedValueOnce({ rows: [request({})] })
+      } as unknown as PoolClient;
+
+      await createDataSubjectRequest(client, {
+        type: DataSubjectRequestType.ERASURE,
+        regulation: PrivacyRegulation.GDPR,
+        subject_email: 'jane@example.com',
+        received_at: RECEIVED_AT
+      }, USER_ID);
+
+      const [lookup, insert] = vi.mocked(client.query).mock.calls;
+      expect(lookup[1]).toEqual(['jane@example.com']);
+      expect(insert[1]).toEqual([
+        DataSubjectRequestType.ERASURE,
+        PrivacyRegulation.GDPR,
+        CANDIDATE_ID,
+        'jane@example.com',
+        RECEIVED_AT,
+        new Date('2024-03-31T09:00:00.000Z'),
+        null,
+        USER_ID
+      ]);
+    });
+
+    it('should only act on open requests of the right type linked to a candidate', async () => {
+      const clientReturning = (found: DataSubjectRequest) => ({
+        query: vi.fn().mockResolvedValueOnce({ rows: [found] })
+      } as unknown as PoolClient);
+
+      await expect(getActionableRequest(clientReturning(request({})), REQUEST_ID, DataSubjectRequestType.ACCESS))
+        .rejects.toMatchObject({ code: ErrorCode.BAD_REQUEST });
+      await expect(getActionableRequest(
+        clientReturning(request({ status: DataSubjectRequestStatus.COMPLETED, completed_at: RECEIVED_AT })),
+        REQUEST_ID,
+        DataSubjectRequestType.ERASURE
+      )).rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      await expect(getActionableRequest(
+        clientReturning(request({ candidate_id: null })),
+        REQUEST_ID,
+        DataSubjectRequestType.ERASURE
+      )).rejects.toMatchObject({ code: ErrorCode.BAD_REQUEST });
+    });
+  });
+
+  describe('File storage', () => {
+    it('should find the storage key of CDN and signed file URLs', () => {
+      const storage = new FileHandler();
+
+      expect(storage.getStorageKey('resumes', 'storage.hotgigs.com/resumes/resumes/4f5a.pdf')).toBe('resumes/4f5a.pdf');
+      expect(storage.getStorageKey(
+        'resumes',
+        'https://project.supabase.co/storage/v1/object/sign/resumes/resumes/4f5a%20cv.pdf?token=abc'
+      )).toBe('resumes/4f5a cv.pdf');
+      expect(storage.getStorageKey('documents', 'storage.hotgigs.com/documents/screening/7b8c/5d6e.pdf'))
+        .toBe('screening/7b8c/5d6e.pdf');
+      expect(storage.getStorageKey('resumes', 'storage.hotgigs.com/documents/screening/7b8c/5d6e.pdf')).toBeNull();
+      expect(storage.getStorageKey('resumes', 'https://example.com/files/cv.pdf')).toBeNull();
+    });
+  });
+
+  describe('Erasure', () => {
+    const erasureClient = () => ({
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ merged_into_id: null }] })
+        .mockResolvedValueOnce({ rows: [{ id: CANDIDATE_ID }, { id: DUPLICATE_ID }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { url: 'storage.hotgigs.com/resumes/resumes/4f5a.pdf', bucket: 'resumes' },
+            { url: 'storage.hotgigs.com/documents/screening/7b8c/5d6e.pdf', bucket: 'documents' },
+            { url: 'https://example.com/portfolio.pdf', bucket: 'documents' }
+          ]
+        })
+        .mockImplementation(async (sql: string) => sql.startsWith('INSERT INTO file_purges')
+          ? { rows: [{ id: 'purge-1' }, { id: 'purge-2' }], rowCount: 2 }
+          : { rows: [], rowCount: 1 })
+    } as unknown as PoolClient);
+
+    it('should anonymize the candidate and their duplicates and queue their files', async () => {
+      const client = erasureClient();
+      const storage = new FileHandler();
+      const deleteFile = vi.spyOn(storage, 'deleteFile').mockResolvedValue();
+
+      const { evidence, purgeIds } = await eraseSubjectData(client, CANDIDATE_ID, storage);
+
+      const queries = vi.mocked(client.query).mock.calls;
+      const profileUpdate = queries.find(([sql]) => String(sql).startsWith('UPDATE candidates'));
+      expect(profileUpdate?.[0]).toContain('anonymized_at = COALESCE(anonymized_at, NOW())');
+      expect(profileUpdate?.[1]).toEqual([[CANDIDATE_ID, DUPLICATE_ID]]);
+      expect(queries.some(([sql]) => String(sql).startsWith('DELETE FROM candidate_notes'))).toBe(true);
+      expect(queries.some(([sql]) => String(sql).startsWith('UPDATE audit.change_log'))).toBe(true);
+      expect(queries.find(([sql]) => String(sql).startsWith('INSERT INTO file_purges'))?.[1]).toEqual([
+        ['resumes', 'documents'],
+        ['resumes/4f5a.pdf', 'screening/7b8c/5d6e.pdf']
+      ]);
+      expect(deleteFile).not.toHaveBeenCalled();
+      expect(evidence).toMatchObject({ candidate_ids: [CANDIDATE_ID, DUPLICATE_ID], files_to_purge: 2 });
+      expect(evidence.records.profiles).toBe(1);
+      expect(purgeIds).toEqual(['purge-1', 'purge-2']);
+    });
+
+    it('should purge queued files and keep those that fail for a retry', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({
+            rows: [
+              { id: 'purge-1', bucket: 'resumes', storage_key: 'resumes/4f5a.pdf' },
+              { id: 'purge-2', bucket: 'documents', storage_key: 'screening/7b8c/5d6e.pdf' }
+            ]
+          })
+          .mockResolvedValue({ rows: [], rowCount: 1 })
+      } as unknown as PoolClient;
+      const storage = new FileHandler();
+      vi.spyOn(storage, 'deleteFile')
+        .mockResolvedValueOnce()
+        .mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      const result = await purgeQueuedFiles(client, storage);
+
+      expect(result).toEqual({ purged: 1, failed: 1 });
+      expect(vi.mocked(client.query).mock.calls[1]).toEqual(['DELETE FROM file_purges WHERE id = $1', ['purge-1']]);
+      expect(vi.mocked(client.query).mock.calls[2][0]).toContain('attempts = attempts + 1');
+      expect(vi.mocked(client.query).mock.calls[2][1]).toEqual(['purge-2', 'Storage unavailable']);
+    });
+
+    it('should retry the files attempted longest ago first', async () => {
+      const client = { query: vi.fn().mockResolvedValue({ rows: [] }) } as unknown as PoolClient;
+
+      await purgeQueuedFiles(client, new FileHandler());
+
+      const [[sql, values]] = vi.mocked(client.query).mock.calls;
+      expect(sql).toContain('ORDER BY last_attempted_at NULLS FIRST, created_at');
+      expect(values).toEqual([null, 100]);
+    });
+
+    it('should purge only the files an erasure queued', async () => {
+      const client = { query: vi.fn().mockResolvedValue({ rows: [] }) } as unknown as PoolClient;
+
+      await purgeQueuedFiles(client, new FileHandler(), { ids: ['purge-1', 'purge-2'] as UUID[] });
+
+      expect(vi.mocked(client.query).mock.calls[0][1]).toEqual([['purge-1', 'purge-2'], 2]);
+    });
+
+    it('should not erase a duplicate on its own', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [{ merged_into_id: DUPLICATE_ID }] })
+      } as unknown as PoolClient;
+
+      await expect(eraseSubjectData(client, CANDIDATE_ID, new FileHandler()))
+        .rejects.toMatchObject({ code: ErrorCode.BAD_REQUEST });
+    });
+
+    it('should not erase a candidate under a legal hold', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [{ merged_into_id: null, on_legal_hold: true }] })
+      } as unknown as PoolClient;
+
+      await expect(eraseSubjectData(client, CANDIDATE_ID, new FileHandler()))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Consents', () => {
+    it('should require the expiry to follow the consent date', () => {
+      const input = {
+        purpose: ConsentPurpose.RECRUITMENT,
+        lawful_basis: LawfulBasis.CONSENT,
+        source: ConsentSource.RECRUITER,
+        consented_at: '2024-03-01T09:00:00.000Z'
+      };
+
+      expect(candidateConsentCreateSchema.safeParse({ ...input, expires_at: '2024-02-01T09:00:00.000Z' }).success)
+        .toBe(false);
+      expect(candidateConsentCreateSchema.safeParse({ ...input, source: ConsentSource.RENEWAL_LINK }).success)
+        .toBe(false);
+      expect(candidateConsentCreateSchema.safeParse({ ...input, expires_at: '2025-03-01T09:00:00.000Z' }).success)
+        .toBe(true);
+    });
+
+    it('should renew a consent for as long as it first ran', async () => {
+      const requested = consent({ renewal_requested_at: NOW, renewal_token: 'abcdefghijklmnopqrstuvwx' });
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [{ ...requested, anonymized: false }] })
+          .mockResolvedValueOnce({ rows: [{ ...requested, expires_at: new Date('2024-09-01T09:00:00.000Z') }] })
+      } as unknown as PoolClient;
+
+      const renewal = await renewConsent(client, 'abcdefghijklmnopqrstuvwx');
+
+      const [, [sql, values]] = vi.mocked(client.query).mock.calls;
+      expect(sql).toContain('expires_at = NOW() + (expires_at - consented_at)');
+      expect(values).toEqual([CONSENT_ID, ConsentSource.RENEWAL_LINK]);
+      expect(renewal).toEqual({ purpose: ConsentPurpose.TALENT_POOL, expires_at: new Date('2024-09-01T09:00:00.000Z') });
+    });
+
+    it('should not extend a consent again when the link is followed twice', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [{ ...consent({ renewal_token: 'abcdefghijklmnopqrstuvwx' }), anonymized: false }] })
+      } as unknown as PoolClient;
+
+      await renewConsent(client, 'abcdefghijklmnopqrstuvwx');
+
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not renew a withdrawn consent', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [{ ...consent({ withdrawn_at: RECEIVED_AT }), anonymized: false }] })
+      } as unknown as PoolClient;
+
+      await expect(renewConsent(client, 'abcdefghijklmnopqrstuvwx')).rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+    });
+  });
+
+  describe('Retention', () => {
+    const storage = () => {
+      const resumeStorage = new ResumeStorage();
+      vi.spyOn(resumeStorage, 'getResume').mockResolvedValue({
+        url: 'https://example.com/resume.pdf',
+        metadata: { retention: { expiryDate: new Date('2024-05-01T00:00:00.000Z') } }
+      } as Awaited<ReturnType<ResumeStorage['getResume']>>);
+      vi.spyOn(resumeStorage, 'deleteResume').mockResolvedValue();
+      return { fileHandler: new FileHandler(), resumeStorage };
+    };
+
+    it('should report what a run would do without changing anything', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [consent({})] })
+          .mockResolvedValueOnce({
+            rows: [
+              { id: CANDIDATE_ID, had_consent: true, on_legal_hold: false },
+              { id: HELD_ID, had_consent: false, on_legal_hold: true }
+            ]
+          })
+          .mockResolvedValueOnce({
+            rows: [
+              { candidate_id: DUPLICATE_ID, url: 'storage.hotgigs.com/resumes/resumes/7b8c.pdf', on_legal_hold: false },
+              { candidate_id: CANDIDATE_ID, url: 'storage.hotgigs.com/resumes/resumes/4f5a.pdf', on_legal_hold: false }
+            ]
+          })
+      } as unknown as PoolClient;
+      const stores = storage();
+
+      const report = await enforceRetention(client, { dryRun: true, now: NOW, correlationId: 'run' }, stores);
+
+      expect(client.query).toHaveBeenCalledTimes(3);
+      expect(vi.mocked(client.query).mock.calls[0][0]).not.toContain('UPDATE');
+      expect(sendConsentRenewalEmail).not.toHaveBeenCalled();
+      expect(stores.resumeStorage.deleteResume).not.toHaveBeenCalled();
+      expect(report).toMatchObject({
+        dry_run: true,
+        renewal_requests: [{ consent_id: CONSENT_ID, candidate_id: CANDIDATE_ID, sent: false }],
+        anonymized: [{ candidate_id: CANDIDATE_ID, reason: RetentionReason.CONSENT_EXPIRED }],
+        resumes_deleted: [{ candidate_id: DUPLICATE_ID, key: 'resumes/7b8c.pdf' }],
+        held: [HELD_ID],
+        failed: []
+      });
+    });
+
+    it('should retry renewal emails that could not be sent', async () => {
+      vi.mocked(sendConsentRenewalEmail).mockResolvedValueOnce(false);
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [consent({ renewal_requested_at: NOW })] })
+          .mockResolvedValueOnce({ rows: [consent({ renewal_requested_at: NOW, renewal_token: 'abcdefghijklmnopqrstuvwx' })] })
+          .mockResolvedValue({ rows: [] })
+      } as unknown as PoolClient;
+
+      const report = await enforceRetention(client, { dryRun: false, now: NOW, correlationId: 'run' }, storage());
+
+      expect(vi.mocked(client.query).mock.calls[2]).toEqual([
+        'UPDATE candidate_consents SET renewal_requested_at = NULL WHERE id = $1',
+        [CONSENT_ID]
+      ]);
+      expect(report.renewal_requests).toEqual([]);
+      expect(report.failed).toEqual([{ candidate_id: CANDIDATE_ID, step: 'renewal', error: 'Email could not be sent' }]);
+    });
+
+    it('should report a purge that failed and carry on', async () => {
+      const client = {
+        query: vi.fn().mockImplementation(async (sql: string) => {
+          if (sql.includes('FROM file_purges')) throw new Error('Connection lost');
+          return { rows: [] };
+        })
+      } as unknown as PoolClient;
+
+      const report = await enforceRetention(client, { dryRun: false, now: NOW, correlationId: 'run' }, storage());
+
+      expect(report.failed).toEqual([{ candidate_id: null, step: 'purge', error: 'Connection lost' }]);
+      expect(vi.mocked(client.query).mock.calls.length).toBeGreaterThan(3);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'; // ^0.34.0
+import { UUID } from '../../types/common';
+import { ApplicationStatus } from '../../types/candidates';
+import {
+  REFERRAL_BONUS_WAITING_DAYS,
+  ReferralProgress,
+  referralSubmitSchema,
+  referralTokenSchema
+} from '../../types/referrals';
+import { SourceChannel } from '../../types/sources';
+import { buildReferralSource, getReferralProgress, toInitials } from '../../services/referrals/referrals';
+import { buildReferralUrl, generateReferralToken } from '../../services/referrals/links';
+import { evaluateBonusEligibility } from '../../services/referrals/bonus';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+// Test data fixtures
+const JOB_ID = '3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c' as UUID;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Referrals', () => {
+  describe('Progress', () => {
+    it('should group pipeline statuses into coarse progress', () => {
+      expect(getReferralProgress(ApplicationStatus.APPLIED)).toBe(ReferralProgress.SUBMITTED);
+      expect(getReferralProgress(ApplicationStatus.SCREENING)).toBe(ReferralProgress.IN_REVIEW);
+      expect(getReferralProgress(ApplicationStatus.OFFER_PENDING)).toBe(ReferralProgress.FINAL_STAGE);
+      expect(getReferralProgress(ApplicationStatus.OFFER_ACCEPTED)).toBe(ReferralProgress.HIRED);
+    });
+
+    it('should not reveal why an application closed', () => {
+      expect(getReferralProgress(ApplicationStatus.REJECTED)).toBe(ReferralProgress.CLOSED);
+      expect(getReferralProgress(ApplicationStatus.WITHDRAWN)).toBe(ReferralProgress.CLOSED);
+      expect(getReferralProgress(ApplicationStatus.OFFER_DECLINED)).toBe(ReferralProgress.CLOSED);
+    });
+
+    it('should reduce candidate names to initials', () => {
+      expect(toInitials('  jane   van Doe ')).toBe('J. V. D.');
+    });
+  });
+
+  describe('Links', () => {
+    it('should generate unguessable tokens that pass validation', () => {
+      const token = generateReferralToken();
+
+      expect(token).not.toBe(generateReferralToken());
+      expect(referralTokenSchema.safeParse(token).success).toBe(true);
+    });
+
+    it('should point referral URLs at the careers site job with the token', () => {
+      expect(buildReferralUrl({ job_id: JOB_ID, token: 'abcDEF123_-xyz789' }, 'https://app.example.com'))
+        .toBe(`https://app.example.com/careers/${JOB_ID}?ref=abcDEF123_-xyz789`);
+    });
+
+    it('should credit referrals to the referral channel', () => {
+      expect(buildReferralSource('Sam Lee')).toEqual({
+        channel: SourceChannel.REFERRAL,
+        sub_source: 'Sam Lee'
+      });
+    });
+  });
+
+  describe('Bonus eligibility', () => {
+    const hiredAt = new Date('2024-01-01T00:00:00.000Z');
+
+    it('should become eligible once the waiting period has passed', () => {
+      const eligibleOn = new Date(hiredAt.getTime() + REFERRAL_BONUS_WAITING_DAYS * DAY_MS);
+
+      expect(evaluateBonusEligibility(hiredAt, true, new Date(eligibleOn.getTime() - 1))).toEqual({
+        eligible_on: eligibleOn,
+        eligible: false
+      });
+      expect(evaluateBonusEligibility(hiredAt, true, eligibleOn).eligible).toBe(true);
+    });
+
+    it('should not be eligible when the hire did not last', () => {
+      const later = new Date(hiredAt.getTime() + 365 * DAY_MS);
+
+      expect(evaluateBonusEligibility(hiredAt, false, later).eligible).toBe(false);
+    });
+  });
+
+  describe('Submission validation', () => {
+    it('should require the referred person to be reachable', async () => {
+      await expect(validateInput(referralSubmitSchema, {
+        job_id: JOB_ID,
+        full_name: 'Jane Doe',
+        email: 'not-an-email',
+        location: 'Austin, TX'
+      })).rejects.toThrow(AppError);
+    });
+  });
+});
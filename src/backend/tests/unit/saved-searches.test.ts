@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { ErrorCode, UUID } from '../../types/common';
+import { UserRole } from '../../types/auth';
+import { CandidateStatus } from '../../types/candidates';
+import {
+  DigestChannel,
+  DigestFrequency,
+  SavedSearch,
+  SavedSearchEntity,
+  SavedSearchSubscription,
+  savedSearchCreateSchema
+} from '../../types/saved-searches';
+import { buildJobFilterConditions } from '../../services/jobs/search-filters';
+import { collectNewResults, runSubscriptionDigest } from '../../services/saved-searches/digests';
+import {
+  subscribeToSavedSearch,
+  updateSavedSearch
+} from '../../services/saved-searches/saved-searches';
+import { sendSavedSearchDigest } from '../../services/saved-searches/notifications';
+
+// Mock digest delivery
+vi.mock('../../services/saved-searches/notifications', () => ({
+  sendSavedSearchDigest: vi.fn()
+}));
+
+// Test data fixtures
+const OWNER_ID = '9b0c1d2e-3f4a-4b5c-8d6e-7f8a9b0c1d2e' as UUID;
+const OTHER_ID = '8a9b0c1d-2e3f-4a4b-9c5d-6e7f8a9b0c1d' as UUID;
+const CANDIDATE_ID = 'a0b1c2d3-e4f5-4a6b-9c7d-8e9f0a1b2c3d' as UUID;
+const LAST_RUN = new Date('2024-03-01T08:00:00.000Z');
+const NOW = new Date('2024-03-02T08:00:00.000Z');
+
+const SEARCH: SavedSearch = {
+  id: 'c2d3e4f5-a6b7-4c8d-9e0f-0a1b2c3d4e5f' as UUID,
+  created_at: new Date('2024-01-01T00:00:00.000Z'),
+  updated_at: new Date('2024-01-01T00:00:00.000Z'),
+  name: 'Java in Berlin',
+  entity_type: SavedSearchEntity.CANDIDATE,
+  filters: { query: 'java', location: 'Berlin', status: [CandidateStatus.ACTIVE] },
+  is_shared: true,
+  owner_id: OWNER_ID
+};
+
+const SUBSCRIPTION: SavedSearchSubscription = {
+  id: 'd3e4f5a6-b7c8-4d9e-8f0a-1b2c3d4e5f6a' as UUID,
+  created_at: new Date('2024-01-01T00:00:00.000Z'),
+  updated_at: new Date('2024-01-01T00:00:00.000Z'),
+  saved_search_id: SEARCH.id,
+  user_id: OTHER_ID,
+  frequency: DigestFrequency.DAILY,
+  channel: DigestChannel.IN_APP,
+  evaluated_until: LAST_RUN,
+  next_run_at: NOW,
+  last_digest_at: LAST_RUN
+};
+
+const RESULT = { id: CANDIDATE_ID, label: 'Jane Doe', detail: 'Berlin' };
+
+describe('Saved Searches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Requests', () => {
+    it('should check filters against the kind of search saved', () => {
+      expect(savedSearchCreateSchema.safeParse({
+        name: 'Remote jobs',
+        entity_type: SavedSearchEntity.JOB,
+        filters: { remote_only: true }
+      }).success).toBe(true);
+      expect(savedSearchCreateSchema.safeParse({
+        name: 'Active candidates',
+        entity_type: SavedSearchEntity.CANDIDATE,
+        filters: { status: ['HIRED_ELSEWHERE'] }
+      }).success).toBe(false);
+    });
+
+    it('should number job search parameters after those already given', () => {
+      const values: unknown[] = ['2024-03-01', '2024-03-02'];
+      const conditions = buildJobFilterConditions({ skills: ['java'], remote_only: true }, values);
+
+      expect(values).toEqual(['2024-03-01', '2024-03-02', ['java']]);
+      expect(conditions).toEqual(['j.skills && $3', 'j.remote_allowed = true']);
+    });
+  });
+
+  describe('Management', () => {
+    it('should not let others change a shared search', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [SEARCH] })
+      } as unknown as PoolClient;
+
+      await expect(updateSavedSearch(client, SEARCH.id, { name: 'Mine now' }, { id: OTHER_ID, role: UserRole.RECRUITER }))
+        .rejects.toMatchObject({ code: ErrorCode.FORBIDDEN });
+    });
+
+    it('should hide searches private to someone else', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [{ ...SEARCH, is_shared: false }] })
+      } as unknown as PoolClient;
+
+      await expect(subscribeToSavedSearch(client, SEARCH.id, OTHER_ID, {
+        frequency: DigestFrequency.DAILY,
+        channel: DigestChannel.EMAIL
+      })).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+    });
+
+    it('should end the subscriptions of others when a search is unshared', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [SEARCH] })
+          .mockResolvedValueOnce({ rows: [{ ...SEARCH, is_shared: false }] })
+          .mockResolvedValueOnce({ rowCount: 2 })
+      } as unknown as PoolClient;
+
+      await updateSavedSearch(client, SEARCH.id, { is_shared: false }, { id: OWNER_ID, role: UserRole.RECRUITER });
+
+      const [sql, values] = vi.mocked(client.query).mock.calls[2] as [string, unknown[]];
+      expect(sql).toContain('DELETE FROM saved_search_subscriptions');
+      expect(values).toEqual([SEARCH.id, OWNER_ID]);
+    });
+
+    it('should start tracking results from the time of subscribing', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [SEARCH] })
+          .mockResolvedValueOnce({ rows: [SUBSCRIPTION] })
+      } as unknown as PoolClient;
+
+      await subscribeToSavedSearch(client, SEARCH.id, OTHER_ID, {
+        frequency: DigestFrequency.WEEKLY,
+        channel: DigestChannel.IN_APP
+      }, NOW);
+
+      expect(vi.mocked(client.query).mock.calls[1][1]).toEqual([
+        SEARCH.id, OTHER_ID, DigestFrequency.WEEKLY, DigestChannel.IN_APP, NOW, 7 * 24 * 60 * 60 * 1000
+      ]);
+    });
+  });
+
+  describe('Digests', () => {
+    it('should only evaluate candidates changed since the last run', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [RESULT] })
+      } as unknown as PoolClient;
+
+      const results = await collectNewResults(client, SUBSCRIPTION, SEARCH, NOW);
+
+      const [sql, values] = vi.mocked(client.query).mock.calls[0] as [string, unknown[]];
+      expect(results).toEqual([RESULT]);
+      expect(sql).toContain('c.updated_at > $1 AND c.updated_at <= $2');
+      expect(sql).toContain("plainto_tsquery('english', $6)");
+      expect(sql).toContain('INSERT INTO saved_search_results');
+      expect(sql).toContain('ON CONFLICT DO NOTHING');
+      expect(values).toEqual([LAST_RUN, NOW, [CandidateStatus.ACTIVE], '%Berlin%', 'Berlin', 'java', SUBSCRIPTION.id]);
+    });
+
+    it('should only find published jobs', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [] })
+      } as unknown as PoolClient;
+
+      await collectNewResults(client, SUBSCRIPTION, {
+        ...SEARCH,
+        entity_type: SavedSearchEntity.JOB,
+        filters: { remote_only: true }
+      }, NOW);
+
+      const [sql, values] = vi.mocked(client.query).mock.calls[0] as [string, unknown[]];
+      expect(sql).toContain('j.updated_at > $1 AND j.updated_at <= $2');
+      expect(sql).toContain('j.status = $3');
+      expect(values).toEqual([LAST_RUN, NOW, 'PUBLISHED', SUBSCRIPTION.id]);
+    });
+
+    it('should send new results and move the subscription on', async () => {
+      vi.mocked(sendSavedSearchDigest).mockResolvedValueOnce(true);
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [RESULT] })
+          .mockResolvedValueOnce({ rowCount: 1 })
+      } as unknown as PoolClient;
+
+      const run = await runSubscriptionDigest(client, SUBSCRIPTION, SEARCH, NOW, 'correlation-id');
+
+      expect(run).toEqual({ subscription_id: SUBSCRIPTION.id, saved_search_id: SEARCH.id, new_results: 1, delivered: true });
+      expect(sendSavedSearchDigest).toHaveBeenCalledWith(client, SUBSCRIPTION, SEARCH, [RESULT], 'correlation-id');
+      expect(vi.mocked(client.query).mock.calls[1][1]).toEqual([SUBSCRIPTION.id, NOW, 24 * 60 * 60 * 1000, true]);
+    });
+
+    it('should not send empty digests', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rowCount: 1 })
+      } as unknown as PoolClient;
+
+      const run = await runSubscriptionDigest(client, SUBSCRIPTION, SEARCH, NOW, 'correlation-id');
+
+      expect(run.delivered).toBe(false);
+      expect(sendSavedSearchDigest).not.toHaveBeenCalled();
+      expect(vi.mocked(client.query).mock.calls[1][1]).toEqual([SUBSCRIPTION.id, NOW, 24 * 60 * 60 * 1000, false]);
+    });
+  });
+});
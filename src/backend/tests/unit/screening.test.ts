@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  ScreeningQuestion,
+  ScreeningQuestionType,
+  screeningAnswerFilterSchema,
+  screeningQuestionInputSchema
+} from '../../types/screening';
+import { Application } from '../../types/applications';
+import { ErrorCode, UUID } from '../../types/common';
+import { AppError } from '../../utils/error-handler';
+import { evaluateKnockout, evaluateScreeningAnswers } from '../../services/screening/answers';
+import { rejectFailedKnockout } from '../../services/screening/knockouts';
+
+// Test data fixtures
+const JOB_ID = '3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c' as UUID;
+const AUTHORIZED_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d' as UUID;
+const YEARS_ID = '1b2c3d4e-5f6a-4b7c-9d8e-0f1a2b3c4d5e' as UUID;
+const SHIFT_ID = '2c3d4e5f-6a7b-4c8d-8e9f-1a2b3c4d5e6f' as UUID;
+
+const buildQuestion = (overrides: Partial<ScreeningQuestion>): ScreeningQuestion => ({
+  id: AUTHORIZED_ID,
+  job_id: JOB_ID,
+  position: 0,
+  type: ScreeningQuestionType.YES_NO,
+  prompt: 'Are you authorized to work in the US?',
+  options: [],
+  required: true,
+  is_knockout: true,
+  expected_answer: true,
+  archived_at: null,
+  created_by: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+const authorized = buildQuestion({});
+const years = buildQuestion({
+  id: YEARS_ID,
+  position: 1,
+  type: ScreeningQuestionType.NUMERIC,
+  prompt: 'Years of forklift experience',
+  expected_answer: { min: 2, max: null }
+});
+const shift = buildQuestion({
+  id: SHIFT_ID,
+  position: 2,
+  type: ScreeningQuestionType.MULTIPLE_CHOICE,
+  prompt: 'Which shift can you work?',
+  options: ['Day', 'Night', 'Weekend'],
+  expected_answer: ['Day', 'Night']
+});
+
+describe('Screening Questions', () => {
+  describe('Validation', () => {
+    it('should only accept expected answers matching the question type', () => {
+      const base = { type: ScreeningQuestionType.MULTIPLE_CHOICE, prompt: 'Shift', options: ['Day', 'Night'], required: true, is_knockout: true };
+      expect(screeningQuestionInputSchema.safeParse({ ...base, expected_answer: ['Day'] }).success).toBe(true);
+      expect(screeningQuestionInputSchema.safeParse({ ...base, expected_answer: ['Evening'] }).success).toBe(false);
+      expect(screeningQuestionInputSchema.safeParse({ ...base, expected_answer: true }).success).toBe(false);
+    });
+
+    it('should require knockout questions to be required and of a checkable type', () => {
+      expect(screeningQuestionInputSchema.safeParse({
+        type: ScreeningQuestionType.YES_NO,
+        prompt: 'Are you authorized to work in the US?',
+        is_knockout: true,
+        expected_answer: true
+      }).success).toBe(false);
+      expect(screeningQuestionInputSchema.safeParse({
+        type: ScreeningQuestionType.TEXT,
+        prompt: 'Why this role?',
+        required: true,
+        is_knockout: true,
+        expected_answer: true
+      }).success).toBe(false);
+    });
+
+    it('should parse answer filters of the form question_id:value', () => {
+      expect(screeningAnswerFilterSchema.parse(`${SHIFT_ID}:Night shift`)).toEqual({
+        question_id: SHIFT_ID,
+        value: 'Night shift'
+      });
+      expect(screeningAnswerFilterSchema.safeParse(`${SHIFT_ID}:`).success).toBe(false);
+      expect(screeningAnswerFilterSchema.safeParse('Night').success).toBe(false);
+    });
+  });
+
+  describe('Knockouts', () => {
+    it('should check answers against the expected answer', () => {
+      expect(evaluateKnockout(authorized, true)).toBe(true);
+      expect(evaluateKnockout(authorized, false)).toBe(false);
+      expect(evaluateKnockout(years, 2)).toBe(true);
+      expect(evaluateKnockout(years, 1.5)).toBe(false);
+      expect(evaluateKnockout(shift, 'Weekend')).toBe(false);
+      expect(evaluateKnockout(buildQuestion({ is_knockout: false, expected_answer: null }), false)).toBeNull();
+    });
+
+    it('should report every invalid and missing answer together', () => {
+      const evaluate = () => evaluateScreeningAnswers(
+        [authorized, years, shift],
+        [{ question_id: AUTHORIZED_ID, value: 'yes' }, { question_id: SHIFT_ID, value: 'Night' }],
+        { requireAll: true }
+      );
+
+      expect(evaluate).toThrow(AppError);
+      try {
+        evaluate();
+      } catch (error) {
+        expect(error).toMatchObject({
+          code: ErrorCode.VALIDATION_ERROR,
+          details: {
+            answers: [
+              { question_id: AUTHORIZED_ID, message: 'Expected yes or no' },
+              { question_id: YEARS_ID, message: 'An answer is required' }
+            ]
+          }
+        });
+      }
+    });
+
+    it('should leave required questions open for recruiters', () => {
+      const answers = evaluateScreeningAnswers(
+        [authorized, years],
+        [{ question_id: AUTHORIZED_ID, value: false }],
+        { requireAll: false }
+      );
+
+      expect(answers).toEqual([{ question: authorized, value: false, knockout_passed: false }]);
+    });
+
+    it('should keep failed applications in the pipeline when the job does not reject automatically', async () => {
+      const query = vi.fn();
+      const client = { query } as unknown as PoolClient;
+
+      const result = await rejectFailedKnockout(
+        client,
+        { id: 'application', job_id: JOB_ID } as unknown as Application,
+        [{ question: authorized, value: false, knockout_passed: false }],
+        { knockout_auto_reject: false, knockout_email_delay_hours: 24 }
+      );
+
+      expect(result).toBeNull();
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
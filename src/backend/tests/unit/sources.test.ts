@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'; // ^0.34.0
+import { SourceChannel, sourceInputSchema } from '../../types/sources';
+import { computeSourceEffectiveness, parseUtmParams } from '../../services/sources/attribution';
+import { validateInput } from '../../utils/validation';
+import { AppError } from '../../utils/error-handler';
+
+describe('Candidate Sources', () => {
+  describe('Campaign parameters', () => {
+    it('should read UTM parameters from a landing page URL', () => {
+      const params = parseUtmParams(
+        'https://careers.example.com/jobs/123?utm_source=linkedin&utm_medium=social&utm_campaign=spring-hiring&ref=abc'
+      );
+
+      expect(params).toEqual({
+        utm_source: 'linkedin',
+        utm_medium: 'social',
+        utm_campaign: 'spring-hiring'
+      });
+    });
+
+    it('should skip blank parameters', () => {
+      expect(parseUtmParams('https://careers.example.com/?utm_source=%20&utm_term=engineer')).toEqual({
+        utm_term: 'engineer'
+      });
+    });
+
+    it('should return no parameters for missing or invalid URLs', () => {
+      expect(parseUtmParams(null)).toEqual({});
+      expect(parseUtmParams('not a url')).toEqual({});
+    });
+  });
+
+  describe('Source effectiveness', () => {
+    it('should compute conversion rates as shares of applicants', () => {
+      const effectiveness = computeSourceEffectiveness({
+        channel: SourceChannel.JOB_BOARD,
+        sub_source: 'Indeed',
+        applicants: '40',
+        interviews: '10',
+        offers: '3',
+        hires: '2'
+      });
+
+      expect(effectiveness).toEqual({
+        channel: SourceChannel.JOB_BOARD,
+        sub_source: 'Indeed',
+        applicants: 40,
+        interviews: 10,
+        offers: 3,
+        hires: 2,
+        interview_rate: 0.25,
+        offer_rate: 0.075,
+        hire_rate: 0.05
+      });
+    });
+
+    it('should round rates to four decimals', () => {
+      const effectiveness = computeSourceEffectiveness({
+        channel: SourceChannel.REFERRAL,
+        sub_source: null,
+        applicants: 3,
+        interviews: 1,
+        offers: 0,
+        hires: 0
+      });
+
+      expect(effectiveness.interview_rate).toBe(0.3333);
+    });
+
+    it('should report zero rates for sources without applicants', () => {
+      const effectiveness = computeSourceEffectiveness({
+        channel: null,
+        sub_source: null,
+        applicants: 0,
+        interviews: 0,
+        offers: 0,
+        hires: 0
+      });
+
+      expect(effectiveness.hire_rate).toBe(0);
+      expect(effectiveness.interview_rate).toBe(0);
+    });
+  });
+
+  describe('Source validation', () => {
+    it('should accept a channel with sub-source and campaign parameters', async () => {
+      const source = await validateInput(sourceInputSchema, {
+        channel: SourceChannel.AGENCY,
+        sub_source: '  Acme Talent  ',
+        utm_campaign: 'q3-engineering'
+      });
+
+      expect(source.sub_source).toBe('Acme Talent');
+    });
+
+    it('should reject unknown channels', async () => {
+      await expect(validateInput(sourceInputSchema, { channel: 'BILLBOARD' })).rejects.toThrow(AppError);
+    });
+
+    it('should reject invalid referrer URLs', async () => {
+      await expect(
+        validateInput(sourceInputSchema, { channel: SourceChannel.CAREER_SITE, referrer_url: 'careers page' })
+      ).rejects.toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { UUID } from '../../types/common';
+import { ExperienceLevel, JobType } from '../../types/jobs';
+import { FeedContext, FeedFormat, SyndicatedJob } from '../../types/syndication';
+import { cdata, splitLocation } from '../../services/syndication/format';
+import { toJobPostingJsonLd } from '../../services/syndication/json-ld';
+import { getFeedFingerprint, listSyndicatedJobs, renderFeed } from '../../services/syndication/feeds';
+
+// Test data fixtures
+const JOB_ID = '3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c' as UUID;
+
+const job: SyndicatedJob = {
+  id: JOB_ID,
+  title: 'Senior Engineer & Lead',
+  description: '<p>Build the platform</p>',
+  requirements: {
+    experience_level: ExperienceLevel.SENIOR,
+    years_experience: 5,
+    required_skills: ['TypeScript'],
+    preferred_skills: [],
+    qualifications: [],
+    responsibilities: []
+  },
+  type: JobType.CONTRACT,
+  skills: ['TypeScript', 'PostgreSQL'],
+  location: 'Austin, TX, US',
+  remote_allowed: false,
+  salary_min: 150000,
+  salary_max: 190000,
+  posted_at: new Date('2024-01-15T00:00:00.000Z'),
+  closed_at: new Date('2024-03-01T00:00:00.000Z'),
+  updated_at: new Date('2024-01-20T00:00:00.000Z')
+};
+
+const context: FeedContext = {
+  publisher: { name: 'HotGigs', url: 'https://hotgigs.example.com' },
+  baseUrl: 'https://jobs.example.com',
+  feedUrl: 'https://jobs.example.com/api/careers/feeds/rss',
+  generatedAt: new Date('2024-02-01T00:00:00.000Z')
+};
+
+const createClient = (rows: unknown[]) => {
+  const query = vi.fn().mockResolvedValue({ rows });
+  return { client: { query } as unknown as PoolClient, query };
+};
+
+describe('Job Syndication', () => {
+  describe('Formatting', () => {
+    it('should keep CDATA terminators inside text from ending the section', () => {
+      expect(cdata('a]]>b')).toBe('<![CDATA[a]]]]><![CDATA[>b]]>');
+    });
+
+    it('should split locations into locality, region and country', () => {
+      expect(splitLocation('Austin, TX, US')).toEqual({ locality: 'Austin', region: 'TX', country: 'US' });
+      expect(splitLocation('Austin, TX')).toEqual({ locality: 'Austin', region: 'TX' });
+      expect(splitLocation('Remote')).toEqual({ locality: 'Remote' });
+    });
+  });
+
+  describe('JobPosting structured data', () => {
+    it('should describe the job with schema.org vocabulary', () => {
+      const posting = toJobPostingJsonLd(job, context.publisher, context.baseUrl);
+
+      expect(posting).toMatchObject({
+        '@type': 'JobPosting',
+        url: `https://jobs.example.com/careers/${JOB_ID}`,
+        employmentType: 'CONTRACTOR',
+        validThrough: '2024-03-01T00:00:00.000Z',
+        hiringOrganization: { name: 'HotGigs' },
+        jobLocation: { address: { addressLocality: 'Austin', addressRegion: 'TX', addressCountry: 'US' } },
+        baseSalary: { value: { minValue: 150000, maxValue: 190000, unitText: 'YEAR' } }
+      });
+      expect(posting).not.toHaveProperty('jobLocationType');
+    });
+
+    it('should mark remote jobs as telecommute', () => {
+      const posting = toJobPostingJsonLd({ ...job, type: JobType.REMOTE }, context.publisher);
+
+      expect(posting.employmentType).toBe('OTHER');
+      expect(posting.jobLocationType).toBe('TELECOMMUTE');
+      expect(posting.applicantLocationRequirements).toEqual({ '@type': 'Country', name: 'US' });
+    });
+  });
+
+  describe('Feeds', () => {
+    it('should serialize the Indeed feed with its job type vocabulary', () => {
+      const feed = renderFeed(FeedFormat.INDEED, [job], context);
+
+      expect(feed).toContain('<title><![CDATA[Senior Engineer & Lead]]></title>');
+      expect(feed).toContain('<jobtype><![CDATA[contract]]></jobtype>');
+      expect(feed).toContain('<salary><![CDATA[$150,000 - $190,000 per year]]></salary>');
+      expect(feed).not.toContain('<remotetype>');
+    });
+
+    it('should mark remote jobs in the Indeed feed without a job type', () => {
+      const feed = renderFeed(FeedFormat.INDEED, [{ ...job, type: JobType.REMOTE }], context);
+
+      expect(feed).not.toContain('<jobtype>');
+      expect(feed).toContain('<remotetype><![CDATA[Fully remote]]></remotetype>');
+    });
+
+    it('should escape job text in RSS items', () => {
+      const feed = renderFeed(FeedFormat.RSS, [job], context);
+
+      expect(feed).toContain('<title>Senior Engineer &amp; Lead (Austin, TX, US)</title>');
+      expect(feed).toContain('<description>&lt;p&gt;Build the platform&lt;/p&gt;</description>');
+      expect(feed).toContain('<category>Contract</category>');
+    });
+
+    it('should date the Atom feed by its latest job update', () => {
+      const feed = renderFeed(FeedFormat.ATOM, [job], context);
+
+      expect(feed).toContain('<updated>2024-01-20T00:00:00.000Z</updated>');
+      expect(feed).toContain('<category term="contract" label="Contract"/>');
+    });
+  });
+
+  describe('Live jobs', () => {
+    it('should only syndicate published jobs that are not past their closing date', async () => {
+      const { client, query } = createClient([]);
+
+      await listSyndicatedJobs(client);
+
+      const [sql] = query.mock.calls[0];
+      expect(sql).toContain("status = 'PUBLISHED'");
+      expect(sql).toContain('closed_at > NOW()');
+    });
+
+    it('should fingerprint the live jobs by count and last update', async () => {
+      const { client } = createClient([{ live: 3, last_updated: job.updated_at }]);
+
+      expect(await getFeedFingerprint(client)).toBe(`3-${job.updated_at.getTime()}`);
+    });
+  });
+});
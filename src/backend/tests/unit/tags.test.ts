@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { DEFAULT_TAG_COLOR, Tag, bulkTagSchema, tagCreateSchema, tagMergeSchema } from '../../types/tags';
+import { ErrorCode, UUID } from '../../types/common';
+import { buildCandidateFilterConditions } from '../../services/candidates/search-filters';
+import { mergeTags, resolveTagNames, setCandidateTags, updateTag } from '../../services/tags/tags';
+
+// Test data fixtures
+const USER_ID = '9b0c1d2e-3f4a-4b5c-8d6e-7f8a9b0c1d2e' as UUID;
+const CANDIDATE_IDS = [
+  'a0b1c2d3-e4f5-4a6b-9c7d-8e9f0a1b2c3d',
+  'b1c2d3e4-f5a6-4b7c-8d9e-9f0a1b2c3d4e'
+] as UUID[];
+
+const tag = (overrides: Partial<Tag>): Tag => ({
+  id: 'c2d3e4f5-a6b7-4c8d-9e0f-0a1b2c3d4e5f' as UUID,
+  created_at: new Date('2024-01-01T00:00:00.000Z'),
+  updated_at: new Date('2024-01-01T00:00:00.000Z'),
+  name: 'Referred',
+  color: DEFAULT_TAG_COLOR,
+  category: null,
+  is_curated: false,
+  created_by: USER_ID,
+  ...overrides
+});
+
+const JAVA = tag({ id: 'd3e4f5a6-b7c8-4d9e-8f0a-1b2c3d4e5f6a' as UUID, name: 'Java', category: 'Skills', is_curated: true });
+const REFERRED = tag({});
+
+describe('Candidate Tags', () => {
+  describe('Requests', () => {
+    it('should default new tags to free-form grey tags', () => {
+      expect(tagCreateSchema.parse({ name: '  Referred ', category: '' })).toEqual({
+        name: 'Referred',
+        color: DEFAULT_TAG_COLOR,
+        category: null,
+        is_curated: false
+      });
+      expect(tagCreateSchema.safeParse({ name: 'Referred', color: 'blue' }).success).toBe(false);
+    });
+
+    it('should require something to change when tagging in bulk', () => {
+      expect(bulkTagSchema.safeParse({ candidate_ids: CANDIDATE_IDS }).success).toBe(false);
+      expect(bulkTagSchema.safeParse({ candidate_ids: CANDIDATE_IDS, add_tag_names: ['Referred'] }).success).toBe(true);
+    });
+
+    it('should not merge a tag into itself', () => {
+      expect(tagMergeSchema.safeParse({ source_ids: [JAVA.id], target_id: JAVA.id }).success).toBe(false);
+    });
+  });
+
+  describe('Search', () => {
+    it('should filter on any of the selected tags', () => {
+      const values: unknown[] = [''];
+      const conditions = buildCandidateFilterConditions({ tags: [JAVA.id, REFERRED.id] }, values);
+
+      expect(values).toEqual(['', [JAVA.id, REFERRED.id]]);
+      expect(conditions[0]).toContain('ct.tag_id = ANY($2::uuid[])');
+    });
+  });
+
+  describe('Tagging', () => {
+    it('should create free-form tags for new names only once', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rowCount: 1 })
+          .mockResolvedValueOnce({ rows: [REFERRED, JAVA] })
+      } as unknown as PoolClient;
+
+      const tags = await resolveTagNames(client, ['Referred', 'referred ', 'Java'], USER_ID);
+
+      expect(tags).toEqual([REFERRED, JAVA]);
+      expect(vi.mocked(client.query).mock.calls[0][1]).toEqual([['Referred', 'Java'], DEFAULT_TAG_COLOR, USER_ID]);
+      expect(vi.mocked(client.query).mock.calls[1][1]).toEqual([['referred', 'java']]);
+    });
+
+    it('should add and remove tags on every candidate', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: CANDIDATE_IDS.map(id => ({ id })) })
+          .mockResolvedValueOnce({ rows: [{ id: JAVA.id }, { id: REFERRED.id }] })
+          .mockResolvedValueOnce({ rowCount: 2 })
+          .mockResolvedValueOnce({ rowCount: 1 })
+      } as unknown as PoolClient;
+
+      const result = await setCandidateTags(client, CANDIDATE_IDS, { add: [JAVA.id], remove: [REFERRED.id] }, USER_ID);
+
+      expect(result).toEqual({ added: 2, removed: 1 });
+      expect(vi.mocked(client.query).mock.calls[2][0]).toContain('ON CONFLICT (candidate_id, tag_id) DO NOTHING');
+      expect(vi.mocked(client.query).mock.calls[2][1]).toEqual([CANDIDATE_IDS, [JAVA.id], USER_ID]);
+    });
+
+    it('should reject unknown candidates', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValueOnce({ rows: [{ id: CANDIDATE_IDS[0] }] })
+      } as unknown as PoolClient;
+
+      await expect(setCandidateTags(client, CANDIDATE_IDS, { add: [JAVA.id], remove: [] }, USER_ID))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND, details: { candidateIds: [CANDIDATE_IDS[1]] } });
+    });
+  });
+
+  describe('Management', () => {
+    it('should not rename a tag to a name in use', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [REFERRED] })
+          .mockResolvedValueOnce({ rows: [{ id: JAVA.id, name: 'Java' }] })
+      } as unknown as PoolClient;
+
+      await expect(updateTag(client, REFERRED.id, { name: 'JAVA' }))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+    });
+
+    it('should move candidates to the target before deleting merged tags', async () => {
+      const client = {
+        query: vi.fn()
+          .mockResolvedValueOnce({ rows: [JAVA] })
+          .mockResolvedValueOnce({ rows: [{ id: REFERRED.id }] })
+          .mockResolvedValueOnce({ rowCount: 3 })
+          .mockResolvedValueOnce({ rowCount: 1 })
+      } as unknown as PoolClient;
+
+      const result = await mergeTags(client, [REFERRED.id], JAVA.id);
+
+      expect(result).toEqual({ tag: JAVA, candidates_moved: 3 });
+      expect(vi.mocked(client.query).mock.calls[2][0]).toContain('INSERT INTO candidate_tags');
+      expect(vi.mocked(client.query).mock.calls[3][0]).toContain('DELETE FROM tags');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest'; // ^0.34.0
+import { PoolClient } from 'pg'; // ^8.11.0
+import { CandidateEmailCategory, TimelineEventType, timelineQuerySchema } from '../../types/timeline';
+import { UserRole } from '../../types/auth';
+import { ErrorCode, UUID } from '../../types/common';
+import { describeTimelineEvent, getCandidateTimeline } from '../../services/candidates/timeline';
+
+// Test data fixtures
+const CANDIDATE_ID = '2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f' as UUID;
+const RECRUITER = { id: '3d4e5f6a-7b8c-4d9e-8f0a-2b3c4d5e6f7a' as UUID, role: UserRole.RECRUITER };
+const HIRING_MANAGER = { id: '4e5f6a7b-8c9d-4e0f-9a1b-3c4d5e6f7a8b' as UUID, role: UserRole.HIRING_MANAGER };
+
+const event = (type: TimelineEventType, details: Record<string, unknown>) => ({
+  id: 'e1',
+  type,
+  occurred_at: new Date('2024-03-01T10:00:00.000Z'),
+  actor_id: null,
+  actor_name: null,
+  application_id: null,
+  details
+});
+
+const mockClient = (rows: unknown[], total = rows.length) => ({
+  query: vi.fn()
+    .mockResolvedValueOnce({ rows: [{ id: CANDIDATE_ID }] })
+    .mockResolvedValueOnce({ rows: [{ total }] })
+    .mockResolvedValueOnce({ rows })
+} as unknown as PoolClient);
+
+describe('Candidate Timeline', () => {
+  describe('Query', () => {
+    it('should read the activity types from a comma separated list', () => {
+      expect(timelineQuerySchema.parse({ types: 'EMAIL, STAGE_CHANGE' })).toEqual({
+        types: [TimelineEventType.EMAIL, TimelineEventType.STAGE_CHANGE],
+        page: 1,
+        limit: 25
+      });
+      expect(timelineQuerySchema.parse({}).types).toEqual([]);
+      expect(timelineQuerySchema.safeParse({ types: 'EMAIL,CALLS' }).success).toBe(false);
+    });
+  });
+
+  describe('Summaries', () => {
+    it('should describe each kind of activity', () => {
+      expect(describeTimelineEvent(event(TimelineEventType.STAGE_CHANGE, {
+        job_title: 'Backend Engineer',
+        from_status: 'SCREENING',
+        to_status: 'OFFER_PENDING'
+      }))).toBe('Moved from screening to offer pending for Backend Engineer');
+      expect(describeTimelineEvent(event(TimelineEventType.EMAIL, {
+        category: CandidateEmailCategory.REJECTION,
+        subject: 'Your application for Backend Engineer'
+      }))).toBe('Rejection email sent: Your application for Backend Engineer');
+      expect(describeTimelineEvent(event(TimelineEventType.INTERVIEW, {
+        job_title: 'Backend Engineer',
+        interview_type: 'TECHNICAL'
+      }))).toBe('Technical interview scheduled for Backend Engineer');
+      expect(describeTimelineEvent(event(TimelineEventType.PROFILE, {
+        action: 'update',
+        fields: ['location', 'phone']
+      }))).toBe('Profile edited: location, phone');
+    });
+  });
+
+  describe('Stream', () => {
+    it('should merge the selected kinds of activity newest first', async () => {
+      const client = mockClient([event(TimelineEventType.EMAIL, { category: 'OFFER', subject: 'Your offer' })], 41);
+
+      const timeline = await getCandidateTimeline(client, CANDIDATE_ID, {
+        types: [TimelineEventType.EMAIL, TimelineEventType.STAGE_CHANGE],
+        page: 2,
+        limit: 20
+      }, RECRUITER);
+
+      expect(timeline).toMatchObject({ total: 41, page: 2, limit: 20, total_pages: 3 });
+      expect(timeline.data[0].summary).toBe('Offer email sent: Your offer');
+
+      const [sql, values] = vi.mocked(client.query).mock.calls[2] as [string, unknown[]];
+      expect(sql).toContain('FROM candidate_emails e');
+      expect(sql).toContain('jsonb_array_elements(a.stage_history)');
+      expect(sql).not.toContain('FROM hotlist_members');
+      expect(sql).toContain('ORDER BY e.occurred_at DESC');
+      expect(values).toEqual([CANDIDATE_ID, 20, 20]);
+    });
+
+    it('should only show hiring managers the hotlists they can open', async () => {
+      const client = mockClient([]);
+
+      await getCandidateTimeline(client, CANDIDATE_ID, { types: [TimelineEventType.HOTLIST], page: 1, limit: 25 }, HIRING_MANAGER);
+
+      const [sql, values] = vi.mocked(client.query).mock.calls[2] as [string, unknown[]];
+      expect(sql).toContain('h.owner_id = $2::uuid');
+      expect(values).toEqual([CANDIDATE_ID, HIRING_MANAGER.id, 25, 0]);
+    });
+
+    it('should reject unknown candidates', async () => {
+      const client = { query: vi.fn().mockResolvedValueOnce({ rows: [] }) } as unknown as PoolClient;
+
+      await expect(getCandidateTimeline(client, CANDIDATE_ID, { types: [], page: 1, limit: 25 }, RECRUITER))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { z } from 'zod'; // ^3.22.0
 import { BaseEntity } from './common';
+import { AttributionModel } from './sources';
 
 // Enum for different types of analytics reports
 export enum ReportType {
@@ -59,8 +60,11 @@ export interface AnalyticsFilters {
   end_date: Date;
   dimensions: MetricDimension[];
   job_types: string[];
+  // Department ids; each also covers the departments below it
   departments: string[];
   locations: string[];
+  // Touchpoint credited in source reports; defaults to the last touch
+  attribution_model?: AttributionModel;
 }
 
 // Type for metric values with metadata
@@ -125,8 +129,9 @@ export const analyticsFiltersSchema = z.object({
   end_date: z.date(),
   dimensions: z.array(metricDimensionSchema),
   job_types: z.array(z.string()),
-  departments: z.array(z.string()),
-  locations: z.array(z.string())
+  departments: z.array(z.string().uuid()),
+  locations: z.array(z.string()),
+  attribution_model: z.nativeEnum(AttributionModel).optional()
 });
 
 // Zod schema for MetricValue validation
@@ -0,0 +1,168 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, PaginationParams, UUID } from '../types/common';
+import { ApplicationStatus } from '../types/candidates';
+import { SourceInput, sourceInputSchema } from '../types/sources';
+import { referralTokenSchema } from '../types/referrals';
+import {
+  ScreeningAnswerSummary,
+  screeningAnswerFilterSchema,
+  screeningAnswersSchema
+} from '../types/screening';
+
+/**
+ * Single entry in an application's append-only stage history
+ */
+export interface StageHistoryEntry {
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  actor_id: UUID | null;
+  changed_at: string;
+  reason?: string;
+  from_stage_id?: UUID | null;
+  to_stage_id?: UUID;
+}
+
+/**
+ * Interface representing a candidate's application to a specific job
+ */
+export interface Application extends BaseEntity {
+  job_id: UUID;
+  candidate_id: UUID;
+  status: ApplicationStatus;
+  stage_id: UUID | null;
+  match_score: number | null;
+  resume_version: UUID | null;
+  feedback: Record<string, unknown>[];
+  stage_history: StageHistoryEntry[];
+  metadata: Record<string, unknown>;
+  created_by: UUID | null;
+  withdrawn_at: Date | null;
+  withdrawal_reason: string | null;
+  first_touch_source_id: UUID | null;
+  last_touch_source_id: UUID | null;
+}
+
+/**
+ * Application joined with the candidate summary used by pipeline views
+ */
+export interface ApplicationWithCandidate extends Application {
+  job_title: string;
+  candidate: {
+    id: UUID;
+    full_name: string;
+    email: string;
+    location: string;
+    status: string;
+    skills: string[];
+    experience_level: string;
+  };
+  screening_answers: ScreeningAnswerSummary[];
+}
+
+/**
+ * Payload for creating a new application
+ */
+export interface ApplicationCreatePayload {
+  job_id: UUID;
+  candidate_id: UUID;
+  status?: ApplicationStatus;
+  stage_id?: UUID;
+  resume_version?: UUID;
+  metadata?: Record<string, unknown>;
+  source?: SourceInput;
+  referral_code?: string;
+  screening_answers?: Array<{ question_id: UUID; value: string | number | boolean }>;
+}
+
+/**
+ * Payload for moving an application between stages
+ */
+export interface ApplicationUpdatePayload {
+  status?: ApplicationStatus;
+  stage_id?: UUID;
+  reason?: string;
+  feedback?: Record<string, unknown>[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Parameters for listing applications
+ */
+export interface ApplicationListParams extends PaginationParams {
+  job_id?: UUID;
+  candidate_id?: UUID;
+  status?: ApplicationStatus[];
+  answers?: Array<{ question_id: UUID; value: string }>;
+  knockout?: 'passed' | 'failed';
+}
+
+/**
+ * Statuses from which an application can no longer be withdrawn or moved
+ */
+export const TERMINAL_APPLICATION_STATUSES: readonly ApplicationStatus[] = [
+  ApplicationStatus.OFFER_ACCEPTED,
+  ApplicationStatus.REJECTED,
+  ApplicationStatus.WITHDRAWN
+] as const;
+
+/**
+ * Statuses after which a new application for the same job may be created
+ */
+export const CLOSED_APPLICATION_STATUSES: readonly ApplicationStatus[] = [
+  ApplicationStatus.REJECTED,
+  ApplicationStatus.WITHDRAWN,
+  ApplicationStatus.OFFER_DECLINED
+] as const;
+
+// Zod schema for stage history entry validation
+export const stageHistoryEntrySchema = z.object({
+  from_status: z.nativeEnum(ApplicationStatus).nullable(),
+  to_status: z.nativeEnum(ApplicationStatus),
+  actor_id: z.string().uuid().nullable(),
+  changed_at: z.string().datetime(),
+  reason: z.string().max(1000).optional(),
+  from_stage_id: z.string().uuid().nullable().optional(),
+  to_stage_id: z.string().uuid().optional()
+});
+
+// Zod schema for application creation validation
+export const applicationCreateSchema = z.object({
+  job_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  status: z.nativeEnum(ApplicationStatus).default(ApplicationStatus.APPLIED),
+  stage_id: z.string().uuid().optional(),
+  resume_version: z.string().uuid().optional(),
+  metadata: z.record(z.unknown()).default({}),
+  source: sourceInputSchema.optional(),
+  referral_code: referralTokenSchema.optional(),
+  screening_answers: screeningAnswersSchema.optional()
+});
+
+// Zod schema for application update validation
+export const applicationUpdateSchema = z.object({
+  status: z.nativeEnum(ApplicationStatus).optional(),
+  stage_id: z.string().uuid().optional(),
+  reason: z.string().max(1000).optional(),
+  feedback: z.array(z.record(z.unknown())).optional(),
+  metadata: z.record(z.unknown()).optional()
+}).refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field must be provided for update'
+});
+
+// Zod schema for application list parameters
+export const applicationListParamsSchema = z.object({
+  job_id: z.string().uuid().optional(),
+  candidate_id: z.string().uuid().optional(),
+  status: z.array(z.nativeEnum(ApplicationStatus)).optional(),
+  answers: z.array(screeningAnswerFilterSchema).max(10).optional(),
+  knockout: z.enum(['passed', 'failed']).optional(),
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().positive().max(200).default(50)
+}).refine(data => data.job_id || data.candidate_id, {
+  message: 'Either job_id or candidate_id is required'
+});
+
+// Zod schema for application withdrawal
+export const applicationWithdrawSchema = z.object({
+  reason: z.string().max(1000).optional()
+});
@@ -0,0 +1,155 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Entities whose lifecycle can be gated by an approval chain
+ */
+export enum ApprovalEntityType {
+  JOB = 'job',
+  OFFER = 'offer'
+}
+
+/**
+ * Overall state of an approval request
+ */
+export enum ApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * State of a single approver step within a request
+ */
+export enum ApprovalStepStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  SKIPPED = 'SKIPPED'
+}
+
+/**
+ * Decisions an approver can record on a step
+ */
+export enum ApprovalDecision {
+  APPROVE = 'approve',
+  REJECT = 'reject'
+}
+
+/**
+ * Roles that can be named as approvers and can request approvals
+ */
+export const APPROVER_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.RECRUITER,
+  UserRole.HIRING_MANAGER
+];
+
+/**
+ * Interface for an approver of a chain; steps sharing a step order approve in parallel
+ */
+export interface ApprovalChainStep {
+  id: UUID;
+  chain_id: UUID;
+  step_order: number;
+  approver_role: UserRole | null;
+  approver_id: UUID | null;
+}
+
+/**
+ * Interface for the approval chain applied to every request for an entity type
+ */
+export interface ApprovalChain extends BaseEntity {
+  name: string;
+  entity_type: ApprovalEntityType;
+  is_active: boolean;
+  reminder_interval_hours: number;
+  created_by: UUID | null;
+  steps: ApprovalChainStep[];
+}
+
+/**
+ * Interface for an approver step of a request, copied from the chain when requested
+ */
+export interface ApprovalRequestStep extends BaseEntity {
+  request_id: UUID;
+  step_order: number;
+  approver_role: UserRole | null;
+  approver_id: UUID | null;
+  status: ApprovalStepStatus;
+  decided_by: UUID | null;
+  decided_at: Date | null;
+  comment: string | null;
+  last_reminded_at: Date | null;
+}
+
+/**
+ * Interface for the approval of a job or of a single offer version
+ */
+export interface ApprovalRequest extends BaseEntity {
+  chain_id: UUID;
+  entity_type: ApprovalEntityType;
+  entity_id: UUID;
+  entity_version: number | null;
+  status: ApprovalStatus;
+  requested_by: UUID;
+  completed_at: Date | null;
+  steps: ApprovalRequestStep[];
+}
+
+/**
+ * Approval request awaiting the current user, with the labels of the gated entity
+ */
+export interface PendingApproval extends ApprovalRequest {
+  job_title: string | null;
+  candidate_name: string | null;
+}
+
+// Zod schema for an approver step; each step names either a role or a user
+export const approvalChainStepInputSchema = z.object({
+  step_order: z.number().int().min(0).max(20),
+  approver_role: z.enum([UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER]).optional(),
+  approver_id: z.string().uuid().optional()
+}).refine(step => !step.approver_role !== !step.approver_id, {
+  message: 'A step needs exactly one of approver_role or approver_id'
+});
+
+// Zod schema for approval chain creation
+export const approvalChainCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  entity_type: z.nativeEnum(ApprovalEntityType),
+  is_active: z.boolean().default(true),
+  reminder_interval_hours: z.number().int().min(1).max(720).default(24),
+  steps: z.array(approvalChainStepInputSchema).min(1).max(20)
+});
+
+// Zod schema for approval chain update; steps, when provided, replace the chain's approvers
+export const approvalChainUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  is_active: z.boolean().optional(),
+  reminder_interval_hours: z.number().int().min(1).max(720).optional(),
+  steps: z.array(approvalChainStepInputSchema).min(1).max(20).optional()
+});
+
+// Zod schema for requesting approval of an entity
+export const approvalRequestCreateSchema = z.object({
+  entity_type: z.nativeEnum(ApprovalEntityType),
+  entity_id: z.string().uuid()
+});
+
+// Zod schema for an approver decision; rejections must explain why
+export const approvalDecisionSchema = z.object({
+  decision: z.nativeEnum(ApprovalDecision),
+  comment: z.string().trim().max(2000).optional()
+}).refine(data => data.decision === ApprovalDecision.APPROVE || !!data.comment, {
+  message: 'A comment is required when rejecting',
+  path: ['comment']
+});
+
+// Zod schema for approval list parameters
+export const approvalListParamsSchema = z.object({
+  entity_type: z.nativeEnum(ApprovalEntityType),
+  entity_id: z.string().uuid()
+});
@@ -0,0 +1,176 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { ApplicationStatus, Education, WorkExperience } from '../types/candidates';
+import { ExperienceLevel, JobRequirements, JobStatus, JobType } from '../types/jobs';
+
+/**
+ * Systems whose exports can be imported
+ */
+export enum AtsImportSource {
+  GREENHOUSE = 'GREENHOUSE',
+  LEVER = 'LEVER',
+  WORKABLE = 'WORKABLE',
+  JSON_RESUME = 'JSON_RESUME'
+}
+
+/**
+ * Kinds of records an export contains
+ */
+export enum AtsEntityType {
+  JOB = 'JOB',
+  CANDIDATE = 'CANDIDATE',
+  APPLICATION = 'APPLICATION'
+}
+
+/**
+ * What an import run did with one exported record. A record imported before is
+ * UNCHANGED when the export holds the same data as last time.
+ */
+export enum ReconciliationOutcome {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  UNCHANGED = 'UNCHANGED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * Most records a single export may contain
+ */
+export const MAX_ATS_IMPORT_RECORDS = 5000;
+
+/**
+ * Job as converted from an export
+ */
+export interface AtsJob {
+  external_id: string;
+  title: string;
+  description: string;
+  status: JobStatus;
+  type: JobType;
+  location: string;
+  remote_allowed: boolean;
+  salary_min: number;
+  salary_max: number;
+  skills: string[];
+  requirements: JobRequirements;
+  posted_at: Date | null;
+  closed_at: Date | null;
+}
+
+/**
+ * Candidate as converted from an export
+ */
+export interface AtsCandidate {
+  external_id: string;
+  full_name: string;
+  email: string;
+  phone: string;
+  location: string;
+  experience_level: ExperienceLevel;
+  skills: string[];
+  experience: WorkExperience[];
+  education: Education[];
+}
+
+/**
+ * Stage change of an exported application, oldest first
+ */
+export interface AtsApplicationEvent {
+  status: ApplicationStatus;
+  changed_at: Date;
+  // Stage name in the source system
+  stage_name: string | null;
+}
+
+/**
+ * Application as converted from an export
+ */
+export interface AtsApplication {
+  external_id: string;
+  candidate_external_id: string;
+  job_external_id: string;
+  status: ApplicationStatus;
+  applied_at: Date;
+  history: AtsApplicationEvent[];
+}
+
+/**
+ * Problem found while converting an export; the record is still imported without the
+ * data the issue is about
+ */
+export interface AtsConversionIssue {
+  entity_type: AtsEntityType;
+  external_id: string;
+  message: string;
+}
+
+/**
+ * Export converted to our records by an adapter
+ */
+export interface AtsExport {
+  source: AtsImportSource;
+  jobs: AtsJob[];
+  candidates: AtsCandidate[];
+  applications: AtsApplication[];
+  issues: AtsConversionIssue[];
+}
+
+/**
+ * Converts the export layout of one system. Adapters are registered by source and
+ * picked by `detect` when the uploader does not name the system.
+ */
+export interface AtsImportAdapter {
+  source: AtsImportSource;
+  label: string;
+  // Whether a parsed export document has this system's layout
+  detect(document: unknown): boolean;
+  // Converts a parsed export document
+  convert(document: unknown): AtsExport;
+}
+
+/**
+ * What an import run did with one exported record
+ */
+export interface ReconciliationRecord {
+  entity_type: AtsEntityType;
+  external_id: string;
+  entity_id: UUID | null;
+  outcome: ReconciliationOutcome;
+  message: string | null;
+}
+
+/**
+ * Number of records per entity type and outcome
+ */
+export type ReconciliationTotals = Record<AtsEntityType, Record<ReconciliationOutcome, number>>;
+
+/**
+ * Import of an export from another applicant tracking system
+ */
+export interface AtsImportRun extends BaseEntity {
+  source: AtsImportSource;
+  file_name: string;
+  totals: ReconciliationTotals;
+  created_by: UUID | null;
+}
+
+/**
+ * Reconciliation report of a run: totals and every record, in export order
+ */
+export interface ReconciliationReport {
+  run: AtsImportRun | null;
+  source: AtsImportSource;
+  dry_run: boolean;
+  totals: ReconciliationTotals;
+  records: ReconciliationRecord[];
+}
+
+// Zod schema for the options sent with an export
+export const atsImportOptionsSchema = z.object({
+  source: z.nativeEnum(AtsImportSource).optional(),
+  dry_run: z.boolean().default(false)
+});
+
+// Zod schema for the report download format
+export const reconciliationReportFormatSchema = z.enum(['json', 'csv']).default('json');
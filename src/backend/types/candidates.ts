@@ -1,5 +1,5 @@
 import { z } from 'zod'; // ^3.22.0
-import { BaseEntity, PaginationParams, UUID } from '../types/common';
+import { BaseEntity, JsonValue, PaginationParams, UUID } from '../types/common';
 import { JobType, ExperienceLevel } from '../types/jobs';
 
 /**
@@ -23,7 +23,8 @@ export enum ApplicationStatus {
   OFFER_PENDING = 'OFFER_PENDING',
   OFFER_ACCEPTED = 'OFFER_ACCEPTED',
   OFFER_DECLINED = 'OFFER_DECLINED',
-  REJECTED = 'REJECTED'
+  REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN'
 }
 
 /**
@@ -206,10 +207,95 @@ export const candidateSearchParamsSchema = z.object({
   limit: z.number().int().positive().max(100)
 });
 
+// Zod schema for the filters of the candidate search, shared by search and export
+export const candidateSearchFiltersSchema = z.object({
+  query: z.string().optional(),
+  status: z.array(z.nativeEnum(CandidateStatus)).optional(),
+  skills: z.array(z.string()).optional(),
+  experienceLevel: z.array(z.string()).optional(),
+  location: z.string().optional(),
+  salaryRange: z.object({
+    min: z.number().min(0),
+    max: z.number().min(0)
+  }).optional(),
+  // Candidates carrying any of these tags
+  tags: z.array(z.string().uuid()).max(50).optional()
+});
+
+export type CandidateSearchFilters = z.infer<typeof candidateSearchFiltersSchema>;
+
 // Zod schema for candidate update payload validation
 export const candidateUpdatePayloadSchema = candidateSchema.partial().omit({
   id: true,
   created_at: true,
   updated_at: true,
   match_score: true
-});
\ No newline at end of file
+});
+
+/**
+ * Signals that make two candidate profiles likely to be the same person
+ */
+export enum DuplicateMatchReason {
+  EMAIL = 'EMAIL',
+  PHONE = 'PHONE',
+  NAME = 'NAME',
+  RESUME = 'RESUME'
+}
+
+/**
+ * Existing candidate that likely duplicates a new or existing profile
+ */
+export interface DuplicateCandidateMatch {
+  candidate_id: UUID;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  status: CandidateStatus;
+  created_at: Date;
+  score: number;
+  name_similarity: number;
+  reasons: DuplicateMatchReason[];
+}
+
+/**
+ * Number of records moved from a merged candidate to the primary candidate
+ */
+export interface CandidateMergeCounts {
+  applications: number;
+  interviews: number;
+  offers: number;
+  hotlists: number;
+}
+
+/**
+ * Audit record of a duplicate candidate merged into a primary profile
+ */
+export interface CandidateMerge {
+  id: UUID;
+  primary_candidate_id: UUID;
+  merged_candidate_id: UUID;
+  merged_by: UUID;
+  merged_snapshot: JsonValue;
+  moved_records: CandidateMergeCounts;
+  created_at: Date;
+}
+
+// Zod schema for duplicate checks of a new profile or an existing candidate
+export const candidateDuplicateCheckSchema = z.object({
+  candidate_id: z.string().uuid().optional(),
+  full_name: z.string().min(1).max(100).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().max(30).optional()
+}).refine(data => !!data.candidate_id || (!!data.full_name && !!data.email), {
+  message: 'Either a candidate or a name and email are required',
+  path: ['candidate_id']
+});
+
+// Zod schema for merging a duplicate candidate into a primary candidate
+export const candidateMergeSchema = z.object({
+  primary_id: z.string().uuid(),
+  duplicate_id: z.string().uuid()
+}).refine(data => data.primary_id !== data.duplicate_id, {
+  message: 'A candidate cannot be merged into itself',
+  path: ['duplicate_id']
+});
@@ -0,0 +1,72 @@
+import { z } from 'zod'; // ^3.22.0
+import { UUID } from './common';
+import { JobRequirements, JobType } from './jobs';
+import { referralTokenSchema } from './referrals';
+import { screeningAnswersSchema } from './screening';
+
+/**
+ * A published job as shown on the public careers site. Internal fields such as the
+ * creator, pipeline template and status history are never part of it.
+ */
+export interface PublicJob {
+  id: UUID;
+  title: string;
+  description: string;
+  requirements: JobRequirements;
+  type: JobType;
+  skills: string[];
+  location: string;
+  remote_allowed: boolean;
+  salary_min: number;
+  salary_max: number;
+  posted_at: Date;
+}
+
+/**
+ * Columns selected for public jobs; anything not listed here stays in the database
+ */
+export const PUBLIC_JOB_COLUMNS: ReadonlyArray<keyof PublicJob> = [
+  'id',
+  'title',
+  'description',
+  'requirements',
+  'type',
+  'skills',
+  'location',
+  'remote_allowed',
+  'salary_min',
+  'salary_max',
+  'posted_at'
+];
+
+/**
+ * Acknowledgement returned to an applicant. It is the same whether or not the
+ * applicant already had an open application, so the form reveals nothing about them.
+ */
+export interface CareerApplicationReceipt {
+  job_id: UUID;
+  job_title: string;
+  submitted_at: Date;
+}
+
+// Zod schema for public job list query parameters
+export const publicJobListParamsSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  type: z.nativeEnum(JobType).optional(),
+  location: z.string().trim().max(200).optional(),
+  remote_only: z.boolean().default(false),
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().positive().max(50).default(20)
+});
+
+// Zod schema for applications submitted through the careers site
+export const careerApplicationSchema = z.object({
+  full_name: z.string().trim().min(1).max(255),
+  email: z.string().trim().email().max(320),
+  phone: z.string().trim().max(50).optional(),
+  location: z.string().trim().min(1).max(255),
+  cover_letter: z.string().trim().max(10000).optional(),
+  referral_code: referralTokenSchema.optional(),
+  source_url: z.string().url().max(2000).optional(),
+  answers: screeningAnswersSchema.default([])
+});
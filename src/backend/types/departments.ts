@@ -0,0 +1,112 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Role of a user on the hiring team of one job, independent of their platform role
+ */
+export enum HiringTeamRole {
+  RECRUITER = 'RECRUITER',
+  HIRING_MANAGER = 'HIRING_MANAGER',
+  COORDINATOR = 'COORDINATOR',
+  INTERVIEWER = 'INTERVIEWER'
+}
+
+/**
+ * Roles that manage the department structure
+ */
+export const DEPARTMENT_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN];
+
+/**
+ * Roles that assign hiring teams to jobs
+ */
+export const HIRING_TEAM_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Platform roles of staff who can belong to departments and hiring teams
+ */
+export const STAFF_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER];
+
+/**
+ * Interface for a department in the department hierarchy
+ */
+export interface Department extends BaseEntity {
+  name: string;
+  parent_id: UUID | null;
+  cost_center: string | null;
+  archived_at: Date | null;
+  created_by: UUID | null;
+}
+
+/**
+ * Department as listed, with its depth in the hierarchy and its members
+ */
+export interface DepartmentWithMembers extends Department {
+  depth: number;
+  member_ids: UUID[];
+}
+
+/**
+ * Staff user who can be added to departments and hiring teams
+ */
+export interface StaffMember {
+  id: UUID;
+  full_name: string;
+  email: string;
+  role: UserRole;
+  department_ids: UUID[];
+}
+
+/**
+ * Member of the hiring team of a job
+ */
+export interface HiringTeamMember {
+  user_id: UUID;
+  full_name: string;
+  email: string;
+  team_role: HiringTeamRole;
+}
+
+/**
+ * Hiring team of a job grouped by team role
+ */
+export interface JobHiringTeam {
+  job_id: UUID;
+  recruiter_id: UUID | null;
+  hiring_manager_id: UUID | null;
+  coordinator_ids: UUID[];
+  interviewer_ids: UUID[];
+  members: HiringTeamMember[];
+}
+
+// Zod schema for creating a department
+export const departmentCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  parent_id: z.string().uuid().nullable().default(null),
+  cost_center: z.string().trim().max(50).nullable().default(null),
+  member_ids: z.array(z.string().uuid()).max(500).default([])
+});
+
+// Zod schema for updating a department; member_ids replaces the membership
+export const departmentUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  parent_id: z.string().uuid().nullable().optional(),
+  cost_center: z.string().trim().max(50).nullable().optional(),
+  archived: z.boolean().optional(),
+  member_ids: z.array(z.string().uuid()).max(500).optional()
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Nothing to update'
+});
+
+// Zod schema for department list parameters
+export const departmentListParamsSchema = z.object({
+  include_archived: z.boolean().default(false)
+});
+
+// Zod schema for replacing the hiring team of a job
+export const hiringTeamUpdateSchema = z.object({
+  recruiter_id: z.string().uuid().nullable(),
+  hiring_manager_id: z.string().uuid().nullable(),
+  coordinator_ids: z.array(z.string().uuid()).max(20).default([]),
+  interviewer_ids: z.array(z.string().uuid()).max(50).default([])
+});
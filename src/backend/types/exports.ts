@@ -0,0 +1,130 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+import { CandidateSearchFilters, candidateSearchFiltersSchema } from '../types/candidates';
+
+/**
+ * File formats candidates can be exported to
+ */
+export enum CandidateExportFormat {
+  CSV = 'CSV',
+  XLSX = 'XLSX',
+  JSON_RESUME = 'JSON_RESUME'
+}
+
+/**
+ * Lifecycle of an export. Small exports are streamed straight back and recorded as
+ * completed; larger ones are queued and written to storage by the export worker.
+ */
+export enum CandidateExportStatus {
+  QUEUED = 'QUEUED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * Roles that export candidate data
+ */
+export const EXPORT_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Most candidates streamed straight back; larger exports run in the background
+ */
+export const MAX_INLINE_EXPORT_ROWS = 1000;
+
+/**
+ * Most candidates a single export may contain
+ */
+export const MAX_EXPORT_ROWS = 100000;
+
+/**
+ * Columns of a CSV or XLSX export. Current title and company come from the latest
+ * position, education is the most recent entry and salary and remote work come from
+ * the candidate's preferences.
+ */
+export const CANDIDATE_EXPORT_COLUMNS = [
+  'id',
+  'full_name',
+  'email',
+  'phone',
+  'location',
+  'status',
+  'experience_level',
+  'skills',
+  'current_title',
+  'current_company',
+  'education',
+  'salary_expectation_min',
+  'salary_expectation_max',
+  'remote_only',
+  'open_to_relocation',
+  'resume_url',
+  'created_at',
+  'updated_at'
+] as const;
+
+export type CandidateExportColumn = typeof CANDIDATE_EXPORT_COLUMNS[number];
+
+/**
+ * Columns exported when none are selected
+ */
+export const DEFAULT_EXPORT_COLUMNS: CandidateExportColumn[] = [
+  'full_name',
+  'email',
+  'phone',
+  'location',
+  'status',
+  'experience_level',
+  'skills',
+  'current_title',
+  'current_company'
+];
+
+/**
+ * What to export: the candidates matching the search filters, in a format, with the
+ * selected columns. JSON Resume documents always have the full resume schema.
+ */
+export interface CandidateExportRequest {
+  format: CandidateExportFormat;
+  filters: CandidateSearchFilters;
+  columns: CandidateExportColumn[];
+}
+
+/**
+ * Export of candidate data
+ */
+export interface CandidateExport extends BaseEntity, CandidateExportRequest {
+  status: CandidateExportStatus;
+  row_count: number;
+  // Storage key of the file written by the worker; streamed exports have none
+  file_key: string | null;
+  error: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_by: UUID;
+}
+
+/**
+ * Export with a signed link to its file once the worker has written it
+ */
+export interface CandidateExportWithDownload extends CandidateExport {
+  download_url: string | null;
+  download_expires_at: Date | null;
+}
+
+// Zod schema for export requests
+export const candidateExportRequestSchema = z.object({
+  format: z.nativeEnum(CandidateExportFormat),
+  filters: candidateSearchFiltersSchema.default({}),
+  columns: z.array(z.enum(CANDIDATE_EXPORT_COLUMNS))
+    .max(CANDIDATE_EXPORT_COLUMNS.length)
+    .default(DEFAULT_EXPORT_COLUMNS)
+    .transform(columns => columns.length > 0 ? [...new Set(columns)] : DEFAULT_EXPORT_COLUMNS)
+});
+
+// Zod schema for the options of a PDF profile
+export const candidateProfileOptionsSchema = z.object({
+  // Contact details are left out unless asked for, since profiles are shared outside recruiting
+  include_contact: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+});
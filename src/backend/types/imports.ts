@@ -0,0 +1,186 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Spreadsheet formats candidates can be imported from
+ */
+export enum ImportFileFormat {
+  CSV = 'CSV',
+  XLSX = 'XLSX'
+}
+
+/**
+ * What happens to an imported row that matches an existing candidate
+ */
+export enum DuplicateStrategy {
+  SKIP = 'SKIP',
+  UPDATE = 'UPDATE',
+  CREATE = 'CREATE'
+}
+
+/**
+ * Lifecycle of an import: uploaded files are previewed any number of times, then queued
+ * and committed in batches by the import worker
+ */
+export enum CandidateImportStatus {
+  UPLOADED = 'UPLOADED',
+  QUEUED = 'QUEUED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED'
+}
+
+/**
+ * Outcome of a single imported row
+ */
+export enum ImportRowStatus {
+  PENDING = 'PENDING',
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * Roles that import candidates
+ */
+export const IMPORT_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Most data rows a single spreadsheet may contain
+ */
+export const MAX_IMPORT_ROWS = 20000;
+
+/**
+ * Candidate fields a spreadsheet column can be mapped to. Preference fields are nested
+ * under `preferences`; `resume_file` names a file in the resume archive uploaded with
+ * the spreadsheet.
+ */
+export const IMPORT_FIELDS = [
+  'full_name',
+  'email',
+  'phone',
+  'location',
+  'status',
+  'experience_level',
+  'skills',
+  'resume_file',
+  'preferences.preferred_job_types',
+  'preferences.preferred_locations',
+  'preferences.remote_only',
+  'preferences.salary_expectation_min',
+  'preferences.salary_expectation_max',
+  'preferences.open_to_relocation',
+  'preferences.preferred_industries',
+  'preferences.preferred_companies',
+  'preferences.preferred_travel_percentage',
+  'preferences.excluded_industries'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/**
+ * Column header each mapped field is read from, keyed by field
+ */
+export type ImportFieldMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * Problem with one field of an imported row
+ */
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+/**
+ * How the rows of an import are read and committed
+ */
+export interface CandidateImportOptions {
+  mapping: ImportFieldMapping;
+  duplicate_strategy: DuplicateStrategy;
+  // Separator of the values in list columns such as skills
+  list_delimiter: string;
+}
+
+/**
+ * Spreadsheet import of candidates
+ */
+export interface CandidateImport extends BaseEntity {
+  file_name: string;
+  format: ImportFileFormat;
+  headers: string[];
+  row_count: number;
+  resume_archive_key: string | null;
+  resume_files: string[];
+  mapping: ImportFieldMapping | null;
+  duplicate_strategy: DuplicateStrategy | null;
+  list_delimiter: string;
+  status: CandidateImportStatus;
+  previewed_at: Date | null;
+  queued_at: Date | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_by: UUID | null;
+}
+
+/**
+ * Number of rows of an import per outcome
+ */
+export type ImportRowCounts = Record<ImportRowStatus, number>;
+
+/**
+ * Import with the progress of its rows
+ */
+export interface CandidateImportWithProgress extends CandidateImport {
+  row_counts: ImportRowCounts;
+}
+
+/**
+ * Row of an imported spreadsheet, keyed by column header
+ */
+export interface CandidateImportRow {
+  import_id: UUID;
+  row_number: number;
+  data: Record<string, string>;
+  status: ImportRowStatus;
+  candidate_id: UUID | null;
+  errors: ImportRowError[];
+  processed_at: Date | null;
+}
+
+/**
+ * Outcome a row would have if the import were committed now
+ */
+export interface ImportRowPreview {
+  row_number: number;
+  status: ImportRowStatus;
+  errors: ImportRowError[];
+  // Existing candidate the row matches
+  duplicate_candidate_id: UUID | null;
+  // Earlier row of the same file the row repeats
+  duplicate_row_number: number | null;
+}
+
+/**
+ * Dry run of an import: predicted outcome counts and the rows that need attention
+ */
+export interface CandidateImportPreview {
+  import_id: UUID;
+  row_counts: ImportRowCounts;
+  // Rows with errors or duplicates, in file order
+  rows: ImportRowPreview[];
+  truncated: boolean;
+}
+
+// Zod schema for the column mapping; name and email are always mapped
+export const importFieldMappingSchema = z.record(z.enum(IMPORT_FIELDS), z.string().min(1).max(255))
+  .refine(mapping => !!mapping.full_name && !!mapping.email, {
+    message: 'Name and email columns must be mapped'
+  }) as z.ZodType<ImportFieldMapping>;
+
+// Zod schema for the options of a dry run
+export const candidateImportOptionsSchema = z.object({
+  mapping: importFieldMappingSchema,
+  duplicate_strategy: z.nativeEnum(DuplicateStrategy),
+  list_delimiter: z.enum([';', ',', '|']).default(';')
+});
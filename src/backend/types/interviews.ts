@@ -90,6 +90,10 @@ export interface Interview extends BaseEntity {
   };
   notes?: string;
   candidate_confirmed: boolean;
+  candidate_confirmed_at?: Date | null;
+  reschedule_requested_at?: Date | null;
+  reschedule_reason?: string | null;
+  reschedule_preferred_times?: Date[] | null;
   interviewers_confirmed: boolean;
   feedback: InterviewFeedback[];
   calendar_metadata?: {
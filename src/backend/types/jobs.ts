@@ -1,5 +1,6 @@
 import { z } from 'zod'; // ^3.22.0
-import { BaseEntity, PaginationParams } from '../types/common';
+import { BaseEntity, PaginationParams, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
 
 /**
  * Enum representing possible states of a job posting throughout its lifecycle
@@ -23,6 +24,33 @@ export enum JobType {
   REMOTE = 'REMOTE'
 }
 
+/**
+ * Lifecycle rules under which the job lifecycle worker changes the status of a job
+ */
+export enum JobLifecycleTrigger {
+  SCHEDULED_PUBLISH = 'SCHEDULED_PUBLISH',
+  EXPIRY = 'EXPIRY',
+  HEADCOUNT_FILLED = 'HEADCOUNT_FILLED'
+}
+
+/**
+ * Kinds of wording problems flagged in job descriptions
+ */
+export enum WordingIssueCategory {
+  EXCLUSIONARY = 'EXCLUSIONARY',
+  BIASED = 'BIASED',
+  REQUIREMENT_STACK = 'REQUIREMENT_STACK',
+  MISSING_SALARY = 'MISSING_SALARY'
+}
+
+/**
+ * Whether a wording issue was found by the local rule list or by the AI check
+ */
+export enum WordingIssueSource {
+  RULES = 'RULES',
+  AI = 'AI'
+}
+
 /**
  * Enum for job experience level requirements and seniority
  */
@@ -64,6 +92,12 @@ export interface Job extends BaseEntity {
   salary_max: number;
   location: string;
   remote_allowed: boolean;
+  pipeline_template_id?: UUID | null;
+  department_id?: UUID | null;
+  headcount: number;
+  publish_at: Date | null;
+  expiry_warning_sent_at: Date | null;
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -82,7 +116,7 @@ export type JobWithMatches = Job & {
 /**
  * Type for job update operations with strict partial fields
  */
-export type JobUpdatePayload = Partial<Omit<Job, 'id' | 'creator_id' | 'created_at' | 'updated_at'>>;
+export type JobUpdatePayload = Partial<Omit<Job, 'id' | 'creator_id' | 'created_at' | 'updated_at' | 'expiry_warning_sent_at' | 'metadata'>>;
 
 /**
  * Comprehensive interface for job search query parameters with filtering options
@@ -99,6 +133,128 @@ export interface JobSearchParams extends PaginationParams {
   salary_max: number;
 }
 
+/**
+ * Roles that clone jobs and manage the template library
+ */
+export const JOB_TEMPLATE_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Roles that browse templates, review the revision history of jobs and use the
+ * job description writer
+ */
+export const JOB_REVIEWER_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.RECRUITER,
+  UserRole.HIRING_MANAGER
+];
+
+/**
+ * Job content kept in a template and copied into jobs created from it
+ */
+export type JobTemplateContent = Pick<
+  Job,
+  'title' | 'description' | 'requirements' | 'type' | 'skills' | 'salary_min' | 'salary_max' | 'location' | 'remote_allowed'
+> & {
+  pipeline_template_id: UUID | null;
+};
+
+/**
+ * Fields copied between jobs and templates
+ */
+export const JOB_TEMPLATE_FIELDS: readonly (keyof JobTemplateContent)[] = [
+  'title',
+  'description',
+  'requirements',
+  'type',
+  'skills',
+  'salary_min',
+  'salary_max',
+  'location',
+  'remote_allowed',
+  'pipeline_template_id'
+] as const;
+
+/**
+ * Interface for a reusable job template in the template library
+ */
+export interface JobTemplate extends BaseEntity, JobTemplateContent {
+  name: string;
+  source_job_id: UUID | null;
+  archived_at: Date | null;
+  created_by: UUID | null;
+}
+
+/**
+ * Job description fields whose change records a new revision
+ */
+export const JOB_REVISION_FIELDS = ['title', 'description', 'requirements'] as const;
+
+export type JobRevisionField = typeof JOB_REVISION_FIELDS[number];
+
+/**
+ * Snapshot of the description of a job at one revision
+ */
+export interface JobRevision extends Pick<Job, JobRevisionField> {
+  id: UUID;
+  job_id: UUID;
+  revision: number;
+  job_status: JobStatus;
+  changed_fields: JobRevisionField[];
+  created_by: UUID | null;
+  created_at: Date;
+}
+
+/**
+ * Days before a published job closes that its creator is warned
+ */
+export const JOB_EXPIRY_WARNING_DAYS = 3;
+
+/**
+ * Interface for a status change made by the job lifecycle worker
+ */
+export interface JobStatusTransition {
+  id: UUID;
+  created_at: Date;
+  job_id: UUID;
+  from_status: JobStatus;
+  to_status: JobStatus;
+  trigger: JobLifecycleTrigger;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Problem found in the wording of a job. Issues in text carry the position of the
+ * excerpt within the text at `path` so the suggestion can replace it inline.
+ */
+export interface WordingIssue {
+  category: WordingIssueCategory;
+  source: WordingIssueSource;
+  // 'title', 'description', 'requirements.<field>.<index>', 'requirements' or 'salary'
+  path: string;
+  message: string;
+  excerpt: string | null;
+  suggestion: string | null;
+  start: number | null;
+  end: number | null;
+}
+
+/**
+ * Result of a wording check; ai_checked is false when only the local rules ran
+ */
+export interface WordingCheckResult {
+  issues: WordingIssue[];
+  ai_checked: boolean;
+}
+
+/**
+ * Description and requirements drafted by the job description writer
+ */
+export interface JobDescriptionDraft {
+  description: string;
+  requirements: JobRequirements;
+  issues: WordingIssue[];
+}
+
 // Zod schema for job requirements validation
 export const jobRequirementsSchema = z.object({
   experience_level: z.nativeEnum(ExperienceLevel),
@@ -119,11 +275,15 @@ export const jobSchema = z.object({
   type: z.nativeEnum(JobType),
   skills: z.array(z.string()),
   posted_at: z.date(),
-  closed_at: z.date().nullable(),
+  closed_at: z.coerce.date().nullable(),
   salary_min: z.number().min(0),
   salary_max: z.number().min(0),
   location: z.string(),
-  remote_allowed: z.boolean()
+  remote_allowed: z.boolean(),
+  pipeline_template_id: z.string().uuid().nullable().optional(),
+  department_id: z.string().uuid().nullable().optional(),
+  headcount: z.number().int().min(1).max(1000).default(1),
+  publish_at: z.coerce.date().nullable().optional()
 });
 
 // Zod schema for job search parameters validation
@@ -141,10 +301,71 @@ export const jobSearchParamsSchema = z.object({
   limit: z.number().int().positive().max(100)
 });
 
+// Zod schema for the filters of the job search, shared by search and saved searches
+export const jobSearchFiltersSchema = z.object({
+  query: z.string().trim().min(1).max(200).optional(),
+  status: z.array(z.nativeEnum(JobStatus)).optional(),
+  type: z.array(z.nativeEnum(JobType)).optional(),
+  skills: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  experience_level: z.array(z.nativeEnum(ExperienceLevel)).optional(),
+  location: z.string().trim().min(1).max(100).optional(),
+  remote_only: z.boolean().optional(),
+  salary_min: z.number().min(0).max(1000000).optional(),
+  salary_max: z.number().min(0).max(1000000).optional()
+});
+
+export type JobSearchFilters = z.infer<typeof jobSearchFiltersSchema>;
+
 // Zod schema for job update payload validation
 export const jobUpdatePayloadSchema = jobSchema.partial().omit({
   id: true,
   creator_id: true,
   created_at: true,
   updated_at: true
-});
\ No newline at end of file
+});
+
+// Zod schema for saving a job as a template
+export const jobTemplateCreateSchema = z.object({
+  job_id: z.string().uuid(),
+  name: z.string().trim().min(1).max(100)
+});
+
+// Zod schema for template library list parameters
+export const jobTemplateListParamsSchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  include_archived: z.boolean().default(false)
+});
+
+// Zod schema for renaming or archiving a template
+export const jobTemplateUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  archived: z.boolean().optional()
+}).refine(data => data.name !== undefined || data.archived !== undefined, {
+  message: 'Nothing to update'
+});
+
+// Zod schema for cloning a job; fields left out are copied from the source job
+export const jobCloneSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  location: z.string().trim().min(1).max(255).optional(),
+  type: z.nativeEnum(JobType).optional(),
+  remote_allowed: z.boolean().optional()
+});
+
+// Zod schema for drafting a job description from a few highlights
+export const jobDescriptionDraftSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  experience_level: z.nativeEnum(ExperienceLevel),
+  highlights: z.array(z.string().trim().min(1).max(300)).min(1).max(10),
+  type: z.nativeEnum(JobType).optional(),
+  location: z.string().trim().max(255).optional()
+});
+
+// Zod schema for checking the wording of a job
+export const jobWordingCheckSchema = z.object({
+  title: z.string().max(255),
+  description: z.string().max(20000),
+  requirements: jobRequirementsSchema.partial().optional(),
+  salary_min: z.number().min(0).nullable().optional(),
+  salary_max: z.number().min(0).nullable().optional()
+});
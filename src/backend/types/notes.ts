@@ -0,0 +1,97 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID, uuidSchema } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Who sees a note besides its author. Hiring team notes are shown to admins,
+ * recruiters and the hiring teams of the jobs the candidate applied to.
+ */
+export enum NoteVisibility {
+  PRIVATE = 'PRIVATE',
+  HIRING_TEAM = 'HIRING_TEAM',
+  EVERYONE = 'EVERYONE'
+}
+
+/**
+ * Roles that write and read notes
+ */
+export const NOTE_AUTHOR_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER];
+
+/**
+ * Longest note body, in characters of HTML
+ */
+export const MAX_NOTE_LENGTH = 50000;
+
+/**
+ * Most notes returned per page
+ */
+export const MAX_NOTES_PAGE_SIZE = 100;
+
+/**
+ * Note on a candidate, optionally about one of their applications. The body is
+ * sanitized HTML; mentioned users are kept alongside it.
+ */
+export interface CandidateNote extends BaseEntity {
+  candidate_id: UUID;
+  application_id: UUID | null;
+  body: string;
+  body_text: string;
+  visibility: NoteVisibility;
+  mentions: UUID[];
+  version: number;
+  pinned_at: Date | null;
+  pinned_by: UUID | null;
+  edited_at: Date | null;
+  author_id: UUID;
+  author_name?: string | null;
+}
+
+/**
+ * One version of a note, the first one included
+ */
+export interface CandidateNoteRevision {
+  id: UUID;
+  note_id: UUID;
+  version: number;
+  body: string;
+  visibility: NoteVisibility;
+  edited_by: UUID;
+  editor_name?: string | null;
+  created_at: Date;
+}
+
+const noteBodySchema = z.string().trim().min(1).max(MAX_NOTE_LENGTH);
+
+// Zod schema for new notes
+export const noteCreateSchema = z.object({
+  candidate_id: uuidSchema,
+  application_id: uuidSchema.nullable().optional(),
+  body: noteBodySchema,
+  visibility: z.nativeEnum(NoteVisibility).default(NoteVisibility.EVERYONE)
+});
+
+// Zod schema for note edits
+export const noteUpdateSchema = z.object({
+  body: noteBodySchema.optional(),
+  visibility: z.nativeEnum(NoteVisibility).optional()
+}).refine(update => update.body !== undefined || update.visibility !== undefined, {
+  message: 'Nothing to update'
+});
+
+// Zod schema for pinning and unpinning
+export const notePinSchema = z.object({
+  pinned: z.boolean()
+});
+
+// Zod schema for note list query parameters
+export const noteListQuerySchema = z.object({
+  candidate_id: uuidSchema.optional(),
+  application_id: uuidSchema.optional(),
+  q: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(MAX_NOTES_PAGE_SIZE).default(25)
+});
+
+export type NoteCreate = z.infer<typeof noteCreateSchema>;
+export type NoteUpdate = z.infer<typeof noteUpdateSchema>;
+export type NoteListQuery = z.infer<typeof noteListQuerySchema>;
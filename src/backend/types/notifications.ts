@@ -0,0 +1,38 @@
+import { z } from 'zod'; // ^3.22.0
+import { UUID, uuidSchema } from '../types/common';
+
+/**
+ * Kinds of in-app notifications
+ */
+export enum NotificationType {
+  SAVED_SEARCH_DIGEST = 'SAVED_SEARCH_DIGEST'
+}
+
+/**
+ * Notification shown to a user in the app until read
+ */
+export interface Notification {
+  id: UUID;
+  created_at: Date;
+  recipient_id: UUID;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  read_at: Date | null;
+}
+
+// Zod schema for notification list query parameters
+export const notificationListQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+// Zod schema for marking notifications read; without ids every unread one is marked
+export const notificationReadSchema = z.object({
+  ids: z.array(uuidSchema).min(1).max(100).optional()
+});
+
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+export type NotificationRead = z.infer<typeof notificationReadSchema>;
@@ -0,0 +1,130 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+
+/**
+ * Lifecycle states of an employment offer
+ */
+export enum OfferStatus {
+  DRAFT = 'DRAFT',
+  SENT = 'SENT',
+  ACCEPTED = 'ACCEPTED',
+  DECLINED = 'DECLINED',
+  EXPIRED = 'EXPIRED'
+}
+
+/**
+ * Candidate responses to a sent offer
+ */
+export enum OfferResponse {
+  ACCEPT = 'accept',
+  DECLINE = 'decline'
+}
+
+/**
+ * Statuses in which an offer is still open and can be revised
+ */
+export const OPEN_OFFER_STATUSES: readonly OfferStatus[] = [
+  OfferStatus.DRAFT,
+  OfferStatus.SENT
+] as const;
+
+/**
+ * Compensation breakdown of an offer; amounts are in the offer currency
+ */
+export interface OfferCompensation {
+  base_salary: number;
+  bonus: number | null;
+  equity: string | null;
+  currency: string;
+}
+
+/**
+ * Interface for an offer extended to a candidate, holding the current terms
+ */
+export interface Offer extends BaseEntity, OfferCompensation {
+  application_id: UUID;
+  candidate_id: UUID;
+  job_id: UUID;
+  status: OfferStatus;
+  version: number;
+  start_date: string;
+  expires_at: Date;
+  notes: string | null;
+  sent_at: Date | null;
+  responded_at: Date | null;
+  response_reason: string | null;
+  created_by: UUID | null;
+  versions?: OfferVersion[];
+}
+
+/**
+ * Snapshot of the terms of a single offer revision
+ */
+export interface OfferVersion extends OfferCompensation {
+  id: UUID;
+  offer_id: UUID;
+  version: number;
+  start_date: string;
+  expires_at: Date;
+  change_reason: string | null;
+  created_by: UUID | null;
+  created_at: Date;
+}
+
+/**
+ * Terms captured in every offer version
+ */
+export type OfferTerms = OfferCompensation & {
+  start_date: string;
+  expires_at: string;
+};
+
+/**
+ * Fields whose change creates a new offer version
+ */
+export const OFFER_TERM_FIELDS: readonly (keyof OfferTerms)[] = [
+  'base_salary',
+  'bonus',
+  'equity',
+  'currency',
+  'start_date',
+  'expires_at'
+] as const;
+
+// Zod schema for compensation and terms shared by create and revise
+const offerTermsSchema = z.object({
+  base_salary: z.number().min(0).max(100000000),
+  bonus: z.number().min(0).max(100000000).nullable().default(null),
+  equity: z.string().trim().max(500).nullable().default(null),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code').default('USD'),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD'),
+  expires_at: z.string().datetime()
+});
+
+// Zod schema for offer creation; offers start as drafts
+export const offerCreateSchema = offerTermsSchema.extend({
+  application_id: z.string().uuid(),
+  notes: z.string().max(5000).optional()
+});
+
+// Zod schema for offer revision; each revision records a new version
+export const offerReviseSchema = offerTermsSchema.partial().extend({
+  notes: z.string().max(5000).nullable().optional(),
+  change_reason: z.string().trim().min(1).max(1000)
+}).refine(
+  data => OFFER_TERM_FIELDS.some(field => data[field] !== undefined),
+  { message: 'At least one term must change in a revision' }
+);
+
+// Zod schema for a candidate response to an offer
+export const offerRespondSchema = z.object({
+  reason: z.string().trim().max(1000).optional()
+});
+
+// Zod schema for offer list parameters
+export const offerListParamsSchema = z.object({
+  application_id: z.string().uuid().optional(),
+  candidate_id: z.string().uuid().optional()
+}).refine(data => data.application_id || data.candidate_id, {
+  message: 'Either application_id or candidate_id is required'
+});
@@ -0,0 +1,184 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { ApplicationStatus } from '../types/candidates';
+import { UserRole } from '../types/auth';
+
+/**
+ * Canonical categories that every configurable pipeline stage rolls up to
+ */
+export enum StageCategory {
+  SCREENING = 'screening',
+  INTERVIEWING = 'interviewing',
+  OFFER = 'offer',
+  HIRED = 'hired',
+  REJECTED = 'rejected'
+}
+
+/**
+ * Data a stage transition can require before an application may move
+ */
+export enum TransitionRequirement {
+  REASON = 'reason',
+  FEEDBACK = 'feedback',
+  INTERVIEW_FEEDBACK = 'interview_feedback'
+}
+
+/**
+ * Requirements the mover can supply with the request; the rest are preconditions on existing data
+ */
+export const COLLECTIBLE_REQUIREMENTS: TransitionRequirement[] = [
+  TransitionRequirement.REASON,
+  TransitionRequirement.FEEDBACK
+];
+
+/**
+ * Roles that may move applications between stages
+ */
+export const PIPELINE_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.RECRUITER,
+  UserRole.HIRING_MANAGER
+];
+
+/**
+ * Application status recorded for a stage when it does not set one explicitly
+ */
+export const CATEGORY_APPLICATION_STATUS: Record<StageCategory, ApplicationStatus> = {
+  [StageCategory.SCREENING]: ApplicationStatus.SCREENING,
+  [StageCategory.INTERVIEWING]: ApplicationStatus.INTERVIEWING,
+  [StageCategory.OFFER]: ApplicationStatus.OFFER_PENDING,
+  [StageCategory.HIRED]: ApplicationStatus.OFFER_ACCEPTED,
+  [StageCategory.REJECTED]: ApplicationStatus.REJECTED
+};
+
+/**
+ * What candidates see of a stage in the candidate portal when the stage sets no label
+ * of its own; internal stage names are never shown to them
+ */
+export const DEFAULT_CANDIDATE_STAGE_LABELS: Record<StageCategory, string> = {
+  [StageCategory.SCREENING]: 'Application under review',
+  [StageCategory.INTERVIEWING]: 'Interviewing',
+  [StageCategory.OFFER]: 'Offer',
+  [StageCategory.HIRED]: 'Hired',
+  [StageCategory.REJECTED]: 'Not selected'
+};
+
+/**
+ * Interface for a single ordered stage of a pipeline template
+ */
+export interface PipelineStage extends BaseEntity {
+  template_id: UUID;
+  name: string;
+  position: number;
+  category: StageCategory;
+  application_status: ApplicationStatus | null;
+  candidate_label: string | null;
+}
+
+/**
+ * Interface for a reusable pipeline template with its ordered stages
+ */
+export interface PipelineTemplate extends BaseEntity {
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  created_by: UUID | null;
+  archived_at: Date | null;
+  stages: PipelineStage[];
+  transition_rules?: PipelineTransitionRule[];
+}
+
+/**
+ * Interface for a rule governing moves into a stage, optionally from a specific stage
+ */
+export interface PipelineTransitionRule {
+  id?: UUID;
+  template_id: UUID;
+  from_stage_id: UUID | null;
+  to_stage_id: UUID;
+  is_allowed: boolean;
+  allowed_roles: UserRole[];
+  required_fields: TransitionRequirement[];
+}
+
+/**
+ * Stage definition accepted when creating or replacing template stages
+ */
+export interface PipelineStageInput {
+  id?: UUID;
+  name: string;
+  category: StageCategory;
+  application_status?: ApplicationStatus | null;
+  candidate_label?: string | null;
+}
+
+/**
+ * Resolves the canonical application status an application takes in a given stage
+ */
+export function resolveStageStatus(
+  stage: Pick<PipelineStage, 'category' | 'application_status'>
+): ApplicationStatus {
+  return stage.application_status ?? CATEGORY_APPLICATION_STATUS[stage.category];
+}
+
+/**
+ * Resolves the label candidates see for a stage
+ */
+export function resolveCandidateStageLabel(
+  stage: Pick<PipelineStage, 'category' | 'candidate_label'>
+): string {
+  return stage.candidate_label ?? DEFAULT_CANDIDATE_STAGE_LABELS[stage.category];
+}
+
+// Zod schema for pipeline stage input validation
+export const pipelineStageInputSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().min(1).max(100),
+  category: z.nativeEnum(StageCategory),
+  application_status: z.nativeEnum(ApplicationStatus)
+    .refine(status => status !== ApplicationStatus.WITHDRAWN, {
+      message: 'Withdrawn is not a pipeline stage'
+    })
+    .nullable()
+    .optional(),
+  candidate_label: z.string().trim().min(1).max(100).nullable().optional()
+});
+
+// Zod schema for explicit transition rule input; stages are referenced by id
+export const pipelineTransitionRuleInputSchema = z.object({
+  from_stage_id: z.string().uuid().nullable().default(null),
+  to_stage_id: z.string().uuid(),
+  is_allowed: z.boolean().default(true),
+  allowed_roles: z.array(z.enum([UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER]))
+    .min(1)
+    .default([UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER]),
+  required_fields: z.array(z.nativeEnum(TransitionRequirement)).default([])
+}).refine(rule => rule.from_stage_id !== rule.to_stage_id, {
+  message: 'A transition rule must move between two different stages',
+  path: ['to_stage_id']
+});
+
+// Zod schema for pipeline template creation
+export const pipelineTemplateCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  is_default: z.boolean().default(false),
+  stages: z.array(pipelineStageInputSchema).min(1).max(30)
+}).refine(
+  data => new Set(data.stages.map(stage => stage.name.toLowerCase())).size === data.stages.length,
+  { message: 'Stage names must be unique within a template', path: ['stages'] }
+);
+
+// Zod schema for pipeline template update; stages, when provided, replace the ordered list
+export const pipelineTemplateUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  is_default: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  stages: z.array(pipelineStageInputSchema).min(1).max(30).optional(),
+  transition_rules: z.array(pipelineTransitionRuleInputSchema).max(500).optional()
+}).refine(
+  data => !data.stages ||
+    new Set(data.stages.map(stage => stage.name.toLowerCase())).size === data.stages.length,
+  { message: 'Stage names must be unique within a template', path: ['stages'] }
+);
@@ -0,0 +1,167 @@
+import { z } from 'zod'; // ^3.22.0
+import { UUID } from '../types/common';
+import { ApplicationStatus, CandidatePreferences, candidatePreferencesSchema } from '../types/candidates';
+import { InterviewMode, InterviewStatus, InterviewType } from '../types/interviews';
+import { StageCategory } from '../types/pipelines';
+import { PublicScreeningQuestion, screeningAnswersSchema } from '../types/screening';
+
+/**
+ * Kinds of work a candidate still has to do for their applications
+ */
+export enum PortalTaskType {
+  SCREENING_QUESTIONS = 'SCREENING_QUESTIONS',
+  TAKE_HOME = 'TAKE_HOME'
+}
+
+/**
+ * Interview statuses in which the candidate can still confirm or ask to reschedule
+ */
+export const RESPONDABLE_INTERVIEW_STATUSES: InterviewStatus[] = [
+  InterviewStatus.SCHEDULED,
+  InterviewStatus.CONFIRMED,
+  InterviewStatus.RESCHEDULED
+];
+
+/**
+ * Most times a candidate can propose when asking to reschedule
+ */
+export const MAX_PREFERRED_TIMES = 5;
+
+/**
+ * The candidate's own profile as shown in the portal
+ */
+export interface PortalProfile {
+  id: UUID;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  location: string;
+  skills: string[];
+  preferences: Partial<CandidatePreferences>;
+  resume_url: string | null;
+  updated_at: Date;
+}
+
+/**
+ * A resume the candidate uploaded; the latest is their current resume
+ */
+export interface ResumeVersion {
+  id: UUID;
+  candidate_id: UUID;
+  version: number;
+  file_name: string;
+  resume_url: string;
+  uploaded_by: UUID | null;
+  created_at: Date;
+}
+
+/**
+ * An application as the candidate sees it: the stage label set by the recruiters, never
+ * the internal stage name
+ */
+export interface PortalApplication {
+  id: UUID;
+  job_id: UUID;
+  job_title: string;
+  status: ApplicationStatus;
+  stage_label: string;
+  stage_category: StageCategory;
+  applied_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * An interview as the candidate sees it, without interviewer feedback or notes
+ */
+export interface PortalInterview {
+  id: UUID;
+  job_id: UUID;
+  job_title: string;
+  type: InterviewType;
+  mode: InterviewMode;
+  status: InterviewStatus;
+  scheduled_at: Date;
+  duration_minutes: number;
+  meeting_link: string | null;
+  location: string | null;
+  candidate_confirmed: boolean;
+  candidate_confirmed_at: Date | null;
+  reschedule_requested_at: Date | null;
+  reschedule_reason: string | null;
+  submitted_at: Date | null;
+}
+
+/**
+ * Something the candidate still has to do: answer screening questions a job asks, or
+ * hand in a take-home assignment
+ */
+export type PortalTask =
+  | {
+      type: PortalTaskType.SCREENING_QUESTIONS;
+      application_id: UUID;
+      job_title: string;
+      questions: PublicScreeningQuestion[];
+    }
+  | {
+      type: PortalTaskType.TAKE_HOME;
+      interview_id: UUID;
+      job_title: string;
+      // Take-home interviews are due at their scheduled time; their link is the assignment
+      due_at: Date;
+      assignment_url: string | null;
+    };
+
+/**
+ * A take-home assignment handed in by the candidate
+ */
+export interface TakeHomeSubmission {
+  id: UUID;
+  interview_id: UUID;
+  candidate_id: UUID;
+  file_url: string | null;
+  link_url: string | null;
+  notes: string | null;
+  submitted_at: Date;
+}
+
+// Zod schema for the candidate's own profile changes
+export const portalProfileUpdateSchema = z.object({
+  full_name: z.string().trim().min(2).max(200).optional(),
+  phone: z.string().trim().max(30).nullable().optional(),
+  location: z.string().trim().min(2).max(200).optional(),
+  skills: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  preferences: candidatePreferencesSchema.partial().refine(
+    preferences => preferences.salary_expectation_min === undefined ||
+      preferences.salary_expectation_max === undefined ||
+      preferences.salary_expectation_max >= preferences.salary_expectation_min,
+    { message: 'Maximum salary must not be below the minimum', path: ['salary_expectation_max'] }
+  ).optional()
+}).refine(update => Object.keys(update).length > 0, {
+  message: 'Nothing to update'
+});
+
+// Zod schema for the candidate's answer to an interview invitation
+export const interviewResponseSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('confirm') }),
+  z.object({
+    action: z.literal('reschedule'),
+    reason: z.string().trim().min(1).max(1000),
+    preferred_times: z.array(z.coerce.date()).max(MAX_PREFERRED_TIMES).default([])
+  })
+]);
+
+// Zod schema for screening answers given from the portal
+export const portalScreeningAnswersSchema = z.object({
+  answers: screeningAnswersSchema.min(1)
+});
+
+// Zod schema for a take-home submission; the file, if any, is sent alongside
+export const takeHomeSubmissionSchema = z.object({
+  link_url: z.string().trim().url().max(2000).optional(),
+  notes: z.string().trim().max(2000).optional()
+});
+
+export type PortalProfileUpdate = z.infer<typeof portalProfileUpdateSchema>;
+export type InterviewResponse = z.infer<typeof interviewResponseSchema>;
+export type PortalScreeningAnswers = z.infer<typeof portalScreeningAnswersSchema>;
+export type TakeHomeSubmissionInput = z.infer<typeof takeHomeSubmissionSchema>;
@@ -0,0 +1,279 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID, uuidSchema } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * What the person asked for: a copy of the data held on them, or its erasure
+ */
+export enum DataSubjectRequestType {
+  ACCESS = 'ACCESS',
+  ERASURE = 'ERASURE'
+}
+
+/**
+ * Law the request is made under; it sets the response deadline
+ */
+export enum PrivacyRegulation {
+  GDPR = 'GDPR',
+  CCPA = 'CCPA'
+}
+
+export enum DataSubjectRequestStatus {
+  OPEN = 'OPEN',
+  COMPLETED = 'COMPLETED',
+  REJECTED = 'REJECTED'
+}
+
+/**
+ * Roles that handle data subject requests and erase candidates' data
+ */
+export const PRIVACY_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN];
+
+/**
+ * Days from receipt within which a request must be answered. GDPR allows one month,
+ * counted here as 30 days; CCPA allows 45 days.
+ */
+export const RESPONSE_DEADLINE_DAYS: Record<PrivacyRegulation, number> = {
+  [PrivacyRegulation.GDPR]: 30,
+  [PrivacyRegulation.CCPA]: 45
+};
+
+/**
+ * Request from a person to access or erase the data held on them
+ */
+export interface DataSubjectRequest extends BaseEntity {
+  type: DataSubjectRequestType;
+  regulation: PrivacyRegulation;
+  status: DataSubjectRequestStatus;
+  candidate_id: UUID | null;
+  subject_email: string | null;
+  received_at: Date;
+  due_at: Date;
+  notes: string | null;
+  rejection_reason: string | null;
+  evidence: AccessEvidence | ErasureEvidence | null;
+  completed_at: Date | null;
+  completed_by: UUID | null;
+  created_by: UUID;
+}
+
+/**
+ * Request as listed, with whether its deadline has passed
+ */
+export interface DataSubjectRequestSummary extends DataSubjectRequest {
+  candidate_name: string | null;
+  overdue: boolean;
+}
+
+/**
+ * Record of an access request being answered: how many records of each kind and files the
+ * bundle held
+ */
+export interface AccessEvidence {
+  exported_at: string;
+  candidate_ids: UUID[];
+  records: Record<string, number>;
+  files: number;
+}
+
+/**
+ * Record of an erasure: how many records of each kind were anonymized or deleted and
+ * how many stored files were queued to be purged. It holds no personal data.
+ */
+export interface ErasureEvidence {
+  erased_at: string;
+  candidate_ids: UUID[];
+  records: Record<string, number>;
+  files_to_purge: number;
+}
+
+// Zod schema for logging a request. Without a candidate, the candidate is looked up by
+// the email the request came from.
+export const dataSubjectRequestCreateSchema = z.object({
+  type: z.nativeEnum(DataSubjectRequestType),
+  regulation: z.nativeEnum(PrivacyRegulation),
+  candidate_id: uuidSchema.optional(),
+  subject_email: z.string().trim().toLowerCase().email().optional(),
+  received_at: z.coerce.date().refine(date => date.getTime() <= Date.now(), 'Received date cannot be in the future').optional(),
+  notes: z.string().trim().max(2000).optional()
+}).refine(request => request.candidate_id || request.subject_email, {
+  message: 'Give the candidate or the email the request came from',
+  path: ['subject_email']
+});
+
+// Zod schema for linking a request to a candidate or editing its notes
+export const dataSubjectRequestUpdateSchema = z.object({
+  candidate_id: uuidSchema.nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional()
+}).refine(update => Object.values(update).some(value => value !== undefined), {
+  message: 'Nothing to update'
+});
+
+// Zod schema for declining a request, for instance when the requester's identity
+// cannot be verified
+export const dataSubjectRequestRejectSchema = z.object({
+  reason: z.string().trim().min(1).max(2000)
+});
+
+// Zod schema for request list query parameters
+export const dataSubjectRequestListQuerySchema = z.object({
+  status: z.nativeEnum(DataSubjectRequestStatus).optional(),
+  type: z.nativeEnum(DataSubjectRequestType).optional(),
+  overdue: z.enum(['true', 'false']).optional().transform(value => value === undefined ? undefined : value === 'true'),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(25)
+});
+
+export type DataSubjectRequestCreate = z.infer<typeof dataSubjectRequestCreateSchema>;
+export type DataSubjectRequestUpdate = z.infer<typeof dataSubjectRequestUpdateSchema>;
+export type DataSubjectRequestListQuery = z.infer<typeof dataSubjectRequestListQuerySchema>;
+
+/**
+ * What a candidate's data is held for: the applications they made, or being contacted
+ * about future openings
+ */
+export enum ConsentPurpose {
+  RECRUITMENT = 'RECRUITMENT',
+  TALENT_POOL = 'TALENT_POOL'
+}
+
+/**
+ * GDPR lawful basis the data is held on. Only consent can be renewed by the candidate.
+ */
+export enum LawfulBasis {
+  CONSENT = 'CONSENT',
+  LEGITIMATE_INTEREST = 'LEGITIMATE_INTEREST',
+  CONTRACT = 'CONTRACT',
+  LEGAL_OBLIGATION = 'LEGAL_OBLIGATION'
+}
+
+/**
+ * Where the consent was given
+ */
+export enum ConsentSource {
+  CAREERS_SITE = 'CAREERS_SITE',
+  RECRUITER = 'RECRUITER',
+  EMAIL = 'EMAIL',
+  IMPORT = 'IMPORT',
+  RENEWAL_LINK = 'RENEWAL_LINK'
+}
+
+/**
+ * Why the retention worker anonymized a candidate: every basis they were held on was
+ * withdrawn or lapsed, or they have none and their last application is older than
+ * the retention period
+ */
+export enum RetentionReason {
+  CONSENT_EXPIRED = 'CONSENT_EXPIRED',
+  RETENTION_EXPIRED = 'RETENTION_EXPIRED'
+}
+
+/**
+ * Roles that record and withdraw candidates' consents
+ */
+export const CONSENT_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Days before a consent expires that the candidate is emailed a renewal link
+ */
+export const CONSENT_RENEWAL_NOTICE_DAYS = 30;
+
+/**
+ * Basis on which a candidate's data is held for one purpose. It is in force until
+ * withdrawn or past its expiry.
+ */
+export interface CandidateConsent extends BaseEntity {
+  candidate_id: UUID;
+  purpose: ConsentPurpose;
+  lawful_basis: LawfulBasis;
+  source: ConsentSource;
+  consented_at: Date;
+  expires_at: Date | null;
+  withdrawn_at: Date | null;
+  renewal_requested_at: Date | null;
+  renewal_token: string | null;
+  notes: string | null;
+  recorded_by: UUID | null;
+}
+
+/**
+ * Hold keeping a candidate from being erased, for instance during litigation. It is
+ * in force until released.
+ */
+export interface CandidateLegalHold extends BaseEntity {
+  candidate_id: UUID;
+  reason: string;
+  placed_by: UUID;
+  released_at: Date | null;
+  released_by: UUID | null;
+}
+
+/**
+ * What a retention run did, or in a dry run would have done. It holds candidate ids
+ * and storage keys but no personal data.
+ */
+export interface RetentionReport {
+  dry_run: boolean;
+  evaluated_at: string;
+  renewal_requests: Array<{ consent_id: UUID; candidate_id: UUID; expires_at: string; sent: boolean }>;
+  anonymized: Array<{ candidate_id: UUID; reason: RetentionReason }>;
+  resumes_deleted: Array<{ candidate_id: UUID; key: string; expired_at: string }>;
+  files_purged: number;
+  held: UUID[];
+  failed: Array<{ candidate_id: UUID | null; step: 'renewal' | 'anonymize' | 'purge' | 'resume'; error: string }>;
+}
+
+/**
+ * Stored report of a retention run
+ */
+export interface RetentionRun {
+  id: UUID;
+  created_at: Date;
+  dry_run: boolean;
+  started_at: Date;
+  completed_at: Date;
+  report: RetentionReport;
+  triggered_by: UUID | null;
+}
+
+// Zod schema for recording a consent
+export const candidateConsentCreateSchema = z.object({
+  purpose: z.nativeEnum(ConsentPurpose),
+  lawful_basis: z.nativeEnum(LawfulBasis),
+  source: z.nativeEnum(ConsentSource).refine(source => source !== ConsentSource.RENEWAL_LINK, {
+    message: 'Consents are only renewed through the renewal link'
+  }),
+  consented_at: z.coerce.date().refine(date => date.getTime() <= Date.now(), 'Consent date cannot be in the future'),
+  expires_at: z.coerce.date().nullable().optional(),
+  notes: z.string().trim().max(2000).optional()
+}).refine(consent => !consent.expires_at || consent.expires_at > consent.consented_at, {
+  message: 'Expiry must be after the consent date',
+  path: ['expires_at']
+});
+
+// Zod schema for correcting a consent in force
+export const candidateConsentUpdateSchema = z.object({
+  lawful_basis: z.nativeEnum(LawfulBasis).optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional()
+}).refine(update => Object.values(update).some(value => value !== undefined), {
+  message: 'Nothing to update'
+});
+
+// Zod schema for placing a legal hold
+export const legalHoldCreateSchema = z.object({
+  reason: z.string().trim().min(1).max(2000)
+});
+
+// Zod schema for the token of a public consent renewal link
+export const consentRenewalTokenSchema = z.string().regex(/^[A-Za-z0-9_-]{16,64}$/, 'Invalid renewal link');
+
+// Zod schema for retention run list query parameters
+export const retentionRunListQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(25)
+});
+
+export type CandidateConsentCreate = z.infer<typeof candidateConsentCreateSchema>;
+export type CandidateConsentUpdate = z.infer<typeof candidateConsentUpdateSchema>;
+export type RetentionRunListQuery = z.infer<typeof retentionRunListQuerySchema>;
@@ -0,0 +1,123 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * How a referral reached us: submitted by the employee, or an application through
+ * the employee's referral link
+ */
+export enum ReferralOrigin {
+  SUBMISSION = 'SUBMISSION',
+  LINK = 'LINK'
+}
+
+/**
+ * Progress of a referral as shown to the referrer. Pipeline stage names, feedback and
+ * the reason an application closed are never revealed.
+ */
+export enum ReferralProgress {
+  SUBMITTED = 'SUBMITTED',
+  IN_REVIEW = 'IN_REVIEW',
+  INTERVIEWING = 'INTERVIEWING',
+  FINAL_STAGE = 'FINAL_STAGE',
+  HIRED = 'HIRED',
+  CLOSED = 'CLOSED'
+}
+
+/**
+ * Employee roles that can refer candidates
+ */
+export const REFERRER_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.RECRUITER,
+  UserRole.HIRING_MANAGER
+];
+
+/**
+ * Days a referred hire must stay hired before the referrer is eligible for a bonus
+ */
+export const REFERRAL_BONUS_WAITING_DAYS = 90;
+
+/**
+ * Interface for a per-job referral link of an employee
+ */
+export interface ReferralLink {
+  id: UUID;
+  created_at: Date;
+  referrer_id: UUID;
+  job_id: UUID;
+  token: string;
+}
+
+/**
+ * Interface for a candidate referred to a job and the application it led to
+ */
+export interface Referral extends BaseEntity {
+  referrer_id: UUID;
+  job_id: UUID;
+  candidate_id: UUID;
+  application_id: UUID;
+  origin: ReferralOrigin;
+  referral_link_id: UUID | null;
+  relationship: string | null;
+  note: string | null;
+  hired_at: Date | null;
+  referrer_notified_at: Date | null;
+}
+
+/**
+ * Referral as listed to its referrer; candidates who applied through a link are
+ * shown by their initials only
+ */
+export interface ReferralSummary {
+  id: UUID;
+  job_id: UUID;
+  job_title: string;
+  candidate_name: string;
+  origin: ReferralOrigin;
+  progress: ReferralProgress;
+  created_at: Date;
+  hired_at: Date | null;
+}
+
+/**
+ * Hired referral in the bonus eligibility report
+ */
+export interface ReferralBonusEntry {
+  referral_id: UUID;
+  referrer_id: UUID;
+  referrer_name: string;
+  referrer_email: string;
+  candidate_name: string;
+  job_title: string;
+  hired_at: Date;
+  eligible_on: Date;
+  still_hired: boolean;
+  eligible: boolean;
+}
+
+// Zod schema for an employee submitting a referral
+export const referralSubmitSchema = z.object({
+  job_id: z.string().uuid(),
+  full_name: z.string().trim().min(2).max(200),
+  email: z.string().email(),
+  phone: z.string().max(30).optional(),
+  location: z.string().trim().min(2).max(200),
+  relationship: z.string().trim().max(200).optional(),
+  note: z.string().trim().max(2000).optional()
+});
+
+// Zod schema for requesting a referral link
+export const referralLinkCreateSchema = z.object({
+  job_id: z.string().uuid()
+});
+
+// Zod schema for referral link tokens carried on applications
+export const referralTokenSchema = z.string().regex(/^[A-Za-z0-9_-]{16,64}$/, 'Invalid referral code');
+
+// Zod schema for bonus report parameters
+export const referralBonusReportParamsSchema = z.object({
+  hired_from: z.coerce.date().optional(),
+  hired_to: z.coerce.date().optional(),
+  eligible_only: z.boolean().default(false)
+});
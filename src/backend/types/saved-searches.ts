@@ -0,0 +1,151 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+import { CandidateSearchFilters, candidateSearchFiltersSchema } from '../types/candidates';
+import { JobSearchFilters, jobSearchFiltersSchema } from '../types/jobs';
+
+/**
+ * Roles that save searches, share them and subscribe to their new results
+ */
+export const SAVED_SEARCH_USER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Most new results listed in one digest; the digest still counts the others
+ */
+export const MAX_DIGEST_RESULTS = 20;
+
+/**
+ * What a saved search looks for
+ */
+export enum SavedSearchEntity {
+  CANDIDATE = 'CANDIDATE',
+  JOB = 'JOB'
+}
+
+/**
+ * How often subscribers are sent the new results of a search
+ */
+export enum DigestFrequency {
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY'
+}
+
+/**
+ * Where digests are delivered
+ */
+export enum DigestChannel {
+  IN_APP = 'IN_APP',
+  EMAIL = 'EMAIL'
+}
+
+/**
+ * Time between two digests of a subscription
+ */
+export const DIGEST_INTERVAL_MS: Record<DigestFrequency, number> = {
+  [DigestFrequency.HOURLY]: 60 * 60 * 1000,
+  [DigestFrequency.DAILY]: 24 * 60 * 60 * 1000,
+  [DigestFrequency.WEEKLY]: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Named search over candidates or jobs. Searches are private to their owner until
+ * shared, after which any recruiter can run and subscribe to them.
+ */
+export interface SavedSearch extends BaseEntity {
+  name: string;
+  entity_type: SavedSearchEntity;
+  // Filters of the candidate or job search, by entity type
+  filters: CandidateSearchFilters | JobSearchFilters;
+  is_shared: boolean;
+  owner_id: UUID;
+}
+
+/**
+ * Subscription of a user to the new results of a saved search. Rows changed up to
+ * `evaluated_until` have been checked against the search.
+ */
+export interface SavedSearchSubscription extends BaseEntity {
+  saved_search_id: UUID;
+  user_id: UUID;
+  frequency: DigestFrequency;
+  channel: DigestChannel;
+  evaluated_until: Date;
+  next_run_at: Date;
+  last_digest_at: Date | null;
+}
+
+/**
+ * Saved search as listed to a user, with the owner's name and the user's subscription
+ */
+export interface SavedSearchWithSubscription extends SavedSearch {
+  owner_name: string | null;
+  subscription: Pick<SavedSearchSubscription, 'frequency' | 'channel' | 'last_digest_at'> | null;
+}
+
+/**
+ * New result of a saved search, as listed in a digest
+ */
+export interface DigestResult {
+  id: UUID;
+  label: string;
+  detail: string | null;
+}
+
+/**
+ * Outcome of evaluating one subscription
+ */
+export interface DigestRun {
+  subscription_id: UUID;
+  saved_search_id: UUID;
+  new_results: number;
+  delivered: boolean;
+}
+
+const savedSearchNameSchema = z.string().trim().min(1).max(100);
+
+// Zod schema for new saved searches; the filters are those of the search it saves
+export const savedSearchCreateSchema = z.discriminatedUnion('entity_type', [
+  z.object({
+    name: savedSearchNameSchema,
+    is_shared: z.boolean().default(false),
+    entity_type: z.literal(SavedSearchEntity.CANDIDATE),
+    filters: candidateSearchFiltersSchema
+  }),
+  z.object({
+    name: savedSearchNameSchema,
+    is_shared: z.boolean().default(false),
+    entity_type: z.literal(SavedSearchEntity.JOB),
+    filters: jobSearchFiltersSchema
+  })
+]);
+
+// Zod schema for saved search edits. Filters are checked against the search's entity
+// type, which cannot change.
+export const savedSearchUpdateSchema = z.object({
+  name: savedSearchNameSchema.optional(),
+  is_shared: z.boolean().optional(),
+  filters: z.record(z.unknown()).optional()
+});
+
+// Zod schema for subscribing to a saved search, or changing a subscription
+export const savedSearchSubscribeSchema = z.object({
+  frequency: z.nativeEnum(DigestFrequency).default(DigestFrequency.DAILY),
+  channel: z.nativeEnum(DigestChannel).default(DigestChannel.IN_APP)
+});
+
+// Zod schema for saved search list query parameters
+export const savedSearchListQuerySchema = z.object({
+  entity_type: z.nativeEnum(SavedSearchEntity).optional()
+});
+
+// Filters schema of each kind of saved search
+export const SAVED_SEARCH_FILTER_SCHEMAS = {
+  [SavedSearchEntity.CANDIDATE]: candidateSearchFiltersSchema,
+  [SavedSearchEntity.JOB]: jobSearchFiltersSchema
+} as const;
+
+export type SavedSearchCreate = z.infer<typeof savedSearchCreateSchema>;
+export type SavedSearchUpdate = z.infer<typeof savedSearchUpdateSchema>;
+export type SavedSearchSubscribe = z.infer<typeof savedSearchSubscribeSchema>;
+export type SavedSearchListQuery = z.infer<typeof savedSearchListQuerySchema>;
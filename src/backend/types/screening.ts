@@ -0,0 +1,243 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Kind of answer a screening question asks for
+ */
+export enum ScreeningQuestionType {
+  TEXT = 'TEXT',
+  YES_NO = 'YES_NO',
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
+  NUMERIC = 'NUMERIC',
+  FILE = 'FILE'
+}
+
+/**
+ * Question types whose answers can be checked against an expected answer
+ */
+export const KNOCKOUT_QUESTION_TYPES: ScreeningQuestionType[] = [
+  ScreeningQuestionType.YES_NO,
+  ScreeningQuestionType.MULTIPLE_CHOICE,
+  ScreeningQuestionType.NUMERIC
+];
+
+/**
+ * Roles that manage the screening questions of jobs
+ */
+export const SCREENING_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Most questions a job can ask
+ */
+export const MAX_SCREENING_QUESTIONS = 25;
+
+/**
+ * Accepted range of a numeric knockout question; either bound may be open
+ */
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * Expected answer of a knockout question: the required yes/no answer, the accepted
+ * options of a multiple choice question, or the accepted range of a numeric one
+ */
+export type ExpectedAnswer = boolean | string[] | NumericRange;
+
+/**
+ * Answer to a screening question; file questions are answered with the uploaded file's URL
+ */
+export type ScreeningAnswerValue = string | number | boolean;
+
+/**
+ * Interface for a screening question of a job
+ */
+export interface ScreeningQuestion extends BaseEntity {
+  job_id: UUID;
+  position: number;
+  type: ScreeningQuestionType;
+  prompt: string;
+  options: string[];
+  required: boolean;
+  is_knockout: boolean;
+  expected_answer: ExpectedAnswer | null;
+  archived_at: Date | null;
+  created_by: UUID | null;
+}
+
+/**
+ * Screening question as shown to applicants; knockout rules are never part of it
+ */
+export type PublicScreeningQuestion = Pick<ScreeningQuestion, 'id' | 'type' | 'prompt' | 'options' | 'required'>;
+
+/**
+ * How a job handles applications that fail a knockout question
+ */
+export interface JobScreeningSettings {
+  knockout_auto_reject: boolean;
+  knockout_email_delay_hours: number | null;
+}
+
+/**
+ * Screening questions of a job with its knockout settings
+ */
+export interface JobScreening {
+  job_id: UUID;
+  questions: ScreeningQuestion[];
+  settings: JobScreeningSettings;
+}
+
+/**
+ * Answer as stored on an application
+ */
+export interface ApplicationScreeningAnswer {
+  application_id: UUID;
+  question_id: UUID;
+  value: ScreeningAnswerValue;
+  knockout_passed: boolean | null;
+  created_at: Date;
+}
+
+/**
+ * Answer shown with an application in pipeline views, with its question
+ */
+export interface ScreeningAnswerSummary {
+  question_id: UUID;
+  prompt: string;
+  type: ScreeningQuestionType;
+  value: ScreeningAnswerValue;
+  is_knockout: boolean;
+  knockout_passed: boolean | null;
+}
+
+/**
+ * Answer checked against its question, ready to be stored
+ */
+export interface EvaluatedScreeningAnswer {
+  question: ScreeningQuestion;
+  value: ScreeningAnswerValue;
+  knockout_passed: boolean | null;
+}
+
+/**
+ * Delayed rejection email of an application rejected by a knockout question
+ */
+export interface ApplicationRejectionEmail {
+  id: UUID;
+  application_id: UUID;
+  send_at: Date;
+  sent_at: Date | null;
+  cancelled_at: Date | null;
+  created_at: Date;
+}
+
+// Zod schema for the accepted range of a numeric knockout
+export const numericRangeSchema = z.object({
+  min: z.number().finite().nullable().default(null),
+  max: z.number().finite().nullable().default(null)
+}).refine(range => range.min !== null || range.max !== null, {
+  message: 'A numeric knockout needs a minimum or a maximum'
+}).refine(range => range.min === null || range.max === null || range.min <= range.max, {
+  message: 'Minimum cannot be greater than maximum'
+});
+
+// Zod schema for a screening question as edited with its job
+export const screeningQuestionInputSchema = z.object({
+  id: z.string().uuid().optional(),
+  type: z.nativeEnum(ScreeningQuestionType),
+  prompt: z.string().trim().min(1).max(500),
+  options: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+  required: z.boolean().default(false),
+  is_knockout: z.boolean().default(false),
+  expected_answer: z.union([z.boolean(), z.array(z.string()), numericRangeSchema]).nullable().default(null)
+}).superRefine((question, ctx) => {
+  if (question.type === ScreeningQuestionType.MULTIPLE_CHOICE) {
+    if (new Set(question.options).size !== question.options.length || question.options.length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Multiple choice questions need at least two distinct options'
+      });
+    }
+  } else if (question.options.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['options'],
+      message: 'Only multiple choice questions have options'
+    });
+  }
+
+  if (!question.is_knockout) {
+    if (question.expected_answer !== null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['expected_answer'],
+        message: 'Only knockout questions have an expected answer'
+      });
+    }
+    return;
+  }
+
+  if (!KNOCKOUT_QUESTION_TYPES.includes(question.type)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['is_knockout'],
+      message: 'Only yes/no, multiple choice and numeric questions can be knockouts'
+    });
+    return;
+  }
+
+  // Knockouts decide on the application, so an applicant can never skip them
+  if (!question.required) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['required'],
+      message: 'Knockout questions must be required'
+    });
+  }
+
+  const expected = question.expected_answer;
+  const valid =
+    question.type === ScreeningQuestionType.YES_NO ? typeof expected === 'boolean' :
+    question.type === ScreeningQuestionType.MULTIPLE_CHOICE
+      ? Array.isArray(expected) && expected.length > 0 && expected.every(option => question.options.includes(option))
+      : expected !== null && typeof expected === 'object' && !Array.isArray(expected);
+  if (!valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['expected_answer'],
+      message: 'Expected answer does not match the question type'
+    });
+  }
+});
+
+// Zod schema for replacing the screening questions and knockout settings of a job
+export const jobScreeningUpdateSchema = z.object({
+  questions: z.array(screeningQuestionInputSchema).max(MAX_SCREENING_QUESTIONS),
+  settings: z.object({
+    knockout_auto_reject: z.boolean(),
+    knockout_email_delay_hours: z.number().int().min(0).max(720).nullable()
+  })
+});
+
+// Zod schema for the answers given with an application
+export const screeningAnswersSchema = z.array(z.object({
+  question_id: z.string().uuid(),
+  value: z.union([z.string().trim().max(5000), z.number().finite(), z.boolean()])
+})).max(MAX_SCREENING_QUESTIONS);
+
+// Zod schema for filtering applications by an answer, given as question_id:value
+export const screeningAnswerFilterSchema = z.string().transform((filter, ctx) => {
+  const separator = filter.indexOf(':');
+  const questionId = z.string().uuid().safeParse(filter.slice(0, separator));
+  if (separator < 0 || !questionId.success || separator === filter.length - 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Answer filters take the form question_id:value'
+    });
+    return z.NEVER;
+  }
+  return { question_id: questionId.data, value: filter.slice(separator + 1) };
+});
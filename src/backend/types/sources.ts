@@ -0,0 +1,109 @@
+import { z } from 'zod'; // ^3.22.0
+import { UUID } from '../types/common';
+
+/**
+ * Channel through which a candidate reached us
+ */
+export enum SourceChannel {
+  JOB_BOARD = 'JOB_BOARD',
+  REFERRAL = 'REFERRAL',
+  AGENCY = 'AGENCY',
+  SOURCED = 'SOURCED',
+  CAREER_SITE = 'CAREER_SITE'
+}
+
+/**
+ * Touchpoint an application is credited to in source reports
+ */
+export enum AttributionModel {
+  FIRST_TOUCH = 'FIRST_TOUCH',
+  LAST_TOUCH = 'LAST_TOUCH'
+}
+
+/**
+ * Campaign parameters carried on inbound links
+ */
+export interface UtmParams {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+}
+
+/**
+ * Source of a candidate or application as captured by a form, importer or recruiter
+ */
+export interface SourceInput extends UtmParams {
+  channel: SourceChannel;
+  sub_source?: string;
+  referrer_url?: string;
+}
+
+/**
+ * Recorded touchpoint of a candidate with a source
+ */
+export interface SourceTouchpoint {
+  id: UUID;
+  candidate_id: UUID;
+  application_id: UUID | null;
+  channel: SourceChannel;
+  sub_source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  referrer_url: string | null;
+  occurred_at: Date;
+  created_by: UUID | null;
+  created_at: Date;
+}
+
+/**
+ * Funnel counts and conversion rates of applications credited to a source
+ */
+export interface SourceEffectiveness {
+  channel: SourceChannel | null;
+  sub_source: string | null;
+  applicants: number;
+  interviews: number;
+  offers: number;
+  hires: number;
+  interview_rate: number;
+  offer_rate: number;
+  hire_rate: number;
+}
+
+/**
+ * Metric names of the source effectiveness report
+ */
+export const SOURCE_EFFECTIVENESS_METRICS = [
+  'applicants',
+  'interviews',
+  'offers',
+  'hires',
+  'interview_rate',
+  'offer_rate',
+  'hire_rate'
+] as const;
+
+export const UTM_PARAMS: readonly (keyof UtmParams)[] = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content'
+] as const;
+
+// Zod schema for source validation
+export const sourceInputSchema = z.object({
+  channel: z.nativeEnum(SourceChannel),
+  sub_source: z.string().trim().min(1).max(200).optional(),
+  utm_source: z.string().max(200).optional(),
+  utm_medium: z.string().max(200).optional(),
+  utm_campaign: z.string().max(200).optional(),
+  utm_term: z.string().max(200).optional(),
+  utm_content: z.string().max(200).optional(),
+  referrer_url: z.string().url().max(2000).optional()
+});
@@ -0,0 +1,56 @@
+import { z } from 'zod'; // ^3.22.0
+import { PublicJob } from './careers';
+
+/**
+ * Machine-readable job feeds served to search engines and job aggregators
+ */
+export enum FeedFormat {
+  INDEED = 'indeed',
+  RSS = 'rss',
+  ATOM = 'atom'
+}
+
+/**
+ * A job as syndicated in feeds: its public fields plus the dates feeds report
+ */
+export interface SyndicatedJob extends PublicJob {
+  closed_at: Date | null;
+  updated_at: Date;
+}
+
+/**
+ * Organization publishing the jobs, named as hiring organization and feed publisher
+ */
+export interface FeedPublisher {
+  name: string;
+  url: string;
+  logo_url?: string;
+}
+
+/**
+ * Everything a feed serializer needs besides the jobs
+ */
+export interface FeedContext {
+  publisher: FeedPublisher;
+  baseUrl: string;
+  feedUrl: string;
+  generatedAt: Date;
+}
+
+/**
+ * Content type served for each feed format
+ */
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  [FeedFormat.INDEED]: 'application/xml; charset=utf-8',
+  [FeedFormat.RSS]: 'application/rss+xml; charset=utf-8',
+  [FeedFormat.ATOM]: 'application/atom+xml; charset=utf-8'
+};
+
+/**
+ * How long a generated feed is kept, in seconds. Feeds are also regenerated as soon as
+ * the set of live jobs changes.
+ */
+export const FEED_CACHE_TTL = 900;
+
+// Zod schema for the requested feed format
+export const feedFormatSchema = z.nativeEnum(FeedFormat);
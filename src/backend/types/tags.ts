@@ -0,0 +1,96 @@
+import { z } from 'zod'; // ^3.22.0
+import { BaseEntity, UUID, uuidSchema } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Roles that tag candidates and add free-form tags
+ */
+export const TAG_USER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER];
+
+/**
+ * Roles that curate tags and rename, merge and delete them across all candidates
+ */
+export const TAG_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN];
+
+/**
+ * Colour of tags created without one
+ */
+export const DEFAULT_TAG_COLOR = '#6b7280';
+
+/**
+ * Most candidates tagged or untagged in one request
+ */
+export const MAX_BULK_TAG_CANDIDATES = 500;
+
+/**
+ * Label put on candidates. Curated tags are the set maintained by admins; other tags
+ * are added free-form while tagging.
+ */
+export interface Tag extends BaseEntity {
+  name: string;
+  color: string;
+  category: string | null;
+  is_curated: boolean;
+  created_by: UUID | null;
+}
+
+/**
+ * Tag with the number of candidates carrying it
+ */
+export interface TagWithUsage extends Tag {
+  candidate_count: number;
+}
+
+const tagNameSchema = z.string().trim().min(1).max(50);
+const tagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex code like #1d4ed8');
+const tagCategorySchema = z.string().trim().max(50).nullable().transform(category => category || null);
+
+// Zod schema for new tags
+export const tagCreateSchema = z.object({
+  name: tagNameSchema,
+  color: tagColorSchema.default(DEFAULT_TAG_COLOR),
+  category: tagCategorySchema.optional(),
+  is_curated: z.boolean().default(false)
+});
+
+// Zod schema for tag edits
+export const tagUpdateSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: tagColorSchema.optional(),
+  category: tagCategorySchema.optional(),
+  is_curated: z.boolean().optional()
+});
+
+// Zod schema for merging tags into another
+export const tagMergeSchema = z.object({
+  source_ids: z.array(uuidSchema).min(1).max(50),
+  target_id: uuidSchema
+}).refine(merge => !merge.source_ids.includes(merge.target_id), {
+  message: 'A tag cannot be merged into itself',
+  path: ['source_ids']
+});
+
+// Zod schema for tagging and untagging candidates in bulk. Tags to add can be given by
+// name, creating free-form tags that do not exist yet.
+export const bulkTagSchema = z.object({
+  candidate_ids: z.array(uuidSchema).min(1).max(MAX_BULK_TAG_CANDIDATES),
+  add_tag_ids: z.array(uuidSchema).max(50).default([]),
+  add_tag_names: z.array(tagNameSchema).max(20).default([]),
+  remove_tag_ids: z.array(uuidSchema).max(50).default([])
+}).refine(
+  request => request.add_tag_ids.length + request.add_tag_names.length + request.remove_tag_ids.length > 0,
+  { message: 'Choose tags to add or remove' }
+);
+
+// Zod schema for tag list query parameters
+export const tagListQuerySchema = z.object({
+  q: z.string().trim().max(50).optional(),
+  category: z.string().trim().max(50).optional(),
+  curated: z.enum(['true', 'false']).optional().transform(value => value === undefined ? undefined : value === 'true')
+});
+
+export type TagCreate = z.infer<typeof tagCreateSchema>;
+export type TagUpdate = z.infer<typeof tagUpdateSchema>;
+export type TagMerge = z.infer<typeof tagMergeSchema>;
+export type BulkTagRequest = z.infer<typeof bulkTagSchema>;
+export type TagListQuery = z.infer<typeof tagListQuerySchema>;
@@ -0,0 +1,82 @@
+import { z } from 'zod'; // ^3.22.0
+import { UUID } from '../types/common';
+import { UserRole } from '../types/auth';
+
+/**
+ * Kinds of activity shown in a candidate's timeline
+ */
+export enum TimelineEventType {
+  APPLICATION = 'APPLICATION',
+  STAGE_CHANGE = 'STAGE_CHANGE',
+  INTERVIEW = 'INTERVIEW',
+  FEEDBACK = 'FEEDBACK',
+  EMAIL = 'EMAIL',
+  HOTLIST = 'HOTLIST',
+  RESUME = 'RESUME',
+  PROFILE = 'PROFILE',
+  NOTE = 'NOTE'
+}
+
+/**
+ * What an email sent to a candidate was about
+ */
+export enum CandidateEmailCategory {
+  INTERVIEW = 'INTERVIEW',
+  OFFER = 'OFFER',
+  REJECTION = 'REJECTION',
+  STATUS_UPDATE = 'STATUS_UPDATE',
+  OTHER = 'OTHER'
+}
+
+/**
+ * Roles that see the activity timeline of candidates
+ */
+export const TIMELINE_VIEWER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER];
+
+/**
+ * Most timeline entries returned per page
+ */
+export const MAX_TIMELINE_PAGE_SIZE = 100;
+
+/**
+ * One entry of a candidate's timeline. Ids are unique per type only, since stage
+ * changes have no row of their own.
+ */
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  occurred_at: Date;
+  // User who did it; null for the candidate themselves and for workers
+  actor_id: UUID | null;
+  actor_name: string | null;
+  application_id: UUID | null;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Email sent to a candidate, as recorded for the timeline
+ */
+export interface CandidateEmail {
+  id: UUID;
+  candidate_id: UUID;
+  application_id: UUID | null;
+  category: CandidateEmailCategory;
+  subject: string;
+  recipient: string;
+  sent_by: UUID | null;
+  correlation_id: string | null;
+  created_at: Date;
+}
+
+// Zod schema for timeline query parameters
+export const timelineQuerySchema = z.object({
+  types: z.string()
+    .optional()
+    .transform(value => value ? value.split(',').map(type => type.trim()).filter(Boolean) : [])
+    .pipe(z.array(z.nativeEnum(TimelineEventType))),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(MAX_TIMELINE_PAGE_SIZE).default(25)
+});
+
+export type TimelineQuery = z.infer<typeof timelineQuerySchema>;
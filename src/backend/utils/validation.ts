@@ -2,21 +2,11 @@ import { z } from 'zod'; // ^3.22.0
 import { AppError } from './error-handler';
 import { ErrorCode } from '../types/common';
 
-// Cache configuration constants
-const SCHEMA_CACHE_SIZE = 100;
-const SCHEMA_CACHE_TTL = 3600; // 1 hour in seconds
-
 // Pagination constants
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
 const MIN_PAGE = 1;
 
-// Schema validation cache using Map
-const schemaCache = new Map<string, {
-  schema: z.ZodSchema;
-  timestamp: number;
-}>();
-
 /**
  * Generic validation function that validates input data against a Zod schema
  * with enhanced error handling and type inference
@@ -35,27 +25,8 @@ export async function validateInput<T extends z.ZodType>(
       );
     }
 
-    // Check cache for compiled schema
-    const cacheKey = schema.toString();
-    const cached = schemaCache.get(cacheKey);
-    const now = Date.now();
-
-    if (cached && (now - cached.timestamp) < SCHEMA_CACHE_TTL * 1000) {
-      return cached.schema.parse(data) as z.infer<T>;
-    }
-
     // Validate data against schema
-    const validatedData = await schema.parseAsync(data);
-
-    // Cache the compiled schema
-    if (schemaCache.size >= SCHEMA_CACHE_SIZE) {
-      // Remove oldest entry if cache is full
-      const oldestKey = [...schemaCache.keys()][0];
-      schemaCache.delete(oldestKey);
-    }
-    schemaCache.set(cacheKey, { schema, timestamp: now });
-
-    return validatedData;
+    return await schema.parseAsync(data);
   } catch (error) {
     if (error instanceof z.ZodError) {
       throw new AppError(
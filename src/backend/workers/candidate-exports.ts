@@ -0,0 +1,91 @@
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+import { FileHandler } from '../services/storage/file-handler';
+import {
+  EXPORT_FILE_TYPES,
+  claimCandidateExport,
+  countExportCandidates,
+  finishCandidateExport,
+  writeCandidateExport
+} from '../services/exports/candidate-exports';
+
+// Worker configuration
+const CANDIDATE_EXPORT_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+const fileHandler = new FileHandler();
+
+/**
+ * Result of one run
+ */
+export interface CandidateExportRunSummary {
+  export_id: string | null;
+  row_count: number;
+  completed: boolean;
+}
+
+/**
+ * Writes the oldest queued export to the exports bucket. An export that cannot be
+ * written is marked failed so it is not retried forever.
+ * @param now - Time the run starts
+ */
+export async function runCandidateExports(now: Date = new Date()): Promise<CandidateExportRunSummary> {
+  const pool = await databaseConfig.getPool();
+  const client = await pool.connect();
+
+  try {
+    const candidateExport = await claimCandidateExport(client, now);
+    if (!candidateExport) {
+      return { export_id: null, row_count: 0, completed: false };
+    }
+
+    try {
+      const rowCount = await countExportCandidates(client, candidateExport.filters);
+      const chunks: Buffer[] = [];
+      for await (const chunk of writeCandidateExport(client, candidateExport)) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk));
+      }
+
+      const { extension, content_type } = EXPORT_FILE_TYPES[candidateExport.format];
+      const file = new File([Buffer.concat(chunks)], `candidates-${candidateExport.id}.${extension}`, { type: content_type });
+      const { key } = await fileHandler.uploadFile(file, 'exports', `candidates/${candidateExport.created_by}`);
+
+      await finishCandidateExport(client, candidateExport.id, { file_key: key, row_count: rowCount }, new Date());
+      const summary = { export_id: candidateExport.id, row_count: rowCount, completed: true };
+      logger.info('Candidate export written', summary);
+      return summary;
+    } catch (error) {
+      logger.error(error as Error, { context: 'runCandidateExports', exportId: candidateExport.id });
+      await finishCandidateExport(client, candidateExport.id, { error: 'The export file could not be written' }, new Date());
+      return { export_id: candidateExport.id, row_count: 0, completed: false };
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Starts writing queued candidate exports on an interval; a run still in progress is
+ * never overlapped
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startCandidateExportWorker(intervalMs: number = CANDIDATE_EXPORT_INTERVAL_MS): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runCandidateExports();
+    } catch (error) {
+      logger.error(error as Error, { context: 'startCandidateExportWorker' });
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,85 @@
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  claimCandidateImport,
+  commitImportBatch,
+  completeCandidateImport
+} from '../services/imports/candidate-imports';
+import { loadResumeArchive } from '../services/imports/resumes';
+
+// Worker configuration
+const CANDIDATE_IMPORT_INTERVAL_MS = 60 * 1000; // 1 minute
+const IMPORT_BATCH_SIZE = 100;
+const MAX_BATCHES_PER_RUN = 50;
+
+/**
+ * Progress made by one run
+ */
+export interface CandidateImportRunSummary {
+  import_id: string | null;
+  processed: number;
+  completed: boolean;
+}
+
+/**
+ * Commits the rows of the oldest queued import in batches. A run stops after a fixed
+ * number of batches so other imports are not held up; the next run carries on where it
+ * stopped.
+ * @param now - Time the run starts
+ */
+export async function runCandidateImports(now: Date = new Date()): Promise<CandidateImportRunSummary> {
+  const pool = await databaseConfig.getPool();
+  const client = await pool.connect();
+
+  try {
+    const candidateImport = await claimCandidateImport(client, now);
+    if (!candidateImport) {
+      return { import_id: null, processed: 0, completed: false };
+    }
+
+    const archive = candidateImport.resume_archive_key
+      ? await loadResumeArchive(candidateImport.resume_archive_key)
+      : null;
+
+    let processed = 0;
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const count = await commitImportBatch(client, candidateImport, archive, IMPORT_BATCH_SIZE, new Date());
+      processed += count;
+      if (count < IMPORT_BATCH_SIZE) break;
+    }
+
+    const completed = await completeCandidateImport(client, candidateImport.id, new Date());
+    const summary = { import_id: candidateImport.id, processed, completed };
+    logger.info('Candidate import run completed', summary);
+    return summary;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Starts committing queued candidate imports on an interval; a run still in progress is
+ * never overlapped
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startCandidateImportWorker(intervalMs: number = CANDIDATE_IMPORT_INTERVAL_MS): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runCandidateImports();
+    } catch (error) {
+      logger.error(error as Error, { context: 'startCandidateImportWorker' });
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(interval);
+}
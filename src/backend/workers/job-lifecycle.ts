@@ -0,0 +1,202 @@
+import { PoolClient } from 'pg'; // ^8.11.0
+import {
+  JOB_EXPIRY_WARNING_DAYS,
+  Job,
+  JobLifecycleTrigger,
+  JobStatusTransition
+} from '../types/jobs';
+import { ApprovalEntityType } from '../types/approvals';
+import { ErrorCode } from '../types/common';
+import { AppError } from '../utils/error-handler';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+import { supabaseService } from '../supabase';
+import { assertApproved } from '../services/approvals/requests';
+import {
+  claimExpiryWarnings,
+  lockExpiredJobs,
+  lockFilledJobs,
+  lockScheduledJobsDue,
+  releaseExpiryWarning,
+  transitionJobStatus
+} from '../services/jobs/lifecycle';
+import { notifyCreatorOfExpiry } from '../services/jobs/notifications';
+
+// Worker configuration
+const JOB_LIFECYCLE_INTERVAL_MS = 60 * 1000; // 1 minute
+const JOB_UPDATES_CHANNEL = 'public:jobs';
+const JOB_UPDATE_EVENT = 'job_update';
+
+const TRANSITION_DESCRIPTIONS: Record<JobLifecycleTrigger, string> = {
+  [JobLifecycleTrigger.SCHEDULED_PUBLISH]: 'Published at its scheduled time',
+  [JobLifecycleTrigger.EXPIRY]: 'Closed at its closing date',
+  [JobLifecycleTrigger.HEADCOUNT_FILLED]: 'Filled: all openings accepted an offer'
+};
+
+/**
+ * Counts of the changes made by one lifecycle run
+ */
+export interface JobLifecycleRunSummary {
+  published: number;
+  closed: number;
+  filled: number;
+  warned: number;
+}
+
+type TransitionResult = { job: Job; transition: JobStatusTransition };
+
+/**
+ * Applies one lifecycle rule to the jobs it locks, in a single transaction. A null
+ * from getDetails leaves the job as it is until a later run.
+ */
+async function applyTransitions<T extends Job>(
+  client: PoolClient,
+  lockJobs: (client: PoolClient) => Promise<T[]>,
+  trigger: JobLifecycleTrigger,
+  getDetails: (client: PoolClient, job: T) => Promise<Record<string, unknown> | null>
+): Promise<TransitionResult[]> {
+  const results: TransitionResult[] = [];
+
+  await client.query('BEGIN');
+  try {
+    for (const job of await lockJobs(client)) {
+      const details = await getDetails(client, job);
+      if (!details) continue;
+
+      const result = await transitionJobStatus(client, job, trigger, details);
+      if (result) results.push(result);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  return results;
+}
+
+/**
+ * Broadcasts a lifecycle transition as a realtime job_update event. Broadcast failures
+ * are logged only; the transition itself is already committed.
+ */
+async function emitJobUpdate({ job, transition }: TransitionResult, correlationId: string): Promise<void> {
+  try {
+    await supabaseService.createRealtimeChannel(JOB_UPDATES_CHANNEL).send({
+      type: 'broadcast',
+      event: JOB_UPDATE_EVENT,
+      payload: {
+        job_id: job.id,
+        title: job.title,
+        description: TRANSITION_DESCRIPTIONS[transition.trigger],
+        from_status: transition.from_status,
+        to_status: transition.to_status,
+        trigger: transition.trigger,
+        occurred_at: transition.created_at
+      }
+    });
+  } catch (error) {
+    logger.error(error as Error, {
+      correlationId,
+      context: 'emitJobUpdate',
+      jobId: job.id
+    });
+  }
+}
+
+/**
+ * Runs the job lifecycle rules once: publishes drafts whose scheduled time has come,
+ * closes published jobs past their closing date, marks jobs filled once their headcount
+ * accepted offers, and warns creators of jobs closing within JOB_EXPIRY_WARNING_DAYS.
+ * Scheduled drafts still waiting for approval are retried on the next run.
+ * @param now - Time the rules are evaluated at
+ */
+export async function runJobLifecycle(now: Date = new Date()): Promise<JobLifecycleRunSummary> {
+  const correlationId = crypto.randomUUID();
+  const pool = await databaseConfig.getPool();
+  const client = await pool.connect();
+
+  try {
+    const published = await applyTransitions(
+      client,
+      c => lockScheduledJobsDue(c, now),
+      JobLifecycleTrigger.SCHEDULED_PUBLISH,
+      async (c, job) => {
+        try {
+          await assertApproved(c, ApprovalEntityType.JOB, job.id);
+        } catch (error) {
+          if (error instanceof AppError && error.code === ErrorCode.CONFLICT) {
+            logger.warn('Scheduled job publish waiting for approval', { correlationId, jobId: job.id });
+            return null;
+          }
+          throw error;
+        }
+        return { publish_at: job.publish_at };
+      }
+    );
+
+    const closed = await applyTransitions(
+      client,
+      c => lockExpiredJobs(c, now),
+      JobLifecycleTrigger.EXPIRY,
+      async (_, job) => ({ closed_at: job.closed_at })
+    );
+
+    const filled = await applyTransitions(
+      client,
+      lockFilledJobs,
+      JobLifecycleTrigger.HEADCOUNT_FILLED,
+      async (_, job) => ({ headcount: job.headcount, accepted_count: job.accepted_count })
+    );
+
+    for (const result of [...published, ...closed, ...filled]) {
+      await emitJobUpdate(result, correlationId);
+    }
+
+    let warned = 0;
+    for (const job of await claimExpiryWarnings(client, now, JOB_EXPIRY_WARNING_DAYS)) {
+      if (await notifyCreatorOfExpiry(client, job, correlationId)) {
+        warned++;
+      } else {
+        await releaseExpiryWarning(client, job.id);
+      }
+    }
+
+    const summary = {
+      published: published.length,
+      closed: closed.length,
+      filled: filled.length,
+      warned
+    };
+    logger.info('Job lifecycle run completed', { correlationId, ...summary });
+    return summary;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Starts running the job lifecycle rules on an interval; a run still in progress is
+ * never overlapped
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startJobLifecycleWorker(intervalMs: number = JOB_LIFECYCLE_INTERVAL_MS): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runJobLifecycle();
+    } catch (error) {
+      logger.error(error as Error, { context: 'startJobLifecycleWorker' });
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(interval);
+}
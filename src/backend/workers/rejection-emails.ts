@@ -0,0 +1,78 @@
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  cancelRejectionEmail,
+  claimDueRejectionEmails,
+  releaseRejectionEmail
+} from '../services/screening/knockouts';
+import { sendKnockoutRejectionEmail } from '../services/screening/notifications';
+
+// Worker configuration
+const REJECTION_EMAIL_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Counts of the emails handled by one run
+ */
+export interface RejectionEmailRunSummary {
+  sent: number;
+  failed: number;
+  cancelled: number;
+}
+
+/**
+ * Sends the knockout rejection emails whose delay has passed. Emails of applications
+ * moved out of the rejected status meanwhile are cancelled; failed deliveries are
+ * retried on the next run.
+ * @param now - Time the emails are due by
+ */
+export async function runRejectionEmails(now: Date = new Date()): Promise<RejectionEmailRunSummary> {
+  const correlationId = crypto.randomUUID();
+  const pool = await databaseConfig.getPool();
+  const client = await pool.connect();
+
+  try {
+    const summary: RejectionEmailRunSummary = { sent: 0, failed: 0, cancelled: 0 };
+
+    for (const email of await claimDueRejectionEmails(client, now)) {
+      const outcome = await sendKnockoutRejectionEmail(client, email, correlationId);
+      if (outcome === 'failed') {
+        await releaseRejectionEmail(client, email.id);
+      } else if (outcome === 'cancelled') {
+        await cancelRejectionEmail(client, email.id);
+      }
+      summary[outcome]++;
+    }
+
+    logger.info('Rejection email run completed', { correlationId, ...summary });
+    return summary;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Starts sending due rejection emails on an interval; a run still in progress is never
+ * overlapped
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startRejectionEmailWorker(intervalMs: number = REJECTION_EMAIL_INTERVAL_MS): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runRejectionEmails();
+    } catch (error) {
+      logger.error(error as Error, { context: 'startRejectionEmailWorker' });
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(interval);
+}
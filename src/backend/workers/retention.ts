@@ -0,0 +1,75 @@
+import { RetentionReport } from '../types/privacy';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+import { FileHandler } from '../services/storage/file-handler';
+import { ResumeStorage } from '../services/storage/resume-storage';
+import { enforceRetention, saveRetentionRun } from '../services/privacy/retention';
+
+// Worker configuration
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Enforces consent and retention once and stores the report of the run. Scheduled runs
+ * can be made dry runs with RETENTION_DRY_RUN=true, for instance while the retention
+ * settings are being reviewed.
+ * @param now - Time consents and retention dates are evaluated at
+ * @param dryRun - Report what would be done without changing anything
+ */
+export async function runRetention(
+  now: Date = new Date(),
+  dryRun: boolean = process.env.RETENTION_DRY_RUN === 'true'
+): Promise<RetentionReport> {
+  const correlationId = crypto.randomUUID();
+  const pool = await databaseConfig.getPool();
+  const client = await pool.connect();
+
+  try {
+    const report = await enforceRetention(
+      client,
+      { dryRun, now, correlationId },
+      { fileHandler: new FileHandler(), resumeStorage: new ResumeStorage() }
+    );
+    await saveRetentionRun(client, report, now, null);
+
+    logger.info('Retention run completed', {
+      correlationId,
+      dryRun,
+      renewalRequests: report.renewal_requests.length,
+      anonymized: report.anonymized.length,
+      resumesDeleted: report.resumes_deleted.length,
+      filesPurged: report.files_purged,
+      held: report.held.length,
+      failed: report.failed.length
+    });
+    return report;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Starts enforcing consent and retention on an interval; a run still in progress is
+ * never overlapped
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startRetentionWorker(intervalMs: number = RETENTION_INTERVAL_MS): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runRetention();
+    } catch (error) {
+      logger.error(error as Error, { context: 'startRetentionWorker' });
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(interval);
+}
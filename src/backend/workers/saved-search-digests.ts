@@ -0,0 +1,93 @@
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  listDueSubscriptionIds,
+  lockDueSubscription,
+  runSubscriptionDigest
+} from '../services/saved-searches/digests';
+
+// Worker configuration
+const DIGEST_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Counts of the subscriptions handled by one run
+ */
+export interface SavedSearchDigestRunSummary {
+  evaluated: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Evaluates the saved search subscriptions that are due and sends their digests. Each
+ * subscription is evaluated in its own transaction; when its digest cannot be delivered
+ * nothing is recorded and the next run tries again.
+ * @param now - Time digests are due by and results are evaluated up to
+ */
+export async function runSavedSearchDigests(now: Date = new Date()): Promise<SavedSearchDigestRunSummary> {
+  const correlationId = crypto.randomUUID();
+  const pool = await databaseConfig.getPool();
+  const client = await pool.connect();
+
+  try {
+    const summary: SavedSearchDigestRunSummary = { evaluated: 0, sent: 0, failed: 0 };
+
+    for (const subscriptionId of await listDueSubscriptionIds(client, now)) {
+      try {
+        await client.query('BEGIN');
+        const due = await lockDueSubscription(client, subscriptionId, now);
+        if (!due) {
+          await client.query('COMMIT');
+          continue;
+        }
+
+        const run = await runSubscriptionDigest(client, due.subscription, due.search, now, correlationId);
+        if (run.new_results > 0 && !run.delivered) {
+          await client.query('ROLLBACK');
+          summary.failed++;
+          continue;
+        }
+
+        await client.query('COMMIT');
+        summary.evaluated++;
+        if (run.delivered) summary.sent++;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        summary.failed++;
+        logger.error(error as Error, { correlationId, context: 'runSavedSearchDigests', subscriptionId });
+      }
+    }
+
+    logger.info('Saved search digest run completed', { correlationId, ...summary });
+    return summary;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Starts sending saved search digests on an interval; a run still in progress is never
+ * overlapped
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startSavedSearchDigestWorker(intervalMs: number = DIGEST_INTERVAL_MS): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runSavedSearchDigests();
+    } catch (error) {
+      logger.error(error as Error, { context: 'startSavedSearchDigestWorker' });
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(interval);
+}
@@ -9,6 +9,7 @@ import {
   ReportConfig, 
   AnalyticsFilters 
 } from '../../types/analytics';
+import { AttributionModel } from '../../types/sources';
 import Select from '../ui/select';
 import { useReportGeneration } from '../../lib/hooks/useAnalytics';
 import { cn, debounce } from '../../lib/utils';
@@ -105,6 +106,17 @@ export const ReportGenerator: React.FC<ReportGeneratorProps> = ({
     }));
   }, []);
 
+  // Generate attribution model options for source reports
+  const attributionOptions = useMemo(() => {
+    return Object.values(AttributionModel).map(value => ({
+      label: value === AttributionModel.FIRST_TOUCH ? 'First Touch' : 'Last Touch',
+      value: value,
+      description: value === AttributionModel.FIRST_TOUCH
+        ? 'Credit the source that first brought the candidate in'
+        : 'Credit the source the application arrived through'
+    }));
+  }, []);
+
   // Generate metric options based on report type
   const metricOptions = useMemo(() => {
     return getMetricOptionsForType(selectedType);
@@ -261,6 +273,28 @@ export const ReportGenerator: React.FC<ReportGeneratorProps> = ({
         />
       </div>
 
+      {/* Attribution Model Select */}
+      {selectedType === ReportType.SOURCE_EFFECTIVENESS && (
+        <div className="space-y-2">
+          <label htmlFor="attribution_model" className="text-sm font-medium">
+            Attribution
+          </label>
+          <Controller
+            name="filters.attribution_model"
+            control={control}
+            render={({ field }) => (
+              <Select
+                {...field}
+                value={field.value || AttributionModel.LAST_TOUCH}
+                id="attribution_model"
+                options={attributionOptions}
+                placeholder="Select attribution model"
+              />
+            )}
+          />
+        </div>
+      )}
+
       {/* Submit Button */}
       <button
         type="submit"
@@ -321,8 +355,16 @@ function getMetricOptionsForType(type: ReportType) {
       { value: 'stage_duration', label: 'Stage Duration', description: 'Average time spent in each stage' },
       { value: 'bottleneck_analysis', label: 'Bottleneck Analysis', description: 'Identification of process delays' }
     ],
+    [ReportType.SOURCE_EFFECTIVENESS]: [
+      { value: 'applicants', label: 'Applicants', description: 'Number of applications credited to each source' },
+      { value: 'interviews', label: 'Interviews', description: 'Applicants from each source who were interviewed' },
+      { value: 'offers', label: 'Offers', description: 'Applicants from each source who received an offer' },
+      { value: 'hires', label: 'Hires', description: 'Applicants from each source who accepted an offer' },
+      { value: 'interview_rate', label: 'Interview Rate', description: 'Share of applicants who were interviewed' },
+      { value: 'offer_rate', label: 'Offer Rate', description: 'Share of applicants who received an offer' },
+      { value: 'hire_rate', label: 'Hire Rate', description: 'Share of applicants who were hired' }
+    ],
     // Add other report types...
-    [ReportType.SOURCE_EFFECTIVENESS]: [],
     [ReportType.INTERVIEWER_PERFORMANCE]: [],
     [ReportType.CANDIDATE_PIPELINE]: []
   };
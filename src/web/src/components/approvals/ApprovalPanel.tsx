@@ -0,0 +1,273 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Badge } from "../ui/badge";
+import type { BadgeProps } from "../ui/badge";
+import { Button } from "../ui/button";
+import Textarea from "../ui/textarea";
+import { useApprovals } from "../../lib/hooks/useApprovals";
+import { useAuth } from "../../lib/hooks/useAuth";
+import { formatDate } from "../../lib/utils";
+import {
+  ApprovalDecision,
+  ApprovalEntityType,
+  ApprovalStatus,
+  ApprovalStepStatus,
+} from "../../types/approvals";
+import type { ApprovalRequest, ApprovalRequestStep } from "../../types/approvals";
+import type { User } from "../../types/auth";
+
+interface ApprovalPanelProps {
+  entityType: ApprovalEntityType;
+  entityId: string;
+  // Offer version the approval must match; jobs are not versioned
+  entityVersion?: number;
+  // Approval can only be requested while the job or offer is a draft
+  canRequest: boolean;
+}
+
+const STATUS_VARIANTS: Record<ApprovalStatus, BadgeProps["variant"]> = {
+  [ApprovalStatus.PENDING]: "warning",
+  [ApprovalStatus.APPROVED]: "success",
+  [ApprovalStatus.REJECTED]: "destructive",
+  [ApprovalStatus.CANCELLED]: "secondary",
+};
+
+const STEP_VARIANTS: Record<ApprovalStepStatus, BadgeProps["variant"]> = {
+  [ApprovalStepStatus.PENDING]: "outline",
+  [ApprovalStepStatus.APPROVED]: "success",
+  [ApprovalStepStatus.REJECTED]: "destructive",
+  [ApprovalStepStatus.SKIPPED]: "secondary",
+};
+
+const describeApprover = (step: ApprovalRequestStep) =>
+  step.approver_role
+    ? step.approver_role
+        .toLowerCase()
+        .split("_")
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(" ")
+    : "Named approver";
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Finds the step of the active step order the user can decide, mirroring the server rules:
+ * named approvers by id, the rest by role, and never on the user's own request
+ */
+const findDecidableStep = (request: ApprovalRequest, user: User | null) => {
+  if (!user || request.status !== ApprovalStatus.PENDING || request.requested_by === user.id) {
+    return undefined;
+  }
+  const pending = request.steps.filter((step) => step.status === ApprovalStepStatus.PENDING);
+  const activeOrder = Math.min(...pending.map((step) => step.step_order));
+  return pending.find(
+    (step) =>
+      step.step_order === activeOrder &&
+      (step.approver_id ? step.approver_id === user.id : step.approver_role === user.role)
+  );
+};
+
+/**
+ * Approval state of a job or offer: the latest request with each approver step, and the
+ * request, approve, reject and remind actions available to the current user
+ */
+const ApprovalPanel: React.FC<ApprovalPanelProps> = ({
+  entityType,
+  entityId,
+  entityVersion,
+  canRequest,
+}) => {
+  const { state } = useAuth();
+  const {
+    chain,
+    requests,
+    isLoading,
+    error,
+    requestApproval,
+    decideApproval,
+    remindApprovers,
+    isRequesting,
+    isDeciding,
+    isReminding,
+  } = useApprovals(entityType, entityId);
+
+  const [decision, setDecision] = React.useState<ApprovalDecision | null>(null);
+  const [comment, setComment] = React.useState("");
+
+  // Approvals of earlier offer versions no longer apply
+  const current = requests.find(
+    (request) => entityVersion === undefined || request.entity_version === entityVersion
+  );
+  const decidableStep = current ? findDecidableStep(current, state.user) : undefined;
+  const needsRequest =
+    canRequest &&
+    !!chain &&
+    (!current || ![ApprovalStatus.PENDING, ApprovalStatus.APPROVED].includes(current.status));
+
+  const handleRequest = async () => {
+    try {
+      await requestApproval();
+      toast.success("Approval requested");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleRemind = async (requestId: string) => {
+    try {
+      const sent = await remindApprovers(requestId);
+      toast.success(sent ? "Approvers reminded" : "No approvers could be reminded");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleDecide = async () => {
+    if (!current || !decision) return;
+    try {
+      await decideApproval(current.id, {
+        decision,
+        comment: comment.trim() || undefined,
+      });
+      toast.success(decision === ApprovalDecision.APPROVE ? "Approved" : "Rejected");
+      setDecision(null);
+      setComment("");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return <div role="status" className="animate-pulse h-16 bg-gray-200 rounded" />;
+  }
+
+  if (error) {
+    return (
+      <p role="alert" className="text-sm text-red-600">
+        {getErrorMessage(error)}
+      </p>
+    );
+  }
+
+  if (!chain && !current) {
+    return <p className="text-sm text-muted-foreground">No approval is required.</p>;
+  }
+
+  return (
+    <section aria-label="Approval" className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold">Approval</h3>
+          {current ? (
+            <Badge variant={STATUS_VARIANTS[current.status]}>{current.status}</Badge>
+          ) : (
+            <Badge variant="outline">NOT REQUESTED</Badge>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {needsRequest && (
+            <Button size="sm" onClick={handleRequest} disabled={isRequesting} isLoading={isRequesting}>
+              Request Approval
+            </Button>
+          )}
+          {current?.status === ApprovalStatus.PENDING && current.requested_by === state.user?.id && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleRemind(current.id)}
+              disabled={isReminding}
+            >
+              Remind Approvers
+            </Button>
+          )}
+          {decidableStep && (
+            <>
+              <Button size="sm" onClick={() => setDecision(ApprovalDecision.APPROVE)}>
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDecision(ApprovalDecision.REJECT)}
+              >
+                Reject
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {current && (
+        <ol className="space-y-2 text-sm" role="list">
+          {current.steps.map((step) => (
+            <li key={step.id} className="flex flex-wrap items-center gap-2 border-l-2 pl-3">
+              <span className="text-gray-500">Step {step.step_order + 1}</span>
+              <span className="font-medium">{describeApprover(step)}</span>
+              <Badge variant={STEP_VARIANTS[step.status]}>{step.status}</Badge>
+              {step.decided_at && (
+                <span className="text-gray-500">{formatDate(step.decided_at)}</span>
+              )}
+              {step.comment && <span className="w-full text-gray-600">{step.comment}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Dialog open={!!decision} onOpenChange={(isOpen) => !isOpen && setDecision(null)}>
+        <DialogContent aria-labelledby="approval-decision-title">
+          <DialogHeader>
+            <DialogTitle id="approval-decision-title">
+              {decision === ApprovalDecision.APPROVE ? "Approve" : "Reject"}
+            </DialogTitle>
+            <DialogDescription>
+              {decision === ApprovalDecision.APPROVE
+                ? "Your approval is recorded on this step of the approval chain."
+                : "Rejecting ends the approval; the requester must request it again."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label htmlFor="approval-comment" className="block text-sm font-medium">
+              {decision === ApprovalDecision.APPROVE ? "Comment (optional)" : "Reason"}
+            </label>
+            <Textarea
+              id="approval-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              maxLength={2000}
+              disabled={isDeciding}
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDecision(null)}
+              disabled={isDeciding}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDecide}
+              disabled={isDeciding || (decision === ApprovalDecision.REJECT && !comment.trim())}
+              isLoading={isDeciding}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
+
+export default ApprovalPanel;
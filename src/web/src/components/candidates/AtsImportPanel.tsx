@@ -0,0 +1,217 @@
+import * as React from "react"; // ^18.0.0
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Select from "../ui/select";
+import { saveFile } from "./CandidateImportWizard";
+import { useAtsImport } from "../../lib/hooks/useCandidateImports";
+import { AtsEntityType, AtsImportSource, ReconciliationOutcome } from "../../types/imports";
+import type { ReconciliationReport, ReconciliationTotals } from "../../types/imports";
+
+// Select value leaving the source to be detected from the export
+const DETECT_SOURCE = "detect";
+
+const SOURCE_OPTIONS = [
+  { value: DETECT_SOURCE, label: "Detect from file" },
+  { value: AtsImportSource.GREENHOUSE, label: "Greenhouse" },
+  { value: AtsImportSource.LEVER, label: "Lever" },
+  { value: AtsImportSource.WORKABLE, label: "Workable" },
+  { value: AtsImportSource.JSON_RESUME, label: "JSON Resume" },
+];
+
+const ENTITY_LABELS: Record<AtsEntityType, string> = {
+  [AtsEntityType.JOB]: "Jobs",
+  [AtsEntityType.CANDIDATE]: "Candidates",
+  [AtsEntityType.APPLICATION]: "Applications",
+};
+
+const OUTCOME_LABELS: Record<ReconciliationOutcome, string> = {
+  [ReconciliationOutcome.CREATED]: "Created",
+  [ReconciliationOutcome.UPDATED]: "Updated",
+  [ReconciliationOutcome.UNCHANGED]: "Unchanged",
+  [ReconciliationOutcome.SKIPPED]: "Skipped",
+  [ReconciliationOutcome.FAILED]: "Failed",
+};
+
+/**
+ * Records of a run with an outcome, over every entity type
+ */
+export const getOutcomeTotal = (totals: ReconciliationTotals, outcome: ReconciliationOutcome) =>
+  Object.values(totals).reduce((total, counts) => total + (counts[outcome] ?? 0), 0);
+
+/**
+ * Records worth a look after a run: the ones that were not imported or came with a note
+ */
+export const getRecordsNeedingAttention = (report: ReconciliationReport) =>
+  report.records.filter(
+    (record) =>
+      record.outcome === ReconciliationOutcome.FAILED ||
+      record.outcome === ReconciliationOutcome.SKIPPED ||
+      !!record.message
+  );
+
+const TotalsTable = ({ totals }: { totals: ReconciliationTotals }) => (
+  <table className="w-full text-sm" aria-label="Reconciliation totals">
+    <thead>
+      <tr className="text-left text-gray-500 dark:text-gray-400">
+        <th className="py-1 pr-4">Type</th>
+        {Object.values(ReconciliationOutcome).map((outcome) => (
+          <th key={outcome} className="py-1 pr-4">{OUTCOME_LABELS[outcome]}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {Object.values(AtsEntityType).map((entityType) => (
+        <tr key={entityType} className="border-t">
+          <td className="py-1 pr-4">{ENTITY_LABELS[entityType]}</td>
+          {Object.values(ReconciliationOutcome).map((outcome) => (
+            <td key={outcome} className="py-1 pr-4">{totals[entityType]?.[outcome] ?? 0}</td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * Imports the JSON export of another applicant tracking system with its jobs,
+ * candidates and application history. A dry run reports what would happen to every
+ * record; importing the same export again updates what was imported before.
+ */
+const AtsImportPanel = () => {
+  const [file, setFile] = React.useState<File | null>(null);
+  const [source, setSource] = React.useState<string>(DETECT_SOURCE);
+  const [report, setReport] = React.useState<ReconciliationReport | null>(null);
+  const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
+
+  const { importExport, isImporting, downloadReport } = useAtsImport();
+
+  const run = async (action: () => Promise<void>) => {
+    setErrorMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Something went wrong. Please try again.");
+    }
+  };
+
+  const handleImport = (dryRun: boolean) =>
+    run(async () => {
+      if (!file) return;
+      setReport(
+        await importExport({
+          file,
+          source: source === DETECT_SOURCE ? undefined : (source as AtsImportSource),
+          dry_run: dryRun,
+        })
+      );
+    });
+
+  const handleDownloadReport = () =>
+    run(async () => {
+      if (!report?.run) return;
+      saveFile(await downloadReport(report.run.id), `ats-import-${report.run.id}.csv`);
+    });
+
+  const attention = report ? getRecordsNeedingAttention(report) : [];
+
+  return (
+    <section className="space-y-4" aria-label="Import from another ATS">
+      <div>
+        <h2 className="text-lg font-semibold">Import from another ATS</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Bring over jobs, candidates and application history from a Greenhouse, Lever, Workable or JSON Resume export.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="ats_import_file" className="block text-sm font-medium">
+            Export file (JSON)
+          </label>
+          <input
+            id="ats_import_file"
+            type="file"
+            accept=".json,application/json"
+            onChange={(event) => {
+              setReport(null);
+              setFile(event.target.files?.[0] ?? null);
+            }}
+            disabled={isImporting}
+          />
+        </div>
+        <Select
+          id="ats_import_source"
+          name="source"
+          label="Exported from"
+          value={source}
+          options={SOURCE_OPTIONS}
+          onChange={(value) => {
+            setReport(null);
+            setSource(value);
+          }}
+          disabled={isImporting}
+          size="sm"
+        />
+      </div>
+
+      {report && (
+        <div className="space-y-4" aria-label="Reconciliation report">
+          <p className="text-sm">
+            {report.dry_run
+              ? "Dry run: nothing has been imported yet."
+              : `Imported: ${getOutcomeTotal(report.totals, ReconciliationOutcome.CREATED)} created, ${getOutcomeTotal(report.totals, ReconciliationOutcome.UPDATED)} updated.`}
+          </p>
+          <TotalsTable totals={report.totals} />
+          {attention.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4">Type</th>
+                  <th className="py-1 pr-4">Original ID</th>
+                  <th className="py-1 pr-4">Outcome</th>
+                  <th className="py-1">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {attention.map((record) => (
+                  <tr key={`${record.entity_type}-${record.external_id}`} className="border-t">
+                    <td className="py-1 pr-4">{ENTITY_LABELS[record.entity_type]}</td>
+                    <td className="py-1 pr-4">{record.external_id}</td>
+                    <td className="py-1 pr-4">
+                      <Badge variant={record.outcome === ReconciliationOutcome.FAILED ? "destructive" : "outline"}>
+                        {OUTCOME_LABELS[record.outcome]}
+                      </Badge>
+                    </td>
+                    <td className="py-1">{record.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {errorMessage && <p className="text-sm text-red-600" role="alert">{errorMessage}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={report?.dry_run ? "outline" : "default"}
+          onClick={() => handleImport(true)}
+          disabled={!file || isImporting}
+        >
+          {isImporting ? "Checking export…" : "Run dry run"}
+        </Button>
+        <Button onClick={() => handleImport(false)} disabled={!report?.dry_run || isImporting}>
+          Import
+        </Button>
+        {report?.run && (
+          <Button variant="outline" onClick={handleDownloadReport}>
+            Download report
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AtsImportPanel;
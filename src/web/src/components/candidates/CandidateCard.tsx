@@ -4,6 +4,7 @@ import { formatDate } from "../../lib/utils"
 import { Candidate, CandidateStatus } from "../../types/candidates"
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "../ui/card"
 import { Badge } from "../ui/badge"
+import TagBadge from "./TagBadge"
 
 // Status configuration for different candidate states
 const STATUS_CONFIG: Record<CandidateStatus, { variant: BadgeVariant; label: string }> = {
@@ -104,6 +105,15 @@ const CandidateCard = React.memo<CandidateCardProps>(({
             )}
           </div>
 
+          {/* Tags */}
+          {candidate.tags && candidate.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1" aria-label="Tags">
+              {candidate.tags.map((tag) => (
+                <TagBadge key={tag.id} tag={tag} />
+              ))}
+            </div>
+          )}
+
           {/* Experience level */}
           <div className="text-sm text-gray-600 dark:text-gray-400">
             <span className="font-medium">Experience:</span> {candidate.experience_level}
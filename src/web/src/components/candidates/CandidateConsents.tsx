@@ -0,0 +1,276 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import { ConfirmDialog } from "../common/ConfirmDialog";
+import { useCandidateConsents } from "../../lib/hooks/useConsents";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import {
+  ConsentPurpose,
+  ConsentSource,
+  LawfulBasis,
+  type CandidateConsent,
+  type CandidateConsentInput,
+} from "../../types/privacy";
+
+const PURPOSE_LABELS: Record<ConsentPurpose, string> = {
+  [ConsentPurpose.RECRUITMENT]: "Recruitment",
+  [ConsentPurpose.TALENT_POOL]: "Talent pool",
+};
+
+const BASIS_LABELS: Record<LawfulBasis, string> = {
+  [LawfulBasis.CONSENT]: "Consent",
+  [LawfulBasis.LEGITIMATE_INTEREST]: "Legitimate interest",
+  [LawfulBasis.CONTRACT]: "Contract",
+  [LawfulBasis.LEGAL_OBLIGATION]: "Legal obligation",
+};
+
+const SOURCE_LABELS: Record<ConsentSource, string> = {
+  [ConsentSource.CAREERS_SITE]: "Careers site",
+  [ConsentSource.RECRUITER]: "Recruiter",
+  [ConsentSource.EMAIL]: "Email",
+  [ConsentSource.IMPORT]: "Import",
+  [ConsentSource.RENEWAL_LINK]: "Renewal link",
+};
+
+// Renewal links are only recorded by the candidate renewing
+const RECORDABLE_SOURCES = Object.values(ConsentSource).filter((source) => source !== ConsentSource.RENEWAL_LINK);
+
+interface ConsentDraft {
+  purpose: ConsentPurpose;
+  lawful_basis: LawfulBasis;
+  source: ConsentSource;
+  consented_at: string;
+  expires_at: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: ConsentDraft = {
+  purpose: ConsentPurpose.RECRUITMENT,
+  lawful_basis: LawfulBasis.CONSENT,
+  source: ConsentSource.RECRUITER,
+  consented_at: "",
+  expires_at: "",
+  notes: "",
+};
+
+const fromDraft = (draft: ConsentDraft): CandidateConsentInput => ({
+  purpose: draft.purpose,
+  lawful_basis: draft.lawful_basis,
+  source: draft.source,
+  consented_at: draft.consented_at,
+  expires_at: draft.expires_at || undefined,
+  notes: draft.notes.trim() || undefined,
+});
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Whether a consent is withdrawn, lapsed, awaiting renewal or in force
+const statusLabel = (consent: CandidateConsent, now: Date) => {
+  if (consent.withdrawn_at) return `Withdrawn ${formatDate(consent.withdrawn_at, DATE_FORMATS.DISPLAY_DATE)}`;
+  if (consent.expires_at && consent.expires_at <= now) return "Expired";
+  if (consent.renewal_requested_at) return "Renewal requested";
+  return "In force";
+};
+
+interface CandidateConsentsProps {
+  candidateId: string;
+  /** Whether the current user may record and withdraw consents */
+  canManage: boolean;
+}
+
+/**
+ * The basis on which a candidate's data is held, per purpose. Candidates left with no
+ * basis in force are anonymized by the retention worker, so withdrawing asks first.
+ */
+const CandidateConsents = ({ candidateId, canManage }: CandidateConsentsProps) => {
+  const { consents, isLoading, error, recordConsent, updateConsent, withdrawConsent, isSaving } =
+    useCandidateConsents(candidateId);
+  const [draft, setDraft] = React.useState<ConsentDraft>(EMPTY_DRAFT);
+  const [extending, setExtending] = React.useState<{ id: string; expires_at: string } | null>(null);
+  const [withdrawing, setWithdrawing] = React.useState<CandidateConsent | null>(null);
+  const now = new Date();
+
+  const handleRecord = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await recordConsent(fromDraft(draft));
+      setDraft(EMPTY_DRAFT);
+      toast.success("Consent recorded");
+    } catch (err) {
+      toast.error(errorMessage(err, "The consent could not be recorded."));
+    }
+  };
+
+  const handleExtend = async () => {
+    if (!extending) return;
+    try {
+      await updateConsent(extending.id, { expires_at: extending.expires_at || null });
+      setExtending(null);
+    } catch (err) {
+      toast.error(errorMessage(err, "The consent could not be updated."));
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!withdrawing) return;
+    try {
+      await withdrawConsent(withdrawing.id);
+      setWithdrawing(null);
+      toast.success("Consent withdrawn");
+    } catch (err) {
+      toast.error(errorMessage(err, "The consent could not be withdrawn."));
+    }
+  };
+
+  return (
+    <section className="space-y-4" aria-label="Consents">
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {errorMessage(error, "The consents could not be loaded.")}
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500" role="status">Loading consents…</p>
+      ) : consents.length === 0 ? (
+        <p className="text-sm text-gray-500">No consent recorded.</p>
+      ) : (
+        <ul className="space-y-3">
+          {consents.map((consent) => {
+            const inForce = !consent.withdrawn_at;
+            return (
+              <li
+                key={consent.id}
+                className="space-y-1 rounded-md border p-3"
+                aria-label={`${PURPOSE_LABELS[consent.purpose]} consent`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{PURPOSE_LABELS[consent.purpose]}</span>
+                  <Badge variant="outline">{BASIS_LABELS[consent.lawful_basis]}</Badge>
+                  <Badge variant={inForce ? "default" : "secondary"}>{statusLabel(consent, now)}</Badge>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {SOURCE_LABELS[consent.source]} · given {formatDate(consent.consented_at, DATE_FORMATS.DISPLAY_DATE)}
+                  {consent.expires_at
+                    ? ` · expires ${formatDate(consent.expires_at, DATE_FORMATS.DISPLAY_DATE)}`
+                    : " · no expiry"}
+                </p>
+                {consent.notes && <p className="text-sm">{consent.notes}</p>}
+
+                {canManage && inForce && (
+                  extending?.id === consent.id ? (
+                    <div className="flex flex-wrap items-end gap-2">
+                      <Input
+                        type="date"
+                        aria-label="New expiry"
+                        value={extending.expires_at}
+                        onChange={(event) => setExtending({ id: consent.id, expires_at: event.target.value })}
+                        disabled={isSaving}
+                      />
+                      <Button size="sm" onClick={handleExtend} disabled={isSaving}>
+                        Save
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setExtending(null)} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setExtending({ id: consent.id, expires_at: "" })}
+                        disabled={isSaving}
+                      >
+                        Change expiry
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        aria-label={`Withdraw ${PURPOSE_LABELS[consent.purpose].toLowerCase()} consent`}
+                        onClick={() => setWithdrawing(consent)}
+                        disabled={isSaving}
+                      >
+                        Withdraw
+                      </Button>
+                    </div>
+                  )
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleRecord} className="flex flex-wrap items-end gap-2" aria-label="Record consent">
+          <Select
+            id="consent-purpose"
+            aria-label="Purpose"
+            value={draft.purpose}
+            options={Object.values(ConsentPurpose).map((purpose) => ({ value: purpose, label: PURPOSE_LABELS[purpose] }))}
+            onChange={(purpose) => setDraft({ ...draft, purpose: purpose as ConsentPurpose })}
+            disabled={isSaving}
+          />
+          <Select
+            id="consent-basis"
+            aria-label="Lawful basis"
+            value={draft.lawful_basis}
+            options={Object.values(LawfulBasis).map((basis) => ({ value: basis, label: BASIS_LABELS[basis] }))}
+            onChange={(basis) => setDraft({ ...draft, lawful_basis: basis as LawfulBasis })}
+            disabled={isSaving}
+          />
+          <Select
+            id="consent-source"
+            aria-label="Source"
+            value={draft.source}
+            options={RECORDABLE_SOURCES.map((source) => ({ value: source, label: SOURCE_LABELS[source] }))}
+            onChange={(source) => setDraft({ ...draft, source: source as ConsentSource })}
+            disabled={isSaving}
+          />
+          <Input
+            type="date"
+            aria-label="Given on"
+            value={draft.consented_at}
+            onChange={(event) => setDraft({ ...draft, consented_at: event.target.value })}
+            disabled={isSaving}
+          />
+          <Input
+            type="date"
+            aria-label="Expires on"
+            value={draft.expires_at}
+            onChange={(event) => setDraft({ ...draft, expires_at: event.target.value })}
+            disabled={isSaving}
+          />
+          <Input
+            aria-label="Notes"
+            placeholder="Notes"
+            value={draft.notes}
+            maxLength={2000}
+            onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+            disabled={isSaving}
+          />
+          <Button type="submit" disabled={isSaving || !draft.consented_at}>
+            Record consent
+          </Button>
+        </form>
+      )}
+
+      <ConfirmDialog
+        open={!!withdrawing}
+        onOpenChange={(open) => !open && setWithdrawing(null)}
+        title="Withdraw consent"
+        description={`The ${withdrawing ? PURPOSE_LABELS[withdrawing.purpose].toLowerCase() : ""} consent will be withdrawn. If no other basis is in force, the candidate is anonymized on the next retention run.`}
+        confirmText="Withdraw"
+        variant="destructive"
+        onConfirm={handleWithdraw}
+        isLoading={isSaving}
+      />
+    </section>
+  );
+};
+
+export default CandidateConsents;
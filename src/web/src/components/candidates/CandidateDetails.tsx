@@ -10,6 +10,8 @@ import {
   Education
 } from '../../types/candidates';
 import { useCandidates } from '../../lib/hooks/useCandidates';
+import { useCandidateProfileDownload } from '../../lib/hooks/useCandidateExports';
+import { saveFile } from './CandidateImportWizard';
 
 // Component Props
 interface CandidateDetailsProps {
@@ -104,6 +106,16 @@ export const CandidateDetails: React.FC<CandidateDetailsProps> = ({
     handleUpdate,
     handleDelete
   } = useCandidateDetails(id!);
+  const { downloadProfile, isDownloading } = useCandidateProfileDownload();
+
+  const handleDownloadProfile = async (includeContact: boolean) => {
+    try {
+      const { file, file_name } = await downloadProfile(id!, includeContact);
+      saveFile(file, file_name);
+    } catch (err) {
+      toast.error('Failed to download candidate profile');
+    }
+  };
 
   useEffect(() => {
     if (error && onError) {
@@ -230,6 +242,24 @@ export const CandidateDetails: React.FC<CandidateDetailsProps> = ({
 
         {/* Action Buttons */}
         <div className="flex justify-end space-x-4 mt-8">
+          <button
+            type="button"
+            onClick={() => handleDownloadProfile(false)}
+            disabled={isDownloading}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+            aria-label="Download PDF profile without contact details"
+          >
+            Download PDF profile
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDownloadProfile(true)}
+            disabled={isDownloading}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+            aria-label="Download PDF profile with contact details"
+          >
+            PDF with contact details
+          </button>
           <button
             type="button"
             onClick={() => handleDelete()}
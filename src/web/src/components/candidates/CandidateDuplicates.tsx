@@ -0,0 +1,136 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import { RadioGroup, RadioGroupItem } from "../ui/radio";
+import DuplicateMatchList from "./DuplicateMatchList";
+import { useCandidateDuplicates } from "../../lib/hooks/useCandidateDuplicates";
+import type { DuplicateCandidateMatch } from "../../types/candidates";
+
+interface CandidateDuplicatesProps {
+  candidateId: string;
+  candidateName: string;
+  // Called with the kept candidate; the other profile is archived by the merge
+  onMerged?: (primaryId: string) => void;
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Likely duplicates of a candidate, with a merge dialog that lets the recruiter choose
+ * which profile to keep
+ */
+const CandidateDuplicates: React.FC<CandidateDuplicatesProps> = ({
+  candidateId,
+  candidateName,
+  onMerged,
+}) => {
+  const { matches, isLoading, error, mergeCandidates, isMerging } =
+    useCandidateDuplicates(candidateId);
+
+  const [selected, setSelected] = React.useState<DuplicateCandidateMatch | null>(null);
+  const [primaryId, setPrimaryId] = React.useState(candidateId);
+
+  const openMerge = (match: DuplicateCandidateMatch) => {
+    setSelected(match);
+    setPrimaryId(candidateId);
+  };
+
+  const handleMerge = async () => {
+    if (!selected) return;
+    const duplicateId = primaryId === candidateId ? selected.candidate_id : candidateId;
+    try {
+      const { merge } = await mergeCandidates(primaryId, duplicateId);
+      const moved = Object.values(merge.moved_records).reduce((sum, count) => sum + count, 0);
+      toast.success(`Candidates merged; ${moved} related records moved`);
+      setSelected(null);
+      onMerged?.(primaryId);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return <div role="status" className="animate-pulse h-16 bg-gray-200 rounded" />;
+  }
+
+  if (error) {
+    return (
+      <p role="alert" className="text-sm text-red-600">
+        {getErrorMessage(error)}
+      </p>
+    );
+  }
+
+  if (!matches.length) {
+    return <p className="text-sm text-muted-foreground">No likely duplicates found.</p>;
+  }
+
+  return (
+    <section aria-label="Possible duplicates" className="space-y-3">
+      <h3 className="font-semibold">Possible Duplicates</h3>
+      <DuplicateMatchList
+        matches={matches}
+        actionLabel="Merge"
+        onAction={openMerge}
+        disabled={isMerging}
+      />
+
+      <Dialog open={!!selected} onOpenChange={(isOpen) => !isOpen && setSelected(null)}>
+        <DialogContent aria-labelledby="candidate-merge-title">
+          <DialogHeader>
+            <DialogTitle id="candidate-merge-title">Merge Candidates</DialogTitle>
+            <DialogDescription>
+              Applications, interviews, offers and hotlist memberships move to the profile you
+              keep. The other profile is archived.
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <RadioGroup
+              value={primaryId}
+              onValueChange={setPrimaryId}
+              aria-label="Profile to keep"
+              disabled={isMerging}
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value={candidateId} aria-label={`Keep ${candidateName}`} />
+                Keep this profile ({candidateName})
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem
+                  value={selected.candidate_id}
+                  aria-label={`Keep ${selected.full_name}`}
+                />
+                Keep {selected.full_name} ({selected.email})
+              </label>
+            </RadioGroup>
+          )}
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setSelected(null)}
+              disabled={isMerging}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isMerging} isLoading={isMerging}>
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
+
+export default CandidateDuplicates;
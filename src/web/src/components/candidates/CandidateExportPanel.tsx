@@ -0,0 +1,148 @@
+import * as React from "react"; // ^18.0.0
+import { Button } from "../ui/button";
+import Checkbox from "../ui/checkbox";
+import Select from "../ui/select";
+import { saveFile } from "./CandidateImportWizard";
+import { useCandidateExport } from "../../lib/hooks/useCandidateExports";
+import { toExportFilters } from "../../lib/api/exports";
+import {
+  CANDIDATE_EXPORT_COLUMNS,
+  CandidateExportFormat,
+  CandidateExportStatus,
+  DEFAULT_EXPORT_COLUMNS,
+} from "../../types/exports";
+import type { CandidateExportColumn } from "../../types/exports";
+import type { CandidateSearchParams } from "../../types/candidates";
+
+const FORMAT_OPTIONS = [
+  { value: CandidateExportFormat.CSV, label: "CSV" },
+  { value: CandidateExportFormat.XLSX, label: "Excel (XLSX)" },
+  { value: CandidateExportFormat.JSON_RESUME, label: "JSON Resume" },
+];
+
+const COLUMN_LABELS: Record<CandidateExportColumn, string> = {
+  id: "ID",
+  full_name: "Name",
+  email: "Email",
+  phone: "Phone",
+  location: "Location",
+  status: "Status",
+  experience_level: "Experience level",
+  skills: "Skills",
+  current_title: "Current title",
+  current_company: "Current company",
+  education: "Education",
+  salary_expectation_min: "Salary min",
+  salary_expectation_max: "Salary max",
+  remote_only: "Remote only",
+  open_to_relocation: "Open to relocation",
+  resume_url: "Resume URL",
+  created_at: "Created at",
+  updated_at: "Updated at",
+};
+
+/**
+ * Selected columns in the order they are exported, whatever order they were picked in
+ */
+export const toggleExportColumn = (columns: CandidateExportColumn[], column: CandidateExportColumn, selected: boolean) =>
+  CANDIDATE_EXPORT_COLUMNS.filter((candidate) => (candidate === column ? selected : columns.includes(candidate)));
+
+interface CandidateExportPanelProps {
+  // Filters of the candidate list; the export holds the same candidates
+  searchParams: Partial<CandidateSearchParams>;
+}
+
+/**
+ * Exports the candidates matching the current search. Small exports download straight
+ * away; larger ones are written in the background and can be downloaded here once ready.
+ */
+const CandidateExportPanel = ({ searchParams }: CandidateExportPanelProps) => {
+  const [format, setFormat] = React.useState<CandidateExportFormat>(CandidateExportFormat.CSV);
+  const [columns, setColumns] = React.useState<CandidateExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [queuedId, setQueuedId] = React.useState<string | undefined>();
+  const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
+
+  const { candidateExport, exportCandidates, isExporting } = useCandidateExport(queuedId);
+
+  const handleExport = async () => {
+    setErrorMessage(null);
+    setQueuedId(undefined);
+    try {
+      const result = await exportCandidates({ format, filters: toExportFilters(searchParams), columns });
+      if ("queued" in result) {
+        setQueuedId(result.queued.id);
+      } else {
+        saveFile(result.file, result.file_name);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Something went wrong. Please try again.");
+    }
+  };
+
+  const hasColumns = format === CandidateExportFormat.CSV || format === CandidateExportFormat.XLSX;
+
+  return (
+    <section className="space-y-4" aria-label="Export candidates">
+      <div>
+        <h2 className="text-lg font-semibold">Export candidates</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Exports the candidates matching the current search and filters.
+        </p>
+      </div>
+
+      <Select
+        id="candidate_export_format"
+        name="format"
+        label="Format"
+        value={format}
+        options={FORMAT_OPTIONS}
+        onChange={(value) => setFormat(value as CandidateExportFormat)}
+        disabled={isExporting}
+        size="sm"
+      />
+
+      {hasColumns && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">Columns</legend>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {CANDIDATE_EXPORT_COLUMNS.map((column) => (
+              <Checkbox
+                key={column}
+                id={`candidate_export_column_${column}`}
+                checked={columns.includes(column)}
+                onCheckedChange={(checked) => setColumns((current) => toggleExportColumn(current, column, checked === true))}
+                label={COLUMN_LABELS[column]}
+                disabled={isExporting}
+              />
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {candidateExport && (
+        <div className="rounded-md border p-3 text-sm" role="status">
+          {candidateExport.status === CandidateExportStatus.COMPLETED && candidateExport.download_url ? (
+            <p>
+              {candidateExport.row_count} candidates exported.{" "}
+              <a href={candidateExport.download_url} className="font-medium text-blue-600 underline">
+                Download file
+              </a>
+            </p>
+          ) : candidateExport.status === CandidateExportStatus.FAILED ? (
+            <p className="text-red-600">{candidateExport.error ?? "The export could not be written."}</p>
+          ) : (
+            <p>This is a large export. It is being prepared and will be ready to download here shortly.</p>
+          )}
+        </div>
+      )}
+
+      {errorMessage && <p className="text-sm text-red-600" role="alert">{errorMessage}</p>}
+
+      <Button onClick={handleExport} disabled={isExporting || (hasColumns && columns.length === 0)}>
+        {isExporting ? "Exporting…" : "Export"}
+      </Button>
+    </section>
+  );
+};
+
+export default CandidateExportPanel;
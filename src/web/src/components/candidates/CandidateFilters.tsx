@@ -3,6 +3,7 @@ import { debounce } from "lodash"; // ^4.17.21
 import Select from "../ui/select";
 import { CandidateStatus, CandidateSearchParams } from "../../types/candidates";
 import { useCandidates } from "../../lib/hooks/useCandidates";
+import { useTags } from "../../lib/hooks/useTags";
 import { cn } from "../../lib/utils";
 
 // Enhanced props interface with AI matching and real-time capabilities
@@ -38,6 +39,7 @@ const CandidateFilters: React.FC<CandidateFiltersProps> = ({
     is_actively_looking: false,
     availability_date: "",
     certifications: [],
+    tags: [],
     page: 1,
     limit: 20,
     ...initialFilters
@@ -97,6 +99,19 @@ const CandidateFilters: React.FC<CandidateFiltersProps> = ({
     [filters, debouncedFilterChange, updateSearchParams]
   );
 
+  const { tags } = useTags();
+
+  // Toggle a tag in the tag filter; candidates carrying any selected tag match
+  const toggleTag = React.useCallback(
+    (tagId: string) => {
+      const selected = filters.tags ?? [];
+      updateFilters({
+        tags: selected.includes(tagId) ? selected.filter((id) => id !== tagId) : [...selected, tagId]
+      });
+    },
+    [filters.tags, updateFilters]
+  );
+
   // Status filter options
   const statusOptions = React.useMemo(
     () => [
@@ -188,6 +203,38 @@ const CandidateFilters: React.FC<CandidateFiltersProps> = ({
         />
       </div>
 
+      {/* Tags Filter */}
+      {tags.length > 0 && (
+        <div className="space-y-2">
+          <span id="tags-filter" className="text-sm font-medium text-foreground">
+            Tags
+          </span>
+          <div className="flex flex-wrap gap-2" role="group" aria-labelledby="tags-filter">
+            {tags.map((tag) => {
+              const isSelected = filters.tags?.includes(tag.id) ?? false;
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  className={cn(
+                    "inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs",
+                    isSelected ? "bg-muted font-semibold" : "bg-background"
+                  )}
+                  style={{ borderColor: tag.color }}
+                  onClick={() => toggleTag(tag.id)}
+                  aria-pressed={isSelected}
+                  title={tag.category ?? undefined}
+                  disabled={isLoading}
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} aria-hidden="true" />
+                  {tag.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Location Filter */}
       <div className="space-y-2">
         <label
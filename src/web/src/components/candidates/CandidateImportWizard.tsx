@@ -0,0 +1,414 @@
+import * as React from "react"; // ^18.0.0
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Select from "../ui/select";
+import { useCandidateImport } from "../../lib/hooks/useCandidateImports";
+import {
+  CandidateImportStatus,
+  DuplicateStrategy,
+  IMPORT_FIELDS,
+  IMPORT_LIST_DELIMITERS,
+  ImportRowStatus,
+  REQUIRED_IMPORT_FIELDS,
+} from "../../types/imports";
+import type {
+  CandidateImportOptions,
+  CandidateImportPreview,
+  ImportField,
+  ImportFieldMapping,
+  ImportRowCounts,
+  ImportRowError,
+  UploadedCandidateImport,
+} from "../../types/imports";
+
+interface CandidateImportWizardProps {
+  onClose?: () => void;
+}
+
+// Select value standing for "column not imported"
+const NOT_MAPPED = "none";
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  full_name: "Full name",
+  email: "Email",
+  phone: "Phone",
+  location: "Location",
+  status: "Status",
+  experience_level: "Experience level",
+  skills: "Skills",
+  resume_file: "Resume file name",
+  "preferences.preferred_job_types": "Preferred job types",
+  "preferences.preferred_locations": "Preferred locations",
+  "preferences.remote_only": "Remote only",
+  "preferences.salary_expectation_min": "Minimum salary",
+  "preferences.salary_expectation_max": "Maximum salary",
+  "preferences.open_to_relocation": "Open to relocation",
+  "preferences.preferred_industries": "Preferred industries",
+  "preferences.preferred_companies": "Preferred companies",
+  "preferences.preferred_travel_percentage": "Travel percentage",
+  "preferences.excluded_industries": "Excluded industries",
+};
+
+const STRATEGY_OPTIONS = [
+  { value: DuplicateStrategy.SKIP, label: "Skip rows matching an existing candidate" },
+  { value: DuplicateStrategy.UPDATE, label: "Update the existing candidate" },
+  { value: DuplicateStrategy.CREATE, label: "Create a new candidate anyway" },
+];
+
+const OUTCOME_LABELS: Record<ImportRowStatus, string> = {
+  [ImportRowStatus.PENDING]: "Pending",
+  [ImportRowStatus.CREATED]: "Created",
+  [ImportRowStatus.UPDATED]: "Updated",
+  [ImportRowStatus.SKIPPED]: "Skipped",
+  [ImportRowStatus.FAILED]: "Failed",
+};
+
+/**
+ * Label of a field as shown in the mapping step
+ */
+export const getImportFieldLabel = (field: ImportField) => FIELD_LABELS[field];
+
+/**
+ * Errors of a row as one line, e.g. "Email: Invalid email"
+ */
+export const formatRowErrors = (errors: ImportRowError[]) =>
+  errors
+    .map(({ field, message }) =>
+      `${field in FIELD_LABELS ? FIELD_LABELS[field as ImportField] : field}: ${message}`
+    )
+    .join("; ");
+
+/**
+ * Rows of an import that have been processed, as a percentage of all rows
+ */
+export const getImportProgress = (counts: ImportRowCounts, rowCount: number) =>
+  rowCount === 0 ? 100 : Math.round(((rowCount - counts[ImportRowStatus.PENDING]) / rowCount) * 100);
+
+/**
+ * Saves a downloaded file under a name
+ */
+export const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const RowCounts = ({ counts, statuses }: { counts: ImportRowCounts; statuses: ImportRowStatus[] }) => (
+  <dl className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+    {statuses.map((status) => (
+      <div key={status} className="rounded-md border p-3">
+        <dt className="text-xs text-gray-500 dark:text-gray-400">{OUTCOME_LABELS[status]}</dt>
+        <dd className="text-xl font-semibold">{counts[status]}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+/**
+ * Imports candidates from a CSV or XLSX spreadsheet: the file is uploaded with an
+ * optional zip of resumes, its columns are mapped to candidate fields, a dry run shows
+ * every row that would fail or match an existing candidate, and the import is then
+ * committed in the background
+ */
+const CandidateImportWizard = ({ onClose }: CandidateImportWizardProps) => {
+  const [file, setFile] = React.useState<File | null>(null);
+  const [resumes, setResumes] = React.useState<File | null>(null);
+  const [upload, setUpload] = React.useState<UploadedCandidateImport | null>(null);
+  const [mapping, setMapping] = React.useState<ImportFieldMapping>({});
+  const [strategy, setStrategy] = React.useState<DuplicateStrategy>(DuplicateStrategy.SKIP);
+  const [delimiter, setDelimiter] = React.useState<CandidateImportOptions["list_delimiter"]>(";");
+  const [preview, setPreview] = React.useState<CandidateImportPreview | null>(null);
+  const [committedId, setCommittedId] = React.useState<string>();
+  const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
+
+  const {
+    candidateImport,
+    uploadImport,
+    isUploading,
+    previewImport,
+    isPreviewing,
+    commitImport,
+    isCommitting,
+    downloadErrorReport,
+  } = useCandidateImport(committedId);
+
+  const run = async (action: () => Promise<void>) => {
+    setErrorMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Something went wrong. Please try again.");
+    }
+  };
+
+  const handleUpload = () =>
+    run(async () => {
+      if (!file) return;
+      const uploaded = await uploadImport({ file, resumes: resumes ?? undefined });
+      setUpload(uploaded);
+      setMapping(uploaded.suggested_mapping);
+    });
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setPreview(null);
+    setMapping((prev) => {
+      const { [field]: _previous, ...rest } = prev;
+      return column === NOT_MAPPED ? rest : { ...rest, [field]: column };
+    });
+  };
+
+  const handlePreview = () =>
+    run(async () => {
+      if (!upload) return;
+      setPreview(
+        await previewImport(upload.id, { mapping, duplicate_strategy: strategy, list_delimiter: delimiter })
+      );
+    });
+
+  const handleCommit = () =>
+    run(async () => {
+      if (!upload) return;
+      const queued = await commitImport(upload.id);
+      setCommittedId(queued.id);
+    });
+
+  const handleDownloadErrors = () =>
+    run(async () => {
+      if (!upload) return;
+      saveFile(await downloadErrorReport(upload.id), `${upload.file_name.replace(/\.[^.]+$/, "")}-errors.csv`);
+    });
+
+  const missingRequired = REQUIRED_IMPORT_FIELDS.filter((field) => !mapping[field]);
+  const columnOptions = [
+    { value: NOT_MAPPED, label: "Don't import" },
+    ...(upload?.headers ?? []).map((header) => ({ value: header, label: header })),
+  ];
+
+  // Progress of a committed import
+  if (committedId) {
+    const isCompleted = candidateImport?.status === CandidateImportStatus.COMPLETED;
+    const counts = candidateImport?.row_counts;
+
+    return (
+      <section className="space-y-4" aria-label="Import progress">
+        <h2 className="text-lg font-semibold">{isCompleted ? "Import complete" : "Importing candidates…"}</h2>
+        {counts && candidateImport && (
+          <>
+            <div
+              className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={getImportProgress(counts, candidateImport.row_count)}
+            >
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${getImportProgress(counts, candidateImport.row_count)}%` }}
+              />
+            </div>
+            <RowCounts
+              counts={counts}
+              statuses={[ImportRowStatus.CREATED, ImportRowStatus.UPDATED, ImportRowStatus.SKIPPED, ImportRowStatus.FAILED]}
+            />
+          </>
+        )}
+        {errorMessage && <p className="text-sm text-red-600" role="alert">{errorMessage}</p>}
+        <div className="flex gap-2">
+          {isCompleted && counts && counts[ImportRowStatus.FAILED] > 0 && (
+            <Button variant="outline" onClick={handleDownloadErrors}>
+              Download error report
+            </Button>
+          )}
+          {onClose && (
+            <Button onClick={onClose} disabled={!isCompleted}>
+              Done
+            </Button>
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  // Upload step
+  if (!upload) {
+    return (
+      <section className="space-y-4" aria-label="Upload spreadsheet">
+        <div className="space-y-1">
+          <label htmlFor="import_file" className="block text-sm font-medium">
+            Spreadsheet (CSV or XLSX)
+          </label>
+          <input
+            id="import_file"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            disabled={isUploading}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="import_resumes" className="block text-sm font-medium">
+            Resumes (optional zip)
+          </label>
+          <input
+            id="import_resumes"
+            type="file"
+            accept=".zip"
+            onChange={(event) => setResumes(event.target.files?.[0] ?? null)}
+            disabled={isUploading}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Map a column with resume file names to attach the matching file from the archive.
+          </p>
+        </div>
+        {errorMessage && <p className="text-sm text-red-600" role="alert">{errorMessage}</p>}
+        <div className="flex gap-2">
+          <Button onClick={handleUpload} disabled={!file || isUploading}>
+            {isUploading ? "Uploading…" : "Upload"}
+          </Button>
+          {onClose && (
+            <Button variant="outline" onClick={onClose} disabled={isUploading}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  // Mapping and dry run step
+  return (
+    <section className="space-y-6" aria-label="Map columns">
+      <div>
+        <h2 className="text-lg font-semibold">{upload.file_name}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {upload.row_count} rows
+          {upload.resume_files.length > 0 && `, ${upload.resume_files.length} resumes`}
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {IMPORT_FIELDS.map((field) => (
+          <Select
+            key={field}
+            id={`import_mapping_${field}`}
+            name={field}
+            label={`${FIELD_LABELS[field]}${REQUIRED_IMPORT_FIELDS.includes(field) ? " *" : ""}`}
+            value={mapping[field] ?? NOT_MAPPED}
+            options={columnOptions}
+            onChange={(value) => handleMappingChange(field, value)}
+            disabled={isPreviewing || isCommitting}
+            size="sm"
+          />
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <Select
+          id="import_duplicate_strategy"
+          name="duplicate_strategy"
+          label="Duplicates"
+          value={strategy}
+          options={STRATEGY_OPTIONS}
+          onChange={(value) => {
+            setPreview(null);
+            setStrategy(value as DuplicateStrategy);
+          }}
+          disabled={isPreviewing || isCommitting}
+          size="sm"
+        />
+        <Select
+          id="import_list_delimiter"
+          name="list_delimiter"
+          label="Separator in list columns"
+          value={delimiter}
+          options={IMPORT_LIST_DELIMITERS.map((value) => ({ value, label: value }))}
+          onChange={(value) => {
+            setPreview(null);
+            setDelimiter(value as CandidateImportOptions["list_delimiter"]);
+          }}
+          disabled={isPreviewing || isCommitting}
+          size="sm"
+        />
+      </div>
+
+      {preview && (
+        <div className="space-y-4" aria-label="Dry run results">
+          <RowCounts
+            counts={preview.row_counts}
+            statuses={[ImportRowStatus.CREATED, ImportRowStatus.UPDATED, ImportRowStatus.SKIPPED, ImportRowStatus.FAILED]}
+          />
+          {preview.rows.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4">Row</th>
+                  <th className="py-1 pr-4">Outcome</th>
+                  <th className="py-1">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.row_number} className="border-t">
+                    <td className="py-1 pr-4">{row.row_number}</td>
+                    <td className="py-1 pr-4">
+                      <Badge variant={row.status === ImportRowStatus.FAILED ? "destructive" : "outline"}>
+                        {OUTCOME_LABELS[row.status]}
+                      </Badge>
+                    </td>
+                    <td className="py-1">
+                      {row.errors.length > 0
+                        ? formatRowErrors(row.errors)
+                        : row.duplicate_row_number !== null
+                          ? `Same email as row ${row.duplicate_row_number}`
+                          : "Matches an existing candidate"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {preview.truncated && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Only the first rows are listed; the error report has every failing row.
+            </p>
+          )}
+        </div>
+      )}
+
+      {missingRequired.length > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Map {missingRequired.map(getImportFieldLabel).join(" and ")} to continue.
+        </p>
+      )}
+      {errorMessage && <p className="text-sm text-red-600" role="alert">{errorMessage}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={preview ? "outline" : "default"}
+          onClick={handlePreview}
+          disabled={missingRequired.length > 0 || isPreviewing || isCommitting}
+        >
+          {isPreviewing ? "Checking rows…" : "Run dry run"}
+        </Button>
+        {preview && preview.row_counts[ImportRowStatus.FAILED] > 0 && (
+          <Button variant="outline" onClick={handleDownloadErrors}>
+            Download error report
+          </Button>
+        )}
+        <Button onClick={handleCommit} disabled={!preview || isCommitting}>
+          {isCommitting ? "Starting import…" : "Import candidates"}
+        </Button>
+        {onClose && (
+          <Button variant="outline" onClick={onClose} disabled={isCommitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CandidateImportWizard;
@@ -0,0 +1,95 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import { useLegalHolds } from "../../lib/hooks/useConsents";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+interface CandidateLegalHoldsProps {
+  candidateId: string;
+}
+
+/**
+ * Admin controls for legal holds. While a hold is in force neither the retention worker
+ * nor an erasure request can anonymize the candidate or their merged duplicates.
+ */
+const CandidateLegalHolds = ({ candidateId }: CandidateLegalHoldsProps) => {
+  const { holds, isLoading, error, placeHold, releaseHold, isSaving } = useLegalHolds(candidateId);
+  const [reason, setReason] = React.useState("");
+
+  const handlePlace = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await placeHold(reason.trim());
+      setReason("");
+      toast.success("Legal hold placed");
+    } catch (err) {
+      toast.error(errorMessage(err, "The legal hold could not be placed."));
+    }
+  };
+
+  const handleRelease = async (holdId: string) => {
+    try {
+      await releaseHold(holdId);
+      toast.success("Legal hold released");
+    } catch (err) {
+      toast.error(errorMessage(err, "The legal hold could not be released."));
+    }
+  };
+
+  return (
+    <section className="space-y-3" aria-label="Legal holds">
+      <h3 className="text-sm font-medium">Legal holds</h3>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {errorMessage(error, "The legal holds could not be loaded.")}
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500" role="status">Loading legal holds…</p>
+      ) : holds.length === 0 ? (
+        <p className="text-sm text-gray-500">No legal holds.</p>
+      ) : (
+        <ul className="space-y-2">
+          {holds.map((hold) => (
+            <li key={hold.id} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+              <Badge variant={hold.released_at ? "secondary" : "warning"}>
+                {hold.released_at ? "Released" : "In force"}
+              </Badge>
+              <span className="flex-1 text-sm">{hold.reason}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Placed {formatDate(hold.created_at, DATE_FORMATS.DISPLAY_DATE)}
+                {hold.released_at ? ` · released ${formatDate(hold.released_at, DATE_FORMATS.DISPLAY_DATE)}` : ""}
+              </span>
+              {!hold.released_at && (
+                <Button size="sm" variant="outline" onClick={() => handleRelease(hold.id)} disabled={isSaving}>
+                  Release
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handlePlace} className="flex flex-wrap items-end gap-2" aria-label="Place legal hold">
+        <Input
+          aria-label="Hold reason"
+          placeholder="Reason, e.g. pending litigation"
+          value={reason}
+          maxLength={2000}
+          onChange={(event) => setReason(event.target.value)}
+          disabled={isSaving}
+        />
+        <Button type="submit" disabled={isSaving || !reason.trim()}>
+          Place hold
+        </Button>
+      </form>
+    </section>
+  );
+};
+
+export default CandidateLegalHolds;
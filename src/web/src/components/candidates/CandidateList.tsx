@@ -5,6 +5,7 @@ import { useVirtualizer } from "@tanstack/react-virtual" // ^3.0.0
 import { ErrorBoundary } from "react-error-boundary" // ^4.0.0
 import { cn } from "../../lib/utils"
 import CandidateCard from "./CandidateCard"
+import CandidateTagActions from "./CandidateTagActions"
 import EmptyState from "../common/EmptyState"
 import Pagination from "../common/Pagination"
 import { Candidate } from "../../types/candidates"
@@ -22,6 +23,8 @@ interface CandidateListProps {
   className?: string
   itemsPerPage?: number
   enableVirtualization?: boolean
+  // Shows checkboxes for tagging candidates in bulk
+  selectable?: boolean
 }
 
 // Skeleton loader for loading state
@@ -75,6 +78,7 @@ const CandidateList = React.memo<CandidateListProps>(({
   className,
   itemsPerPage = 20,
   enableVirtualization = false,
+  selectable = false,
 }) => {
   // Container ref for virtualization
   const parentRef = React.useRef<HTMLDivElement>(null)
@@ -103,6 +107,45 @@ const CandidateList = React.memo<CandidateListProps>(({
     [onCandidateSelect]
   )
 
+  // Selected candidates, kept only while they are in the list
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([])
+  const visibleSelection = React.useMemo(
+    () => selectedIds.filter((id) => candidates.some((candidate) => candidate.id === id)),
+    [selectedIds, candidates]
+  )
+  const allSelected = candidates.length > 0 && visibleSelection.length === candidates.length
+
+  const toggleSelected = React.useCallback((id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]))
+  }, [])
+
+  // Card with its selection checkbox when the list is selectable
+  const renderCandidate = (candidate: Candidate) => {
+    const card = (
+      <CandidateCard
+        candidate={candidate}
+        onClick={(id) => onCandidateSelect(id)}
+        showMatchScore={showMatchScore}
+        matchScore={candidate.match_score}
+        className={selectable ? "flex-1" : undefined}
+      />
+    )
+    if (!selectable) return card
+
+    return (
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          className="mt-6 rounded border-input"
+          checked={visibleSelection.includes(candidate.id)}
+          onChange={() => toggleSelected(candidate.id)}
+          aria-label={`Select ${candidate.full_name}`}
+        />
+        {card}
+      </div>
+    )
+  }
+
   // Loading state
   if (isLoading) {
     return <CandidateListSkeleton />
@@ -130,6 +173,24 @@ const CandidateList = React.memo<CandidateListProps>(({
 
   return (
     <div className={cn("space-y-6", className)}>
+      {/* Bulk tagging */}
+      {selectable && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="rounded border-input"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? [] : candidates.map((candidate) => candidate.id))}
+            />
+            Select all on this page
+          </label>
+          {visibleSelection.length > 0 && (
+            <CandidateTagActions candidateIds={visibleSelection} onDone={() => setSelectedIds([])} />
+          )}
+        </div>
+      )}
+
       {/* Candidate list container */}
       <div
         ref={parentRef}
@@ -155,23 +216,12 @@ const CandidateList = React.memo<CandidateListProps>(({
                     width: "100%",
                   }}
                 >
-                  <CandidateCard
-                    candidate={candidate}
-                    onClick={(id) => onCandidateSelect(id)}
-                    showMatchScore={showMatchScore}
-                    matchScore={candidate.match_score}
-                  />
+                  {renderCandidate(candidate)}
                 </div>
               )
             })
           : candidates.map((candidate) => (
-              <CandidateCard
-                key={candidate.id}
-                candidate={candidate}
-                onClick={(id) => onCandidateSelect(id)}
-                showMatchScore={showMatchScore}
-                matchScore={candidate.match_score}
-              />
+              <React.Fragment key={candidate.id}>{renderCandidate(candidate)}</React.Fragment>
             ))}
       </div>
 
@@ -0,0 +1,261 @@
+import * as React from "react"; // ^18.0.0
+import DOMPurify from "dompurify"; // ^3.0.0
+import { useDebounce } from "use-debounce"; // ^9.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import NoteEditor from "./NoteEditor";
+import { useCandidateNotes, useNoteHistory } from "../../lib/hooks/useNotes";
+import { useAuth } from "../../lib/hooks/useAuth";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import { NoteVisibility } from "../../types/notes";
+import type { CandidateNote } from "../../types/notes";
+
+const VISIBILITY_LABELS: Record<NoteVisibility, string> = {
+  [NoteVisibility.PRIVATE]: "Only me",
+  [NoteVisibility.HIRING_TEAM]: "Hiring team",
+  [NoteVisibility.EVERYONE]: "Everyone",
+};
+
+const VISIBILITY_OPTIONS = Object.values(NoteVisibility).map((visibility) => ({
+  value: visibility,
+  label: VISIBILITY_LABELS[visibility],
+}));
+
+/**
+ * Note body as HTML safe to render; the server sanitizes too, this guards the page
+ */
+export const renderNoteBody = (body: string) =>
+  DOMPurify.sanitize(body, { ALLOWED_ATTR: ["href", "target", "rel", "class", "data-type", "data-id", "data-label"] });
+
+interface NoteDraft {
+  body: string;
+  isEmpty: boolean;
+  visibility: NoteVisibility;
+}
+
+const emptyDraft = (visibility = NoteVisibility.EVERYONE): NoteDraft => ({ body: "", isEmpty: true, visibility });
+
+/**
+ * Earlier versions of a note, loaded when opened
+ */
+const NoteHistory = ({ noteId }: { noteId: string }) => {
+  const { revisions, isLoading, error } = useNoteHistory(noteId);
+
+  if (error) {
+    return <p className="text-sm text-red-600" role="alert">The history could not be loaded.</p>;
+  }
+  if (isLoading) {
+    return <p className="text-sm text-gray-500" role="status">Loading history…</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l pl-4" aria-label="Note history">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="space-y-1">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Version {revision.version} · {formatDate(revision.created_at, DATE_FORMATS.DISPLAY_TIME)}
+            {revision.editor_name ? ` · ${revision.editor_name}` : ""} · {VISIBILITY_LABELS[revision.visibility]}
+          </p>
+          <div className="prose prose-sm max-w-none dark:prose-invert" dangerouslySetInnerHTML={{ __html: renderNoteBody(revision.body) }} />
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+interface CandidateNotesProps {
+  candidateId: string;
+}
+
+/**
+ * Notes on a candidate, pinned notes first. Notes are private, for the hiring team or
+ * for everyone; authors can edit their notes and every version is kept.
+ */
+const CandidateNotes = ({ candidateId }: CandidateNotesProps) => {
+  const { state } = useAuth();
+  const [search, setSearch] = React.useState("");
+  const [debouncedSearch] = useDebounce(search, 300);
+  const { notes, total, isLoading, error, createNote, updateNote, pinNote, isSaving } = useCandidateNotes(
+    candidateId,
+    debouncedSearch
+  );
+
+  const [draft, setDraft] = React.useState<NoteDraft>(emptyDraft());
+  // A new editor is mounted after saving so the composer starts empty
+  const [composerKey, setComposerKey] = React.useState(0);
+  const [editing, setEditing] = React.useState<{ id: string; draft: NoteDraft } | null>(null);
+  const [historyFor, setHistoryFor] = React.useState<string | null>(null);
+
+  const handleCreate = async () => {
+    try {
+      await createNote({ body: draft.body, visibility: draft.visibility });
+      setDraft(emptyDraft(draft.visibility));
+      setComposerKey((key) => key + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "The note could not be saved.");
+    }
+  };
+
+  const handleUpdate = async (note: CandidateNote) => {
+    if (!editing) return;
+    try {
+      await updateNote(note.id, { body: editing.draft.body, visibility: editing.draft.visibility });
+      setEditing(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "The note could not be saved.");
+    }
+  };
+
+  const handlePin = async (note: CandidateNote) => {
+    try {
+      await pinNote(note.id, !note.pinned_at);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "The note could not be pinned.");
+    }
+  };
+
+  return (
+    <section className="space-y-4" aria-label="Notes">
+      <div className="space-y-2">
+        <NoteEditor
+          key={composerKey}
+          onChange={(body, isEmpty) => setDraft((current) => ({ ...current, body, isEmpty }))}
+          disabled={isSaving}
+        />
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="w-48">
+            <Select
+              id="note-visibility"
+              label="Visible to"
+              size="sm"
+              value={draft.visibility}
+              options={VISIBILITY_OPTIONS}
+              onChange={(value) => setDraft((current) => ({ ...current, visibility: value as NoteVisibility }))}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={draft.isEmpty || isSaving}>
+            {isSaving && !editing ? "Saving…" : "Add note"}
+          </Button>
+        </div>
+      </div>
+
+      <Input
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Search notes"
+        aria-label="Search notes"
+      />
+
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error instanceof Error ? error.message : "The notes could not be loaded."}
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500" role="status">Loading notes…</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-500">{debouncedSearch.trim() ? "No notes match your search." : "No notes yet."}</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{total} notes</p>
+          <ul className="space-y-3">
+            {notes.map((note) => {
+              const isAuthor = note.author_id === state.user?.id;
+              const isEditing = editing?.id === note.id;
+
+              return (
+                <li key={note.id} className="space-y-2 rounded-md border p-3" aria-label={`Note by ${note.author_name ?? "Unknown"}`}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {note.pinned_at && <Badge>Pinned</Badge>}
+                    <Badge variant="outline">{VISIBILITY_LABELS[note.visibility]}</Badge>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {note.author_name ?? "Unknown"} · {formatDate(note.created_at, DATE_FORMATS.DISPLAY_TIME)}
+                      {note.edited_at ? " · edited" : ""}
+                    </span>
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <NoteEditor
+                        content={note.body}
+                        onChange={(body, isEmpty) =>
+                          setEditing((current) => current && { ...current, draft: { ...current.draft, body, isEmpty } })
+                        }
+                        disabled={isSaving}
+                      />
+                      <div className="flex flex-wrap items-end gap-2">
+                        <div className="w-48">
+                          <Select
+                            id={`note-visibility-${note.id}`}
+                            label="Visible to"
+                            size="sm"
+                            value={editing.draft.visibility}
+                            options={VISIBILITY_OPTIONS}
+                            onChange={(value) =>
+                              setEditing((current) =>
+                                current && { ...current, draft: { ...current.draft, visibility: value as NoteVisibility } }
+                              )
+                            }
+                          />
+                        </div>
+                        <Button size="sm" onClick={() => handleUpdate(note)} disabled={editing.draft.isEmpty || isSaving}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div
+                      className="prose prose-sm max-w-none dark:prose-invert"
+                      dangerouslySetInnerHTML={{ __html: renderNoteBody(note.body) }}
+                    />
+                  )}
+
+                  {!isEditing && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handlePin(note)}>
+                        {note.pinned_at ? "Unpin" : "Pin"}
+                      </Button>
+                      {isAuthor && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            setEditing({ id: note.id, draft: { body: note.body, isEmpty: false, visibility: note.visibility } })
+                          }
+                        >
+                          Edit
+                        </Button>
+                      )}
+                      {note.version > 1 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          aria-expanded={historyFor === note.id}
+                          onClick={() => setHistoryFor(historyFor === note.id ? null : note.id)}
+                        >
+                          {historyFor === note.id ? "Hide history" : `History (${note.version} versions)`}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {historyFor === note.id && <NoteHistory noteId={note.id} />}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CandidateNotes;
@@ -0,0 +1,105 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import { useTags } from "../../lib/hooks/useTags";
+import type { BulkTagRequest } from "../../types/tags";
+
+interface CandidateTagActionsProps {
+  candidateIds: string[];
+  // Called once the selected candidates have been tagged or untagged
+  onDone?: () => void;
+}
+
+/**
+ * Bar for tagging and untagging the selected candidates. Typing the name of a tag
+ * that does not exist yet adds it as a free-form tag.
+ */
+const CandidateTagActions = ({ candidateIds, onDone }: CandidateTagActionsProps) => {
+  const { tags, bulkTag, isSaving } = useTags();
+  const [tagName, setTagName] = React.useState("");
+  const [removeTagId, setRemoveTagId] = React.useState("");
+
+  const apply = async (request: Omit<BulkTagRequest, "candidate_ids">, done: string) => {
+    try {
+      await bulkTag({ candidate_ids: candidateIds, ...request });
+      toast.success(done);
+      onDone?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Tags could not be updated");
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = tagName.trim();
+    if (!name) return;
+
+    const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    await apply(
+      existing ? { add_tag_ids: [existing.id] } : { add_tag_names: [name] },
+      `Tagged ${candidateIds.length} candidate${candidateIds.length === 1 ? "" : "s"} "${existing?.name ?? name}"`
+    );
+    setTagName("");
+  };
+
+  const handleRemove = async () => {
+    const tag = tags.find((candidate) => candidate.id === removeTagId);
+    if (!tag) return;
+
+    await apply(
+      { remove_tag_ids: [tag.id] },
+      `Removed "${tag.name}" from ${candidateIds.length} candidate${candidateIds.length === 1 ? "" : "s"}`
+    );
+    setRemoveTagId("");
+  };
+
+  return (
+    <div
+      className="flex flex-wrap items-end gap-3 rounded-lg border bg-muted/40 p-3"
+      role="region"
+      aria-label="Tag selected candidates"
+    >
+      <span className="text-sm font-medium">{candidateIds.length} selected</span>
+
+      <form className="flex items-center gap-2" onSubmit={handleAdd}>
+        <Input
+          aria-label="Tag to add"
+          placeholder="Add a tag…"
+          list="candidate-tag-names"
+          value={tagName}
+          maxLength={50}
+          onChange={(event) => setTagName(event.target.value)}
+          disabled={isSaving}
+        />
+        <datalist id="candidate-tag-names">
+          {tags.map((tag) => (
+            <option key={tag.id} value={tag.name} />
+          ))}
+        </datalist>
+        <Button type="submit" size="sm" disabled={isSaving || !tagName.trim()}>
+          Add tag
+        </Button>
+      </form>
+
+      <div className="flex items-center gap-2">
+        <Select
+          id="remove-tag"
+          size="sm"
+          placeholder="Tag to remove"
+          aria-label="Tag to remove"
+          value={removeTagId}
+          options={tags.map((tag) => ({ value: tag.id, label: tag.name }))}
+          onChange={setRemoveTagId}
+          disabled={isSaving || tags.length === 0}
+        />
+        <Button type="button" size="sm" variant="outline" onClick={handleRemove} disabled={isSaving || !removeTagId}>
+          Remove tag
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateTagActions;
@@ -0,0 +1,115 @@
+import * as React from "react"; // ^18.0.0
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { useCandidateTimeline } from "../../lib/hooks/useCandidateTimeline";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import { TimelineEventType } from "../../types/timeline";
+import type { TimelineEvent } from "../../types/timeline";
+
+const TYPE_LABELS: Record<TimelineEventType, string> = {
+  [TimelineEventType.APPLICATION]: "Applications",
+  [TimelineEventType.STAGE_CHANGE]: "Stage changes",
+  [TimelineEventType.INTERVIEW]: "Interviews",
+  [TimelineEventType.FEEDBACK]: "Feedback",
+  [TimelineEventType.EMAIL]: "Emails",
+  [TimelineEventType.HOTLIST]: "Hotlists",
+  [TimelineEventType.RESUME]: "Resumes",
+  [TimelineEventType.PROFILE]: "Profile edits",
+  [TimelineEventType.NOTE]: "Notes",
+};
+
+/**
+ * Timeline entries grouped by the day they happened, keeping their order
+ */
+export const groupTimelineByDay = (events: TimelineEvent[]) =>
+  events.reduce<Array<{ day: string; events: TimelineEvent[] }>>((groups, event) => {
+    const day = formatDate(event.occurred_at);
+    const last = groups[groups.length - 1];
+    if (last?.day === day) {
+      last.events.push(event);
+    } else {
+      groups.push({ day, events: [event] });
+    }
+    return groups;
+  }, []);
+
+interface CandidateTimelineProps {
+  candidateId: string;
+}
+
+/**
+ * Everything that happened with a candidate in one stream, newest first: applications
+ * and stage changes, interviews and feedback, emails, hotlists, resumes, profile edits
+ * and notes. Activity can be narrowed down by kind.
+ */
+const CandidateTimeline = ({ candidateId }: CandidateTimelineProps) => {
+  const [types, setTypes] = React.useState<TimelineEventType[]>([]);
+  const { events, total, isLoading, error, loadMore, hasMore, isLoadingMore } = useCandidateTimeline(candidateId, types);
+
+  const toggleType = (type: TimelineEventType) =>
+    setTypes((current) =>
+      current.includes(type) ? current.filter((selected) => selected !== type) : [...current, type]
+    );
+
+  return (
+    <section className="space-y-4" aria-label="Activity timeline">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Filter activity">
+        <Button size="sm" variant={types.length === 0 ? "default" : "outline"} onClick={() => setTypes([])}>
+          All activity
+        </Button>
+        {Object.values(TimelineEventType).map((type) => (
+          <Button
+            key={type}
+            size="sm"
+            variant={types.includes(type) ? "default" : "outline"}
+            aria-pressed={types.includes(type)}
+            onClick={() => toggleType(type)}
+          >
+            {TYPE_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error instanceof Error ? error.message : "The timeline could not be loaded."}
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500" role="status">Loading activity…</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity yet.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{total} entries</p>
+          {groupTimelineByDay(events).map(({ day, events: dayEvents }) => (
+            <div key={day} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">{day}</h3>
+              <ol className="space-y-2 border-l pl-4">
+                {dayEvents.map((event) => (
+                  <li key={`${event.type}-${event.id}`} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{TYPE_LABELS[event.type]}</Badge>
+                      <span className="text-sm">{event.summary}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(event.occurred_at, DATE_FORMATS.DISPLAY_TIME)}
+                      {event.actor_name ? ` · ${event.actor_name}` : ""}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+          {hasMore && (
+            <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
+              {isLoadingMore ? "Loading…" : "Show older activity"}
+            </Button>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CandidateTimeline;
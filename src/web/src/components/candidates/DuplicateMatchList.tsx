@@ -0,0 +1,69 @@
+import * as React from "react"; // ^18.0.0
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { DuplicateMatchReason } from "../../types/candidates";
+import type { DuplicateCandidateMatch } from "../../types/candidates";
+
+interface DuplicateMatchListProps {
+  matches: DuplicateCandidateMatch[];
+  // Optional per-match action, e.g. merging the match
+  actionLabel?: string;
+  onAction?: (match: DuplicateCandidateMatch) => void;
+  disabled?: boolean;
+}
+
+const REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  [DuplicateMatchReason.EMAIL]: "Same email",
+  [DuplicateMatchReason.PHONE]: "Same phone",
+  [DuplicateMatchReason.NAME]: "Similar name",
+  [DuplicateMatchReason.RESUME]: "Same resume",
+};
+
+/**
+ * Likely duplicate candidates with their match score and the signals that matched
+ */
+const DuplicateMatchList: React.FC<DuplicateMatchListProps> = ({
+  matches,
+  actionLabel,
+  onAction,
+  disabled,
+}) => (
+  <ul className="divide-y rounded-md border" role="list">
+    {matches.map((match) => (
+      <li key={match.candidate_id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+        <div className="space-y-1">
+          <a href={`/candidates/${match.candidate_id}`} className="font-medium hover:underline">
+            {match.full_name}
+          </a>
+          <p className="text-sm text-gray-500">
+            {[match.email, match.phone].filter(Boolean).join(" · ")}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {match.reasons.map((reason) => (
+              <Badge key={reason} variant="outline">
+                {REASON_LABELS[reason]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-semibold">{Math.round(match.score * 100)}% match</span>
+          {onAction && actionLabel && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onAction(match)}
+              disabled={disabled}
+              aria-label={`${actionLabel} ${match.full_name}`}
+            >
+              {actionLabel}
+            </Button>
+          )}
+        </div>
+      </li>
+    ))}
+  </ul>
+);
+
+export default DuplicateMatchList;
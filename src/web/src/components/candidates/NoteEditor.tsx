@@ -0,0 +1,187 @@
+import * as React from "react"; // ^18.0.0
+import { EditorContent, useEditor } from "@tiptap/react"; // ^2.0.0
+import StarterKit from "@tiptap/starter-kit"; // ^2.0.0
+import Mention from "@tiptap/extension-mention"; // ^2.0.0
+import type { SuggestionKeyDownProps, SuggestionProps } from "@tiptap/suggestion"; // ^2.0.0
+import { Button } from "../ui/button";
+import { useStaff } from "../../lib/hooks/useDepartments";
+import type { StaffMember } from "../../types/departments";
+
+// Most people suggested while typing a mention
+const MAX_MENTION_SUGGESTIONS = 6;
+
+/**
+ * Staff whose name or email starts a word with the typed text
+ */
+export const filterMentionSuggestions = (staff: StaffMember[], query: string) => {
+  const typed = query.trim().toLowerCase();
+  return staff
+    .filter(
+      (member) =>
+        !typed ||
+        member.full_name.toLowerCase().split(/\s+/).some((word) => word.startsWith(typed)) ||
+        member.email.toLowerCase().startsWith(typed)
+    )
+    .slice(0, MAX_MENTION_SUGGESTIONS);
+};
+
+interface MentionSuggestionState {
+  items: StaffMember[];
+  // Inserts a mention of the chosen person in place of the typed text
+  command: (attrs: { id: string; label: string }) => void;
+}
+
+interface NoteEditorProps {
+  // Initial HTML; the editor is not controlled afterwards
+  content?: string;
+  onChange: (html: string, isEmpty: boolean) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Rich text editor for notes. Typing @ suggests staff to mention; mentioned people are
+ * notified when the note is saved.
+ */
+const NoteEditor = ({ content = "", onChange, placeholder = "Write a note… Type @ to mention someone", disabled = false }: NoteEditorProps) => {
+  const { staff } = useStaff();
+  const [suggestion, setSuggestion] = React.useState<MentionSuggestionState | null>(null);
+  const [highlighted, setHighlighted] = React.useState(0);
+
+  // The editor is configured once, so its suggestion callbacks read the latest values through refs
+  const staffRef = React.useRef(staff);
+  const suggestionRef = React.useRef(suggestion);
+  const highlightedRef = React.useRef(highlighted);
+  staffRef.current = staff;
+  suggestionRef.current = suggestion;
+  highlightedRef.current = highlighted;
+
+  const selectSuggestion = (member: StaffMember) => {
+    suggestionRef.current?.command({ id: member.id, label: member.full_name });
+  };
+
+  const editor = useEditor({
+    extensions: [
+      StarterKit.configure({ heading: false, horizontalRule: false }),
+      Mention.configure({
+        HTMLAttributes: { class: "mention" },
+        renderLabel: ({ node }) => `@${node.attrs.label ?? node.attrs.id}`,
+        suggestion: {
+          items: ({ query }) => filterMentionSuggestions(staffRef.current, query),
+          render: () => ({
+            onStart: (props: SuggestionProps) => {
+              setHighlighted(0);
+              setSuggestion({ items: props.items, command: props.command });
+            },
+            onUpdate: (props: SuggestionProps) => {
+              setHighlighted(0);
+              setSuggestion({ items: props.items, command: props.command });
+            },
+            onKeyDown: ({ event }: SuggestionKeyDownProps) => {
+              const items = suggestionRef.current?.items ?? [];
+              if (event.key === "Escape") {
+                setSuggestion(null);
+                return true;
+              }
+              if (items.length === 0) return false;
+              if (event.key === "ArrowDown") {
+                setHighlighted((highlightedRef.current + 1) % items.length);
+                return true;
+              }
+              if (event.key === "ArrowUp") {
+                setHighlighted((highlightedRef.current + items.length - 1) % items.length);
+                return true;
+              }
+              if (event.key === "Enter") {
+                selectSuggestion(items[highlightedRef.current] ?? items[0]);
+                return true;
+              }
+              return false;
+            },
+            onExit: () => setSuggestion(null),
+          }),
+        },
+      }),
+    ],
+    content,
+    editable: !disabled,
+    editorProps: {
+      attributes: {
+        class: "prose prose-sm min-h-[6rem] max-w-none rounded-md border px-3 py-2 focus:outline-none dark:prose-invert",
+        "aria-label": placeholder,
+        "aria-multiline": "true",
+        role: "textbox",
+      },
+    },
+    onUpdate: ({ editor: current }) => onChange(current.getHTML(), current.isEmpty),
+  });
+
+  React.useEffect(() => {
+    editor?.setEditable(!disabled);
+  }, [editor, disabled]);
+
+  return (
+    <div className="relative space-y-1">
+      <div className="flex gap-1" role="toolbar" aria-label="Formatting">
+        <Button
+          type="button"
+          size="sm"
+          variant={editor?.isActive("bold") ? "default" : "outline"}
+          onClick={() => editor?.chain().focus().toggleBold().run()}
+          disabled={disabled}
+          aria-label="Bold"
+        >
+          B
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={editor?.isActive("italic") ? "default" : "outline"}
+          onClick={() => editor?.chain().focus().toggleItalic().run()}
+          disabled={disabled}
+          aria-label="Italic"
+        >
+          I
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={editor?.isActive("bulletList") ? "default" : "outline"}
+          onClick={() => editor?.chain().focus().toggleBulletList().run()}
+          disabled={disabled}
+          aria-label="Bulleted list"
+        >
+          •
+        </Button>
+      </div>
+
+      <EditorContent editor={editor} />
+
+      {suggestion && suggestion.items.length > 0 && (
+        <ul
+          className="absolute z-10 mt-1 w-64 rounded-md border bg-white py-1 shadow-md dark:bg-gray-900"
+          role="listbox"
+          aria-label="People to mention"
+        >
+          {suggestion.items.map((member, index) => (
+            <li
+              key={member.id}
+              role="option"
+              aria-selected={index === highlighted}
+              className={`cursor-pointer px-3 py-1 text-sm ${index === highlighted ? "bg-gray-100 dark:bg-gray-800" : ""}`}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                selectSuggestion(member);
+              }}
+            >
+              <span className="font-medium">{member.full_name}</span>
+              <span className="ml-2 text-xs text-gray-500">{member.email}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NoteEditor;
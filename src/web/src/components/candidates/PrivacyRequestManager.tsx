@@ -0,0 +1,398 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import Pagination from "../common/Pagination";
+import { ConfirmDialog } from "../common/ConfirmDialog";
+import { saveFile } from "./CandidateImportWizard";
+import { usePrivacyRequests } from "../../lib/hooks/usePrivacyRequests";
+import { formatDate } from "../../lib/utils";
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  PrivacyRegulation,
+  type DataSubjectRequestInput,
+  type DataSubjectRequestSummary,
+} from "../../types/privacy";
+
+const PAGE_SIZE = 25;
+
+const TYPE_LABELS: Record<DataSubjectRequestType, string> = {
+  [DataSubjectRequestType.ACCESS]: "Access",
+  [DataSubjectRequestType.ERASURE]: "Erasure",
+};
+
+const STATUS_LABELS: Record<DataSubjectRequestStatus, string> = {
+  [DataSubjectRequestStatus.OPEN]: "Open",
+  [DataSubjectRequestStatus.COMPLETED]: "Completed",
+  [DataSubjectRequestStatus.REJECTED]: "Rejected",
+};
+
+interface RequestDraft {
+  type: DataSubjectRequestType;
+  regulation: PrivacyRegulation;
+  subject_email: string;
+  candidate_id: string;
+  received_at: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: RequestDraft = {
+  type: DataSubjectRequestType.ACCESS,
+  regulation: PrivacyRegulation.GDPR,
+  subject_email: "",
+  candidate_id: "",
+  received_at: "",
+  notes: "",
+};
+
+const fromDraft = (draft: RequestDraft): DataSubjectRequestInput => ({
+  type: draft.type,
+  regulation: draft.regulation,
+  subject_email: draft.subject_email.trim() || undefined,
+  candidate_id: draft.candidate_id.trim() || undefined,
+  received_at: draft.received_at || undefined,
+  notes: draft.notes.trim() || undefined,
+});
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Who the request is about: the linked candidate, else the email it came from
+const subjectLabel = (request: DataSubjectRequestSummary) =>
+  request.candidate_name ?? request.subject_email ?? "Erased candidate";
+
+// One-line summary of what answering the request did
+const outcomeLabel = (request: DataSubjectRequestSummary) => {
+  if (request.status === DataSubjectRequestStatus.REJECTED) {
+    return `Rejected: ${request.rejection_reason}`;
+  }
+  if (!request.evidence) return "";
+  const records = Object.values(request.evidence.records).reduce((sum, count) => sum + count, 0);
+  const files =
+    request.type === DataSubjectRequestType.ACCESS ? request.evidence.files : request.evidence.files_to_purge;
+  return `${request.type === DataSubjectRequestType.ACCESS ? "Exported" : "Erased"} ${records} record${
+    records === 1 ? "" : "s"
+  } and ${files ?? 0} file${files === 1 ? "" : "s"}`;
+};
+
+/**
+ * Admin screen for GDPR and CCPA data subject requests: logs requests with their
+ * deadline, links them to a candidate, and answers them by exporting or erasing the
+ * candidate's data, or declines them
+ */
+const PrivacyRequestManager = () => {
+  const [status, setStatus] = React.useState<DataSubjectRequestStatus | "">(DataSubjectRequestStatus.OPEN);
+  const [overdueOnly, setOverdueOnly] = React.useState(false);
+  const [page, setPage] = React.useState(1);
+  const {
+    requests,
+    totalPages,
+    isLoading,
+    error,
+    createRequest,
+    updateRequest,
+    rejectRequest,
+    exportRequest,
+    eraseRequest,
+    isSaving,
+  } = usePrivacyRequests({
+    status: status || undefined,
+    overdue: overdueOnly ? true : undefined,
+    page,
+    limit: PAGE_SIZE,
+  });
+  const [draft, setDraft] = React.useState<RequestDraft>(EMPTY_DRAFT);
+  const [linking, setLinking] = React.useState<{ id: string; candidateId: string } | null>(null);
+  const [rejecting, setRejecting] = React.useState<{ id: string; reason: string } | null>(null);
+  const [erasing, setErasing] = React.useState<DataSubjectRequestSummary | null>(null);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const request = await createRequest(fromDraft(draft));
+      toast.success(`Request logged, due ${formatDate(request.due_at)}`);
+      setDraft(EMPTY_DRAFT);
+    } catch (err) {
+      toast.error(errorMessage(err, "The request could not be logged"));
+    }
+  };
+
+  const handleLink = async () => {
+    if (!linking) return;
+    try {
+      await updateRequest(linking.id, { candidate_id: linking.candidateId.trim() });
+      toast.success("Request linked to the candidate");
+      setLinking(null);
+    } catch (err) {
+      toast.error(errorMessage(err, "The request could not be linked"));
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    try {
+      await rejectRequest(rejecting.id, rejecting.reason.trim());
+      toast.success("Request rejected");
+      setRejecting(null);
+    } catch (err) {
+      toast.error(errorMessage(err, "The request could not be rejected"));
+    }
+  };
+
+  const handleExport = async (request: DataSubjectRequestSummary) => {
+    try {
+      saveFile(await exportRequest(request.id), `personal-data-${request.id}.zip`);
+      toast.success("Personal data exported");
+    } catch (err) {
+      toast.error(errorMessage(err, "The personal data could not be exported"));
+    }
+  };
+
+  const handleErase = async () => {
+    if (!erasing) return;
+    try {
+      await eraseRequest(erasing.id);
+      toast.success("Personal data erased");
+    } catch (err) {
+      toast.error(errorMessage(err, "The personal data could not be erased"));
+    } finally {
+      setErasing(null);
+    }
+  };
+
+  const renderActions = (request: DataSubjectRequestSummary) => {
+    if (request.status !== DataSubjectRequestStatus.OPEN) {
+      return <span className="text-xs text-gray-500">{outcomeLabel(request)}</span>;
+    }
+    if (linking?.id === request.id) {
+      return (
+        <div className="flex items-center justify-end gap-2">
+          <Input
+            aria-label="Candidate ID"
+            placeholder="Candidate ID"
+            value={linking.candidateId}
+            onChange={(event) => setLinking({ id: request.id, candidateId: event.target.value })}
+            disabled={isSaving}
+          />
+          <Button size="sm" onClick={handleLink} disabled={isSaving || !linking.candidateId.trim()}>
+            Link
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setLinking(null)}>
+            Cancel
+          </Button>
+        </div>
+      );
+    }
+    if (rejecting?.id === request.id) {
+      return (
+        <div className="flex items-center justify-end gap-2">
+          <Input
+            aria-label="Rejection reason"
+            placeholder="Reason"
+            value={rejecting.reason}
+            maxLength={2000}
+            onChange={(event) => setRejecting({ id: request.id, reason: event.target.value })}
+            disabled={isSaving}
+          />
+          <Button size="sm" onClick={handleReject} disabled={isSaving || !rejecting.reason.trim()}>
+            Reject
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setRejecting(null)}>
+            Cancel
+          </Button>
+        </div>
+      );
+    }
+    return (
+      <div className="space-x-2">
+        {!request.candidate_id ? (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setLinking({ id: request.id, candidateId: "" })}
+            aria-label={`Link request from ${subjectLabel(request)}`}
+          >
+            Link candidate
+          </Button>
+        ) : request.type === DataSubjectRequestType.ACCESS ? (
+          <Button
+            size="sm"
+            onClick={() => handleExport(request)}
+            disabled={isSaving}
+            aria-label={`Export data of ${subjectLabel(request)}`}
+          >
+            Export
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => setErasing(request)}
+            disabled={isSaving}
+            aria-label={`Erase data of ${subjectLabel(request)}`}
+          >
+            Erase
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setRejecting({ id: request.id, reason: "" })}
+          aria-label={`Reject request from ${subjectLabel(request)}`}
+        >
+          Reject
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="flex flex-wrap items-center gap-2" onSubmit={handleCreate} aria-label="New request">
+        <Select
+          id="request-type"
+          aria-label="Request type"
+          value={draft.type}
+          options={Object.values(DataSubjectRequestType).map((type) => ({ value: type, label: TYPE_LABELS[type] }))}
+          onChange={(type) => setDraft({ ...draft, type: type as DataSubjectRequestType })}
+          disabled={isSaving}
+        />
+        <Select
+          id="request-regulation"
+          aria-label="Regulation"
+          value={draft.regulation}
+          options={Object.values(PrivacyRegulation).map((regulation) => ({ value: regulation, label: regulation }))}
+          onChange={(regulation) => setDraft({ ...draft, regulation: regulation as PrivacyRegulation })}
+          disabled={isSaving}
+        />
+        <Input
+          type="email"
+          aria-label="Requester email"
+          placeholder="Requester email"
+          value={draft.subject_email}
+          onChange={(event) => setDraft({ ...draft, subject_email: event.target.value })}
+          disabled={isSaving}
+        />
+        <Input
+          aria-label="Candidate ID"
+          placeholder="Candidate ID (optional)"
+          value={draft.candidate_id}
+          onChange={(event) => setDraft({ ...draft, candidate_id: event.target.value })}
+          disabled={isSaving}
+        />
+        <Input
+          type="date"
+          aria-label="Received on"
+          value={draft.received_at}
+          onChange={(event) => setDraft({ ...draft, received_at: event.target.value })}
+          disabled={isSaving}
+        />
+        <Input
+          aria-label="Notes"
+          placeholder="Notes"
+          value={draft.notes}
+          maxLength={2000}
+          onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+          disabled={isSaving}
+        />
+        <Button type="submit" disabled={isSaving || (!draft.subject_email.trim() && !draft.candidate_id.trim())}>
+          Log request
+        </Button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Select
+          id="request-status-filter"
+          size="sm"
+          aria-label="Status"
+          placeholder="All statuses"
+          value={status}
+          options={Object.values(DataSubjectRequestStatus).map((value) => ({ value, label: STATUS_LABELS[value] }))}
+          onChange={(value) => {
+            setStatus(value as DataSubjectRequestStatus);
+            setPage(1);
+          }}
+        />
+        <label htmlFor="overdue-only" className="flex items-center gap-1 text-sm">
+          <input
+            id="overdue-only"
+            type="checkbox"
+            checked={overdueOnly}
+            onChange={(event) => {
+              setOverdueOnly(event.target.checked);
+              setPage(1);
+            }}
+          />
+          Overdue only
+        </label>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {errorMessage(error, "Requests could not be loaded")}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading requests…</p>
+      ) : requests.length === 0 ? (
+        <p className="text-sm text-gray-500">No requests</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2">Received</th>
+              <th className="py-2">Request</th>
+              <th className="py-2">Subject</th>
+              <th className="py-2">Due</th>
+              <th className="py-2">Status</th>
+              <th className="py-2">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {requests.map((request) => (
+              <tr key={request.id} className="border-b">
+                <td className="py-2">{formatDate(request.received_at)}</td>
+                <td className="py-2">
+                  {TYPE_LABELS[request.type]} ({request.regulation})
+                </td>
+                <td className="py-2">
+                  {subjectLabel(request)}
+                  {!request.candidate_id && request.status === DataSubjectRequestStatus.OPEN && (
+                    <span className="ml-2 text-xs text-gray-500">No candidate linked</span>
+                  )}
+                </td>
+                <td className={request.overdue ? "py-2 font-medium text-destructive" : "py-2"}>
+                  {formatDate(request.due_at)}
+                  {request.overdue && <span className="ml-2 text-xs">Overdue</span>}
+                </td>
+                <td className="py-2">{STATUS_LABELS[request.status]}</td>
+                <td className="py-2 text-right">{renderActions(request)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totalPages > 1 && (
+        <Pagination currentPage={page} totalPages={totalPages} limit={PAGE_SIZE} onPageChange={setPage} />
+      )}
+
+      <ConfirmDialog
+        open={!!erasing}
+        onOpenChange={(open) => !open && setErasing(null)}
+        title="Erase personal data"
+        description={`${erasing ? subjectLabel(erasing) : ""} will be anonymized across their profile, applications, interviews and notes, and their resumes deleted. Hiring metrics are kept. This cannot be undone.`}
+        confirmText="Erase"
+        variant="destructive"
+        onConfirm={handleErase}
+        isLoading={isSaving}
+      />
+    </div>
+  );
+};
+
+export default PrivacyRequestManager;
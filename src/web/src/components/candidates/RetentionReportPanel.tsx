@@ -0,0 +1,116 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Pagination from "../common/Pagination";
+import { useRetentionRuns } from "../../lib/hooks/useConsents";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import { RetentionReason, type RetentionRun } from "../../types/privacy";
+
+const REASON_LABELS: Record<RetentionReason, string> = {
+  [RetentionReason.CONSENT_EXPIRED]: "no consent in force",
+  [RetentionReason.RETENTION_EXPIRED]: "retention period over",
+};
+
+const RUNS_PER_PAGE = 10;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * What one run did, or in a dry run would have done
+ */
+const RunReport = ({ run }: { run: RetentionRun }) => {
+  const { report } = run;
+  const verb = run.dry_run ? "Would" : "Did";
+
+  return (
+    <li className="space-y-2 rounded-md border p-3" aria-label={`Retention run ${formatDate(run.started_at, DATE_FORMATS.DISPLAY_DATETIME)}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{formatDate(run.started_at, DATE_FORMATS.DISPLAY_DATETIME)}</span>
+        <Badge variant={run.dry_run ? "outline" : "default"}>{run.dry_run ? "Dry run" : "Applied"}</Badge>
+        {!run.triggered_by && <Badge variant="secondary">Scheduled</Badge>}
+        {report.failed.length > 0 && <Badge variant="destructive">{plural(report.failed.length, "failure")}</Badge>}
+      </div>
+      <ul className="list-disc pl-5 text-sm">
+        <li>
+          {verb} request {plural(report.renewal_requests.length, "consent renewal")}
+        </li>
+        <li>
+          {verb} anonymize {plural(report.anonymized.length, "candidate")}
+          {report.anonymized.length > 0 &&
+            ` (${Object.values(RetentionReason)
+              .map((reason) => [reason, report.anonymized.filter((entry) => entry.reason === reason).length] as const)
+              .filter(([, count]) => count > 0)
+              .map(([reason, count]) => `${count} ${REASON_LABELS[reason]}`)
+              .join(", ")})`}
+        </li>
+        <li>
+          {verb} delete {plural(report.resumes_deleted.length, "expired resume")}
+        </li>
+        <li>Kept {plural(report.held.length, "candidate")} under a legal hold</li>
+      </ul>
+      {report.failed.length > 0 && (
+        <ul className="text-sm text-red-600" aria-label="Failures">
+          {report.failed.map((failure) => (
+            <li key={`${failure.step}-${failure.candidate_id}`}>
+              {failure.step}
+              {failure.candidate_id && ` for candidate ${failure.candidate_id}`}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Reports of the retention runs, with a dry run admins can start to see what the next
+ * run would erase before it happens
+ */
+const RetentionReportPanel = () => {
+  const [page, setPage] = React.useState(1);
+  const { runs, totalPages, isLoading, error, previewRetention, isPreviewing } = useRetentionRuns(page, RUNS_PER_PAGE);
+
+  const handlePreview = async () => {
+    try {
+      await previewRetention();
+      setPage(1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "The dry run could not be started.");
+    }
+  };
+
+  return (
+    <section className="space-y-4" aria-label="Retention">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Retention</h2>
+        <Button variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+          {isPreviewing ? "Running…" : "Dry run"}
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error instanceof Error ? error.message : "The retention runs could not be loaded."}
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500" role="status">Loading retention runs…</p>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-gray-500">No retention runs yet.</p>
+      ) : (
+        <>
+          <ul className="space-y-3">
+            {runs.map((run) => (
+              <RunReport key={run.id} run={run} />
+            ))}
+          </ul>
+          {totalPages > 1 && <Pagination currentPage={page} totalPages={totalPages} limit={RUNS_PER_PAGE} onPageChange={setPage} />}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default RetentionReportPanel;
@@ -0,0 +1,24 @@
+import * as React from "react" // ^18.0.0
+import { Badge } from "../ui/badge"
+import { cn } from "../../lib/utils"
+import type { Tag } from "../../types/tags"
+
+interface TagBadgeProps {
+  tag: Pick<Tag, "name" | "color" | "category">
+  className?: string
+}
+
+// Tag shown in its own colour, with its category as the tooltip
+const TagBadge: React.FC<TagBadgeProps> = ({ tag, className }) => (
+  <Badge
+    variant="outline"
+    className={cn("gap-1 text-xs", className)}
+    style={{ borderColor: tag.color, color: tag.color }}
+    title={tag.category ? `${tag.category}: ${tag.name}` : tag.name}
+  >
+    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} aria-hidden="true" />
+    {tag.name}
+  </Badge>
+)
+
+export default TagBadge
@@ -0,0 +1,300 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import { ConfirmDialog } from "../common/ConfirmDialog";
+import TagBadge from "./TagBadge";
+import { useTags } from "../../lib/hooks/useTags";
+import type { TagInput, TagWithUsage } from "../../types/tags";
+
+// Colour preselected for new tags
+const DEFAULT_TAG_COLOR = "#6b7280";
+
+type TagDraft = Required<Pick<TagInput, "name" | "color" | "is_curated">> & { category: string };
+
+const toDraft = (tag?: TagWithUsage): TagDraft => ({
+  name: tag?.name ?? "",
+  color: tag?.color ?? DEFAULT_TAG_COLOR,
+  category: tag?.category ?? "",
+  is_curated: tag?.is_curated ?? true,
+});
+
+const fromDraft = (draft: TagDraft): TagInput => ({
+  name: draft.name.trim(),
+  color: draft.color,
+  category: draft.category.trim() || null,
+  is_curated: draft.is_curated,
+});
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+interface TagFieldsProps {
+  draft: TagDraft;
+  onChange: (draft: TagDraft) => void;
+  disabled: boolean;
+  idPrefix: string;
+}
+
+// Name, colour, category and curated fields shared by the new tag form and row editing
+const TagFields = ({ draft, onChange, disabled, idPrefix }: TagFieldsProps) => (
+  <>
+    <Input
+      aria-label="Tag name"
+      placeholder="Name"
+      value={draft.name}
+      maxLength={50}
+      onChange={(event) => onChange({ ...draft, name: event.target.value })}
+      disabled={disabled}
+    />
+    <input
+      type="color"
+      aria-label="Tag colour"
+      className="h-10 w-12 rounded border"
+      value={draft.color}
+      onChange={(event) => onChange({ ...draft, color: event.target.value })}
+      disabled={disabled}
+    />
+    <Input
+      aria-label="Tag category"
+      placeholder="Category"
+      value={draft.category}
+      maxLength={50}
+      onChange={(event) => onChange({ ...draft, category: event.target.value })}
+      disabled={disabled}
+    />
+    <label htmlFor={`${idPrefix}-curated`} className="flex items-center gap-1 text-sm">
+      <input
+        id={`${idPrefix}-curated`}
+        type="checkbox"
+        checked={draft.is_curated}
+        onChange={(event) => onChange({ ...draft, is_curated: event.target.checked })}
+        disabled={disabled}
+      />
+      Curated
+    </label>
+  </>
+);
+
+/**
+ * Admin screen for candidate tags: curates the tag set and renames, recolours, merges
+ * and deletes tags across all candidates
+ */
+const TagManager = () => {
+  const { tags, isLoading, error, createTag, updateTag, mergeTags, deleteTag, isSaving } = useTags();
+  const [newTag, setNewTag] = React.useState<TagDraft>(toDraft());
+  const [editing, setEditing] = React.useState<{ id: string; draft: TagDraft } | null>(null);
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = React.useState("");
+  const [isMergeOpen, setIsMergeOpen] = React.useState(false);
+  const [deleting, setDeleting] = React.useState<TagWithUsage | null>(null);
+
+  const mergeTarget = tags.find((tag) => tag.id === mergeTargetId);
+  const mergeSources = selectedIds.filter((id) => id !== mergeTargetId);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]));
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const tag = await createTag(fromDraft(newTag));
+      toast.success(`Added "${tag.name}"`);
+      setNewTag(toDraft());
+    } catch (err) {
+      toast.error(errorMessage(err, "The tag could not be added"));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await updateTag(editing.id, fromDraft(editing.draft));
+      toast.success("Tag saved");
+      setEditing(null);
+    } catch (err) {
+      toast.error(errorMessage(err, "The tag could not be saved"));
+    }
+  };
+
+  const handleMerge = async () => {
+    try {
+      const result = await mergeTags(mergeSources, mergeTargetId);
+      toast.success(
+        `Merged ${mergeSources.length} tag${mergeSources.length === 1 ? "" : "s"} into "${result.tag.name}"`
+      );
+      setSelectedIds([]);
+      setMergeTargetId("");
+    } catch (err) {
+      toast.error(errorMessage(err, "The tags could not be merged"));
+    } finally {
+      setIsMergeOpen(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteTag(deleting.id);
+      toast.success(`Deleted "${deleting.name}"`);
+      setSelectedIds((ids) => ids.filter((id) => id !== deleting.id));
+    } catch (err) {
+      toast.error(errorMessage(err, "The tag could not be deleted"));
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="flex flex-wrap items-center gap-2" onSubmit={handleCreate} aria-label="New tag">
+        <TagFields draft={newTag} onChange={setNewTag} disabled={isSaving} idPrefix="new-tag" />
+        <Button type="submit" disabled={isSaving || !newTag.name.trim()}>
+          Add tag
+        </Button>
+      </form>
+
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 p-3">
+          <span className="text-sm font-medium">{selectedIds.length} selected</span>
+          <Select
+            id="merge-target"
+            size="sm"
+            placeholder="Merge into…"
+            aria-label="Tag to merge into"
+            value={mergeTargetId}
+            options={tags.map((tag) => ({ value: tag.id, label: tag.name }))}
+            onChange={setMergeTargetId}
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => setIsMergeOpen(true)}
+            disabled={isSaving || !mergeTarget || mergeSources.length === 0}
+          >
+            Merge
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {errorMessage(error, "Tags could not be loaded")}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading tags…</p>
+      ) : tags.length === 0 ? (
+        <p className="text-sm text-gray-500">No tags yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="w-8 py-2">
+                <span className="sr-only">Select</span>
+              </th>
+              <th className="py-2">Tag</th>
+              <th className="py-2">Category</th>
+              <th className="py-2">Candidates</th>
+              <th className="py-2">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {tags.map((tag) =>
+              editing?.id === tag.id ? (
+                <tr key={tag.id} className="border-b">
+                  <td />
+                  <td colSpan={3} className="py-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <TagFields
+                        draft={editing.draft}
+                        onChange={(draft) => setEditing({ id: tag.id, draft })}
+                        disabled={isSaving}
+                        idPrefix={`tag-${tag.id}`}
+                      />
+                    </div>
+                  </td>
+                  <td className="space-x-2 py-2 text-right">
+                    <Button size="sm" onClick={handleSave} disabled={isSaving || !editing.draft.name.trim()}>
+                      Save
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={tag.id} className="border-b">
+                  <td className="py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(tag.id)}
+                      onChange={() => toggleSelected(tag.id)}
+                      aria-label={`Select ${tag.name}`}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <TagBadge tag={tag} />
+                    {tag.is_curated && <span className="ml-2 text-xs text-gray-500">Curated</span>}
+                  </td>
+                  <td className="py-2">{tag.category ?? "—"}</td>
+                  <td className="py-2">{tag.candidate_count}</td>
+                  <td className="space-x-2 py-2 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setEditing({ id: tag.id, draft: toDraft(tag) })}
+                      aria-label={`Edit ${tag.name}`}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setDeleting(tag)}
+                      aria-label={`Delete ${tag.name}`}
+                    >
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+      )}
+
+      <ConfirmDialog
+        open={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        title="Merge tags"
+        description={`Candidates tagged ${tags
+          .filter((tag) => mergeSources.includes(tag.id))
+          .map((tag) => `"${tag.name}"`)
+          .join(", ")} will be tagged "${mergeTarget?.name ?? ""}" instead, and the merged tags deleted.`}
+        confirmText="Merge"
+        onConfirm={handleMerge}
+        isLoading={isSaving}
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete tag"
+        description={`"${deleting?.name ?? ""}" will be removed from ${deleting?.candidate_count ?? 0} candidate${
+          deleting?.candidate_count === 1 ? "" : "s"
+        }.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+        isLoading={isSaving}
+      />
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,298 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Textarea from "../ui/textarea";
+import { FILE_UPLOAD } from "../../config/constants";
+import { ScreeningQuestionType } from "../../types/screening";
+import type { CareerApplicationData, CareerApplicationReceipt } from "../../types/careers";
+import type { PublicScreeningQuestion, ScreeningAnswer } from "../../types/screening";
+
+interface CareerApplicationFormProps {
+  jobTitle: string;
+  referralCode?: string;
+  sourceUrl?: string;
+  questions?: PublicScreeningQuestion[];
+  onApply: (data: CareerApplicationData, resume: File) => Promise<CareerApplicationReceipt>;
+  isSubmitting?: boolean;
+}
+
+type ApplicationFormState = Pick<
+  CareerApplicationData,
+  "full_name" | "email" | "phone" | "location" | "cover_letter"
+>;
+
+const EMPTY_FORM: ApplicationFormState = {
+  full_name: "",
+  email: "",
+  phone: "",
+  location: "",
+  cover_letter: "",
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Answers to the screening questions as entered in the form. Yes/no and numeric answers
+ * are sent typed, unanswered questions are left out and file answers are uploaded
+ * separately.
+ */
+export const toScreeningAnswers = (
+  questions: PublicScreeningQuestion[],
+  values: Record<string, string>
+): ScreeningAnswer[] =>
+  questions.flatMap((question) => {
+    const value = values[question.id]?.trim();
+    if (!value || question.type === ScreeningQuestionType.FILE) return [];
+    switch (question.type) {
+      case ScreeningQuestionType.YES_NO:
+        return [{ question_id: question.id, value: value === "yes" }];
+      case ScreeningQuestionType.NUMERIC:
+        return [{ question_id: question.id, value: Number(value) }];
+      default:
+        return [{ question_id: question.id, value }];
+    }
+  });
+
+/**
+ * Public application form of a job. A referral code from an employee's referral link
+ * and the page hosting the form are sent along so the application is attributed. Jobs
+ * with screening questions ask them below the applicant's details.
+ */
+const CareerApplicationForm: React.FC<CareerApplicationFormProps> = ({
+  jobTitle,
+  referralCode,
+  sourceUrl,
+  questions = [],
+  onApply,
+  isSubmitting = false,
+}) => {
+  const [form, setForm] = React.useState<ApplicationFormState>(EMPTY_FORM);
+  const [resume, setResume] = React.useState<File | null>(null);
+  const [answers, setAnswers] = React.useState<Record<string, string>>({});
+  const [answerFiles, setAnswerFiles] = React.useState<Record<string, File>>({});
+  const [receipt, setReceipt] = React.useState<CareerApplicationReceipt | null>(null);
+
+  const updateField =
+    (field: keyof ApplicationFormState) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const setAnswer = (questionId: string, value: string) =>
+    setAnswers((current) => ({ ...current, [questionId]: value }));
+
+  const setAnswerFile = (questionId: string, file: File | undefined) =>
+    setAnswerFiles((current) => {
+      const { [questionId]: _removed, ...rest } = current;
+      return file ? { ...rest, [questionId]: file } : rest;
+    });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!resume) {
+      toast.error("Please attach your resume");
+      return;
+    }
+
+    try {
+      // Optional fields left blank are not sent
+      const optional = (value?: string) => (value?.trim() ? value.trim() : undefined);
+      const result = await onApply(
+        {
+          full_name: form.full_name,
+          email: form.email,
+          location: form.location,
+          phone: optional(form.phone),
+          cover_letter: optional(form.cover_letter),
+          referral_code: referralCode,
+          source_url: sourceUrl,
+          ...(questions.length > 0 && {
+            answers: toScreeningAnswers(questions, answers),
+            answer_files: answerFiles,
+          }),
+        },
+        resume
+      );
+      setReceipt(result);
+      setForm(EMPTY_FORM);
+      setResume(null);
+      setAnswers({});
+      setAnswerFiles({});
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  if (receipt) {
+    return (
+      <div role="status" className="rounded-md border p-6 text-center space-y-2">
+        <h2 className="text-lg font-semibold">Thank you for applying!</h2>
+        <p className="text-sm text-gray-600">
+          We received your application for {receipt.job_title} and will be in touch.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" aria-label={`Apply for ${jobTitle}`}>
+      <h2 className="text-xl font-semibold">Apply for this job</h2>
+      <Input
+        aria-label="Full name"
+        placeholder="Full name"
+        value={form.full_name}
+        onChange={updateField("full_name")}
+        required
+      />
+      <Input
+        aria-label="Email"
+        type="email"
+        placeholder="Email"
+        value={form.email}
+        onChange={updateField("email")}
+        required
+      />
+      <Input
+        aria-label="Phone"
+        placeholder="Phone (optional)"
+        value={form.phone}
+        onChange={updateField("phone")}
+      />
+      <Input
+        aria-label="Location"
+        placeholder="City, country"
+        value={form.location}
+        onChange={updateField("location")}
+        required
+      />
+      <div className="space-y-1">
+        <label htmlFor="career-resume" className="text-sm font-medium">
+          Resume
+        </label>
+        <input
+          id="career-resume"
+          type="file"
+          accept={FILE_UPLOAD.ALLOWED_TYPES.join(",")}
+          onChange={(event) => setResume(event.target.files?.[0] ?? null)}
+          className="block w-full text-sm"
+          required
+        />
+        <p className="text-xs text-gray-500">PDF, Word or text document, up to 10MB</p>
+      </div>
+      <Textarea
+        aria-label="Cover letter"
+        placeholder="Anything you would like us to know? (optional)"
+        value={form.cover_letter}
+        onChange={updateField("cover_letter")}
+      />
+      {questions.map((question) => (
+        <ScreeningQuestionField
+          key={question.id}
+          question={question}
+          value={answers[question.id] ?? ""}
+          onChange={(value) => setAnswer(question.id, value)}
+          onFileChange={(file) => setAnswerFile(question.id, file)}
+        />
+      ))}
+      <Button type="submit" disabled={isSubmitting} isLoading={isSubmitting}>
+        Submit Application
+      </Button>
+    </form>
+  );
+};
+
+interface ScreeningQuestionFieldProps {
+  question: PublicScreeningQuestion;
+  value: string;
+  onChange: (value: string) => void;
+  onFileChange: (file: File | undefined) => void;
+}
+
+/**
+ * Input for one screening question, matching the kind of answer it asks for
+ */
+export const ScreeningQuestionField: React.FC<ScreeningQuestionFieldProps> = ({
+  question,
+  value,
+  onChange,
+  onFileChange,
+}) => {
+  const inputId = `screening-${question.id}`;
+
+  if (question.type === ScreeningQuestionType.YES_NO || question.type === ScreeningQuestionType.MULTIPLE_CHOICE) {
+    const choices =
+      question.type === ScreeningQuestionType.YES_NO
+        ? [
+            { value: "yes", label: "Yes" },
+            { value: "no", label: "No" },
+          ]
+        : question.options.map((option) => ({ value: option, label: option }));
+
+    return (
+      <fieldset className="space-y-1">
+        <legend className="text-sm font-medium">{question.prompt}</legend>
+        <div className="flex flex-wrap gap-4">
+          {choices.map((choice) => (
+            <label key={choice.value} className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name={inputId}
+                value={choice.value}
+                checked={value === choice.value}
+                onChange={() => onChange(choice.value)}
+                required={question.required}
+              />
+              {choice.label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    );
+  }
+
+  if (question.type === ScreeningQuestionType.FILE) {
+    return (
+      <div className="space-y-1">
+        <label htmlFor={inputId} className="text-sm font-medium">
+          {question.prompt}
+        </label>
+        <input
+          id={inputId}
+          type="file"
+          accept={FILE_UPLOAD.ALLOWED_TYPES.join(",")}
+          onChange={(event) => onFileChange(event.target.files?.[0])}
+          className="block w-full text-sm"
+          required={question.required}
+        />
+      </div>
+    );
+  }
+
+  if (question.type === ScreeningQuestionType.NUMERIC) {
+    return (
+      <Input
+        aria-label={question.prompt}
+        type="number"
+        step="any"
+        placeholder={question.prompt}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        required={question.required}
+      />
+    );
+  }
+
+  return (
+    <Textarea
+      aria-label={question.prompt}
+      placeholder={question.required ? question.prompt : `${question.prompt} (optional)`}
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      required={question.required}
+    />
+  );
+};
+
+export default CareerApplicationForm;
@@ -0,0 +1,92 @@
+import * as React from "react"; // ^18.0.0
+
+import { Button } from "../ui/button";
+import PublicJobList from "./PublicJobList";
+import PublicJobDetails from "./PublicJobDetails";
+import CareerApplicationForm from "./CareerApplicationForm";
+import { usePublicJob, usePublicJobs } from "../../lib/hooks/useCareers";
+
+interface CareersWidgetProps {
+  initialJobId?: string;
+  referralCode?: string;
+  sourceUrl?: string;
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+const JobApplication: React.FC<Omit<CareersWidgetProps, "initialJobId"> & { jobId: string }> = ({
+  jobId,
+  referralCode,
+  sourceUrl,
+}) => {
+  const { job, isLoading, error, apply, isApplying } = usePublicJob(jobId);
+
+  if (isLoading) {
+    return <div role="status" className="animate-pulse h-32 bg-gray-200 rounded" />;
+  }
+  if (error || !job) {
+    return (
+      <p role="alert" className="text-sm text-red-600">
+        {error ? getErrorMessage(error) : "This job is no longer open"}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PublicJobDetails job={job} />
+      <CareerApplicationForm
+        jobTitle={job.title}
+        referralCode={referralCode}
+        sourceUrl={sourceUrl}
+        questions={job.screening_questions}
+        onApply={(data, resume) => apply({ data, resume })}
+        isSubmitting={isApplying}
+      />
+    </div>
+  );
+};
+
+/**
+ * Self-contained careers widget: open jobs and their application form in one view,
+ * sized for embedding in another site through an iframe
+ */
+const CareersWidget: React.FC<CareersWidgetProps> = ({ initialJobId, referralCode, sourceUrl }) => {
+  const [selectedJobId, setSelectedJobId] = React.useState<string | null>(initialJobId ?? null);
+  const { jobs, isLoading, error } = usePublicJobs();
+
+  if (selectedJobId) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" onClick={() => setSelectedJobId(null)}>
+          ← All open positions
+        </Button>
+        <JobApplication
+          jobId={selectedJobId}
+          referralCode={selectedJobId === initialJobId ? referralCode : undefined}
+          sourceUrl={sourceUrl}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <section aria-label="Open positions" className="space-y-3">
+      <h2 className="text-xl font-semibold">Open positions</h2>
+      {isLoading ? (
+        <div role="status" className="animate-pulse h-16 bg-gray-200 rounded" />
+      ) : error ? (
+        <p role="alert" className="text-sm text-red-600">
+          {getErrorMessage(error)}
+        </p>
+      ) : !jobs.length ? (
+        <p className="text-sm text-muted-foreground">There are no open positions right now.</p>
+      ) : (
+        <PublicJobList jobs={jobs} onSelect={(job) => setSelectedJobId(job.id)} />
+      )}
+    </section>
+  );
+};
+
+export default CareersWidget;
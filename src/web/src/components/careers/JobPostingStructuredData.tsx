@@ -0,0 +1,18 @@
+import * as React from "react"; // ^18.0.0
+
+interface JobPostingStructuredDataProps {
+  data: Record<string, unknown>;
+}
+
+/**
+ * Embeds a job's schema.org JobPosting as JSON-LD so search engines list it as a job.
+ * `<` is escaped so job text cannot close the script element.
+ */
+const JobPostingStructuredData: React.FC<JobPostingStructuredDataProps> = ({ data }) => (
+  <script
+    type="application/ld+json"
+    dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, "\\u003c") }}
+  />
+);
+
+export default JobPostingStructuredData;
@@ -0,0 +1,49 @@
+import * as React from "react"; // ^18.0.0
+
+import { Badge } from "../ui/badge";
+import { formatJobType, formatSalaryRange } from "./PublicJobList";
+import type { PublicJob } from "../../types/careers";
+
+interface PublicJobDetailsProps {
+  job: PublicJob;
+}
+
+const RequirementList: React.FC<{ title: string; items: string[] }> = ({ title, items }) =>
+  items.length ? (
+    <section className="space-y-2">
+      <h3 className="font-semibold">{title}</h3>
+      <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+        {items.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </section>
+  ) : null;
+
+/**
+ * A published job as presented to applicants
+ */
+const PublicJobDetails: React.FC<PublicJobDetailsProps> = ({ job }) => (
+  <article className="space-y-4">
+    <header className="space-y-2">
+      <h1 className="text-2xl font-bold">{job.title}</h1>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <Badge variant="secondary">{formatJobType(job.type)}</Badge>
+        <span>
+          {job.location}
+          {job.remote_allowed && " · Remote"}
+        </span>
+        <span>{formatSalaryRange(job)}</span>
+      </div>
+    </header>
+
+    <p className="whitespace-pre-line text-gray-800">{job.description}</p>
+
+    <RequirementList title="Responsibilities" items={job.requirements.responsibilities} />
+    <RequirementList title="Qualifications" items={job.requirements.qualifications} />
+    <RequirementList title="Required skills" items={job.requirements.required_skills} />
+    <RequirementList title="Nice to have" items={job.requirements.preferred_skills} />
+  </article>
+);
+
+export default PublicJobDetails;
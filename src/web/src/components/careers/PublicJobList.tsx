@@ -0,0 +1,43 @@
+import * as React from "react"; // ^18.0.0
+
+import { Badge } from "../ui/badge";
+import type { PublicJob } from "../../types/careers";
+
+interface PublicJobListProps {
+  jobs: PublicJob[];
+  onSelect: (job: PublicJob) => void;
+}
+
+export const formatJobType = (type: PublicJob["type"]) =>
+  type.replace("_", " ").toLowerCase().replace(/^\w/, (letter) => letter.toUpperCase());
+
+export const formatSalaryRange = (job: Pick<PublicJob, "salary_min" | "salary_max">) =>
+  `$${job.salary_min.toLocaleString()} - $${job.salary_max.toLocaleString()}`;
+
+/**
+ * Published jobs as listed on the careers site and in the embeddable widget
+ */
+const PublicJobList: React.FC<PublicJobListProps> = ({ jobs, onSelect }) => (
+  <ul className="divide-y rounded-md border" role="list">
+    {jobs.map((job) => (
+      <li key={job.id}>
+        <button
+          type="button"
+          className="flex w-full flex-wrap items-center justify-between gap-3 p-4 text-left hover:bg-gray-50"
+          onClick={() => onSelect(job)}
+        >
+          <div className="space-y-1">
+            <p className="font-medium">{job.title}</p>
+            <p className="text-sm text-gray-500">
+              {job.location}
+              {job.remote_allowed && " · Remote"} · {formatSalaryRange(job)}
+            </p>
+          </div>
+          <Badge variant="secondary">{formatJobType(job.type)}</Badge>
+        </button>
+      </li>
+    ))}
+  </ul>
+);
+
+export default PublicJobList;
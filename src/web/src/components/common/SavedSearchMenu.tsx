@@ -0,0 +1,236 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import { ConfirmDialog } from "./ConfirmDialog";
+import { useSavedSearches } from "../../lib/hooks/useSavedSearches";
+import { useAuth } from "../../lib/hooks/useAuth";
+import { UserRole } from "../../types/auth";
+import {
+  CandidateSearchFilters,
+  DigestChannel,
+  DigestFrequency,
+  JobSearchFilters,
+  SavedSearch,
+  SavedSearchEntity
+} from "../../types/saved-searches";
+
+const FREQUENCY_OPTIONS = [
+  { value: "", label: "No alerts" },
+  { value: DigestFrequency.HOURLY, label: "Hourly" },
+  { value: DigestFrequency.DAILY, label: "Daily" },
+  { value: DigestFrequency.WEEKLY, label: "Weekly" }
+];
+
+const CHANNEL_OPTIONS = [
+  { value: DigestChannel.IN_APP, label: "In the app" },
+  { value: DigestChannel.EMAIL, label: "By email" }
+];
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+interface SavedSearchMenuProps {
+  entityType: SavedSearchEntity;
+  // Filters of the search as it stands, saved as they are
+  currentFilters: CandidateSearchFilters | JobSearchFilters;
+  onApply: (search: SavedSearch) => void;
+  // Search to apply once loaded, e.g. from the link of a digest
+  initialSearchId?: string | null;
+}
+
+/**
+ * Saves the current search filters under a name, re-applies saved and shared searches,
+ * and subscribes to alerts on the candidates or jobs newly matching them
+ */
+const SavedSearchMenu = ({ entityType, currentFilters, onApply, initialSearchId }: SavedSearchMenuProps) => {
+  const { state: authState } = useAuth();
+  const {
+    savedSearches,
+    isLoading,
+    createSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    subscribe,
+    unsubscribe,
+    isSaving
+  } = useSavedSearches(entityType);
+  const [name, setName] = React.useState("");
+  const [isShared, setIsShared] = React.useState(false);
+  const [deleting, setDeleting] = React.useState<SavedSearch | null>(null);
+  const appliedInitial = React.useRef(false);
+
+  React.useEffect(() => {
+    if (appliedInitial.current || !initialSearchId || isLoading) return;
+    appliedInitial.current = true;
+    const search = savedSearches.find((saved) => saved.id === initialSearchId);
+    if (search) onApply(search);
+  }, [initialSearchId, isLoading, savedSearches, onApply]);
+
+  const canManage = (search: SavedSearch) =>
+    search.owner_id === authState.user?.id || authState.user?.role === UserRole.ADMIN;
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const search = await createSavedSearch({
+        name: name.trim(),
+        entity_type: entityType,
+        filters: currentFilters,
+        is_shared: isShared
+      });
+      toast.success(`Saved "${search.name}"`);
+      setName("");
+      setIsShared(false);
+    } catch (err) {
+      toast.error(errorMessage(err, "The search could not be saved"));
+    }
+  };
+
+  const handleShare = async (search: SavedSearch) => {
+    try {
+      await updateSavedSearch(search.id, { is_shared: !search.is_shared });
+      toast.success(search.is_shared ? `"${search.name}" is now private` : `"${search.name}" is shared with the team`);
+    } catch (err) {
+      toast.error(errorMessage(err, "The search could not be updated"));
+    }
+  };
+
+  const handleAlerts = async (search: SavedSearch, frequency: string, channel?: DigestChannel) => {
+    try {
+      if (!frequency) {
+        await unsubscribe(search.id);
+        toast.success(`Alerts for "${search.name}" turned off`);
+        return;
+      }
+      await subscribe(search.id, {
+        frequency: frequency as DigestFrequency,
+        channel: channel ?? search.subscription?.channel ?? DigestChannel.IN_APP
+      });
+      toast.success(`Alerts for "${search.name}" updated`);
+    } catch (err) {
+      toast.error(errorMessage(err, "The alerts could not be changed"));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteSavedSearch(deleting.id);
+      toast.success(`Deleted "${deleting.name}"`);
+    } catch (err) {
+      toast.error(errorMessage(err, "The search could not be deleted"));
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <section className="space-y-4" aria-label="Saved searches">
+      <form className="flex flex-wrap items-center gap-2" onSubmit={handleSave}>
+        <Input
+          aria-label="Search name"
+          placeholder="Name this search"
+          value={name}
+          maxLength={100}
+          onChange={(event) => setName(event.target.value)}
+          disabled={isSaving}
+        />
+        <label htmlFor={`${entityType}-share-search`} className="flex items-center gap-1 text-sm">
+          <input
+            id={`${entityType}-share-search`}
+            type="checkbox"
+            checked={isShared}
+            onChange={(event) => setIsShared(event.target.checked)}
+            disabled={isSaving}
+          />
+          Share with the team
+        </label>
+        <Button type="submit" size="sm" disabled={isSaving || !name.trim()}>
+          Save search
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground" role="status">
+          Loading saved searches…
+        </p>
+      ) : savedSearches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved searches yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {savedSearches.map((search) => (
+            <li key={search.id} className="flex flex-wrap items-center gap-2 p-3">
+              <Button
+                type="button"
+                variant="link"
+                className="px-0"
+                onClick={() => onApply(search)}
+                aria-label={`Apply "${search.name}"`}
+              >
+                {search.name}
+              </Button>
+              {search.owner_id !== authState.user?.id && (
+                <span className="text-xs text-muted-foreground">Shared by {search.owner_name ?? "a colleague"}</span>
+              )}
+              <div className="ml-auto flex flex-wrap items-center gap-2">
+                <Select
+                  id={`alerts-${search.id}`}
+                  size="sm"
+                  aria-label={`Alerts for "${search.name}"`}
+                  value={search.subscription?.frequency ?? ""}
+                  options={FREQUENCY_OPTIONS}
+                  onChange={(frequency) => handleAlerts(search, frequency)}
+                  disabled={isSaving}
+                />
+                {search.subscription && (
+                  <Select
+                    id={`channel-${search.id}`}
+                    size="sm"
+                    aria-label={`Alert channel for "${search.name}"`}
+                    value={search.subscription.channel}
+                    options={CHANNEL_OPTIONS}
+                    onChange={(channel) =>
+                      handleAlerts(search, search.subscription?.frequency ?? "", channel as DigestChannel)
+                    }
+                    disabled={isSaving}
+                  />
+                )}
+                {canManage(search) && (
+                  <>
+                    <Button type="button" size="sm" variant="outline" onClick={() => handleShare(search)} disabled={isSaving}>
+                      {search.is_shared ? "Make private" : "Share"}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDeleting(search)}
+                      disabled={isSaving}
+                      aria-label={`Delete "${search.name}"`}
+                    >
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete saved search"
+        description={`"${deleting?.name ?? ""}" will be deleted and everyone following it will stop getting alerts.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+        isLoading={isSaving}
+      />
+    </section>
+  );
+};
+
+export default SavedSearchMenu;
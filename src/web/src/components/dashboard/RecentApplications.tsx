@@ -33,7 +33,8 @@ const statusColorMap: Record<ApplicationStatus, string> = {
   [ApplicationStatus.OFFER_PENDING]: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
   [ApplicationStatus.OFFER_ACCEPTED]: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
   [ApplicationStatus.OFFER_DECLINED]: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
-  [ApplicationStatus.REJECTED]: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+  [ApplicationStatus.REJECTED]: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+  [ApplicationStatus.WITHDRAWN]: "bg-slate-100 text-slate-800 dark:bg-slate-900 dark:text-slate-200"
 };
 
 // Format application date with relative time
@@ -0,0 +1,151 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Button } from "../ui/button";
+import Checkbox from "../ui/checkbox";
+import Select from "../ui/select";
+import { useHiringTeam, useStaff } from "../../lib/hooks/useDepartments";
+import { UserRole } from "../../types/auth";
+import type { HiringTeamUpdateData, StaffMember } from "../../types/departments";
+
+interface HiringTeamFieldsProps {
+  jobId: string;
+  disabled?: boolean;
+}
+
+const EMPTY_TEAM: HiringTeamUpdateData = {
+  recruiter_id: null,
+  hiring_manager_id: null,
+  coordinator_ids: [],
+  interviewer_ids: [],
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Adds or removes a user from a list of team members
+ */
+export const toggleMember = (ids: string[], userId: string, checked: boolean): string[] =>
+  checked ? (ids.includes(userId) ? ids : [...ids, userId]) : ids.filter((id) => id !== userId);
+
+/**
+ * Staff options for a single-person team role, optionally limited to some platform roles
+ */
+export const toStaffOptions = (staff: StaffMember[], roles?: UserRole[]) =>
+  staff
+    .filter((member) => !roles || roles.includes(member.role))
+    .map((member) => ({ value: member.id, label: member.full_name, description: member.email }));
+
+/**
+ * Hiring team of a job: its recruiter, hiring manager, coordinators and the default
+ * interviewer pool. Saved separately from the rest of the job form.
+ */
+const HiringTeamFields: React.FC<HiringTeamFieldsProps> = ({ jobId, disabled = false }) => {
+  const { team, isLoading, updateTeam, isSaving } = useHiringTeam(jobId);
+  const { staff, isLoading: isStaffLoading } = useStaff();
+
+  const [draft, setDraft] = React.useState<HiringTeamUpdateData>(EMPTY_TEAM);
+
+  React.useEffect(() => {
+    if (team) {
+      const { job_id, members, ...assignments } = team;
+      setDraft(assignments);
+    }
+  }, [team]);
+
+  const recruiterOptions = React.useMemo(
+    () => toStaffOptions(staff, [UserRole.ADMIN, UserRole.RECRUITER]),
+    [staff]
+  );
+  const staffOptions = React.useMemo(() => toStaffOptions(staff), [staff]);
+
+  const handleSave = async () => {
+    try {
+      await updateTeam(draft);
+      toast.success("Hiring team saved");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const isDisabled = disabled || isLoading || isSaving;
+
+  return (
+    <fieldset className="space-y-4 rounded-md border p-4" aria-busy={isLoading || isStaffLoading}>
+      <legend className="px-1 text-sm font-medium">Hiring Team</legend>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          id="hiring_team_recruiter"
+          name="recruiter_id"
+          label="Recruiter"
+          placeholder="No recruiter"
+          value={draft.recruiter_id ?? undefined}
+          options={recruiterOptions}
+          onChange={(value) => setDraft((current) => ({ ...current, recruiter_id: value || null }))}
+          loading={isStaffLoading}
+          disabled={isDisabled}
+        />
+
+        <Select
+          id="hiring_team_manager"
+          name="hiring_manager_id"
+          label="Hiring Manager"
+          placeholder="No hiring manager"
+          value={draft.hiring_manager_id ?? undefined}
+          options={staffOptions}
+          onChange={(value) => setDraft((current) => ({ ...current, hiring_manager_id: value || null }))}
+          loading={isStaffLoading}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Coordinators</p>
+          {staff.map((member) => (
+            <Checkbox
+              key={member.id}
+              checked={draft.coordinator_ids.includes(member.id)}
+              onCheckedChange={(checked) =>
+                setDraft((current) => ({
+                  ...current,
+                  coordinator_ids: toggleMember(current.coordinator_ids, member.id, checked === true),
+                }))
+              }
+              label={member.full_name}
+              disabled={isDisabled}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Interviewer Pool</p>
+          {staff.map((member) => (
+            <Checkbox
+              key={member.id}
+              checked={draft.interviewer_ids.includes(member.id)}
+              onCheckedChange={(checked) =>
+                setDraft((current) => ({
+                  ...current,
+                  interviewer_ids: toggleMember(current.interviewer_ids, member.id, checked === true),
+                }))
+              }
+              label={member.full_name}
+              disabled={isDisabled}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" variant="outline" onClick={handleSave} isLoading={isSaving} disabled={isDisabled}>
+          Save Hiring Team
+        </Button>
+      </div>
+    </fieldset>
+  );
+};
+
+export default HiringTeamFields;
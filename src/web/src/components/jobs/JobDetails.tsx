@@ -10,6 +10,11 @@ import { Skeleton } from '../ui/skeleton';
 import { Dialog } from '../ui/dialog';
 import { useToast } from '../../lib/hooks/useToast';
 import { ErrorBoundary } from '../ui/error-boundary';
+import ApprovalPanel from '../approvals/ApprovalPanel';
+import { ApprovalEntityType } from '../../types/approvals';
+import ReferralActions from '../referrals/ReferralActions';
+import JobTemplateActions from './JobTemplateActions';
+import JobRevisionHistory from './JobRevisionHistory';
 
 interface JobDetailsProps {
   isRecruiter?: boolean;
@@ -121,10 +126,17 @@ const JobDetails: React.FC<JobDetailsProps> = ({ isRecruiter = false }) => {
             </Badge>
             <Badge variant="outline">{job.department}</Badge>
             <Badge variant="outline">{job.location}</Badge>
+            {job.status === JobStatus.DRAFT && job.publish_at && (
+              <Badge variant="outline">Publishes {format(new Date(job.publish_at), 'MMM d, yyyy HH:mm')}</Badge>
+            )}
+            {job.status === JobStatus.PUBLISHED && job.closed_at && (
+              <Badge variant="outline">Closes {format(new Date(job.closed_at), 'MMM d, yyyy')}</Badge>
+            )}
           </div>
         </div>
         {isRecruiter && (
           <div className="flex gap-2">
+            <JobTemplateActions job={job} />
             <Button onClick={handleEdit} variant="outline">
               Edit Job
             </Button>
@@ -162,6 +174,10 @@ const JobDetails: React.FC<JobDetailsProps> = ({ isRecruiter = false }) => {
               ${job.salary_min.toLocaleString()} - ${job.salary_max.toLocaleString()}
             </p>
           </div>
+          <div>
+            <h3 className="font-semibold">Openings</h3>
+            <p>{job.headcount}</p>
+          </div>
         </div>
 
         {job.benefits.length > 0 && (
@@ -178,6 +194,31 @@ const JobDetails: React.FC<JobDetailsProps> = ({ isRecruiter = false }) => {
         )}
       </Card>
 
+      {/* Approval Section */}
+      {isRecruiter && (
+        <Card className="p-6">
+          <ApprovalPanel
+            entityType={ApprovalEntityType.JOB}
+            entityId={job.id}
+            canRequest={job.status === JobStatus.DRAFT}
+          />
+        </Card>
+      )}
+
+      {/* Revision History Section */}
+      {isRecruiter && (
+        <Card className="p-6">
+          <JobRevisionHistory jobId={job.id} />
+        </Card>
+      )}
+
+      {/* Referral Section */}
+      {job.status === JobStatus.PUBLISHED && (
+        <Card className="p-6">
+          <ReferralActions jobId={job.id} jobTitle={job.title} />
+        </Card>
+      )}
+
       {/* AI Matching Section */}
       {isRecruiter && (
         <Card className="p-6">
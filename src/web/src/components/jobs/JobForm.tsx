@@ -2,11 +2,18 @@ import React from "react"; // ^18.0.0
 import { z } from "zod"; // ^3.22.0
 import { debounce } from "lodash/debounce"; // ^4.0.8
 import { Editor } from "@tiptap/react"; // ^2.0.0
+import { format } from "date-fns"; // ^2.30.0
 
 import { useForm } from "../../lib/hooks/useForm";
+import { usePipelineTemplates } from "../../lib/hooks/usePipelineTemplates";
+import { useDepartments } from "../../lib/hooks/useDepartments";
 import Input from "../ui/input";
 import Select from "../ui/select";
-import { JobFormData, JobType, ExperienceLevel } from "../../types/jobs";
+import JobTemplatePicker from "./JobTemplatePicker";
+import HiringTeamFields from "./HiringTeamFields";
+import ScreeningQuestionsFields from "./ScreeningQuestionsFields";
+import JobWritingAssistant from "./JobWritingAssistant";
+import { JobDescriptionDraft, JobFormData, JobTemplate, JobType, ExperienceLevel } from "../../types/jobs";
 
 // Job form validation schema
 const jobFormSchema = z.object({
@@ -38,7 +45,13 @@ const jobFormSchema = z.object({
   location: z.string().min(1, "Location is required"),
   remote_allowed: z.boolean(),
   department: z.string().min(1, "Department is required"),
+  department_id: z.string().uuid().nullable(),
   benefits: z.array(z.string()),
+  pipeline_template_id: z.string().uuid().nullable(),
+  headcount: z.number().int().min(1, "At least one opening is needed").max(1000, "At most 1000 openings"),
+  publish_date: z.date().nullable()
+    .refine(date => !date || date.getTime() > Date.now(), "Publish date must be in the future"),
+  closed_at: z.date().nullable(),
   is_draft: z.boolean()
 });
 
@@ -47,6 +60,8 @@ interface JobFormProps {
   onSubmit: (data: JobFormData) => Promise<void>;
   isLoading?: boolean;
   mode?: "create" | "edit";
+  // Job being edited; its hiring team is edited alongside the form
+  jobId?: string;
 }
 
 const EXPERIENCE_LEVELS = Object.values(ExperienceLevel).map(level => ({
@@ -59,12 +74,39 @@ const JOB_TYPES = Object.values(JobType).map(type => ({
   label: type.replace("_", " ").toLowerCase()
 }));
 
+// datetime-local inputs work with local time strings without seconds
+const toDateTimeInput = (date: Date | null) => (date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "");
+const fromDateTimeInput = (value: string) => (value ? new Date(value) : null);
+
 const JobForm: React.FC<JobFormProps> = ({
   initialData = {},
   onSubmit,
   isLoading = false,
-  mode = "create"
+  mode = "create",
+  jobId
 }) => {
+  const { templates, defaultTemplate, isLoading: isTemplatesLoading } = usePipelineTemplates();
+  const { departments, isLoading: isDepartmentsLoading } = useDepartments();
+
+  // Sub-departments are indented below their parent
+  const departmentOptions = React.useMemo(
+    () => departments.map(department => ({
+      value: department.id,
+      label: `${"\u00a0\u00a0".repeat(department.depth ?? 0)}${department.name}`,
+      description: department.cost_center ? `Cost center ${department.cost_center}` : undefined
+    })),
+    [departments]
+  );
+
+  const pipelineTemplateOptions = React.useMemo(
+    () => templates.map(template => ({
+      value: template.id,
+      label: template.is_default ? `${template.name} (default)` : template.name,
+      description: template.stages.map(stage => stage.name).join(" → ")
+    })),
+    [templates]
+  );
+
   const {
     formState,
     handleChange,
@@ -96,7 +138,12 @@ const JobForm: React.FC<JobFormProps> = ({
       location: "",
       remote_allowed: false,
       department: "",
+      department_id: null,
       benefits: [],
+      pipeline_template_id: null,
+      headcount: 1,
+      publish_date: null,
+      closed_at: null,
       is_draft: true,
       ...initialData
     },
@@ -110,6 +157,46 @@ const JobForm: React.FC<JobFormProps> = ({
 
   const editor = React.useRef<Editor | null>(null);
 
+  // Templates fill in the job content; requirements not kept in the template keep their value
+  const applyTemplate = React.useCallback(
+    (template: JobTemplate) => {
+      setFieldValue("title", template.title);
+      setFieldValue("description", template.description);
+      setFieldValue("requirements", { ...formState.values.requirements, ...template.requirements });
+      setFieldValue("type", template.type);
+      setFieldValue("skills", template.skills);
+      setFieldValue("salary_min", template.salary_min);
+      setFieldValue("salary_max", template.salary_max);
+      setFieldValue("location", template.location);
+      setFieldValue("remote_allowed", template.remote_allowed);
+      setFieldValue("pipeline_template_id", template.pipeline_template_id);
+    },
+    [formState.values.requirements, setFieldValue]
+  );
+
+  // Drafts replace the description and the requirements they cover
+  const applyDraft = React.useCallback(
+    (draft: JobDescriptionDraft) => {
+      setFieldValue("description", draft.description);
+      setFieldValue("requirements", { ...formState.values.requirements, ...draft.requirements });
+    },
+    [formState.values.requirements, setFieldValue]
+  );
+
+  const applyWordingSuggestion = React.useCallback(
+    (field: string, value: unknown) => {
+      if (field.startsWith("requirements.")) {
+        setFieldValue("requirements", {
+          ...formState.values.requirements,
+          [field.slice("requirements.".length)]: value
+        });
+      } else {
+        setFieldValue(field as keyof JobFormData, value);
+      }
+    },
+    [formState.values.requirements, setFieldValue]
+  );
+
   const handleEditorChange = React.useCallback(
     debounce(({ editor }: { editor: Editor }) => {
       setFieldValue("description", editor.getText());
@@ -127,6 +214,10 @@ const JobForm: React.FC<JobFormProps> = ({
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="space-y-4">
+        {mode === "create" && (
+          <JobTemplatePicker onSelect={applyTemplate} disabled={isLoading} />
+        )}
+
         <Input
           id="title"
           name="title"
@@ -230,19 +321,97 @@ const JobForm: React.FC<JobFormProps> = ({
           </label>
         </div>
 
-        <Input
-          id="department"
-          name="department"
+        <Select
+          id="department_id"
+          name="department_id"
           label="Department"
-          placeholder="Enter department"
-          value={formState.values.department}
-          onChange={handleChange}
+          placeholder="Select department"
+          value={formState.values.department_id ?? undefined}
+          options={departmentOptions}
+          onChange={(value) => {
+            setFieldValue("department_id", value);
+            setFieldValue("department", departments.find(department => department.id === value)?.name ?? "");
+          }}
           onBlur={handleBlur}
           error={formState.errors.department}
+          loading={isDepartmentsLoading}
           disabled={isLoading}
           required
         />
 
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            id="headcount"
+            name="headcount"
+            type="number"
+            label="Openings"
+            value={formState.values.headcount}
+            onChange={(e) => setFieldValue("headcount", Number(e.target.value))}
+            onBlur={handleBlur}
+            error={formState.errors.headcount}
+            disabled={isLoading}
+            required
+            min={1}
+          />
+
+          <Input
+            id="publish_date"
+            name="publish_date"
+            type="datetime-local"
+            label="Publish On"
+            aria-describedby="publish_date-hint"
+            value={toDateTimeInput(formState.values.publish_date)}
+            onChange={(e) => setFieldValue("publish_date", fromDateTimeInput(e.target.value))}
+            onBlur={handleBlur}
+            error={formState.errors.publish_date}
+            disabled={isLoading || !formState.values.is_draft}
+          />
+
+          <Input
+            id="closed_at"
+            name="closed_at"
+            type="datetime-local"
+            label="Closes On"
+            value={toDateTimeInput(formState.values.closed_at)}
+            onChange={(e) => setFieldValue("closed_at", fromDateTimeInput(e.target.value))}
+            onBlur={handleBlur}
+            error={formState.errors.closed_at}
+            disabled={isLoading}
+          />
+        </div>
+        <p id="publish_date-hint" className="text-sm text-muted-foreground">
+          Drafts with a publish date are published automatically. Jobs close at their closing date, or once every opening has accepted an offer.
+        </p>
+
+        <Select
+          id="pipeline_template_id"
+          name="pipeline_template_id"
+          label="Hiring Pipeline"
+          placeholder={defaultTemplate ? `${defaultTemplate.name} (default)` : "Default pipeline"}
+          value={formState.values.pipeline_template_id ?? defaultTemplate?.id}
+          options={pipelineTemplateOptions}
+          onChange={(value) => setFieldValue("pipeline_template_id", value)}
+          onBlur={handleBlur}
+          error={formState.errors.pipeline_template_id}
+          loading={isTemplatesLoading}
+          disabled={isLoading}
+        />
+
+        {mode === "edit" && jobId && (
+          <HiringTeamFields jobId={jobId} disabled={isLoading} />
+        )}
+
+        {mode === "edit" && jobId && (
+          <ScreeningQuestionsFields jobId={jobId} disabled={isLoading} />
+        )}
+
+        <JobWritingAssistant
+          values={formState.values}
+          onApplyDraft={applyDraft}
+          onReplace={applyWordingSuggestion}
+          disabled={isLoading}
+        />
+
         <div className="space-y-2">
           <label className="block text-sm font-medium">Job Description</label>
           <Editor
@@ -0,0 +1,222 @@
+import * as React from "react"; // ^18.0.0
+import { format } from "date-fns"; // ^2.30.0
+
+import { Badge } from "../ui/badge";
+import { useJobRevisions } from "../../lib/hooks/useJobRevisions";
+import { JobRequirements, JobRevision, JobStatus } from "../../types/jobs";
+
+export interface LineChange {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+export interface RequirementChange {
+  field: keyof JobRequirements;
+  added: string[];
+  removed: string[];
+}
+
+const REQUIREMENT_LABELS: Partial<Record<keyof JobRequirements, string>> = {
+  experience_level: "Experience level",
+  years_experience: "Years of experience",
+  required_skills: "Required skills",
+  preferred_skills: "Preferred skills",
+  qualifications: "Qualifications",
+  responsibilities: "Responsibilities",
+  certifications: "Certifications",
+  education_requirements: "Education",
+  languages: "Languages",
+  background_check_required: "Background check",
+  tools_and_technologies: "Tools and technologies",
+};
+
+/**
+ * Splits a job description into lines of text; paragraphs, list items and line breaks
+ * each start a new line
+ */
+export const toTextLines = (html: string): string[] =>
+  html
+    .replace(/<\/(p|li)>|<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Line diff of two texts, based on their longest common subsequence of lines
+ */
+export const diffLines = (before: string[], after: string[]): LineChange[] => {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      changes.push({ type: "unchanged", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      changes.push({ type: "removed", text: before[i++] });
+    } else {
+      changes.push({ type: "added", text: after[j++] });
+    }
+  }
+  before.slice(i).forEach((text) => changes.push({ type: "removed", text }));
+  after.slice(j).forEach((text) => changes.push({ type: "added", text }));
+  return changes;
+};
+
+/**
+ * Requirement changes between two revisions; lists report the items added and removed,
+ * single values their old and new value
+ */
+export const diffRequirements = (
+  before: Partial<JobRequirements>,
+  after: Partial<JobRequirements>
+): RequirementChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof JobRequirements>;
+  const asItems = (value: unknown): string[] =>
+    value === undefined || value === null ? [] : Array.isArray(value) ? value.map(String) : [String(value)];
+
+  return [...fields]
+    .filter((field) => field in REQUIREMENT_LABELS)
+    .map((field) => {
+      const previous = asItems(before[field]);
+      const next = asItems(after[field]);
+      return {
+        field,
+        added: next.filter((item) => !previous.includes(item)),
+        removed: previous.filter((item) => !next.includes(item)),
+      };
+    })
+    .filter((change) => change.added.length || change.removed.length);
+};
+
+const LINE_STYLES: Record<LineChange["type"], string> = {
+  added: "bg-green-50 text-green-800",
+  removed: "bg-red-50 text-red-800 line-through",
+  unchanged: "text-gray-600",
+};
+
+const LINE_MARKERS: Record<LineChange["type"], string> = {
+  added: "+",
+  removed: "−",
+  unchanged: " ",
+};
+
+const RevisionDiff: React.FC<{ previous: JobRevision; revision: JobRevision }> = ({ previous, revision }) => {
+  const requirementChanges = diffRequirements(previous.requirements, revision.requirements);
+
+  return (
+    <div className="space-y-3 text-sm">
+      {revision.changed_fields.includes("title") && (
+        <p>
+          <span className="font-medium">Title: </span>
+          <span className="text-red-700 line-through">{previous.title}</span>
+          {" → "}
+          <span className="text-green-700">{revision.title}</span>
+        </p>
+      )}
+
+      {revision.changed_fields.includes("description") && (
+        <div>
+          <p className="font-medium">Description</p>
+          <ul aria-label="Description changes" className="mt-1 rounded border font-mono text-xs">
+            {diffLines(toTextLines(previous.description), toTextLines(revision.description)).map((line, index) => (
+              <li key={index} data-change={line.type} className={`px-2 py-0.5 ${LINE_STYLES[line.type]}`}>
+                <span aria-hidden="true">{LINE_MARKERS[line.type]} </span>
+                {line.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {requirementChanges.length > 0 && (
+        <div>
+          <p className="font-medium">Requirements</p>
+          <ul className="mt-1 space-y-1">
+            {requirementChanges.map((change) => (
+              <li key={change.field}>
+                <span>{REQUIREMENT_LABELS[change.field]}: </span>
+                {change.removed.map((item) => (
+                  <span key={`-${item}`} className="mr-1 text-red-700 line-through">{item}</span>
+                ))}
+                {change.added.map((item) => (
+                  <span key={`+${item}`} className="mr-1 text-green-700">{item}</span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface JobRevisionHistoryProps {
+  jobId: string;
+}
+
+/**
+ * Revision history of a job's title, description and requirements, each revision shown
+ * as a diff against the one before it. Edits made once the job was published are flagged.
+ */
+const JobRevisionHistory: React.FC<JobRevisionHistoryProps> = ({ jobId }) => {
+  const { revisions, isLoading, error } = useJobRevisions(jobId);
+
+  if (isLoading) {
+    return <div role="status" className="animate-pulse h-24 bg-gray-200 rounded" />;
+  }
+
+  if (error) {
+    return (
+      <p role="alert" className="text-sm text-red-600">
+        {error instanceof Error ? error.message : "Failed to load revision history"}
+      </p>
+    );
+  }
+
+  return (
+    <section aria-label="Revision history" className="space-y-4">
+      <h2 className="text-xl font-semibold">Revision History</h2>
+      {!revisions.length ? (
+        <p className="text-sm text-muted-foreground">The description has not been changed since the job was created.</p>
+      ) : (
+        <ol className="space-y-4">
+          {revisions.map((revision, index) => {
+            const previous = revisions[index + 1];
+            return (
+              <li key={revision.id} className="space-y-2 border-l-2 pl-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">Revision {revision.revision}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {format(new Date(revision.created_at), "MMM d, yyyy HH:mm")}
+                  </span>
+                  {previous && revision.job_status !== JobStatus.DRAFT && (
+                    <Badge variant="outline">After publishing</Badge>
+                  )}
+                </div>
+                {previous ? (
+                  <RevisionDiff previous={previous} revision={revision} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Original description</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default JobRevisionHistory;
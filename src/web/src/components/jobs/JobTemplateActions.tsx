@@ -0,0 +1,151 @@
+import * as React from "react"; // ^18.0.0
+import { useNavigate } from "react-router-dom"; // ^6.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import { useJobTemplates } from "../../lib/hooks/useJobTemplates";
+import { JobType } from "../../types/jobs";
+import type { Job } from "../../types/jobs";
+
+interface JobTemplateActionsProps {
+  job: Pick<Job, "id" | "title" | "location" | "type">;
+}
+
+const JOB_TYPES = Object.values(JobType).map((type) => ({
+  value: type,
+  label: type.replace("_", " ").toLowerCase(),
+}));
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Reuse actions of a job: save it to the template library, or clone it into a new draft
+ * for another location or job type
+ */
+const JobTemplateActions: React.FC<JobTemplateActionsProps> = ({ job }) => {
+  const navigate = useNavigate();
+  const { saveAsTemplate, cloneJob, isSaving, isCloning } = useJobTemplates();
+
+  const [isTemplateOpen, setIsTemplateOpen] = React.useState(false);
+  const [templateName, setTemplateName] = React.useState(job.title);
+
+  const [isCloneOpen, setIsCloneOpen] = React.useState(false);
+  const [cloneLocation, setCloneLocation] = React.useState(job.location);
+  const [cloneType, setCloneType] = React.useState<JobType>(job.type);
+
+  const handleSaveTemplate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await saveAsTemplate({ job_id: job.id, name: templateName });
+      toast.success(`Saved "${templateName}" to the template library`);
+      setIsTemplateOpen(false);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleClone = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      // Unchanged fields are copied from this job
+      const clone = await cloneJob(job.id, {
+        location: cloneLocation.trim() !== job.location ? cloneLocation : undefined,
+        type: cloneType !== job.type ? cloneType : undefined,
+      });
+      toast.success("Job cloned as a draft");
+      setIsCloneOpen(false);
+      navigate(`/jobs/${clone.id}/edit`);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" onClick={() => setIsTemplateOpen(true)}>
+        Save as Template
+      </Button>
+      <Button variant="outline" onClick={() => setIsCloneOpen(true)}>
+        Clone Job
+      </Button>
+
+      <Dialog open={isTemplateOpen} onOpenChange={setIsTemplateOpen}>
+        <DialogContent aria-labelledby="job-template-title">
+          <form onSubmit={handleSaveTemplate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle id="job-template-title">Save as Template</DialogTitle>
+              <DialogDescription>
+                The title, description, requirements and compensation of this job are saved for new jobs.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              aria-label="Template name"
+              placeholder="Template name"
+              value={templateName}
+              onChange={(event) => setTemplateName(event.target.value)}
+              maxLength={100}
+              required
+            />
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={() => setIsTemplateOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} isLoading={isSaving}>
+                Save Template
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCloneOpen} onOpenChange={setIsCloneOpen}>
+        <DialogContent aria-labelledby="job-clone-title">
+          <form onSubmit={handleClone} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle id="job-clone-title">Clone Job</DialogTitle>
+              <DialogDescription>
+                Creates a draft copy of {job.title} that you can edit before publishing.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              aria-label="Location"
+              placeholder="Location"
+              value={cloneLocation}
+              onChange={(event) => setCloneLocation(event.target.value)}
+              required
+            />
+            <Select
+              id="clone_type"
+              name="clone_type"
+              label="Job Type"
+              value={cloneType}
+              options={JOB_TYPES}
+              onChange={(value) => setCloneType(value as JobType)}
+            />
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={() => setIsCloneOpen(false)} disabled={isCloning}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCloning} isLoading={isCloning}>
+                Clone Job
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default JobTemplateActions;
@@ -0,0 +1,56 @@
+import React from "react"; // ^18.0.0
+
+import Select from "../ui/select";
+import { useJobTemplates } from "../../lib/hooks/useJobTemplates";
+import { JobTemplate } from "../../types/jobs";
+
+interface JobTemplatePickerProps {
+  onSelect: (template: JobTemplate) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks a template from the job template library to start a new job from
+ */
+const JobTemplatePicker: React.FC<JobTemplatePickerProps> = ({ onSelect, disabled = false }) => {
+  const { templates, isLoading } = useJobTemplates();
+  const [selectedId, setSelectedId] = React.useState<string>();
+
+  const options = React.useMemo(
+    () => templates.map(template => ({
+      value: template.id,
+      label: template.name,
+      description: `${template.title} · ${template.location}`
+    })),
+    [templates]
+  );
+
+  const handleChange = (value: string) => {
+    const template = templates.find(t => t.id === value);
+    if (template) {
+      setSelectedId(value);
+      onSelect(template);
+    }
+  };
+
+  if (!isLoading && !templates.length) {
+    return null;
+  }
+
+  return (
+    <Select
+      id="job_template"
+      name="job_template"
+      label="Start from a Template"
+      placeholder="Blank job"
+      value={selectedId}
+      options={options}
+      onChange={handleChange}
+      loading={isLoading}
+      disabled={disabled}
+      aria-label="Job template"
+    />
+  );
+};
+
+export default JobTemplatePicker;
@@ -0,0 +1,255 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Textarea from "../ui/textarea";
+import { useJobWriting } from "../../lib/hooks/useJobWriting";
+import { WordingIssueCategory } from "../../types/jobs";
+import type { JobDescriptionDraft, JobFormData, WordingIssue } from "../../types/jobs";
+
+type AssistantValues = Pick<
+  JobFormData,
+  "title" | "description" | "requirements" | "type" | "location" | "salary_min" | "salary_max"
+>;
+
+interface JobWritingAssistantProps {
+  values: AssistantValues;
+  onApplyDraft: (draft: JobDescriptionDraft) => void;
+  // Form field to set, e.g. "description" or "requirements.responsibilities"
+  onReplace: (field: string, value: unknown) => void;
+  disabled?: boolean;
+}
+
+const CATEGORY_LABELS: Record<WordingIssueCategory, string> = {
+  [WordingIssueCategory.EXCLUSIONARY]: "Exclusionary",
+  [WordingIssueCategory.BIASED]: "Biased",
+  [WordingIssueCategory.REQUIREMENT_STACK]: "Requirements",
+  [WordingIssueCategory.MISSING_SALARY]: "Salary",
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Form field and new value that apply the suggestion of an issue, or null when the
+ * issue has no suggestion or the text changed since it was checked
+ */
+export const resolveSuggestion = (
+  values: Pick<AssistantValues, "title" | "description" | "requirements">,
+  issue: WordingIssue
+): { field: string; value: unknown } | null => {
+  if (issue.suggestion === null) return null;
+
+  if (issue.path === "requirements.years_experience") {
+    return { field: issue.path, value: Number(issue.suggestion) };
+  }
+
+  if (issue.start === null || issue.end === null) return null;
+
+  const replaceIn = (text: string | undefined) =>
+    text !== undefined && text.slice(issue.start!, issue.end!) === issue.excerpt
+      ? text.slice(0, issue.start!) + issue.suggestion + text.slice(issue.end!)
+      : null;
+
+  if (issue.path === "title" || issue.path === "description") {
+    const value = replaceIn(values[issue.path]);
+    return value === null ? null : { field: issue.path, value };
+  }
+
+  const match = issue.path.match(/^requirements\.(\w+)\.(\d+)$/);
+  if (!match) return null;
+
+  const field = match[1] as keyof AssistantValues["requirements"];
+  const items = values.requirements[field];
+  if (!Array.isArray(items)) return null;
+
+  const value = replaceIn(items[Number(match[2])]);
+  if (value === null) return null;
+  return {
+    field: `requirements.${field}`,
+    value: items.map((item, index) => (index === Number(match[2]) ? value : item)),
+  };
+};
+
+/**
+ * Remaining issues after one was applied; later excerpts in the same text move by the
+ * change in length
+ */
+export const removeAppliedIssue = (issues: WordingIssue[], applied: WordingIssue): WordingIssue[] => {
+  const delta = (applied.suggestion?.length ?? 0) - ((applied.end ?? 0) - (applied.start ?? 0));
+  return issues
+    .filter((issue) => issue !== applied)
+    .map((issue) =>
+      issue.path === applied.path && issue.start !== null && issue.end !== null &&
+      applied.end !== null && issue.start >= applied.end
+        ? { ...issue, start: issue.start + delta, end: issue.end + delta }
+        : issue
+    );
+};
+
+/**
+ * Writing help in the job form: drafts a description and requirements from a few
+ * highlights, and checks the wording with inline replacements
+ */
+const JobWritingAssistant: React.FC<JobWritingAssistantProps> = ({
+  values,
+  onApplyDraft,
+  onReplace,
+  disabled = false,
+}) => {
+  const { draftDescription, checkWording, isDrafting, isChecking } = useJobWriting();
+
+  const [isDraftOpen, setIsDraftOpen] = React.useState(false);
+  const [highlights, setHighlights] = React.useState("");
+  const [issues, setIssues] = React.useState<WordingIssue[] | null>(null);
+  const [aiChecked, setAiChecked] = React.useState(true);
+
+  const handleDraft = async () => {
+    try {
+      const draft = await draftDescription({
+        title: values.title,
+        experience_level: values.requirements.experience_level,
+        highlights: highlights.split("\n").map((line) => line.trim()).filter(Boolean),
+        type: values.type,
+        location: values.location || undefined,
+      });
+      onApplyDraft(draft);
+      setIssues(draft.issues);
+      setAiChecked(true);
+      setIsDraftOpen(false);
+      toast.success("Draft added to the form; review it before saving");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleCheck = async () => {
+    try {
+      const result = await checkWording({
+        title: values.title,
+        description: values.description,
+        requirements: values.requirements,
+        salary_min: values.salary_min,
+        salary_max: values.salary_max,
+      });
+      setIssues(result.issues);
+      setAiChecked(result.ai_checked);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleReplace = (issue: WordingIssue) => {
+    const replacement = resolveSuggestion(values, issue);
+    if (!replacement) {
+      toast.error("The text changed since the check; check the wording again");
+      return;
+    }
+    onReplace(replacement.field, replacement.value);
+    setIssues((current) => (current ? removeAppliedIssue(current, issue) : current));
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium">Writing Assistant</p>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={() => setIsDraftOpen(true)} disabled={disabled}>
+            Write with AI
+          </Button>
+          <Button type="button" variant="outline" onClick={handleCheck} isLoading={isChecking} disabled={disabled || isChecking}>
+            Check Wording
+          </Button>
+        </div>
+      </div>
+
+      {issues !== null && (
+        <div className="space-y-2" aria-live="polite">
+          {!aiChecked && (
+            <p className="text-sm text-muted-foreground">
+              AI review is unavailable right now; the wording was checked against the built-in word list only.
+            </p>
+          )}
+          {issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No wording issues found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {issues.map((issue, index) => (
+                <li
+                  key={`${issue.path}-${issue.start ?? "all"}-${index}`}
+                  className="flex items-start justify-between gap-3 text-sm"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={issue.category === WordingIssueCategory.EXCLUSIONARY ? "destructive" : "warning"}>
+                        {CATEGORY_LABELS[issue.category]}
+                      </Badge>
+                      {issue.excerpt && <span className="font-medium">&ldquo;{issue.excerpt}&rdquo;</span>}
+                    </div>
+                    <p className="text-muted-foreground">{issue.message}</p>
+                  </div>
+                  {issue.suggestion !== null && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReplace(issue)}
+                      disabled={disabled}
+                    >
+                      Use &ldquo;{issue.suggestion}&rdquo;
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <Dialog open={isDraftOpen} onOpenChange={setIsDraftOpen}>
+        <DialogContent aria-labelledby="job-draft-title">
+          <div className="space-y-4">
+            <DialogHeader>
+              <DialogTitle id="job-draft-title">Write with AI</DialogTitle>
+              <DialogDescription>
+                Drafts the description and requirements for {values.title || "this job"} at the selected
+                experience level. The draft replaces the current description and requirements.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              aria-label="Highlights"
+              placeholder={"One highlight per line, e.g.\nOwn the billing service end to end\nHybrid, two days a week in the office"}
+              value={highlights}
+              onChange={(event) => setHighlights(event.target.value)}
+              rows={6}
+            />
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={() => setIsDraftOpen(false)} disabled={isDrafting}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleDraft}
+                disabled={isDrafting || !values.title.trim() || !highlights.trim()}
+                isLoading={isDrafting}
+              >
+                Write Draft
+              </Button>
+            </DialogFooter>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default JobWritingAssistant;
@@ -0,0 +1,363 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Button } from "../ui/button";
+import Checkbox from "../ui/checkbox";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import Textarea from "../ui/textarea";
+import { useJobScreening } from "../../lib/hooks/useScreening";
+import { KNOCKOUT_QUESTION_TYPES, ScreeningQuestionType } from "../../types/screening";
+import type {
+  JobScreeningSettings,
+  NumericRange,
+  ScreeningQuestion,
+  ScreeningQuestionInput,
+} from "../../types/screening";
+
+interface ScreeningQuestionsFieldsProps {
+  jobId: string;
+  disabled?: boolean;
+}
+
+const TYPE_OPTIONS = [
+  { value: ScreeningQuestionType.TEXT, label: "Free text" },
+  { value: ScreeningQuestionType.YES_NO, label: "Yes / No" },
+  { value: ScreeningQuestionType.MULTIPLE_CHOICE, label: "Multiple choice" },
+  { value: ScreeningQuestionType.NUMERIC, label: "Number" },
+  { value: ScreeningQuestionType.FILE, label: "File upload" },
+];
+
+const DEFAULT_SETTINGS: JobScreeningSettings = {
+  knockout_auto_reject: false,
+  knockout_email_delay_hours: null,
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Editable copies of saved questions; ids are kept so earlier answers stay linked
+ */
+export const toQuestionInputs = (questions: ScreeningQuestion[]): ScreeningQuestionInput[] =>
+  questions.map(({ id, type, prompt, options, required, is_knockout, expected_answer }) => ({
+    id,
+    type,
+    prompt,
+    options,
+    required,
+    is_knockout,
+    expected_answer,
+  }));
+
+/**
+ * Expected answer a question starts with when it is made a knockout
+ */
+const defaultExpectedAnswer = (type: ScreeningQuestionType): ScreeningQuestionInput["expected_answer"] =>
+  type === ScreeningQuestionType.YES_NO ? true :
+  type === ScreeningQuestionType.MULTIPLE_CHOICE ? [] :
+  { min: null, max: null };
+
+/**
+ * Turns the knockout of a question on or off; knockouts are always required
+ */
+export const setKnockout = (question: ScreeningQuestionInput, isKnockout: boolean): ScreeningQuestionInput => ({
+  ...question,
+  is_knockout: isKnockout,
+  required: isKnockout || question.required,
+  expected_answer: isKnockout ? defaultExpectedAnswer(question.type) : null,
+});
+
+/**
+ * Changes the type of a new question, dropping options and knockout rules that no
+ * longer fit it
+ */
+export const changeQuestionType = (
+  question: ScreeningQuestionInput,
+  type: ScreeningQuestionType
+): ScreeningQuestionInput => {
+  const keepsKnockout = question.is_knockout && KNOCKOUT_QUESTION_TYPES.includes(type);
+  return {
+    ...question,
+    type,
+    options: type === ScreeningQuestionType.MULTIPLE_CHOICE ? question.options : [],
+    is_knockout: keepsKnockout,
+    expected_answer: keepsKnockout ? defaultExpectedAnswer(type) : null,
+  };
+};
+
+/**
+ * Options of a multiple choice question, one per line; accepted answers that are no
+ * longer an option are dropped
+ */
+export const setOptions = (question: ScreeningQuestionInput, text: string): ScreeningQuestionInput => {
+  const options = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  return {
+    ...question,
+    options,
+    expected_answer: Array.isArray(question.expected_answer)
+      ? question.expected_answer.filter((option) => options.includes(option))
+      : question.expected_answer,
+  };
+};
+
+/**
+ * Moves a question up or down the list
+ */
+export const moveQuestion = <T,>(questions: T[], index: number, offset: -1 | 1): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= questions.length) return questions;
+  const next = [...questions];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const parseBound = (value: string): number | null => (value.trim() === "" ? null : Number(value));
+
+/**
+ * Screening questions of a job with their knockout rules, and how failed knockouts are
+ * handled. Saved separately from the rest of the job form.
+ */
+const ScreeningQuestionsFields: React.FC<ScreeningQuestionsFieldsProps> = ({ jobId, disabled = false }) => {
+  const { screening, isLoading, updateScreening, isSaving } = useJobScreening(jobId);
+
+  const [questions, setQuestions] = React.useState<ScreeningQuestionInput[]>([]);
+  const [settings, setSettings] = React.useState<JobScreeningSettings>(DEFAULT_SETTINGS);
+
+  React.useEffect(() => {
+    if (screening) {
+      setQuestions(toQuestionInputs(screening.questions));
+      setSettings(screening.settings);
+    }
+  }, [screening]);
+
+  const updateQuestion = (index: number, update: (question: ScreeningQuestionInput) => ScreeningQuestionInput) =>
+    setQuestions((current) => current.map((question, i) => (i === index ? update(question) : question)));
+
+  const handleAdd = () =>
+    setQuestions((current) => [
+      ...current,
+      {
+        type: ScreeningQuestionType.YES_NO,
+        prompt: "",
+        options: [],
+        required: true,
+        is_knockout: false,
+        expected_answer: null,
+      },
+    ]);
+
+  const handleSave = async () => {
+    try {
+      await updateScreening({ questions, settings });
+      toast.success("Screening questions saved");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const isDisabled = disabled || isLoading || isSaving;
+  const hasKnockouts = questions.some((question) => question.is_knockout);
+
+  return (
+    <fieldset className="space-y-4 rounded-md border p-4" aria-busy={isLoading}>
+      <legend className="px-1 text-sm font-medium">Screening Questions</legend>
+
+      {questions.length === 0 && (
+        <p className="text-sm text-muted-foreground">Applicants are not asked any questions.</p>
+      )}
+
+      {questions.map((question, index) => (
+        <div key={question.id ?? `new-${index}`} className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <Input
+                aria-label={`Question ${index + 1}`}
+                placeholder="e.g. Are you authorized to work in the US?"
+                value={question.prompt}
+                onChange={(event) => {
+                  const prompt = event.target.value;
+                  updateQuestion(index, (current) => ({ ...current, prompt }));
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <Select
+              id={`screening_question_type_${index}`}
+              name="type"
+              value={question.type}
+              options={TYPE_OPTIONS}
+              onChange={(value) =>
+                updateQuestion(index, (current) => changeQuestionType(current, value as ScreeningQuestionType))
+              }
+              // Saved questions keep their type so their answers stay valid
+              disabled={isDisabled || !!question.id}
+            />
+          </div>
+
+          {question.type === ScreeningQuestionType.MULTIPLE_CHOICE && (
+            <Textarea
+              aria-label={`Options of question ${index + 1}`}
+              placeholder="One option per line"
+              defaultValue={question.options.join("\n")}
+              onBlur={(event) => updateQuestion(index, (current) => setOptions(current, event.target.value))}
+              rows={3}
+              disabled={isDisabled}
+            />
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <Checkbox
+              checked={question.required}
+              onCheckedChange={(checked) =>
+                updateQuestion(index, (current) => ({ ...current, required: checked === true }))
+              }
+              label="Required"
+              disabled={isDisabled || question.is_knockout}
+            />
+            {KNOCKOUT_QUESTION_TYPES.includes(question.type) && (
+              <Checkbox
+                checked={question.is_knockout}
+                onCheckedChange={(checked) => updateQuestion(index, (current) => setKnockout(current, checked === true))}
+                label="Knockout"
+                disabled={isDisabled}
+              />
+            )}
+          </div>
+
+          {question.is_knockout && question.type === ScreeningQuestionType.YES_NO && (
+            <Select
+              id={`screening_question_expected_${index}`}
+              name="expected_answer"
+              label="Required answer"
+              value={question.expected_answer === false ? "no" : "yes"}
+              options={[
+                { value: "yes", label: "Yes" },
+                { value: "no", label: "No" },
+              ]}
+              onChange={(value) => updateQuestion(index, (current) => ({ ...current, expected_answer: value === "yes" }))}
+              disabled={isDisabled}
+            />
+          )}
+
+          {question.is_knockout && question.type === ScreeningQuestionType.MULTIPLE_CHOICE && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Accepted answers</p>
+              {question.options.map((option) => {
+                const accepted = (question.expected_answer as string[] | null) ?? [];
+                return (
+                  <Checkbox
+                    key={option}
+                    checked={accepted.includes(option)}
+                    onCheckedChange={(checked) =>
+                      updateQuestion(index, (current) => ({
+                        ...current,
+                        expected_answer: checked === true
+                          ? [...accepted, option]
+                          : accepted.filter((value) => value !== option),
+                      }))
+                    }
+                    label={option}
+                    disabled={isDisabled}
+                  />
+                );
+              })}
+            </div>
+          )}
+
+          {question.is_knockout && question.type === ScreeningQuestionType.NUMERIC && (
+            <div className="grid grid-cols-2 gap-3">
+              {(["min", "max"] as const).map((bound) => {
+                const range = (question.expected_answer as NumericRange | null) ?? { min: null, max: null };
+                return (
+                  <Input
+                    key={bound}
+                    type="number"
+                    aria-label={bound === "min" ? "Lowest accepted answer" : "Highest accepted answer"}
+                    placeholder={bound === "min" ? "No minimum" : "No maximum"}
+                    value={range[bound] ?? ""}
+                    onChange={(event) => {
+                      const value = parseBound(event.target.value);
+                      updateQuestion(index, (current) => ({
+                        ...current,
+                        expected_answer: { ...range, [bound]: value },
+                      }));
+                    }}
+                    disabled={isDisabled}
+                  />
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setQuestions((current) => moveQuestion(current, index, -1))}
+              disabled={isDisabled || index === 0}
+            >
+              Move Up
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setQuestions((current) => moveQuestion(current, index, 1))}
+              disabled={isDisabled || index === questions.length - 1}
+            >
+              Move Down
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setQuestions((current) => current.filter((_, i) => i !== index))}
+              disabled={isDisabled}
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {hasKnockouts && (
+        <div className="grid grid-cols-2 items-center gap-4">
+          <Checkbox
+            checked={settings.knockout_auto_reject}
+            onCheckedChange={(checked) =>
+              setSettings((current) => ({ ...current, knockout_auto_reject: checked === true }))
+            }
+            label="Reject applications that fail a knockout"
+            disabled={isDisabled}
+          />
+          <Input
+            type="number"
+            min={0}
+            max={720}
+            aria-label="Hours before the rejection email"
+            placeholder="No rejection email"
+            value={settings.knockout_email_delay_hours ?? ""}
+            onChange={(event) => {
+              const value = parseBound(event.target.value);
+              setSettings((current) => ({ ...current, knockout_email_delay_hours: value }));
+            }}
+            disabled={isDisabled || !settings.knockout_auto_reject}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={handleAdd} disabled={isDisabled || questions.length >= 25}>
+          Add Question
+        </Button>
+        <Button type="button" variant="outline" onClick={handleSave} isLoading={isSaving} disabled={isDisabled}>
+          Save Screening Questions
+        </Button>
+      </div>
+    </fieldset>
+  );
+};
+
+export default ScreeningQuestionsFields;
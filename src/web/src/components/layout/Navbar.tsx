@@ -4,6 +4,7 @@ import * as React from "react" // ^18.0.0
 import { Link } from "react-router-dom" // ^6.0.0
 import { Button } from "../ui/button"
 import { Avatar } from "../ui/avatar"
+import { NotificationMenu } from "./NotificationMenu"
 import * as DropdownMenu from "../ui/dropdown"
 import { useAuth } from "../../lib/hooks/useAuth"
 import { cn } from "../../lib/utils"
@@ -37,6 +38,11 @@ const navigationItems: NavItem[] = [
     label: "Analytics", 
     href: "/analytics", 
     roles: [UserRole.ADMIN, UserRole.RECRUITER] 
+  },
+  { 
+    label: "My Applications", 
+    href: "/portal", 
+    roles: [UserRole.CANDIDATE] 
   }
 ]
 
@@ -176,6 +182,9 @@ export const Navbar: React.FC<NavbarProps> = React.memo(({ className }) => {
             <SearchIcon className="h-5 w-5" />
           </Button>
 
+          {/* Notifications */}
+          {state.user && state.user.role !== UserRole.CANDIDATE && <NotificationMenu />}
+
           {/* User Menu */}
           {state.user ? (
             renderUserMenu()
@@ -0,0 +1,97 @@
+"use client"
+
+import * as React from "react" // ^18.0.0
+import { Link } from "react-router-dom" // ^6.0.0
+import { Button } from "../ui/button"
+import * as DropdownMenu from "../ui/dropdown"
+import { useNotifications } from "../../lib/hooks/useSavedSearches"
+import { cn } from "../../lib/utils"
+import type { Notification } from "../../types/saved-searches"
+
+interface NotificationMenuProps {
+  className?: string
+}
+
+// In-app notifications, such as new saved search matches, with the unread count on the bell
+export const NotificationMenu: React.FC<NotificationMenuProps> = ({ className }) => {
+  const { notifications, unreadCount, markRead } = useNotifications()
+
+  const handleOpen = React.useCallback(
+    (notification: Notification) => {
+      if (!notification.read_at) {
+        void markRead([notification.id])
+      }
+    },
+    [markRead]
+  )
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("relative", className)}
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <BellIcon className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Content align="end" className="w-80">
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">No notifications</p>
+        ) : (
+          <>
+            {notifications.map((notification) => (
+              <DropdownMenu.Item
+                key={notification.id}
+                className={cn("flex flex-col items-start", !notification.read_at && "font-medium")}
+                asChild
+              >
+                <Link to={notification.link ?? "#"} onClick={() => handleOpen(notification)}>
+                  <span>{notification.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {notification.created_at.toLocaleString()}
+                  </span>
+                </Link>
+              </DropdownMenu.Item>
+            ))}
+            {unreadCount > 0 && (
+              <>
+                <DropdownMenu.Separator />
+                <DropdownMenu.Item className="justify-center text-sm" onClick={() => void markRead()}>
+                  Mark all as read
+                </DropdownMenu.Item>
+              </>
+            )}
+          </>
+        )}
+      </DropdownMenu.Content>
+    </DropdownMenu.Root>
+  )
+}
+
+NotificationMenu.displayName = "NotificationMenu"
+
+const BellIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...props}
+  >
+    <path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9" />
+    <path d="M10.3 21a1.94 1.94 0 0 0 3.4 0" />
+  </svg>
+)
+
+export default NotificationMenu
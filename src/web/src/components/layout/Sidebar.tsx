@@ -12,6 +12,8 @@ import {
   Briefcase,
   Users,
   Calendar,
+  UserPlus,
+  ClipboardList,
   ChartBar,
   Settings,
   Menu,
@@ -58,6 +60,18 @@ const getNavigationItems = (userRole?: UserRole): NavigationItem[] => {
       icon: <Calendar className="w-5 h-5" />,
       roles: [UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER],
     },
+    {
+      path: '/referrals',
+      label: 'My Referrals',
+      icon: <UserPlus className="w-5 h-5" />,
+      roles: [UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER],
+    },
+    {
+      path: '/portal',
+      label: 'My Applications',
+      icon: <ClipboardList className="w-5 h-5" />,
+      roles: [UserRole.CANDIDATE],
+    },
     {
       path: '/analytics',
       label: 'Analytics',
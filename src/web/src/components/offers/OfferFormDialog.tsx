@@ -0,0 +1,295 @@
+import * as React from "react"; // ^18.0.0
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Select from "../ui/select";
+import type { SelectOption } from "../ui/select";
+import Textarea from "../ui/textarea";
+import type { Offer, OfferCreateData, OfferReviseData } from "../../types/offers";
+
+interface OfferFormValues {
+  application_id: string;
+  base_salary: string;
+  bonus: string;
+  equity: string;
+  currency: string;
+  start_date: string;
+  expires_at: string;
+  notes: string;
+  change_reason: string;
+}
+
+interface OfferFormDialogProps {
+  open: boolean;
+  // Offer being revised; a new offer is drafted when omitted
+  offer?: Offer | null;
+  applicationOptions?: SelectOption[];
+  onCreate: (data: OfferCreateData) => Promise<void>;
+  onRevise: (offerId: string, data: OfferReviseData) => Promise<void>;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+  error?: string | null;
+}
+
+const CURRENCY_OPTIONS: SelectOption[] = ["USD", "EUR", "GBP", "CAD", "AUD", "INR"].map(
+  (currency) => ({ value: currency, label: currency })
+);
+
+// datetime-local inputs work in local time without a zone
+const toLocalDateTime = (value: Date | string): string => {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const getInitialValues = (offer?: Offer | null): OfferFormValues => ({
+  application_id: offer?.application_id ?? "",
+  base_salary: offer ? String(offer.base_salary) : "",
+  bonus: offer?.bonus != null ? String(offer.bonus) : "",
+  equity: offer?.equity ?? "",
+  currency: offer?.currency ?? "USD",
+  start_date: offer ? offer.start_date.slice(0, 10) : "",
+  expires_at: offer ? toLocalDateTime(offer.expires_at) : "",
+  notes: offer?.notes ?? "",
+  change_reason: "",
+});
+
+/**
+ * Converts form values into offer terms; empty optional fields become null
+ */
+const toOfferTerms = (values: OfferFormValues) => ({
+  base_salary: Number(values.base_salary),
+  bonus: values.bonus.trim() ? Number(values.bonus) : null,
+  equity: values.equity.trim() || null,
+  currency: values.currency,
+  start_date: values.start_date,
+  expires_at: new Date(values.expires_at).toISOString(),
+});
+
+const OfferFormDialog: React.FC<OfferFormDialogProps> = ({
+  open,
+  offer,
+  applicationOptions = [],
+  onCreate,
+  onRevise,
+  onCancel,
+  isSubmitting = false,
+  error,
+}) => {
+  const [values, setValues] = React.useState<OfferFormValues>(() => getInitialValues(offer));
+  const isRevision = !!offer;
+
+  // Reset the form whenever the dialog opens for another offer
+  React.useEffect(() => {
+    if (open) {
+      setValues(getInitialValues(offer));
+    }
+  }, [open, offer]);
+
+  const setField = (field: keyof OfferFormValues) => (value: string) =>
+    setValues((prev) => ({ ...prev, [field]: value }));
+
+  const isComplete =
+    (isRevision || !!values.application_id) &&
+    values.base_salary.trim() !== "" &&
+    !!values.start_date &&
+    !!values.expires_at &&
+    (!isRevision || !!values.change_reason.trim());
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isComplete) return;
+
+    const terms = toOfferTerms(values);
+
+    if (!offer) {
+      await onCreate({
+        application_id: values.application_id,
+        ...terms,
+        notes: values.notes.trim() || undefined,
+      });
+      return;
+    }
+
+    // Only send the terms that changed so the version history stays meaningful
+    const current = toOfferTerms(getInitialValues(offer));
+    const changes = (Object.keys(terms) as (keyof typeof terms)[]).reduce(
+      (acc, key) => (terms[key] !== current[key] ? { ...acc, [key]: terms[key] } : acc),
+      {} as Partial<typeof terms>
+    );
+
+    await onRevise(offer.id, {
+      ...changes,
+      notes: values.notes.trim() !== (offer.notes ?? "") ? values.notes.trim() || null : undefined,
+      change_reason: values.change_reason.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent
+        className="sm:max-w-[560px]"
+        aria-labelledby="offer-form-title"
+        aria-describedby="offer-form-description"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle id="offer-form-title">
+              {isRevision ? `Revise Offer (v${offer.version})` : "New Offer"}
+            </DialogTitle>
+            <DialogDescription id="offer-form-description">
+              {isRevision
+                ? "Revising creates a new version. A sent offer returns to draft until it is sent again."
+                : "Offers are saved as drafts and sent to the candidate separately."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!isRevision && (
+            <Select
+              id="offer-application"
+              label="Application"
+              placeholder="Select an application"
+              value={values.application_id || undefined}
+              options={applicationOptions}
+              onChange={setField("application_id")}
+              disabled={isSubmitting}
+              required
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="offer-base-salary" className="block text-sm font-medium">
+                Base Salary
+              </label>
+              <Input
+                id="offer-base-salary"
+                type="number"
+                min={0}
+                step="0.01"
+                value={values.base_salary}
+                onChange={(e) => setField("base_salary")(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <Select
+              id="offer-currency"
+              label="Currency"
+              value={values.currency}
+              options={CURRENCY_OPTIONS}
+              onChange={setField("currency")}
+              disabled={isSubmitting}
+            />
+            <div className="space-y-2">
+              <label htmlFor="offer-bonus" className="block text-sm font-medium">
+                Bonus
+              </label>
+              <Input
+                id="offer-bonus"
+                type="number"
+                min={0}
+                step="0.01"
+                value={values.bonus}
+                onChange={(e) => setField("bonus")(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="offer-equity" className="block text-sm font-medium">
+                Equity
+              </label>
+              <Input
+                id="offer-equity"
+                placeholder="e.g. 5,000 options over 4 years"
+                value={values.equity}
+                onChange={(e) => setField("equity")(e.target.value)}
+                maxLength={500}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="offer-start-date" className="block text-sm font-medium">
+                Start Date
+              </label>
+              <Input
+                id="offer-start-date"
+                type="date"
+                value={values.start_date}
+                onChange={(e) => setField("start_date")(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="offer-expires-at" className="block text-sm font-medium">
+                Expires
+              </label>
+              <Input
+                id="offer-expires-at"
+                type="datetime-local"
+                value={values.expires_at}
+                onChange={(e) => setField("expires_at")(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="offer-notes" className="block text-sm font-medium">
+              Notes
+            </label>
+            <Textarea
+              id="offer-notes"
+              value={values.notes}
+              onChange={(e) => setField("notes")(e.target.value)}
+              maxLength={5000}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {isRevision && (
+            <div className="space-y-2">
+              <label htmlFor="offer-change-reason" className="block text-sm font-medium">
+                Reason for Revision
+              </label>
+              <Textarea
+                id="offer-change-reason"
+                value={values.change_reason}
+                onChange={(e) => setField("change_reason")(e.target.value)}
+                maxLength={1000}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isComplete || isSubmitting} isLoading={isSubmitting}>
+              {isRevision ? "Save Revision" : "Save Draft"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OfferFormDialog;
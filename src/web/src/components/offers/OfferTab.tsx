@@ -0,0 +1,336 @@
+import * as React from "react"; // ^18.0.0
+import { useQuery } from "@tanstack/react-query"; // ^4.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Badge } from "../ui/badge";
+import type { BadgeProps } from "../ui/badge";
+import { Button } from "../ui/button";
+import Textarea from "../ui/textarea";
+import OfferFormDialog from "./OfferFormDialog";
+import ApprovalPanel from "../approvals/ApprovalPanel";
+import { useOffers } from "../../lib/hooks/useOffers";
+import { listApplications } from "../../lib/api/applications";
+import { formatDate } from "../../lib/utils";
+import { CACHE_KEYS } from "../../config/constants";
+import { ApplicationStatus } from "../../types/candidates";
+import { ApprovalEntityType } from "../../types/approvals";
+import { OPEN_OFFER_STATUSES, OfferStatus } from "../../types/offers";
+import type { Offer, OfferCompensation } from "../../types/offers";
+
+interface OfferTabProps {
+  candidateId: string;
+}
+
+type PendingResponse = { offer: Offer; response: "accept" | "decline" };
+
+const STATUS_VARIANTS: Record<OfferStatus, BadgeProps["variant"]> = {
+  [OfferStatus.DRAFT]: "secondary",
+  [OfferStatus.SENT]: "info",
+  [OfferStatus.ACCEPTED]: "success",
+  [OfferStatus.DECLINED]: "destructive",
+  [OfferStatus.EXPIRED]: "warning",
+};
+
+// Applications that can no longer receive a new offer
+const CLOSED_APPLICATION_STATUSES = [
+  ApplicationStatus.OFFER_ACCEPTED,
+  ApplicationStatus.REJECTED,
+  ApplicationStatus.WITHDRAWN,
+];
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+
+const describeCompensation = ({ base_salary, bonus, equity, currency }: OfferCompensation) =>
+  [
+    `${formatMoney(base_salary, currency)} base`,
+    bonus != null ? `${formatMoney(bonus, currency)} bonus` : null,
+    equity,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Offers tab of the candidate details page: drafts, revisions, sending and recording
+ * the candidate's answer, with the version history of each offer
+ */
+const OfferTab: React.FC<OfferTabProps> = ({ candidateId }) => {
+  const {
+    offers,
+    isLoading,
+    error,
+    createOffer,
+    reviseOffer,
+    sendOffer,
+    respondToOffer,
+    isSaving,
+    isSending,
+    isResponding,
+  } = useOffers(candidateId);
+
+  const { data: applications } = useQuery({
+    queryKey: [CACHE_KEYS.APPLICATION_LIST, { candidate_id: candidateId }],
+    queryFn: () => listApplications({ candidate_id: candidateId, page: 1, limit: 50 }),
+    staleTime: 30000, // 30 seconds
+  });
+
+  const [formOffer, setFormOffer] = React.useState<Offer | null | undefined>(undefined);
+  const [formError, setFormError] = React.useState<string | null>(null);
+  const [pendingResponse, setPendingResponse] = React.useState<PendingResponse | null>(null);
+  const [responseReason, setResponseReason] = React.useState("");
+
+  // Only applications without an open offer can receive a new one
+  const applicationOptions = React.useMemo(() => {
+    const withOpenOffer = new Set(
+      offers
+        .filter((offer) => OPEN_OFFER_STATUSES.includes(offer.status))
+        .map((offer) => offer.application_id)
+    );
+    return (applications?.data ?? [])
+      .filter(
+        (application) =>
+          !CLOSED_APPLICATION_STATUSES.includes(application.status) &&
+          !withOpenOffer.has(application.id)
+      )
+      .map((application) => ({
+        value: application.id,
+        label: application.job_title ?? application.job_id,
+      }));
+  }, [applications, offers]);
+
+  const closeForm = () => {
+    setFormOffer(undefined);
+    setFormError(null);
+  };
+
+  const handleSend = async (offer: Offer) => {
+    try {
+      await sendOffer(offer.id);
+      toast.success("Offer sent to the candidate");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleRespond = async () => {
+    if (!pendingResponse) return;
+    try {
+      await respondToOffer(
+        pendingResponse.offer.id,
+        pendingResponse.response,
+        responseReason.trim() || undefined
+      );
+      toast.success(
+        pendingResponse.response === "accept" ? "Offer acceptance recorded" : "Offer decline recorded"
+      );
+      setPendingResponse(null);
+      setResponseReason("");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div role="status" className="animate-pulse space-y-4">
+        <div className="h-24 bg-gray-200 rounded"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div role="alert" className="p-4 bg-red-50 border border-red-200 rounded-md">
+        <p className="text-red-600">{getErrorMessage(error)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <section aria-labelledby="offers-heading" className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 id="offers-heading" className="text-2xl font-bold">
+          Offers
+        </h2>
+        <Button onClick={() => setFormOffer(null)} disabled={!applicationOptions.length}>
+          New Offer
+        </Button>
+      </div>
+
+      {!offers.length && (
+        <p className="text-sm text-muted-foreground">No offers have been made to this candidate.</p>
+      )}
+
+      <ul className="space-y-4" role="list">
+        {offers.map((offer) => (
+          <li key={offer.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h3 className="text-lg font-semibold">{offer.job_title ?? "Offer"}</h3>
+                <p className="text-sm text-gray-500">
+                  Version {offer.version} · Starts {offer.start_date.slice(0, 10)} · Expires{" "}
+                  {formatDate(offer.expires_at)}
+                </p>
+              </div>
+              <Badge variant={STATUS_VARIANTS[offer.status]}>{offer.status}</Badge>
+            </div>
+
+            <p>{describeCompensation(offer)}</p>
+            {offer.notes && <p className="text-sm text-gray-600">{offer.notes}</p>}
+            {offer.response_reason && (
+              <p className="text-sm text-gray-600">Candidate response: {offer.response_reason}</p>
+            )}
+
+            {offer.status === OfferStatus.DRAFT && (
+              <ApprovalPanel
+                entityType={ApprovalEntityType.OFFER}
+                entityId={offer.id}
+                entityVersion={offer.version}
+                canRequest
+              />
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {offer.status === OfferStatus.DRAFT && (
+                <Button size="sm" onClick={() => handleSend(offer)} disabled={isSending}>
+                  Send Offer
+                </Button>
+              )}
+              {OPEN_OFFER_STATUSES.includes(offer.status) && (
+                <Button size="sm" variant="outline" onClick={() => setFormOffer(offer)}>
+                  Revise
+                </Button>
+              )}
+              {offer.status === OfferStatus.SENT && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPendingResponse({ offer, response: "accept" })}
+                  >
+                    Record Acceptance
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPendingResponse({ offer, response: "decline" })}
+                  >
+                    Record Decline
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {!!offer.versions?.length && (
+              <details>
+                <summary className="cursor-pointer text-sm font-medium">
+                  Version history ({offer.versions.length})
+                </summary>
+                <ol className="mt-2 space-y-2 text-sm" role="list">
+                  {offer.versions.map((version) => (
+                    <li key={version.id} className="border-l-2 pl-3">
+                      <p className="font-medium">
+                        v{version.version} · {formatDate(version.created_at)}
+                      </p>
+                      <p>{describeCompensation(version)}</p>
+                      <p className="text-gray-500">
+                        Starts {version.start_date.slice(0, 10)} · Expires {formatDate(version.expires_at)}
+                      </p>
+                      {version.change_reason && (
+                        <p className="text-gray-600">{version.change_reason}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <OfferFormDialog
+        open={formOffer !== undefined}
+        offer={formOffer}
+        applicationOptions={applicationOptions}
+        onCreate={async (data) => {
+          try {
+            await createOffer(data);
+            toast.success("Offer draft saved");
+            closeForm();
+          } catch (err) {
+            setFormError(getErrorMessage(err));
+          }
+        }}
+        onRevise={async (offerId, data) => {
+          try {
+            await reviseOffer(offerId, data);
+            toast.success("Offer revised");
+            closeForm();
+          } catch (err) {
+            setFormError(getErrorMessage(err));
+          }
+        }}
+        onCancel={closeForm}
+        isSubmitting={isSaving}
+        error={formError}
+      />
+
+      <Dialog
+        open={!!pendingResponse}
+        onOpenChange={(isOpen) => !isOpen && setPendingResponse(null)}
+      >
+        <DialogContent aria-labelledby="offer-response-title">
+          <DialogHeader>
+            <DialogTitle id="offer-response-title">
+              {pendingResponse?.response === "accept" ? "Record Acceptance" : "Record Decline"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingResponse?.response === "accept"
+                ? "The application will move to the hired stage of the job pipeline."
+                : "The application will move to the declined stage of the job pipeline."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label htmlFor="offer-response-reason" className="block text-sm font-medium">
+              Reason (optional)
+            </label>
+            <Textarea
+              id="offer-response-reason"
+              value={responseReason}
+              onChange={(e) => setResponseReason(e.target.value)}
+              maxLength={1000}
+              disabled={isResponding}
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setPendingResponse(null)}
+              disabled={isResponding}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleRespond} disabled={isResponding} isLoading={isResponding}>
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
+
+export default OfferTab;
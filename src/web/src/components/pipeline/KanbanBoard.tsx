@@ -2,16 +2,20 @@ import * as React from "react"; // ^18.0.0
 import { DragDropContext, DropResult, DragStart } from "@hello-pangea/dnd"; // ^16.3.0
 import { cn } from "../../lib/utils";
 import KanbanColumn from "./KanbanColumn";
-import { ApplicationStatus, Candidate } from "../../types/candidates";
+import { StageCategory } from "../../types/pipelines";
+import type { PipelineStage } from "../../types/pipelines";
+import type { ApplicationWithCandidate, ApplicationsByStage } from "../../types/applications";
+import { WITHDRAWN_COLUMN_ID } from "../../lib/hooks/useApplications";
 
 interface KanbanBoardProps {
-  candidatesByStage: Record<ApplicationStatus, Candidate[]>;
-  onCandidateMove: (
-    candidateId: string,
-    source: ApplicationStatus,
-    destination: ApplicationStatus
+  stages: PipelineStage[];
+  applicationsByStage: ApplicationsByStage;
+  onApplicationMove: (
+    applicationId: string,
+    sourceStageId: string,
+    destinationStageId: string
   ) => Promise<void>;
-  onCandidateClick: (candidate: Candidate) => void;
+  onApplicationClick: (application: ApplicationWithCandidate) => void;
   className?: string;
   isLoading?: boolean;
   onError?: (error: Error) => void;
@@ -19,9 +23,10 @@ interface KanbanBoardProps {
 }
 
 const KanbanBoard = React.memo(({
-  candidatesByStage,
-  onCandidateMove,
-  onCandidateClick,
+  stages,
+  applicationsByStage,
+  onApplicationMove,
+  onApplicationClick,
   className,
   isLoading,
   onError,
@@ -61,25 +66,21 @@ const KanbanBoard = React.memo(({
 
     const { source, destination, draggableId } = result;
 
-    // Return if dropped outside or in same position
-    if (!destination || 
-        (source.droppableId === destination.droppableId && 
-         source.index === destination.index)) {
+    // Return if dropped outside or within the same stage; cards are not ranked in a column
+    if (!destination || source.droppableId === destination.droppableId) {
       return;
     }
 
     try {
-      // Convert droppableIds to ApplicationStatus
-      const sourceStatus = source.droppableId as ApplicationStatus;
-      const destinationStatus = destination.droppableId as ApplicationStatus;
+      const destinationStage = stages.find(stage => stage.id === destination.droppableId);
 
-      // Announce status change for screen readers
-      if (liveRegionRef.current) {
-        liveRegionRef.current.textContent = `Moved candidate to ${destinationStatus.toLowerCase().replace('_', ' ')}`;
+      // Announce stage change for screen readers
+      if (liveRegionRef.current && destinationStage) {
+        liveRegionRef.current.textContent = `Moved candidate to ${destinationStage.name}`;
       }
 
       // Call the move handler
-      await onCandidateMove(draggableId, sourceStatus, destinationStatus);
+      await onApplicationMove(draggableId, source.droppableId, destination.droppableId);
     } catch (error) {
       if (error instanceof Error) {
         onError?.(error);
@@ -92,16 +93,9 @@ const KanbanBoard = React.memo(({
     }
   };
 
-  // Map of stage titles for display
-  const stageTitles: Record<ApplicationStatus, string> = {
-    [ApplicationStatus.APPLIED]: "Applied",
-    [ApplicationStatus.SCREENING]: "Screening",
-    [ApplicationStatus.INTERVIEWING]: "Interviewing",
-    [ApplicationStatus.OFFER_PENDING]: "Offer Pending",
-    [ApplicationStatus.OFFER_ACCEPTED]: "Offer Accepted",
-    [ApplicationStatus.OFFER_DECLINED]: "Offer Declined",
-    [ApplicationStatus.REJECTED]: "Rejected"
-  };
+  // Rejection stages are rendered as archive columns after the active pipeline
+  const activeStages = stages.filter(stage => stage.category !== StageCategory.REJECTED);
+  const archiveStages = stages.filter(stage => stage.category === StageCategory.REJECTED);
 
   return (
     <div 
@@ -126,46 +120,50 @@ const KanbanBoard = React.memo(({
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
       >
-        {/* Render columns for active stages */}
-        {Object.entries(candidatesByStage)
-          .filter(([status]) => status !== ApplicationStatus.OFFER_DECLINED && 
-                              status !== ApplicationStatus.REJECTED)
-          .map(([status, candidates]) => (
+        {/* Render columns for active stages in template order */}
+        {activeStages.map((stage) => (
+          <KanbanColumn
+            key={stage.id}
+            id={stage.id}
+            title={stage.name}
+            applications={applicationsByStage[stage.id] ?? []}
+            onApplicationClick={onApplicationClick}
+            isLoading={isLoading}
+            onError={onError}
+            className={cn(
+              activeDragId && "transition-colors duration-200",
+              activeDragId && stage.category === StageCategory.HIRED &&
+              "bg-green-50 dark:bg-green-900/10"
+            )}
+          />
+        ))}
+
+        {/* Archive Columns */}
+        <div className="flex gap-4 min-w-max">
+          {archiveStages.map((stage) => (
             <KanbanColumn
-              key={status}
-              id={status}
-              title={stageTitles[status as ApplicationStatus]}
-              candidates={candidates}
-              onCandidateClick={onCandidateClick}
-              isLoading={isLoading}
-              onError={onError}
-              className={cn(
-                activeDragId && "transition-colors duration-200",
-                activeDragId && status === "OFFER_ACCEPTED" && 
-                "bg-green-50 dark:bg-green-900/10"
-              )}
-            />
-          ))}
-      </DragDropContext>
-
-      {/* Archive Columns */}
-      <div className="flex gap-4 min-w-max">
-        {Object.entries(candidatesByStage)
-          .filter(([status]) => status === ApplicationStatus.OFFER_DECLINED || 
-                              status === ApplicationStatus.REJECTED)
-          .map(([status, candidates]) => (
-            <KanbanColumn
-              key={status}
-              id={status}
-              title={stageTitles[status as ApplicationStatus]}
-              candidates={candidates}
-              onCandidateClick={onCandidateClick}
+              key={stage.id}
+              id={stage.id}
+              title={stage.name}
+              applications={applicationsByStage[stage.id] ?? []}
+              onApplicationClick={onApplicationClick}
               isLoading={isLoading}
               onError={onError}
               className="opacity-75"
             />
           ))}
-      </div>
+          <KanbanColumn
+            id={WITHDRAWN_COLUMN_ID}
+            title="Withdrawn"
+            applications={applicationsByStage[WITHDRAWN_COLUMN_ID] ?? []}
+            onApplicationClick={onApplicationClick}
+            isLoading={isLoading}
+            onError={onError}
+            isDropDisabled
+            className="opacity-75"
+          />
+        </div>
+      </DragDropContext>
     </div>
   );
 });
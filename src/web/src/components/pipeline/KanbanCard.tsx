@@ -2,37 +2,40 @@ import * as React from "react"; // ^18.0.0
 import { DraggableProvided } from "react-beautiful-dnd"; // ^13.1.1
 import { Card, CardContent, CardHeader } from "../ui/card";
 import { Badge } from "../ui/badge";
+import ScreeningAnswers from "./ScreeningAnswers";
 import { cn } from "../../lib/utils";
-import type { Candidate } from "../../types/candidates";
+import type { ApplicationWithCandidate } from "../../types/applications";
 
 interface KanbanCardProps {
-  candidate: Candidate;
+  application: ApplicationWithCandidate;
   draggableProps: DraggableProvided;
-  onClick: (candidate: Candidate) => void;
+  onClick: (application: ApplicationWithCandidate) => void;
   isDragging: boolean;
 }
 
 const KanbanCard = React.memo(({ 
-  candidate, 
+  application, 
   draggableProps, 
   onClick, 
   isDragging 
 }: KanbanCardProps) => {
+  const { candidate } = application;
+
   const handleClick = React.useCallback((
     event: React.MouseEvent | React.KeyboardEvent
   ) => {
     event.preventDefault();
-    onClick(candidate);
-  }, [candidate, onClick]);
+    onClick(application);
+  }, [application, onClick]);
 
   const handleKeyDown = React.useCallback((
     event: React.KeyboardEvent
   ) => {
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
-      onClick(candidate);
+      onClick(application);
     }
-  }, [candidate, onClick]);
+  }, [application, onClick]);
 
   return (
     <div
@@ -58,22 +61,22 @@ const KanbanCard = React.memo(({
       >
         <CardHeader className="p-4 pb-2">
           <div className="flex items-center gap-3">
-            {candidate.avatar_url && (
-              <img
-                src={candidate.avatar_url}
-                alt={candidate.full_name}
-                className="w-8 h-8 rounded-full"
-                loading="lazy"
-              />
-            )}
             <div className="flex-1 min-w-0">
               <h3 className="font-medium text-sm text-gray-900 dark:text-gray-100 truncate">
                 {candidate.full_name}
               </h3>
               <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-                {candidate.role}
+                {candidate.location}
               </p>
             </div>
+            {application.match_score !== null && (
+              <span
+                className="text-xs font-medium text-gray-700 dark:text-gray-300"
+                aria-label={`Match score ${Math.round(application.match_score)} percent`}
+              >
+                {Math.round(application.match_score)}%
+              </span>
+            )}
           </div>
         </CardHeader>
         <CardContent className="p-4 pt-0">
@@ -111,6 +114,11 @@ const KanbanCard = React.memo(({
               )}
             </div>
           )}
+          <ScreeningAnswers
+            answers={application.screening_answers ?? []}
+            limit={2}
+            className="mt-2"
+          />
         </CardContent>
       </Card>
     </div>
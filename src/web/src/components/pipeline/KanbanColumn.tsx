@@ -2,27 +2,29 @@ import * as React from "react"; // ^18.0.0
 import { Droppable, DroppableProvided } from "@hello-pangea/dnd"; // ^16.3.0
 import { cn } from "../../lib/utils";
 import KanbanCard from "./KanbanCard";
-import type { Candidate } from "../../types/candidates";
+import type { ApplicationWithCandidate } from "../../types/applications";
 import { Card } from "../ui/card";
 
 interface KanbanColumnProps {
   id: string;
   title: string;
-  candidates: Candidate[];
-  onCandidateClick?: (candidate: Candidate) => void;
+  applications: ApplicationWithCandidate[];
+  onApplicationClick?: (application: ApplicationWithCandidate) => void;
   className?: string;
   isLoading?: boolean;
   onError?: (error: Error) => void;
+  isDropDisabled?: boolean;
 }
 
 const KanbanColumn = React.memo(({
   id,
   title,
-  candidates,
-  onCandidateClick,
+  applications,
+  onApplicationClick,
   className,
   isLoading,
-  onError
+  onError,
+  isDropDisabled = false
 }: KanbanColumnProps) => {
   // Animation frame reference for smooth drag animations
   const animationFrameRef = React.useRef<number>();
@@ -62,7 +64,7 @@ const KanbanColumn = React.memo(({
   }
 
   return (
-    <Droppable droppableId={id}>
+    <Droppable droppableId={id} isDropDisabled={isDropDisabled}>
       {(provided: DroppableProvided, snapshot) => (
         <div
           ref={provided.innerRef}
@@ -82,23 +84,23 @@ const KanbanColumn = React.memo(({
             </h3>
             <span
               className="text-sm text-gray-500 dark:text-gray-400"
-              aria-label={`${candidates.length} candidates`}
+              aria-label={`${applications.length} candidates`}
             >
-              {candidates.length}
+              {applications.length}
             </span>
           </div>
 
           {/* Candidate Cards */}
-          {candidates.length > 0 ? (
-            candidates.map((candidate, index) => (
+          {applications.length > 0 ? (
+            applications.map((application, index) => (
               <KanbanCard
-                key={candidate.id}
-                candidate={candidate}
+                key={application.id}
+                application={application}
                 draggableProps={{
-                  draggableId: candidate.id,
+                  draggableId: application.id,
                   index: index
                 }}
-                onClick={onCandidateClick}
+                onClick={onApplicationClick}
                 isDragging={snapshot.isDraggingOver}
               />
             ))
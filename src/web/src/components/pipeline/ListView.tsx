@@ -13,14 +13,18 @@ import {
 } from "@shadcn/ui" // ^0.1.0
 
 import { Badge } from "../ui/badge"
+import ScreeningAnswers from "./ScreeningAnswers"
 import { cn } from "../../lib/utils"
-import { Candidate, CandidateStatus } from "../../types/candidates"
+import { ApplicationStatus } from "../../types/candidates"
+import type { ApplicationWithCandidate } from "../../types/applications"
+import type { PipelineStage } from "../../types/pipelines"
 
 // Interfaces
 interface ListViewProps {
-  candidates: Candidate[]
-  onCandidateClick: (candidate: Candidate) => void
-  onStatusChange: (candidate: Candidate, newStatus: CandidateStatus) => void
+  applications: ApplicationWithCandidate[]
+  stages?: PipelineStage[]
+  onApplicationClick: (application: ApplicationWithCandidate) => void
+  onStatusChange: (applicationId: string, sourceStageId: string, destinationStageId: string) => void
   isLoading: boolean
   sortConfig: SortConfig
   onSort: (column: string) => void
@@ -35,7 +39,7 @@ interface Column {
   key: string
   label: string
   sortable: boolean
-  render?: (candidate: Candidate) => React.ReactNode
+  render?: (application: ApplicationWithCandidate, stageName?: string) => React.ReactNode
 }
 
 // Constants
@@ -44,7 +48,7 @@ const COLUMNS: Column[] = [
     key: "full_name",
     label: "Candidate",
     sortable: true,
-    render: (candidate) => (
+    render: ({ candidate }) => (
       <div className="flex flex-col">
         <span className="font-medium">{candidate.full_name}</span>
         <span className="text-sm text-muted-foreground">{candidate.email}</span>
@@ -53,14 +57,14 @@ const COLUMNS: Column[] = [
   },
   {
     key: "status",
-    label: "Status",
+    label: "Stage",
     sortable: true,
-    render: (candidate) => (
+    render: (application, stageName) => (
       <Badge
-        variant={getStatusVariant(candidate.status)}
-        title={`Status: ${candidate.status}`}
+        variant={getStatusVariant(application.status)}
+        title={`Stage: ${stageName ?? application.status}`}
       >
-        {candidate.status}
+        {stageName ?? application.status}
       </Badge>
     ),
   },
@@ -68,12 +72,13 @@ const COLUMNS: Column[] = [
     key: "experience_level",
     label: "Experience",
     sortable: true,
+    render: ({ candidate }) => candidate.experience_level,
   },
   {
     key: "skills",
     label: "Skills",
     sortable: false,
-    render: (candidate) => (
+    render: ({ candidate }) => (
       <div className="flex flex-wrap gap-1">
         {candidate.skills.slice(0, 3).map((skill) => (
           <Badge key={skill} variant="secondary" className="text-xs">
@@ -89,41 +94,56 @@ const COLUMNS: Column[] = [
     ),
   },
   {
-    key: "last_active",
-    label: "Last Active",
+    key: "screening_answers",
+    label: "Screening",
+    sortable: false,
+    render: (application) => (
+      <ScreeningAnswers answers={application.screening_answers ?? []} limit={3} />
+    ),
+  },
+  {
+    key: "updated_at",
+    label: "Last Updated",
     sortable: true,
-    render: (candidate) => format(candidate.last_active, "MMM dd, yyyy"),
+    render: (application) => format(new Date(application.updated_at), "MMM dd, yyyy"),
   },
 ]
 
 // Helper functions
-const getStatusVariant = (status: CandidateStatus): "default" | "success" | "warning" | "secondary" => {
-  const variants = {
-    [CandidateStatus.ACTIVE]: "success",
-    [CandidateStatus.PASSIVE]: "warning",
-    [CandidateStatus.NOT_LOOKING]: "secondary",
-    [CandidateStatus.HIRED]: "success",
-    [CandidateStatus.ARCHIVED]: "secondary",
+const getStatusVariant = (status: ApplicationStatus): "default" | "success" | "warning" | "secondary" => {
+  const variants: Partial<Record<ApplicationStatus, "success" | "warning" | "secondary">> = {
+    [ApplicationStatus.OFFER_PENDING]: "warning",
+    [ApplicationStatus.OFFER_ACCEPTED]: "success",
+    [ApplicationStatus.OFFER_DECLINED]: "secondary",
+    [ApplicationStatus.REJECTED]: "secondary",
+    [ApplicationStatus.WITHDRAWN]: "secondary",
   }
   return variants[status] || "default"
 }
 
 // Main component
 const ListView: React.FC<ListViewProps> = React.memo(({
-  candidates,
-  onCandidateClick,
+  applications,
+  stages = [],
+  onApplicationClick,
   onStatusChange,
   isLoading,
   sortConfig,
   onSort,
 }) => {
+  // Stage names from the job's pipeline template, keyed by stage id
+  const stageNames = React.useMemo(
+    () => new Map(stages.map((stage) => [stage.id, stage.name])),
+    [stages]
+  )
+
   // Refs
   const parentRef = React.useRef<HTMLDivElement>(null)
   const [parentHeight, setParentHeight] = React.useState(0)
 
   // Virtual scroll setup
   const rowVirtualizer = useVirtualizer({
-    count: candidates.length,
+    count: applications.length,
     getScrollElement: () => parentRef.current,
     estimateSize: () => 64, // Estimated row height
     overscan: 5,
@@ -142,14 +162,14 @@ const ListView: React.FC<ListViewProps> = React.memo(({
 
   // Event handlers
   const handleRowClick = React.useCallback(
-    (candidate: Candidate, event: React.MouseEvent | React.KeyboardEvent) => {
+    (application: ApplicationWithCandidate, event: React.MouseEvent | React.KeyboardEvent) => {
       // Ignore if clicking on interactive elements
       if ((event.target as HTMLElement).closest('button, a, [role="button"]')) {
         return
       }
-      onCandidateClick(candidate)
+      onApplicationClick(application)
     },
-    [onCandidateClick]
+    [onApplicationClick]
   )
 
   const handleSort = React.useCallback(
@@ -207,10 +227,10 @@ const ListView: React.FC<ListViewProps> = React.memo(({
           </TableHeader>
           <TableBody>
             {rowVirtualizer.getVirtualItems().map((virtualRow) => {
-              const candidate = candidates[virtualRow.index]
+              const application = applications[virtualRow.index]
               return (
                 <TableRow
-                  key={candidate.id}
+                  key={application.id}
                   className={cn(
                     "cursor-pointer hover:bg-muted/50",
                     virtualRow.index % 2 === 0 ? "bg-background" : "bg-muted/20"
@@ -219,22 +239,25 @@ const ListView: React.FC<ListViewProps> = React.memo(({
                     height: virtualRow.size,
                     transform: `translateY(${virtualRow.start}px)`,
                   }}
-                  onClick={(e) => handleRowClick(candidate, e)}
+                  onClick={(e) => handleRowClick(application, e)}
                   onKeyDown={(e) => {
                     if (e.key === "Enter" || e.key === " ") {
                       e.preventDefault()
-                      handleRowClick(candidate, e)
+                      handleRowClick(application, e)
                     }
                   }}
                   tabIndex={0}
                   role="button"
-                  aria-label={`View details for ${candidate.full_name}`}
+                  aria-label={`View details for ${application.candidate.full_name}`}
                 >
                   {COLUMNS.map((column) => (
                     <TableCell key={column.key}>
                       {column.render
-                        ? column.render(candidate)
-                        : candidate[column.key as keyof Candidate]}
+                        ? column.render(
+                            application,
+                            application.stage_id ? stageNames.get(application.stage_id) : undefined
+                          )
+                        : String(application[column.key as keyof ApplicationWithCandidate] ?? "")}
                     </TableCell>
                   ))}
                 </TableRow>
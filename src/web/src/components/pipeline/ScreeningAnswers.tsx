@@ -0,0 +1,69 @@
+import * as React from "react"; // ^18.0.0
+import { Badge } from "../ui/badge";
+import { cn } from "../../lib/utils";
+import { ScreeningQuestionType } from "../../types/screening";
+import type { ScreeningAnswerSummary } from "../../types/screening";
+
+interface ScreeningAnswersProps {
+  answers: ScreeningAnswerSummary[];
+  // Number of answers listed before the rest are summarized
+  limit?: number;
+  className?: string;
+}
+
+/**
+ * Answer as shown to reviewers; uploaded files are shown by name
+ */
+export const formatScreeningAnswer = ({ type, value }: ScreeningAnswerSummary): string => {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (type === ScreeningQuestionType.FILE) {
+    return decodeURIComponent(String(value).split("/").pop() ?? String(value));
+  }
+  return String(value);
+};
+
+/**
+ * Screening answers of an application, flagging a failed knockout first
+ */
+const ScreeningAnswers = ({ answers, limit = answers.length, className }: ScreeningAnswersProps) => {
+  if (answers.length === 0) return null;
+
+  const failed = answers.filter((answer) => answer.knockout_passed === false);
+  const shown = answers.slice(0, limit);
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      {failed.length > 0 && (
+        <Badge
+          variant="destructive"
+          className="text-xs"
+          title={`Failed: ${failed.map((answer) => answer.prompt).join(", ")}`}
+        >
+          Failed knockout
+        </Badge>
+      )}
+      <dl className="space-y-0.5 text-xs">
+        {shown.map((answer) => (
+          <div key={answer.question_id} className="flex gap-1 min-w-0">
+            <dt className="text-gray-500 dark:text-gray-400 truncate">{answer.prompt}:</dt>
+            <dd
+              className={cn(
+                "font-medium truncate",
+                answer.knockout_passed === false && "text-red-600 dark:text-red-400"
+              )}
+            >
+              {formatScreeningAnswer(answer)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {answers.length > shown.length && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          +{answers.length - shown.length} more answers
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScreeningAnswers;
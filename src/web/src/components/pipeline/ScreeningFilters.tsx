@@ -0,0 +1,102 @@
+import * as React from "react"; // ^18.0.0
+import Select from "../ui/select";
+import { ScreeningQuestionType } from "../../types/screening";
+import type { ScreeningQuestion } from "../../types/screening";
+import type { ScreeningAnswerFilter } from "../../types/applications";
+
+export type KnockoutFilter = "passed" | "failed";
+
+interface ScreeningFiltersProps {
+  questions: ScreeningQuestion[];
+  knockout?: KnockoutFilter;
+  answers: ScreeningAnswerFilter[];
+  onKnockoutChange: (knockout: KnockoutFilter | undefined) => void;
+  onAnswersChange: (answers: ScreeningAnswerFilter[]) => void;
+  disabled?: boolean;
+}
+
+// Select value standing for "no filter"
+const ANY = "any";
+
+/**
+ * Answers a question can be filtered by; yes/no answers are matched as stored
+ */
+export const getAnswerChoices = (question: ScreeningQuestion) =>
+  question.type === ScreeningQuestionType.YES_NO
+    ? [
+        { value: "true", label: "Yes" },
+        { value: "false", label: "No" },
+      ]
+    : question.options.map((option) => ({ value: option, label: option }));
+
+/**
+ * Replaces the filter on one question, removing it when any answer is accepted
+ */
+export const setAnswerFilter = (
+  filters: ScreeningAnswerFilter[],
+  questionId: string,
+  value: string
+): ScreeningAnswerFilter[] => [
+  ...filters.filter((filter) => filter.question_id !== questionId),
+  ...(value === ANY ? [] : [{ question_id: questionId, value }]),
+];
+
+/**
+ * Pipeline filters on knockout results and on answers to the job's yes/no and
+ * multiple choice questions
+ */
+const ScreeningFilters = ({
+  questions,
+  knockout,
+  answers,
+  onKnockoutChange,
+  onAnswersChange,
+  disabled = false,
+}: ScreeningFiltersProps) => {
+  const filterable = questions.filter(
+    (question) =>
+      question.type === ScreeningQuestionType.YES_NO || question.type === ScreeningQuestionType.MULTIPLE_CHOICE
+  );
+  const hasKnockouts = questions.some((question) => question.is_knockout);
+
+  if (!hasKnockouts && filterable.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-end gap-4" role="group" aria-label="Screening filters">
+      {hasKnockouts && (
+        <div className="w-48">
+          <Select
+            id="screening_filter_knockout"
+            name="knockout"
+            label="Knockouts"
+            value={knockout ?? ANY}
+            options={[
+              { value: ANY, label: "All applications" },
+              { value: "passed", label: "Passed" },
+              { value: "failed", label: "Failed" },
+            ]}
+            onChange={(value) => onKnockoutChange(value === ANY ? undefined : (value as KnockoutFilter))}
+            disabled={disabled}
+            size="sm"
+          />
+        </div>
+      )}
+      {filterable.map((question) => (
+        <div key={question.id} className="w-56">
+          <Select
+            id={`screening_filter_${question.id}`}
+            name={`answer_${question.id}`}
+            label={question.prompt}
+            value={answers.find((filter) => filter.question_id === question.id)?.value ?? ANY}
+            options={[{ value: ANY, label: "Any answer" }, ...getAnswerChoices(question)]}
+            onChange={(value) => onAnswersChange(setAnswerFilter(answers, question.id, value))}
+            disabled={disabled}
+            size="sm"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScreeningFilters;
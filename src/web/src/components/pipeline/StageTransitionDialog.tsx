@@ -0,0 +1,159 @@
+import * as React from "react"; // ^18.0.0
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import Textarea from "../ui/textarea";
+import { TransitionRequirement } from "../../types/pipelines";
+import type { TransitionRequirementDetails } from "../../types/pipelines";
+
+export interface StageTransitionValues {
+  reason?: string;
+  feedback?: string;
+}
+
+interface StageTransitionDialogProps {
+  open: boolean;
+  stageName: string;
+  candidateName?: string;
+  requirements: TransitionRequirementDetails;
+  onSubmit: (values: StageTransitionValues) => Promise<void>;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+  error?: string | null;
+}
+
+// Copy for preconditions that cannot be satisfied from the dialog
+const CONDITION_MESSAGES: Partial<Record<TransitionRequirement, string>> = {
+  [TransitionRequirement.INTERVIEW_FEEDBACK]:
+    "The candidate needs at least one completed interview with submitted feedback.",
+};
+
+const StageTransitionDialog: React.FC<StageTransitionDialogProps> = ({
+  open,
+  stageName,
+  candidateName,
+  requirements,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+  error,
+}) => {
+  const [values, setValues] = React.useState<StageTransitionValues>({});
+
+  // Reset the form whenever a new blocked move opens the dialog
+  React.useEffect(() => {
+    if (open) {
+      setValues({});
+    }
+  }, [open, requirements]);
+
+  const needsReason = requirements.missingFields.includes(TransitionRequirement.REASON);
+  const needsFeedback = requirements.missingFields.includes(TransitionRequirement.FEEDBACK);
+  const isBlocked = requirements.unmetConditions.length > 0;
+
+  const isComplete =
+    (!needsReason || !!values.reason?.trim()) &&
+    (!needsFeedback || !!values.feedback?.trim());
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isComplete || isBlocked) return;
+    await onSubmit(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent
+        className="sm:max-w-[480px]"
+        aria-labelledby="stage-transition-title"
+        aria-describedby="stage-transition-description"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle id="stage-transition-title">
+              Move to {stageName}
+            </DialogTitle>
+            <DialogDescription id="stage-transition-description">
+              {isBlocked
+                ? `${candidateName ?? "This candidate"} cannot be moved to ${stageName} yet.`
+                : `Moving ${candidateName ?? "this candidate"} to ${stageName} requires more information.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isBlocked && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground" role="list">
+              {requirements.unmetConditions.map((condition) => (
+                <li key={condition}>{CONDITION_MESSAGES[condition] ?? condition}</li>
+              ))}
+            </ul>
+          )}
+
+          {!isBlocked && needsReason && (
+            <div className="space-y-2">
+              <label htmlFor="transition-reason" className="block text-sm font-medium">
+                Reason
+              </label>
+              <Textarea
+                id="transition-reason"
+                value={values.reason ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, reason: e.target.value }))}
+                maxLength={1000}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          )}
+
+          {!isBlocked && needsFeedback && (
+            <div className="space-y-2">
+              <label htmlFor="transition-feedback" className="block text-sm font-medium">
+                Feedback
+              </label>
+              <Textarea
+                id="transition-feedback"
+                value={values.feedback ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, feedback: e.target.value }))}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              {isBlocked ? "Close" : "Cancel"}
+            </Button>
+            {!isBlocked && (
+              <Button
+                type="submit"
+                disabled={!isComplete || isSubmitting}
+                isLoading={isSubmitting}
+              >
+                Move Candidate
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StageTransitionDialog;
@@ -0,0 +1,54 @@
+import * as React from "react"; // ^18.0.0
+
+import { Badge } from "../ui/badge";
+import { usePortalApplications } from "../../lib/hooks/usePortal";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import { StageCategory } from "../../types/pipelines";
+
+const CATEGORY_VARIANTS: Record<StageCategory, "default" | "info" | "success" | "secondary"> = {
+  [StageCategory.SCREENING]: "default",
+  [StageCategory.INTERVIEWING]: "info",
+  [StageCategory.OFFER]: "success",
+  [StageCategory.HIRED]: "success",
+  [StageCategory.REJECTED]: "secondary",
+};
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+/**
+ * The candidate's applications and where each stands, as labelled by the recruiters
+ */
+const PortalApplications = () => {
+  const { applications, isLoading, error } = usePortalApplications();
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {errorMessage(error, "Your applications could not be loaded.")}
+      </p>
+    );
+  }
+  if (isLoading) {
+    return <p className="text-sm text-gray-500" role="status">Loading applications…</p>;
+  }
+  if (applications.length === 0) {
+    return <p className="text-sm text-gray-500">You have not applied to any jobs yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2" aria-label="Applications">
+      {applications.map((application) => (
+        <li key={application.id} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+          <span className="flex-1 font-medium">{application.job_title}</span>
+          <Badge variant={CATEGORY_VARIANTS[application.stage_category]}>{application.stage_label}</Badge>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Applied {formatDate(application.applied_at, DATE_FORMATS.DISPLAY_DATE)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PortalApplications;
@@ -0,0 +1,177 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Textarea from "../ui/textarea";
+import { usePortalInterviews } from "../../lib/hooks/usePortal";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import {
+  MAX_PREFERRED_TIMES,
+  RESPONDABLE_INTERVIEW_STATUSES,
+  type InterviewResponse,
+  type PortalInterview,
+} from "../../types/portal";
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Take-home assignments are handed in from the tasks tab rather than attended
+const isTakeHome = (interview: PortalInterview) =>
+  interview.type === "TAKE_HOME" || interview.mode === "TAKE_HOME_ASSIGNMENT";
+
+const canRespond = (interview: PortalInterview, now: Date) =>
+  RESPONDABLE_INTERVIEW_STATUSES.includes(interview.status) &&
+  !isTakeHome(interview) &&
+  interview.scheduled_at > now;
+
+// Whether the candidate confirmed, asked to move or has yet to answer
+const responseBadge = (interview: PortalInterview) => {
+  if (interview.reschedule_requested_at) return <Badge variant="warning">Reschedule requested</Badge>;
+  if (interview.candidate_confirmed) return <Badge variant="success">Confirmed</Badge>;
+  return <Badge variant="outline">Awaiting your confirmation</Badge>;
+};
+
+/**
+ * The candidate's interviews. Upcoming interviews can be confirmed, or the candidate can
+ * say why the time does not work and propose others; the recruiter is notified and the
+ * request stays open until the interview is moved.
+ */
+const PortalInterviews = () => {
+  const { interviews, isLoading, error, respondToInterview, isResponding } = usePortalInterviews();
+  const [reschedulingId, setReschedulingId] = React.useState<string | null>(null);
+  const now = new Date();
+
+  const respond = async (interviewId: string, response: InterviewResponse) => {
+    try {
+      await respondToInterview(interviewId, response);
+      setReschedulingId(null);
+      toast.success(response.action === "confirm" ? "Interview confirmed" : "Reschedule request sent");
+    } catch (err) {
+      toast.error(errorMessage(err, "Your response could not be sent."));
+    }
+  };
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {errorMessage(error, "Your interviews could not be loaded.")}
+      </p>
+    );
+  }
+  if (isLoading) {
+    return <p className="text-sm text-gray-500" role="status">Loading interviews…</p>;
+  }
+  if (interviews.length === 0) {
+    return <p className="text-sm text-gray-500">No interviews are scheduled.</p>;
+  }
+
+  return (
+    <ul className="space-y-3" aria-label="Interviews">
+      {interviews.map((interview) => (
+        <li key={interview.id} className="space-y-2 rounded-md border p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="flex-1 font-medium">{interview.job_title}</span>
+            {!isTakeHome(interview) && responseBadge(interview)}
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {formatDate(interview.scheduled_at, DATE_FORMATS.DISPLAY_DATETIME)} · {interview.duration_minutes} minutes
+            {interview.location ? ` · ${interview.location}` : ""}
+          </p>
+          {interview.meeting_link && !isTakeHome(interview) && (
+            <a href={interview.meeting_link} target="_blank" rel="noreferrer" className="text-sm text-blue-600 underline">
+              Join meeting
+            </a>
+          )}
+          {canRespond(interview, now) && (
+            reschedulingId === interview.id ? (
+              <RescheduleForm
+                isSubmitting={isResponding}
+                onCancel={() => setReschedulingId(null)}
+                onSubmit={(reason, preferredTimes) =>
+                  respond(interview.id, { action: "reschedule", reason, preferred_times: preferredTimes })
+                }
+              />
+            ) : (
+              <div className="flex gap-2">
+                {!interview.candidate_confirmed && (
+                  <Button size="sm" onClick={() => respond(interview.id, { action: "confirm" })} disabled={isResponding}>
+                    Confirm
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setReschedulingId(interview.id)}
+                  disabled={isResponding}
+                >
+                  Request reschedule
+                </Button>
+              </div>
+            )
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+interface RescheduleFormProps {
+  isSubmitting: boolean;
+  onCancel: () => void;
+  onSubmit: (reason: string, preferredTimes: Date[]) => void;
+}
+
+/**
+ * Reason the time does not work, with up to a few times that would
+ */
+const RescheduleForm: React.FC<RescheduleFormProps> = ({ isSubmitting, onCancel, onSubmit }) => {
+  const [reason, setReason] = React.useState("");
+  const [times, setTimes] = React.useState<string[]>([""]);
+
+  const setTime = (index: number, value: string) =>
+    setTimes((current) => current.map((time, position) => (position === index ? value : time)));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(reason.trim(), times.filter(Boolean).map((time) => new Date(time)));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2" aria-label="Request reschedule">
+      <Textarea
+        aria-label="Reason"
+        placeholder="Why does this time not work for you?"
+        value={reason}
+        maxLength={1000}
+        onChange={(event) => setReason(event.target.value)}
+        required
+      />
+      {times.map((time, index) => (
+        <Input
+          key={index}
+          aria-label={`Preferred time ${index + 1}`}
+          type="datetime-local"
+          value={time}
+          onChange={(event) => setTime(index, event.target.value)}
+        />
+      ))}
+      <div className="flex flex-wrap gap-2">
+        {times.length < MAX_PREFERRED_TIMES && (
+          <Button type="button" size="sm" variant="ghost" onClick={() => setTimes((current) => [...current, ""])}>
+            Add another time
+          </Button>
+        )}
+        <Button type="button" size="sm" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isSubmitting || !reason.trim()}>
+          Send request
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default PortalInterviews;
@@ -0,0 +1,212 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import { usePortalProfile } from "../../lib/hooks/usePortal";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS, FILE_UPLOAD } from "../../config/constants";
+import type { PortalProfile as PortalProfileData, PortalProfileUpdate } from "../../types/portal";
+
+interface ProfileDraft {
+  full_name: string;
+  phone: string;
+  location: string;
+  skills: string;
+  preferred_locations: string;
+  remote_only: boolean;
+  open_to_relocation: boolean;
+  salary_expectation_min: string;
+  salary_expectation_max: string;
+}
+
+// Lists are edited as comma separated text
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const toDraft = (profile: PortalProfileData): ProfileDraft => ({
+  full_name: profile.full_name,
+  phone: profile.phone ?? "",
+  location: profile.location,
+  skills: profile.skills.join(", "),
+  preferred_locations: (profile.preferences.preferred_locations ?? []).join(", "),
+  remote_only: profile.preferences.remote_only ?? false,
+  open_to_relocation: profile.preferences.open_to_relocation ?? false,
+  salary_expectation_min: profile.preferences.salary_expectation_min?.toString() ?? "",
+  salary_expectation_max: profile.preferences.salary_expectation_max?.toString() ?? "",
+});
+
+const fromDraft = (draft: ProfileDraft): PortalProfileUpdate => ({
+  full_name: draft.full_name.trim(),
+  phone: draft.phone.trim() || null,
+  location: draft.location.trim(),
+  skills: splitList(draft.skills),
+  preferences: {
+    preferred_locations: splitList(draft.preferred_locations),
+    remote_only: draft.remote_only,
+    open_to_relocation: draft.open_to_relocation,
+    ...(draft.salary_expectation_min && { salary_expectation_min: Number(draft.salary_expectation_min) }),
+    ...(draft.salary_expectation_max && { salary_expectation_max: Number(draft.salary_expectation_max) }),
+  },
+});
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+/**
+ * The candidate's own details, job preferences and resumes. Each upload becomes the
+ * current resume; earlier versions stay listed. The email address identifies the
+ * account and is shown but not edited.
+ */
+const PortalProfile = () => {
+  const { profile, resumes, isLoading, error, updateProfile, uploadResume, isSaving, isUploading } =
+    usePortalProfile();
+  const [draft, setDraft] = React.useState<ProfileDraft | null>(null);
+  const [resume, setResume] = React.useState<File | null>(null);
+  const resumeInputRef = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (profile) setDraft(toDraft(profile));
+  }, [profile]);
+
+  const updateField =
+    (field: keyof ProfileDraft) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.type === "checkbox" ? event.target.checked : event.target.value;
+      setDraft((current) => (current ? { ...current, [field]: value } : current));
+    };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    try {
+      await updateProfile(fromDraft(draft));
+      toast.success("Profile saved");
+    } catch (err) {
+      toast.error(errorMessage(err, "Your profile could not be saved."));
+    }
+  };
+
+  const handleUpload = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!resume) return;
+    try {
+      await uploadResume(resume);
+      setResume(null);
+      if (resumeInputRef.current) resumeInputRef.current.value = "";
+      toast.success("Resume uploaded");
+    } catch (err) {
+      toast.error(errorMessage(err, "Your resume could not be uploaded."));
+    }
+  };
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {errorMessage(error, "Your profile could not be loaded.")}
+      </p>
+    );
+  }
+  if (isLoading || !profile || !draft) {
+    return <p className="text-sm text-gray-500" role="status">Loading profile…</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleSave} className="space-y-3" aria-label="Profile">
+        <h3 className="text-sm font-medium">Your details</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300">{profile.email}</p>
+        <Input aria-label="Full name" value={draft.full_name} onChange={updateField("full_name")} required />
+        <Input aria-label="Phone" placeholder="Phone (optional)" value={draft.phone} onChange={updateField("phone")} />
+        <Input
+          aria-label="Location"
+          placeholder="City, country"
+          value={draft.location}
+          onChange={updateField("location")}
+          required
+        />
+        <Input
+          aria-label="Skills"
+          placeholder="Skills, separated by commas"
+          value={draft.skills}
+          onChange={updateField("skills")}
+        />
+
+        <h3 className="pt-2 text-sm font-medium">Job preferences</h3>
+        <Input
+          aria-label="Preferred locations"
+          placeholder="Preferred locations, separated by commas"
+          value={draft.preferred_locations}
+          onChange={updateField("preferred_locations")}
+        />
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={draft.remote_only} onChange={updateField("remote_only")} />
+            Remote only
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={draft.open_to_relocation} onChange={updateField("open_to_relocation")} />
+            Open to relocation
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Input
+            aria-label="Minimum salary"
+            type="number"
+            min={0}
+            placeholder="Minimum salary"
+            value={draft.salary_expectation_min}
+            onChange={updateField("salary_expectation_min")}
+          />
+          <Input
+            aria-label="Maximum salary"
+            type="number"
+            min={0}
+            placeholder="Maximum salary"
+            value={draft.salary_expectation_max}
+            onChange={updateField("salary_expectation_max")}
+          />
+        </div>
+        <Button type="submit" disabled={isSaving} isLoading={isSaving}>
+          Save profile
+        </Button>
+      </form>
+
+      <section className="space-y-3" aria-label="Resumes">
+        <h3 className="text-sm font-medium">Resumes</h3>
+        {resumes.length === 0 ? (
+          <p className="text-sm text-gray-500">No resume uploaded yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {resumes.map((version, index) => (
+              <li key={version.id} className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm">
+                <span className="font-medium">Version {version.version}</span>
+                <span className="flex-1">{version.file_name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {index === 0 ? "Current · " : ""}
+                  {formatDate(version.created_at, DATE_FORMATS.DISPLAY_DATE)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleUpload} className="flex flex-wrap items-center gap-2" aria-label="Upload resume">
+          <input
+            ref={resumeInputRef}
+            aria-label="Resume file"
+            type="file"
+            accept={FILE_UPLOAD.ALLOWED_TYPES.join(",")}
+            onChange={(event) => setResume(event.target.files?.[0] ?? null)}
+            className="text-sm"
+          />
+          <Button type="submit" disabled={isUploading || !resume} isLoading={isUploading}>
+            Upload new version
+          </Button>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default PortalProfile;
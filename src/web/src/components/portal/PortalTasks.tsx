@@ -0,0 +1,187 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Textarea from "../ui/textarea";
+import { ScreeningQuestionField, toScreeningAnswers } from "../careers/CareerApplicationForm";
+import { usePortalTasks } from "../../lib/hooks/usePortal";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS, FILE_UPLOAD } from "../../config/constants";
+import {
+  PortalTaskType,
+  type PortalScreeningData,
+  type PortalTask,
+  type TakeHomeSubmissionData,
+} from "../../types/portal";
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+type ScreeningTask = Extract<PortalTask, { type: PortalTaskType.SCREENING_QUESTIONS }>;
+type TakeHomeTask = Extract<PortalTask, { type: PortalTaskType.TAKE_HOME }>;
+
+/**
+ * What the candidate still has to do: screening questions a job asks that are left
+ * unanswered, and take-home assignments to hand in
+ */
+const PortalTasks = () => {
+  const { tasks, isLoading, error, answerScreening, submitTakeHome, isSubmitting } = usePortalTasks();
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {errorMessage(error, "Your tasks could not be loaded.")}
+      </p>
+    );
+  }
+  if (isLoading) {
+    return <p className="text-sm text-gray-500" role="status">Loading tasks…</p>;
+  }
+  if (tasks.length === 0) {
+    return <p className="text-sm text-gray-500">You are all caught up.</p>;
+  }
+
+  return (
+    <ul className="space-y-4" aria-label="Tasks">
+      {tasks.map((task) =>
+        task.type === PortalTaskType.SCREENING_QUESTIONS ? (
+          <li key={`screening-${task.application_id}`} className="rounded-md border p-4">
+            <ScreeningTaskForm
+              task={task}
+              isSubmitting={isSubmitting}
+              onSubmit={(data) => answerScreening(task.application_id, data)}
+            />
+          </li>
+        ) : (
+          <li key={`take-home-${task.interview_id}`} className="rounded-md border p-4">
+            <TakeHomeTaskForm
+              task={task}
+              isSubmitting={isSubmitting}
+              onSubmit={(data) => submitTakeHome(task.interview_id, data)}
+            />
+          </li>
+        )
+      )}
+    </ul>
+  );
+};
+
+interface ScreeningTaskFormProps {
+  task: ScreeningTask;
+  isSubmitting: boolean;
+  onSubmit: (data: PortalScreeningData) => Promise<unknown>;
+}
+
+const ScreeningTaskForm: React.FC<ScreeningTaskFormProps> = ({ task, isSubmitting, onSubmit }) => {
+  const [answers, setAnswers] = React.useState<Record<string, string>>({});
+  const [answerFiles, setAnswerFiles] = React.useState<Record<string, File>>({});
+
+  const setAnswerFile = (questionId: string, file: File | undefined) =>
+    setAnswerFiles((current) => {
+      const { [questionId]: _removed, ...rest } = current;
+      return file ? { ...rest, [questionId]: file } : rest;
+    });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await onSubmit({ answers: toScreeningAnswers(task.questions, answers), answer_files: answerFiles });
+      toast.success("Answers sent");
+    } catch (err) {
+      toast.error(errorMessage(err, "Your answers could not be sent."));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" aria-label={`Questions for ${task.job_title}`}>
+      <h3 className="font-medium">Answer a few questions for {task.job_title}</h3>
+      {task.questions.map((question) => (
+        <ScreeningQuestionField
+          key={question.id}
+          question={question}
+          value={answers[question.id] ?? ""}
+          onChange={(value) => setAnswers((current) => ({ ...current, [question.id]: value }))}
+          onFileChange={(file) => setAnswerFile(question.id, file)}
+        />
+      ))}
+      <Button type="submit" disabled={isSubmitting} isLoading={isSubmitting}>
+        Send answers
+      </Button>
+    </form>
+  );
+};
+
+interface TakeHomeTaskFormProps {
+  task: TakeHomeTask;
+  isSubmitting: boolean;
+  onSubmit: (data: TakeHomeSubmissionData) => Promise<unknown>;
+}
+
+const TakeHomeTaskForm: React.FC<TakeHomeTaskFormProps> = ({ task, isSubmitting, onSubmit }) => {
+  const [linkUrl, setLinkUrl] = React.useState("");
+  const [notes, setNotes] = React.useState("");
+  const [file, setFile] = React.useState<File | null>(null);
+  const inputId = `take-home-${task.interview_id}`;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await onSubmit({
+        link_url: linkUrl.trim() || undefined,
+        notes: notes.trim() || undefined,
+        file: file ?? undefined,
+      });
+      toast.success("Assignment submitted");
+    } catch (err) {
+      toast.error(errorMessage(err, "Your assignment could not be submitted."));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" aria-label={`Take-home assignment for ${task.job_title}`}>
+      <h3 className="font-medium">Take-home assignment for {task.job_title}</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Due {formatDate(task.due_at, DATE_FORMATS.DISPLAY_DATETIME)}
+        {task.assignment_url && (
+          <>
+            {" · "}
+            <a href={task.assignment_url} target="_blank" rel="noreferrer" className="text-blue-600 underline">
+              View assignment
+            </a>
+          </>
+        )}
+      </p>
+      <div className="space-y-1">
+        <label htmlFor={inputId} className="text-sm font-medium">
+          File
+        </label>
+        <input
+          id={inputId}
+          type="file"
+          accept={FILE_UPLOAD.ALLOWED_TYPES.join(",")}
+          onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+          className="block w-full text-sm"
+        />
+      </div>
+      <Input
+        aria-label="Link to your work"
+        type="url"
+        placeholder="Link to your work, e.g. a repository"
+        value={linkUrl}
+        onChange={(event) => setLinkUrl(event.target.value)}
+      />
+      <Textarea
+        aria-label="Notes"
+        placeholder="Anything the team should know? (optional)"
+        value={notes}
+        maxLength={2000}
+        onChange={(event) => setNotes(event.target.value)}
+      />
+      <Button type="submit" disabled={isSubmitting || (!file && !linkUrl.trim())} isLoading={isSubmitting}>
+        Submit assignment
+      </Button>
+    </form>
+  );
+};
+
+export default PortalTasks;
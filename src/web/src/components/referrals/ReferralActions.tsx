@@ -0,0 +1,175 @@
+import * as React from "react"; // ^18.0.0
+import { toast } from "sonner"; // ^1.0.0
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import Input from "../ui/input";
+import Textarea from "../ui/textarea";
+import { useReferrals } from "../../lib/hooks/useReferrals";
+import type { ReferralSubmitData } from "../../types/referrals";
+
+interface ReferralActionsProps {
+  jobId: string;
+  jobTitle: string;
+}
+
+type ReferralFormState = Omit<ReferralSubmitData, "job_id">;
+
+const EMPTY_FORM: ReferralFormState = {
+  full_name: "",
+  email: "",
+  phone: "",
+  location: "",
+  relationship: "",
+  note: "",
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+/**
+ * Referral actions of a published job: refer someone directly, or copy a personal
+ * referral link that credits applications through it to the current user
+ */
+const ReferralActions: React.FC<ReferralActionsProps> = ({ jobId, jobTitle }) => {
+  const { submitReferral, getReferralLink, isSubmitting, isGettingLink } = useReferrals();
+
+  const [isFormOpen, setIsFormOpen] = React.useState(false);
+  const [form, setForm] = React.useState<ReferralFormState>(EMPTY_FORM);
+  const [linkUrl, setLinkUrl] = React.useState<string | null>(null);
+
+  const updateField =
+    (field: keyof ReferralFormState) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleCopyLink = async () => {
+    try {
+      const link = await getReferralLink(jobId);
+      setLinkUrl(link.url);
+      await navigator.clipboard.writeText(link.url);
+      toast.success("Referral link copied");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      // Optional fields left blank are not sent
+      const optional = (value?: string) => (value?.trim() ? value.trim() : undefined);
+      await submitReferral({
+        job_id: jobId,
+        full_name: form.full_name,
+        email: form.email,
+        location: form.location,
+        phone: optional(form.phone),
+        relationship: optional(form.relationship),
+        note: optional(form.note),
+      });
+      toast.success(`Thanks! ${form.full_name} was referred for ${jobTitle}`);
+      setForm(EMPTY_FORM);
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <section aria-label="Referrals" className="space-y-3">
+      <h2 className="text-xl font-semibold">Know someone for this role?</h2>
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => setIsFormOpen(true)}>Refer Someone</Button>
+        <Button
+          variant="outline"
+          onClick={handleCopyLink}
+          disabled={isGettingLink}
+          isLoading={isGettingLink}
+        >
+          Copy Referral Link
+        </Button>
+      </div>
+      {linkUrl && (
+        <p className="text-sm text-muted-foreground break-all" aria-label="Referral link">
+          {linkUrl}
+        </p>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent aria-labelledby="referral-form-title">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle id="referral-form-title">Refer Someone</DialogTitle>
+              <DialogDescription>
+                {jobTitle}. You can follow their progress under My Referrals.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              aria-label="Full name"
+              placeholder="Full name"
+              value={form.full_name}
+              onChange={updateField("full_name")}
+              required
+            />
+            <Input
+              aria-label="Email"
+              type="email"
+              placeholder="Email"
+              value={form.email}
+              onChange={updateField("email")}
+              required
+            />
+            <Input
+              aria-label="Phone"
+              placeholder="Phone (optional)"
+              value={form.phone}
+              onChange={updateField("phone")}
+            />
+            <Input
+              aria-label="Location"
+              placeholder="Location"
+              value={form.location}
+              onChange={updateField("location")}
+              required
+            />
+            <Input
+              aria-label="How do you know them?"
+              placeholder="How do you know them? (optional)"
+              value={form.relationship}
+              onChange={updateField("relationship")}
+            />
+            <Textarea
+              aria-label="Note for the recruiter"
+              placeholder="Why would they be a great fit? (optional)"
+              value={form.note}
+              onChange={updateField("note")}
+            />
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsFormOpen(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting} isLoading={isSubmitting}>
+                Submit Referral
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
+
+export default ReferralActions;
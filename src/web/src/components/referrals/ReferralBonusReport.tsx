@@ -0,0 +1,79 @@
+import * as React from "react"; // ^18.0.0
+
+import { Badge } from "../ui/badge";
+import Checkbox from "../ui/checkbox";
+import { useReferralBonusReport } from "../../lib/hooks/useReferrals";
+import type { ReferralBonusEntry } from "../../types/referrals";
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong";
+
+const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+
+const getEligibilityLabel = (entry: ReferralBonusEntry) => {
+  if (entry.eligible) return "Eligible";
+  return entry.still_hired ? `Eligible on ${formatDate(entry.eligible_on)}` : "Hire did not last";
+};
+
+/**
+ * Admin report of hired referrals and whether each referrer has earned a bonus
+ */
+const ReferralBonusReport: React.FC = () => {
+  const [eligibleOnly, setEligibleOnly] = React.useState(false);
+  const { entries, isLoading, error } = useReferralBonusReport({ eligible_only: eligibleOnly });
+
+  return (
+    <section aria-label="Referral bonus eligibility" className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Referral Bonus Eligibility</h2>
+        <Checkbox
+          checked={eligibleOnly}
+          onCheckedChange={(checked) => setEligibleOnly(checked === true)}
+          label="Eligible only"
+        />
+      </div>
+
+      {isLoading ? (
+        <div role="status" className="animate-pulse h-16 bg-gray-200 rounded" />
+      ) : error ? (
+        <p role="alert" className="text-sm text-red-600">
+          {getErrorMessage(error)}
+        </p>
+      ) : !entries.length ? (
+        <p className="text-sm text-muted-foreground">No hired referrals yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="p-2">Referrer</th>
+              <th className="p-2">Candidate</th>
+              <th className="p-2">Job</th>
+              <th className="p-2">Hired</th>
+              <th className="p-2">Bonus</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {entries.map((entry) => (
+              <tr key={entry.referral_id}>
+                <td className="p-2">
+                  <div className="font-medium">{entry.referrer_name}</div>
+                  <div className="text-gray-500">{entry.referrer_email}</div>
+                </td>
+                <td className="p-2">{entry.candidate_name}</td>
+                <td className="p-2">{entry.job_title}</td>
+                <td className="p-2">{formatDate(entry.hired_at)}</td>
+                <td className="p-2">
+                  <Badge variant={entry.eligible ? "success" : "outline"}>
+                    {getEligibilityLabel(entry)}
+                  </Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default ReferralBonusReport;
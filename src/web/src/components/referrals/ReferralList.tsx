@@ -0,0 +1,52 @@
+import * as React from "react"; // ^18.0.0
+
+import { Badge, type BadgeProps } from "../ui/badge";
+import { ReferralOrigin, ReferralProgress } from "../../types/referrals";
+import type { ReferralSummary } from "../../types/referrals";
+
+interface ReferralListProps {
+  referrals: ReferralSummary[];
+}
+
+const PROGRESS_LABELS: Record<ReferralProgress, string> = {
+  [ReferralProgress.SUBMITTED]: "Submitted",
+  [ReferralProgress.IN_REVIEW]: "In review",
+  [ReferralProgress.INTERVIEWING]: "Interviewing",
+  [ReferralProgress.FINAL_STAGE]: "Final stage",
+  [ReferralProgress.HIRED]: "Hired",
+  [ReferralProgress.CLOSED]: "No longer in process",
+};
+
+const PROGRESS_VARIANTS: Record<ReferralProgress, BadgeProps["variant"]> = {
+  [ReferralProgress.SUBMITTED]: "secondary",
+  [ReferralProgress.IN_REVIEW]: "info",
+  [ReferralProgress.INTERVIEWING]: "info",
+  [ReferralProgress.FINAL_STAGE]: "warning",
+  [ReferralProgress.HIRED]: "success",
+  [ReferralProgress.CLOSED]: "outline",
+};
+
+/**
+ * The current user's referrals with their anonymized progress
+ */
+const ReferralList: React.FC<ReferralListProps> = ({ referrals }) => (
+  <ul className="divide-y rounded-md border" role="list">
+    {referrals.map((referral) => (
+      <li key={referral.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+        <div className="space-y-1">
+          <p className="font-medium">{referral.candidate_name}</p>
+          <p className="text-sm text-gray-500">
+            {referral.job_title} ·{" "}
+            {referral.origin === ReferralOrigin.LINK ? "Applied via your link" : "Referred by you"} ·{" "}
+            {new Date(referral.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <Badge variant={PROGRESS_VARIANTS[referral.progress]}>
+          {PROGRESS_LABELS[referral.progress]}
+        </Badge>
+      </li>
+    ))}
+  </ul>
+);
+
+export default ReferralList;
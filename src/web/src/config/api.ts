@@ -82,6 +82,100 @@ export const ENDPOINTS = {
       method: 'DELETE',
       requiresAuth: true,
       rateLimit: { maxRequests: 50, perMinute: true }
+    },
+    clone: {
+      path: '/jobs/:id/clone',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    revisions: {
+      path: '/jobs/:id/revisions',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    hiringTeam: {
+      path: '/jobs/:id/hiring-team',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    updateHiringTeam: {
+      path: '/jobs/:id/hiring-team',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    screening: {
+      path: '/jobs/:id/screening',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    updateScreening: {
+      path: '/jobs/:id/screening',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    draftDescription: {
+      path: '/jobs/draft-description',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    checkWording: {
+      path: '/jobs/check-wording',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    }
+  },
+  jobTemplates: {
+    list: {
+      path: '/job-templates',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/job-templates',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    update: {
+      path: '/job-templates/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    }
+  },
+  departments: {
+    list: {
+      path: '/departments',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/departments',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    update: {
+      path: '/departments/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    staff: {
+      path: '/departments/staff',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
     }
   },
   candidates: {
@@ -108,6 +202,540 @@ export const ENDPOINTS = {
       method: 'DELETE',
       requiresAuth: true,
       rateLimit: { maxRequests: 50, perMinute: true }
+    },
+    duplicates: {
+      path: '/candidates/duplicates',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    merge: {
+      path: '/candidates/merge',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    profile: {
+      path: '/candidates/:id/profile.pdf',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    timeline: {
+      path: '/candidates/:id/timeline',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    bulkTags: {
+      path: '/candidates/tags',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    }
+  },
+  candidateImports: {
+    create: {
+      path: '/candidate-imports',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 50, perMinute: false }
+    },
+    get: {
+      path: '/candidate-imports/:id',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    preview: {
+      path: '/candidate-imports/:id/preview',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    commit: {
+      path: '/candidate-imports/:id/commit',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 50, perMinute: false }
+    },
+    errors: {
+      path: '/candidate-imports/:id/errors',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    }
+  },
+  candidateExports: {
+    create: {
+      path: '/candidate-exports',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    get: {
+      path: '/candidate-exports/:id',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    }
+  },
+  notes: {
+    list: {
+      path: '/notes',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    create: {
+      path: '/notes',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    update: {
+      path: '/notes/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    pin: {
+      path: '/notes/:id/pin',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    history: {
+      path: '/notes/:id/history',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    }
+  },
+  tags: {
+    list: {
+      path: '/tags',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    create: {
+      path: '/tags',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    update: {
+      path: '/tags/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    delete: {
+      path: '/tags/:id',
+      method: 'DELETE',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    merge: {
+      path: '/tags/merge',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    }
+  },
+  savedSearches: {
+    list: {
+      path: '/saved-searches',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/saved-searches',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    update: {
+      path: '/saved-searches/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    delete: {
+      path: '/saved-searches/:id',
+      method: 'DELETE',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    subscribe: {
+      path: '/saved-searches/:id/subscription',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    unsubscribe: {
+      path: '/saved-searches/:id/subscription',
+      method: 'DELETE',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    }
+  },
+  notifications: {
+    list: {
+      path: '/notifications',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 2000, perMinute: false }
+    },
+    read: {
+      path: '/notifications/read',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    }
+  },
+  privacyRequests: {
+    list: {
+      path: '/privacy-requests',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/privacy-requests',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    update: {
+      path: '/privacy-requests/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    reject: {
+      path: '/privacy-requests/:id/reject',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    export: {
+      path: '/privacy-requests/:id/export',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 20, perMinute: false }
+    },
+    erase: {
+      path: '/privacy-requests/:id/erase',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 20, perMinute: false }
+    }
+  },
+  consents: {
+    list: {
+      path: '/candidates/:id/consents',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/candidates/:id/consents',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    update: {
+      path: '/consents/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    withdraw: {
+      path: '/consents/:id/withdraw',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    renew: {
+      path: '/consents/renew/:token',
+      method: 'POST',
+      requiresAuth: false,
+      rateLimit: { maxRequests: 20, perMinute: false }
+    }
+  },
+  legalHolds: {
+    list: {
+      path: '/candidates/:id/legal-holds',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    place: {
+      path: '/candidates/:id/legal-holds',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    release: {
+      path: '/legal-holds/:id/release',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    }
+  },
+  retention: {
+    runs: {
+      path: '/retention/runs',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    dryRun: {
+      path: '/retention/dry-run',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 20, perMinute: false }
+    }
+  },
+  portal: {
+    profile: {
+      path: '/portal/profile',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    updateProfile: {
+      path: '/portal/profile',
+      method: 'PATCH',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    resumes: {
+      path: '/portal/resumes',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    uploadResume: {
+      path: '/portal/resumes',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 50, perMinute: false }
+    },
+    applications: {
+      path: '/portal/applications',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    answerScreening: {
+      path: '/portal/applications/:id/screening',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 50, perMinute: false }
+    },
+    interviews: {
+      path: '/portal/interviews',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    respond: {
+      path: '/portal/interviews/:id/respond',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    submitTakeHome: {
+      path: '/portal/interviews/:id/submission',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 20, perMinute: false }
+    },
+    tasks: {
+      path: '/portal/tasks',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    }
+  },
+  atsImports: {
+    create: {
+      path: '/ats-imports',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 20, perMinute: false }
+    },
+    report: {
+      path: '/ats-imports/:id/report',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    }
+  },
+  applications: {
+    list: {
+      path: '/applications',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 2000, perMinute: false }
+    },
+    create: {
+      path: '/applications',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 2000, perMinute: false }
+    },
+    update: {
+      path: '/applications/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 2000, perMinute: false }
+    },
+    withdraw: {
+      path: '/applications/:id/withdraw',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    }
+  },
+  pipelines: {
+    list: {
+      path: '/pipelines',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/pipelines',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    update: {
+      path: '/pipelines/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    }
+  },
+  offers: {
+    list: {
+      path: '/offers',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    create: {
+      path: '/offers',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    revise: {
+      path: '/offers/:id',
+      method: 'PUT',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    send: {
+      path: '/offers/:id/send',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    accept: {
+      path: '/offers/:id/accept',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    },
+    decline: {
+      path: '/offers/:id/decline',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    }
+  },
+  approvals: {
+    list: {
+      path: '/approvals',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    request: {
+      path: '/approvals',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    pending: {
+      path: '/approvals/pending',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    decide: {
+      path: '/approvals/:id/decide',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 200, perMinute: false }
+    },
+    remind: {
+      path: '/approvals/remind',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 50, perMinute: false }
+    }
+  },
+  referrals: {
+    list: {
+      path: '/referrals',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    submit: {
+      path: '/referrals',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    link: {
+      path: '/referrals/links',
+      method: 'POST',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 500, perMinute: false }
+    },
+    bonusReport: {
+      path: '/referrals/bonus-report',
+      method: 'GET',
+      requiresAuth: true,
+      rateLimit: { maxRequests: 100, perMinute: false }
+    }
+  },
+  careers: {
+    list: {
+      path: '/careers/jobs',
+      method: 'GET',
+      requiresAuth: false,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    show: {
+      path: '/careers/jobs/:id',
+      method: 'GET',
+      requiresAuth: false,
+      rateLimit: { maxRequests: 1000, perMinute: false }
+    },
+    apply: {
+      path: '/careers/jobs/:id/apply',
+      method: 'POST',
+      requiresAuth: false,
+      rateLimit: { maxRequests: 10, perMinute: false }
     }
   },
   interviews: {
@@ -50,7 +50,37 @@ export const FILE_UPLOAD = {
 export const CACHE_KEYS = {
   USER_PROFILE: 'user-profile',
   JOB_LIST: 'jobs',
+  JOB_TEMPLATES: 'job-templates',
+  JOB_REVISIONS: 'job-revisions',
+  DEPARTMENTS: 'departments',
+  STAFF: 'staff',
+  HIRING_TEAMS: 'hiring-teams',
+  SCREENING: 'screening',
   CANDIDATE_LIST: 'candidates',
+  APPLICATION_LIST: 'applications',
+  PIPELINE_TEMPLATES: 'pipeline-templates',
+  OFFERS: 'offers',
+  APPROVALS: 'approvals',
+  CANDIDATE_DUPLICATES: 'candidate-duplicates',
+  CANDIDATE_IMPORTS: 'candidate-imports',
+  CANDIDATE_EXPORTS: 'candidate-exports',
+  CANDIDATE_TIMELINE: 'candidate-timeline',
+  CANDIDATE_NOTES: 'candidate-notes',
+  NOTE_HISTORY: 'note-history',
+  TAGS: 'tags',
+  SAVED_SEARCHES: 'saved-searches',
+  NOTIFICATIONS: 'notifications',
+  PRIVACY_REQUESTS: 'privacy-requests',
+  CANDIDATE_CONSENTS: 'candidate-consents',
+  LEGAL_HOLDS: 'legal-holds',
+  RETENTION_RUNS: 'retention-runs',
+  PORTAL_PROFILE: 'portal-profile',
+  PORTAL_RESUMES: 'portal-resumes',
+  PORTAL_APPLICATIONS: 'portal-applications',
+  PORTAL_INTERVIEWS: 'portal-interviews',
+  PORTAL_TASKS: 'portal-tasks',
+  REFERRALS: 'referrals',
+  CAREERS: 'careers',
   INVALIDATION_PATTERNS: {
     ALL_JOBS: 'jobs:*',
     ALL_CANDIDATES: 'candidates:*',
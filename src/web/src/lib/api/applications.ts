@@ -0,0 +1,140 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  Application,
+  ApplicationCreateData,
+  ApplicationListParams,
+  ApplicationUpdateData,
+  ApplicationWithCandidate,
+  applicationCreateSchema,
+  applicationSchema,
+  applicationUpdateSchema,
+  applicationWithCandidateSchema
+} from '../../types/applications';
+import { ErrorCode, PaginatedResponse } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for application operations
+export class ApplicationError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApplicationError';
+  }
+}
+
+// Paginated list response validation schema
+const applicationListResponseSchema = z.object({
+  data: z.array(applicationWithCandidateSchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int(),
+  limit: z.number().int().positive(),
+  total_pages: z.number().int().nonnegative()
+});
+
+/**
+ * Lists applications for a job or a candidate, including candidate summaries and
+ * screening answers
+ * @param params - Job or candidate filter, answer and knockout filters, and pagination
+ * @returns Promise<PaginatedResponse<ApplicationWithCandidate>>
+ */
+export async function listApplications(
+  params: ApplicationListParams
+): Promise<PaginatedResponse<ApplicationWithCandidate>> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.applications.list.path,
+      await getRequestConfig({
+        params: {
+          ...params,
+          status: params.status?.join(','),
+          // Each answer filter is its own answer=question_id:value parameter
+          answers: undefined,
+          answer: params.answers?.map(answer => `${answer.question_id}:${answer.value}`)
+        },
+        paramsSerializer: { indexes: null }
+      })
+    );
+
+    const page = applicationListResponseSchema.parse(unwrapResponse(response.data, ApplicationError));
+
+    return {
+      ...page,
+      data: page.data as ApplicationWithCandidate[],
+      has_next: page.page < page.total_pages,
+      has_previous: page.page > 1
+    };
+  } catch (error) {
+    throw toApiError(error, ApplicationError);
+  }
+}
+
+/**
+ * Creates an application of a candidate to a job
+ * @param data - Application creation data
+ * @returns Promise<Application>
+ */
+export async function createApplication(data: ApplicationCreateData): Promise<Application> {
+  try {
+    const validatedData = applicationCreateSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.applications.create.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return applicationSchema.parse(unwrapResponse(response.data, ApplicationError)) as Application;
+  } catch (error) {
+    throw toApiError(error, ApplicationError);
+  }
+}
+
+/**
+ * Updates an application, recording a stage history entry when the status changes
+ * @param id - Application identifier
+ * @param data - Fields to update
+ * @returns Promise<Application>
+ */
+export async function updateApplication(
+  id: string,
+  data: ApplicationUpdateData
+): Promise<Application> {
+  try {
+    const validatedData = applicationUpdateSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.applications.update.path.replace(':id', id),
+      { applicationId: id, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return applicationSchema.parse(unwrapResponse(response.data, ApplicationError)) as Application;
+  } catch (error) {
+    throw toApiError(error, ApplicationError);
+  }
+}
+
+/**
+ * Withdraws an application from the hiring process
+ * @param id - Application identifier
+ * @param reason - Optional reason for withdrawal
+ * @returns Promise<Application>
+ */
+export async function withdrawApplication(id: string, reason?: string): Promise<Application> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.applications.withdraw.path.replace(':id', id),
+      { applicationId: id, reason },
+      await getRequestConfig()
+    );
+
+    return applicationSchema.parse(unwrapResponse(response.data, ApplicationError)) as Application;
+  } catch (error) {
+    throw toApiError(error, ApplicationError);
+  }
+}
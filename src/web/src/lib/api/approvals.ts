@@ -0,0 +1,131 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  ApprovalDecisionData,
+  ApprovalEntityType,
+  ApprovalRequest,
+  EntityApprovals,
+  PendingApproval,
+  approvalDecisionSchema,
+  approvalRequestSchema,
+  entityApprovalsSchema,
+  pendingApprovalSchema
+} from '../../types/approvals';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for approval operations
+export class ApprovalError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+/**
+ * Gets the approval chain gating a job or offer and its approval requests, newest first
+ * @param entityType - Gated entity type
+ * @param entityId - Job or offer identifier
+ * @returns Promise<EntityApprovals>
+ */
+export async function listApprovals(
+  entityType: ApprovalEntityType,
+  entityId: string
+): Promise<EntityApprovals> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.approvals.list.path,
+      await getRequestConfig({ params: { entity_type: entityType, entity_id: entityId } })
+    );
+
+    return entityApprovalsSchema.parse(unwrapResponse(response.data, ApprovalError)) as EntityApprovals;
+  } catch (error) {
+    throw toApiError(error, ApprovalError);
+  }
+}
+
+/**
+ * Lists the approval requests awaiting the current user's decision, oldest first
+ * @returns Promise<PendingApproval[]>
+ */
+export async function listPendingApprovals(): Promise<PendingApproval[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.approvals.pending.path,
+      await getRequestConfig()
+    );
+
+    return z.array(pendingApprovalSchema).parse(unwrapResponse(response.data, ApprovalError)) as PendingApproval[];
+  } catch (error) {
+    throw toApiError(error, ApprovalError);
+  }
+}
+
+/**
+ * Requests approval of a draft job or offer through the active approval chain
+ * @param entityType - Gated entity type
+ * @param entityId - Job or offer identifier
+ * @returns Promise<ApprovalRequest>
+ */
+export async function requestApproval(
+  entityType: ApprovalEntityType,
+  entityId: string
+): Promise<ApprovalRequest> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.approvals.request.path,
+      { entity_type: entityType, entity_id: entityId },
+      await getRequestConfig()
+    );
+
+    return approvalRequestSchema.parse(unwrapResponse(response.data, ApprovalError)) as ApprovalRequest;
+  } catch (error) {
+    throw toApiError(error, ApprovalError);
+  }
+}
+
+/**
+ * Approves or rejects the current step of an approval request
+ * @param id - Approval request identifier
+ * @param data - Decision and optional comment; rejections require a comment
+ * @returns Promise<ApprovalRequest>
+ */
+export async function decideApproval(id: string, data: ApprovalDecisionData): Promise<ApprovalRequest> {
+  try {
+    const validatedData = approvalDecisionSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.approvals.decide.path.replace(':id', id),
+      { requestId: id, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return approvalRequestSchema.parse(unwrapResponse(response.data, ApprovalError)) as ApprovalRequest;
+  } catch (error) {
+    throw toApiError(error, ApprovalError);
+  }
+}
+
+/**
+ * Reminds the current approvers of a pending request
+ * @param id - Approval request identifier
+ * @returns Promise<number> Number of reminder emails sent
+ */
+export async function remindApprovers(id: string): Promise<number> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.approvals.remind.path,
+      { requestId: id },
+      await getRequestConfig()
+    );
+
+    return z.object({ emails: z.number() }).parse(unwrapResponse(response.data, ApprovalError)).emails;
+  } catch (error) {
+    throw toApiError(error, ApprovalError);
+  }
+}
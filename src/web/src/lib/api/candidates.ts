@@ -1,7 +1,9 @@
+import axios, { AxiosError } from 'axios'; // ^1.5.0
 import { z } from 'zod'; // ^3.22.0
 import { supabase } from '../supabase';
 import { ApiError } from '@/lib/errors';
 import { FILE_UPLOAD, PAGINATION_DEFAULTS } from '../../config/constants';
+import { ENDPOINTS, createApiConfig } from '../../config/api';
 import {
   Candidate,
   CandidateFormData,
@@ -10,6 +12,7 @@ import {
   candidateSchema,
   candidateSearchParamsSchema
 } from '../../types/candidates';
+import { Tag } from '../../types/tags';
 import { createPaginatedResponse } from '../../types/common';
 
 /**
@@ -151,6 +154,26 @@ export async function updateCandidate(
   }
 }
 
+/**
+ * Deletes a candidate. The profile is anonymized rather than removed, so their
+ * applications still count towards hiring metrics, and their files are purged.
+ */
+export async function deleteCandidate(id: string): Promise<void> {
+  const { data } = await supabase.auth.getSession();
+  try {
+    await axios.delete(
+      ENDPOINTS.candidates.delete.path.replace(':id', id),
+      createApiConfig(data.session?.access_token)
+    );
+  } catch (error) {
+    const body = error instanceof AxiosError ? error.response?.data : undefined;
+    throw new ApiError(
+      body?.error?.message ?? 'Failed to delete candidate',
+      body?.error?.code ?? 'INTERNAL_ERROR'
+    );
+  }
+}
+
 /**
  * Advanced candidate search with filters, pagination and caching
  */
@@ -165,10 +188,14 @@ export async function searchCandidates(
     // Validate search parameters
     const validatedParams = candidateSearchParamsSchema.parse(params);
 
-    // Build query
+    // Build query; a candidate's tags are embedded, and the tag filter joins them a
+    // second time so that filtering does not hide the candidate's other tags
+    const tagFilter = validatedParams.tags.length ? ', tag_filter:candidate_tags!inner(tag_id)' : '';
+    // Erased candidates are kept for reporting but never listed
     let query = supabase
       .from('candidates')
-      .select('*', { count: 'exact' });
+      .select(`*, candidate_tags(tag:tags(*))${tagFilter}`, { count: 'exact' })
+      .is('anonymized_at', null);
 
     // Apply filters
     if (validatedParams.query) {
@@ -183,6 +210,9 @@ export async function searchCandidates(
     if (validatedParams.location) {
       query = query.ilike('location', `%${validatedParams.location}%`);
     }
+    if (validatedParams.tags.length) {
+      query = query.in('tag_filter.tag_id', validatedParams.tags);
+    }
 
     // Apply pagination
     const page = validatedParams.page || PAGINATION_DEFAULTS.DEFAULT_PAGE_NUMBER;
@@ -199,7 +229,11 @@ export async function searchCandidates(
     if (error) throw new ApiError('Search failed', 'INTERNAL_ERROR');
 
     return {
-      candidates,
+      candidates: (candidates ?? []).map((row) => {
+        const { candidate_tags: candidateTags, ...candidate } = row as typeof row & { candidate_tags?: { tag: Tag }[] };
+        delete (candidate as { tag_filter?: unknown }).tag_filter;
+        return { ...candidate, tags: (candidateTags ?? []).map((entry) => entry.tag) } as Candidate;
+      }),
       total: count || 0,
       page
     };
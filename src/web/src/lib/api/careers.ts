@@ -0,0 +1,130 @@
+import axios, { AxiosRequestConfig } from 'axios'; // ^1.5.0
+import {
+  CareerApplicationData,
+  CareerApplicationReceipt,
+  PublicJobDetail,
+  PublicJobListParams,
+  PublicJobPage,
+  careerApplicationReceiptSchema,
+  careerApplicationSchema,
+  publicJobDetailSchema,
+  publicJobPageSchema
+} from '../../types/careers';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS, createApiConfig } from '../../config/api';
+import { FILE_UPLOAD } from '../../config/constants';
+import { toApiError, unwrapResponse } from './request';
+
+// Custom error class for careers site operations
+export class CareersError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'CareersError';
+  }
+}
+
+/**
+ * Builds a request configuration for the public careers API; no session is sent
+ */
+function getRequestConfig(config: AxiosRequestConfig = {}): AxiosRequestConfig {
+  return createApiConfig(undefined, config);
+}
+
+/**
+ * Lists published jobs on the careers site, newest first
+ * @param params - Optional search, filters and page
+ * @returns Promise<PublicJobPage>
+ */
+export async function listPublicJobs(params: PublicJobListParams = {}): Promise<PublicJobPage> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.careers.list.path,
+      getRequestConfig({
+        params: {
+          search: params.search || undefined,
+          type: params.type,
+          location: params.location || undefined,
+          remote_only: params.remote_only ? 'true' : undefined,
+          page: params.page,
+          limit: params.limit
+        }
+      })
+    );
+
+    return publicJobPageSchema.parse(unwrapResponse(response.data, CareersError)) as PublicJobPage;
+  } catch (error) {
+    throw toApiError(error, CareersError);
+  }
+}
+
+/**
+ * Gets a published job from the careers site
+ * @param id - Job identifier
+ * @returns Promise<PublicJobDetail>
+ */
+export async function getPublicJob(id: string): Promise<PublicJobDetail> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.careers.show.path.replace(':id', id),
+      getRequestConfig()
+    );
+
+    return publicJobDetailSchema.parse(unwrapResponse(response.data, CareersError)) as PublicJobDetail;
+  } catch (error) {
+    throw toApiError(error, CareersError);
+  }
+}
+
+/**
+ * Applies to a published job with a resume
+ * @param jobId - Job applied to
+ * @param data - Applicant details and screening answers
+ * @param resume - Resume file
+ * @returns Promise<CareerApplicationReceipt>
+ */
+export async function applyToJob(
+  jobId: string,
+  data: CareerApplicationData,
+  resume: File
+): Promise<CareerApplicationReceipt> {
+  try {
+    const { answer_files: answerFiles = {}, ...fields } = data;
+    const validatedData = careerApplicationSchema.parse(fields);
+
+    if (resume.size > FILE_UPLOAD.MAX_SIZE) {
+      throw new CareersError(ErrorCode.VALIDATION_ERROR, 'Resume exceeds the 10MB limit');
+    }
+    if (!FILE_UPLOAD.ALLOWED_TYPES.includes(resume.type)) {
+      throw new CareersError(ErrorCode.VALIDATION_ERROR, 'Resume must be a PDF, Word or text document');
+    }
+
+    const { answers, ...applicant } = validatedData;
+    const formData = new FormData();
+    Object.entries(applicant).forEach(([field, value]) => {
+      if (value !== undefined) {
+        formData.append(field, value);
+      }
+    });
+    formData.append('resume', resume);
+    if (answers) {
+      formData.append('answers', JSON.stringify(answers));
+    }
+    Object.entries(answerFiles).forEach(([questionId, file]) => {
+      formData.append(`answer_file_${questionId}`, file);
+    });
+
+    const response = await axios.post(
+      ENDPOINTS.careers.apply.path.replace(':id', jobId),
+      formData,
+      getRequestConfig({ headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+
+    return careerApplicationReceiptSchema.parse(unwrapResponse(response.data, CareersError)) as CareerApplicationReceipt;
+  } catch (error) {
+    throw toApiError(error, CareersError);
+  }
+}
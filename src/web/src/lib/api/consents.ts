@@ -0,0 +1,229 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  CandidateConsent,
+  CandidateConsentInput,
+  CandidateConsentUpdate,
+  CandidateLegalHold,
+  ConsentRenewal,
+  RetentionRun,
+  candidateConsentInputSchema,
+  candidateConsentSchema,
+  candidateLegalHoldSchema,
+  consentRenewalSchema,
+  retentionRunSchema
+} from '../../types/privacy';
+import { ErrorCode, PaginatedResponse, createPaginatedResponseSchema } from '../../types/common';
+import { ENDPOINTS, createApiConfig } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for consent, legal hold and retention operations
+export class ConsentError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ConsentError';
+  }
+}
+
+const retentionRunPageSchema = createPaginatedResponseSchema(retentionRunSchema);
+
+/**
+ * Lists a candidate's consents, withdrawn ones included
+ * @param candidateId - Candidate identifier
+ * @returns Promise<CandidateConsent[]>
+ */
+export async function listConsents(candidateId: string): Promise<CandidateConsent[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.consents.list.path.replace(':id', candidateId),
+      await getRequestConfig()
+    );
+
+    return z.array(candidateConsentSchema).parse(unwrapResponse(response.data, ConsentError)) as CandidateConsent[];
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Records the basis on which a candidate's data is held for a purpose
+ * @param candidateId - Candidate identifier
+ * @param consent - Purpose, lawful basis, source and validity
+ * @returns Promise<CandidateConsent>
+ */
+export async function recordConsent(
+  candidateId: string,
+  consent: CandidateConsentInput
+): Promise<CandidateConsent> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.consents.create.path.replace(':id', candidateId),
+      candidateConsentInputSchema.parse(consent),
+      await getRequestConfig()
+    );
+
+    return candidateConsentSchema.parse(unwrapResponse(response.data, ConsentError)) as CandidateConsent;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Edits the basis, expiry or notes of a consent in force
+ * @param consentId - Consent identifier
+ * @param update - Fields to change
+ * @returns Promise<CandidateConsent>
+ */
+export async function updateConsent(
+  consentId: string,
+  update: CandidateConsentUpdate
+): Promise<CandidateConsent> {
+  try {
+    const response = await axios.put(
+      ENDPOINTS.consents.update.path.replace(':id', consentId),
+      update,
+      await getRequestConfig()
+    );
+
+    return candidateConsentSchema.parse(unwrapResponse(response.data, ConsentError)) as CandidateConsent;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Records that the candidate withdrew a consent
+ * @param consentId - Consent identifier
+ * @returns Promise<CandidateConsent>
+ */
+export async function withdrawConsent(consentId: string): Promise<CandidateConsent> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.consents.withdraw.path.replace(':id', consentId),
+      {},
+      await getRequestConfig()
+    );
+
+    return candidateConsentSchema.parse(unwrapResponse(response.data, ConsentError)) as CandidateConsent;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Renews a consent from the link emailed to the candidate; no session is sent
+ * @param token - Token from the renewal link
+ * @returns Promise<ConsentRenewal> What was renewed and until when
+ */
+export async function renewConsent(token: string): Promise<ConsentRenewal> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.consents.renew.path.replace(':token', encodeURIComponent(token)),
+      {},
+      createApiConfig(undefined)
+    );
+
+    return consentRenewalSchema.parse(unwrapResponse(response.data, ConsentError)) as ConsentRenewal;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Lists the legal holds placed on a candidate, released ones included
+ * @param candidateId - Candidate identifier
+ * @returns Promise<CandidateLegalHold[]>
+ */
+export async function listLegalHolds(candidateId: string): Promise<CandidateLegalHold[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.legalHolds.list.path.replace(':id', candidateId),
+      await getRequestConfig()
+    );
+
+    return z.array(candidateLegalHoldSchema).parse(unwrapResponse(response.data, ConsentError)) as CandidateLegalHold[];
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Places a legal hold that keeps the candidate from being erased
+ * @param candidateId - Candidate identifier
+ * @param reason - Why the data must be kept
+ * @returns Promise<CandidateLegalHold>
+ */
+export async function placeLegalHold(candidateId: string, reason: string): Promise<CandidateLegalHold> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.legalHolds.place.path.replace(':id', candidateId),
+      { reason },
+      await getRequestConfig()
+    );
+
+    return candidateLegalHoldSchema.parse(unwrapResponse(response.data, ConsentError)) as CandidateLegalHold;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Releases a legal hold
+ * @param holdId - Legal hold identifier
+ * @returns Promise<CandidateLegalHold>
+ */
+export async function releaseLegalHold(holdId: string): Promise<CandidateLegalHold> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.legalHolds.release.path.replace(':id', holdId),
+      {},
+      await getRequestConfig()
+    );
+
+    return candidateLegalHoldSchema.parse(unwrapResponse(response.data, ConsentError)) as CandidateLegalHold;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Lists retention runs, most recent first
+ * @param page - Page number
+ * @param limit - Runs per page
+ * @returns Promise<PaginatedResponse<RetentionRun>>
+ */
+export async function listRetentionRuns(page = 1, limit = 10): Promise<PaginatedResponse<RetentionRun>> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.retention.runs.path,
+      await getRequestConfig({ params: { page, limit } })
+    );
+
+    const runs = retentionRunPageSchema.parse(unwrapResponse(response.data, ConsentError));
+    return { ...runs, data: runs.data as RetentionRun[] };
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
+
+/**
+ * Runs retention as a dry run, reporting what it would do without changing anything
+ * @returns Promise<RetentionRun> The stored report
+ */
+export async function previewRetention(): Promise<RetentionRun> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.retention.dryRun.path,
+      {},
+      await getRequestConfig()
+    );
+
+    return retentionRunSchema.parse(unwrapResponse(response.data, ConsentError)) as RetentionRun;
+  } catch (error) {
+    throw toApiError(error, ConsentError);
+  }
+}
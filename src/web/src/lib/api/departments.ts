@@ -0,0 +1,146 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  Department,
+  DepartmentCreateData,
+  DepartmentUpdateData,
+  HiringTeamUpdateData,
+  JobHiringTeam,
+  StaffMember,
+  departmentCreateSchema,
+  departmentSchema,
+  departmentUpdateSchema,
+  hiringTeamUpdateSchema,
+  jobHiringTeamSchema,
+  staffMemberSchema
+} from '../../types/departments';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for department and hiring team operations
+export class DepartmentError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'DepartmentError';
+  }
+}
+
+/**
+ * Lists the department hierarchy depth first
+ * @param includeArchived - Whether archived departments are included
+ * @returns Promise<Department[]>
+ */
+export async function listDepartments(includeArchived = false): Promise<Department[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.departments.list.path,
+      await getRequestConfig({ params: { include_archived: includeArchived } })
+    );
+
+    return z.array(departmentSchema).parse(unwrapResponse(response.data, DepartmentError)) as Department[];
+  } catch (error) {
+    throw toApiError(error, DepartmentError);
+  }
+}
+
+/**
+ * Creates a department
+ * @param data - Name, parent, cost center and members of the department
+ * @returns Promise<Department>
+ */
+export async function createDepartment(data: DepartmentCreateData): Promise<Department> {
+  try {
+    const validatedData = departmentCreateSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.departments.create.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return departmentSchema.parse(unwrapResponse(response.data, DepartmentError)) as Department;
+  } catch (error) {
+    throw toApiError(error, DepartmentError);
+  }
+}
+
+/**
+ * Renames, moves, archives or restores a department, or replaces its members
+ * @param id - Department identifier
+ * @param data - Fields to update
+ * @returns Promise<Department>
+ */
+export async function updateDepartment(id: string, data: DepartmentUpdateData): Promise<Department> {
+  try {
+    const validatedData = departmentUpdateSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.departments.update.path.replace(':id', id),
+      { departmentId: id, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return departmentSchema.parse(unwrapResponse(response.data, DepartmentError)) as Department;
+  } catch (error) {
+    throw toApiError(error, DepartmentError);
+  }
+}
+
+/**
+ * Lists the staff who can be added to departments and hiring teams
+ * @returns Promise<StaffMember[]>
+ */
+export async function listStaff(): Promise<StaffMember[]> {
+  try {
+    const response = await axios.get(ENDPOINTS.departments.staff.path, await getRequestConfig());
+
+    return z.array(staffMemberSchema).parse(unwrapResponse(response.data, DepartmentError)) as StaffMember[];
+  } catch (error) {
+    throw toApiError(error, DepartmentError);
+  }
+}
+
+/**
+ * Loads the hiring team of a job
+ * @param jobId - Job identifier
+ * @returns Promise<JobHiringTeam>
+ */
+export async function getHiringTeam(jobId: string): Promise<JobHiringTeam> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.jobs.hiringTeam.path.replace(':id', jobId),
+      await getRequestConfig()
+    );
+
+    return jobHiringTeamSchema.parse(unwrapResponse(response.data, DepartmentError)) as JobHiringTeam;
+  } catch (error) {
+    throw toApiError(error, DepartmentError);
+  }
+}
+
+/**
+ * Replaces the hiring team of a job
+ * @param jobId - Job identifier
+ * @param data - Recruiter, hiring manager, coordinators and interviewer pool
+ * @returns Promise<JobHiringTeam>
+ */
+export async function updateHiringTeam(jobId: string, data: HiringTeamUpdateData): Promise<JobHiringTeam> {
+  try {
+    const validatedData = hiringTeamUpdateSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.jobs.updateHiringTeam.path.replace(':id', jobId),
+      { jobId, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return jobHiringTeamSchema.parse(unwrapResponse(response.data, DepartmentError)) as JobHiringTeam;
+  } catch (error) {
+    throw toApiError(error, DepartmentError);
+  }
+}
@@ -0,0 +1,93 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  Candidate,
+  CandidateMerge,
+  DuplicateCandidateMatch,
+  DuplicateCheckData,
+  candidateMergeSchema,
+  duplicateCandidateMatchSchema,
+  duplicateCheckSchema
+} from '../../types/candidates';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for duplicate detection and merge operations
+export class DuplicateError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'DuplicateError';
+  }
+}
+
+/**
+ * Finds existing candidates that likely duplicate a profile about to be created
+ * @param data - Name, email and phone of the new profile
+ * @returns Promise<DuplicateCandidateMatch[]> Matches, best first
+ */
+export async function checkDuplicateCandidates(data: DuplicateCheckData): Promise<DuplicateCandidateMatch[]> {
+  try {
+    const validatedData = duplicateCheckSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.candidates.duplicates.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return z.array(duplicateCandidateMatchSchema).parse(unwrapResponse(response.data, DuplicateError)) as DuplicateCandidateMatch[];
+  } catch (error) {
+    throw toApiError(error, DuplicateError);
+  }
+}
+
+/**
+ * Finds candidates that likely duplicate an existing candidate
+ * @param candidateId - Candidate identifier
+ * @returns Promise<DuplicateCandidateMatch[]> Matches, best first
+ */
+export async function getCandidateDuplicates(candidateId: string): Promise<DuplicateCandidateMatch[]> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.candidates.duplicates.path,
+      { candidate_id: candidateId },
+      await getRequestConfig()
+    );
+
+    return z.array(duplicateCandidateMatchSchema).parse(unwrapResponse(response.data, DuplicateError)) as DuplicateCandidateMatch[];
+  } catch (error) {
+    throw toApiError(error, DuplicateError);
+  }
+}
+
+/**
+ * Merges a duplicate candidate into a primary candidate; the duplicate is archived
+ * @param primaryId - Candidate that is kept
+ * @param duplicateId - Candidate merged into the primary
+ * @returns Promise containing the updated primary candidate and the merge record
+ */
+export async function mergeCandidates(
+  primaryId: string,
+  duplicateId: string
+): Promise<{ candidate: Candidate; merge: CandidateMerge }> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.candidates.merge.path,
+      { primary_id: primaryId, duplicate_id: duplicateId },
+      await getRequestConfig()
+    );
+
+    const data = unwrapResponse<{ candidate: Candidate; merge: CandidateMerge }>(response.data, DuplicateError);
+    return {
+      candidate: data.candidate,
+      merge: candidateMergeSchema.parse(data.merge) as CandidateMerge
+    };
+  } catch (error) {
+    throw toApiError(error, DuplicateError);
+  }
+}
@@ -0,0 +1,125 @@
+import axios from 'axios'; // ^1.5.0
+import {
+  CandidateExportFilters,
+  CandidateExportRequest,
+  CandidateExportResult,
+  CandidateExport,
+  CandidateExportWithDownload,
+  candidateExportRequestSchema,
+  candidateExportSchema,
+  candidateExportWithDownloadSchema
+} from '../../types/exports';
+import { CandidateSearchParams } from '../../types/candidates';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, readBlobError, toApiError, unwrapResponse } from './request';
+
+// Custom error class for candidate exports
+export class ExportError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+/**
+ * File name given by a Content-Disposition header
+ */
+function getFileName(contentDisposition: string | undefined, fallback: string): string {
+  return contentDisposition?.match(/filename="?([^";]+)"?/)?.[1] ?? fallback;
+}
+
+/**
+ * Maps the filters of the candidate search page to the filters an export reads
+ * @param params - Search parameters of the candidate list
+ */
+export function toExportFilters(params: Partial<CandidateSearchParams>): CandidateExportFilters {
+  const filters: CandidateExportFilters = {};
+  if (params.query?.trim()) filters.query = params.query.trim();
+  if (params.status?.length) filters.status = params.status;
+  if (params.skills?.length) filters.skills = params.skills;
+  if (params.experience_level) filters.experienceLevel = [params.experience_level];
+  if (params.location?.trim()) filters.location = params.location.trim();
+  if (params.salary_max) {
+    filters.salaryRange = { min: params.salary_min ?? 0, max: params.salary_max };
+  }
+  if (params.tags?.length) filters.tags = params.tags;
+  return filters;
+}
+
+/**
+ * Exports the candidates matching a search. Small exports are returned as the file
+ * itself; larger ones are queued and written in the background.
+ * @param request - Format, search filters and columns
+ * @returns Promise<CandidateExportResult> The file, or the queued export to poll
+ */
+export async function exportCandidates(request: CandidateExportRequest): Promise<CandidateExportResult> {
+  try {
+    const validatedRequest = candidateExportRequestSchema.parse(request);
+
+    const response = await axios.post<Blob>(
+      ENDPOINTS.candidateExports.create.path,
+      validatedRequest,
+      await getRequestConfig({ responseType: 'blob' })
+    );
+
+    if (response.status === 202) {
+      const body = JSON.parse(await response.data.text());
+      return { queued: candidateExportSchema.parse(unwrapResponse(body, ExportError)) as CandidateExport };
+    }
+
+    return {
+      file: response.data,
+      file_name: getFileName(response.headers['content-disposition'], 'candidates')
+    };
+  } catch (error) {
+    throw toApiError(await readBlobError(error), ExportError);
+  }
+}
+
+/**
+ * Retrieves an export, with a link to download its file once it has been written
+ * @param exportId - Export identifier
+ * @returns Promise<CandidateExportWithDownload>
+ */
+export async function getCandidateExport(exportId: string): Promise<CandidateExportWithDownload> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.candidateExports.get.path.replace(':id', exportId),
+      await getRequestConfig()
+    );
+
+    return candidateExportWithDownloadSchema.parse(unwrapResponse(response.data, ExportError)) as CandidateExportWithDownload;
+  } catch (error) {
+    throw toApiError(error, ExportError);
+  }
+}
+
+/**
+ * Downloads the one-page PDF profile of a candidate
+ * @param candidateId - Candidate identifier
+ * @param includeContact - Whether the profile shows their email and phone
+ * @returns Promise<{ file: Blob; file_name: string }>
+ */
+export async function downloadCandidateProfile(
+  candidateId: string,
+  includeContact = false
+): Promise<{ file: Blob; file_name: string }> {
+  try {
+    const response = await axios.get<Blob>(
+      ENDPOINTS.candidates.profile.path.replace(':id', candidateId),
+      await getRequestConfig({ params: { include_contact: String(includeContact) }, responseType: 'blob' })
+    );
+
+    return {
+      file: response.data,
+      file_name: getFileName(response.headers['content-disposition'], 'candidate-profile.pdf')
+    };
+  } catch (error) {
+    throw toApiError(await readBlobError(error), ExportError);
+  }
+}
@@ -0,0 +1,185 @@
+import axios from 'axios'; // ^1.5.0
+import {
+  AtsImportUploadData,
+  CandidateImport,
+  CandidateImportOptions,
+  CandidateImportPreview,
+  CandidateImportUploadData,
+  CandidateImportWithProgress,
+  UploadedCandidateImport,
+  candidateImportOptionsSchema,
+  candidateImportPreviewSchema,
+  candidateImportSchema,
+  candidateImportWithProgressSchema,
+  ReconciliationReport,
+  reconciliationReportSchema,
+  uploadedCandidateImportSchema
+} from '../../types/imports';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for candidate imports
+export class ImportError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+/**
+ * Uploads a CSV or XLSX spreadsheet of candidates, with an optional zip of the resumes
+ * it names. Nothing is imported until the upload is previewed and committed.
+ * @param data - Spreadsheet and resume archive
+ * @returns Promise<UploadedCandidateImport> The import with a suggested column mapping
+ */
+export async function uploadCandidateImport(data: CandidateImportUploadData): Promise<UploadedCandidateImport> {
+  try {
+    const formData = new FormData();
+    formData.append('file', data.file);
+    if (data.resumes) {
+      formData.append('resumes', data.resumes);
+    }
+
+    const response = await axios.post(
+      ENDPOINTS.candidateImports.create.path,
+      formData,
+      await getRequestConfig({ headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+
+    return uploadedCandidateImportSchema.parse(unwrapResponse(response.data, ImportError)) as UploadedCandidateImport;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
+
+/**
+ * Retrieves an import with the number of its rows per outcome
+ * @param importId - Import identifier
+ * @returns Promise<CandidateImportWithProgress>
+ */
+export async function getCandidateImport(importId: string): Promise<CandidateImportWithProgress> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.candidateImports.get.path.replace(':id', importId),
+      await getRequestConfig()
+    );
+
+    return candidateImportWithProgressSchema.parse(unwrapResponse(response.data, ImportError)) as CandidateImportWithProgress;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
+
+/**
+ * Runs an import as a dry run: every row is validated and checked for duplicates
+ * without creating candidates
+ * @param importId - Import identifier
+ * @param options - Column mapping, duplicate strategy and list delimiter
+ * @returns Promise<CandidateImportPreview>
+ */
+export async function previewCandidateImport(
+  importId: string,
+  options: CandidateImportOptions
+): Promise<CandidateImportPreview> {
+  try {
+    const validatedOptions = candidateImportOptionsSchema.parse(options);
+
+    const response = await axios.post(
+      ENDPOINTS.candidateImports.preview.path.replace(':id', importId),
+      { importId, payload: validatedOptions },
+      await getRequestConfig()
+    );
+
+    return candidateImportPreviewSchema.parse(unwrapResponse(response.data, ImportError)) as CandidateImportPreview;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
+
+/**
+ * Commits an import with the options of its last preview; rows are imported in the
+ * background
+ * @param importId - Import identifier
+ * @returns Promise<CandidateImport> The queued import
+ */
+export async function commitCandidateImport(importId: string): Promise<CandidateImport> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.candidateImports.commit.path.replace(':id', importId),
+      { importId },
+      await getRequestConfig()
+    );
+
+    return candidateImportSchema.parse(unwrapResponse(response.data, ImportError)) as CandidateImport;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
+
+/**
+ * Downloads the rows that failed validation or import, with their errors, as CSV
+ * @param importId - Import identifier
+ * @returns Promise<Blob>
+ */
+export async function downloadImportErrorReport(importId: string): Promise<Blob> {
+  try {
+    const response = await axios.get<Blob>(
+      ENDPOINTS.candidateImports.errors.path.replace(':id', importId),
+      await getRequestConfig({ responseType: 'blob' })
+    );
+
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
+
+/**
+ * Imports a JSON export of Greenhouse, Lever, Workable or JSON Resume. Records imported
+ * from the same system before are updated rather than duplicated.
+ * @param data - Export file, the system it comes from and whether to only do a dry run
+ * @returns Promise<ReconciliationReport> What happened to every exported record
+ */
+export async function importAtsExport(data: AtsImportUploadData): Promise<ReconciliationReport> {
+  try {
+    const formData = new FormData();
+    formData.append('file', data.file);
+    if (data.source) {
+      formData.append('source', data.source);
+    }
+    formData.append('dry_run', String(data.dry_run));
+
+    const response = await axios.post(
+      ENDPOINTS.atsImports.create.path,
+      formData,
+      await getRequestConfig({ headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+
+    return reconciliationReportSchema.parse(unwrapResponse(response.data, ImportError)) as ReconciliationReport;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
+
+/**
+ * Downloads the reconciliation report of a stored ATS import run as CSV
+ * @param runId - Run identifier
+ * @returns Promise<Blob>
+ */
+export async function downloadReconciliationReport(runId: string): Promise<Blob> {
+  try {
+    const response = await axios.get<Blob>(
+      ENDPOINTS.atsImports.report.path.replace(':id', runId),
+      await getRequestConfig({ params: { format: 'csv' }, responseType: 'blob' })
+    );
+
+    return response.data;
+  } catch (error) {
+    throw toApiError(error, ImportError);
+  }
+}
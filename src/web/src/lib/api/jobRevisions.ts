@@ -0,0 +1,36 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import { JobRevision, jobRevisionSchema } from '../../types/jobs';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for job revision history operations
+export class JobRevisionError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'JobRevisionError';
+  }
+}
+
+/**
+ * Lists the revisions of a job's title, description and requirements, newest first
+ * @param jobId - Job identifier
+ * @returns Promise<JobRevision[]>
+ */
+export async function listJobRevisions(jobId: string): Promise<JobRevision[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.jobs.revisions.path.replace(':id', jobId),
+      await getRequestConfig()
+    );
+
+    return z.array(jobRevisionSchema).parse(unwrapResponse(response.data, JobRevisionError)) as JobRevision[];
+  } catch (error) {
+    throw toApiError(error, JobRevisionError);
+  }
+}
@@ -0,0 +1,112 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  Job,
+  JobCloneData,
+  JobTemplate,
+  JobTemplateCreateData,
+  JobTemplateUpdateData,
+  jobCloneSchema,
+  jobTemplateCreateSchema,
+  jobTemplateSchema,
+  jobTemplateUpdateSchema
+} from '../../types/jobs';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for job template and cloning operations
+export class JobTemplateError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'JobTemplateError';
+  }
+}
+
+/**
+ * Lists the job template library
+ * @param search - Optional text matched against template names and job titles
+ * @param includeArchived - Whether archived templates are included
+ * @returns Promise<JobTemplate[]>
+ */
+export async function listJobTemplates(search?: string, includeArchived = false): Promise<JobTemplate[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.jobTemplates.list.path,
+      await getRequestConfig({ params: { search: search || undefined, include_archived: includeArchived } })
+    );
+
+    return z.array(jobTemplateSchema).parse(unwrapResponse(response.data, JobTemplateError)) as JobTemplate[];
+  } catch (error) {
+    throw toApiError(error, JobTemplateError);
+  }
+}
+
+/**
+ * Saves the content of a job as a template
+ * @param data - Job to save and the template name
+ * @returns Promise<JobTemplate>
+ */
+export async function createJobTemplate(data: JobTemplateCreateData): Promise<JobTemplate> {
+  try {
+    const validatedData = jobTemplateCreateSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.jobTemplates.create.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return jobTemplateSchema.parse(unwrapResponse(response.data, JobTemplateError)) as JobTemplate;
+  } catch (error) {
+    throw toApiError(error, JobTemplateError);
+  }
+}
+
+/**
+ * Renames, archives or restores a job template
+ * @param id - Template identifier
+ * @param data - Fields to update
+ * @returns Promise<JobTemplate>
+ */
+export async function updateJobTemplate(id: string, data: JobTemplateUpdateData): Promise<JobTemplate> {
+  try {
+    const validatedData = jobTemplateUpdateSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.jobTemplates.update.path.replace(':id', id),
+      { templateId: id, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return jobTemplateSchema.parse(unwrapResponse(response.data, JobTemplateError)) as JobTemplate;
+  } catch (error) {
+    throw toApiError(error, JobTemplateError);
+  }
+}
+
+/**
+ * Clones a job into a new draft, optionally with a different title, location or type
+ * @param jobId - Job to clone
+ * @param data - Fields to change in the clone
+ * @returns Promise<Job>
+ */
+export async function cloneJob(jobId: string, data: JobCloneData): Promise<Job> {
+  try {
+    const validatedData = jobCloneSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.jobs.clone.path.replace(':id', jobId),
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return unwrapResponse<Job>(response.data, JobTemplateError);
+  } catch (error) {
+    throw toApiError(error, JobTemplateError);
+  }
+}
@@ -0,0 +1,66 @@
+import axios from 'axios'; // ^1.5.0
+import {
+  JobDescriptionDraft,
+  JobDescriptionDraftData,
+  JobWordingCheckData,
+  WordingCheckResult,
+  jobDescriptionDraftResultSchema,
+  jobDescriptionDraftSchema,
+  wordingCheckResultSchema
+} from '../../types/jobs';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for the job description writer and wording check
+export class JobWritingError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'JobWritingError';
+  }
+}
+
+/**
+ * Drafts a job description and requirements from a title, level and highlights
+ * @param data - Title, experience level and highlights of the job
+ * @returns Promise<JobDescriptionDraft>
+ */
+export async function draftJobDescription(data: JobDescriptionDraftData): Promise<JobDescriptionDraft> {
+  try {
+    const validatedData = jobDescriptionDraftSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.jobs.draftDescription.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return jobDescriptionDraftResultSchema.parse(unwrapResponse(response.data, JobWritingError)) as JobDescriptionDraft;
+  } catch (error) {
+    throw toApiError(error, JobWritingError);
+  }
+}
+
+/**
+ * Checks a job for exclusionary or biased wording, unrealistic requirements and a
+ * missing salary range
+ * @param data - Job content to check
+ * @returns Promise<WordingCheckResult>
+ */
+export async function checkJobWording(data: JobWordingCheckData): Promise<WordingCheckResult> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.jobs.checkWording.path,
+      data,
+      await getRequestConfig()
+    );
+
+    return wordingCheckResultSchema.parse(unwrapResponse(response.data, JobWritingError)) as WordingCheckResult;
+  } catch (error) {
+    throw toApiError(error, JobWritingError);
+  }
+}
@@ -69,6 +69,8 @@ export async function createJob(
       ...jobData,
       status: jobData.is_draft ? JobStatus.DRAFT : JobStatus.PUBLISHED,
       posted_at: new Date(),
+      // Only drafts wait for a scheduled publish date
+      publish_at: jobData.is_draft ? jobData.publish_date : null,
       creator_id: (await supabase.auth.getUser()).data.user?.id
     });
 
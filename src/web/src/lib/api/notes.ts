@@ -0,0 +1,137 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  CandidateNote,
+  CandidateNoteRevision,
+  NoteInput,
+  NoteListParams,
+  NoteUpdate,
+  candidateNoteRevisionSchema,
+  candidateNoteSchema,
+  notePageSchema
+} from '../../types/notes';
+import { ErrorCode, PaginatedResponse } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for candidate notes
+export class NoteError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'NoteError';
+  }
+}
+
+/**
+ * Lists the notes the user sees, pinned notes first
+ * @param params - Candidate or application, search text and page
+ * @returns Promise<PaginatedResponse<CandidateNote>>
+ */
+export async function listNotes(params: NoteListParams): Promise<PaginatedResponse<CandidateNote>> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.notes.list.path,
+      await getRequestConfig({
+        params: {
+          candidate_id: params.candidate_id,
+          application_id: params.application_id,
+          q: params.q?.trim() || undefined,
+          page: params.page,
+          limit: params.limit
+        }
+      })
+    );
+
+    const page = notePageSchema.parse(unwrapResponse(response.data, NoteError));
+
+    return {
+      ...page,
+      data: page.data as CandidateNote[],
+      has_next: page.page < page.total_pages,
+      has_previous: page.page > 1
+    };
+  } catch (error) {
+    throw toApiError(error, NoteError);
+  }
+}
+
+/**
+ * Writes a note; mentioned users are emailed by the server
+ * @param note - Candidate, optional application, body and visibility
+ * @returns Promise<CandidateNote>
+ */
+export async function createNote(note: NoteInput): Promise<CandidateNote> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.notes.create.path,
+      note,
+      await getRequestConfig()
+    );
+
+    return candidateNoteSchema.parse(unwrapResponse(response.data, NoteError)) as CandidateNote;
+  } catch (error) {
+    throw toApiError(error, NoteError);
+  }
+}
+
+/**
+ * Edits a note; only its author can
+ * @param noteId - Note identifier
+ * @param update - New body and/or visibility
+ * @returns Promise<CandidateNote>
+ */
+export async function updateNote(noteId: string, update: NoteUpdate): Promise<CandidateNote> {
+  try {
+    const response = await axios.put(
+      ENDPOINTS.notes.update.path.replace(':id', noteId),
+      update,
+      await getRequestConfig()
+    );
+
+    return candidateNoteSchema.parse(unwrapResponse(response.data, NoteError)) as CandidateNote;
+  } catch (error) {
+    throw toApiError(error, NoteError);
+  }
+}
+
+/**
+ * Pins a note to the top of the candidate's notes, or unpins it
+ * @param noteId - Note identifier
+ * @param pinned - Whether the note is pinned
+ * @returns Promise<CandidateNote>
+ */
+export async function pinNote(noteId: string, pinned: boolean): Promise<CandidateNote> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.notes.pin.path.replace(':id', noteId),
+      { pinned },
+      await getRequestConfig()
+    );
+
+    return candidateNoteSchema.parse(unwrapResponse(response.data, NoteError)) as CandidateNote;
+  } catch (error) {
+    throw toApiError(error, NoteError);
+  }
+}
+
+/**
+ * Retrieves every version of a note, newest first
+ * @param noteId - Note identifier
+ * @returns Promise<CandidateNoteRevision[]>
+ */
+export async function getNoteHistory(noteId: string): Promise<CandidateNoteRevision[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.notes.history.path.replace(':id', noteId),
+      await getRequestConfig()
+    );
+
+    return z.array(candidateNoteRevisionSchema).parse(unwrapResponse(response.data, NoteError)) as CandidateNoteRevision[];
+  } catch (error) {
+    throw toApiError(error, NoteError);
+  }
+}
@@ -0,0 +1,143 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  Offer,
+  OfferCreateData,
+  OfferListParams,
+  OfferReviseData,
+  offerCreateSchema,
+  offerReviseSchema,
+  offerSchema
+} from '../../types/offers';
+import { Application, applicationSchema } from '../../types/applications';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for offer operations
+export class OfferError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'OfferError';
+  }
+}
+
+// Response of accepting or declining an offer
+const offerResponseResultSchema = z.object({
+  offer: offerSchema,
+  application: applicationSchema
+});
+
+/**
+ * Lists the offers of an application or candidate, newest first, with version history
+ * @param params - Application or candidate filter
+ * @returns Promise<Offer[]>
+ */
+export async function listOffers(params: OfferListParams): Promise<Offer[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.offers.list.path,
+      await getRequestConfig({ params })
+    );
+
+    return z.array(offerSchema).parse(unwrapResponse(response.data, OfferError)) as Offer[];
+  } catch (error) {
+    throw toApiError(error, OfferError);
+  }
+}
+
+/**
+ * Drafts an offer for an application
+ * @param data - Application, compensation and terms
+ * @returns Promise<Offer>
+ */
+export async function createOffer(data: OfferCreateData): Promise<Offer> {
+  try {
+    const validatedData = offerCreateSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.offers.create.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return offerSchema.parse(unwrapResponse(response.data, OfferError)) as Offer;
+  } catch (error) {
+    throw toApiError(error, OfferError);
+  }
+}
+
+/**
+ * Revises the terms of an open offer, recording a new version
+ * @param id - Offer identifier
+ * @param data - Changed terms and the reason for the revision
+ * @returns Promise<Offer>
+ */
+export async function reviseOffer(id: string, data: OfferReviseData): Promise<Offer> {
+  try {
+    const validatedData = offerReviseSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.offers.revise.path.replace(':id', id),
+      { offerId: id, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return offerSchema.parse(unwrapResponse(response.data, OfferError)) as Offer;
+  } catch (error) {
+    throw toApiError(error, OfferError);
+  }
+}
+
+/**
+ * Sends a draft offer to the candidate
+ * @param id - Offer identifier
+ * @returns Promise<Offer>
+ */
+export async function sendOffer(id: string): Promise<Offer> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.offers.send.path.replace(':id', id),
+      { offerId: id },
+      await getRequestConfig()
+    );
+
+    return offerSchema.parse(unwrapResponse(response.data, OfferError)) as Offer;
+  } catch (error) {
+    throw toApiError(error, OfferError);
+  }
+}
+
+/**
+ * Accepts or declines a sent offer; the application moves to the matching stage
+ * @param id - Offer identifier
+ * @param response - Whether the offer is accepted or declined
+ * @param reason - Optional reason recorded with the response
+ * @returns Promise<{ offer: Offer; application: Application }>
+ */
+export async function respondToOffer(
+  id: string,
+  response: 'accept' | 'decline',
+  reason?: string
+): Promise<{ offer: Offer; application: Application }> {
+  try {
+    const endpoint = response === 'accept' ? ENDPOINTS.offers.accept : ENDPOINTS.offers.decline;
+
+    const result = await axios.post(
+      endpoint.path.replace(':id', id),
+      { offerId: id, reason },
+      await getRequestConfig()
+    );
+
+    return offerResponseResultSchema.parse(unwrapResponse(result.data, OfferError)) as {
+      offer: Offer;
+      application: Application;
+    };
+  } catch (error) {
+    throw toApiError(error, OfferError);
+  }
+}
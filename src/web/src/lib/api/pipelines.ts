@@ -0,0 +1,109 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  PipelineTemplate,
+  PipelineTemplateCreateData,
+  PipelineTemplateUpdateData,
+  pipelineTemplateCreateSchema,
+  pipelineTemplateSchema,
+  pipelineTemplateUpdateSchema
+} from '../../types/pipelines';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for pipeline template operations
+export class PipelineError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+/**
+ * Lists pipeline templates with their ordered stages
+ * @param includeArchived - Whether archived templates are included
+ * @returns Promise<PipelineTemplate[]>
+ */
+export async function listPipelineTemplates(includeArchived = false): Promise<PipelineTemplate[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.pipelines.list.path,
+      await getRequestConfig({ params: { include_archived: includeArchived } })
+    );
+
+    return z.array(pipelineTemplateSchema).parse(unwrapResponse(response.data, PipelineError)) as PipelineTemplate[];
+  } catch (error) {
+    throw toApiError(error, PipelineError);
+  }
+}
+
+/**
+ * Resolves the pipeline template used by a job, falling back to the default template
+ * @param jobId - Job identifier
+ * @returns Promise<PipelineTemplate>
+ */
+export async function getJobPipeline(jobId: string): Promise<PipelineTemplate> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.pipelines.list.path,
+      await getRequestConfig({ params: { job_id: jobId } })
+    );
+
+    return pipelineTemplateSchema.parse(unwrapResponse(response.data, PipelineError)) as PipelineTemplate;
+  } catch (error) {
+    throw toApiError(error, PipelineError);
+  }
+}
+
+/**
+ * Creates a pipeline template with ordered stages
+ * @param data - Template name, description and stages
+ * @returns Promise<PipelineTemplate>
+ */
+export async function createPipelineTemplate(
+  data: PipelineTemplateCreateData
+): Promise<PipelineTemplate> {
+  try {
+    const validatedData = pipelineTemplateCreateSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.pipelines.create.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return pipelineTemplateSchema.parse(unwrapResponse(response.data, PipelineError)) as PipelineTemplate;
+  } catch (error) {
+    throw toApiError(error, PipelineError);
+  }
+}
+
+/**
+ * Updates a pipeline template; provided stages replace the ordered stage list
+ * @param id - Template identifier
+ * @param data - Fields to update
+ * @returns Promise<PipelineTemplate>
+ */
+export async function updatePipelineTemplate(
+  id: string,
+  data: PipelineTemplateUpdateData
+): Promise<PipelineTemplate> {
+  try {
+    const validatedData = pipelineTemplateUpdateSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.pipelines.update.path.replace(':id', id),
+      { templateId: id, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return pipelineTemplateSchema.parse(unwrapResponse(response.data, PipelineError)) as PipelineTemplate;
+  } catch (error) {
+    throw toApiError(error, PipelineError);
+  }
+}
@@ -0,0 +1,259 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  InterviewResponse,
+  PortalApplication,
+  PortalInterview,
+  PortalProfile,
+  PortalProfileUpdate,
+  PortalScreeningData,
+  PortalTask,
+  ResumeVersion,
+  TakeHomeSubmission,
+  TakeHomeSubmissionData,
+  interviewResponseSchema,
+  portalApplicationSchema,
+  portalInterviewSchema,
+  portalProfileSchema,
+  portalProfileUpdateSchema,
+  portalTaskSchema,
+  resumeVersionSchema,
+  takeHomeSubmissionResultSchema,
+  takeHomeSubmissionSchema
+} from '../../types/portal';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { FILE_UPLOAD } from '../../config/constants';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for candidate portal operations
+export class PortalError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'PortalError';
+  }
+}
+
+/**
+ * Checks a file against the upload limits before it is sent
+ */
+function assertUploadable(file: File, label: string): void {
+  if (file.size > FILE_UPLOAD.MAX_SIZE) {
+    throw new PortalError(ErrorCode.VALIDATION_ERROR, `${label} exceeds the 10MB limit`);
+  }
+  if (!FILE_UPLOAD.ALLOWED_TYPES.includes(file.type)) {
+    throw new PortalError(ErrorCode.VALIDATION_ERROR, `${label} must be a PDF, Word or text document`);
+  }
+}
+
+/**
+ * Loads the signed-in candidate's profile
+ * @returns Promise<PortalProfile>
+ */
+export async function getPortalProfile(): Promise<PortalProfile> {
+  try {
+    const response = await axios.get(ENDPOINTS.portal.profile.path, await getRequestConfig());
+
+    return portalProfileSchema.parse(unwrapResponse(response.data, PortalError)) as PortalProfile;
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Saves changes to the candidate's profile and preferences
+ * @param update - Fields to change; preferences are merged into those held
+ * @returns Promise<PortalProfile>
+ */
+export async function updatePortalProfile(update: PortalProfileUpdate): Promise<PortalProfile> {
+  try {
+    const response = await axios.patch(
+      ENDPOINTS.portal.updateProfile.path,
+      portalProfileUpdateSchema.parse(update),
+      await getRequestConfig()
+    );
+
+    return portalProfileSchema.parse(unwrapResponse(response.data, PortalError)) as PortalProfile;
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Lists the resumes the candidate uploaded, latest version first
+ * @returns Promise<ResumeVersion[]>
+ */
+export async function listResumeVersions(): Promise<ResumeVersion[]> {
+  try {
+    const response = await axios.get(ENDPOINTS.portal.resumes.path, await getRequestConfig());
+
+    return z.array(resumeVersionSchema).parse(unwrapResponse(response.data, PortalError)) as ResumeVersion[];
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Uploads a new resume, which becomes the candidate's current one
+ * @param resume - Resume file
+ * @returns Promise<ResumeVersion>
+ */
+export async function uploadResume(resume: File): Promise<ResumeVersion> {
+  try {
+    assertUploadable(resume, 'Resume');
+
+    const formData = new FormData();
+    formData.append('resume', resume);
+
+    const response = await axios.post(
+      ENDPOINTS.portal.uploadResume.path,
+      formData,
+      await getRequestConfig({ headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+
+    return resumeVersionSchema.parse(unwrapResponse(response.data, PortalError)) as ResumeVersion;
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Lists the candidate's applications with the stage shown to them
+ * @returns Promise<PortalApplication[]>
+ */
+export async function listPortalApplications(): Promise<PortalApplication[]> {
+  try {
+    const response = await axios.get(ENDPOINTS.portal.applications.path, await getRequestConfig());
+
+    return z.array(portalApplicationSchema).parse(unwrapResponse(response.data, PortalError)) as PortalApplication[];
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Lists the candidate's interviews, upcoming ones first
+ * @returns Promise<PortalInterview[]>
+ */
+export async function listPortalInterviews(): Promise<PortalInterview[]> {
+  try {
+    const response = await axios.get(ENDPOINTS.portal.interviews.path, await getRequestConfig());
+
+    return z.array(portalInterviewSchema).parse(unwrapResponse(response.data, PortalError)) as PortalInterview[];
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Confirms an interview or asks to move it
+ * @param interviewId - Interview identifier
+ * @param response - Confirmation, or the reason and preferred times for a new slot
+ * @returns Promise<PortalInterview>
+ */
+export async function respondToInterview(
+  interviewId: string,
+  response: InterviewResponse
+): Promise<PortalInterview> {
+  try {
+    const result = await axios.post(
+      ENDPOINTS.portal.respond.path.replace(':id', interviewId),
+      interviewResponseSchema.parse(response),
+      await getRequestConfig()
+    );
+
+    return portalInterviewSchema.parse(unwrapResponse(result.data, PortalError)) as PortalInterview;
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Lists the screening questions and take-home assignments left to complete
+ * @returns Promise<PortalTask[]>
+ */
+export async function listPortalTasks(): Promise<PortalTask[]> {
+  try {
+    const response = await axios.get(ENDPOINTS.portal.tasks.path, await getRequestConfig());
+
+    return z.array(portalTaskSchema).parse(unwrapResponse(response.data, PortalError)) as PortalTask[];
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Answers the screening questions left open on an application
+ * @param applicationId - Application identifier
+ * @param data - Answers, and files for file upload questions
+ * @returns Promise<number> Number of answers stored
+ */
+export async function answerScreeningQuestions(
+  applicationId: string,
+  data: PortalScreeningData
+): Promise<number> {
+  try {
+    const answerFiles = Object.entries(data.answer_files ?? {});
+    answerFiles.forEach(([, file]) => assertUploadable(file, 'Answer file'));
+
+    const formData = new FormData();
+    formData.append('answers', JSON.stringify(data.answers));
+    answerFiles.forEach(([questionId, file]) => {
+      formData.append(`answer_file_${questionId}`, file);
+    });
+
+    const response = await axios.post(
+      ENDPOINTS.portal.answerScreening.path.replace(':id', applicationId),
+      formData,
+      await getRequestConfig({ headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+
+    return z.object({ answered: z.number().int() }).parse(unwrapResponse(response.data, PortalError)).answered;
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
+
+/**
+ * Hands in a take-home assignment as a file, a link or both
+ * @param interviewId - Take-home interview identifier
+ * @param data - File, link and notes
+ * @returns Promise<TakeHomeSubmission>
+ */
+export async function submitTakeHome(
+  interviewId: string,
+  data: TakeHomeSubmissionData
+): Promise<TakeHomeSubmission> {
+  try {
+    const { file, ...fields } = data;
+    const validated = takeHomeSubmissionSchema.parse(fields);
+    if (!file && !validated.link_url) {
+      throw new PortalError(ErrorCode.VALIDATION_ERROR, 'Attach a file or add a link to your work');
+    }
+
+    const formData = new FormData();
+    Object.entries(validated).forEach(([field, value]) => {
+      if (value) {
+        formData.append(field, value);
+      }
+    });
+    if (file) {
+      assertUploadable(file, 'Submission');
+      formData.append('file', file);
+    }
+
+    const response = await axios.post(
+      ENDPOINTS.portal.submitTakeHome.path.replace(':id', interviewId),
+      formData,
+      await getRequestConfig({ headers: { 'Content-Type': 'multipart/form-data' } })
+    );
+
+    return takeHomeSubmissionResultSchema.parse(unwrapResponse(response.data, PortalError)) as TakeHomeSubmission;
+  } catch (error) {
+    throw toApiError(error, PortalError);
+  }
+}
@@ -0,0 +1,153 @@
+import axios from 'axios'; // ^1.5.0
+import {
+  DataSubjectRequest,
+  DataSubjectRequestInput,
+  DataSubjectRequestListParams,
+  DataSubjectRequestSummary,
+  DataSubjectRequestUpdate,
+  dataSubjectRequestInputSchema,
+  dataSubjectRequestSchema,
+  dataSubjectRequestSummarySchema
+} from '../../types/privacy';
+import { ErrorCode, PaginatedResponse, createPaginatedResponseSchema } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, readBlobError, toApiError, unwrapResponse } from './request';
+
+// Custom error class for data subject requests
+export class PrivacyRequestError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'PrivacyRequestError';
+  }
+}
+
+const requestPageSchema = createPaginatedResponseSchema(dataSubjectRequestSummarySchema);
+
+/**
+ * Lists data subject requests, open requests due soonest first
+ * @param params - Status, type and overdue filters, and pagination
+ * @returns Promise<PaginatedResponse<DataSubjectRequestSummary>>
+ */
+export async function listPrivacyRequests(
+  params: DataSubjectRequestListParams = {}
+): Promise<PaginatedResponse<DataSubjectRequestSummary>> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.privacyRequests.list.path,
+      await getRequestConfig({
+        params: {
+          ...params,
+          overdue: params.overdue === undefined ? undefined : String(params.overdue)
+        }
+      })
+    );
+
+    const page = requestPageSchema.parse(unwrapResponse(response.data, PrivacyRequestError));
+    return { ...page, data: page.data as DataSubjectRequestSummary[] };
+  } catch (error) {
+    throw toApiError(await readBlobError(error), PrivacyRequestError);
+  }
+}
+
+/**
+ * Logs a data subject request; its deadline follows from the regulation
+ * @param request - Type, regulation, and the candidate or the email it came from
+ * @returns Promise<DataSubjectRequest>
+ */
+export async function createPrivacyRequest(request: DataSubjectRequestInput): Promise<DataSubjectRequest> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.privacyRequests.create.path,
+      dataSubjectRequestInputSchema.parse(request),
+      await getRequestConfig()
+    );
+
+    return dataSubjectRequestSchema.parse(unwrapResponse(response.data, PrivacyRequestError)) as DataSubjectRequest;
+  } catch (error) {
+    throw toApiError(await readBlobError(error), PrivacyRequestError);
+  }
+}
+
+/**
+ * Links an open request to a candidate or edits its notes
+ * @param requestId - Request identifier
+ * @param update - Candidate and notes
+ * @returns Promise<DataSubjectRequest>
+ */
+export async function updatePrivacyRequest(
+  requestId: string,
+  update: DataSubjectRequestUpdate
+): Promise<DataSubjectRequest> {
+  try {
+    const response = await axios.put(
+      ENDPOINTS.privacyRequests.update.path.replace(':id', requestId),
+      update,
+      await getRequestConfig()
+    );
+
+    return dataSubjectRequestSchema.parse(unwrapResponse(response.data, PrivacyRequestError)) as DataSubjectRequest;
+  } catch (error) {
+    throw toApiError(await readBlobError(error), PrivacyRequestError);
+  }
+}
+
+/**
+ * Declines an open request
+ * @param requestId - Request identifier
+ * @param reason - Why the request was declined
+ * @returns Promise<DataSubjectRequest>
+ */
+export async function rejectPrivacyRequest(requestId: string, reason: string): Promise<DataSubjectRequest> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.privacyRequests.reject.path.replace(':id', requestId),
+      { reason },
+      await getRequestConfig()
+    );
+
+    return dataSubjectRequestSchema.parse(unwrapResponse(response.data, PrivacyRequestError)) as DataSubjectRequest;
+  } catch (error) {
+    throw toApiError(await readBlobError(error), PrivacyRequestError);
+  }
+}
+
+/**
+ * Answers an access request, downloading the zip of everything held on the person
+ * @param requestId - Request identifier
+ * @returns Promise<Blob> The zip archive
+ */
+export async function exportPrivacyRequest(requestId: string): Promise<Blob> {
+  try {
+    const response = await axios.get<Blob>(
+      ENDPOINTS.privacyRequests.export.path.replace(':id', requestId),
+      await getRequestConfig({ responseType: 'blob' })
+    );
+
+    return response.data;
+  } catch (error) {
+    throw toApiError(await readBlobError(error), PrivacyRequestError);
+  }
+}
+
+/**
+ * Answers an erasure request by anonymizing the candidate and purging their files
+ * @param requestId - Request identifier
+ * @returns Promise<DataSubjectRequest> The completed request with its evidence
+ */
+export async function erasePrivacyRequest(requestId: string): Promise<DataSubjectRequest> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.privacyRequests.erase.path.replace(':id', requestId),
+      {},
+      await getRequestConfig()
+    );
+
+    return dataSubjectRequestSchema.parse(unwrapResponse(response.data, PrivacyRequestError)) as DataSubjectRequest;
+  } catch (error) {
+    throw toApiError(await readBlobError(error), PrivacyRequestError);
+  }
+}
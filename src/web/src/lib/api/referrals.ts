@@ -0,0 +1,113 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  Referral,
+  ReferralBonusEntry,
+  ReferralBonusReportParams,
+  ReferralLink,
+  ReferralSubmitData,
+  ReferralSummary,
+  referralBonusEntrySchema,
+  referralLinkSchema,
+  referralSchema,
+  referralSubmitSchema,
+  referralSummarySchema
+} from '../../types/referrals';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for referral operations
+export class ReferralError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ReferralError';
+  }
+}
+
+/**
+ * Lists the current user's referrals, newest first
+ * @returns Promise<ReferralSummary[]>
+ */
+export async function listMyReferrals(): Promise<ReferralSummary[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.referrals.list.path,
+      await getRequestConfig()
+    );
+
+    return z.array(referralSummarySchema).parse(unwrapResponse(response.data, ReferralError)) as ReferralSummary[];
+  } catch (error) {
+    throw toApiError(error, ReferralError);
+  }
+}
+
+/**
+ * Refers someone to a published job
+ * @param data - Referred person, job and referral details
+ * @returns Promise<Referral>
+ */
+export async function submitReferral(data: ReferralSubmitData): Promise<Referral> {
+  try {
+    const validatedData = referralSubmitSchema.parse(data);
+
+    const response = await axios.post(
+      ENDPOINTS.referrals.submit.path,
+      validatedData,
+      await getRequestConfig()
+    );
+
+    return referralSchema.parse(unwrapResponse(response.data, ReferralError)) as Referral;
+  } catch (error) {
+    throw toApiError(error, ReferralError);
+  }
+}
+
+/**
+ * Gets the current user's shareable referral link to a job
+ * @param jobId - Job identifier
+ * @returns Promise<ReferralLink>
+ */
+export async function getReferralLink(jobId: string): Promise<ReferralLink> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.referrals.link.path,
+      { job_id: jobId },
+      await getRequestConfig()
+    );
+
+    return referralLinkSchema.parse(unwrapResponse(response.data, ReferralError)) as ReferralLink;
+  } catch (error) {
+    throw toApiError(error, ReferralError);
+  }
+}
+
+/**
+ * Gets hired referrals with their bonus eligibility; admins only
+ * @param params - Optional hire period and eligible-only filter
+ * @returns Promise<ReferralBonusEntry[]>
+ */
+export async function getReferralBonusReport(
+  params: ReferralBonusReportParams = {}
+): Promise<ReferralBonusEntry[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.referrals.bonusReport.path,
+      await getRequestConfig({
+        params: {
+          hired_from: params.hired_from?.toISOString(),
+          hired_to: params.hired_to?.toISOString(),
+          eligible_only: params.eligible_only ? 'true' : undefined
+        }
+      })
+    );
+
+    return z.array(referralBonusEntrySchema).parse(unwrapResponse(response.data, ReferralError)) as ReferralBonusEntry[];
+  } catch (error) {
+    throw toApiError(error, ReferralError);
+  }
+}
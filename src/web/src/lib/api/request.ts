@@ -0,0 +1,86 @@
+import { AxiosError, AxiosRequestConfig } from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import { supabase } from '../supabase';
+import { ErrorCode } from '../../types/common';
+import { createApiConfig } from '../../config/api';
+import { ERROR_MESSAGES } from '../../config/constants';
+
+/**
+ * Error class an API module raises, e.g. PipelineError
+ */
+export type ApiErrorClass<E extends Error> = new (code: ErrorCode, message: string, details?: unknown) => E;
+
+/**
+ * Builds an authenticated request configuration from the current session
+ */
+export async function getRequestConfig(config: AxiosRequestConfig = {}): Promise<AxiosRequestConfig> {
+  const { data } = await supabase.auth.getSession();
+  return createApiConfig(data.session?.access_token, config);
+}
+
+/**
+ * Unwraps the API envelope, raising the module's error for unsuccessful responses
+ * @param body - Response envelope
+ * @param ErrorClass - Error class of the calling module
+ */
+export function unwrapResponse<T>(
+  body: {
+    success: boolean;
+    data: T | null;
+    error: { code: ErrorCode; message: string; details?: unknown } | null;
+  },
+  ErrorClass: ApiErrorClass<Error>
+): T {
+  if (!body.success || body.data === null) {
+    throw new ErrorClass(
+      body.error?.code ?? ErrorCode.INTERNAL_ERROR,
+      body.error?.message ?? ERROR_MESSAGES.GENERIC_ERROR,
+      body.error?.details
+    );
+  }
+  return body.data;
+}
+
+/**
+ * Maps transport and validation failures to the module's error
+ * @param error - Caught error
+ * @param ErrorClass - Error class of the calling module
+ */
+export function toApiError<E extends Error>(error: unknown, ErrorClass: ApiErrorClass<E>): E {
+  if (error instanceof ErrorClass) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    return new ErrorClass(ErrorCode.VALIDATION_ERROR, ERROR_MESSAGES.VALIDATION_ERROR, error.errors);
+  }
+
+  if (error instanceof AxiosError) {
+    if (!error.response) {
+      return new ErrorClass(ErrorCode.SERVICE_UNAVAILABLE, ERROR_MESSAGES.NETWORK_ERROR);
+    }
+    // Keep the server error so callers can act on details such as blocked stage moves
+    const body = error.response.data;
+    if (body?.error?.code) {
+      return new ErrorClass(body.error.code, body.error.message, body.error.details);
+    }
+    return new ErrorClass(ErrorCode.INTERNAL_ERROR, ERROR_MESSAGES.GENERIC_ERROR);
+  }
+
+  return new ErrorClass(ErrorCode.INTERNAL_ERROR, ERROR_MESSAGES.GENERIC_ERROR, error);
+}
+
+/**
+ * Reads the JSON envelope of a response requested as a file; errors come back as a
+ * blob too, so they are read before being mapped
+ */
+export async function readBlobError(error: unknown): Promise<unknown> {
+  if (error instanceof AxiosError && error.response?.data instanceof Blob) {
+    try {
+      error.response.data = JSON.parse(await error.response.data.text());
+    } catch {
+      // Not an API envelope; mapped to a generic error
+    }
+  }
+  return error;
+}
@@ -0,0 +1,240 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  CandidateSearchFilters,
+  JobSearchFilters,
+  Notification,
+  NotificationList,
+  SavedSearch,
+  SavedSearchEntity,
+  SavedSearchInput,
+  SavedSearchSubscribeInput,
+  SavedSearchUpdate,
+  notificationListSchema,
+  savedSearchInputSchema,
+  savedSearchSchema,
+  savedSearchSubscribeInputSchema
+} from '../../types/saved-searches';
+import { CandidateSearchParams } from '../../types/candidates';
+import { JobSearchParams } from '../../types/jobs';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { toExportFilters } from './exports';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for saved searches and notifications
+export class SavedSearchError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
+
+/**
+ * Maps the filters of the candidate search page to the filters a saved search keeps
+ * @param params - Search parameters of the candidate list
+ */
+export const toCandidateSearchFilters = (params: Partial<CandidateSearchParams>): CandidateSearchFilters =>
+  toExportFilters(params);
+
+/**
+ * Maps the filters of a saved candidate search back to the candidate search page
+ * @param filters - Filters of the saved search
+ */
+export function toCandidateSearchParams(filters: CandidateSearchFilters): Partial<CandidateSearchParams> {
+  return {
+    query: filters.query ?? '',
+    status: filters.status ?? [],
+    skills: filters.skills ?? [],
+    experience_level: filters.experienceLevel?.[0] ?? '',
+    location: filters.location ?? '',
+    salary_min: filters.salaryRange?.min ?? 0,
+    salary_max: filters.salaryRange?.max ?? 0,
+    tags: filters.tags ?? []
+  };
+}
+
+/**
+ * Maps the filters of the job search page to the filters a saved search keeps
+ * @param params - Search parameters of the job list
+ */
+export function toJobSearchFilters(params: Partial<JobSearchParams>): JobSearchFilters {
+  const filters: JobSearchFilters = {};
+  if (params.query?.trim()) filters.query = params.query.trim();
+  if (params.status?.length) filters.status = params.status;
+  if (params.type?.length) filters.type = params.type;
+  if (params.skills?.length) filters.skills = params.skills;
+  if (params.experience_level?.length) filters.experience_level = params.experience_level;
+  if (params.location?.trim()) filters.location = params.location.trim();
+  if (params.remote_only) filters.remote_only = true;
+  if (params.salary_min) filters.salary_min = params.salary_min;
+  if (params.salary_max) filters.salary_max = params.salary_max;
+  return filters;
+}
+
+/**
+ * Maps the filters of a saved job search back to the job search page
+ * @param filters - Filters of the saved search
+ */
+export function toJobSearchParams(filters: JobSearchFilters): Partial<JobSearchParams> {
+  return {
+    query: filters.query ?? '',
+    status: filters.status ?? [],
+    type: filters.type ?? [],
+    skills: filters.skills ?? [],
+    experience_level: filters.experience_level ?? [],
+    location: filters.location ?? '',
+    remote_only: filters.remote_only ?? false,
+    salary_min: filters.salary_min ?? 0,
+    salary_max: filters.salary_max ?? 0
+  };
+}
+
+/**
+ * Lists the user's saved searches and those shared by others, with the user's
+ * subscription to each
+ * @param entityType - Candidate or job searches
+ * @returns Promise<SavedSearch[]>
+ */
+export async function listSavedSearches(entityType: SavedSearchEntity): Promise<SavedSearch[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.savedSearches.list.path,
+      await getRequestConfig({ params: { entity_type: entityType } })
+    );
+
+    return z.array(savedSearchSchema).parse(unwrapResponse(response.data, SavedSearchError)) as SavedSearch[];
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Saves the current filters under a name
+ * @param search - Name, entity type, filters and whether the search is shared
+ * @returns Promise<SavedSearch>
+ */
+export async function createSavedSearch(search: SavedSearchInput): Promise<SavedSearch> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.savedSearches.create.path,
+      savedSearchInputSchema.parse(search),
+      await getRequestConfig()
+    );
+
+    return savedSearchSchema.parse(unwrapResponse(response.data, SavedSearchError)) as SavedSearch;
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Renames a saved search, changes its filters, or shares or unshares it
+ * @param searchId - Saved search identifier
+ * @param update - Changed fields
+ * @returns Promise<SavedSearch>
+ */
+export async function updateSavedSearch(searchId: string, update: SavedSearchUpdate): Promise<SavedSearch> {
+  try {
+    const response = await axios.put(
+      ENDPOINTS.savedSearches.update.path.replace(':id', searchId),
+      update,
+      await getRequestConfig()
+    );
+
+    return savedSearchSchema.parse(unwrapResponse(response.data, SavedSearchError)) as SavedSearch;
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Deletes a saved search, ending every subscription to it
+ * @param searchId - Saved search identifier
+ */
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+  try {
+    const response = await axios.delete(
+      ENDPOINTS.savedSearches.delete.path.replace(':id', searchId),
+      await getRequestConfig()
+    );
+
+    unwrapResponse(response.data, SavedSearchError);
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Subscribes to the new results of a saved search, or changes how often and where
+ * the digest is sent
+ * @param searchId - Saved search identifier
+ * @param input - Frequency and channel of the digest
+ */
+export async function subscribeToSavedSearch(searchId: string, input: SavedSearchSubscribeInput): Promise<void> {
+  try {
+    const response = await axios.put(
+      ENDPOINTS.savedSearches.subscribe.path.replace(':id', searchId),
+      savedSearchSubscribeInputSchema.parse(input),
+      await getRequestConfig()
+    );
+
+    unwrapResponse(response.data, SavedSearchError);
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Stops the digests of a saved search
+ * @param searchId - Saved search identifier
+ */
+export async function unsubscribeFromSavedSearch(searchId: string): Promise<void> {
+  try {
+    const response = await axios.delete(
+      ENDPOINTS.savedSearches.unsubscribe.path.replace(':id', searchId),
+      await getRequestConfig()
+    );
+
+    unwrapResponse(response.data, SavedSearchError);
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Lists the user's in-app notifications, newest first, with the number unread
+ * @returns Promise<NotificationList>
+ */
+export async function listNotifications(): Promise<NotificationList> {
+  try {
+    const response = await axios.get(ENDPOINTS.notifications.list.path, await getRequestConfig());
+
+    const result = notificationListSchema.parse(unwrapResponse(response.data, SavedSearchError));
+    return { notifications: result.notifications as Notification[], unread_count: result.unread_count };
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
+
+/**
+ * Marks notifications read
+ * @param ids - Notifications to mark, or every unread one when omitted
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.notifications.read.path,
+      { ids },
+      await getRequestConfig()
+    );
+
+    unwrapResponse(response.data, SavedSearchError);
+  } catch (error) {
+    throw toApiError(error, SavedSearchError);
+  }
+}
@@ -0,0 +1,62 @@
+import axios from 'axios'; // ^1.5.0
+import {
+  JobScreening,
+  JobScreeningUpdateData,
+  jobScreeningSchema,
+  jobScreeningUpdateSchema
+} from '../../types/screening';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for screening question operations
+export class ScreeningError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ScreeningError';
+  }
+}
+
+/**
+ * Loads the screening questions of a job with their knockout rules and settings
+ * @param jobId - Job identifier
+ * @returns Promise<JobScreening>
+ */
+export async function getJobScreening(jobId: string): Promise<JobScreening> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.jobs.screening.path.replace(':id', jobId),
+      await getRequestConfig()
+    );
+
+    return jobScreeningSchema.parse(unwrapResponse(response.data, ScreeningError)) as JobScreening;
+  } catch (error) {
+    throw toApiError(error, ScreeningError);
+  }
+}
+
+/**
+ * Replaces the screening questions and knockout settings of a job
+ * @param jobId - Job identifier
+ * @param data - Questions in order and knockout settings
+ * @returns Promise<JobScreening>
+ */
+export async function updateJobScreening(jobId: string, data: JobScreeningUpdateData): Promise<JobScreening> {
+  try {
+    const validatedData = jobScreeningUpdateSchema.parse(data);
+
+    const response = await axios.put(
+      ENDPOINTS.jobs.updateScreening.path.replace(':id', jobId),
+      { jobId, payload: validatedData },
+      await getRequestConfig()
+    );
+
+    return jobScreeningSchema.parse(unwrapResponse(response.data, ScreeningError)) as JobScreening;
+  } catch (error) {
+    throw toApiError(error, ScreeningError);
+  }
+}
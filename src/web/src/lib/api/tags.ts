@@ -0,0 +1,157 @@
+import axios from 'axios'; // ^1.5.0
+import { z } from 'zod'; // ^3.22.0
+import {
+  BulkTagRequest,
+  BulkTagResult,
+  Tag,
+  TagInput,
+  TagListParams,
+  TagUpdate,
+  TagWithUsage,
+  bulkTagResultSchema,
+  tagInputSchema,
+  tagSchema,
+  tagWithUsageSchema
+} from '../../types/tags';
+import { ErrorCode } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for candidate tags
+export class TagError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'TagError';
+  }
+}
+
+/**
+ * Lists tags with the number of candidates carrying each, curated tags first
+ * @param params - Optional name search, category and curated filter
+ * @returns Promise<TagWithUsage[]>
+ */
+export async function listTags(params: TagListParams = {}): Promise<TagWithUsage[]> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.tags.list.path,
+      await getRequestConfig({
+        params: {
+          q: params.q?.trim() || undefined,
+          category: params.category,
+          curated: params.curated === undefined ? undefined : String(params.curated)
+        }
+      })
+    );
+
+    return z.array(tagWithUsageSchema).parse(unwrapResponse(response.data, TagError)) as TagWithUsage[];
+  } catch (error) {
+    throw toApiError(error, TagError);
+  }
+}
+
+/**
+ * Creates a tag; only admins can add curated tags
+ * @param tag - Name, colour, category and whether the tag is curated
+ * @returns Promise<Tag>
+ */
+export async function createTag(tag: TagInput): Promise<Tag> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.tags.create.path,
+      tagInputSchema.parse(tag),
+      await getRequestConfig()
+    );
+
+    return tagSchema.parse(unwrapResponse(response.data, TagError)) as Tag;
+  } catch (error) {
+    throw toApiError(error, TagError);
+  }
+}
+
+/**
+ * Renames, recolours or recategorizes a tag across all candidates
+ * @param tagId - Tag identifier
+ * @param update - Changed fields
+ * @returns Promise<Tag>
+ */
+export async function updateTag(tagId: string, update: TagUpdate): Promise<Tag> {
+  try {
+    const response = await axios.put(
+      ENDPOINTS.tags.update.path.replace(':id', tagId),
+      tagInputSchema.partial().parse(update),
+      await getRequestConfig()
+    );
+
+    return tagSchema.parse(unwrapResponse(response.data, TagError)) as Tag;
+  } catch (error) {
+    throw toApiError(error, TagError);
+  }
+}
+
+/**
+ * Merges tags into another, retagging their candidates and deleting the merged tags
+ * @param sourceIds - Tags merged away
+ * @param targetId - Tag that is kept
+ * @returns Promise with the kept tag and the number of candidates newly given it
+ */
+export async function mergeTags(
+  sourceIds: string[],
+  targetId: string
+): Promise<{ tag: Tag; candidates_moved: number }> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.tags.merge.path,
+      { source_ids: sourceIds, target_id: targetId },
+      await getRequestConfig()
+    );
+
+    const result = z.object({
+      tag: tagSchema,
+      candidates_moved: z.number().int().nonnegative()
+    }).parse(unwrapResponse(response.data, TagError));
+    return { tag: result.tag as Tag, candidates_moved: result.candidates_moved };
+  } catch (error) {
+    throw toApiError(error, TagError);
+  }
+}
+
+/**
+ * Deletes a tag and removes it from every candidate
+ * @param tagId - Tag identifier
+ * @returns Promise with the number of candidates that carried the tag
+ */
+export async function deleteTag(tagId: string): Promise<{ candidate_count: number }> {
+  try {
+    const response = await axios.delete(
+      ENDPOINTS.tags.delete.path.replace(':id', tagId),
+      await getRequestConfig()
+    );
+
+    return z.object({ candidate_count: z.number().int().nonnegative() }).parse(unwrapResponse(response.data, TagError));
+  } catch (error) {
+    throw toApiError(error, TagError);
+  }
+}
+
+/**
+ * Adds and removes tags on many candidates at once
+ * @param request - Candidates, tags to add by id or name, and tags to remove
+ * @returns Promise<BulkTagResult>
+ */
+export async function bulkTagCandidates(request: BulkTagRequest): Promise<BulkTagResult> {
+  try {
+    const response = await axios.post(
+      ENDPOINTS.candidates.bulkTags.path,
+      request,
+      await getRequestConfig()
+    );
+
+    return bulkTagResultSchema.parse(unwrapResponse(response.data, TagError)) as BulkTagResult;
+  } catch (error) {
+    throw toApiError(error, TagError);
+  }
+}
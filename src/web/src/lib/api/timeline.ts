@@ -0,0 +1,52 @@
+import axios from 'axios'; // ^1.5.0
+import { TimelineEvent, TimelineParams, timelinePageSchema } from '../../types/timeline';
+import { ErrorCode, PaginatedResponse } from '../../types/common';
+import { ENDPOINTS } from '../../config/api';
+import { getRequestConfig, toApiError, unwrapResponse } from './request';
+
+// Custom error class for candidate timelines
+export class TimelineError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'TimelineError';
+  }
+}
+
+/**
+ * Retrieves a page of a candidate's activity timeline, newest first
+ * @param candidateId - Candidate identifier
+ * @param params - Kinds of activity to show and the page to read
+ * @returns Promise<PaginatedResponse<TimelineEvent>>
+ */
+export async function getCandidateTimeline(
+  candidateId: string,
+  params: TimelineParams
+): Promise<PaginatedResponse<TimelineEvent>> {
+  try {
+    const response = await axios.get(
+      ENDPOINTS.candidates.timeline.path.replace(':id', candidateId),
+      await getRequestConfig({
+        params: {
+          types: params.types.length > 0 ? params.types.join(',') : undefined,
+          page: params.page,
+          limit: params.limit
+        }
+      })
+    );
+
+    const page = timelinePageSchema.parse(unwrapResponse(response.data, TimelineError));
+
+    return {
+      ...page,
+      data: page.data as TimelineEvent[],
+      has_next: page.page < page.total_pages,
+      has_previous: page.page > 1
+    };
+  } catch (error) {
+    throw toApiError(error, TimelineError);
+  }
+}
@@ -0,0 +1,232 @@
+import { useEffect, useMemo } from 'react'; // ^18.0.0
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listApplications,
+  createApplication,
+  updateApplication,
+  withdrawApplication
+} from '../api/applications';
+import { supabase } from '../supabase';
+import {
+  ApplicationCreateData,
+  ApplicationListParams,
+  ApplicationUpdateData,
+  ApplicationWithCandidate,
+  ApplicationsByStage,
+  ScreeningAnswerFilter
+} from '../../types/applications';
+import { ApplicationStatus } from '../../types/candidates';
+import { PipelineStage, resolveStageStatus } from '../../types/pipelines';
+import { PaginatedResponse } from '../../types/common';
+import { CACHE_KEYS } from '../../config/constants';
+import { CHANNEL_NAMES } from '../../config/websocket';
+import { useJobPipeline } from './usePipelineTemplates';
+
+// Column id for withdrawn applications, which sit outside the job's pipeline stages
+export const WITHDRAWN_COLUMN_ID = 'withdrawn';
+
+interface UseApplicationsOptions {
+  status?: ApplicationStatus[];
+  answers?: ScreeningAnswerFilter[];
+  knockout?: 'passed' | 'failed';
+  limit?: number;
+  queryConfig?: {
+    enabled?: boolean;
+    staleTime?: number;
+    cacheTime?: number;
+    retry?: number | boolean;
+  };
+}
+
+interface DetailedError {
+  message: string;
+  code: string;
+  details?: unknown;
+}
+
+/**
+ * Groups applications into a record keyed by the id of every pipeline stage, plus the
+ * withdrawn column. Applications without a stage fall back to the first stage matching
+ * their status.
+ */
+export function groupApplicationsByStage(
+  applications: ApplicationWithCandidate[],
+  stages: PipelineStage[]
+): ApplicationsByStage {
+  const columns = stages.reduce(
+    (acc, stage) => ({ ...acc, [stage.id]: [] }),
+    { [WITHDRAWN_COLUMN_ID]: [] } as ApplicationsByStage
+  );
+
+  return applications.reduce((acc, application) => {
+    const columnId = application.status === ApplicationStatus.WITHDRAWN
+      ? WITHDRAWN_COLUMN_ID
+      : application.stage_id && acc[application.stage_id]
+        ? application.stage_id
+        : stages.find(stage => resolveStageStatus(stage) === application.status)?.id;
+
+    if (columnId) {
+      acc[columnId] = [...acc[columnId], application];
+    }
+    return acc;
+  }, columns);
+}
+
+/**
+ * Hook for managing the applications of a single job with optimistic stage moves
+ * and real-time synchronisation of pipeline changes; stages come from the job's
+ * pipeline template
+ */
+export function useApplications(jobId: string | undefined, options: UseApplicationsOptions = {}) {
+  const queryClient = useQueryClient();
+  const { pipeline, stages, isLoading: isPipelineLoading, error: pipelineError } = useJobPipeline(jobId);
+
+  const params: ApplicationListParams = {
+    job_id: jobId,
+    status: options.status,
+    answers: options.answers,
+    knockout: options.knockout,
+    page: 1,
+    limit: options.limit ?? 200
+  };
+  const queryKey = [CACHE_KEYS.APPLICATION_LIST, params];
+
+  // Main applications query
+  const {
+    data: applicationsData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey,
+    queryFn: () => listApplications(params),
+    enabled: !!jobId,
+    ...options.queryConfig,
+    staleTime: 30000, // 30 seconds
+    cacheTime: 300000, // 5 minutes
+    retry: 2
+  });
+
+  // Real-time subscription to application changes for this job
+  useEffect(() => {
+    if (!jobId) return;
+
+    const channel = supabase.channel(`${CHANNEL_NAMES.APPLICATIONS}:${jobId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'applications', filter: `job_id=eq.${jobId}` },
+        () => {
+          queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [jobId, queryClient]);
+
+  // Create application mutation
+  const createMutation = useMutation({
+    mutationFn: (data: ApplicationCreateData) => createApplication(data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+    }
+  });
+
+  // Update mutation with optimistic stage move
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ApplicationUpdateData }) =>
+      updateApplication(id, data),
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries([CACHE_KEYS.APPLICATION_LIST]);
+
+      const previousData = queryClient.getQueryData<PaginatedResponse<ApplicationWithCandidate>>(queryKey);
+
+      queryClient.setQueryData<PaginatedResponse<ApplicationWithCandidate>>(
+        queryKey,
+        (oldData) => {
+          if (!oldData) return previousData;
+          return {
+            ...oldData,
+            data: oldData.data.map(application => {
+              if (application.id !== id) return application;
+              const stage = stages.find(s => s.id === data.stage_id);
+              return stage
+                ? { ...application, stage_id: stage.id, status: resolveStageStatus(stage) }
+                : { ...application, ...(data.status ? { status: data.status } : {}) };
+            })
+          };
+        }
+      );
+
+      return { previousData };
+    },
+    onError: (_, __, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(queryKey, context.previousData);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+    }
+  });
+
+  // Withdraw application mutation
+  const withdrawMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      withdrawApplication(id, reason),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+    }
+  });
+
+  const applications = applicationsData?.data || [];
+  const applicationsByStage = useMemo(
+    () => groupApplicationsByStage(applications, stages),
+    [applications, stages]
+  );
+
+  // Error handling
+  const formatError = (error: unknown): DetailedError => {
+    if (error instanceof Error) {
+      return {
+        message: error.message,
+        code: (error as { code?: string }).code ?? 'ERROR',
+        details: (error as { details?: unknown }).details
+      };
+    }
+    return {
+      message: 'An unknown error occurred',
+      code: 'UNKNOWN_ERROR'
+    };
+  };
+
+  return {
+    // Data and loading states
+    applications,
+    applicationsByStage,
+    pipeline,
+    stages,
+    total: applicationsData?.total || 0,
+    isLoading: !!jobId && (isLoading || isPipelineLoading),
+    error: error || pipelineError ? formatError(error || pipelineError) : null,
+
+    // Operations
+    createApplication: createMutation.mutateAsync,
+    moveApplication: (id: string, stageId: string, data: Omit<ApplicationUpdateData, 'status' | 'stage_id'> = {}) =>
+      updateMutation.mutateAsync({ id, data: { ...data, stage_id: stageId } }),
+    updateApplication: (id: string, data: ApplicationUpdateData) =>
+      updateMutation.mutateAsync({ id, data }),
+    withdrawApplication: (id: string, reason?: string) =>
+      withdrawMutation.mutateAsync({ id, reason }),
+
+    // Operation states
+    isCreating: createMutation.isLoading,
+    isUpdating: updateMutation.isLoading,
+    isWithdrawing: withdrawMutation.isLoading,
+
+    // Utilities
+    refetch
+  };
+}
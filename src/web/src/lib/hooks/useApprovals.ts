@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listApprovals,
+  requestApproval,
+  decideApproval,
+  remindApprovers
+} from '../api/approvals';
+import { ApprovalDecisionData, ApprovalEntityType } from '../../types/approvals';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the approval state of a job or offer: the gating chain, its requests and
+ * the request, decide and remind actions
+ */
+export function useApprovals(entityType: ApprovalEntityType, entityId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.APPROVALS, { entityType, entityId }],
+    queryFn: () => listApprovals(entityType, entityId!),
+    enabled: !!entityId,
+    staleTime: 30000 // 30 seconds
+  });
+
+  // Pending approval lists of the current user change with every request and decision
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.APPROVALS]);
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: () => requestApproval(entityType, entityId!),
+    onSettled: invalidate
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ApprovalDecisionData }) => decideApproval(id, data),
+    onSettled: invalidate
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: (id: string) => remindApprovers(id)
+  });
+
+  return {
+    chain: data?.chain ?? null,
+    requests: data?.requests || [],
+    isLoading: !!entityId && isLoading,
+    error,
+    refetch,
+    requestApproval: requestMutation.mutateAsync,
+    decideApproval: (id: string, data: ApprovalDecisionData) => decideMutation.mutateAsync({ id, data }),
+    remindApprovers: remindMutation.mutateAsync,
+    isRequesting: requestMutation.isLoading,
+    isDeciding: decideMutation.isLoading,
+    isReminding: remindMutation.isLoading
+  };
+}
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  checkDuplicateCandidates,
+  getCandidateDuplicates,
+  mergeCandidates
+} from '../api/duplicates';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the likely duplicates of an existing candidate and merging them
+ */
+export function useCandidateDuplicates(candidateId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.CANDIDATE_DUPLICATES, candidateId],
+    queryFn: () => getCandidateDuplicates(candidateId!),
+    enabled: !!candidateId,
+    staleTime: 60000 // 1 minute
+  });
+
+  // A merge moves applications, offers and hotlist memberships between candidates
+  const mergeMutation = useMutation({
+    mutationFn: ({ primaryId, duplicateId }: { primaryId: string; duplicateId: string }) =>
+      mergeCandidates(primaryId, duplicateId),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_DUPLICATES]);
+      queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_LIST]);
+      queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+      queryClient.invalidateQueries([CACHE_KEYS.OFFERS]);
+    }
+  });
+
+  return {
+    matches: data || [],
+    isLoading: !!candidateId && isLoading,
+    error,
+    refetch,
+    mergeCandidates: (primaryId: string, duplicateId: string) =>
+      mergeMutation.mutateAsync({ primaryId, duplicateId }),
+    isMerging: mergeMutation.isLoading
+  };
+}
+
+/**
+ * Hook for checking a new profile against existing candidates before it is created
+ */
+export function useDuplicateCheck() {
+  const checkMutation = useMutation({
+    mutationFn: checkDuplicateCandidates
+  });
+
+  return {
+    checkDuplicates: checkMutation.mutateAsync,
+    isChecking: checkMutation.isLoading
+  };
+}
@@ -0,0 +1,54 @@
+import { useQuery, useMutation } from '@tanstack/react-query'; // ^4.0.0
+
+import { downloadCandidateProfile, exportCandidates, getCandidateExport } from '../api/exports';
+import { CandidateExportStatus } from '../../types/exports';
+import { CACHE_KEYS } from '../../config/constants';
+
+// A queued export is polled until the worker has written its file
+const EXPORT_POLL_INTERVAL = 5000; // 5 seconds
+
+/**
+ * Hook for exporting candidates: requests an export and follows a queued one until
+ * its file can be downloaded
+ * @param exportId - Queued export to follow
+ */
+export function useCandidateExport(exportId: string | undefined) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.CANDIDATE_EXPORTS, exportId],
+    queryFn: () => getCandidateExport(exportId!),
+    enabled: !!exportId,
+    refetchInterval: (candidateExport) =>
+      candidateExport?.status === CandidateExportStatus.QUEUED ||
+      candidateExport?.status === CandidateExportStatus.PROCESSING
+        ? EXPORT_POLL_INTERVAL
+        : false
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: exportCandidates
+  });
+
+  return {
+    candidateExport: data,
+    isLoading: !!exportId && isLoading,
+    error,
+    exportCandidates: exportMutation.mutateAsync,
+    isExporting: exportMutation.isLoading
+  };
+}
+
+/**
+ * Hook for downloading the PDF profile of a candidate
+ */
+export function useCandidateProfileDownload() {
+  const downloadMutation = useMutation({
+    mutationFn: ({ candidateId, includeContact }: { candidateId: string; includeContact: boolean }) =>
+      downloadCandidateProfile(candidateId, includeContact)
+  });
+
+  return {
+    downloadProfile: (candidateId: string, includeContact = false) =>
+      downloadMutation.mutateAsync({ candidateId, includeContact }),
+    isDownloading: downloadMutation.isLoading
+  };
+}
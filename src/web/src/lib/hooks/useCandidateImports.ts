@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  commitCandidateImport,
+  downloadImportErrorReport,
+  downloadReconciliationReport,
+  getCandidateImport,
+  importAtsExport,
+  previewCandidateImport,
+  uploadCandidateImport
+} from '../api/imports';
+import { CandidateImportOptions, CandidateImportStatus } from '../../types/imports';
+import { CACHE_KEYS } from '../../config/constants';
+
+// Progress of a committed import is polled until the worker has imported every row
+const PROGRESS_POLL_INTERVAL = 3000; // 3 seconds
+
+/**
+ * Hook for a spreadsheet import of candidates: upload, dry run, commit and progress
+ */
+export function useCandidateImport(importId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.CANDIDATE_IMPORTS, importId],
+    queryFn: () => getCandidateImport(importId!),
+    enabled: !!importId,
+    refetchInterval: (candidateImport) =>
+      candidateImport?.status === CandidateImportStatus.QUEUED ||
+      candidateImport?.status === CandidateImportStatus.PROCESSING
+        ? PROGRESS_POLL_INTERVAL
+        : false,
+    // New candidates show up in the list once the import has finished
+    onSuccess: (candidateImport) => {
+      if (candidateImport.status === CandidateImportStatus.COMPLETED) {
+        queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_LIST]);
+      }
+    }
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: uploadCandidateImport
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: ({ id, options }: { id: string; options: CandidateImportOptions }) =>
+      previewCandidateImport(id, options)
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: commitCandidateImport,
+    onSuccess: (candidateImport) => {
+      queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_IMPORTS, candidateImport.id]);
+    }
+  });
+
+  return {
+    candidateImport: data,
+    isLoading: !!importId && isLoading,
+    error,
+    uploadImport: uploadMutation.mutateAsync,
+    isUploading: uploadMutation.isLoading,
+    previewImport: (id: string, options: CandidateImportOptions) =>
+      previewMutation.mutateAsync({ id, options }),
+    isPreviewing: previewMutation.isLoading,
+    commitImport: commitMutation.mutateAsync,
+    isCommitting: commitMutation.isLoading,
+    downloadErrorReport: downloadImportErrorReport
+  };
+}
+
+/**
+ * Hook for importing an export of another applicant tracking system
+ */
+export function useAtsImport() {
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: importAtsExport,
+    onSuccess: (report) => {
+      if (!report.dry_run) {
+        queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_LIST]);
+        queryClient.invalidateQueries([CACHE_KEYS.JOB_LIST]);
+        queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+      }
+    }
+  });
+
+  return {
+    report: importMutation.data,
+    error: importMutation.error,
+    importExport: importMutation.mutateAsync,
+    isImporting: importMutation.isLoading,
+    downloadReport: downloadReconciliationReport
+  };
+}
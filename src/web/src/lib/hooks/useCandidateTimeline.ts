@@ -0,0 +1,93 @@
+import { useEffect } from 'react'; // ^18.0.0
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import { getCandidateTimeline } from '../api/timeline';
+import { supabase } from '../supabase';
+import { TimelineEventType } from '../../types/timeline';
+import { CACHE_KEYS } from '../../config/constants';
+import { CHANNEL_NAMES } from '../../config/websocket';
+
+const TIMELINE_PAGE_SIZE = 25;
+
+/**
+ * Tables whose changes add to a candidate's timeline, grouped by the realtime channel
+ * they are already published on
+ */
+export const getTimelineSubscriptions = (candidateId: string) => [
+  {
+    channel: CHANNEL_NAMES.CANDIDATES,
+    tables: [
+      { table: 'candidates', filter: `id=eq.${candidateId}` },
+      { table: 'candidate_emails', filter: `candidate_id=eq.${candidateId}` },
+      { table: 'candidate_notes', filter: `candidate_id=eq.${candidateId}` }
+    ]
+  },
+  {
+    channel: CHANNEL_NAMES.APPLICATIONS,
+    tables: [{ table: 'applications', filter: `candidate_id=eq.${candidateId}` }]
+  },
+  {
+    channel: CHANNEL_NAMES.INTERVIEWS,
+    tables: [{ table: 'interviews', filter: `candidate_id=eq.${candidateId}` }]
+  },
+  {
+    channel: CHANNEL_NAMES.HOTLISTS,
+    tables: [{ table: 'hotlist_members', filter: `candidate_id=eq.${candidateId}` }]
+  }
+];
+
+/**
+ * Hook for the activity timeline of a candidate, read a page at a time. New activity
+ * shows up while the timeline is open.
+ * @param candidateId - Candidate identifier
+ * @param types - Kinds of activity to show; all of them when empty
+ */
+export function useCandidateTimeline(candidateId: string | undefined, types: TimelineEventType[] = []) {
+  const queryClient = useQueryClient();
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: [CACHE_KEYS.CANDIDATE_TIMELINE, candidateId, types],
+    queryFn: ({ pageParam = 1 }) =>
+      getCandidateTimeline(candidateId!, { types, page: pageParam, limit: TIMELINE_PAGE_SIZE }),
+    getNextPageParam: (lastPage) => (lastPage.has_next ? lastPage.page + 1 : undefined),
+    enabled: !!candidateId
+  });
+
+  // Real-time subscriptions to the candidate's activity
+  useEffect(() => {
+    if (!candidateId) return;
+
+    const channels = getTimelineSubscriptions(candidateId).map(({ channel, tables }) =>
+      tables
+        .reduce(
+          (subscription, { table, filter }) =>
+            subscription.on('postgres_changes', { event: '*', schema: 'public', table, filter }, () => {
+              queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_TIMELINE, candidateId]);
+            }),
+          supabase.channel(`${channel}:timeline:${candidateId}`)
+        )
+        .subscribe()
+    );
+
+    return () => {
+      channels.forEach(channel => channel.unsubscribe());
+    };
+  }, [candidateId, queryClient]);
+
+  return {
+    events: data?.pages.flatMap(page => page.data) ?? [],
+    total: data?.pages[0]?.total ?? 0,
+    isLoading: !!candidateId && isLoading,
+    error,
+    loadMore: fetchNextPage,
+    hasMore: !!hasNextPage,
+    isLoadingMore: isFetchingNextPage
+  };
+}
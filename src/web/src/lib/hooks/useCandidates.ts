@@ -57,6 +57,7 @@ export function useCandidates(options: UseCandidatesOptions = {}) {
     is_actively_looking: false,
     availability_date: '',
     certifications: [],
+    tags: [],
     page: PAGINATION_DEFAULTS.DEFAULT_PAGE_NUMBER,
     limit: PAGINATION_DEFAULTS.PAGE_SIZE,
     ...options.initialSearchParams
@@ -0,0 +1,51 @@
+import { useQuery, useMutation } from '@tanstack/react-query'; // ^4.0.0
+
+import { listPublicJobs, getPublicJob, applyToJob } from '../api/careers';
+import { CareerApplicationData, PublicJobListParams } from '../../types/careers';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for published jobs on the public careers site
+ */
+export function usePublicJobs(params: PublicJobListParams = {}) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.CAREERS, 'jobs', params],
+    queryFn: () => listPublicJobs(params),
+    keepPreviousData: true,
+    staleTime: 300000 // 5 minutes
+  });
+
+  return {
+    jobs: data?.data || [],
+    total: data?.total ?? 0,
+    totalPages: data?.total_pages ?? 0,
+    isLoading,
+    error,
+    refetch
+  };
+}
+
+/**
+ * Hook for a single published job and applying to it
+ */
+export function usePublicJob(jobId: string) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.CAREERS, 'job', jobId],
+    queryFn: () => getPublicJob(jobId),
+    enabled: !!jobId,
+    staleTime: 300000 // 5 minutes
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: ({ data, resume }: { data: CareerApplicationData; resume: File }) =>
+      applyToJob(jobId, data, resume)
+  });
+
+  return {
+    job: data ?? null,
+    isLoading,
+    error,
+    apply: applyMutation.mutateAsync,
+    isApplying: applyMutation.isLoading
+  };
+}
@@ -0,0 +1,144 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listConsents,
+  recordConsent,
+  updateConsent,
+  withdrawConsent,
+  renewConsent,
+  listLegalHolds,
+  placeLegalHold,
+  releaseLegalHold,
+  listRetentionRuns,
+  previewRetention
+} from '../api/consents';
+import { CandidateConsentInput, CandidateConsentUpdate } from '../../types/privacy';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the consents recorded for a candidate
+ * @param candidateId - Candidate identifier
+ */
+export function useCandidateConsents(candidateId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.CANDIDATE_CONSENTS, candidateId],
+    queryFn: () => listConsents(candidateId!),
+    enabled: !!candidateId
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_CONSENTS, candidateId]);
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: (consent: CandidateConsentInput) => recordConsent(candidateId!, consent),
+    onSettled: invalidate
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: CandidateConsentUpdate }) => updateConsent(id, update),
+    onSettled: invalidate
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (id: string) => withdrawConsent(id),
+    onSettled: invalidate
+  });
+
+  return {
+    consents: data ?? [],
+    isLoading: !!candidateId && isLoading,
+    error,
+    recordConsent: recordMutation.mutateAsync,
+    updateConsent: (id: string, update: CandidateConsentUpdate) => updateMutation.mutateAsync({ id, update }),
+    withdrawConsent: withdrawMutation.mutateAsync,
+    isSaving: recordMutation.isLoading || updateMutation.isLoading || withdrawMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the public renewal link; the candidate renews without signing in
+ */
+export function useConsentRenewal() {
+  const renewMutation = useMutation({
+    mutationFn: (token: string) => renewConsent(token)
+  });
+
+  return {
+    renewConsent: renewMutation.mutateAsync,
+    renewal: renewMutation.data,
+    isRenewing: renewMutation.isLoading,
+    error: renewMutation.error
+  };
+}
+
+/**
+ * Hook for the legal holds placed on a candidate
+ * @param candidateId - Candidate identifier
+ * @param enabled - Whether the holds may be loaded; only admins can see them
+ */
+export function useLegalHolds(candidateId: string | undefined, enabled = true) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.LEGAL_HOLDS, candidateId],
+    queryFn: () => listLegalHolds(candidateId!),
+    enabled: !!candidateId && enabled
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.LEGAL_HOLDS, candidateId]);
+  };
+
+  const placeMutation = useMutation({
+    mutationFn: (reason: string) => placeLegalHold(candidateId!, reason),
+    onSettled: invalidate
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: (id: string) => releaseLegalHold(id),
+    onSettled: invalidate
+  });
+
+  return {
+    holds: data ?? [],
+    isLoading: !!candidateId && enabled && isLoading,
+    error,
+    placeHold: placeMutation.mutateAsync,
+    releaseHold: releaseMutation.mutateAsync,
+    isSaving: placeMutation.isLoading || releaseMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the reports of retention runs and for previewing the next one
+ * @param page - Page of runs, most recent first
+ * @param limit - Runs per page
+ */
+export function useRetentionRuns(page = 1, limit = 10) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.RETENTION_RUNS, page, limit],
+    queryFn: () => listRetentionRuns(page, limit),
+    keepPreviousData: true
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => previewRetention(),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.RETENTION_RUNS]);
+    }
+  });
+
+  return {
+    runs: data?.data ?? [],
+    totalPages: data?.total_pages ?? 0,
+    isLoading,
+    error,
+    previewRetention: previewMutation.mutateAsync,
+    isPreviewing: previewMutation.isLoading
+  };
+}
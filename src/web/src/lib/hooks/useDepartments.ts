@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listDepartments,
+  createDepartment,
+  updateDepartment,
+  listStaff,
+  getHiringTeam,
+  updateHiringTeam
+} from '../api/departments';
+import { DepartmentCreateData, DepartmentUpdateData, HiringTeamUpdateData } from '../../types/departments';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the department hierarchy
+ */
+export function useDepartments(includeArchived = false) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.DEPARTMENTS, { includeArchived }],
+    queryFn: () => listDepartments(includeArchived),
+    staleTime: 300000 // 5 minutes
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: DepartmentCreateData) => createDepartment(data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.DEPARTMENTS]);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: DepartmentUpdateData }) =>
+      updateDepartment(id, data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.DEPARTMENTS]);
+    }
+  });
+
+  return {
+    departments: data || [],
+    isLoading,
+    error,
+    createDepartment: createMutation.mutateAsync,
+    updateDepartment: (id: string, data: DepartmentUpdateData) =>
+      updateMutation.mutateAsync({ id, data }),
+    isSaving: createMutation.isLoading || updateMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the staff who can be added to departments and hiring teams
+ */
+export function useStaff() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.STAFF],
+    queryFn: listStaff,
+    staleTime: 300000 // 5 minutes
+  });
+
+  return {
+    staff: data || [],
+    isLoading,
+    error
+  };
+}
+
+/**
+ * Hook for the hiring team of a job
+ */
+export function useHiringTeam(jobId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.HIRING_TEAMS, jobId],
+    queryFn: () => getHiringTeam(jobId as string),
+    enabled: !!jobId,
+    staleTime: 60000 // 1 minute
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (team: HiringTeamUpdateData) => updateHiringTeam(jobId as string, team),
+    onSuccess: (team) => {
+      queryClient.setQueryData([CACHE_KEYS.HIRING_TEAMS, jobId], team);
+    }
+  });
+
+  return {
+    team: data,
+    isLoading: !!jobId && isLoading,
+    error,
+    updateTeam: updateMutation.mutateAsync,
+    isSaving: updateMutation.isLoading
+  };
+}
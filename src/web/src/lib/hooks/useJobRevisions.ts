@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query'; // ^4.0.0
+
+import { listJobRevisions } from '../api/jobRevisions';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the revision history of a job's title, description and requirements
+ */
+export function useJobRevisions(jobId: string | undefined) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.JOB_REVISIONS, jobId],
+    queryFn: () => listJobRevisions(jobId as string),
+    enabled: !!jobId,
+    staleTime: 60000 // 1 minute
+  });
+
+  return {
+    revisions: data || [],
+    isLoading: !!jobId && isLoading,
+    error
+  };
+}
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listJobTemplates,
+  createJobTemplate,
+  updateJobTemplate,
+  cloneJob
+} from '../api/jobTemplates';
+import { JobCloneData, JobTemplateCreateData, JobTemplateUpdateData } from '../../types/jobs';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the job template library and cloning jobs
+ */
+export function useJobTemplates(search = '', includeArchived = false) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.JOB_TEMPLATES, { search, includeArchived }],
+    queryFn: () => listJobTemplates(search, includeArchived),
+    keepPreviousData: true,
+    staleTime: 300000 // 5 minutes
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: JobTemplateCreateData) => createJobTemplate(data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.JOB_TEMPLATES]);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: JobTemplateUpdateData }) =>
+      updateJobTemplate(id, data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.JOB_TEMPLATES]);
+    }
+  });
+
+  const cloneMutation = useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: JobCloneData }) => cloneJob(jobId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.JOB_LIST]);
+    }
+  });
+
+  return {
+    templates: data || [],
+    isLoading,
+    error,
+    saveAsTemplate: createMutation.mutateAsync,
+    updateTemplate: (id: string, data: JobTemplateUpdateData) =>
+      updateMutation.mutateAsync({ id, data }),
+    cloneJob: (jobId: string, data: JobCloneData) => cloneMutation.mutateAsync({ jobId, data }),
+    isSaving: createMutation.isLoading || updateMutation.isLoading,
+    isCloning: cloneMutation.isLoading,
+    refetch
+  };
+}
@@ -0,0 +1,24 @@
+import { useMutation } from '@tanstack/react-query'; // ^4.0.0
+
+import { draftJobDescription, checkJobWording } from '../api/jobWriting';
+import { JobDescriptionDraftData, JobWordingCheckData } from '../../types/jobs';
+
+/**
+ * Hook for the job description writer and the wording check
+ */
+export function useJobWriting() {
+  const draftMutation = useMutation({
+    mutationFn: (data: JobDescriptionDraftData) => draftJobDescription(data)
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: (data: JobWordingCheckData) => checkJobWording(data)
+  });
+
+  return {
+    draftDescription: draftMutation.mutateAsync,
+    checkWording: checkMutation.mutateAsync,
+    isDrafting: draftMutation.isLoading,
+    isChecking: checkMutation.isLoading
+  };
+}
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import { listNotes, createNote, updateNote, pinNote, getNoteHistory } from '../api/notes';
+import { NoteInput, NoteUpdate } from '../../types/notes';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the notes on a candidate, pinned notes first. Notes show up in the
+ * candidate's timeline, so it is refreshed whenever a note changes.
+ * @param candidateId - Candidate identifier
+ * @param search - Full text search over the notes
+ */
+export function useCandidateNotes(candidateId: string | undefined, search = '') {
+  const queryClient = useQueryClient();
+  const q = search.trim();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.CANDIDATE_NOTES, candidateId, q],
+    queryFn: () => listNotes({ candidate_id: candidateId, q: q || undefined, limit: 100 }),
+    enabled: !!candidateId,
+    keepPreviousData: true
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_NOTES, candidateId]);
+    queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_TIMELINE, candidateId]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (note: Omit<NoteInput, 'candidate_id'>) => createNote({ ...note, candidate_id: candidateId! }),
+    onSettled: invalidate
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: NoteUpdate }) => updateNote(id, update),
+    onSettled: (_data, _error, { id }) => {
+      invalidate();
+      queryClient.invalidateQueries([CACHE_KEYS.NOTE_HISTORY, id]);
+    }
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: ({ id, pinned }: { id: string; pinned: boolean }) => pinNote(id, pinned),
+    onSettled: invalidate
+  });
+
+  return {
+    notes: data?.data ?? [],
+    total: data?.total ?? 0,
+    isLoading: !!candidateId && isLoading,
+    error,
+    createNote: createMutation.mutateAsync,
+    updateNote: (id: string, update: NoteUpdate) => updateMutation.mutateAsync({ id, update }),
+    pinNote: (id: string, pinned: boolean) => pinMutation.mutateAsync({ id, pinned }),
+    isSaving: createMutation.isLoading || updateMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the versions of a note, loaded once the history is opened
+ * @param noteId - Note identifier
+ */
+export function useNoteHistory(noteId: string | undefined) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.NOTE_HISTORY, noteId],
+    queryFn: () => getNoteHistory(noteId!),
+    enabled: !!noteId
+  });
+
+  return {
+    revisions: data ?? [],
+    isLoading: !!noteId && isLoading,
+    error
+  };
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listOffers,
+  createOffer,
+  reviseOffer,
+  sendOffer,
+  respondToOffer
+} from '../api/offers';
+import { OfferCreateData, OfferReviseData } from '../../types/offers';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the offers of a candidate across their applications. Accepting or declining
+ * an offer moves the application, so application queries are refreshed as well.
+ */
+export function useOffers(candidateId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = [CACHE_KEYS.OFFERS, { candidateId }];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => listOffers({ candidate_id: candidateId }),
+    enabled: !!candidateId,
+    staleTime: 30000 // 30 seconds
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.OFFERS]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: OfferCreateData) => createOffer(data),
+    onSettled: invalidate
+  });
+
+  // Revising cancels any approval pending for the previous version
+  const reviseMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: OfferReviseData }) => reviseOffer(id, data),
+    onSettled: () => {
+      invalidate();
+      queryClient.invalidateQueries([CACHE_KEYS.APPROVALS]);
+    }
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (id: string) => sendOffer(id),
+    onSettled: invalidate
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ id, response, reason }: {
+      id: string;
+      response: 'accept' | 'decline';
+      reason?: string;
+    }) => respondToOffer(id, response, reason),
+    onSettled: () => {
+      invalidate();
+      queryClient.invalidateQueries([CACHE_KEYS.APPLICATION_LIST]);
+    }
+  });
+
+  return {
+    offers: data || [],
+    isLoading: !!candidateId && isLoading,
+    error,
+    refetch,
+    createOffer: createMutation.mutateAsync,
+    reviseOffer: (id: string, data: OfferReviseData) => reviseMutation.mutateAsync({ id, data }),
+    sendOffer: sendMutation.mutateAsync,
+    respondToOffer: (id: string, response: 'accept' | 'decline', reason?: string) =>
+      respondMutation.mutateAsync({ id, response, reason }),
+    isSaving: createMutation.isLoading || reviseMutation.isLoading,
+    isSending: sendMutation.isLoading,
+    isResponding: respondMutation.isLoading
+  };
+}
@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listPipelineTemplates,
+  getJobPipeline,
+  createPipelineTemplate,
+  updatePipelineTemplate
+} from '../api/pipelines';
+import {
+  PipelineTemplateCreateData,
+  PipelineTemplateUpdateData
+} from '../../types/pipelines';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for listing and managing pipeline templates
+ */
+export function usePipelineTemplates(includeArchived = false) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.PIPELINE_TEMPLATES, { includeArchived }],
+    queryFn: () => listPipelineTemplates(includeArchived),
+    staleTime: 300000, // 5 minutes
+    cacheTime: 600000 // 10 minutes
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: PipelineTemplateCreateData) => createPipelineTemplate(data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.PIPELINE_TEMPLATES]);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: PipelineTemplateUpdateData }) =>
+      updatePipelineTemplate(id, data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.PIPELINE_TEMPLATES]);
+    }
+  });
+
+  return {
+    templates: data || [],
+    defaultTemplate: data?.find(template => template.is_default) ?? null,
+    isLoading,
+    error,
+    createTemplate: createMutation.mutateAsync,
+    updateTemplate: (id: string, data: PipelineTemplateUpdateData) =>
+      updateMutation.mutateAsync({ id, data }),
+    isSaving: createMutation.isLoading || updateMutation.isLoading,
+    refetch
+  };
+}
+
+/**
+ * Hook resolving the pipeline template, and therefore the board columns, of a job
+ */
+export function useJobPipeline(jobId: string | undefined) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.PIPELINE_TEMPLATES, 'job', jobId],
+    queryFn: () => getJobPipeline(jobId as string),
+    enabled: !!jobId,
+    staleTime: 300000 // 5 minutes
+  });
+
+  return {
+    pipeline: data ?? null,
+    stages: data?.stages ?? [],
+    isLoading: !!jobId && isLoading,
+    error
+  };
+}
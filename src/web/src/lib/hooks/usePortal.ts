@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  getPortalProfile,
+  updatePortalProfile,
+  listResumeVersions,
+  uploadResume,
+  listPortalApplications,
+  listPortalInterviews,
+  respondToInterview,
+  listPortalTasks,
+  answerScreeningQuestions,
+  submitTakeHome
+} from '../api/portal';
+import {
+  InterviewResponse,
+  PortalProfileUpdate,
+  PortalScreeningData,
+  TakeHomeSubmissionData
+} from '../../types/portal';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the signed-in candidate's profile and resume versions
+ */
+export function usePortalProfile() {
+  const queryClient = useQueryClient();
+
+  const profileQuery = useQuery({
+    queryKey: [CACHE_KEYS.PORTAL_PROFILE],
+    queryFn: getPortalProfile
+  });
+
+  const resumesQuery = useQuery({
+    queryKey: [CACHE_KEYS.PORTAL_RESUMES],
+    queryFn: listResumeVersions
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (update: PortalProfileUpdate) => updatePortalProfile(update),
+    onSuccess: (profile) => queryClient.setQueryData([CACHE_KEYS.PORTAL_PROFILE], profile)
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (resume: File) => uploadResume(resume),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.PORTAL_RESUMES]);
+      queryClient.invalidateQueries([CACHE_KEYS.PORTAL_PROFILE]);
+    }
+  });
+
+  return {
+    profile: profileQuery.data,
+    resumes: resumesQuery.data ?? [],
+    isLoading: profileQuery.isLoading,
+    error: profileQuery.error,
+    updateProfile: updateMutation.mutateAsync,
+    uploadResume: uploadMutation.mutateAsync,
+    isSaving: updateMutation.isLoading,
+    isUploading: uploadMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the candidate's applications
+ */
+export function usePortalApplications() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.PORTAL_APPLICATIONS],
+    queryFn: listPortalApplications
+  });
+
+  return {
+    applications: data ?? [],
+    isLoading,
+    error
+  };
+}
+
+/**
+ * Hook for the candidate's interviews and their responses to them
+ */
+export function usePortalInterviews() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.PORTAL_INTERVIEWS],
+    queryFn: listPortalInterviews
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ id, response }: { id: string; response: InterviewResponse }) =>
+      respondToInterview(id, response),
+    onSettled: () => queryClient.invalidateQueries([CACHE_KEYS.PORTAL_INTERVIEWS])
+  });
+
+  return {
+    interviews: data ?? [],
+    isLoading,
+    error,
+    respondToInterview: (id: string, response: InterviewResponse) => respondMutation.mutateAsync({ id, response }),
+    isResponding: respondMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the screening questions and take-home assignments left to complete
+ */
+export function usePortalTasks() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.PORTAL_TASKS],
+    queryFn: listPortalTasks
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: ({ applicationId, data }: { applicationId: string; data: PortalScreeningData }) =>
+      answerScreeningQuestions(applicationId, data),
+    onSettled: () => queryClient.invalidateQueries([CACHE_KEYS.PORTAL_TASKS])
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: ({ interviewId, data }: { interviewId: string; data: TakeHomeSubmissionData }) =>
+      submitTakeHome(interviewId, data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.PORTAL_TASKS]);
+      queryClient.invalidateQueries([CACHE_KEYS.PORTAL_INTERVIEWS]);
+    }
+  });
+
+  return {
+    tasks: data ?? [],
+    isLoading,
+    error,
+    answerScreening: (applicationId: string, data: PortalScreeningData) =>
+      answerMutation.mutateAsync({ applicationId, data }),
+    submitTakeHome: (interviewId: string, data: TakeHomeSubmissionData) =>
+      submitMutation.mutateAsync({ interviewId, data }),
+    isSubmitting: answerMutation.isLoading || submitMutation.isLoading
+  };
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listPrivacyRequests,
+  createPrivacyRequest,
+  updatePrivacyRequest,
+  rejectPrivacyRequest,
+  exportPrivacyRequest,
+  erasePrivacyRequest
+} from '../api/privacy';
+import { DataSubjectRequestInput, DataSubjectRequestListParams, DataSubjectRequestUpdate } from '../../types/privacy';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the data subject requests and for answering them. Erasing a candidate
+ * changes the candidate list, so candidate queries are refreshed too.
+ */
+export function usePrivacyRequests(params: DataSubjectRequestListParams = {}) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.PRIVACY_REQUESTS, params],
+    queryFn: () => listPrivacyRequests(params),
+    keepPreviousData: true
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.PRIVACY_REQUESTS]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (request: DataSubjectRequestInput) => createPrivacyRequest(request),
+    onSettled: invalidate
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: DataSubjectRequestUpdate }) => updatePrivacyRequest(id, update),
+    onSettled: invalidate
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => rejectPrivacyRequest(id, reason),
+    onSettled: invalidate
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: (id: string) => exportPrivacyRequest(id),
+    onSettled: invalidate
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: (id: string) => erasePrivacyRequest(id),
+    onSettled: () => {
+      invalidate();
+      queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_LIST]);
+    }
+  });
+
+  return {
+    requests: data?.data ?? [],
+    total: data?.total ?? 0,
+    totalPages: data?.total_pages ?? 0,
+    isLoading,
+    error,
+    createRequest: createMutation.mutateAsync,
+    updateRequest: (id: string, update: DataSubjectRequestUpdate) => updateMutation.mutateAsync({ id, update }),
+    rejectRequest: (id: string, reason: string) => rejectMutation.mutateAsync({ id, reason }),
+    exportRequest: exportMutation.mutateAsync,
+    eraseRequest: eraseMutation.mutateAsync,
+    isSaving:
+      createMutation.isLoading ||
+      updateMutation.isLoading ||
+      rejectMutation.isLoading ||
+      exportMutation.isLoading ||
+      eraseMutation.isLoading
+  };
+}
@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listMyReferrals,
+  submitReferral,
+  getReferralLink,
+  getReferralBonusReport
+} from '../api/referrals';
+import { ReferralBonusReportParams, ReferralSubmitData } from '../../types/referrals';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the current user's referrals with submit and referral link actions
+ */
+export function useReferrals() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.REFERRALS, 'mine'],
+    queryFn: listMyReferrals,
+    staleTime: 60000 // 1 minute
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (data: ReferralSubmitData) => submitReferral(data),
+    onSettled: () => {
+      queryClient.invalidateQueries([CACHE_KEYS.REFERRALS, 'mine']);
+    }
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (jobId: string) => getReferralLink(jobId)
+  });
+
+  return {
+    referrals: data || [],
+    isLoading,
+    error,
+    refetch,
+    submitReferral: submitMutation.mutateAsync,
+    getReferralLink: linkMutation.mutateAsync,
+    isSubmitting: submitMutation.isLoading,
+    isGettingLink: linkMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the admin report of hired referrals and their bonus eligibility
+ */
+export function useReferralBonusReport(params: ReferralBonusReportParams = {}) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [CACHE_KEYS.REFERRALS, 'bonus-report', params],
+    queryFn: () => getReferralBonusReport(params),
+    staleTime: 300000 // 5 minutes
+  });
+
+  return {
+    entries: data || [],
+    isLoading,
+    error,
+    refetch
+  };
+}
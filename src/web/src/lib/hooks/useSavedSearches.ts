@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import {
+  listSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  subscribeToSavedSearch,
+  unsubscribeFromSavedSearch,
+  listNotifications,
+  markNotificationsRead
+} from '../api/saved-searches';
+import {
+  SavedSearchEntity,
+  SavedSearchInput,
+  SavedSearchSubscribeInput,
+  SavedSearchUpdate
+} from '../../types/saved-searches';
+import { CACHE_KEYS } from '../../config/constants';
+
+// Unread notifications are polled since digests arrive from a background job
+const NOTIFICATION_POLL_INTERVAL = 60000;
+
+/**
+ * Hook for the saved searches of one kind the user can see, and for saving,
+ * sharing and following them
+ * @param entityType - Candidate or job searches
+ */
+export function useSavedSearches(entityType: SavedSearchEntity) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.SAVED_SEARCHES, entityType],
+    queryFn: () => listSavedSearches(entityType),
+    staleTime: 60000
+  });
+
+  const invalidate = () => queryClient.invalidateQueries([CACHE_KEYS.SAVED_SEARCHES, entityType]);
+
+  const createMutation = useMutation({
+    mutationFn: (search: SavedSearchInput) => createSavedSearch(search),
+    onSettled: invalidate
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: SavedSearchUpdate }) => updateSavedSearch(id, update),
+    onSettled: invalidate
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteSavedSearch(id),
+    onSettled: invalidate
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: SavedSearchSubscribeInput }) => subscribeToSavedSearch(id, input),
+    onSettled: invalidate
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: (id: string) => unsubscribeFromSavedSearch(id),
+    onSettled: invalidate
+  });
+
+  return {
+    savedSearches: data ?? [],
+    isLoading,
+    error,
+    createSavedSearch: createMutation.mutateAsync,
+    updateSavedSearch: (id: string, update: SavedSearchUpdate) => updateMutation.mutateAsync({ id, update }),
+    deleteSavedSearch: deleteMutation.mutateAsync,
+    subscribe: (id: string, input: SavedSearchSubscribeInput) => subscribeMutation.mutateAsync({ id, input }),
+    unsubscribe: unsubscribeMutation.mutateAsync,
+    isSaving:
+      createMutation.isLoading ||
+      updateMutation.isLoading ||
+      deleteMutation.isLoading ||
+      subscribeMutation.isLoading ||
+      unsubscribeMutation.isLoading
+  };
+}
+
+/**
+ * Hook for the user's in-app notifications and the number still unread
+ */
+export function useNotifications() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.NOTIFICATIONS],
+    queryFn: () => listNotifications(),
+    refetchInterval: NOTIFICATION_POLL_INTERVAL
+  });
+
+  const readMutation = useMutation({
+    mutationFn: (ids?: string[]) => markNotificationsRead(ids),
+    onSettled: () => queryClient.invalidateQueries([CACHE_KEYS.NOTIFICATIONS])
+  });
+
+  return {
+    notifications: data?.notifications ?? [],
+    unreadCount: data?.unread_count ?? 0,
+    isLoading,
+    error,
+    markRead: (ids?: string[]) => readMutation.mutateAsync(ids)
+  };
+}
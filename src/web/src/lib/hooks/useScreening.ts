@@ -0,0 +1,34 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import { getJobScreening, updateJobScreening } from '../api/screening';
+import { JobScreeningUpdateData } from '../../types/screening';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the screening questions and knockout settings of a job
+ */
+export function useJobScreening(jobId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.SCREENING, jobId],
+    queryFn: () => getJobScreening(jobId as string),
+    enabled: !!jobId,
+    staleTime: 60000 // 1 minute
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (screening: JobScreeningUpdateData) => updateJobScreening(jobId as string, screening),
+    onSuccess: (screening) => {
+      queryClient.setQueryData([CACHE_KEYS.SCREENING, jobId], screening);
+    }
+  });
+
+  return {
+    screening: data,
+    isLoading: !!jobId && isLoading,
+    error,
+    updateScreening: updateMutation.mutateAsync,
+    isSaving: updateMutation.isLoading
+  };
+}
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // ^4.0.0
+
+import { listTags, createTag, updateTag, mergeTags, deleteTag, bulkTagCandidates } from '../api/tags';
+import { BulkTagRequest, TagInput, TagUpdate } from '../../types/tags';
+import { CACHE_KEYS } from '../../config/constants';
+
+/**
+ * Hook for the candidate tags, curated tags first, and for managing them. Changing
+ * tags changes what candidates show and match, so candidate queries are refreshed too.
+ */
+export function useTags() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [CACHE_KEYS.TAGS],
+    queryFn: () => listTags(),
+    staleTime: 60000
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries([CACHE_KEYS.TAGS]);
+    queryClient.invalidateQueries([CACHE_KEYS.CANDIDATE_LIST]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (tag: TagInput) => createTag(tag),
+    onSettled: invalidate
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: TagUpdate }) => updateTag(id, update),
+    onSettled: invalidate
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ sourceIds, targetId }: { sourceIds: string[]; targetId: string }) => mergeTags(sourceIds, targetId),
+    onSettled: invalidate
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteTag(id),
+    onSettled: invalidate
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: (request: BulkTagRequest) => bulkTagCandidates(request),
+    onSettled: invalidate
+  });
+
+  return {
+    tags: data ?? [],
+    isLoading,
+    error,
+    createTag: createMutation.mutateAsync,
+    updateTag: (id: string, update: TagUpdate) => updateMutation.mutateAsync({ id, update }),
+    mergeTags: (sourceIds: string[], targetId: string) => mergeMutation.mutateAsync({ sourceIds, targetId }),
+    deleteTag: deleteMutation.mutateAsync,
+    bulkTag: bulkMutation.mutateAsync,
+    isSaving:
+      createMutation.isLoading ||
+      updateMutation.isLoading ||
+      mergeMutation.isLoading ||
+      deleteMutation.isLoading ||
+      bulkMutation.isLoading
+  };
+}
@@ -4,10 +4,19 @@ import { toast } from 'sonner'; // ^1.0.0
 import { ErrorBoundary } from 'react-error-boundary'; // ^4.0.0
 
 import CandidateDetails from '../../components/candidates/CandidateDetails';
+import CandidateDuplicates from '../../components/candidates/CandidateDuplicates';
+import CandidateTimeline from '../../components/candidates/CandidateTimeline';
+import CandidateNotes from '../../components/candidates/CandidateNotes';
+import CandidateConsents from '../../components/candidates/CandidateConsents';
+import CandidateLegalHolds from '../../components/candidates/CandidateLegalHolds';
+import OfferTab from '../../components/offers/OfferTab';
 import PageHeader from '../../components/layout/PageHeader';
 import { Button } from '../../components/ui/button';
+import { Tabs } from '../../components/ui/tabs';
 import { useCandidates } from '../../lib/hooks/useCandidates';
+import { useAuth } from '../../lib/hooks/useAuth';
 import { Candidate, CandidateStatus } from '../../types/candidates';
+import { UserRole } from '../../types/auth';
 import { formatDate } from '../../lib/utils';
 
 // Error Fallback Component
@@ -28,6 +37,8 @@ const ErrorFallback: React.FC<{ error: Error }> = ({ error }) => (
 const CandidateDetailsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { state } = useAuth();
+  const role = state.user?.role;
   const [candidate, setCandidate] = useState<Candidate | null>(null);
 
   const {
@@ -134,16 +145,64 @@ const CandidateDetailsPage: React.FC = () => {
           }
         />
 
-        <div className="mt-6">
-          <CandidateDetails
-            initialData={candidate}
-            onUpdate={handleEdit}
-            onError={(error) => {
-              toast.error(error.message);
-              console.error('Candidate details error:', error);
-            }}
-          />
-        </div>
+        <Tabs.Root defaultValue="profile" className="mt-6">
+          <Tabs.List aria-label="Candidate sections">
+            <Tabs.Trigger value="profile">Profile</Tabs.Trigger>
+            <Tabs.Trigger value="activity">Activity</Tabs.Trigger>
+            <Tabs.Trigger value="notes">Notes</Tabs.Trigger>
+            <Tabs.Trigger value="offers">Offers</Tabs.Trigger>
+            <Tabs.Trigger value="consent">Consent</Tabs.Trigger>
+            <Tabs.Trigger value="duplicates">Duplicates</Tabs.Trigger>
+          </Tabs.List>
+
+          <Tabs.Content value="profile" className="mt-6">
+            <CandidateDetails
+              initialData={candidate}
+              onUpdate={handleEdit}
+              onError={(error) => {
+                toast.error(error.message);
+                console.error('Candidate details error:', error);
+              }}
+            />
+          </Tabs.Content>
+
+          <Tabs.Content value="activity" className="mt-6">
+            {id && <CandidateTimeline candidateId={id} />}
+          </Tabs.Content>
+
+          <Tabs.Content value="notes" className="mt-6">
+            {id && <CandidateNotes candidateId={id} />}
+          </Tabs.Content>
+
+          <Tabs.Content value="offers" className="mt-6">
+            {id && <OfferTab candidateId={id} />}
+          </Tabs.Content>
+
+          <Tabs.Content value="consent" className="mt-6 space-y-8">
+            {id && (
+              <CandidateConsents
+                candidateId={id}
+                canManage={role === UserRole.ADMIN || role === UserRole.RECRUITER}
+              />
+            )}
+            {id && role === UserRole.ADMIN && <CandidateLegalHolds candidateId={id} />}
+          </Tabs.Content>
+
+          <Tabs.Content value="duplicates" className="mt-6">
+            {id && (
+              <CandidateDuplicates
+                candidateId={id}
+                candidateName={candidate?.full_name || 'this candidate'}
+                onMerged={(primaryId) => {
+                  // This profile was archived; continue on the one that was kept
+                  if (primaryId !== id) {
+                    navigate(`/candidates/${primaryId}`);
+                  }
+                }}
+              />
+            )}
+          </Tabs.Content>
+        </Tabs.Root>
       </div>
     </ErrorBoundary>
   );
@@ -0,0 +1,21 @@
+import * as React from "react"; // ^18.0.0
+
+import PageHeader from "../../components/layout/PageHeader";
+import TagManager from "../../components/candidates/TagManager";
+
+/**
+ * CandidateTagsPage - Admin screen for the tags put on candidates
+ */
+const CandidateTagsPage: React.FC = () => (
+  <div className="container mx-auto px-4 py-6">
+    <PageHeader
+      title="Candidate Tags"
+      description="Curate tags, and rename, merge or delete them across all candidates"
+    />
+    <div className="max-w-5xl">
+      <TagManager />
+    </div>
+  </div>
+);
+
+export default CandidateTagsPage;
@@ -5,12 +5,38 @@ import { useNavigate } from "react-router-dom" // ^6.0.0
 import CandidateList from "../../components/candidates/CandidateList"
 import CandidateFilters from "../../components/candidates/CandidateFilters"
 import CandidateSearch from "../../components/candidates/CandidateSearch"
+import CandidateExportPanel from "../../components/candidates/CandidateExportPanel"
+import SavedSearchMenu from "../../components/common/SavedSearchMenu"
 import PageHeader from "../../components/layout/PageHeader"
 import { useCandidates } from "../../lib/hooks/useCandidates"
+import { useAuth } from "../../lib/hooks/useAuth"
+import { toCandidateSearchFilters, toCandidateSearchParams } from "../../lib/api/saved-searches"
 import { Button } from "../../components/ui/button"
 import { CandidateSearchParams } from "../../types/candidates"
+import { UserRole } from "../../types/auth"
+import { CandidateSearchFilters, SavedSearch, SavedSearchEntity } from "../../types/saved-searches"
 import { PAGINATION_DEFAULTS } from "../../config/constants"
 
+// Search of the page before any filter is set; saved searches are applied on top of it
+const DEFAULT_SEARCH_PARAMS: CandidateSearchParams = {
+  query: "",
+  status: [],
+  skills: [],
+  location: "",
+  remote_only: false,
+  salary_min: 0,
+  salary_max: 0,
+  industries: [],
+  experience_level: "",
+  languages: [],
+  is_actively_looking: false,
+  availability_date: "",
+  certifications: [],
+  tags: [],
+  page: 1,
+  limit: PAGINATION_DEFAULTS.PAGE_SIZE,
+}
+
 // Enhanced state interface for CandidatesPage component
 interface CandidatesPageState {
   currentPage: number
@@ -26,28 +52,19 @@ interface CandidatesPageState {
 
 const CandidatesPage: React.FC = () => {
   const navigate = useNavigate()
+  const { state: authState } = useAuth()
+  const [isExportOpen, setIsExportOpen] = React.useState(false)
+  // Saved search linked from a digest, e.g. /candidates?saved_search=<id>
+  const [linkedSearchId] = React.useState(() => new URLSearchParams(window.location.search).get("saved_search"))
+  const [isSavedSearchesOpen, setIsSavedSearchesOpen] = React.useState(!!linkedSearchId)
+  // Remounts the search inputs, which only read their filters when mounted
+  const [filtersRevision, setFiltersRevision] = React.useState(0)
 
   // Initialize state with default values
   const [state, setState] = React.useState<CandidatesPageState>({
     currentPage: PAGINATION_DEFAULTS.DEFAULT_PAGE_NUMBER,
     pageSize: PAGINATION_DEFAULTS.PAGE_SIZE,
-    searchParams: {
-      query: "",
-      status: [],
-      skills: [],
-      location: "",
-      remote_only: false,
-      salary_min: 0,
-      salary_max: 0,
-      industries: [],
-      experience_level: "",
-      languages: [],
-      is_actively_looking: false,
-      availability_date: "",
-      certifications: [],
-      page: 1,
-      limit: PAGINATION_DEFAULTS.PAGE_SIZE,
-    },
+    searchParams: DEFAULT_SEARCH_PARAMS,
     selectedCandidateId: null,
     aiMatchScores: {},
     sortField: "created_at",
@@ -103,6 +120,18 @@ const CandidatesPage: React.FC = () => {
     [candidates.length, updateSearchParams]
   )
 
+  // Replace the filters with those of a saved search
+  const handleApplySavedSearch = React.useCallback(
+    (search: SavedSearch) => {
+      void handleFilterChange({
+        ...DEFAULT_SEARCH_PARAMS,
+        ...toCandidateSearchParams(search.filters as CandidateSearchFilters),
+      })
+      setFiltersRevision((revision) => revision + 1)
+    },
+    [handleFilterChange]
+  )
+
   // Handle page changes with accessibility announcements
   const handlePageChange = React.useCallback(
     (page: number) => {
@@ -183,18 +212,53 @@ const CandidatesPage: React.FC = () => {
         title="Candidates"
         description="Manage and search through candidate profiles"
         actions={
-          <Button
-            onClick={() => navigate("/candidates/new")}
-            aria-label="Add new candidate"
-          >
-            Add Candidate
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/candidates/import")}
+              aria-label="Import candidates from a spreadsheet"
+            >
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsSavedSearchesOpen((open) => !open)}
+              aria-expanded={isSavedSearchesOpen}
+              aria-label="Save this search or apply a saved one"
+            >
+              Saved searches
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsExportOpen((open) => !open)}
+              aria-expanded={isExportOpen}
+              aria-label="Export the candidates matching the search"
+            >
+              Export
+            </Button>
+            {authState.user?.role === UserRole.ADMIN && (
+              <Button
+                variant="outline"
+                onClick={() => navigate("/candidate-tags")}
+                aria-label="Rename, merge and delete candidate tags"
+              >
+                Manage tags
+              </Button>
+            )}
+            <Button
+              onClick={() => navigate("/candidates/new")}
+              aria-label="Add new candidate"
+            >
+              Add Candidate
+            </Button>
+          </div>
         }
       />
 
       {/* Search and filters section */}
       <div className="mb-6 space-y-4">
         <CandidateSearch
+          key={`search-${filtersRevision}`}
           onSearchResults={handleSearchResults}
           initialFilters={state.searchParams}
           matchConfig={{
@@ -209,6 +273,7 @@ const CandidatesPage: React.FC = () => {
         />
 
         <CandidateFilters
+          key={`filters-${filtersRevision}`}
           initialFilters={state.searchParams}
           onFilterChange={handleFilterChange}
           enableRealtime={true}
@@ -216,6 +281,23 @@ const CandidatesPage: React.FC = () => {
         />
       </div>
 
+      {isSavedSearchesOpen && (
+        <div className="mb-6 rounded-lg border p-4">
+          <SavedSearchMenu
+            entityType={SavedSearchEntity.CANDIDATE}
+            currentFilters={toCandidateSearchFilters(state.searchParams)}
+            onApply={handleApplySavedSearch}
+            initialSearchId={linkedSearchId}
+          />
+        </div>
+      )}
+
+      {isExportOpen && (
+        <div className="mb-6 rounded-lg border p-4">
+          <CandidateExportPanel searchParams={state.searchParams} />
+        </div>
+      )}
+
       {/* Error message display */}
       {(error || state.errorMessage) && (
         <div
@@ -238,6 +320,7 @@ const CandidatesPage: React.FC = () => {
         showMatchScore={true}
         itemsPerPage={state.pageSize}
         enableVirtualization={true}
+        selectable={true}
       />
     </div>
   )
@@ -4,9 +4,11 @@ import { toast } from "@shadcn/ui"; // ^1.0.0
 import { ErrorBoundary } from "react-error-boundary"; // ^4.0.0
 
 import CandidateForm from "../../components/candidates/CandidateForm";
+import DuplicateMatchList from "../../components/candidates/DuplicateMatchList";
 import PageHeader from "../../components/layout/PageHeader";
 import { useCandidates } from "../../lib/hooks/useCandidates";
-import { CandidateFormData } from "../../types/candidates";
+import { useDuplicateCheck } from "../../lib/hooks/useCandidateDuplicates";
+import { CandidateFormData, DuplicateCandidateMatch } from "../../types/candidates";
 import { ERROR_MESSAGES } from "../../config/constants";
 
 /**
@@ -16,9 +18,35 @@ import { ERROR_MESSAGES } from "../../config/constants";
 const CreateCandidatePage: React.FC = () => {
   const navigate = useNavigate();
   const { createCandidate, isCreating, createError } = useCandidates();
+  const { checkDuplicates, isChecking } = useDuplicateCheck();
+  const [duplicates, setDuplicates] = React.useState<DuplicateCandidateMatch[]>([]);
+  const [pendingData, setPendingData] = React.useState<CandidateFormData | null>(null);
 
-  // Handle form submission with error handling and user feedback
+  // Check for existing profiles first; a recruiter confirms before a likely duplicate is added
   const handleSubmit = async (formData: CandidateFormData) => {
+    let matches: DuplicateCandidateMatch[] = [];
+    try {
+      matches = await checkDuplicates({
+        full_name: formData.full_name,
+        email: formData.email,
+        phone: formData.phone || undefined,
+      });
+    } catch (error) {
+      // The check is advisory and never blocks creating the candidate
+      console.error("Duplicate check failed:", error);
+    }
+
+    if (matches.length) {
+      setDuplicates(matches);
+      setPendingData(formData);
+      return;
+    }
+
+    await saveCandidate(formData);
+  };
+
+  // Create the candidate with error handling and user feedback
+  const saveCandidate = async (formData: CandidateFormData) => {
     try {
       // Attempt to create the candidate
       await createCandidate(formData);
@@ -102,10 +130,40 @@ const CreateCandidatePage: React.FC = () => {
         />
 
         <div className="mt-8 max-w-2xl mx-auto">
+          {pendingData && (
+            <div
+              role="alert"
+              className="mb-6 space-y-3 rounded-lg border border-yellow-300 bg-yellow-50 p-4"
+            >
+              <h2 className="font-semibold">Possible duplicates</h2>
+              <p className="text-sm">
+                This candidate may already be in the talent pool. Review the existing profiles
+                before creating a new one.
+              </p>
+              <DuplicateMatchList matches={duplicates} />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => saveCandidate(pendingData)}
+                  className="btn btn-primary"
+                  disabled={isCreating}
+                >
+                  Create Anyway
+                </button>
+                <button
+                  onClick={() => setPendingData(null)}
+                  className="btn btn-secondary"
+                  disabled={isCreating}
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+
           <CandidateForm
             onSubmit={handleSubmit}
             onCancel={handleCancel}
-            isLoading={isCreating}
+            isLoading={isCreating || isChecking}
             autoSave={false}
             validationRules={{
               required: ["full_name", "email", "phone"],
@@ -0,0 +1,29 @@
+import * as React from "react"; // ^18.0.0
+import { useNavigate } from "react-router-dom"; // ^6.0.0
+
+import AtsImportPanel from "../../components/candidates/AtsImportPanel";
+import CandidateImportWizard from "../../components/candidates/CandidateImportWizard";
+import PageHeader from "../../components/layout/PageHeader";
+
+/**
+ * ImportCandidatesPage - Bulk import of candidates from a CSV or XLSX spreadsheet, or of
+ * jobs, candidates and applications from another applicant tracking system
+ */
+const ImportCandidatesPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <PageHeader
+        title="Import Candidates"
+        description="Upload a spreadsheet, map its columns and check every row before importing"
+      />
+      <div className="max-w-4xl space-y-10">
+        <CandidateImportWizard onClose={() => navigate("/candidates")} />
+        <AtsImportPanel />
+      </div>
+    </div>
+  );
+};
+
+export default ImportCandidatesPage;
@@ -0,0 +1,24 @@
+import * as React from "react"; // ^18.0.0
+
+import PageHeader from "../../components/layout/PageHeader";
+import PrivacyRequestManager from "../../components/candidates/PrivacyRequestManager";
+import RetentionReportPanel from "../../components/candidates/RetentionReportPanel";
+
+/**
+ * PrivacyRequestsPage - Admin screen for GDPR and CCPA data subject requests and the
+ * reports of retention runs
+ */
+const PrivacyRequestsPage: React.FC = () => (
+  <div className="container mx-auto px-4 py-6">
+    <PageHeader
+      title="Privacy Requests"
+      description="Log access and erasure requests, and answer them before their deadline"
+    />
+    <div className="space-y-8">
+      <PrivacyRequestManager />
+      <RetentionReportPanel />
+    </div>
+  </div>
+);
+
+export default PrivacyRequestsPage;
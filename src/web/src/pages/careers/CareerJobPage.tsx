@@ -0,0 +1,67 @@
+import * as React from "react"; // ^18.0.0
+import { Link, useParams, useSearchParams } from "react-router-dom"; // ^6.0.0
+import { withErrorBoundary } from "react-error-boundary"; // ^4.0.0
+
+import PublicJobDetails from "../../components/careers/PublicJobDetails";
+import JobPostingStructuredData from "../../components/careers/JobPostingStructuredData";
+import CareerApplicationForm from "../../components/careers/CareerApplicationForm";
+import { Button } from "../../components/ui/button";
+import { Card } from "../../components/ui/card";
+import { usePublicJob } from "../../lib/hooks/useCareers";
+
+// Error boundary fallback component
+const ErrorFallback = ({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) => (
+  <div className="p-6 text-center" role="alert">
+    <h2 className="text-lg font-semibold text-red-600">Something went wrong</h2>
+    <p className="mt-2 text-sm text-gray-600">{error.message}</p>
+    <Button variant="secondary" className="mt-4" onClick={resetErrorBoundary}>
+      Try again
+    </Button>
+  </div>
+);
+
+/**
+ * A published job on the careers site with its application form. Employee referral
+ * links open this page with the referral code in the `ref` query parameter. The job's
+ * JobPosting structured data is embedded for search engines.
+ */
+const CareerJobPage: React.FC = () => {
+  const { jobId = "" } = useParams<{ jobId: string }>();
+  const [searchParams] = useSearchParams();
+  const { job, isLoading, error, apply, isApplying } = usePublicJob(jobId);
+
+  return (
+    <main className="container mx-auto max-w-3xl px-4 py-8 space-y-6">
+      <Link to="/careers" className="text-sm text-primary hover:underline">
+        ← All open positions
+      </Link>
+
+      {isLoading ? (
+        <div role="status" className="animate-pulse h-32 bg-gray-200 rounded" />
+      ) : error || !job ? (
+        <p role="alert" className="text-sm text-red-600">
+          {error instanceof Error ? error.message : "This job is no longer open"}
+        </p>
+      ) : (
+        <>
+          <JobPostingStructuredData data={job.structured_data} />
+          <PublicJobDetails job={job} />
+          <Card className="p-6">
+            <CareerApplicationForm
+              jobTitle={job.title}
+              referralCode={searchParams.get("ref") ?? undefined}
+              sourceUrl={window.location.href}
+              questions={job.screening_questions}
+              onApply={(data, resume) => apply({ data, resume })}
+              isSubmitting={isApplying}
+            />
+          </Card>
+        </>
+      )}
+    </main>
+  );
+};
+
+export default withErrorBoundary(CareerJobPage, {
+  FallbackComponent: ErrorFallback,
+});
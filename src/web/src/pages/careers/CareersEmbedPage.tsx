@@ -0,0 +1,30 @@
+import * as React from "react"; // ^18.0.0
+import { useSearchParams } from "react-router-dom"; // ^6.0.0
+
+import CareersWidget from "../../components/careers/CareersWidget";
+
+/**
+ * Bare careers widget for embedding in another site:
+ *
+ *   <iframe src="https://<app>/careers/embed" title="Open positions"></iframe>
+ *
+ * Add `?job=<id>` to open one job's application form directly. Inside the iframe the
+ * document referrer is the embedding page, so applications are attributed to it. The
+ * hosting layer has to allow framing of this path only; the rest of the app stays
+ * unframeable.
+ */
+const CareersEmbedPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+
+  return (
+    <main className="p-4">
+      <CareersWidget
+        initialJobId={searchParams.get("job") ?? undefined}
+        referralCode={searchParams.get("ref") ?? undefined}
+        sourceUrl={document.referrer || undefined}
+      />
+    </main>
+  );
+};
+
+export default CareersEmbedPage;
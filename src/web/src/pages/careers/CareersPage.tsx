@@ -0,0 +1,96 @@
+import * as React from "react"; // ^18.0.0
+import { useNavigate } from "react-router-dom"; // ^6.0.0
+import { withErrorBoundary } from "react-error-boundary"; // ^4.0.0
+
+import PageHeader from "../../components/layout/PageHeader";
+import PublicJobList from "../../components/careers/PublicJobList";
+import { Button } from "../../components/ui/button";
+import { Card } from "../../components/ui/card";
+import Checkbox from "../../components/ui/checkbox";
+import Input from "../../components/ui/input";
+import { usePublicJobs } from "../../lib/hooks/useCareers";
+
+// Error boundary fallback component
+const ErrorFallback = ({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) => (
+  <div className="p-6 text-center" role="alert">
+    <h2 className="text-lg font-semibold text-red-600">Something went wrong</h2>
+    <p className="mt-2 text-sm text-gray-600">{error.message}</p>
+    <Button variant="secondary" className="mt-4" onClick={resetErrorBoundary}>
+      Try again
+    </Button>
+  </div>
+);
+
+/**
+ * Public careers site: open positions with search, no login required
+ */
+const CareersPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [search, setSearch] = React.useState("");
+  const [remoteOnly, setRemoteOnly] = React.useState(false);
+  const [page, setPage] = React.useState(1);
+  const { jobs, totalPages, isLoading, error } = usePublicJobs({
+    search: search.trim() || undefined,
+    remote_only: remoteOnly,
+    page,
+  });
+
+  return (
+    <main className="container mx-auto max-w-4xl px-4 py-8 space-y-6">
+      <PageHeader title="Careers" description="Join us. These are the positions we are hiring for." />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Input
+          aria-label="Search jobs"
+          placeholder="Search by title or skill"
+          value={search}
+          onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+            setSearch(event.target.value);
+            setPage(1);
+          }}
+          className="max-w-sm"
+        />
+        <Checkbox
+          checked={remoteOnly}
+          onCheckedChange={(checked) => {
+            setRemoteOnly(checked === true);
+            setPage(1);
+          }}
+          label="Remote only"
+        />
+      </div>
+
+      <Card className="p-6">
+        {isLoading ? (
+          <div role="status" className="animate-pulse h-16 bg-gray-200 rounded" />
+        ) : error ? (
+          <p role="alert" className="text-sm text-red-600">
+            {error instanceof Error ? error.message : "Failed to load jobs"}
+          </p>
+        ) : !jobs.length ? (
+          <p className="text-sm text-muted-foreground">No open positions match your search.</p>
+        ) : (
+          <PublicJobList jobs={jobs} onSelect={(job) => navigate(`/careers/${job.id}`)} />
+        )}
+      </Card>
+
+      {totalPages > 1 && (
+        <nav aria-label="Pagination" className="flex items-center justify-center gap-2">
+          <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </nav>
+      )}
+    </main>
+  );
+};
+
+export default withErrorBoundary(CareersPage, {
+  FallbackComponent: ErrorFallback,
+});
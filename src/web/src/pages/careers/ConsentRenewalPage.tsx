@@ -0,0 +1,72 @@
+import * as React from "react"; // ^18.0.0
+import { Link, useParams } from "react-router-dom"; // ^6.0.0
+
+import { Button } from "../../components/ui/button";
+import { Card } from "../../components/ui/card";
+import { useConsentRenewal } from "../../lib/hooks/useConsents";
+import { formatDate } from "../../lib/utils";
+import { DATE_FORMATS } from "../../config/constants";
+import { ErrorCode } from "../../types/common";
+import { ConsentPurpose } from "../../types/privacy";
+import { ConsentError } from "../../lib/api/consents";
+
+const PURPOSE_DESCRIPTIONS: Record<ConsentPurpose, string> = {
+  [ConsentPurpose.RECRUITMENT]: "to consider you for the roles you applied to",
+  [ConsentPurpose.TALENT_POOL]: "to contact you about future openings",
+};
+
+// Explains why the link did not work without revealing whether a token exists
+const failureMessage = (error: unknown) => {
+  if (error instanceof ConsentError && error.code === ErrorCode.CONFLICT) {
+    return "This consent was withdrawn, so it can no longer be renewed.";
+  }
+  if (error instanceof ConsentError && error.code === ErrorCode.NOT_FOUND) {
+    return "This renewal link is not valid. Your details may already have been removed.";
+  }
+  return error instanceof Error ? error.message : "Your consent could not be renewed.";
+};
+
+/**
+ * Page behind the renewal link emailed to candidates whose consent is about to expire.
+ * Renewing needs no account; the candidate confirms with one click.
+ */
+const ConsentRenewalPage: React.FC = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const { renewConsent, renewal, isRenewing, error } = useConsentRenewal();
+
+  return (
+    <main className="container mx-auto max-w-xl px-4 py-8 space-y-6">
+      <Card className="p-6 space-y-4">
+        <h1 className="text-xl font-semibold">Keep your details on file</h1>
+
+        {renewal ? (
+          <p role="status">
+            Thank you. We will keep your details {PURPOSE_DESCRIPTIONS[renewal.purpose]}
+            {renewal.expires_at ? ` until ${formatDate(renewal.expires_at, DATE_FORMATS.DISPLAY_DATE)}` : ""}.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your consent for us to hold your personal data is about to expire. Renew it to stay in our
+              records; otherwise your data will be erased.
+            </p>
+            {error && (
+              <p role="alert" className="text-sm text-red-600">
+                {failureMessage(error)}
+              </p>
+            )}
+            <Button onClick={() => renewConsent(token).catch(() => undefined)} disabled={isRenewing || !token}>
+              {isRenewing ? "Renewing…" : "Renew my consent"}
+            </Button>
+          </>
+        )}
+
+        <Link to="/careers" className="block text-sm text-primary hover:underline">
+          See our open positions
+        </Link>
+      </Card>
+    </main>
+  );
+};
+
+export default ConsentRenewalPage;
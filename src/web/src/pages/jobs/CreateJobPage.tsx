@@ -34,6 +34,7 @@ const initialJobData: JobFormData = {
   location: "",
   remote_allowed: false,
   department: "",
+  department_id: null,
   benefits: [],
   is_draft: true,
   publish_date: null,
@@ -55,6 +55,7 @@ const EditJobPage: React.FC = () => {
           location: data.location,
           remote_allowed: data.remote_allowed,
           department: data.department,
+          department_id: data.department_id,
           benefits: data.benefits,
           is_draft: data.status === "DRAFT"
         });
@@ -167,6 +168,7 @@ const EditJobPage: React.FC = () => {
           onSubmit={handleSubmit}
           isLoading={isLoading}
           mode="edit"
+          jobId={jobId}
           onChange={handleFormChange}
         />
       )}
@@ -8,9 +8,12 @@ import JobList from "../../components/jobs/JobList"
 import JobFilters from "../../components/jobs/JobFilters"
 import JobSearch from "../../components/jobs/JobSearch"
 import PageHeader from "../../components/layout/PageHeader"
+import SavedSearchMenu from "../../components/common/SavedSearchMenu"
 import { Button } from "../../components/ui/button"
 import { useJobSearch } from "../../lib/hooks/useJobs"
+import { toJobSearchFilters, toJobSearchParams } from "../../lib/api/saved-searches"
 import type { JobSearchParams } from "../../types/jobs"
+import { JobSearchFilters, SavedSearch, SavedSearchEntity } from "../../types/saved-searches"
 
 interface JobsPageProps {
   className?: string
@@ -48,6 +51,10 @@ const JobsPage: React.FC<JobsPageProps> = ({
   const [searchParams, setSearchParams] = React.useState<JobSearchParams>(initialFilters)
   const [debouncedParams] = useDebounce(searchParams, 300)
 
+  // Saved search linked from a digest, e.g. /jobs?saved_search=<id>
+  const [linkedSearchId] = React.useState(() => new URLSearchParams(window.location.search).get("saved_search"))
+  const [isSavedSearchesOpen, setIsSavedSearchesOpen] = React.useState(!!linkedSearchId)
+
   // Initialize job search hook with real-time updates
   const {
     useJobSearch,
@@ -95,6 +102,15 @@ const JobsPage: React.FC<JobsPageProps> = ({
     }))
   }, [])
 
+  // Replace the filters with those of a saved search
+  const handleApplySavedSearch = React.useCallback((search: SavedSearch) => {
+    setSearchParams({
+      ...initialFilters,
+      ...toJobSearchParams(search.filters as JobSearchFilters),
+      page: 1
+    })
+  }, [initialFilters])
+
   // Handle job creation navigation
   const handleCreateJob = React.useCallback(() => {
     router.push("/jobs/create")
@@ -112,16 +128,37 @@ const JobsPage: React.FC<JobsPageProps> = ({
         title="Jobs"
         description="Browse and manage job listings"
         actions={
-          <Button
-            onClick={handleCreateJob}
-            className="w-full sm:w-auto"
-            aria-label="Create new job posting"
-          >
-            Create Job
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsSavedSearchesOpen(open => !open)}
+              aria-expanded={isSavedSearchesOpen}
+              aria-label="Save this search or apply a saved one"
+            >
+              Saved searches
+            </Button>
+            <Button
+              onClick={handleCreateJob}
+              className="w-full sm:w-auto"
+              aria-label="Create new job posting"
+            >
+              Create Job
+            </Button>
+          </div>
         }
       />
 
+      {isSavedSearchesOpen && (
+        <div className="mt-6 rounded-lg border p-4">
+          <SavedSearchMenu
+            entityType={SavedSearchEntity.JOB}
+            currentFilters={toJobSearchFilters(searchParams)}
+            onApply={handleApplySavedSearch}
+            initialSearchId={linkedSearchId}
+          />
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="mt-8 grid gap-6 lg:grid-cols-[280px,1fr]">
         {/* Filters Sidebar */}
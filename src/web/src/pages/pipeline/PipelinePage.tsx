@@ -1,18 +1,46 @@
 import * as React from "react"; // ^18.0.0
 import { ErrorBoundary } from "react-error-boundary"; // ^4.0.0
+import { useNavigate, useParams } from "react-router-dom"; // ^6.0.0
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@shadcn/ui"; // ^0.1.0
 
 import KanbanBoard from "../../components/pipeline/KanbanBoard";
 import ListView from "../../components/pipeline/ListView";
+import ScreeningFilters from "../../components/pipeline/ScreeningFilters";
+import type { KnockoutFilter } from "../../components/pipeline/ScreeningFilters";
+import StageTransitionDialog from "../../components/pipeline/StageTransitionDialog";
+import type { StageTransitionValues } from "../../components/pipeline/StageTransitionDialog";
 import PageHeader from "../../components/layout/PageHeader";
+import EmptyState from "../../components/common/EmptyState";
 import { Button } from "../../components/ui/button";
-import { useCandidates } from "../../lib/hooks/useCandidates";
+import { useApplications } from "../../lib/hooks/useApplications";
+import { useJobScreening } from "../../lib/hooks/useScreening";
+import { useToast } from "../../lib/hooks/useToast";
+import { ApplicationError } from "../../lib/api/applications";
 import { cn } from "../../lib/utils";
-import { ApplicationStatus, CandidateStatus } from "../../types/candidates";
+import { ErrorCode } from "../../types/common";
+import { transitionRequirementDetailsSchema } from "../../types/pipelines";
+import type { TransitionRequirementDetails } from "../../types/pipelines";
+import type { ApplicationWithCandidate, ScreeningAnswerFilter } from "../../types/applications";
 
 // View type enum
 type ViewType = "kanban" | "list";
 
+// A stage move blocked by a transition rule, awaiting the missing data
+interface PendingMove {
+  applicationId: string;
+  stageId: string;
+  requirements: TransitionRequirementDetails;
+}
+
+// Extracts the missing fields reported when a transition rule blocks a move
+const getTransitionRequirements = (error: unknown): TransitionRequirementDetails | null => {
+  if (!(error instanceof ApplicationError) || error.code !== ErrorCode.VALIDATION_ERROR) {
+    return null;
+  }
+  const parsed = transitionRequirementDetailsSchema.safeParse(error.details);
+  return parsed.success ? parsed.data : null;
+};
+
 // Error fallback component
 const ErrorFallback = ({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) => (
   <div className="p-8 text-center" role="alert">
@@ -25,44 +53,40 @@ const ErrorFallback = ({ error, resetErrorBoundary }: { error: Error; resetError
 );
 
 const PipelinePage: React.FC = () => {
+  const { jobId } = useParams<{ jobId: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+
   // State management
   const [viewType, setViewType] = React.useState<ViewType>(() => {
     return (localStorage.getItem("pipeline-view") as ViewType) || "kanban";
   });
 
-  // Fetch candidates data with real-time updates
+  // Screening filters narrowing the applications shown
+  const [knockout, setKnockout] = React.useState<KnockoutFilter | undefined>();
+  const [answerFilters, setAnswerFilters] = React.useState<ScreeningAnswerFilter[]>([]);
+  const { screening } = useJobScreening(jobId);
+
+  // Fetch the job's pipeline stages and applications with real-time updates
   const {
-    candidates,
+    applications,
+    applicationsByStage,
+    pipeline,
+    stages,
     isLoading,
     error,
-    updateCandidate,
-    searchParams,
-    updateSearchParams,
-  } = useCandidates({
-    initialSearchParams: {
-      status: [CandidateStatus.ACTIVE],
-      page: 1,
-      limit: 50,
-    },
-  });
+    moveApplication,
+    refetch,
+  } = useApplications(jobId, { knockout, answers: answerFilters });
 
-  // Group candidates by application status
-  const candidatesByStage = React.useMemo(() => {
-    const stages = Object.values(ApplicationStatus).reduce(
-      (acc, status) => ({ ...acc, [status]: [] }),
-      {} as Record<ApplicationStatus, typeof candidates>
-    );
-
-    return candidates.reduce((acc, candidate) => {
-      const status = candidate.status as ApplicationStatus;
-      acc[status] = [...(acc[status] || []), candidate];
-      return acc;
-    }, stages);
-  }, [candidates]);
+  // Blocked move awaiting the fields required by the transition rule
+  const [pendingMove, setPendingMove] = React.useState<PendingMove | null>(null);
+  const [isSubmittingMove, setIsSubmittingMove] = React.useState(false);
+  const [moveError, setMoveError] = React.useState<string | null>(null);
 
   // Sort configuration for list view
   const [sortConfig, setSortConfig] = React.useState({
-    column: "last_active",
+    column: "updated_at",
     direction: "desc" as "asc" | "desc",
   });
 
@@ -72,25 +96,65 @@ const PipelinePage: React.FC = () => {
     localStorage.setItem("pipeline-view", newView);
   }, []);
 
-  const handleCandidateMove = React.useCallback(
-    async (candidateId: string, source: ApplicationStatus, destination: ApplicationStatus) => {
+  const handleApplicationMove = React.useCallback(
+    async (applicationId: string, source: string, destination: string) => {
+      if (source === destination) return;
       try {
-        await updateCandidate(candidateId, {
-          status: destination,
-          updated_at: new Date().toISOString(),
+        await moveApplication(applicationId, destination);
+      } catch (error) {
+        // The optimistic move has been rolled back; ask for the data the rule requires
+        const requirements = getTransitionRequirements(error);
+        if (requirements) {
+          setMoveError(null);
+          setPendingMove({ applicationId, stageId: destination, requirements });
+          return;
+        }
+        toast.error({
+          title: "Unable to move candidate",
+          description: error instanceof Error ? error.message : undefined,
         });
+      }
+    },
+    [moveApplication, toast]
+  );
+
+  const handleTransitionSubmit = React.useCallback(
+    async ({ reason, feedback }: StageTransitionValues) => {
+      if (!pendingMove) return;
+      const application = applications.find((a) => a.id === pendingMove.applicationId);
+
+      setIsSubmittingMove(true);
+      setMoveError(null);
+      try {
+        await moveApplication(pendingMove.applicationId, pendingMove.stageId, {
+          ...(reason ? { reason } : {}),
+          ...(feedback
+            ? {
+                feedback: [
+                  ...(application?.feedback ?? []),
+                  { stage_id: pendingMove.stageId, comment: feedback, created_at: new Date().toISOString() },
+                ],
+              }
+            : {}),
+        });
+        setPendingMove(null);
       } catch (error) {
-        console.error("Failed to move candidate:", error);
-        throw error;
+        const requirements = getTransitionRequirements(error);
+        if (requirements) {
+          setPendingMove({ ...pendingMove, requirements });
+        } else {
+          setMoveError(error instanceof Error ? error.message : "Unable to move candidate");
+        }
+      } finally {
+        setIsSubmittingMove(false);
       }
     },
-    [updateCandidate]
+    [pendingMove, applications, moveApplication]
   );
 
-  const handleCandidateClick = React.useCallback((candidate: typeof candidates[0]) => {
-    // Navigate to candidate details (implementation depends on routing solution)
-    console.log("Navigate to candidate:", candidate.id);
-  }, []);
+  const handleApplicationClick = React.useCallback((application: ApplicationWithCandidate) => {
+    navigate(`/candidates/${application.candidate_id}`);
+  }, [navigate]);
 
   const handleSort = React.useCallback((column: string) => {
     setSortConfig((prev) => ({
@@ -119,7 +183,9 @@ const PipelinePage: React.FC = () => {
         {/* Page Header */}
         <PageHeader
           title="Recruitment Pipeline"
-          description="Manage and track candidates through the recruitment process"
+          description={pipeline
+            ? `Manage and track applications through the ${pipeline.name} pipeline`
+            : "Manage and track applications through the recruitment process"}
           actions={
             <div className="flex items-center gap-4">
               <Tabs
@@ -136,21 +202,49 @@ const PipelinePage: React.FC = () => {
           }
         />
 
+        {/* Screening Filters */}
+        {screening && (
+          <div className="mt-4">
+            <ScreeningFilters
+              questions={screening.questions}
+              knockout={knockout}
+              answers={answerFilters}
+              onKnockoutChange={setKnockout}
+              onAnswersChange={setAnswerFilters}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
         {/* Main Content */}
         <div className="mt-6">
-          {viewType === "kanban" ? (
+          {!jobId ? (
+            <EmptyState
+              title="No Job Selected"
+              description="Select a job to view and manage its applications"
+              actionLabel="Browse Jobs"
+              onAction={() => navigate("/jobs")}
+            />
+          ) : error ? (
+            <ErrorFallback
+              error={new Error(error.message)}
+              resetErrorBoundary={() => refetch()}
+            />
+          ) : viewType === "kanban" ? (
             <KanbanBoard
-              candidatesByStage={candidatesByStage}
-              onCandidateMove={handleCandidateMove}
-              onCandidateClick={handleCandidateClick}
+              stages={stages}
+              applicationsByStage={applicationsByStage}
+              onApplicationMove={handleApplicationMove}
+              onApplicationClick={handleApplicationClick}
               isLoading={isLoading}
               className="h-[calc(100vh-200px)]"
             />
           ) : (
             <ListView
-              candidates={candidates}
-              onCandidateClick={handleCandidateClick}
-              onStatusChange={handleCandidateMove}
+              applications={applications}
+              stages={stages}
+              onApplicationClick={handleApplicationClick}
+              onStatusChange={handleApplicationMove}
               isLoading={isLoading}
               sortConfig={sortConfig}
               onSort={handleSort}
@@ -158,6 +252,22 @@ const PipelinePage: React.FC = () => {
           )}
         </div>
 
+        {/* Collects data required by the transition rule of a blocked move */}
+        {pendingMove && (
+          <StageTransitionDialog
+            open
+            stageName={stages.find((stage) => stage.id === pendingMove.stageId)?.name ?? "stage"}
+            candidateName={
+              applications.find((a) => a.id === pendingMove.applicationId)?.candidate.full_name
+            }
+            requirements={pendingMove.requirements}
+            onSubmit={handleTransitionSubmit}
+            onCancel={() => setPendingMove(null)}
+            isSubmitting={isSubmittingMove}
+            error={moveError}
+          />
+        )}
+
         {/* Loading Overlay */}
         {isLoading && (
           <div
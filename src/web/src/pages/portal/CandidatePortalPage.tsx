@@ -0,0 +1,47 @@
+import * as React from "react"; // ^18.0.0
+
+import PageHeader from "../../components/layout/PageHeader";
+import { Tabs } from "../../components/ui/tabs";
+import PortalApplications from "../../components/portal/PortalApplications";
+import PortalInterviews from "../../components/portal/PortalInterviews";
+import PortalTasks from "../../components/portal/PortalTasks";
+import PortalProfile from "../../components/portal/PortalProfile";
+
+/**
+ * CandidatePortalPage - Self-service screen for candidates to follow their applications,
+ * answer interview invitations, complete pending tasks and keep their profile current
+ */
+const CandidatePortalPage: React.FC = () => (
+  <div className="container mx-auto px-4 py-6">
+    <PageHeader
+      title="My Applications"
+      description="Follow your applications and keep your details up to date"
+    />
+    <Tabs.Root defaultValue="applications" className="mt-6">
+      <Tabs.List aria-label="Portal sections">
+        <Tabs.Trigger value="applications">Applications</Tabs.Trigger>
+        <Tabs.Trigger value="interviews">Interviews</Tabs.Trigger>
+        <Tabs.Trigger value="tasks">Tasks</Tabs.Trigger>
+        <Tabs.Trigger value="profile">Profile</Tabs.Trigger>
+      </Tabs.List>
+
+      <Tabs.Content value="applications" className="mt-6">
+        <PortalApplications />
+      </Tabs.Content>
+
+      <Tabs.Content value="interviews" className="mt-6">
+        <PortalInterviews />
+      </Tabs.Content>
+
+      <Tabs.Content value="tasks" className="mt-6">
+        <PortalTasks />
+      </Tabs.Content>
+
+      <Tabs.Content value="profile" className="mt-6">
+        <PortalProfile />
+      </Tabs.Content>
+    </Tabs.Root>
+  </div>
+);
+
+export default CandidatePortalPage;
@@ -0,0 +1,66 @@
+import * as React from "react"; // ^18.0.0
+import { withErrorBoundary } from "react-error-boundary"; // ^4.0.0
+
+import PageHeader from "../../components/layout/PageHeader";
+import ReferralList from "../../components/referrals/ReferralList";
+import ReferralBonusReport from "../../components/referrals/ReferralBonusReport";
+import { Button } from "../../components/ui/button";
+import { Card } from "../../components/ui/card";
+import useAuth from "../../lib/hooks/useAuth";
+import { useReferrals } from "../../lib/hooks/useReferrals";
+import { UserRole } from "../../types/auth";
+
+// Error boundary fallback component
+const ErrorFallback = ({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) => (
+  <div className="p-6 text-center" role="alert">
+    <h2 className="text-lg font-semibold text-red-600">Something went wrong</h2>
+    <p className="mt-2 text-sm text-gray-600">{error.message}</p>
+    <Button variant="secondary" className="mt-4" onClick={resetErrorBoundary}>
+      Try again
+    </Button>
+  </div>
+);
+
+/**
+ * My Referrals: the people the current user referred and how far they have come.
+ * Admins also see the referral bonus eligibility report.
+ */
+const ReferralsPage: React.FC = () => {
+  const { state } = useAuth();
+  const { referrals, isLoading, error } = useReferrals();
+
+  return (
+    <main className="container mx-auto px-4 py-8 space-y-6">
+      <PageHeader
+        title="My Referrals"
+        description="Refer people from any open job; you will be notified when one of them is hired."
+      />
+
+      <Card className="p-6">
+        {isLoading ? (
+          <div role="status" className="animate-pulse h-16 bg-gray-200 rounded" />
+        ) : error ? (
+          <p role="alert" className="text-sm text-red-600">
+            {error instanceof Error ? error.message : "Failed to load referrals"}
+          </p>
+        ) : !referrals.length ? (
+          <p className="text-sm text-muted-foreground">
+            You have not referred anyone yet. Open a job to refer someone or copy your referral link.
+          </p>
+        ) : (
+          <ReferralList referrals={referrals} />
+        )}
+      </Card>
+
+      {state.user?.role === UserRole.ADMIN && (
+        <Card className="p-6">
+          <ReferralBonusReport />
+        </Card>
+      )}
+    </main>
+  );
+};
+
+export default withErrorBoundary(ReferralsPage, {
+  FallbackComponent: ErrorFallback,
+});
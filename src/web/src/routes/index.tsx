@@ -14,9 +14,17 @@ const VerifyEmail = lazy(() => import('../pages/VerifyEmail'));
 const Dashboard = lazy(() => import('../pages/Dashboard'));
 const Jobs = lazy(() => import('../pages/jobs'));
 const Candidates = lazy(() => import('../pages/candidates'));
+const CandidateTags = lazy(() => import('../pages/candidates/CandidateTagsPage'));
+const PrivacyRequests = lazy(() => import('../pages/candidates/PrivacyRequestsPage'));
 const Interviews = lazy(() => import('../pages/interviews'));
 const Pipeline = lazy(() => import('../pages/pipeline'));
 const Analytics = lazy(() => import('../pages/analytics'));
+const Referrals = lazy(() => import('../pages/referrals/ReferralsPage'));
+const Careers = lazy(() => import('../pages/careers/CareersPage'));
+const CareerJob = lazy(() => import('../pages/careers/CareerJobPage'));
+const CareersEmbed = lazy(() => import('../pages/careers/CareersEmbedPage'));
+const ConsentRenewal = lazy(() => import('../pages/careers/ConsentRenewalPage'));
+const CandidatePortal = lazy(() => import('../pages/portal/CandidatePortalPage'));
 const NotFound = lazy(() => import('../pages/NotFound'));
 
 // Loading fallback component
@@ -78,6 +86,30 @@ const PUBLIC_ROUTES = [
   }
 ] as const;
 
+// Careers site routes, open to everyone whether signed in or not
+const CAREERS_ROUTES = [
+  {
+    path: '/careers',
+    component: Careers,
+    meta: { title: 'Careers - HotGigs', analytics: 'careers_page_view' }
+  },
+  {
+    path: '/careers/embed',
+    component: CareersEmbed,
+    meta: { title: 'Careers - HotGigs', analytics: 'careers_embed_view' }
+  },
+  {
+    path: '/careers/:jobId',
+    component: CareerJob,
+    meta: { title: 'Careers - HotGigs', analytics: 'career_job_page_view' }
+  },
+  {
+    path: '/consent/renew/:token',
+    component: ConsentRenewal,
+    meta: { title: 'Renew consent - HotGigs', analytics: 'consent_renewal_page_view' }
+  }
+] as const;
+
 // Protected routes configuration
 const PROTECTED_ROUTES = [
   {
@@ -98,6 +130,18 @@ const PROTECTED_ROUTES = [
     roles: [UserRole.ADMIN, UserRole.RECRUITER],
     meta: { title: 'Candidates - HotGigs', analytics: 'candidates_page_view' }
   },
+  {
+    path: '/candidate-tags',
+    component: CandidateTags,
+    roles: [UserRole.ADMIN],
+    meta: { title: 'Candidate Tags - HotGigs', analytics: 'candidate_tags_page_view' }
+  },
+  {
+    path: '/privacy-requests',
+    component: PrivacyRequests,
+    roles: [UserRole.ADMIN],
+    meta: { title: 'Privacy Requests - HotGigs', analytics: 'privacy_requests_page_view' }
+  },
   {
     path: '/interviews/*',
     component: Interviews,
@@ -105,16 +149,28 @@ const PROTECTED_ROUTES = [
     meta: { title: 'Interviews - HotGigs', analytics: 'interviews_page_view' }
   },
   {
-    path: '/pipeline',
+    path: '/pipeline/:jobId?',
     component: Pipeline,
     roles: [UserRole.ADMIN, UserRole.RECRUITER],
     meta: { title: 'Pipeline - HotGigs', analytics: 'pipeline_page_view' }
   },
+  {
+    path: '/referrals',
+    component: Referrals,
+    roles: [UserRole.ADMIN, UserRole.RECRUITER, UserRole.HIRING_MANAGER],
+    meta: { title: 'My Referrals - HotGigs', analytics: 'referrals_page_view' }
+  },
   {
     path: '/analytics/*',
     component: Analytics,
     roles: [UserRole.ADMIN],
     meta: { title: 'Analytics - HotGigs', analytics: 'analytics_page_view' }
+  },
+  {
+    path: '/portal',
+    component: CandidatePortal,
+    roles: [UserRole.CANDIDATE],
+    meta: { title: 'My Applications - HotGigs', analytics: 'candidate_portal_page_view' }
   }
 ] as const;
 
@@ -141,6 +197,11 @@ const AppRoutes: React.FC = () => {
               />
             ))}
 
+            {/* Careers Site Routes */}
+            {CAREERS_ROUTES.map(({ path, component: Component }) => (
+              <Route key={path} path={path} element={<Component />} />
+            ))}
+
             {/* Protected Routes */}
             {PROTECTED_ROUTES.map(({ path, component: Component, roles, meta }) => (
               <Route
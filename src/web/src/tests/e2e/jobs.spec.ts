@@ -27,9 +27,12 @@ describe('Job Management E2E Tests', () => {
     location: 'San Francisco, CA',
     remote_allowed: true,
     department: 'Engineering',
+    department_id: null,
     benefits: ['Health Insurance', '401k', 'Stock Options'],
     is_draft: false,
     publish_date: new Date(),
+    closed_at: null,
+    headcount: 1,
     form_state: {
       is_dirty: false,
       touched_fields: [],
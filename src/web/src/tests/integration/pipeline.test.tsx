@@ -3,15 +3,32 @@ import { render, screen, fireEvent, waitFor, within } from "@testing-library/rea
 import userEvent from "@testing-library/user-event"; // ^14.0.0
 import { vi, describe, it, expect, beforeEach } from "vitest"; // ^0.34.0
 import { axe, toHaveNoViolations } from "jest-axe"; // ^4.7.0
+import { MemoryRouter, Route, Routes } from "react-router-dom"; // ^6.0.0
 
 import PipelinePage from "../../pages/pipeline/PipelinePage";
 import { CandidateStatus, ApplicationStatus } from "../../types/candidates";
-import { useCandidates } from "../../lib/hooks/useCandidates";
+import { ErrorCode } from "../../types/common";
+import { StageCategory, TransitionRequirement } from "../../types/pipelines";
+import { useApplications, groupApplicationsByStage } from "../../lib/hooks/useApplications";
+import { ApplicationError } from "../../lib/api/applications";
+
+// Captures the board's drop handler so tests can simulate drops
+const dnd = vi.hoisted(() => ({
+  onDragEnd: undefined as undefined | ((result: unknown) => Promise<void>),
+}));
 
 // Mock dependencies
-vi.mock("../../lib/hooks/useCandidates");
+vi.mock("../../lib/hooks/useApplications", async () => {
+  const actual = await vi.importActual<typeof import("../../lib/hooks/useApplications")>(
+    "../../lib/hooks/useApplications"
+  );
+  return { ...actual, useApplications: vi.fn() };
+});
 vi.mock("@hello-pangea/dnd", () => ({
-  DragDropContext: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+  DragDropContext: ({ children, onDragEnd }: { children: React.ReactNode; onDragEnd: NonNullable<typeof dnd.onDragEnd> }) => {
+    dnd.onDragEnd = onDragEnd;
+    return <div>{children}</div>;
+  },
   Droppable: ({ children }: { children: any }) => children({
     draggableProps: {
       style: {},
@@ -28,51 +45,114 @@ vi.mock("@hello-pangea/dnd", () => ({
 }));
 
 // Mock data
-const mockCandidates = [
-  {
+const mockStages = [
+  { name: "Applied", category: StageCategory.SCREENING, application_status: ApplicationStatus.APPLIED },
+  { name: "Screening", category: StageCategory.SCREENING, application_status: null },
+  { name: "Interviewing", category: StageCategory.INTERVIEWING, application_status: null },
+  { name: "Offer", category: StageCategory.OFFER, application_status: null },
+  { name: "Hired", category: StageCategory.HIRED, application_status: null },
+  { name: "Rejected", category: StageCategory.REJECTED, application_status: null },
+].map((stage, position) => ({
+  ...stage,
+  id: `stage-${stage.name.toLowerCase()}`,
+  template_id: "template-1",
+  position,
+  created_at: new Date(),
+  updated_at: new Date(),
+}));
+
+const mockPipeline = {
+  id: "template-1",
+  name: "Engineering",
+  description: null,
+  is_default: false,
+  created_by: null,
+  archived_at: null,
+  stages: mockStages,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const createApplication = (
+  id: string,
+  status: ApplicationStatus,
+  candidate: { id: string; full_name: string; email: string; experience_level: string; skills: string[] }
+) => ({
+  id,
+  job_id: "job-1",
+  candidate_id: candidate.id,
+  status,
+  stage_id: null as string | null,
+  match_score: null,
+  resume_version: null,
+  feedback: [],
+  stage_history: [],
+  metadata: {},
+  created_by: null,
+  withdrawn_at: null,
+  withdrawal_reason: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  candidate: {
+    ...candidate,
+    location: "Remote",
+    status: CandidateStatus.ACTIVE,
+  },
+});
+
+const mockApplications = [
+  createApplication("a1", ApplicationStatus.SCREENING, {
     id: "1",
     full_name: "John Doe",
     email: "john@example.com",
-    status: CandidateStatus.ACTIVE,
     experience_level: "Senior",
     skills: ["React", "TypeScript", "Node.js"],
-    last_active: new Date().toISOString(),
-    application_status: ApplicationStatus.SCREENING,
-  },
-  {
+  }),
+  createApplication("a2", ApplicationStatus.INTERVIEWING, {
     id: "2",
     full_name: "Jane Smith",
     email: "jane@example.com",
-    status: CandidateStatus.ACTIVE,
     experience_level: "Mid",
     skills: ["Angular", "JavaScript", "Python"],
-    last_active: new Date().toISOString(),
-    application_status: ApplicationStatus.INTERVIEWING,
-  },
+  }),
 ];
 
+const mockHookResult = (overrides: Record<string, unknown> = {}) => {
+  const applications = (overrides.applications as typeof mockApplications) ?? mockApplications;
+  return {
+    applications,
+    applicationsByStage: groupApplicationsByStage(applications, mockStages),
+    pipeline: mockPipeline,
+    stages: mockStages,
+    total: applications.length,
+    isLoading: false,
+    error: null,
+    moveApplication: vi.fn(),
+    refetch: vi.fn(),
+    ...overrides,
+  };
+};
+
+const renderPipeline = (path = "/pipeline/job-1") =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/pipeline/:jobId?" element={<PipelinePage />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
 describe("PipelinePage Integration Tests", () => {
   beforeEach(() => {
     // Reset all mocks
     vi.clearAllMocks();
 
-    // Setup useCandidates mock
-    (useCandidates as jest.Mock).mockReturnValue({
-      candidates: mockCandidates,
-      isLoading: false,
-      error: null,
-      updateCandidate: vi.fn(),
-      searchParams: {
-        status: [CandidateStatus.ACTIVE],
-        page: 1,
-        limit: 50,
-      },
-      updateSearchParams: vi.fn(),
-    });
+    // Setup useApplications mock
+    (useApplications as jest.Mock).mockReturnValue(mockHookResult());
   });
 
   it("should render pipeline page with both view options", async () => {
-    render(<PipelinePage />);
+    renderPipeline();
 
     // Verify view toggle buttons
     expect(screen.getByRole("tab", { name: /kanban board/i })).toBeInTheDocument();
@@ -82,9 +162,33 @@ describe("PipelinePage Integration Tests", () => {
     expect(screen.getByRole("banner")).toHaveTextContent("Recruitment Pipeline");
   });
 
+  it("should render the columns of the job's pipeline template", async () => {
+    renderPipeline();
+
+    expect(screen.getByText(/Engineering pipeline/)).toBeInTheDocument();
+    mockStages.forEach((stage) => {
+      expect(screen.getByRole("region", { name: `${stage.name} column` })).toBeInTheDocument();
+    });
+  });
+
+  it("should load applications for the job in the route", async () => {
+    renderPipeline("/pipeline/job-1");
+
+    expect(useApplications).toHaveBeenCalledWith("job-1");
+  });
+
+  it("should prompt for a job when none is selected", async () => {
+    (useApplications as jest.Mock).mockReturnValue(mockHookResult({ applications: [] }));
+
+    renderPipeline("/pipeline");
+
+    expect(screen.getByRole("region", { name: "No Job Selected" })).toBeInTheDocument();
+    expect(screen.queryByRole("application")).not.toBeInTheDocument();
+  });
+
   it("should handle view switching between Kanban and List views", async () => {
     const user = userEvent.setup();
-    render(<PipelinePage />);
+    renderPipeline();
 
     // Default view should be Kanban
     expect(screen.getByRole("application")).toBeInTheDocument();
@@ -99,29 +203,17 @@ describe("PipelinePage Integration Tests", () => {
   });
 
   it("should handle loading states correctly", async () => {
-    (useCandidates as jest.Mock).mockReturnValue({
-      candidates: [],
-      isLoading: true,
-      error: null,
-      updateCandidate: vi.fn(),
-      searchParams: { status: [CandidateStatus.ACTIVE], page: 1, limit: 50 },
-      updateSearchParams: vi.fn(),
-    });
+    (useApplications as jest.Mock).mockReturnValue(
+      mockHookResult({ applications: [], isLoading: true })
+    );
 
-    render(<PipelinePage />);
+    renderPipeline();
 
     // Verify loading indicator
     expect(screen.getByRole("progressbar")).toBeInTheDocument();
 
     // Update mock to loaded state
-    (useCandidates as jest.Mock).mockReturnValue({
-      candidates: mockCandidates,
-      isLoading: false,
-      error: null,
-      updateCandidate: vi.fn(),
-      searchParams: { status: [CandidateStatus.ACTIVE], page: 1, limit: 50 },
-      updateSearchParams: vi.fn(),
-    });
+    (useApplications as jest.Mock).mockReturnValue(mockHookResult());
 
     // Verify content loaded
     await waitFor(() => {
@@ -130,61 +222,107 @@ describe("PipelinePage Integration Tests", () => {
   });
 
   it("should handle error states appropriately", async () => {
-    const error = new Error("Failed to load candidates");
-    (useCandidates as jest.Mock).mockReturnValue({
-      candidates: [],
-      isLoading: false,
-      error,
-      updateCandidate: vi.fn(),
-      searchParams: { status: [CandidateStatus.ACTIVE], page: 1, limit: 50 },
-      updateSearchParams: vi.fn(),
-    });
+    const refetch = vi.fn();
+    (useApplications as jest.Mock).mockReturnValue(
+      mockHookResult({
+        applications: [],
+        error: { message: "Failed to load applications", code: "INTERNAL_ERROR" },
+        refetch,
+      })
+    );
 
-    render(<PipelinePage />);
+    renderPipeline();
 
     // Verify error message
     expect(screen.getByRole("alert")).toHaveTextContent("Error Loading Pipeline");
-    expect(screen.getByText(error.message)).toBeInTheDocument();
+    expect(screen.getByText("Failed to load applications")).toBeInTheDocument();
 
     // Test retry functionality
     const retryButton = screen.getByRole("button", { name: /try again/i });
     await userEvent.click(retryButton);
-    expect(window.location.reload).toHaveBeenCalled();
+    expect(refetch).toHaveBeenCalled();
   });
 
-  it("should handle candidate status updates in Kanban view", async () => {
-    const updateCandidate = vi.fn();
-    (useCandidates as jest.Mock).mockReturnValue({
-      candidates: mockCandidates,
-      isLoading: false,
-      error: null,
-      updateCandidate,
-      searchParams: { status: [CandidateStatus.ACTIVE], page: 1, limit: 50 },
-      updateSearchParams: vi.fn(),
-    });
+  it("should handle application stage updates in Kanban view", async () => {
+    const moveApplication = vi.fn();
+    (useApplications as jest.Mock).mockReturnValue(mockHookResult({ moveApplication }));
 
-    render(<PipelinePage />);
+    renderPipeline();
 
     // Simulate drag and drop
     const dragEvent = {
-      draggableId: "1",
-      source: { droppableId: ApplicationStatus.SCREENING },
-      destination: { droppableId: ApplicationStatus.INTERVIEWING },
+      draggableId: "a1",
+      source: { droppableId: "stage-screening" },
+      destination: { droppableId: "stage-interviewing" },
     };
 
     // Find and trigger drag end
     const board = screen.getByRole("application");
     fireEvent.dragEnd(board, dragEvent);
 
-    // Verify update was called
-    expect(updateCandidate).toHaveBeenCalledWith("1", {
-      status: ApplicationStatus.INTERVIEWING,
-      updated_at: expect.any(String),
+    // Verify the application was moved
+    expect(moveApplication).toHaveBeenCalledWith("a1", "stage-interviewing");
+  });
+
+  it("should collect missing fields when a transition rule blocks a move", async () => {
+    const user = userEvent.setup();
+    const moveApplication = vi.fn()
+      .mockRejectedValueOnce(
+        new ApplicationError(ErrorCode.VALIDATION_ERROR, "Additional information is required to move to Rejected", {
+          fromStageId: null,
+          toStageId: "00000000-0000-4000-8000-000000000006",
+          missingFields: [TransitionRequirement.REASON],
+          unmetConditions: [],
+        })
+      )
+      .mockResolvedValueOnce(undefined);
+    (useApplications as jest.Mock).mockReturnValue(mockHookResult({ moveApplication }));
+
+    renderPipeline();
+
+    await dnd.onDragEnd!({
+      draggableId: "a1",
+      source: { droppableId: "stage-screening", index: 0 },
+      destination: { droppableId: "stage-rejected", index: 0 },
+    });
+
+    // The failed move is rolled back by the hook and the dialog asks for the reason
+    const dialog = await screen.findByRole("dialog");
+    expect(within(dialog).getByText("Move to Rejected")).toBeInTheDocument();
+
+    await user.type(within(dialog).getByLabelText("Reason"), "Salary expectations");
+    await user.click(within(dialog).getByRole("button", { name: "Move Candidate" }));
+
+    await waitFor(() => {
+      expect(moveApplication).toHaveBeenLastCalledWith("a1", "stage-rejected", {
+        reason: "Salary expectations",
+      });
+    });
+    await waitFor(() => {
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
     });
   });
 
+  it("should not open the dialog when a move is not permitted", async () => {
+    const moveApplication = vi.fn().mockRejectedValue(
+      new ApplicationError(ErrorCode.FORBIDDEN, "Your role cannot move applications to Hired")
+    );
+    (useApplications as jest.Mock).mockReturnValue(mockHookResult({ moveApplication }));
+
+    renderPipeline();
+
+    await dnd.onDragEnd!({
+      draggableId: "a1",
+      source: { droppableId: "stage-offer", index: 0 },
+      destination: { droppableId: "stage-hired", index: 0 },
+    });
+
+    expect(moveApplication).toHaveBeenCalledWith("a1", "stage-hired");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
   it("should meet accessibility requirements", async () => {
-    const { container } = render(<PipelinePage />);
+    const { container } = renderPipeline();
 
     // Run accessibility tests
     const results = await axe(container);
@@ -201,21 +339,26 @@ describe("PipelinePage Integration Tests", () => {
   });
 
   it("should handle real-time updates correctly", async () => {
-    const updateCandidate = vi.fn();
-    render(<PipelinePage />);
+    const { rerender } = renderPipeline();
 
     // Simulate real-time update
-    const updatedCandidates = [...mockCandidates];
-    updatedCandidates[0].application_status = ApplicationStatus.INTERVIEWING;
-
-    (useCandidates as jest.Mock).mockReturnValue({
-      candidates: updatedCandidates,
-      isLoading: false,
-      error: null,
-      updateCandidate,
-      searchParams: { status: [CandidateStatus.ACTIVE], page: 1, limit: 50 },
-      updateSearchParams: vi.fn(),
-    });
+    const updatedApplications = mockApplications.map((application) =>
+      application.id === "a1"
+        ? { ...application, status: ApplicationStatus.INTERVIEWING, stage_id: "stage-interviewing" }
+        : application
+    );
+
+    (useApplications as jest.Mock).mockReturnValue(
+      mockHookResult({ applications: updatedApplications })
+    );
+
+    rerender(
+      <MemoryRouter initialEntries={["/pipeline/job-1"]}>
+        <Routes>
+          <Route path="/pipeline/:jobId?" element={<PipelinePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
 
     // Verify update reflected in UI
     await waitFor(() => {
@@ -226,7 +369,7 @@ describe("PipelinePage Integration Tests", () => {
 
   it("should handle list view sorting and filtering", async () => {
     const user = userEvent.setup();
-    render(<PipelinePage />);
+    renderPipeline();
 
     // Switch to list view
     await user.click(screen.getByRole("tab", { name: /list view/i }));
@@ -240,4 +383,4 @@ describe("PipelinePage Integration Tests", () => {
     await user.click(nameHeader);
     expect(nameHeader).toHaveAttribute("aria-sort", "desc");
   });
-});
\ No newline at end of file
+});
@@ -44,13 +44,17 @@ export function generateMockJob(overrides: Partial<Job> = {}): Job {
     location: 'San Francisco, CA',
     remote_allowed: true,
     department: 'Engineering',
+    department_id: null,
     benefits: ['Health Insurance', '401k'],
     metadata: {},
     views_count: 0,
     applications_count: 0,
     tags: ['tech', 'engineering'],
     is_featured: false,
-    expires_at: null
+    expires_at: null,
+    pipeline_template_id: null,
+    headcount: 1,
+    publish_at: null
   };
 
   return { ...baseJob, ...overrides };
@@ -0,0 +1,162 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import ApprovalPanel from "../../../components/approvals/ApprovalPanel";
+import { useApprovals } from "../../../lib/hooks/useApprovals";
+import { useAuth } from "../../../lib/hooks/useAuth";
+import {
+  ApprovalDecision,
+  ApprovalEntityType,
+  ApprovalStatus,
+  ApprovalStepStatus,
+} from "../../../types/approvals";
+import type { ApprovalChain, ApprovalRequest, ApprovalRequestStep } from "../../../types/approvals";
+import { UserRole } from "../../../types/auth";
+
+vi.mock("../../../lib/hooks/useApprovals", () => ({
+  useApprovals: vi.fn(),
+}));
+
+vi.mock("../../../lib/hooks/useAuth", () => ({
+  useAuth: vi.fn(),
+}));
+
+// Mock data
+const JOB_ID = "9b2c4e6a-1d3f-4b5a-8c7e-0f1a2b3c4d5e";
+const REQUEST_ID = "5d6e7f8a-9b0c-4d1e-8f2a-3b4c5d6e7f8a";
+const REQUESTER_ID = "8e9f0a1b-2c3d-4e5f-8a6b-7c8d9e0f1a2b";
+const APPROVER_ID = "2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f";
+
+const createStep = (
+  step_order: number,
+  approver_role: UserRole,
+  status = ApprovalStepStatus.PENDING
+): ApprovalRequestStep => ({
+  id: `0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3${step_order}`,
+  request_id: REQUEST_ID,
+  step_order,
+  approver_role,
+  approver_id: null,
+  status,
+  decided_by: null,
+  decided_at: null,
+  comment: null,
+  last_reminded_at: null,
+  created_at: new Date("2024-01-15T00:00:00.000Z"),
+  updated_at: new Date("2024-01-15T00:00:00.000Z"),
+});
+
+const mockChain = { id: "7c1e2d3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f", steps: [] } as unknown as ApprovalChain;
+
+const createRequest = (overrides: Partial<ApprovalRequest> = {}): ApprovalRequest => ({
+  id: REQUEST_ID,
+  chain_id: mockChain.id,
+  entity_type: ApprovalEntityType.JOB,
+  entity_id: JOB_ID,
+  entity_version: null,
+  status: ApprovalStatus.PENDING,
+  requested_by: REQUESTER_ID,
+  completed_at: null,
+  steps: [
+    createStep(0, UserRole.HIRING_MANAGER, ApprovalStepStatus.APPROVED),
+    createStep(1, UserRole.ADMIN),
+  ],
+  created_at: new Date("2024-01-15T00:00:00.000Z"),
+  updated_at: new Date("2024-01-15T00:00:00.000Z"),
+  ...overrides,
+});
+
+const mockApprovals = (overrides: Partial<ReturnType<typeof useApprovals>> = {}) => {
+  const approvals = {
+    chain: mockChain,
+    requests: [createRequest()],
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    requestApproval: vi.fn().mockResolvedValue(undefined),
+    decideApproval: vi.fn().mockResolvedValue(undefined),
+    remindApprovers: vi.fn().mockResolvedValue(1),
+    isRequesting: false,
+    isDeciding: false,
+    isReminding: false,
+    ...overrides,
+  };
+  vi.mocked(useApprovals).mockReturnValue(approvals as ReturnType<typeof useApprovals>);
+  return approvals;
+};
+
+const mockUser = (id: string, role: UserRole) => {
+  vi.mocked(useAuth).mockReturnValue({ state: { user: { id, role } } } as ReturnType<typeof useAuth>);
+};
+
+describe("ApprovalPanel", () => {
+  it("lets an approver of the active step reject with a reason", async () => {
+    const approvals = mockApprovals();
+    mockUser(APPROVER_ID, UserRole.ADMIN);
+
+    render(<ApprovalPanel entityType={ApprovalEntityType.JOB} entityId={JOB_ID} canRequest />);
+
+    expect(screen.getAllByText("PENDING")).toHaveLength(2);
+    expect(screen.queryByRole("button", { name: "Request Approval" })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reject" }));
+    const confirm = screen.getByRole("button", { name: "Confirm" });
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Reason"), { target: { value: "Budget not signed off" } });
+    fireEvent.click(confirm);
+
+    await waitFor(() => {
+      expect(approvals.decideApproval).toHaveBeenCalledWith(REQUEST_ID, {
+        decision: ApprovalDecision.REJECT,
+        comment: "Budget not signed off",
+      });
+    });
+  });
+
+  it("only offers reminders to the requester of a pending approval", () => {
+    mockApprovals();
+    mockUser(REQUESTER_ID, UserRole.ADMIN);
+
+    render(<ApprovalPanel entityType={ApprovalEntityType.JOB} entityId={JOB_ID} canRequest />);
+
+    expect(screen.getByRole("button", { name: "Remind Approvers" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Approve" })).not.toBeInTheDocument();
+  });
+
+  it("asks for a new approval when only an earlier offer version was approved", () => {
+    const approvals = mockApprovals({
+      requests: [
+        createRequest({
+          entity_type: ApprovalEntityType.OFFER,
+          entity_version: 1,
+          status: ApprovalStatus.APPROVED,
+        }),
+      ],
+    });
+    mockUser(REQUESTER_ID, UserRole.RECRUITER);
+
+    render(
+      <ApprovalPanel
+        entityType={ApprovalEntityType.OFFER}
+        entityId={JOB_ID}
+        entityVersion={2}
+        canRequest
+      />
+    );
+
+    expect(screen.getByText("NOT REQUESTED")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Request Approval" }));
+    expect(approvals.requestApproval).toHaveBeenCalled();
+  });
+
+  it("shows that no approval is required without an active chain", () => {
+    mockApprovals({ chain: null, requests: [] });
+    mockUser(REQUESTER_ID, UserRole.RECRUITER);
+
+    render(<ApprovalPanel entityType={ApprovalEntityType.JOB} entityId={JOB_ID} canRequest />);
+
+    expect(screen.getByText("No approval is required.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,144 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CareerApplicationForm, { toScreeningAnswers } from "../../../components/careers/CareerApplicationForm";
+import JobPostingStructuredData from "../../../components/careers/JobPostingStructuredData";
+import PublicJobList from "../../../components/careers/PublicJobList";
+import { ExperienceLevel, JobType } from "../../../types/jobs";
+import { ScreeningQuestionType } from "../../../types/screening";
+import type { PublicJob } from "../../../types/careers";
+
+// Mock data
+const JOB_ID = "3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c";
+const REFERRAL_CODE = "abcDEF123_-xyz789";
+
+const mockJob: PublicJob = {
+  id: JOB_ID,
+  title: "Senior Engineer",
+  description: "Build the platform",
+  requirements: {
+    experience_level: ExperienceLevel.SENIOR,
+    years_experience: 5,
+    required_skills: ["TypeScript"],
+    preferred_skills: [],
+    qualifications: [],
+    responsibilities: [],
+  },
+  type: JobType.FULL_TIME,
+  skills: ["TypeScript"],
+  location: "Austin, TX",
+  remote_allowed: true,
+  salary_min: 150000,
+  salary_max: 190000,
+  posted_at: new Date("2024-01-15T00:00:00.000Z"),
+};
+
+const fillApplicationForm = () => {
+  fireEvent.change(screen.getByLabelText("Full name"), { target: { value: "Jane Doe" } });
+  fireEvent.change(screen.getByLabelText("Email"), { target: { value: "jane@example.com" } });
+  fireEvent.change(screen.getByLabelText("Location"), { target: { value: "Austin, TX" } });
+};
+
+describe("PublicJobList", () => {
+  it("lists published jobs with their public details", () => {
+    const onSelect = vi.fn();
+    render(<PublicJobList jobs={[mockJob]} onSelect={onSelect} />);
+
+    expect(screen.getByText("Full time")).toBeInTheDocument();
+    expect(screen.getByText(/Austin, TX · Remote/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: /Senior Engineer/ }));
+    expect(onSelect).toHaveBeenCalledWith(mockJob);
+  });
+});
+
+describe("CareerApplicationForm", () => {
+  it("submits the application with the resume and referral code", async () => {
+    const onApply = vi.fn().mockResolvedValue({
+      job_id: JOB_ID,
+      job_title: "Senior Engineer",
+      submitted_at: new Date(),
+    });
+    const resume = new File(["resume"], "resume.pdf", { type: "application/pdf" });
+
+    render(
+      <CareerApplicationForm
+        jobTitle="Senior Engineer"
+        referralCode={REFERRAL_CODE}
+        sourceUrl="https://www.example.com/jobs"
+        onApply={onApply}
+      />
+    );
+
+    fillApplicationForm();
+    fireEvent.change(screen.getByLabelText("Resume"), { target: { files: [resume] } });
+    fireEvent.click(screen.getByRole("button", { name: "Submit Application" }));
+
+    await waitFor(() => {
+      expect(onApply).toHaveBeenCalledWith(
+        {
+          full_name: "Jane Doe",
+          email: "jane@example.com",
+          location: "Austin, TX",
+          phone: undefined,
+          cover_letter: undefined,
+          referral_code: REFERRAL_CODE,
+          source_url: "https://www.example.com/jobs",
+        },
+        resume
+      );
+    });
+    expect(screen.getByText("Thank you for applying!")).toBeInTheDocument();
+  });
+
+  it("sends screening answers typed by question", () => {
+    const question = (id: string, type: ScreeningQuestionType) => ({
+      id,
+      type,
+      prompt: id,
+      options: [],
+      required: true,
+    });
+    const questions = [
+      question("authorized", ScreeningQuestionType.YES_NO),
+      question("years", ScreeningQuestionType.NUMERIC),
+      question("why", ScreeningQuestionType.TEXT),
+      question("portfolio", ScreeningQuestionType.FILE),
+    ];
+
+    expect(toScreeningAnswers(questions, { authorized: "no", years: "4.5", why: "  ", portfolio: "x" })).toEqual([
+      { question_id: "authorized", value: false },
+      { question_id: "years", value: 4.5 },
+    ]);
+  });
+
+  it("does not submit without a resume", () => {
+    const onApply = vi.fn();
+
+    render(<CareerApplicationForm jobTitle="Senior Engineer" onApply={onApply} />);
+
+    fillApplicationForm();
+    fireEvent.submit(screen.getByRole("form", { name: "Apply for Senior Engineer" }));
+
+    expect(onApply).not.toHaveBeenCalled();
+  });
+});
+
+describe("JobPostingStructuredData", () => {
+  it("embeds the job posting as JSON-LD that cannot close its script element", () => {
+    const { container } = render(
+      <JobPostingStructuredData
+        data={{ "@type": "JobPosting", title: "Senior Engineer", description: "</script><b>Build</b>" }}
+      />
+    );
+
+    const script = container.querySelector('script[type="application/ld+json"]');
+    expect(script?.innerHTML).not.toContain("</script>");
+    expect(JSON.parse(script?.innerHTML ?? "{}")).toEqual({
+      "@type": "JobPosting",
+      title: "Senior Engineer",
+      description: "</script><b>Build</b>",
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { MemoryRouter, Route, Routes } from "react-router-dom"; // ^6.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CandidateConsents from "../../../components/candidates/CandidateConsents";
+import RetentionReportPanel from "../../../components/candidates/RetentionReportPanel";
+import ConsentRenewalPage from "../../../pages/careers/ConsentRenewalPage";
+import { useCandidateConsents, useConsentRenewal, useRetentionRuns } from "../../../lib/hooks/useConsents";
+import {
+  ConsentPurpose,
+  ConsentSource,
+  LawfulBasis,
+  RetentionReason,
+  type CandidateConsent,
+  type RetentionRun,
+} from "../../../types/privacy";
+
+vi.mock("../../../lib/hooks/useConsents", () => ({
+  useCandidateConsents: vi.fn(),
+  useConsentRenewal: vi.fn(),
+  useRetentionRuns: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+// Mock data
+const CANDIDATE_ID = "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+
+const CONSENT: CandidateConsent = {
+  id: "2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a",
+  candidate_id: CANDIDATE_ID,
+  purpose: ConsentPurpose.TALENT_POOL,
+  lawful_basis: LawfulBasis.CONSENT,
+  source: ConsentSource.CAREERS_SITE,
+  consented_at: new Date("2024-01-10T10:00:00"),
+  expires_at: new Date("2099-01-10T10:00:00"),
+  withdrawn_at: null,
+  renewal_requested_at: null,
+  notes: null,
+  recorded_by: null,
+  created_at: new Date("2024-01-10T10:00:00"),
+  updated_at: new Date("2024-01-10T10:00:00"),
+};
+
+const RUN: RetentionRun = {
+  id: "3e4f5a6b-7c8d-4e9f-8a0b-2c3d4e5f6a7b",
+  dry_run: true,
+  started_at: new Date("2024-03-01T02:00:00"),
+  completed_at: new Date("2024-03-01T02:01:00"),
+  report: {
+    dry_run: true,
+    evaluated_at: "2024-03-01T02:00:00.000Z",
+    renewal_requests: [],
+    anonymized: [
+      { candidate_id: CANDIDATE_ID, reason: RetentionReason.CONSENT_EXPIRED },
+      { candidate_id: "4f5a6b7c-8d9e-4f0a-9b1c-3d4e5f6a7b8c", reason: RetentionReason.RETENTION_EXPIRED },
+    ],
+    resumes_deleted: [{ candidate_id: CANDIDATE_ID, key: "resumes/7b8c.pdf", expired_at: "2024-02-01T00:00:00.000Z" }],
+    held: ["5a6b7c8d-9e0f-4a1b-8c2d-4e5f6a7b8c9d"],
+    failed: [],
+  },
+  triggered_by: "6b7c8d9e-0f1a-4b2c-9d3e-5f6a7b8c9d0e",
+};
+
+const mockUseCandidateConsents = (overrides: Partial<ReturnType<typeof useCandidateConsents>> = {}) => {
+  const consents = {
+    consents: [CONSENT],
+    isLoading: false,
+    error: null,
+    recordConsent: vi.fn().mockResolvedValue(CONSENT),
+    updateConsent: vi.fn().mockResolvedValue(CONSENT),
+    withdrawConsent: vi.fn().mockResolvedValue({ ...CONSENT, withdrawn_at: new Date() }),
+    isSaving: false,
+    ...overrides,
+  };
+  vi.mocked(useCandidateConsents).mockReturnValue(consents as unknown as ReturnType<typeof useCandidateConsents>);
+  return consents;
+};
+
+describe("CandidateConsents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows each consent with its basis and status", () => {
+    mockUseCandidateConsents();
+    render(<CandidateConsents candidateId={CANDIDATE_ID} canManage />);
+
+    const consent = screen.getByRole("listitem", { name: "Talent pool consent" });
+    expect(consent).toHaveTextContent("Consent");
+    expect(consent).toHaveTextContent("In force");
+    expect(consent).toHaveTextContent("Careers site");
+  });
+
+  it("records a consent from the form", async () => {
+    const { recordConsent } = mockUseCandidateConsents({ consents: [] });
+    render(<CandidateConsents candidateId={CANDIDATE_ID} canManage />);
+
+    fireEvent.change(screen.getByLabelText("Given on"), { target: { value: "2024-03-01" } });
+    fireEvent.change(screen.getByLabelText("Expires on"), { target: { value: "2026-03-01" } });
+    fireEvent.click(screen.getByRole("button", { name: "Record consent" }));
+
+    await waitFor(() =>
+      expect(recordConsent).toHaveBeenCalledWith({
+        purpose: ConsentPurpose.RECRUITMENT,
+        lawful_basis: LawfulBasis.CONSENT,
+        source: ConsentSource.RECRUITER,
+        consented_at: "2024-03-01",
+        expires_at: "2026-03-01",
+        notes: undefined,
+      })
+    );
+  });
+
+  it("withdraws a consent once confirmed", async () => {
+    const { withdrawConsent } = mockUseCandidateConsents();
+    render(<CandidateConsents candidateId={CANDIDATE_ID} canManage />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Withdraw talent pool consent" }));
+    fireEvent.click(screen.getByRole("button", { name: "Withdraw" }));
+
+    await waitFor(() => expect(withdrawConsent).toHaveBeenCalledWith(CONSENT.id));
+  });
+
+  it("is read-only for users who cannot manage consents", () => {
+    mockUseCandidateConsents();
+    render(<CandidateConsents candidateId={CANDIDATE_ID} canManage={false} />);
+
+    expect(screen.queryByRole("button", { name: "Record consent" })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Withdraw talent pool consent" })).not.toBeInTheDocument();
+  });
+});
+
+describe("RetentionReportPanel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("summarizes what a dry run would do and starts a new one", async () => {
+    const previewRetention = vi.fn().mockResolvedValue(RUN);
+    vi.mocked(useRetentionRuns).mockReturnValue({
+      runs: [RUN],
+      totalPages: 1,
+      isLoading: false,
+      error: null,
+      previewRetention,
+      isPreviewing: false,
+    } as unknown as ReturnType<typeof useRetentionRuns>);
+    render(<RetentionReportPanel />);
+
+    expect(screen.getByText("Dry run", { selector: "div" })).toBeInTheDocument();
+    expect(
+      screen.getByText("Would anonymize 2 candidates (1 no consent in force, 1 retention period over)")
+    ).toBeInTheDocument();
+    expect(screen.getByText("Would delete 1 expired resume")).toBeInTheDocument();
+    expect(screen.getByText("Kept 1 candidate under a legal hold")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Dry run" }));
+    await waitFor(() => expect(previewRetention).toHaveBeenCalled());
+  });
+});
+
+describe("ConsentRenewalPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPage = () =>
+    render(
+      <MemoryRouter initialEntries={["/consent/renew/abcdefghijklmnop1234"]}>
+        <Routes>
+          <Route path="/consent/renew/:token" element={<ConsentRenewalPage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  it("renews the consent from the token in the link", async () => {
+    const renewConsent = vi.fn().mockResolvedValue({ purpose: ConsentPurpose.TALENT_POOL, expires_at: new Date() });
+    vi.mocked(useConsentRenewal).mockReturnValue({
+      renewConsent,
+      renewal: undefined,
+      isRenewing: false,
+      error: null,
+    } as unknown as ReturnType<typeof useConsentRenewal>);
+    renderPage();
+
+    fireEvent.click(screen.getByRole("button", { name: "Renew my consent" }));
+
+    await waitFor(() => expect(renewConsent).toHaveBeenCalledWith("abcdefghijklmnop1234"));
+  });
+
+  it("confirms what was renewed", () => {
+    vi.mocked(useConsentRenewal).mockReturnValue({
+      renewConsent: vi.fn(),
+      renewal: { purpose: ConsentPurpose.TALENT_POOL, expires_at: null },
+      isRenewing: false,
+      error: null,
+    } as unknown as ReturnType<typeof useConsentRenewal>);
+    renderPage();
+
+    expect(screen.getByRole("status")).toHaveTextContent("We will keep your details to contact you about future openings.");
+  });
+});
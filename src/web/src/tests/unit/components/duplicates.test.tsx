@@ -0,0 +1,103 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CandidateDuplicates from "../../../components/candidates/CandidateDuplicates";
+import { useCandidateDuplicates } from "../../../lib/hooks/useCandidateDuplicates";
+import { CandidateStatus, DuplicateMatchReason } from "../../../types/candidates";
+import type { DuplicateCandidateMatch } from "../../../types/candidates";
+
+vi.mock("../../../lib/hooks/useCandidateDuplicates", () => ({
+  useCandidateDuplicates: vi.fn(),
+}));
+
+// Mock data
+const CANDIDATE_ID = "3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c";
+const DUPLICATE_ID = "7a8b9c0d-1e2f-4a3b-9c4d-5e6f7a8b9c0d";
+
+const mockMatch: DuplicateCandidateMatch = {
+  candidate_id: DUPLICATE_ID,
+  full_name: "Jane M. Doe",
+  email: "jane.doe+jobs@example.com",
+  phone: "555-123-4567",
+  status: CandidateStatus.ACTIVE,
+  created_at: new Date("2024-01-15T00:00:00.000Z"),
+  score: 0.97,
+  name_similarity: 0.71,
+  reasons: [DuplicateMatchReason.EMAIL, DuplicateMatchReason.NAME],
+};
+
+const mockDuplicates = (overrides: Partial<ReturnType<typeof useCandidateDuplicates>> = {}) => {
+  const duplicates = {
+    matches: [mockMatch],
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    mergeCandidates: vi.fn().mockResolvedValue({
+      candidate: {},
+      merge: { moved_records: { applications: 2, interviews: 1, offers: 0, hotlists: 1 } },
+    }),
+    isMerging: false,
+    ...overrides,
+  };
+  vi.mocked(useCandidateDuplicates).mockReturnValue(
+    duplicates as ReturnType<typeof useCandidateDuplicates>
+  );
+  return duplicates;
+};
+
+describe("CandidateDuplicates", () => {
+  it("lists likely duplicates with their score and matching signals", () => {
+    mockDuplicates();
+
+    render(<CandidateDuplicates candidateId={CANDIDATE_ID} candidateName="Jane Doe" />);
+
+    expect(screen.getByText("Jane M. Doe")).toBeInTheDocument();
+    expect(screen.getByText("97% match")).toBeInTheDocument();
+    expect(screen.getByText("Same email")).toBeInTheDocument();
+    expect(screen.getByText("Similar name")).toBeInTheDocument();
+  });
+
+  it("merges the duplicate into the current candidate by default", async () => {
+    const duplicates = mockDuplicates();
+    const onMerged = vi.fn();
+
+    render(
+      <CandidateDuplicates candidateId={CANDIDATE_ID} candidateName="Jane Doe" onMerged={onMerged} />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Merge Jane M. Doe" }));
+    fireEvent.click(screen.getByRole("button", { name: "Merge" }));
+
+    await waitFor(() => {
+      expect(duplicates.mergeCandidates).toHaveBeenCalledWith(CANDIDATE_ID, DUPLICATE_ID);
+    });
+    expect(onMerged).toHaveBeenCalledWith(CANDIDATE_ID);
+  });
+
+  it("can keep the other profile and archive the current one", async () => {
+    const duplicates = mockDuplicates();
+    const onMerged = vi.fn();
+
+    render(
+      <CandidateDuplicates candidateId={CANDIDATE_ID} candidateName="Jane Doe" onMerged={onMerged} />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Merge Jane M. Doe" }));
+    fireEvent.click(screen.getByRole("radio", { name: "Keep Jane M. Doe" }));
+    fireEvent.click(screen.getByRole("button", { name: "Merge" }));
+
+    await waitFor(() => {
+      expect(duplicates.mergeCandidates).toHaveBeenCalledWith(DUPLICATE_ID, CANDIDATE_ID);
+    });
+    expect(onMerged).toHaveBeenCalledWith(DUPLICATE_ID);
+  });
+
+  it("shows when no duplicates were found", () => {
+    mockDuplicates({ matches: [] });
+
+    render(<CandidateDuplicates candidateId={CANDIDATE_ID} candidateName="Jane Doe" />);
+
+    expect(screen.getByText("No likely duplicates found.")).toBeInTheDocument();
+  });
+});
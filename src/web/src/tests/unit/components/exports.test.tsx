@@ -0,0 +1,104 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CandidateExportPanel, { toggleExportColumn } from "../../../components/candidates/CandidateExportPanel";
+import { useCandidateExport } from "../../../lib/hooks/useCandidateExports";
+import { toExportFilters } from "../../../lib/api/exports";
+import { CandidateStatus } from "../../../types/candidates";
+import { CandidateExportFormat, CandidateExportStatus, DEFAULT_EXPORT_COLUMNS } from "../../../types/exports";
+import type { CandidateExportWithDownload } from "../../../types/exports";
+
+vi.mock("../../../lib/hooks/useCandidateExports", () => ({
+  useCandidateExport: vi.fn(),
+}));
+
+vi.mock("../../../lib/supabase", () => ({
+  supabase: { auth: { getSession: vi.fn() } },
+}));
+
+// Mock data
+const EXPORT_ID = "5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e";
+
+const mockExport: CandidateExportWithDownload = {
+  id: EXPORT_ID,
+  format: CandidateExportFormat.XLSX,
+  filters: {},
+  columns: DEFAULT_EXPORT_COLUMNS,
+  status: CandidateExportStatus.COMPLETED,
+  row_count: 4200,
+  file_key: "exports/candidates/export.xlsx",
+  error: null,
+  started_at: new Date("2024-01-15T00:00:00.000Z"),
+  completed_at: new Date("2024-01-15T00:01:00.000Z"),
+  created_by: "6c7d8e9f-0a1b-4c2d-9e3f-4a5b6c7d8e9f",
+  created_at: new Date("2024-01-15T00:00:00.000Z"),
+  updated_at: new Date("2024-01-15T00:01:00.000Z"),
+  download_url: "https://storage.example.com/exports/export.xlsx?signature=abc",
+  download_expires_at: new Date("2024-01-15T01:01:00.000Z"),
+};
+
+const mockUseCandidateExport = (overrides: Partial<ReturnType<typeof useCandidateExport>> = {}) => {
+  const candidateExport = {
+    candidateExport: undefined,
+    isLoading: false,
+    error: null,
+    exportCandidates: vi.fn(),
+    isExporting: false,
+    ...overrides,
+  };
+  vi.mocked(useCandidateExport).mockReturnValue(
+    candidateExport as unknown as ReturnType<typeof useCandidateExport>
+  );
+  return candidateExport;
+};
+
+describe("CandidateExportPanel", () => {
+  it("exports the searched candidates with the selected columns", async () => {
+    const exportCandidates = vi.fn().mockResolvedValue({ queued: { ...mockExport, status: CandidateExportStatus.QUEUED } });
+    mockUseCandidateExport({ exportCandidates });
+
+    render(<CandidateExportPanel searchParams={{ query: "react", status: [CandidateStatus.ACTIVE] }} />);
+
+    fireEvent.click(screen.getByLabelText("Phone"));
+    fireEvent.click(screen.getByRole("button", { name: "Export" }));
+
+    await waitFor(() => {
+      expect(exportCandidates).toHaveBeenCalledWith({
+        format: CandidateExportFormat.CSV,
+        filters: { query: "react", status: [CandidateStatus.ACTIVE] },
+        columns: DEFAULT_EXPORT_COLUMNS.filter((column) => column !== "phone"),
+      });
+    });
+    expect(useCandidateExport).toHaveBeenLastCalledWith(EXPORT_ID);
+  });
+
+  it("links to the file of a large export once it has been written", () => {
+    mockUseCandidateExport({ candidateExport: mockExport });
+
+    render(<CandidateExportPanel searchParams={{}} />);
+
+    expect(screen.getByText(/4200 candidates exported/)).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Download file" })).toHaveAttribute("href", mockExport.download_url);
+  });
+});
+
+describe("Candidate export helpers", () => {
+  it("keeps the selected columns in export order", () => {
+    expect(toggleExportColumn(["skills", "full_name"], "email", true)).toEqual(["full_name", "email", "skills"]);
+    expect(toggleExportColumn(["full_name", "email"], "email", false)).toEqual(["full_name"]);
+  });
+
+  it("exports only the filters that are set", () => {
+    expect(toExportFilters({
+      query: " ",
+      status: [],
+      skills: ["SQL"],
+      location: "Lisbon",
+      experience_level: "SENIOR",
+      salary_min: 0,
+      salary_max: 0,
+    })).toEqual({ skills: ["SQL"], location: "Lisbon", experienceLevel: ["SENIOR"] });
+    expect(toExportFilters({ salary_min: 50000, salary_max: 90000 }).salaryRange).toEqual({ min: 50000, max: 90000 });
+  });
+});
@@ -0,0 +1,258 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import AtsImportPanel, {
+  getOutcomeTotal,
+  getRecordsNeedingAttention,
+} from "../../../components/candidates/AtsImportPanel";
+import CandidateImportWizard, {
+  formatRowErrors,
+  getImportProgress,
+} from "../../../components/candidates/CandidateImportWizard";
+import { useAtsImport, useCandidateImport } from "../../../lib/hooks/useCandidateImports";
+import {
+  AtsEntityType,
+  AtsImportSource,
+  CandidateImportStatus,
+  DuplicateStrategy,
+  ImportFileFormat,
+  ImportRowStatus,
+  ReconciliationOutcome,
+} from "../../../types/imports";
+import type { ReconciliationReport, UploadedCandidateImport } from "../../../types/imports";
+
+vi.mock("../../../lib/hooks/useCandidateImports", () => ({
+  useCandidateImport: vi.fn(),
+  useAtsImport: vi.fn(),
+}));
+
+// Mock data
+const IMPORT_ID = "4a5b6c7d-8e9f-4a0b-9c1d-2e3f4a5b6c7d";
+
+const mockUpload: UploadedCandidateImport = {
+  id: IMPORT_ID,
+  file_name: "candidates.csv",
+  format: ImportFileFormat.CSV,
+  headers: ["Name", "Email", "Skills"],
+  row_count: 3,
+  resume_archive_key: null,
+  resume_files: [],
+  mapping: null,
+  duplicate_strategy: null,
+  list_delimiter: ";",
+  status: CandidateImportStatus.UPLOADED,
+  previewed_at: null,
+  queued_at: null,
+  started_at: null,
+  completed_at: null,
+  created_by: null,
+  created_at: new Date("2024-01-15T00:00:00.000Z"),
+  updated_at: new Date("2024-01-15T00:00:00.000Z"),
+  suggested_mapping: { full_name: "Name", email: "Email", skills: "Skills" },
+  sample_rows: [],
+};
+
+const rowCounts = (counts: Partial<Record<ImportRowStatus, number>>) => ({
+  PENDING: 0,
+  CREATED: 0,
+  UPDATED: 0,
+  SKIPPED: 0,
+  FAILED: 0,
+  ...counts,
+});
+
+const mockImport = (overrides: Partial<ReturnType<typeof useCandidateImport>> = {}) => {
+  const candidateImport = {
+    candidateImport: undefined,
+    isLoading: false,
+    error: null,
+    uploadImport: vi.fn().mockResolvedValue(mockUpload),
+    isUploading: false,
+    previewImport: vi.fn().mockResolvedValue({
+      import_id: IMPORT_ID,
+      row_counts: rowCounts({ CREATED: 1, SKIPPED: 1, FAILED: 1 }),
+      rows: [
+        {
+          row_number: 3,
+          status: ImportRowStatus.FAILED,
+          errors: [{ field: "email", message: "Invalid email" }],
+          duplicate_candidate_id: null,
+          duplicate_row_number: null,
+        },
+      ],
+      truncated: false,
+    }),
+    isPreviewing: false,
+    commitImport: vi.fn().mockResolvedValue({ ...mockUpload, status: CandidateImportStatus.QUEUED }),
+    isCommitting: false,
+    downloadErrorReport: vi.fn(),
+    ...overrides,
+  };
+  vi.mocked(useCandidateImport).mockReturnValue(
+    candidateImport as unknown as ReturnType<typeof useCandidateImport>
+  );
+  return candidateImport;
+};
+
+const outcomeCounts = (counts: Partial<Record<ReconciliationOutcome, number>>) => ({
+  CREATED: 0,
+  UPDATED: 0,
+  UNCHANGED: 0,
+  SKIPPED: 0,
+  FAILED: 0,
+  ...counts,
+});
+
+const mockReport = (dryRun: boolean): ReconciliationReport => ({
+  run: dryRun ? null : {
+    id: "7e8f9a0b-1c2d-4e3f-8a4b-5c6d7e8f9a0b",
+    source: AtsImportSource.LEVER,
+    file_name: "lever.json",
+    totals: {} as ReconciliationReport["totals"],
+    created_by: null,
+    created_at: new Date("2024-01-15T00:00:00.000Z"),
+    updated_at: new Date("2024-01-15T00:00:00.000Z"),
+  },
+  source: AtsImportSource.LEVER,
+  dry_run: dryRun,
+  totals: {
+    [AtsEntityType.JOB]: outcomeCounts({ CREATED: 2 }),
+    [AtsEntityType.CANDIDATE]: outcomeCounts({ CREATED: 1, UPDATED: 3 }),
+    [AtsEntityType.APPLICATION]: outcomeCounts({ CREATED: 4, SKIPPED: 1 }),
+  },
+  records: [
+    {
+      entity_type: AtsEntityType.CANDIDATE,
+      external_id: "contact-1",
+      entity_id: null,
+      outcome: ReconciliationOutcome.UPDATED,
+      message: null,
+    },
+    {
+      entity_type: AtsEntityType.APPLICATION,
+      external_id: "opp-9",
+      entity_id: null,
+      outcome: ReconciliationOutcome.SKIPPED,
+      message: "Opportunities without a posting are imported as candidates only",
+    },
+  ],
+});
+
+describe("CandidateImportWizard", () => {
+  it("uploads the spreadsheet with its resume archive", async () => {
+    const candidateImport = mockImport();
+    const file = new File(["Name,Email"], "candidates.csv", { type: "text/csv" });
+    const resumes = new File(["zip"], "resumes.zip", { type: "application/zip" });
+
+    render(<CandidateImportWizard />);
+
+    fireEvent.change(screen.getByLabelText("Spreadsheet (CSV or XLSX)"), { target: { files: [file] } });
+    fireEvent.change(screen.getByLabelText("Resumes (optional zip)"), { target: { files: [resumes] } });
+    fireEvent.click(screen.getByRole("button", { name: "Upload" }));
+
+    await waitFor(() => {
+      expect(candidateImport.uploadImport).toHaveBeenCalledWith({ file, resumes });
+    });
+    expect(await screen.findByText("3 rows")).toBeInTheDocument();
+  });
+
+  it("runs a dry run with the suggested mapping before the import can be committed", async () => {
+    const candidateImport = mockImport();
+    const file = new File(["Name,Email"], "candidates.csv", { type: "text/csv" });
+
+    render(<CandidateImportWizard />);
+
+    fireEvent.change(screen.getByLabelText("Spreadsheet (CSV or XLSX)"), { target: { files: [file] } });
+    fireEvent.click(screen.getByRole("button", { name: "Upload" }));
+
+    expect(await screen.findByRole("button", { name: "Import candidates" })).toBeDisabled();
+    fireEvent.click(screen.getByRole("button", { name: "Run dry run" }));
+
+    await waitFor(() => {
+      expect(candidateImport.previewImport).toHaveBeenCalledWith(IMPORT_ID, {
+        mapping: mockUpload.suggested_mapping,
+        duplicate_strategy: DuplicateStrategy.SKIP,
+        list_delimiter: ";",
+      });
+    });
+    expect(await screen.findByText("Email: Invalid email")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Download error report" })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Import candidates" }));
+
+    await waitFor(() => {
+      expect(candidateImport.commitImport).toHaveBeenCalledWith(IMPORT_ID);
+    });
+  });
+
+  it("shows the upload error", async () => {
+    mockImport({ uploadImport: vi.fn().mockRejectedValue(new Error("Only CSV and XLSX files can be imported")) });
+    const file = new File(["%PDF"], "candidates.pdf", { type: "application/pdf" });
+
+    render(<CandidateImportWizard />);
+
+    fireEvent.change(screen.getByLabelText("Spreadsheet (CSV or XLSX)"), { target: { files: [file] } });
+    fireEvent.click(screen.getByRole("button", { name: "Upload" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Only CSV and XLSX files can be imported");
+  });
+});
+
+describe("CandidateImportWizard helpers", () => {
+  it("labels row errors by field", () => {
+    expect(formatRowErrors([
+      { field: "preferences.remote_only", message: "Expected yes or no" },
+      { field: "preferences.salary_expectation_max", message: "Must not be below the minimum salary" },
+    ])).toBe("Remote only: Expected yes or no; Maximum salary: Must not be below the minimum salary");
+  });
+
+  it("reports the share of processed rows", () => {
+    expect(getImportProgress(rowCounts({ PENDING: 50, CREATED: 40, FAILED: 10 }), 100)).toBe(50);
+    expect(getImportProgress(rowCounts({}), 0)).toBe(100);
+  });
+});
+
+describe("AtsImportPanel", () => {
+  it("runs a dry run before importing the export", async () => {
+    const importExport = vi.fn()
+      .mockResolvedValueOnce(mockReport(true))
+      .mockResolvedValueOnce(mockReport(false));
+    vi.mocked(useAtsImport).mockReturnValue({
+      report: undefined,
+      error: null,
+      importExport,
+      isImporting: false,
+      downloadReport: vi.fn(),
+    } as unknown as ReturnType<typeof useAtsImport>);
+    const file = new File(["{}"], "lever.json", { type: "application/json" });
+
+    render(<AtsImportPanel />);
+
+    expect(screen.getByRole("button", { name: "Import" })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText("Export file (JSON)"), { target: { files: [file] } });
+    fireEvent.click(screen.getByRole("button", { name: "Run dry run" }));
+
+    await waitFor(() => {
+      expect(importExport).toHaveBeenCalledWith({ file, source: undefined, dry_run: true });
+    });
+    expect(await screen.findByText("Dry run: nothing has been imported yet.")).toBeInTheDocument();
+    expect(screen.getByText("Opportunities without a posting are imported as candidates only")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Import" }));
+
+    expect(await screen.findByText("Imported: 7 created, 3 updated.")).toBeInTheDocument();
+    expect(importExport).toHaveBeenLastCalledWith({ file, source: undefined, dry_run: false });
+    expect(screen.getByRole("button", { name: "Download report" })).toBeInTheDocument();
+  });
+});
+
+describe("AtsImportPanel helpers", () => {
+  it("adds up an outcome over every record type", () => {
+    expect(getOutcomeTotal(mockReport(true).totals, ReconciliationOutcome.CREATED)).toBe(7);
+  });
+
+  it("lists only the records that were not imported or have a note", () => {
+    expect(getRecordsNeedingAttention(mockReport(true)).map((record) => record.external_id)).toEqual(["opp-9"]);
+  });
+});
@@ -4,7 +4,21 @@ import { vi } from "vitest" // ^0.34.0
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query" // ^4.0.0
 import JobCard from "../../components/jobs/JobCard"
 import JobList from "../../components/jobs/JobList"
-import { Job, JobStatus, JobType, ExperienceLevel } from "../../types/jobs"
+import { diffLines, diffRequirements, toTextLines } from "../../components/jobs/JobRevisionHistory"
+import { toggleMember, toStaffOptions } from "../../components/jobs/HiringTeamFields"
+import { removeAppliedIssue, resolveSuggestion } from "../../components/jobs/JobWritingAssistant"
+import { changeQuestionType, setKnockout, setOptions } from "../../components/jobs/ScreeningQuestionsFields"
+import {
+  Job,
+  JobStatus,
+  JobType,
+  ExperienceLevel,
+  WordingIssue,
+  WordingIssueCategory,
+  WordingIssueSource,
+} from "../../types/jobs"
+import { UserRole } from "../../types/auth"
+import { ScreeningQuestionType } from "../../types/screening"
 
 // Mock next/router
 vi.mock("next/router", () => ({
@@ -68,6 +82,7 @@ const mockJob: Job = {
   location: "San Francisco",
   remote_allowed: true,
   department: "Engineering",
+  department_id: null,
   benefits: ["Health Insurance", "401k"],
   metadata: {},
   views_count: 150,
@@ -75,6 +90,9 @@ const mockJob: Job = {
   tags: ["frontend", "senior"],
   is_featured: true,
   expires_at: null,
+  pipeline_template_id: null,
+  headcount: 1,
+  publish_at: null,
   created_at: new Date("2023-01-01"),
   updated_at: new Date("2023-01-01")
 }
@@ -285,4 +303,139 @@ describe("JobList", () => {
       "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3"
     )
   })
-})
\ No newline at end of file
+})
+describe("JobRevisionHistory diff", () => {
+  it("splits description markup into lines of text", () => {
+    expect(
+      toTextLines("<p>About the role</p><ul><li>Build APIs</li><li>Review code</li></ul>")
+    ).toEqual(["About the role", "Build APIs", "Review code"])
+  })
+
+  it("marks added, removed and unchanged lines", () => {
+    const changes = diffLines(
+      ["About the role", "Build APIs", "Review code"],
+      ["About the role", "Build services", "Review code"]
+    )
+
+    expect(changes).toEqual([
+      { type: "unchanged", text: "About the role" },
+      { type: "removed", text: "Build APIs" },
+      { type: "added", text: "Build services" },
+      { type: "unchanged", text: "Review code" },
+    ])
+  })
+
+  it("reports requirement items added and removed", () => {
+    const changes = diffRequirements(
+      { required_skills: ["React", "TypeScript"], experience_level: ExperienceLevel.MID },
+      { required_skills: ["React", "Node.js"], experience_level: ExperienceLevel.SENIOR }
+    )
+
+    expect(changes).toEqual([
+      { field: "required_skills", added: ["Node.js"], removed: ["TypeScript"] },
+      {
+        field: "experience_level",
+        added: [ExperienceLevel.SENIOR],
+        removed: [ExperienceLevel.MID],
+      },
+    ])
+  })
+})
+
+describe("HiringTeamFields helpers", () => {
+  const staff = [
+    { id: "recruiter", full_name: "Rae Recruiter", email: "rae@example.com", role: UserRole.RECRUITER, department_ids: [] },
+    { id: "manager", full_name: "Max Manager", email: "max@example.com", role: UserRole.HIRING_MANAGER, department_ids: [] },
+  ]
+
+  it("adds and removes team members without duplicates", () => {
+    expect(toggleMember(["manager"], "recruiter", true)).toEqual(["manager", "recruiter"])
+    expect(toggleMember(["manager"], "manager", true)).toEqual(["manager"])
+    expect(toggleMember(["manager", "recruiter"], "manager", false)).toEqual(["recruiter"])
+  })
+
+  it("limits staff options to the given platform roles", () => {
+    expect(toStaffOptions(staff, [UserRole.ADMIN, UserRole.RECRUITER])).toEqual([
+      { value: "recruiter", label: "Rae Recruiter", description: "rae@example.com" },
+    ])
+    expect(toStaffOptions(staff)).toHaveLength(2)
+  })
+})
+
+describe("JobWritingAssistant suggestions", () => {
+  const issue = (path: string, excerpt: string, start: number, suggestion: string): WordingIssue => ({
+    category: WordingIssueCategory.EXCLUSIONARY,
+    source: WordingIssueSource.RULES,
+    path,
+    message: "",
+    excerpt,
+    suggestion,
+    start,
+    end: start + excerpt.length,
+  })
+
+  const values = {
+    title: "Rockstar Developer",
+    description: "Join our ninja team of gurus",
+    requirements: { ...mockJob.requirements, responsibilities: ["Mentor", "Ship as a ninja"] },
+  }
+
+  it("replaces the excerpt in titles, descriptions and requirement items", () => {
+    expect(resolveSuggestion(values, issue("title", "Rockstar", 0, "Skilled"))).toEqual({
+      field: "title",
+      value: "Skilled Developer",
+    })
+    expect(resolveSuggestion(values, issue("requirements.responsibilities.1", "ninja", 10, "specialist"))).toEqual({
+      field: "requirements.responsibilities",
+      value: ["Mentor", "Ship as a specialist"],
+    })
+  })
+
+  it("refuses to replace text that changed since the check", () => {
+    expect(resolveSuggestion(values, issue("description", "ninja", 0, "specialist"))).toBeNull()
+  })
+
+  it("moves later excerpts in the same text by the change in length", () => {
+    const ninja = issue("description", "ninja", 9, "specialist")
+    const gurus = issue("description", "gurus", 23, "experts")
+
+    expect(removeAppliedIssue([ninja, gurus], ninja)).toEqual([{ ...gurus, start: 28, end: 33 }])
+  })
+})
+
+describe("ScreeningQuestionsFields helpers", () => {
+  const shift = {
+    type: ScreeningQuestionType.MULTIPLE_CHOICE,
+    prompt: "Which shift can you work?",
+    options: ["Day", "Night"],
+    required: false,
+    is_knockout: false,
+    expected_answer: null,
+  }
+
+  it("makes knockout questions required with an expected answer of their type", () => {
+    expect(setKnockout(shift, true)).toMatchObject({ required: true, is_knockout: true, expected_answer: [] })
+    expect(setKnockout({ ...shift, type: ScreeningQuestionType.YES_NO }, true).expected_answer).toBe(true)
+    expect(setKnockout(setKnockout(shift, true), false)).toMatchObject({ is_knockout: false, expected_answer: null })
+  })
+
+  it("drops options and knockout rules that do not fit a new type", () => {
+    const knockout = { ...setKnockout(shift, true), expected_answer: ["Day"] }
+
+    expect(changeQuestionType(knockout, ScreeningQuestionType.TEXT)).toMatchObject({
+      options: [],
+      is_knockout: false,
+      expected_answer: null,
+    })
+    expect(changeQuestionType(knockout, ScreeningQuestionType.NUMERIC).expected_answer).toEqual({ min: null, max: null })
+  })
+
+  it("keeps accepted answers that are still options", () => {
+    const knockout = { ...setKnockout(shift, true), expected_answer: ["Day", "Night"] }
+
+    expect(setOptions(knockout, " Day \n\nWeekend")).toMatchObject({
+      options: ["Day", "Weekend"],
+      expected_answer: ["Day"],
+    })
+  })
+})
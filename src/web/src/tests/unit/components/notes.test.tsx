@@ -0,0 +1,131 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CandidateNotes, { renderNoteBody } from "../../../components/candidates/CandidateNotes";
+import { useCandidateNotes, useNoteHistory } from "../../../lib/hooks/useNotes";
+import { useAuth } from "../../../lib/hooks/useAuth";
+import { NoteVisibility } from "../../../types/notes";
+import type { CandidateNote } from "../../../types/notes";
+
+vi.mock("../../../lib/hooks/useNotes", () => ({
+  useCandidateNotes: vi.fn(),
+  useNoteHistory: vi.fn(),
+}));
+
+vi.mock("../../../lib/hooks/useAuth", () => ({
+  useAuth: vi.fn(),
+}));
+
+// The rich text editor is replaced by a plain textarea reporting its value as HTML
+vi.mock("../../../components/candidates/NoteEditor", () => ({
+  default: ({ content = "", onChange }: { content?: string; onChange: (html: string, isEmpty: boolean) => void }) => (
+    <textarea
+      aria-label="Note"
+      defaultValue={content}
+      onChange={(event) => onChange(`<p>${event.target.value}</p>`, !event.target.value)}
+    />
+  ),
+}));
+
+// Mock data
+const CANDIDATE_ID = "6d7e8f9a-0b1c-4d2e-9f3a-4b5c6d7e8f9a";
+const USER_ID = "7e8f9a0b-1c2d-4e3f-8a4b-5c6d7e8f9a0b";
+
+const mockNote = (overrides: Partial<CandidateNote>): CandidateNote => ({
+  id: "8f9a0b1c-2d3e-4f4a-9b5c-6d7e8f9a0b1c",
+  candidate_id: CANDIDATE_ID,
+  application_id: null,
+  body: "<p>Strong on SQL</p>",
+  body_text: "Strong on SQL",
+  visibility: NoteVisibility.EVERYONE,
+  mentions: [],
+  version: 1,
+  pinned_at: null,
+  pinned_by: null,
+  edited_at: null,
+  author_id: USER_ID,
+  author_name: "Riley Recruiter",
+  created_at: new Date("2024-03-01T10:00:00"),
+  updated_at: new Date("2024-03-01T10:00:00"),
+  ...overrides,
+});
+
+const mockUseCandidateNotes = (overrides: Partial<ReturnType<typeof useCandidateNotes>> = {}) => {
+  const notes = {
+    notes: [
+      mockNote({ id: "9a0b1c2d-3e4f-4a5b-8c6d-7e8f9a0b1c2d", pinned_at: new Date("2024-03-02T10:00:00"), body: "<p>Ask about notice period</p>" }),
+      mockNote({ author_id: "0b1c2d3e-4f5a-4b6c-9d7e-8f9a0b1c2d3e", author_name: "Hana Manager", visibility: NoteVisibility.PRIVATE }),
+    ],
+    total: 2,
+    isLoading: false,
+    error: null,
+    createNote: vi.fn().mockResolvedValue(undefined),
+    updateNote: vi.fn().mockResolvedValue(undefined),
+    pinNote: vi.fn().mockResolvedValue(undefined),
+    isSaving: false,
+    ...overrides,
+  };
+  vi.mocked(useCandidateNotes).mockReturnValue(notes as unknown as ReturnType<typeof useCandidateNotes>);
+  return notes;
+};
+
+describe("CandidateNotes", () => {
+  beforeEach(() => {
+    vi.mocked(useAuth).mockReturnValue({ state: { user: { id: USER_ID } } } as unknown as ReturnType<typeof useAuth>);
+    vi.mocked(useNoteHistory).mockReturnValue({ revisions: [], isLoading: false, error: null } as unknown as ReturnType<typeof useNoteHistory>);
+  });
+
+  it("strips scripts and event handlers from note bodies", () => {
+    const html = renderNoteBody('<p onclick="steal()">Hi <span data-type="mention" data-id="1">@Ana</span><script>steal()</script></p>');
+
+    expect(html).toContain('data-type="mention"');
+    expect(html).not.toContain("onclick");
+    expect(html).not.toContain("script");
+  });
+
+  it("shows pinned notes with their visibility", () => {
+    mockUseCandidateNotes();
+
+    render(<CandidateNotes candidateId={CANDIDATE_ID} />);
+
+    expect(screen.getByText("Pinned")).toBeInTheDocument();
+    expect(screen.getByText("Only me")).toBeInTheDocument();
+    expect(screen.getByText("2 notes")).toBeInTheDocument();
+  });
+
+  it("only lets authors edit their notes", () => {
+    mockUseCandidateNotes();
+
+    render(<CandidateNotes candidateId={CANDIDATE_ID} />);
+
+    expect(screen.getAllByRole("button", { name: "Edit" })).toHaveLength(1);
+    expect(screen.getAllByRole("button", { name: /^(Pin|Unpin)$/ })).toHaveLength(2);
+  });
+
+  it("adds a note with the chosen text", async () => {
+    const notes = mockUseCandidateNotes({ notes: [], total: 0 });
+
+    render(<CandidateNotes candidateId={CANDIDATE_ID} />);
+
+    expect(screen.getByRole("button", { name: "Add note" })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText("Note"), { target: { value: "Call back on Friday" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add note" }));
+
+    await waitFor(() =>
+      expect(notes.createNote).toHaveBeenCalledWith({
+        body: "<p>Call back on Friday</p>",
+        visibility: NoteVisibility.EVERYONE,
+      })
+    );
+  });
+
+  it("unpins a pinned note", () => {
+    const notes = mockUseCandidateNotes();
+
+    render(<CandidateNotes candidateId={CANDIDATE_ID} />);
+    fireEvent.click(screen.getByRole("button", { name: "Unpin" }));
+
+    expect(notes.pinNote).toHaveBeenCalledWith("9a0b1c2d-3e4f-4a5b-8c6d-7e8f9a0b1c2d", false);
+  });
+});
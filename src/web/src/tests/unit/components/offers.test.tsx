@@ -0,0 +1,110 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import OfferFormDialog from "../../../components/offers/OfferFormDialog";
+import { OfferStatus } from "../../../types/offers";
+import type { Offer } from "../../../types/offers";
+
+// Mock data
+const createMockOffer = (overrides: Partial<Offer> = {}): Offer => ({
+  id: "0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d",
+  application_id: "3d4e5f6a-7b8c-4d9e-8f0a-1b2c3d4e5f6a",
+  candidate_id: "1a2b3c4d-5e6f-4a8b-9c0d-1e2f3a4b5c6d",
+  job_id: "9b2c4e6a-1d3f-4b5a-8c7e-0f1a2b3c4d5e",
+  job_title: "Senior Engineer",
+  status: OfferStatus.SENT,
+  version: 2,
+  base_salary: 120000,
+  bonus: 10000,
+  equity: "5,000 options",
+  currency: "USD",
+  start_date: "2024-03-01",
+  expires_at: new Date("2024-02-01T12:00:00.000Z"),
+  notes: null,
+  sent_at: new Date("2024-01-15T00:00:00.000Z"),
+  responded_at: null,
+  response_reason: null,
+  created_by: null,
+  created_at: new Date("2024-01-10T00:00:00.000Z"),
+  updated_at: new Date("2024-01-15T00:00:00.000Z"),
+  ...overrides
+});
+
+describe("OfferFormDialog", () => {
+  it("sends only the changed terms with the revision reason", async () => {
+    const onRevise = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <OfferFormDialog
+        open
+        offer={createMockOffer()}
+        onCreate={vi.fn()}
+        onRevise={onRevise}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("Revise Offer (v2)")).toBeInTheDocument();
+
+    const submit = screen.getByRole("button", { name: "Save Revision" });
+    fireEvent.change(screen.getByLabelText("Base Salary"), { target: { value: "130000" } });
+    expect(submit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Reason for Revision"), {
+      target: { value: "Matched competing offer" }
+    });
+    fireEvent.click(submit);
+
+    await waitFor(() => {
+      expect(onRevise).toHaveBeenCalledWith("0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d", {
+        base_salary: 130000,
+        notes: undefined,
+        change_reason: "Matched competing offer"
+      });
+    });
+  });
+
+  it("clears optional compensation when its field is emptied", async () => {
+    const onRevise = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <OfferFormDialog
+        open
+        offer={createMockOffer()}
+        onCreate={vi.fn()}
+        onRevise={onRevise}
+        onCancel={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText("Bonus"), { target: { value: "" } });
+    fireEvent.change(screen.getByLabelText("Reason for Revision"), {
+      target: { value: "Bonus removed" }
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Save Revision" }));
+
+    await waitFor(() => {
+      expect(onRevise).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ bonus: null, change_reason: "Bonus removed" })
+      );
+    });
+  });
+
+  it("requires an application and terms before saving a new draft", () => {
+    render(
+      <OfferFormDialog
+        open
+        applicationOptions={[{ value: "3d4e5f6a-7b8c-4d9e-8f0a-1b2c3d4e5f6a", label: "Senior Engineer" }]}
+        onCreate={vi.fn()}
+        onRevise={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("New Offer")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Save Draft" })).toBeDisabled();
+    expect(screen.queryByLabelText("Reason for Revision")).not.toBeInTheDocument();
+  });
+});
@@ -7,7 +7,11 @@ import KanbanBoard from "../../components/pipeline/KanbanBoard";
 import KanbanColumn from "../../components/pipeline/KanbanColumn";
 import KanbanCard from "../../components/pipeline/KanbanCard";
 import ListView from "../../components/pipeline/ListView";
+import StageTransitionDialog from "../../components/pipeline/StageTransitionDialog";
 import { ApplicationStatus, CandidateStatus } from "../../types/candidates";
+import { StageCategory, TransitionRequirement } from "../../types/pipelines";
+import { ScreeningQuestionType } from "../../types/screening";
+import { WITHDRAWN_COLUMN_ID } from "../../lib/hooks/useApplications";
 
 // Test utilities
 const renderWithDragDrop = (ui: React.ReactElement) => {
@@ -30,38 +34,96 @@ const createMockDragEvent = (
 });
 
 // Mock data
-const mockCandidates = [
+const createMockStage = (
+  id: string,
+  name: string,
+  position: number,
+  category: StageCategory,
+  application_status: ApplicationStatus | null = null
+) => ({
+  id,
+  template_id: "template-1",
+  name,
+  position,
+  category,
+  application_status,
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+const mockStages = [
+  createMockStage("stage-applied", "Applied", 0, StageCategory.SCREENING, ApplicationStatus.APPLIED),
+  createMockStage("stage-phone", "Phone Screen", 1, StageCategory.SCREENING),
+  createMockStage("stage-onsite", "Onsite", 2, StageCategory.INTERVIEWING),
+  createMockStage("stage-offer", "Offer", 3, StageCategory.OFFER),
+  createMockStage("stage-hired", "Hired", 4, StageCategory.HIRED),
+  createMockStage("stage-rejected", "Not a Fit", 5, StageCategory.REJECTED)
+];
+
+const emptyStages = () => ({
+  ...Object.fromEntries(mockStages.map((stage) => [stage.id, []])),
+  [WITHDRAWN_COLUMN_ID]: []
+});
+
+const mockApplications = [
   {
-    id: "1",
-    full_name: "John Doe",
-    email: "john@example.com",
-    status: CandidateStatus.ACTIVE,
-    experience_level: "Senior",
-    skills: ["React", "TypeScript", "Node.js"],
-    last_active: new Date(),
-    role: "Frontend Developer",
-    avatar_url: "https://example.com/avatar.jpg",
+    id: "a1",
+    job_id: "job-1",
+    candidate_id: "1",
+    status: ApplicationStatus.APPLIED,
+    stage_id: "stage-applied",
+    match_score: 87,
+    resume_version: null,
+    feedback: [],
+    stage_history: [],
+    metadata: {},
+    created_by: null,
+    withdrawn_at: null,
+    withdrawal_reason: null,
     created_at: new Date(),
-    updated_at: new Date()
+    updated_at: new Date(),
+    candidate: {
+      id: "1",
+      full_name: "John Doe",
+      email: "john@example.com",
+      location: "Berlin, Germany",
+      status: CandidateStatus.ACTIVE,
+      experience_level: "Senior",
+      skills: ["React", "TypeScript", "Node.js"]
+    }
   },
   {
-    id: "2",
-    full_name: "Jane Smith",
-    email: "jane@example.com",
-    status: CandidateStatus.PASSIVE,
-    experience_level: "Mid",
-    skills: ["Python", "Django", "PostgreSQL"],
-    last_active: new Date(),
-    role: "Backend Developer",
+    id: "a2",
+    job_id: "job-1",
+    candidate_id: "2",
+    status: ApplicationStatus.SCREENING,
+    stage_id: "stage-phone",
+    match_score: null,
+    resume_version: null,
+    feedback: [],
+    stage_history: [],
+    metadata: {},
+    created_by: null,
+    withdrawn_at: null,
+    withdrawal_reason: null,
     created_at: new Date(),
-    updated_at: new Date()
+    updated_at: new Date(),
+    candidate: {
+      id: "2",
+      full_name: "Jane Smith",
+      email: "jane@example.com",
+      location: "Remote",
+      status: CandidateStatus.PASSIVE,
+      experience_level: "Mid",
+      skills: ["Python", "Django", "PostgreSQL"]
+    }
   }
 ];
 
 // Mock handlers
 const mockHandlers = {
-  onCandidateMove: vi.fn(),
-  onCandidateClick: vi.fn(),
+  onApplicationMove: vi.fn(),
+  onApplicationClick: vi.fn(),
   onStatusChange: vi.fn(),
   onError: vi.fn()
 };
@@ -80,85 +142,108 @@ describe("KanbanBoard", () => {
     vi.clearAllMocks();
   });
 
-  it("renders all columns with correct candidates", () => {
-    const candidatesByStage = {
-      [ApplicationStatus.APPLIED]: [mockCandidates[0]],
-      [ApplicationStatus.SCREENING]: [mockCandidates[1]],
-      [ApplicationStatus.INTERVIEWING]: [],
-      [ApplicationStatus.OFFER_PENDING]: [],
-      [ApplicationStatus.OFFER_ACCEPTED]: [],
-      [ApplicationStatus.OFFER_DECLINED]: [],
-      [ApplicationStatus.REJECTED]: []
+  it("renders the template stages as columns in order", () => {
+    const applicationsByStage = {
+      ...emptyStages(),
+      "stage-applied": [mockApplications[0]],
+      "stage-phone": [mockApplications[1]]
     };
 
     renderWithDragDrop(
       <KanbanBoard
-        candidatesByStage={candidatesByStage}
-        onCandidateMove={mockHandlers.onCandidateMove}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        stages={mockStages}
+        applicationsByStage={applicationsByStage}
+        onApplicationMove={mockHandlers.onApplicationMove}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onError={mockHandlers.onError}
       />
     );
 
-    expect(screen.getByText("Applied")).toBeInTheDocument();
+    const columns = screen.getAllByRole("region").map((column) => column.getAttribute("aria-label"));
+    expect(columns).toEqual([
+      "Applied column",
+      "Phone Screen column",
+      "Onsite column",
+      "Offer column",
+      "Hired column",
+      "Not a Fit column",
+      "Withdrawn column"
+    ]);
+
+    const phoneScreenColumn = screen.getByRole("region", { name: "Phone Screen column" });
+    expect(within(phoneScreenColumn).getByText("Jane Smith")).toBeInTheDocument();
     expect(screen.getByText("John Doe")).toBeInTheDocument();
-    expect(screen.getByText("Jane Smith")).toBeInTheDocument();
+  });
+
+  it("renders rejection stages and withdrawn applications as archive columns", () => {
+    const applicationsByStage = {
+      ...emptyStages(),
+      [WITHDRAWN_COLUMN_ID]: [{ ...mockApplications[1], status: ApplicationStatus.WITHDRAWN }]
+    };
+
+    renderWithDragDrop(
+      <KanbanBoard
+        stages={mockStages}
+        applicationsByStage={applicationsByStage}
+        onApplicationMove={mockHandlers.onApplicationMove}
+        onApplicationClick={mockHandlers.onApplicationClick}
+        onError={mockHandlers.onError}
+      />
+    );
+
+    expect(screen.getByRole("region", { name: "Not a Fit column" })).toHaveClass("opacity-75");
+
+    const withdrawnColumn = screen.getByRole("region", { name: "Withdrawn column" });
+    expect(withdrawnColumn).toHaveClass("opacity-75");
+    expect(within(withdrawnColumn).getByText("Jane Smith")).toBeInTheDocument();
   });
 
   it("handles drag and drop between columns", async () => {
-    const candidatesByStage = {
-      [ApplicationStatus.APPLIED]: [mockCandidates[0]],
-      [ApplicationStatus.SCREENING]: [],
-      [ApplicationStatus.INTERVIEWING]: [],
-      [ApplicationStatus.OFFER_PENDING]: [],
-      [ApplicationStatus.OFFER_ACCEPTED]: [],
-      [ApplicationStatus.OFFER_DECLINED]: [],
-      [ApplicationStatus.REJECTED]: []
+    const applicationsByStage = {
+      ...emptyStages(),
+      "stage-applied": [mockApplications[0]]
     };
 
     const { container } = renderWithDragDrop(
       <KanbanBoard
-        candidatesByStage={candidatesByStage}
-        onCandidateMove={mockHandlers.onCandidateMove}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        stages={mockStages}
+        applicationsByStage={applicationsByStage}
+        onApplicationMove={mockHandlers.onApplicationMove}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onError={mockHandlers.onError}
       />
     );
 
     const dragEvent = createMockDragEvent(
-      ApplicationStatus.APPLIED,
-      ApplicationStatus.SCREENING,
-      mockCandidates[0].id
+      "stage-applied",
+      "stage-phone",
+      mockApplications[0].id
     );
 
     // Simulate drag end
     fireEvent(container, new CustomEvent("dragend", { detail: dragEvent }));
 
     await waitFor(() => {
-      expect(mockHandlers.onCandidateMove).toHaveBeenCalledWith(
-        mockCandidates[0].id,
-        ApplicationStatus.APPLIED,
-        ApplicationStatus.SCREENING
+      expect(mockHandlers.onApplicationMove).toHaveBeenCalledWith(
+        mockApplications[0].id,
+        "stage-applied",
+        "stage-phone"
       );
     });
   });
 
   it("announces drag operations for screen readers", () => {
-    const candidatesByStage = {
-      [ApplicationStatus.APPLIED]: [mockCandidates[0]],
-      [ApplicationStatus.SCREENING]: [],
-      [ApplicationStatus.INTERVIEWING]: [],
-      [ApplicationStatus.OFFER_PENDING]: [],
-      [ApplicationStatus.OFFER_ACCEPTED]: [],
-      [ApplicationStatus.OFFER_DECLINED]: [],
-      [ApplicationStatus.REJECTED]: []
+    const applicationsByStage = {
+      ...emptyStages(),
+      "stage-applied": [mockApplications[0]]
     };
 
     renderWithDragDrop(
       <KanbanBoard
-        candidatesByStage={candidatesByStage}
-        onCandidateMove={mockHandlers.onCandidateMove}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        stages={mockStages}
+        applicationsByStage={applicationsByStage}
+        onApplicationMove={mockHandlers.onApplicationMove}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onError={mockHandlers.onError}
       />
     );
@@ -169,11 +254,11 @@ describe("KanbanBoard", () => {
 });
 
 describe("ListView", () => {
-  it("renders candidates in a sortable table", () => {
+  it("renders applications in a sortable table", () => {
     render(
       <ListView
-        candidates={mockCandidates}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        applications={mockApplications}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onStatusChange={mockHandlers.onStatusChange}
         isLoading={false}
         sortConfig={{ column: "full_name", direction: "asc" }}
@@ -185,11 +270,28 @@ describe("ListView", () => {
     expect(screen.getByText("Jane Smith")).toBeInTheDocument();
   });
 
+  it("shows the pipeline stage name of each application", () => {
+    render(
+      <ListView
+        applications={mockApplications}
+        stages={mockStages}
+        onApplicationClick={mockHandlers.onApplicationClick}
+        onStatusChange={mockHandlers.onStatusChange}
+        isLoading={false}
+        sortConfig={{ column: "full_name", direction: "asc" }}
+        onSort={vi.fn()}
+      />
+    );
+
+    const row = screen.getByText("Jane Smith").closest("tr");
+    expect(within(row!).getByText("Phone Screen")).toBeInTheDocument();
+  });
+
   it("handles row click events", async () => {
     render(
       <ListView
-        candidates={mockCandidates}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        applications={mockApplications}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onStatusChange={mockHandlers.onStatusChange}
         isLoading={false}
         sortConfig={{ column: "full_name", direction: "asc" }}
@@ -200,14 +302,14 @@ describe("ListView", () => {
     const row = screen.getByText("John Doe").closest("tr");
     fireEvent.click(row!);
 
-    expect(mockHandlers.onCandidateClick).toHaveBeenCalledWith(mockCandidates[0]);
+    expect(mockHandlers.onApplicationClick).toHaveBeenCalledWith(mockApplications[0]);
   });
 
   it("supports keyboard navigation", () => {
     render(
       <ListView
-        candidates={mockCandidates}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        applications={mockApplications}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onStatusChange={mockHandlers.onStatusChange}
         isLoading={false}
         sortConfig={{ column: "full_name", direction: "asc" }}
@@ -218,14 +320,14 @@ describe("ListView", () => {
     const row = screen.getByText("John Doe").closest("tr");
     fireEvent.keyDown(row!, { key: "Enter" });
 
-    expect(mockHandlers.onCandidateClick).toHaveBeenCalledWith(mockCandidates[0]);
+    expect(mockHandlers.onApplicationClick).toHaveBeenCalledWith(mockApplications[0]);
   });
 
   it("displays loading state correctly", () => {
     render(
       <ListView
-        candidates={mockCandidates}
-        onCandidateClick={mockHandlers.onCandidateClick}
+        applications={mockApplications}
+        onApplicationClick={mockHandlers.onApplicationClick}
         onStatusChange={mockHandlers.onStatusChange}
         isLoading={true}
         sortConfig={{ column: "full_name", direction: "asc" }}
@@ -238,37 +340,38 @@ describe("ListView", () => {
 });
 
 describe("KanbanCard", () => {
-  it("renders candidate information correctly", () => {
+  it("renders application candidate information correctly", () => {
     const draggableProps = {
-      draggableId: mockCandidates[0].id,
+      draggableId: mockApplications[0].id,
       index: 0
     };
 
     render(
       <KanbanCard
-        candidate={mockCandidates[0]}
+        application={mockApplications[0]}
         draggableProps={draggableProps}
-        onClick={mockHandlers.onCandidateClick}
+        onClick={mockHandlers.onApplicationClick}
         isDragging={false}
       />
     );
 
     expect(screen.getByText("John Doe")).toBeInTheDocument();
-    expect(screen.getByText("Frontend Developer")).toBeInTheDocument();
+    expect(screen.getByText("Berlin, Germany")).toBeInTheDocument();
     expect(screen.getByText("React")).toBeInTheDocument();
+    expect(screen.getByText("87%")).toBeInTheDocument();
   });
 
   it("applies correct styles when dragging", () => {
     const draggableProps = {
-      draggableId: mockCandidates[0].id,
+      draggableId: mockApplications[0].id,
       index: 0
     };
 
     render(
       <KanbanCard
-        candidate={mockCandidates[0]}
+        application={mockApplications[0]}
         draggableProps={draggableProps}
-        onClick={mockHandlers.onCandidateClick}
+        onClick={mockHandlers.onApplicationClick}
         isDragging={true}
       />
     );
@@ -276,4 +379,104 @@ describe("KanbanCard", () => {
     const card = screen.getByRole("button");
     expect(card).toHaveClass("shadow-lg");
   });
-});
\ No newline at end of file
+
+  it("shows screening answers and flags failed knockouts", () => {
+    const draggableProps = {
+      draggableId: mockApplications[0].id,
+      index: 0
+    };
+    const application = {
+      ...mockApplications[0],
+      screening_answers: [
+        {
+          question_id: "q1",
+          prompt: "Authorized to work in the US?",
+          type: ScreeningQuestionType.YES_NO,
+          value: false,
+          is_knockout: true,
+          knockout_passed: false
+        },
+        {
+          question_id: "q2",
+          prompt: "Years of experience",
+          type: ScreeningQuestionType.NUMERIC,
+          value: 6,
+          is_knockout: false,
+          knockout_passed: null
+        }
+      ]
+    };
+
+    render(
+      <KanbanCard
+        application={application}
+        draggableProps={draggableProps}
+        onClick={mockHandlers.onApplicationClick}
+        isDragging={false}
+      />
+    );
+
+    expect(screen.getByText("Failed knockout")).toHaveAttribute("title", "Failed: Authorized to work in the US?");
+    expect(screen.getByText("No")).toBeInTheDocument();
+    expect(screen.getByText("6")).toBeInTheDocument();
+  });
+});
+
+describe("StageTransitionDialog", () => {
+  const requirements = (overrides = {}) => ({
+    fromStageId: null,
+    toStageId: "00000000-0000-4000-8000-000000000006",
+    missingFields: [TransitionRequirement.REASON],
+    unmetConditions: [],
+    ...overrides
+  });
+
+  it("requires the missing reason before submitting", async () => {
+    const onSubmit = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <StageTransitionDialog
+        open
+        stageName="Not a Fit"
+        candidateName="John Doe"
+        requirements={requirements()}
+        onSubmit={onSubmit}
+        onCancel={vi.fn()}
+      />
+    );
+
+    const submit = screen.getByRole("button", { name: "Move Candidate" });
+    expect(submit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Reason"), { target: { value: "Skills mismatch" } });
+    expect(submit).toBeEnabled();
+
+    fireEvent.click(submit);
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ reason: "Skills mismatch" });
+    });
+  });
+
+  it("explains unmet conditions without offering to move", () => {
+    const onCancel = vi.fn();
+
+    render(
+      <StageTransitionDialog
+        open
+        stageName="Offer"
+        requirements={requirements({
+          missingFields: [],
+          unmetConditions: [TransitionRequirement.INTERVIEW_FEEDBACK]
+        })}
+        onSubmit={vi.fn()}
+        onCancel={onCancel}
+      />
+    );
+
+    expect(screen.getByText(/completed interview with submitted feedback/i)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Move Candidate" })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Close" }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
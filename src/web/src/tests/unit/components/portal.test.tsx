@@ -0,0 +1,203 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import PortalApplications from "../../../components/portal/PortalApplications";
+import PortalInterviews from "../../../components/portal/PortalInterviews";
+import PortalTasks from "../../../components/portal/PortalTasks";
+import { usePortalApplications, usePortalInterviews, usePortalTasks } from "../../../lib/hooks/usePortal";
+import { ApplicationStatus } from "../../../types/candidates";
+import { StageCategory } from "../../../types/pipelines";
+import { ScreeningQuestionType } from "../../../types/screening";
+import {
+  PortalTaskType,
+  type PortalApplication,
+  type PortalInterview,
+  type PortalTask,
+} from "../../../types/portal";
+
+vi.mock("../../../lib/hooks/usePortal", () => ({
+  usePortalApplications: vi.fn(),
+  usePortalInterviews: vi.fn(),
+  usePortalTasks: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+// Mock data
+const APPLICATION: PortalApplication = {
+  id: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+  job_id: "2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a",
+  job_title: "Backend Engineer",
+  status: ApplicationStatus.INTERVIEWING,
+  stage_label: "Meet the team",
+  stage_category: StageCategory.INTERVIEWING,
+  applied_at: new Date("2024-01-10T10:00:00"),
+  updated_at: new Date("2024-01-12T10:00:00"),
+};
+
+const INTERVIEW: PortalInterview = {
+  id: "3e4f5a6b-7c8d-4e9f-8a0b-2c3d4e5f6a7b",
+  job_id: APPLICATION.job_id,
+  job_title: "Backend Engineer",
+  type: "TECHNICAL",
+  mode: "VIDEO",
+  status: "SCHEDULED",
+  scheduled_at: new Date("2099-01-15T14:00:00"),
+  duration_minutes: 60,
+  meeting_link: "https://meet.example.com/abc",
+  location: null,
+  candidate_confirmed: false,
+  candidate_confirmed_at: null,
+  reschedule_requested_at: null,
+  reschedule_reason: null,
+  submitted_at: null,
+};
+
+const QUESTION_ID = "4f5a6b7c-8d9e-4f0a-9b1c-3d4e5f6a7b8c";
+const TAKE_HOME_ID = "5a6b7c8d-9e0f-4a1b-8c2d-4e5f6a7b8c9d";
+
+const TASKS: PortalTask[] = [
+  {
+    type: PortalTaskType.SCREENING_QUESTIONS,
+    application_id: APPLICATION.id,
+    job_title: "Backend Engineer",
+    questions: [
+      { id: QUESTION_ID, type: ScreeningQuestionType.YES_NO, prompt: "Can you work on site?", options: [], required: true },
+    ],
+  },
+  {
+    type: PortalTaskType.TAKE_HOME,
+    interview_id: TAKE_HOME_ID,
+    job_title: "Backend Engineer",
+    due_at: new Date("2099-01-20T17:00:00"),
+    assignment_url: "https://example.com/assignment",
+  },
+];
+
+const mockUsePortalInterviews = (overrides: Partial<ReturnType<typeof usePortalInterviews>> = {}) => {
+  const interviews = {
+    interviews: [INTERVIEW],
+    isLoading: false,
+    error: null,
+    respondToInterview: vi.fn().mockResolvedValue(INTERVIEW),
+    isResponding: false,
+    ...overrides,
+  };
+  vi.mocked(usePortalInterviews).mockReturnValue(interviews as unknown as ReturnType<typeof usePortalInterviews>);
+  return interviews;
+};
+
+const mockUsePortalTasks = () => {
+  const tasks = {
+    tasks: TASKS,
+    isLoading: false,
+    error: null,
+    answerScreening: vi.fn().mockResolvedValue(1),
+    submitTakeHome: vi.fn().mockResolvedValue({}),
+    isSubmitting: false,
+  };
+  vi.mocked(usePortalTasks).mockReturnValue(tasks as unknown as ReturnType<typeof usePortalTasks>);
+  return tasks;
+};
+
+describe("PortalApplications", () => {
+  it("shows the stage label recruiters chose for each application", () => {
+    vi.mocked(usePortalApplications).mockReturnValue({
+      applications: [APPLICATION],
+      isLoading: false,
+      error: null,
+    } as unknown as ReturnType<typeof usePortalApplications>);
+    render(<PortalApplications />);
+
+    expect(screen.getByText("Backend Engineer")).toBeInTheDocument();
+    expect(screen.getByRole("status")).toHaveTextContent("Meet the team");
+  });
+});
+
+describe("PortalInterviews", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("confirms an upcoming interview", async () => {
+    const { respondToInterview } = mockUsePortalInterviews();
+    render(<PortalInterviews />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Confirm" }));
+
+    await waitFor(() => expect(respondToInterview).toHaveBeenCalledWith(INTERVIEW.id, { action: "confirm" }));
+  });
+
+  it("asks to reschedule with a reason and preferred times", async () => {
+    const { respondToInterview } = mockUsePortalInterviews();
+    render(<PortalInterviews />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Request reschedule" }));
+    fireEvent.change(screen.getByLabelText("Reason"), { target: { value: "Travelling that week" } });
+    fireEvent.change(screen.getByLabelText("Preferred time 1"), { target: { value: "2099-01-22T10:00" } });
+    fireEvent.click(screen.getByRole("button", { name: "Send request" }));
+
+    await waitFor(() =>
+      expect(respondToInterview).toHaveBeenCalledWith(INTERVIEW.id, {
+        action: "reschedule",
+        reason: "Travelling that week",
+        preferred_times: [new Date("2099-01-22T10:00")],
+      })
+    );
+  });
+
+  it("does not offer responses once an interview has taken place", () => {
+    mockUsePortalInterviews({
+      interviews: [{ ...INTERVIEW, scheduled_at: new Date("2020-01-15T14:00:00") }],
+    });
+    render(<PortalInterviews />);
+
+    expect(screen.queryByRole("button", { name: "Confirm" })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Request reschedule" })).not.toBeInTheDocument();
+  });
+});
+
+describe("PortalTasks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("sends answers to open screening questions", async () => {
+    const { answerScreening } = mockUsePortalTasks();
+    render(<PortalTasks />);
+
+    fireEvent.click(screen.getByLabelText("Yes"));
+    fireEvent.click(screen.getByRole("button", { name: "Send answers" }));
+
+    await waitFor(() =>
+      expect(answerScreening).toHaveBeenCalledWith(APPLICATION.id, {
+        answers: [{ question_id: QUESTION_ID, value: true }],
+        answer_files: {},
+      })
+    );
+  });
+
+  it("requires a file or a link before a take-home assignment is submitted", async () => {
+    const { submitTakeHome } = mockUsePortalTasks();
+    render(<PortalTasks />);
+
+    const submit = screen.getByRole("button", { name: "Submit assignment" });
+    expect(submit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Link to your work"), {
+      target: { value: "https://github.com/jane/assignment" },
+    });
+    fireEvent.click(submit);
+
+    await waitFor(() =>
+      expect(submitTakeHome).toHaveBeenCalledWith(TAKE_HOME_ID, {
+        link_url: "https://github.com/jane/assignment",
+        notes: undefined,
+        file: undefined,
+      })
+    );
+  });
+});
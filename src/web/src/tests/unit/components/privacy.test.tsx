@@ -0,0 +1,149 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import PrivacyRequestManager from "../../../components/candidates/PrivacyRequestManager";
+import { saveFile } from "../../../components/candidates/CandidateImportWizard";
+import { usePrivacyRequests } from "../../../lib/hooks/usePrivacyRequests";
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  PrivacyRegulation,
+  type DataSubjectRequestSummary,
+} from "../../../types/privacy";
+
+vi.mock("../../../lib/hooks/usePrivacyRequests", () => ({
+  usePrivacyRequests: vi.fn(),
+}));
+
+vi.mock("../../../components/candidates/CandidateImportWizard", () => ({
+  saveFile: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+// Mock data
+const CANDIDATE_ID = "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+
+const mockRequest = (overrides: Partial<DataSubjectRequestSummary>): DataSubjectRequestSummary => ({
+  id: "3e4f5a6b-7c8d-4e9f-8a0b-2c3d4e5f6a7b",
+  type: DataSubjectRequestType.ACCESS,
+  regulation: PrivacyRegulation.GDPR,
+  status: DataSubjectRequestStatus.OPEN,
+  candidate_id: CANDIDATE_ID,
+  subject_email: "jane@example.com",
+  received_at: new Date("2024-03-01T10:00:00"),
+  due_at: new Date("2024-03-31T10:00:00"),
+  notes: null,
+  rejection_reason: null,
+  evidence: null,
+  completed_at: null,
+  completed_by: null,
+  created_by: "4f5a6b7c-8d9e-4f0a-9b1c-3d4e5f6a7b8c",
+  created_at: new Date("2024-03-01T10:00:00"),
+  updated_at: new Date("2024-03-01T10:00:00"),
+  candidate_name: "Jane Doe",
+  overdue: false,
+  ...overrides,
+});
+
+const ACCESS = mockRequest({});
+const ERASURE = mockRequest({
+  id: "5a6b7c8d-9e0f-4a1b-8c2d-4e5f6a7b8c9d",
+  type: DataSubjectRequestType.ERASURE,
+  regulation: PrivacyRegulation.CCPA,
+  candidate_name: "John Roe",
+  overdue: true,
+});
+
+const mockUsePrivacyRequests = (overrides: Partial<ReturnType<typeof usePrivacyRequests>> = {}) => {
+  const requests = {
+    requests: [ACCESS, ERASURE],
+    total: 2,
+    totalPages: 1,
+    isLoading: false,
+    error: null,
+    createRequest: vi.fn().mockResolvedValue(ACCESS),
+    updateRequest: vi.fn().mockResolvedValue(ACCESS),
+    rejectRequest: vi.fn().mockResolvedValue(ACCESS),
+    exportRequest: vi.fn().mockResolvedValue(new Blob(["zip"])),
+    eraseRequest: vi.fn().mockResolvedValue(ERASURE),
+    isSaving: false,
+    ...overrides,
+  };
+  vi.mocked(usePrivacyRequests).mockReturnValue(requests as unknown as ReturnType<typeof usePrivacyRequests>);
+  return requests;
+};
+
+describe("PrivacyRequestManager", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("flags requests past their deadline", () => {
+    mockUsePrivacyRequests();
+
+    render(<PrivacyRequestManager />);
+
+    expect(screen.getByText("Jane Doe")).toBeInTheDocument();
+    expect(screen.getAllByText("Overdue")).toHaveLength(1);
+  });
+
+  it("logs a request from the email it came from", async () => {
+    const requests = mockUsePrivacyRequests();
+
+    render(<PrivacyRequestManager />);
+    fireEvent.change(screen.getByLabelText("Requester email"), { target: { value: " jane@example.com " } });
+    fireEvent.click(screen.getByRole("button", { name: "Log request" }));
+
+    await waitFor(() =>
+      expect(requests.createRequest).toHaveBeenCalledWith({
+        type: DataSubjectRequestType.ACCESS,
+        regulation: PrivacyRegulation.GDPR,
+        subject_email: "jane@example.com",
+        candidate_id: undefined,
+        received_at: undefined,
+        notes: undefined,
+      })
+    );
+  });
+
+  it("downloads the personal data of an access request", async () => {
+    const requests = mockUsePrivacyRequests();
+
+    render(<PrivacyRequestManager />);
+    fireEvent.click(screen.getByRole("button", { name: "Export data of Jane Doe" }));
+
+    await waitFor(() => expect(saveFile).toHaveBeenCalledWith(expect.any(Blob), `personal-data-${ACCESS.id}.zip`));
+    expect(requests.exportRequest).toHaveBeenCalledWith(ACCESS.id);
+  });
+
+  it("asks for confirmation before erasing", async () => {
+    const requests = mockUsePrivacyRequests();
+
+    render(<PrivacyRequestManager />);
+    fireEvent.click(screen.getByRole("button", { name: "Erase data of John Roe" }));
+    expect(requests.eraseRequest).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole("button", { name: "Erase" }));
+
+    await waitFor(() => expect(requests.eraseRequest).toHaveBeenCalledWith(ERASURE.id));
+  });
+
+  it("summarizes what answered requests did", () => {
+    mockUsePrivacyRequests({
+      requests: [
+        mockRequest({
+          status: DataSubjectRequestStatus.COMPLETED,
+          completed_at: new Date("2024-03-05T10:00:00"),
+          evidence: { candidate_ids: [CANDIDATE_ID], records: { profiles: 1, applications: 2 }, files: 1 },
+        }),
+      ],
+    });
+
+    render(<PrivacyRequestManager />);
+
+    expect(screen.getByText("Exported 3 records and 1 file")).toBeInTheDocument();
+  });
+});
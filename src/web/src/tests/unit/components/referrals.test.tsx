@@ -0,0 +1,115 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import ReferralActions from "../../../components/referrals/ReferralActions";
+import ReferralList from "../../../components/referrals/ReferralList";
+import { useReferrals } from "../../../lib/hooks/useReferrals";
+import { ReferralOrigin, ReferralProgress } from "../../../types/referrals";
+import type { ReferralSummary } from "../../../types/referrals";
+
+vi.mock("../../../lib/hooks/useReferrals", () => ({
+  useReferrals: vi.fn(),
+  useReferralBonusReport: vi.fn(),
+}));
+
+// Mock data
+const JOB_ID = "3f4a5b6c-7d8e-4f9a-8b0c-1d2e3f4a5b6c";
+const REFERRAL_URL = `https://app.example.com/careers/${JOB_ID}?ref=abcDEF123_-xyz789`;
+
+const mockReferrals: ReferralSummary[] = [
+  {
+    id: "7a8b9c0d-1e2f-4a3b-9c4d-5e6f7a8b9c0d",
+    job_id: JOB_ID,
+    job_title: "Senior Engineer",
+    candidate_name: "Jane Doe",
+    origin: ReferralOrigin.SUBMISSION,
+    progress: ReferralProgress.INTERVIEWING,
+    created_at: new Date("2024-01-15T00:00:00.000Z"),
+    hired_at: null,
+  },
+  {
+    id: "9c0d1e2f-3a4b-4c5d-8e6f-7a8b9c0d1e2f",
+    job_id: JOB_ID,
+    job_title: "Senior Engineer",
+    candidate_name: "S. L.",
+    origin: ReferralOrigin.LINK,
+    progress: ReferralProgress.CLOSED,
+    created_at: new Date("2024-01-10T00:00:00.000Z"),
+    hired_at: null,
+  },
+];
+
+const mockUseReferrals = () => {
+  const referrals = {
+    referrals: mockReferrals,
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    submitReferral: vi.fn().mockResolvedValue({}),
+    getReferralLink: vi.fn().mockResolvedValue({ url: REFERRAL_URL }),
+    isSubmitting: false,
+    isGettingLink: false,
+  };
+  vi.mocked(useReferrals).mockReturnValue(referrals as ReturnType<typeof useReferrals>);
+  return referrals;
+};
+
+describe("ReferralList", () => {
+  it("shows coarse progress without pipeline details", () => {
+    render(<ReferralList referrals={mockReferrals} />);
+
+    expect(screen.getByText("Jane Doe")).toBeInTheDocument();
+    expect(screen.getByText("Interviewing")).toBeInTheDocument();
+    expect(screen.getByText("No longer in process")).toBeInTheDocument();
+  });
+
+  it("marks referrals that came through the referral link", () => {
+    render(<ReferralList referrals={mockReferrals} />);
+
+    expect(screen.getByText("S. L.")).toBeInTheDocument();
+    expect(screen.getByText(/Applied via your link/)).toBeInTheDocument();
+  });
+});
+
+describe("ReferralActions", () => {
+  it("submits a referral for the job, leaving out blank optional fields", async () => {
+    const referrals = mockUseReferrals();
+
+    render(<ReferralActions jobId={JOB_ID} jobTitle="Senior Engineer" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Refer Someone" }));
+    fireEvent.change(screen.getByLabelText("Full name"), { target: { value: "Jane Doe" } });
+    fireEvent.change(screen.getByLabelText("Email"), { target: { value: "jane@example.com" } });
+    fireEvent.change(screen.getByLabelText("Location"), { target: { value: "Austin, TX" } });
+    fireEvent.click(screen.getByRole("button", { name: "Submit Referral" }));
+
+    await waitFor(() => {
+      expect(referrals.submitReferral).toHaveBeenCalledWith({
+        job_id: JOB_ID,
+        full_name: "Jane Doe",
+        email: "jane@example.com",
+        location: "Austin, TX",
+        phone: undefined,
+        relationship: undefined,
+        note: undefined,
+      });
+    });
+  });
+
+  it("copies the personal referral link", async () => {
+    const referrals = mockUseReferrals();
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+
+    render(<ReferralActions jobId={JOB_ID} jobTitle="Senior Engineer" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Copy Referral Link" }));
+
+    await waitFor(() => {
+      expect(writeText).toHaveBeenCalledWith(REFERRAL_URL);
+    });
+    expect(referrals.getReferralLink).toHaveBeenCalledWith(JOB_ID);
+    expect(screen.getByText(REFERRAL_URL)).toBeInTheDocument();
+  });
+});
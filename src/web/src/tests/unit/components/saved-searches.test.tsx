@@ -0,0 +1,151 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi, beforeEach } from "vitest"; // ^0.34.0
+
+import SavedSearchMenu from "../../../components/common/SavedSearchMenu";
+import { useSavedSearches } from "../../../lib/hooks/useSavedSearches";
+import { useAuth } from "../../../lib/hooks/useAuth";
+import { toCandidateSearchParams } from "../../../lib/api/saved-searches";
+import { UserRole } from "../../../types/auth";
+import { CandidateStatus } from "../../../types/candidates";
+import {
+  DigestChannel,
+  DigestFrequency,
+  SavedSearch,
+  SavedSearchEntity,
+} from "../../../types/saved-searches";
+
+vi.mock("../../../lib/hooks/useSavedSearches", () => ({
+  useSavedSearches: vi.fn(),
+}));
+
+vi.mock("../../../lib/hooks/useAuth", () => ({
+  useAuth: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+// Mock data
+const USER_ID = "6a7b8c9d-0e1f-4a2b-8c3d-4e5f6a7b8c9d";
+const COLLEAGUE_ID = "7b8c9d0e-1f2a-4b3c-9d4e-5f6a7b8c9d0e";
+
+const mockSearch = (overrides: Partial<SavedSearch>): SavedSearch => ({
+  id: "8c9d0e1f-2a3b-4c4d-8e5f-6a7b8c9d0e1f",
+  name: "Java in Berlin",
+  entity_type: SavedSearchEntity.CANDIDATE,
+  filters: { query: "java", location: "Berlin", status: [CandidateStatus.ACTIVE] },
+  is_shared: false,
+  owner_id: USER_ID,
+  owner_name: "Sam Sourcer",
+  subscription: null,
+  created_at: new Date("2024-03-01T10:00:00"),
+  updated_at: new Date("2024-03-01T10:00:00"),
+  ...overrides,
+});
+
+const MINE = mockSearch({});
+const SHARED = mockSearch({
+  id: "9d0e1f2a-3b4c-4d5e-9f6a-7b8c9d0e1f2a",
+  name: "Senior designers",
+  filters: { experienceLevel: ["SENIOR"] },
+  is_shared: true,
+  owner_id: COLLEAGUE_ID,
+  owner_name: "Alex Recruiter",
+  subscription: { frequency: DigestFrequency.DAILY, channel: DigestChannel.EMAIL, last_digest_at: null },
+});
+
+const mockUseSavedSearches = (overrides: Partial<ReturnType<typeof useSavedSearches>> = {}) => {
+  const savedSearches = {
+    savedSearches: [MINE, SHARED],
+    isLoading: false,
+    error: null,
+    createSavedSearch: vi.fn().mockResolvedValue(MINE),
+    updateSavedSearch: vi.fn().mockResolvedValue(MINE),
+    deleteSavedSearch: vi.fn().mockResolvedValue(undefined),
+    subscribe: vi.fn().mockResolvedValue(undefined),
+    unsubscribe: vi.fn().mockResolvedValue(undefined),
+    isSaving: false,
+    ...overrides,
+  };
+  vi.mocked(useSavedSearches).mockReturnValue(savedSearches as unknown as ReturnType<typeof useSavedSearches>);
+  return savedSearches;
+};
+
+describe("SavedSearchMenu", () => {
+  beforeEach(() => {
+    vi.mocked(useAuth).mockReturnValue({
+      state: { user: { id: USER_ID, role: UserRole.RECRUITER } },
+    } as ReturnType<typeof useAuth>);
+  });
+
+  it("saves the current filters under a name", async () => {
+    const savedSearches = mockUseSavedSearches();
+    const filters = { skills: ["kotlin"], location: "Remote" };
+
+    render(<SavedSearchMenu entityType={SavedSearchEntity.CANDIDATE} currentFilters={filters} onApply={vi.fn()} />);
+    fireEvent.change(screen.getByLabelText("Search name"), { target: { value: " Kotlin remote " } });
+    fireEvent.click(screen.getByLabelText("Share with the team"));
+    fireEvent.click(screen.getByRole("button", { name: "Save search" }));
+
+    await waitFor(() =>
+      expect(savedSearches.createSavedSearch).toHaveBeenCalledWith({
+        name: "Kotlin remote",
+        entity_type: SavedSearchEntity.CANDIDATE,
+        filters,
+        is_shared: true,
+      })
+    );
+  });
+
+  it("applies the search linked from a digest once searches load", () => {
+    mockUseSavedSearches();
+    const onApply = vi.fn();
+
+    render(
+      <SavedSearchMenu
+        entityType={SavedSearchEntity.CANDIDATE}
+        currentFilters={{}}
+        onApply={onApply}
+        initialSearchId={SHARED.id}
+      />
+    );
+
+    expect(onApply).toHaveBeenCalledTimes(1);
+    expect(onApply).toHaveBeenCalledWith(SHARED);
+  });
+
+  it("only lets owners share and delete their searches", () => {
+    mockUseSavedSearches();
+
+    render(<SavedSearchMenu entityType={SavedSearchEntity.CANDIDATE} currentFilters={{}} onApply={vi.fn()} />);
+
+    expect(screen.getByText("Shared by Alex Recruiter")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: 'Delete "Java in Berlin"' })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: 'Delete "Senior designers"' })).not.toBeInTheDocument();
+    expect(screen.getAllByRole("button", { name: "Share" })).toHaveLength(1);
+  });
+
+  it("shares a private search with the team", async () => {
+    const savedSearches = mockUseSavedSearches();
+
+    render(<SavedSearchMenu entityType={SavedSearchEntity.CANDIDATE} currentFilters={{}} onApply={vi.fn()} />);
+    fireEvent.click(screen.getByRole("button", { name: "Share" }));
+
+    await waitFor(() => expect(savedSearches.updateSavedSearch).toHaveBeenCalledWith(MINE.id, { is_shared: true }));
+  });
+
+  it("restores the candidate search a saved search was made from", () => {
+    expect(toCandidateSearchParams({ experienceLevel: ["SENIOR"], salaryRange: { min: 50000, max: 90000 } })).toEqual({
+      query: "",
+      status: [],
+      skills: [],
+      experience_level: "SENIOR",
+      location: "",
+      salary_min: 50000,
+      salary_max: 90000,
+      tags: [],
+    });
+  });
+});
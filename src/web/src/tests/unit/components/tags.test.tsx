@@ -0,0 +1,135 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CandidateTagActions from "../../../components/candidates/CandidateTagActions";
+import TagManager from "../../../components/candidates/TagManager";
+import { useTags } from "../../../lib/hooks/useTags";
+import type { TagWithUsage } from "../../../types/tags";
+
+vi.mock("../../../lib/hooks/useTags", () => ({
+  useTags: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+// Mock data
+const CANDIDATE_IDS = ["1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f", "2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a"];
+
+const mockTag = (overrides: Partial<TagWithUsage>): TagWithUsage => ({
+  id: "3e4f5a6b-7c8d-4e9f-8a0b-2c3d4e5f6a7b",
+  name: "Referred",
+  color: "#6b7280",
+  category: null,
+  is_curated: false,
+  created_by: null,
+  candidate_count: 4,
+  created_at: new Date("2024-03-01T10:00:00"),
+  updated_at: new Date("2024-03-01T10:00:00"),
+  ...overrides,
+});
+
+const JAVA = mockTag({ id: "4f5a6b7c-8d9e-4f0a-9b1c-3d4e5f6a7b8c", name: "Java", color: "#1d4ed8", category: "Skills", is_curated: true });
+const REFERRED = mockTag({});
+
+const mockUseTags = (overrides: Partial<ReturnType<typeof useTags>> = {}) => {
+  const tags = {
+    tags: [JAVA, REFERRED],
+    isLoading: false,
+    error: null,
+    createTag: vi.fn().mockResolvedValue(JAVA),
+    updateTag: vi.fn().mockResolvedValue(JAVA),
+    mergeTags: vi.fn().mockResolvedValue({ tag: JAVA, candidates_moved: 2 }),
+    deleteTag: vi.fn().mockResolvedValue({ candidate_count: 4 }),
+    bulkTag: vi.fn().mockResolvedValue({ added: 2, removed: 0, tags: [] }),
+    isSaving: false,
+    ...overrides,
+  };
+  vi.mocked(useTags).mockReturnValue(tags as unknown as ReturnType<typeof useTags>);
+  return tags;
+};
+
+describe("CandidateTagActions", () => {
+  it("tags the selected candidates with an existing tag whatever its case", async () => {
+    const tags = mockUseTags();
+    const onDone = vi.fn();
+
+    render(<CandidateTagActions candidateIds={CANDIDATE_IDS} onDone={onDone} />);
+    fireEvent.change(screen.getByLabelText("Tag to add"), { target: { value: "java" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add tag" }));
+
+    await waitFor(() =>
+      expect(tags.bulkTag).toHaveBeenCalledWith({ candidate_ids: CANDIDATE_IDS, add_tag_ids: [JAVA.id] })
+    );
+    expect(onDone).toHaveBeenCalled();
+  });
+
+  it("adds new tag names as free-form tags", async () => {
+    const tags = mockUseTags();
+
+    render(<CandidateTagActions candidateIds={CANDIDATE_IDS} />);
+    expect(screen.getByText("2 selected")).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText("Tag to add"), { target: { value: " Silver medallist " } });
+    fireEvent.click(screen.getByRole("button", { name: "Add tag" }));
+
+    await waitFor(() =>
+      expect(tags.bulkTag).toHaveBeenCalledWith({ candidate_ids: CANDIDATE_IDS, add_tag_names: ["Silver medallist"] })
+    );
+  });
+});
+
+describe("TagManager", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists tags with how many candidates carry them", () => {
+    mockUseTags();
+
+    render(<TagManager />);
+
+    expect(screen.getByText("Java")).toBeInTheDocument();
+    expect(screen.getByText("Skills")).toBeInTheDocument();
+    expect(screen.getAllByText("4")).toHaveLength(2);
+  });
+
+  it("adds curated tags", async () => {
+    const tags = mockUseTags();
+
+    render(<TagManager />);
+    const form = screen.getByRole("form", { name: "New tag" });
+    fireEvent.change(form.querySelector('[aria-label="Tag name"]')!, { target: { value: "Python" } });
+    fireEvent.change(form.querySelector('[aria-label="Tag category"]')!, { target: { value: "Skills" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add tag" }));
+
+    await waitFor(() =>
+      expect(tags.createTag).toHaveBeenCalledWith({
+        name: "Python",
+        color: "#6b7280",
+        category: "Skills",
+        is_curated: true,
+      })
+    );
+  });
+
+  it("renames a tag", async () => {
+    const tags = mockUseTags();
+
+    render(<TagManager />);
+    fireEvent.click(screen.getByRole("button", { name: "Edit Referred" }));
+    const names = screen.getAllByLabelText("Tag name");
+    fireEvent.change(names[names.length - 1], { target: { value: "Employee referral" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() =>
+      expect(tags.updateTag).toHaveBeenCalledWith(REFERRED.id, {
+        name: "Employee referral",
+        color: REFERRED.color,
+        category: null,
+        is_curated: false,
+      })
+    );
+  });
+});
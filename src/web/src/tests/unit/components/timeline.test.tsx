@@ -0,0 +1,95 @@
+import * as React from "react"; // ^18.0.0
+import { render, screen, fireEvent } from "@testing-library/react"; // ^14.0.0
+import { vi } from "vitest"; // ^0.34.0
+
+import CandidateTimeline, { groupTimelineByDay } from "../../../components/candidates/CandidateTimeline";
+import { useCandidateTimeline } from "../../../lib/hooks/useCandidateTimeline";
+import { TimelineEventType } from "../../../types/timeline";
+import type { TimelineEvent } from "../../../types/timeline";
+
+vi.mock("../../../lib/hooks/useCandidateTimeline", () => ({
+  useCandidateTimeline: vi.fn(),
+}));
+
+// Mock data
+const CANDIDATE_ID = "5c6d7e8f-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+
+const mockEvent = (overrides: Partial<TimelineEvent>): TimelineEvent => ({
+  id: "1",
+  type: TimelineEventType.APPLICATION,
+  occurred_at: new Date("2024-03-01T10:00:00"),
+  actor_id: null,
+  actor_name: null,
+  application_id: null,
+  summary: "Applied to Backend Engineer",
+  details: {},
+  ...overrides,
+});
+
+const mockEvents = [
+  mockEvent({
+    id: "2",
+    type: TimelineEventType.STAGE_CHANGE,
+    occurred_at: new Date("2024-03-02T15:30:00"),
+    actor_name: "Riley Recruiter",
+    summary: "Moved from applied to screening for Backend Engineer",
+  }),
+  mockEvent({ id: "3", type: TimelineEventType.EMAIL, occurred_at: new Date("2024-03-02T09:00:00"), summary: "Interview email sent" }),
+  mockEvent({}),
+];
+
+const mockUseCandidateTimeline = (overrides: Partial<ReturnType<typeof useCandidateTimeline>> = {}) => {
+  const timeline = {
+    events: mockEvents,
+    total: 3,
+    isLoading: false,
+    error: null,
+    loadMore: vi.fn(),
+    hasMore: false,
+    isLoadingMore: false,
+    ...overrides,
+  };
+  vi.mocked(useCandidateTimeline).mockReturnValue(timeline as unknown as ReturnType<typeof useCandidateTimeline>);
+  return timeline;
+};
+
+describe("CandidateTimeline", () => {
+  it("shows the activity newest first with who did it", () => {
+    mockUseCandidateTimeline();
+
+    render(<CandidateTimeline candidateId={CANDIDATE_ID} />);
+
+    const entries = screen.getAllByRole("listitem");
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toHaveTextContent("Moved from applied to screening for Backend Engineer");
+    expect(entries[0]).toHaveTextContent("Riley Recruiter");
+    expect(screen.getByText("3 entries")).toBeInTheDocument();
+  });
+
+  it("filters the timeline by kind of activity", () => {
+    mockUseCandidateTimeline();
+
+    render(<CandidateTimeline candidateId={CANDIDATE_ID} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Emails" }));
+    expect(useCandidateTimeline).toHaveBeenLastCalledWith(CANDIDATE_ID, [TimelineEventType.EMAIL]);
+
+    fireEvent.click(screen.getByRole("button", { name: "All activity" }));
+    expect(useCandidateTimeline).toHaveBeenLastCalledWith(CANDIDATE_ID, []);
+  });
+
+  it("loads older activity on request", () => {
+    const timeline = mockUseCandidateTimeline({ hasMore: true });
+
+    render(<CandidateTimeline candidateId={CANDIDATE_ID} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Show older activity" }));
+    expect(timeline.loadMore).toHaveBeenCalled();
+  });
+});
+
+describe("CandidateTimeline helpers", () => {
+  it("groups entries by day in their order", () => {
+    expect(groupTimelineByDay(mockEvents).map(({ events }) => events.map((event) => event.id))).toEqual([["2", "3"], ["1"]]);
+  });
+});
@@ -1,5 +1,6 @@
 import { z } from 'zod'; // v3.22.0
 import { BaseEntity } from '../types/common';
+import { AttributionModel } from '../types/sources';
 
 // Enum for different types of analytics reports
 export enum ReportType {
@@ -56,6 +57,7 @@ export interface AnalyticsFilters {
   departments: string[];
   locations: string[];
   include_archived: boolean;
+  attribution_model?: AttributionModel; // Source reports default to the last touch
 }
 
 // Interface for report configuration
@@ -122,7 +124,8 @@ export const analyticsFiltersSchema = z.object({
   job_types: z.array(z.string()),
   departments: z.array(z.string()),
   locations: z.array(z.string()),
-  include_archived: z.boolean()
+  include_archived: z.boolean(),
+  attribution_model: z.nativeEnum(AttributionModel).optional()
 });
 
 // Zod schema for ReportConfig validation
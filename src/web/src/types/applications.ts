@@ -0,0 +1,151 @@
+import { z } from 'zod'; // v3.22.0
+import { BaseEntity, PaginationParams } from '../types/common';
+import { ApplicationStatus, CandidateStatus } from '../types/candidates';
+import { SourceInput, sourceInputSchema } from '../types/sources';
+import { ScreeningAnswer, ScreeningAnswerSummary, screeningAnswerSummarySchema } from '../types/screening';
+
+// Interfaces
+export interface StageHistoryEntry {
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  actor_id: string | null;
+  changed_at: string;
+  reason?: string;
+  from_stage_id?: string | null;
+  to_stage_id?: string;
+}
+
+export interface ApplicationCandidateSummary {
+  id: string;
+  full_name: string;
+  email: string;
+  location: string;
+  status: CandidateStatus;
+  skills: string[];
+  experience_level: string;
+}
+
+export interface Application extends BaseEntity {
+  job_id: string;
+  candidate_id: string;
+  status: ApplicationStatus;
+  stage_id: string | null;
+  match_score: number | null;
+  resume_version: string | null;
+  feedback: Record<string, unknown>[];
+  stage_history: StageHistoryEntry[];
+  metadata: Record<string, unknown>;
+  created_by: string | null;
+  withdrawn_at: Date | null;
+  withdrawal_reason: string | null;
+}
+
+export interface ApplicationWithCandidate extends Application {
+  candidate: ApplicationCandidateSummary;
+  job_title?: string;
+  screening_answers: ScreeningAnswerSummary[];
+}
+
+// Application matching an answer, e.g. { question_id, value: 'true' }
+export interface ScreeningAnswerFilter {
+  question_id: string;
+  value: string;
+}
+
+export interface ApplicationListParams extends PaginationParams {
+  job_id?: string;
+  candidate_id?: string;
+  status?: ApplicationStatus[];
+  answers?: ScreeningAnswerFilter[];
+  knockout?: 'passed' | 'failed';
+}
+
+// Types
+export type ApplicationCreateData = {
+  job_id: string;
+  candidate_id: string;
+  status?: ApplicationStatus;
+  stage_id?: string;
+  resume_version?: string;
+  metadata?: Record<string, unknown>;
+  source?: SourceInput;
+  referral_code?: string;
+  screening_answers?: ScreeningAnswer[];
+};
+
+export type ApplicationUpdateData = {
+  status?: ApplicationStatus;
+  stage_id?: string;
+  reason?: string;
+  feedback?: Record<string, unknown>[];
+  metadata?: Record<string, unknown>;
+};
+
+// Applications grouped by pipeline stage id
+export type ApplicationsByStage = Record<string, ApplicationWithCandidate[]>;
+
+// Zod Validation Schemas
+export const stageHistoryEntrySchema = z.object({
+  from_status: z.nativeEnum(ApplicationStatus).nullable(),
+  to_status: z.nativeEnum(ApplicationStatus),
+  actor_id: z.string().uuid().nullable(),
+  changed_at: z.string(),
+  reason: z.string().optional(),
+  from_stage_id: z.string().uuid().nullable().optional(),
+  to_stage_id: z.string().uuid().optional()
+});
+
+export const applicationSchema = z.object({
+  id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  status: z.nativeEnum(ApplicationStatus),
+  stage_id: z.string().uuid().nullable().default(null),
+  match_score: z.number().min(0).max(100).nullable(),
+  resume_version: z.string().uuid().nullable(),
+  feedback: z.array(z.record(z.unknown())),
+  stage_history: z.array(stageHistoryEntrySchema),
+  metadata: z.record(z.unknown()).nullable().transform(value => value ?? {}),
+  created_by: z.string().uuid().nullable(),
+  withdrawn_at: z.coerce.date().nullable(),
+  withdrawal_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const applicationWithCandidateSchema = applicationSchema.extend({
+  job_title: z.string().optional(),
+  candidate: z.object({
+    id: z.string().uuid(),
+    full_name: z.string(),
+    email: z.string().email(),
+    location: z.string(),
+    status: z.nativeEnum(CandidateStatus),
+    skills: z.array(z.string()),
+    experience_level: z.string()
+  }),
+  screening_answers: z.array(screeningAnswerSummarySchema).default([])
+});
+
+export const applicationCreateSchema = z.object({
+  job_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  status: z.nativeEnum(ApplicationStatus).optional(),
+  stage_id: z.string().uuid().optional(),
+  resume_version: z.string().uuid().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  source: sourceInputSchema.optional(),
+  referral_code: z.string().regex(/^[A-Za-z0-9_-]{16,64}$/).optional(),
+  screening_answers: z.array(z.object({
+    question_id: z.string().uuid(),
+    value: z.union([z.string(), z.number(), z.boolean()])
+  })).max(25).optional()
+});
+
+export const applicationUpdateSchema = z.object({
+  status: z.nativeEnum(ApplicationStatus).optional(),
+  stage_id: z.string().uuid().optional(),
+  reason: z.string().max(1000).optional(),
+  feedback: z.array(z.record(z.unknown())).optional(),
+  metadata: z.record(z.unknown()).optional()
+});
@@ -0,0 +1,154 @@
+import { z } from 'zod'; // v3.22.0
+import { BaseEntity } from '../types/common';
+import { UserRole } from '../types/auth';
+
+// Enums
+export enum ApprovalEntityType {
+  JOB = 'job',
+  OFFER = 'offer'
+}
+
+export enum ApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED'
+}
+
+export enum ApprovalStepStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  SKIPPED = 'SKIPPED'
+}
+
+export enum ApprovalDecision {
+  APPROVE = 'approve',
+  REJECT = 'reject'
+}
+
+// Interfaces
+export interface ApprovalChainStep {
+  id: string;
+  chain_id: string;
+  step_order: number;
+  approver_role: UserRole | null;
+  approver_id: string | null;
+}
+
+export interface ApprovalChain extends BaseEntity {
+  name: string;
+  entity_type: ApprovalEntityType;
+  is_active: boolean;
+  reminder_interval_hours: number;
+  created_by: string | null;
+  steps: ApprovalChainStep[];
+}
+
+export interface ApprovalRequestStep extends BaseEntity {
+  request_id: string;
+  step_order: number;
+  approver_role: UserRole | null;
+  approver_id: string | null;
+  status: ApprovalStepStatus;
+  decided_by: string | null;
+  decided_at: Date | null;
+  comment: string | null;
+  last_reminded_at: Date | null;
+}
+
+export interface ApprovalRequest extends BaseEntity {
+  chain_id: string;
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  entity_version: number | null;
+  status: ApprovalStatus;
+  requested_by: string;
+  completed_at: Date | null;
+  steps: ApprovalRequestStep[];
+}
+
+export interface PendingApproval extends ApprovalRequest {
+  job_title: string | null;
+  candidate_name: string | null;
+}
+
+// Approval state of a single job or offer
+export interface EntityApprovals {
+  chain: ApprovalChain | null;
+  requests: ApprovalRequest[];
+}
+
+// Types
+export type ApprovalDecisionData = {
+  decision: ApprovalDecision;
+  comment?: string;
+};
+
+// Zod Validation Schemas
+export const approvalChainStepSchema = z.object({
+  id: z.string().uuid(),
+  chain_id: z.string().uuid(),
+  step_order: z.number().int().nonnegative(),
+  approver_role: z.nativeEnum(UserRole).nullable(),
+  approver_id: z.string().uuid().nullable()
+});
+
+export const approvalChainSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  entity_type: z.nativeEnum(ApprovalEntityType),
+  is_active: z.boolean(),
+  reminder_interval_hours: z.number().int().positive(),
+  created_by: z.string().uuid().nullable(),
+  steps: z.array(approvalChainStepSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const approvalRequestStepSchema = z.object({
+  id: z.string().uuid(),
+  request_id: z.string().uuid(),
+  step_order: z.number().int().nonnegative(),
+  approver_role: z.nativeEnum(UserRole).nullable(),
+  approver_id: z.string().uuid().nullable(),
+  status: z.nativeEnum(ApprovalStepStatus),
+  decided_by: z.string().uuid().nullable(),
+  decided_at: z.coerce.date().nullable(),
+  comment: z.string().nullable(),
+  last_reminded_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const approvalRequestSchema = z.object({
+  id: z.string().uuid(),
+  chain_id: z.string().uuid(),
+  entity_type: z.nativeEnum(ApprovalEntityType),
+  entity_id: z.string().uuid(),
+  entity_version: z.number().int().positive().nullable(),
+  status: z.nativeEnum(ApprovalStatus),
+  requested_by: z.string().uuid(),
+  completed_at: z.coerce.date().nullable(),
+  steps: z.array(approvalRequestStepSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const pendingApprovalSchema = approvalRequestSchema.extend({
+  job_title: z.string().nullable(),
+  candidate_name: z.string().nullable()
+});
+
+export const entityApprovalsSchema = z.object({
+  chain: approvalChainSchema.nullable(),
+  requests: z.array(approvalRequestSchema)
+});
+
+export const approvalDecisionSchema = z.object({
+  decision: z.nativeEnum(ApprovalDecision),
+  comment: z.string().max(2000).optional()
+}).refine(data => data.decision === ApprovalDecision.APPROVE || !!data.comment?.trim(), {
+  message: 'A comment is required when rejecting',
+  path: ['comment']
+});
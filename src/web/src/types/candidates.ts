@@ -1,6 +1,7 @@
 import { z } from 'zod'; // v3.22.0
 import { BaseEntity, PaginationParams } from '../types/common';
 import { JobRequirements } from '../types/jobs';
+import { Tag } from '../types/tags';
 
 // Enums
 export enum CandidateStatus {
@@ -18,7 +19,15 @@ export enum ApplicationStatus {
   OFFER_PENDING = 'OFFER_PENDING',
   OFFER_ACCEPTED = 'OFFER_ACCEPTED',
   OFFER_DECLINED = 'OFFER_DECLINED',
-  REJECTED = 'REJECTED'
+  REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN'
+}
+
+export enum DuplicateMatchReason {
+  EMAIL = 'EMAIL',
+  PHONE = 'PHONE',
+  NAME = 'NAME',
+  RESUME = 'RESUME'
 }
 
 // Interfaces
@@ -90,6 +99,7 @@ export interface Candidate extends BaseEntity {
   summary: string;
   last_active: Date;
   profile_complete: boolean;
+  tags?: Tag[];
 }
 
 export interface CandidateSearchParams extends PaginationParams {
@@ -106,11 +116,49 @@ export interface CandidateSearchParams extends PaginationParams {
   is_actively_looking: boolean;
   availability_date: string;
   certifications: string[];
+  // Candidates carrying any of these tags
+  tags: string[];
+}
+
+// Existing candidate that likely duplicates a new or existing profile
+export interface DuplicateCandidateMatch {
+  candidate_id: string;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  status: CandidateStatus;
+  created_at: Date;
+  score: number;
+  name_similarity: number;
+  reasons: DuplicateMatchReason[];
+}
+
+export interface CandidateMergeCounts {
+  applications: number;
+  interviews: number;
+  offers: number;
+  hotlists: number;
+}
+
+export interface CandidateMerge {
+  id: string;
+  primary_candidate_id: string;
+  merged_candidate_id: string;
+  merged_by: string;
+  moved_records: CandidateMergeCounts;
+  created_at: Date;
 }
 
 // Types
 export type CandidateFormData = Omit<Candidate, 'id' | 'created_at' | 'updated_at'>;
 
+// Profile checked for duplicates before it is created
+export type DuplicateCheckData = {
+  full_name: string;
+  email: string;
+  phone?: string;
+};
+
 export type CandidateWithMatchScore = Candidate & {
   match_score: number;
   matched_jobs: number;
@@ -211,8 +259,41 @@ export const candidateSearchParamsSchema = z.object({
   languages: z.array(z.string()),
   is_actively_looking: z.boolean(),
   availability_date: z.string(),
-  certifications: z.array(z.string())
+  certifications: z.array(z.string()),
+  tags: z.array(z.string().uuid()).max(50)
 }).extend({
   page: z.number().int().positive(),
   limit: z.number().int().positive().max(100)
-});
\ No newline at end of file
+});
+
+export const duplicateCandidateMatchSchema = z.object({
+  candidate_id: z.string().uuid(),
+  full_name: z.string(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  status: z.nativeEnum(CandidateStatus),
+  created_at: z.coerce.date(),
+  score: z.number().min(0).max(1),
+  name_similarity: z.number().min(0).max(1),
+  reasons: z.array(z.nativeEnum(DuplicateMatchReason))
+});
+
+export const duplicateCheckSchema = z.object({
+  full_name: z.string().min(1).max(100),
+  email: z.string().email(),
+  phone: z.string().max(30).optional()
+});
+
+export const candidateMergeSchema = z.object({
+  id: z.string().uuid(),
+  primary_candidate_id: z.string().uuid(),
+  merged_candidate_id: z.string().uuid(),
+  merged_by: z.string().uuid(),
+  moved_records: z.object({
+    applications: z.number().int().nonnegative(),
+    interviews: z.number().int().nonnegative(),
+    offers: z.number().int().nonnegative(),
+    hotlists: z.number().int().nonnegative()
+  }),
+  created_at: z.coerce.date()
+});
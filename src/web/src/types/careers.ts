@@ -0,0 +1,130 @@
+import { z } from 'zod'; // v3.22.0
+import { ExperienceLevel, JobRequirements, JobType } from './jobs';
+import { PublicScreeningQuestion, ScreeningAnswer, publicScreeningQuestionSchema } from './screening';
+
+// Interfaces
+// Requirements published with a job; internal screening details are not part of them
+export type PublicJobRequirements = Pick<
+  JobRequirements,
+  | 'experience_level'
+  | 'years_experience'
+  | 'required_skills'
+  | 'preferred_skills'
+  | 'qualifications'
+  | 'responsibilities'
+>;
+
+// A published job as shown on the public careers site
+export interface PublicJob {
+  id: string;
+  title: string;
+  description: string;
+  requirements: PublicJobRequirements;
+  type: JobType;
+  skills: string[];
+  location: string;
+  remote_allowed: boolean;
+  salary_min: number;
+  salary_max: number;
+  posted_at: Date;
+}
+
+// A published job with the schema.org JobPosting embedded in its page for search engines
+// and the questions of its application form
+export interface PublicJobDetail extends PublicJob {
+  structured_data: Record<string, unknown>;
+  screening_questions: PublicScreeningQuestion[];
+}
+
+export interface PublicJobPage {
+  data: PublicJob[];
+  total: number;
+  page: number;
+  limit: number;
+  total_pages: number;
+}
+
+// Acknowledgement shown to applicants once their application is received
+export interface CareerApplicationReceipt {
+  job_id: string;
+  job_title: string;
+  submitted_at: Date;
+}
+
+// Types
+export type PublicJobListParams = {
+  search?: string;
+  type?: JobType;
+  location?: string;
+  remote_only?: boolean;
+  page?: number;
+  limit?: number;
+};
+
+export type CareerApplicationData = {
+  full_name: string;
+  email: string;
+  phone?: string;
+  location: string;
+  cover_letter?: string;
+  referral_code?: string;
+  source_url?: string;
+  answers?: ScreeningAnswer[];
+  // Files answering file upload questions, keyed by question id
+  answer_files?: Record<string, File>;
+};
+
+// Zod Validation Schemas
+export const publicJobSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  description: z.string(),
+  requirements: z.object({
+    experience_level: z.nativeEnum(ExperienceLevel),
+    years_experience: z.number(),
+    required_skills: z.array(z.string()),
+    preferred_skills: z.array(z.string()),
+    qualifications: z.array(z.string()),
+    responsibilities: z.array(z.string())
+  }),
+  type: z.nativeEnum(JobType),
+  skills: z.array(z.string()),
+  location: z.string(),
+  remote_allowed: z.boolean(),
+  salary_min: z.number(),
+  salary_max: z.number(),
+  posted_at: z.coerce.date()
+});
+
+export const publicJobDetailSchema = publicJobSchema.extend({
+  structured_data: z.record(z.unknown()),
+  screening_questions: z.array(publicScreeningQuestionSchema).default([])
+});
+
+export const publicJobPageSchema = z.object({
+  data: z.array(publicJobSchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  limit: z.number().int(),
+  total_pages: z.number().int()
+});
+
+export const careerApplicationSchema = z.object({
+  full_name: z.string().trim().min(1).max(255),
+  email: z.string().trim().email().max(320),
+  phone: z.string().trim().max(50).optional(),
+  location: z.string().trim().min(1).max(255),
+  cover_letter: z.string().trim().max(10000).optional(),
+  referral_code: z.string().regex(/^[A-Za-z0-9_-]{16,64}$/).optional(),
+  source_url: z.string().url().max(2000).optional(),
+  answers: z.array(z.object({
+    question_id: z.string().uuid(),
+    value: z.union([z.string().trim().max(5000), z.number(), z.boolean()])
+  })).max(25).optional()
+});
+
+export const careerApplicationReceiptSchema = z.object({
+  job_id: z.string().uuid(),
+  job_title: z.string(),
+  submitted_at: z.coerce.date()
+});
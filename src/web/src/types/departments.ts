@@ -0,0 +1,122 @@
+import { z } from 'zod'; // v3.22.0
+import { UserRole } from './auth';
+
+// Enums
+// Role of a user on the hiring team of one job, independent of their platform role
+export enum HiringTeamRole {
+  RECRUITER = 'RECRUITER',
+  HIRING_MANAGER = 'HIRING_MANAGER',
+  COORDINATOR = 'COORDINATOR',
+  INTERVIEWER = 'INTERVIEWER'
+}
+
+// Interfaces
+export interface Department {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  cost_center: string | null;
+  archived_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  member_ids: string[];
+  // Depth in the hierarchy; only set when listing
+  depth?: number;
+}
+
+// Staff user who can be added to departments and hiring teams
+export interface StaffMember {
+  id: string;
+  full_name: string;
+  email: string;
+  role: UserRole;
+  department_ids: string[];
+}
+
+export interface HiringTeamMember {
+  user_id: string;
+  full_name: string;
+  email: string;
+  team_role: HiringTeamRole;
+}
+
+export interface JobHiringTeam {
+  job_id: string;
+  recruiter_id: string | null;
+  hiring_manager_id: string | null;
+  coordinator_ids: string[];
+  interviewer_ids: string[];
+  members: HiringTeamMember[];
+}
+
+export interface DepartmentCreateData {
+  name: string;
+  parent_id: string | null;
+  cost_center: string | null;
+  member_ids: string[];
+}
+
+export interface DepartmentUpdateData {
+  name?: string;
+  parent_id?: string | null;
+  cost_center?: string | null;
+  archived?: boolean;
+  member_ids?: string[];
+}
+
+export type HiringTeamUpdateData = Omit<JobHiringTeam, 'job_id' | 'members'>;
+
+// Zod Schemas
+export const departmentSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  parent_id: z.string().uuid().nullable(),
+  cost_center: z.string().nullable(),
+  archived_at: z.coerce.date().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+  member_ids: z.array(z.string().uuid()),
+  depth: z.number().int().min(0).optional()
+});
+
+export const staffMemberSchema = z.object({
+  id: z.string().uuid(),
+  full_name: z.string(),
+  email: z.string().email(),
+  role: z.nativeEnum(UserRole),
+  department_ids: z.array(z.string().uuid())
+});
+
+export const jobHiringTeamSchema = z.object({
+  job_id: z.string().uuid(),
+  recruiter_id: z.string().uuid().nullable(),
+  hiring_manager_id: z.string().uuid().nullable(),
+  coordinator_ids: z.array(z.string().uuid()),
+  interviewer_ids: z.array(z.string().uuid()),
+  members: z.array(z.object({
+    user_id: z.string().uuid(),
+    full_name: z.string(),
+    email: z.string().email(),
+    team_role: z.nativeEnum(HiringTeamRole)
+  }))
+});
+
+export const departmentCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  parent_id: z.string().uuid().nullable(),
+  cost_center: z.string().trim().max(50).nullable(),
+  member_ids: z.array(z.string().uuid()).max(500)
+});
+
+export const departmentUpdateSchema = departmentCreateSchema.partial().extend({
+  archived: z.boolean().optional()
+});
+
+export const hiringTeamUpdateSchema = z.object({
+  recruiter_id: z.string().uuid().nullable(),
+  hiring_manager_id: z.string().uuid().nullable(),
+  coordinator_ids: z.array(z.string().uuid()).max(20),
+  interviewer_ids: z.array(z.string().uuid()).max(50)
+});
@@ -0,0 +1,133 @@
+import { z } from 'zod'; // v3.22.0
+import { CandidateStatus } from './candidates';
+
+// Enums
+// File formats candidates can be exported to
+export enum CandidateExportFormat {
+  CSV = 'CSV',
+  XLSX = 'XLSX',
+  JSON_RESUME = 'JSON_RESUME'
+}
+
+// Small exports are downloaded straight away; larger ones are queued and written in the background
+export enum CandidateExportStatus {
+  QUEUED = 'QUEUED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED'
+}
+
+// Columns of a CSV or XLSX export
+export const CANDIDATE_EXPORT_COLUMNS = [
+  'id',
+  'full_name',
+  'email',
+  'phone',
+  'location',
+  'status',
+  'experience_level',
+  'skills',
+  'current_title',
+  'current_company',
+  'education',
+  'salary_expectation_min',
+  'salary_expectation_max',
+  'remote_only',
+  'open_to_relocation',
+  'resume_url',
+  'created_at',
+  'updated_at'
+] as const;
+
+export type CandidateExportColumn = typeof CANDIDATE_EXPORT_COLUMNS[number];
+
+// Columns exported when none are selected
+export const DEFAULT_EXPORT_COLUMNS: CandidateExportColumn[] = [
+  'full_name',
+  'email',
+  'phone',
+  'location',
+  'status',
+  'experience_level',
+  'skills',
+  'current_title',
+  'current_company'
+];
+
+// Interfaces
+// Search filters an export is limited to, as the API reads them
+export interface CandidateExportFilters {
+  query?: string;
+  status?: CandidateStatus[];
+  skills?: string[];
+  experienceLevel?: string[];
+  location?: string;
+  salaryRange?: { min: number; max: number };
+  tags?: string[];
+}
+
+export interface CandidateExportRequest {
+  format: CandidateExportFormat;
+  filters: CandidateExportFilters;
+  columns: CandidateExportColumn[];
+}
+
+export interface CandidateExport extends CandidateExportRequest {
+  id: string;
+  status: CandidateExportStatus;
+  row_count: number;
+  file_key: string | null;
+  error: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Export with a signed link to its file once it has been written
+export interface CandidateExportWithDownload extends CandidateExport {
+  download_url: string | null;
+  download_expires_at: Date | null;
+}
+
+// Result of requesting an export: the file itself, or the queued export to poll
+export type CandidateExportResult =
+  | { file: Blob; file_name: string }
+  | { queued: CandidateExport };
+
+// Zod Schemas
+export const candidateExportRequestSchema = z.object({
+  format: z.nativeEnum(CandidateExportFormat),
+  filters: z.object({
+    query: z.string().optional(),
+    status: z.array(z.nativeEnum(CandidateStatus)).optional(),
+    skills: z.array(z.string()).optional(),
+    experienceLevel: z.array(z.string()).optional(),
+    location: z.string().optional(),
+    salaryRange: z.object({
+      min: z.number().min(0),
+      max: z.number().min(0)
+    }).optional(),
+    tags: z.array(z.string().uuid()).optional()
+  }),
+  columns: z.array(z.enum(CANDIDATE_EXPORT_COLUMNS))
+});
+
+export const candidateExportSchema = candidateExportRequestSchema.extend({
+  id: z.string().uuid(),
+  status: z.nativeEnum(CandidateExportStatus),
+  row_count: z.number().int(),
+  file_key: z.string().nullable(),
+  error: z.string().nullable(),
+  started_at: z.coerce.date().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_by: z.string().uuid(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const candidateExportWithDownloadSchema = candidateExportSchema.extend({
+  download_url: z.string().url().nullable(),
+  download_expires_at: z.coerce.date().nullable()
+});
@@ -0,0 +1,284 @@
+import { z } from 'zod'; // v3.22.0
+
+// Enums
+// Spreadsheet formats candidates can be imported from
+export enum ImportFileFormat {
+  CSV = 'CSV',
+  XLSX = 'XLSX'
+}
+
+// What happens to an imported row that matches an existing candidate
+export enum DuplicateStrategy {
+  SKIP = 'SKIP',
+  UPDATE = 'UPDATE',
+  CREATE = 'CREATE'
+}
+
+export enum CandidateImportStatus {
+  UPLOADED = 'UPLOADED',
+  QUEUED = 'QUEUED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED'
+}
+
+export enum ImportRowStatus {
+  PENDING = 'PENDING',
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED'
+}
+
+// Candidate fields a column can be mapped to; preferences are nested under `preferences`
+export const IMPORT_FIELDS = [
+  'full_name',
+  'email',
+  'phone',
+  'location',
+  'status',
+  'experience_level',
+  'skills',
+  'resume_file',
+  'preferences.preferred_job_types',
+  'preferences.preferred_locations',
+  'preferences.remote_only',
+  'preferences.salary_expectation_min',
+  'preferences.salary_expectation_max',
+  'preferences.open_to_relocation',
+  'preferences.preferred_industries',
+  'preferences.preferred_companies',
+  'preferences.preferred_travel_percentage',
+  'preferences.excluded_industries'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Fields every import maps
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['full_name', 'email'];
+
+// Separators accepted between the values of list columns such as skills
+export const IMPORT_LIST_DELIMITERS = [';', ',', '|'] as const;
+
+// Interfaces
+// Column header each mapped field is read from
+export type ImportFieldMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+export interface CandidateImportOptions {
+  mapping: ImportFieldMapping;
+  duplicate_strategy: DuplicateStrategy;
+  list_delimiter: typeof IMPORT_LIST_DELIMITERS[number];
+}
+
+export type ImportRowCounts = Record<ImportRowStatus, number>;
+
+export interface CandidateImport {
+  id: string;
+  file_name: string;
+  format: ImportFileFormat;
+  headers: string[];
+  row_count: number;
+  resume_archive_key: string | null;
+  resume_files: string[];
+  mapping: ImportFieldMapping | null;
+  duplicate_strategy: DuplicateStrategy | null;
+  list_delimiter: string;
+  status: CandidateImportStatus;
+  previewed_at: Date | null;
+  queued_at: Date | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Uploaded import with a mapping suggested from its headers and its first rows
+export interface UploadedCandidateImport extends CandidateImport {
+  suggested_mapping: ImportFieldMapping;
+  sample_rows: Array<{ row_number: number; data: Record<string, string> }>;
+}
+
+export interface CandidateImportWithProgress extends CandidateImport {
+  row_counts: ImportRowCounts;
+}
+
+export interface ImportRowPreview {
+  row_number: number;
+  status: ImportRowStatus;
+  errors: ImportRowError[];
+  duplicate_candidate_id: string | null;
+  duplicate_row_number: number | null;
+}
+
+// Dry run of an import: predicted outcome counts and the rows that need attention
+export interface CandidateImportPreview {
+  import_id: string;
+  row_counts: ImportRowCounts;
+  rows: ImportRowPreview[];
+  truncated: boolean;
+}
+
+export interface CandidateImportUploadData {
+  file: File;
+  // Zip archive of the resumes named in the spreadsheet
+  resumes?: File;
+}
+
+// Zod Schemas
+const rowCountsSchema = z.object({
+  PENDING: z.number().int(),
+  CREATED: z.number().int(),
+  UPDATED: z.number().int(),
+  SKIPPED: z.number().int(),
+  FAILED: z.number().int()
+});
+
+const importFieldMappingSchema = z.record(z.enum(IMPORT_FIELDS), z.string());
+
+export const candidateImportSchema = z.object({
+  id: z.string().uuid(),
+  file_name: z.string(),
+  format: z.nativeEnum(ImportFileFormat),
+  headers: z.array(z.string()),
+  row_count: z.number().int(),
+  resume_archive_key: z.string().nullable(),
+  resume_files: z.array(z.string()),
+  mapping: importFieldMappingSchema.nullable(),
+  duplicate_strategy: z.nativeEnum(DuplicateStrategy).nullable(),
+  list_delimiter: z.string(),
+  status: z.nativeEnum(CandidateImportStatus),
+  previewed_at: z.coerce.date().nullable(),
+  queued_at: z.coerce.date().nullable(),
+  started_at: z.coerce.date().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const uploadedCandidateImportSchema = candidateImportSchema.extend({
+  suggested_mapping: importFieldMappingSchema,
+  sample_rows: z.array(z.object({
+    row_number: z.number().int(),
+    data: z.record(z.string())
+  }))
+});
+
+export const candidateImportWithProgressSchema = candidateImportSchema.extend({
+  row_counts: rowCountsSchema
+});
+
+export const candidateImportPreviewSchema = z.object({
+  import_id: z.string().uuid(),
+  row_counts: rowCountsSchema,
+  rows: z.array(z.object({
+    row_number: z.number().int(),
+    status: z.nativeEnum(ImportRowStatus),
+    errors: z.array(z.object({ field: z.string(), message: z.string() })),
+    duplicate_candidate_id: z.string().uuid().nullable(),
+    duplicate_row_number: z.number().int().nullable()
+  })),
+  truncated: z.boolean()
+});
+
+export const candidateImportOptionsSchema = z.object({
+  mapping: importFieldMappingSchema.refine(
+    mapping => REQUIRED_IMPORT_FIELDS.every(field => !!mapping[field]),
+    { message: 'Name and email columns must be mapped' }
+  ),
+  duplicate_strategy: z.nativeEnum(DuplicateStrategy),
+  list_delimiter: z.enum(IMPORT_LIST_DELIMITERS)
+});
+
+// Imports from other applicant tracking systems
+// Systems whose exports can be imported
+export enum AtsImportSource {
+  GREENHOUSE = 'GREENHOUSE',
+  LEVER = 'LEVER',
+  WORKABLE = 'WORKABLE',
+  JSON_RESUME = 'JSON_RESUME'
+}
+
+export enum AtsEntityType {
+  JOB = 'JOB',
+  CANDIDATE = 'CANDIDATE',
+  APPLICATION = 'APPLICATION'
+}
+
+// What an import run did with one exported record
+export enum ReconciliationOutcome {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  UNCHANGED = 'UNCHANGED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED'
+}
+
+export interface AtsImportUploadData {
+  // JSON export file
+  file: File;
+  // Detected from the layout of the export when omitted
+  source?: AtsImportSource;
+  dry_run: boolean;
+}
+
+export interface ReconciliationRecord {
+  entity_type: AtsEntityType;
+  external_id: string;
+  entity_id: string | null;
+  outcome: ReconciliationOutcome;
+  message: string | null;
+}
+
+export type ReconciliationTotals = Record<AtsEntityType, Record<ReconciliationOutcome, number>>;
+
+export interface AtsImportRun {
+  id: string;
+  source: AtsImportSource;
+  file_name: string;
+  totals: ReconciliationTotals;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Totals and every record of a run; a dry run is not stored, so it has no run
+export interface ReconciliationReport {
+  run: AtsImportRun | null;
+  source: AtsImportSource;
+  dry_run: boolean;
+  totals: ReconciliationTotals;
+  records: ReconciliationRecord[];
+}
+
+const reconciliationTotalsSchema = z.record(
+  z.nativeEnum(AtsEntityType),
+  z.record(z.nativeEnum(ReconciliationOutcome), z.number().int())
+);
+
+export const reconciliationReportSchema = z.object({
+  run: z.object({
+    id: z.string().uuid(),
+    source: z.nativeEnum(AtsImportSource),
+    file_name: z.string(),
+    totals: reconciliationTotalsSchema,
+    created_by: z.string().uuid().nullable(),
+    created_at: z.coerce.date(),
+    updated_at: z.coerce.date()
+  }).nullable(),
+  source: z.nativeEnum(AtsImportSource),
+  dry_run: z.boolean(),
+  totals: reconciliationTotalsSchema,
+  records: z.array(z.object({
+    entity_type: z.nativeEnum(AtsEntityType),
+    external_id: z.string(),
+    entity_id: z.string().uuid().nullable(),
+    outcome: z.nativeEnum(ReconciliationOutcome),
+    message: z.string().nullable()
+  }))
+});
@@ -27,6 +27,19 @@ export enum ExperienceLevel {
   EXECUTIVE = 'EXECUTIVE'
 }
 
+// Kinds of wording problems flagged by the job description check
+export enum WordingIssueCategory {
+  EXCLUSIONARY = 'EXCLUSIONARY',
+  BIASED = 'BIASED',
+  REQUIREMENT_STACK = 'REQUIREMENT_STACK',
+  MISSING_SALARY = 'MISSING_SALARY'
+}
+
+export enum WordingIssueSource {
+  RULES = 'RULES',
+  AI = 'AI'
+}
+
 // Type Definitions
 export type JobId = string & { readonly __brand: unique symbol };
 
@@ -61,6 +74,7 @@ export interface Job extends BaseEntity {
   location: string;
   remote_allowed: boolean;
   department: string;
+  department_id: string | null;
   benefits: string[];
   metadata: Record<string, unknown>;
   views_count: number;
@@ -68,6 +82,9 @@ export interface Job extends BaseEntity {
   tags: string[];
   is_featured: boolean;
   expires_at: Date | null;
+  pipeline_template_id: string | null;
+  headcount: number;
+  publish_at: Date | null;
 }
 
 export interface JobFormData {
@@ -81,14 +98,77 @@ export interface JobFormData {
   location: string;
   remote_allowed: boolean;
   department: string;
+  department_id: string | null;
   benefits: string[];
+  pipeline_template_id: string | null;
   is_draft: boolean;
   publish_date: Date | null;
+  closed_at: Date | null;
+  headcount: number;
   form_state: FormMetadata;
   validation: ValidationRules;
   attachments: string[];
 }
 
+// Reusable job content in the template library
+export interface JobTemplate {
+  id: string;
+  name: string;
+  source_job_id: string | null;
+  archived_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  title: string;
+  description: string;
+  requirements: Partial<JobRequirements>;
+  type: JobType;
+  skills: string[];
+  salary_min: number;
+  salary_max: number;
+  location: string;
+  remote_allowed: boolean;
+  pipeline_template_id: string | null;
+}
+
+// Snapshot of a job's title, description and requirements at one revision
+export interface JobRevision {
+  id: string;
+  job_id: string;
+  revision: number;
+  title: string;
+  description: string;
+  requirements: Partial<JobRequirements>;
+  job_status: JobStatus;
+  changed_fields: JobRevisionField[];
+  created_by: string | null;
+  created_at: Date;
+}
+
+// Wording problem in a job; start and end locate the excerpt within the text at path
+export interface WordingIssue {
+  category: WordingIssueCategory;
+  source: WordingIssueSource;
+  path: string;
+  message: string;
+  excerpt: string | null;
+  suggestion: string | null;
+  start: number | null;
+  end: number | null;
+}
+
+export interface WordingCheckResult {
+  issues: WordingIssue[];
+  // False when only the local rule list ran
+  ai_checked: boolean;
+}
+
+export interface JobDescriptionDraft {
+  description: string;
+  requirements: Partial<JobRequirements>;
+  issues: WordingIssue[];
+}
+
 export interface JobSearchParams extends PaginationParams {
   query: string;
   status: JobStatus[];
@@ -133,6 +213,42 @@ export type JobUpdatePayload = Partial<Omit<JobFormData, 'id'>> & {
   };
 };
 
+export type JobRevisionField = 'title' | 'description' | 'requirements';
+
+export type JobTemplateCreateData = {
+  job_id: string;
+  name: string;
+};
+
+export type JobTemplateUpdateData = {
+  name?: string;
+  archived?: boolean;
+};
+
+// Fields left out are copied from the cloned job
+export type JobCloneData = {
+  title?: string;
+  location?: string;
+  type?: JobType;
+  remote_allowed?: boolean;
+};
+
+export type JobDescriptionDraftData = {
+  title: string;
+  experience_level: ExperienceLevel;
+  highlights: string[];
+  type?: JobType;
+  location?: string;
+};
+
+export type JobWordingCheckData = {
+  title: string;
+  description: string;
+  requirements?: Partial<JobRequirements>;
+  salary_min?: number | null;
+  salary_max?: number | null;
+};
+
 // Zod Schemas for Runtime Validation
 export const jobRequirementsSchema = z.object({
   experience_level: z.nativeEnum(ExperienceLevel),
@@ -164,13 +280,17 @@ export const jobSchema = z.object({
   location: z.string(),
   remote_allowed: z.boolean(),
   department: z.string(),
+  department_id: z.string().uuid().nullable(),
   benefits: z.array(z.string()),
   metadata: z.record(z.unknown()),
   views_count: z.number().min(0),
   applications_count: z.number().min(0),
   tags: z.array(z.string()),
   is_featured: z.boolean(),
-  expires_at: z.date().nullable()
+  expires_at: z.date().nullable(),
+  pipeline_template_id: z.string().uuid().nullable(),
+  headcount: z.number().int().min(1).max(1000),
+  publish_at: z.date().nullable()
 });
 
 export const jobSearchParamsSchema = z.object({
@@ -196,6 +316,86 @@ export const jobSearchParamsSchema = z.object({
   limit: z.number().int().positive().max(100)
 });
 
+export const jobTemplateSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  source_job_id: z.string().uuid().nullable(),
+  archived_at: z.coerce.date().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+  title: z.string(),
+  description: z.string(),
+  requirements: jobRequirementsSchema.partial(),
+  type: z.nativeEnum(JobType),
+  skills: z.array(z.string()),
+  salary_min: z.coerce.number(),
+  salary_max: z.coerce.number(),
+  location: z.string(),
+  remote_allowed: z.boolean(),
+  pipeline_template_id: z.string().uuid().nullable()
+});
+
+export const jobRevisionSchema = z.object({
+  id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  revision: z.number().int().positive(),
+  title: z.string(),
+  description: z.string(),
+  requirements: jobRequirementsSchema.partial(),
+  job_status: z.nativeEnum(JobStatus),
+  changed_fields: z.array(z.enum(['title', 'description', 'requirements'])),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date()
+});
+
+export const jobTemplateCreateSchema = z.object({
+  job_id: z.string().uuid(),
+  name: z.string().trim().min(1).max(100)
+});
+
+export const jobTemplateUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  archived: z.boolean().optional()
+});
+
+export const jobCloneSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  location: z.string().trim().min(1).max(255).optional(),
+  type: z.nativeEnum(JobType).optional(),
+  remote_allowed: z.boolean().optional()
+});
+
+export const jobDescriptionDraftSchema = z.object({
+  title: z.string().trim().min(1, 'Enter a job title first').max(255),
+  experience_level: z.nativeEnum(ExperienceLevel),
+  highlights: z.array(z.string().trim().min(1).max(300)).min(1, 'Add at least one highlight').max(10),
+  type: z.nativeEnum(JobType).optional(),
+  location: z.string().trim().max(255).optional()
+});
+
+const wordingIssueSchema = z.object({
+  category: z.nativeEnum(WordingIssueCategory),
+  source: z.nativeEnum(WordingIssueSource),
+  path: z.string(),
+  message: z.string(),
+  excerpt: z.string().nullable(),
+  suggestion: z.string().nullable(),
+  start: z.number().int().nullable(),
+  end: z.number().int().nullable()
+});
+
+export const wordingCheckResultSchema = z.object({
+  issues: z.array(wordingIssueSchema),
+  ai_checked: z.boolean()
+});
+
+export const jobDescriptionDraftResultSchema = z.object({
+  description: z.string(),
+  requirements: jobRequirementsSchema.partial(),
+  issues: z.array(wordingIssueSchema)
+});
+
 interface FormMetadata {
   is_dirty: boolean;
   touched_fields: string[];
@@ -0,0 +1,101 @@
+import { z } from 'zod'; // v3.22.0
+
+// Enums
+// Who sees a note besides its author
+export enum NoteVisibility {
+  PRIVATE = 'PRIVATE',
+  HIRING_TEAM = 'HIRING_TEAM',
+  EVERYONE = 'EVERYONE'
+}
+
+// Interfaces
+export interface CandidateNote {
+  id: string;
+  candidate_id: string;
+  candidate_name?: string;
+  application_id: string | null;
+  // Sanitized HTML; mentions are spans with data-type="mention"
+  body: string;
+  body_text: string;
+  visibility: NoteVisibility;
+  mentions: string[];
+  version: number;
+  pinned_at: Date | null;
+  pinned_by: string | null;
+  edited_at: Date | null;
+  author_id: string;
+  author_name: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CandidateNoteRevision {
+  id: string;
+  note_id: string;
+  version: number;
+  body: string;
+  visibility: NoteVisibility;
+  edited_by: string;
+  editor_name: string | null;
+  created_at: Date;
+}
+
+export interface NoteInput {
+  candidate_id: string;
+  application_id?: string | null;
+  body: string;
+  visibility: NoteVisibility;
+}
+
+export interface NoteUpdate {
+  body?: string;
+  visibility?: NoteVisibility;
+}
+
+export interface NoteListParams {
+  candidate_id?: string;
+  application_id?: string;
+  // Full text search over the notes
+  q?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Zod Schemas
+export const candidateNoteSchema = z.object({
+  id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  candidate_name: z.string().optional(),
+  application_id: z.string().uuid().nullable(),
+  body: z.string(),
+  body_text: z.string(),
+  visibility: z.nativeEnum(NoteVisibility),
+  mentions: z.array(z.string().uuid()),
+  version: z.number().int().positive(),
+  pinned_at: z.coerce.date().nullable(),
+  pinned_by: z.string().uuid().nullable(),
+  edited_at: z.coerce.date().nullable(),
+  author_id: z.string().uuid(),
+  author_name: z.string().nullable().default(null),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const candidateNoteRevisionSchema = z.object({
+  id: z.string().uuid(),
+  note_id: z.string().uuid(),
+  version: z.number().int().positive(),
+  body: z.string(),
+  visibility: z.nativeEnum(NoteVisibility),
+  edited_by: z.string().uuid(),
+  editor_name: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export const notePageSchema = z.object({
+  data: z.array(candidateNoteSchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int(),
+  limit: z.number().int().positive(),
+  total_pages: z.number().int().nonnegative()
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod'; // v3.22.0
+import { BaseEntity } from '../types/common';
+
+// Enums
+export enum OfferStatus {
+  DRAFT = 'DRAFT',
+  SENT = 'SENT',
+  ACCEPTED = 'ACCEPTED',
+  DECLINED = 'DECLINED',
+  EXPIRED = 'EXPIRED'
+}
+
+// Constants
+export const OPEN_OFFER_STATUSES: OfferStatus[] = [OfferStatus.DRAFT, OfferStatus.SENT];
+
+// Interfaces
+export interface OfferCompensation {
+  base_salary: number;
+  bonus: number | null;
+  equity: string | null;
+  currency: string;
+}
+
+export interface OfferVersion extends OfferCompensation {
+  id: string;
+  offer_id: string;
+  version: number;
+  start_date: string;
+  expires_at: Date;
+  change_reason: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface Offer extends BaseEntity, OfferCompensation {
+  application_id: string;
+  candidate_id: string;
+  job_id: string;
+  job_title?: string;
+  status: OfferStatus;
+  version: number;
+  start_date: string;
+  expires_at: Date;
+  notes: string | null;
+  sent_at: Date | null;
+  responded_at: Date | null;
+  response_reason: string | null;
+  created_by: string | null;
+  versions?: OfferVersion[];
+}
+
+// Types
+export type OfferTermsData = {
+  base_salary: number;
+  bonus?: number | null;
+  equity?: string | null;
+  currency?: string;
+  start_date: string;
+  expires_at: string;
+};
+
+export type OfferCreateData = OfferTermsData & {
+  application_id: string;
+  notes?: string;
+};
+
+export type OfferReviseData = Partial<OfferTermsData> & {
+  notes?: string | null;
+  change_reason: string;
+};
+
+export type OfferListParams = {
+  application_id?: string;
+  candidate_id?: string;
+};
+
+// Zod Validation Schemas
+// pg returns numeric columns as strings, so amounts are coerced
+const amountSchema = z.coerce.number().nonnegative();
+
+export const offerVersionSchema = z.object({
+  id: z.string().uuid(),
+  offer_id: z.string().uuid(),
+  version: z.number().int().positive(),
+  base_salary: amountSchema,
+  bonus: amountSchema.nullable(),
+  equity: z.string().nullable(),
+  currency: z.string().length(3),
+  start_date: z.string(),
+  expires_at: z.coerce.date(),
+  change_reason: z.string().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date()
+});
+
+export const offerSchema = z.object({
+  id: z.string().uuid(),
+  application_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  job_title: z.string().optional(),
+  status: z.nativeEnum(OfferStatus),
+  version: z.number().int().positive(),
+  base_salary: amountSchema,
+  bonus: amountSchema.nullable(),
+  equity: z.string().nullable(),
+  currency: z.string().length(3),
+  start_date: z.string(),
+  expires_at: z.coerce.date(),
+  notes: z.string().nullable(),
+  sent_at: z.coerce.date().nullable(),
+  responded_at: z.coerce.date().nullable(),
+  response_reason: z.string().nullable(),
+  created_by: z.string().uuid().nullable(),
+  versions: z.array(offerVersionSchema).optional(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+const offerTermsSchema = z.object({
+  base_salary: z.number().min(0),
+  bonus: z.number().min(0).nullable().optional(),
+  equity: z.string().max(500).nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/).optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  expires_at: z.string().datetime()
+});
+
+export const offerCreateSchema = offerTermsSchema.extend({
+  application_id: z.string().uuid(),
+  notes: z.string().max(5000).optional()
+});
+
+export const offerReviseSchema = offerTermsSchema.partial().extend({
+  notes: z.string().max(5000).nullable().optional(),
+  change_reason: z.string().min(1).max(1000)
+});
@@ -0,0 +1,172 @@
+import { z } from 'zod'; // v3.22.0
+import { BaseEntity } from '../types/common';
+import { ApplicationStatus } from '../types/candidates';
+import { UserRole } from '../types/auth';
+
+// Enums
+export enum StageCategory {
+  SCREENING = 'screening',
+  INTERVIEWING = 'interviewing',
+  OFFER = 'offer',
+  HIRED = 'hired',
+  REJECTED = 'rejected'
+}
+
+export enum TransitionRequirement {
+  REASON = 'reason',
+  FEEDBACK = 'feedback',
+  INTERVIEW_FEEDBACK = 'interview_feedback'
+}
+
+// Constants
+export const COLLECTIBLE_REQUIREMENTS: TransitionRequirement[] = [
+  TransitionRequirement.REASON,
+  TransitionRequirement.FEEDBACK
+];
+
+export const CATEGORY_APPLICATION_STATUS: Record<StageCategory, ApplicationStatus> = {
+  [StageCategory.SCREENING]: ApplicationStatus.SCREENING,
+  [StageCategory.INTERVIEWING]: ApplicationStatus.INTERVIEWING,
+  [StageCategory.OFFER]: ApplicationStatus.OFFER_PENDING,
+  [StageCategory.HIRED]: ApplicationStatus.OFFER_ACCEPTED,
+  [StageCategory.REJECTED]: ApplicationStatus.REJECTED
+};
+
+// Interfaces
+export interface PipelineStage extends BaseEntity {
+  template_id: string;
+  name: string;
+  position: number;
+  category: StageCategory;
+  application_status: ApplicationStatus | null;
+  // Label candidates see in the portal instead of the stage name
+  candidate_label?: string | null;
+}
+
+export interface PipelineTransitionRule {
+  id?: string;
+  template_id: string;
+  from_stage_id: string | null;
+  to_stage_id: string;
+  is_allowed: boolean;
+  allowed_roles: UserRole[];
+  required_fields: TransitionRequirement[];
+}
+
+export interface PipelineTemplate extends BaseEntity {
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  created_by: string | null;
+  archived_at: Date | null;
+  stages: PipelineStage[];
+  transition_rules?: PipelineTransitionRule[];
+}
+
+// Types
+export type PipelineStageInput = {
+  id?: string;
+  name: string;
+  category: StageCategory;
+  application_status?: ApplicationStatus | null;
+  candidate_label?: string | null;
+};
+
+export type PipelineTemplateCreateData = {
+  name: string;
+  description?: string;
+  is_default?: boolean;
+  stages: PipelineStageInput[];
+};
+
+export type PipelineTransitionRuleInput = Omit<PipelineTransitionRule, 'id' | 'template_id'>;
+
+export type PipelineTemplateUpdateData = Partial<Omit<PipelineTemplateCreateData, 'description'>> & {
+  description?: string | null;
+  archived?: boolean;
+  transition_rules?: PipelineTransitionRuleInput[];
+};
+
+// Requirements reported by the server when a stage move is blocked
+export type TransitionRequirementDetails = {
+  fromStageId: string | null;
+  toStageId: string;
+  missingFields: TransitionRequirement[];
+  unmetConditions: TransitionRequirement[];
+};
+
+/**
+ * Resolves the application status an application takes in a given stage
+ */
+export function resolveStageStatus(
+  stage: Pick<PipelineStage, 'category' | 'application_status'>
+): ApplicationStatus {
+  return stage.application_status ?? CATEGORY_APPLICATION_STATUS[stage.category];
+}
+
+// Zod Validation Schemas
+export const pipelineStageSchema = z.object({
+  id: z.string().uuid(),
+  template_id: z.string().uuid(),
+  name: z.string(),
+  position: z.number().int().nonnegative(),
+  category: z.nativeEnum(StageCategory),
+  application_status: z.nativeEnum(ApplicationStatus).nullable(),
+  candidate_label: z.string().nullable().optional(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const pipelineTransitionRuleSchema = z.object({
+  id: z.string().uuid().optional(),
+  template_id: z.string().uuid(),
+  from_stage_id: z.string().uuid().nullable(),
+  to_stage_id: z.string().uuid(),
+  is_allowed: z.boolean(),
+  allowed_roles: z.array(z.nativeEnum(UserRole)),
+  required_fields: z.array(z.nativeEnum(TransitionRequirement))
+});
+
+export const transitionRequirementDetailsSchema = z.object({
+  fromStageId: z.string().uuid().nullable(),
+  toStageId: z.string().uuid(),
+  missingFields: z.array(z.nativeEnum(TransitionRequirement)),
+  unmetConditions: z.array(z.nativeEnum(TransitionRequirement))
+});
+
+export const pipelineTemplateSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  is_default: z.boolean(),
+  created_by: z.string().uuid().nullable(),
+  archived_at: z.coerce.date().nullable(),
+  stages: z.array(pipelineStageSchema),
+  transition_rules: z.array(pipelineTransitionRuleSchema).optional(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const pipelineStageInputSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().min(1).max(100),
+  category: z.nativeEnum(StageCategory),
+  application_status: z.nativeEnum(ApplicationStatus).nullable().optional(),
+  candidate_label: z.string().trim().min(1).max(100).nullable().optional()
+});
+
+export const pipelineTemplateCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  is_default: z.boolean().optional(),
+  stages: z.array(pipelineStageInputSchema).min(1).max(30)
+});
+
+export const pipelineTemplateUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  is_default: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  stages: z.array(pipelineStageInputSchema).min(1).max(30).optional(),
+  transition_rules: z.array(pipelineTransitionRuleSchema.omit({ id: true, template_id: true })).optional()
+});
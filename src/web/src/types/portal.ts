@@ -0,0 +1,242 @@
+import { z } from 'zod'; // v3.22.0
+import { ApplicationStatus } from '../types/candidates';
+import { StageCategory } from '../types/pipelines';
+import { PublicScreeningQuestion, ScreeningAnswer, publicScreeningQuestionSchema } from '../types/screening';
+
+// Enums
+export enum PortalTaskType {
+  SCREENING_QUESTIONS = 'SCREENING_QUESTIONS',
+  TAKE_HOME = 'TAKE_HOME'
+}
+
+// Constants
+// Interview statuses in which the candidate can still confirm or ask to reschedule
+export const RESPONDABLE_INTERVIEW_STATUSES = ['SCHEDULED', 'CONFIRMED', 'RESCHEDULED'];
+
+export const MAX_PREFERRED_TIMES = 5;
+
+// Interfaces
+// Preferences candidates manage themselves in the portal
+export interface PortalPreferences {
+  preferred_locations: string[];
+  remote_only: boolean;
+  open_to_relocation: boolean;
+  salary_expectation_min: number;
+  salary_expectation_max: number;
+}
+
+export interface PortalProfile {
+  id: string;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  location: string;
+  skills: string[];
+  preferences: Partial<PortalPreferences>;
+  resume_url: string | null;
+  updated_at: Date;
+}
+
+export interface ResumeVersion {
+  id: string;
+  candidate_id: string;
+  version: number;
+  file_name: string;
+  resume_url: string;
+  uploaded_by: string | null;
+  created_at: Date;
+}
+
+// Application as the candidate sees it, with the stage label recruiters chose
+export interface PortalApplication {
+  id: string;
+  job_id: string;
+  job_title: string;
+  status: ApplicationStatus;
+  stage_label: string;
+  stage_category: StageCategory;
+  applied_at: Date;
+  updated_at: Date;
+}
+
+export interface PortalInterview {
+  id: string;
+  job_id: string;
+  job_title: string;
+  type: string;
+  mode: string;
+  status: string;
+  scheduled_at: Date;
+  duration_minutes: number;
+  meeting_link: string | null;
+  location: string | null;
+  candidate_confirmed: boolean;
+  candidate_confirmed_at: Date | null;
+  reschedule_requested_at: Date | null;
+  reschedule_reason: string | null;
+  // Set once a take-home assignment is handed in
+  submitted_at: Date | null;
+}
+
+export type PortalTask =
+  | {
+      type: PortalTaskType.SCREENING_QUESTIONS;
+      application_id: string;
+      job_title: string;
+      questions: PublicScreeningQuestion[];
+    }
+  | {
+      type: PortalTaskType.TAKE_HOME;
+      interview_id: string;
+      job_title: string;
+      due_at: Date;
+      assignment_url: string | null;
+    };
+
+export interface TakeHomeSubmission {
+  id: string;
+  interview_id: string;
+  candidate_id: string;
+  file_url: string | null;
+  link_url: string | null;
+  notes: string | null;
+  submitted_at: Date;
+}
+
+// Types
+export type PortalProfileUpdate = {
+  full_name?: string;
+  phone?: string | null;
+  location?: string;
+  skills?: string[];
+  preferences?: Partial<PortalPreferences>;
+};
+
+export type InterviewResponse =
+  | { action: 'confirm' }
+  | { action: 'reschedule'; reason: string; preferred_times?: Date[] };
+
+export type PortalScreeningData = {
+  answers: ScreeningAnswer[];
+  // Files answering file upload questions, keyed by question id
+  answer_files?: Record<string, File>;
+};
+
+export type TakeHomeSubmissionData = {
+  link_url?: string;
+  notes?: string;
+  file?: File;
+};
+
+// Zod Validation Schemas
+const portalPreferencesSchema = z.object({
+  preferred_locations: z.array(z.string()),
+  remote_only: z.boolean(),
+  open_to_relocation: z.boolean(),
+  salary_expectation_min: z.number().min(0),
+  salary_expectation_max: z.number().min(0)
+}).partial();
+
+export const portalProfileSchema = z.object({
+  id: z.string().uuid(),
+  full_name: z.string(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  location: z.string(),
+  skills: z.array(z.string()),
+  preferences: portalPreferencesSchema.nullable().transform(preferences => preferences ?? {}),
+  resume_url: z.string().nullable(),
+  updated_at: z.coerce.date()
+});
+
+export const portalProfileUpdateSchema = z.object({
+  full_name: z.string().trim().min(2).max(200).optional(),
+  phone: z.string().trim().max(30).nullable().optional(),
+  location: z.string().trim().min(2).max(200).optional(),
+  skills: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  preferences: portalPreferencesSchema.refine(
+    preferences => preferences.salary_expectation_min === undefined ||
+      preferences.salary_expectation_max === undefined ||
+      preferences.salary_expectation_max >= preferences.salary_expectation_min,
+    { message: 'Maximum salary must not be below the minimum', path: ['salary_expectation_max'] }
+  ).optional()
+});
+
+export const resumeVersionSchema = z.object({
+  id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  version: z.number().int().positive(),
+  file_name: z.string(),
+  resume_url: z.string(),
+  uploaded_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date()
+});
+
+export const portalApplicationSchema = z.object({
+  id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  job_title: z.string(),
+  status: z.nativeEnum(ApplicationStatus),
+  stage_label: z.string(),
+  stage_category: z.nativeEnum(StageCategory),
+  applied_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const portalInterviewSchema = z.object({
+  id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  job_title: z.string(),
+  type: z.string(),
+  mode: z.string(),
+  status: z.string(),
+  scheduled_at: z.coerce.date(),
+  duration_minutes: z.number().int(),
+  meeting_link: z.string().nullable(),
+  location: z.string().nullable(),
+  candidate_confirmed: z.boolean(),
+  candidate_confirmed_at: z.coerce.date().nullable(),
+  reschedule_requested_at: z.coerce.date().nullable(),
+  reschedule_reason: z.string().nullable(),
+  submitted_at: z.coerce.date().nullable()
+});
+
+export const portalTaskSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal(PortalTaskType.SCREENING_QUESTIONS),
+    application_id: z.string().uuid(),
+    job_title: z.string(),
+    questions: z.array(publicScreeningQuestionSchema)
+  }),
+  z.object({
+    type: z.literal(PortalTaskType.TAKE_HOME),
+    interview_id: z.string().uuid(),
+    job_title: z.string(),
+    due_at: z.coerce.date(),
+    assignment_url: z.string().nullable()
+  })
+]);
+
+export const interviewResponseSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('confirm') }),
+  z.object({
+    action: z.literal('reschedule'),
+    reason: z.string().trim().min(1, 'Please tell us why the time does not work').max(1000),
+    preferred_times: z.array(z.date()).max(MAX_PREFERRED_TIMES).optional()
+  })
+]);
+
+export const takeHomeSubmissionSchema = z.object({
+  link_url: z.string().trim().url().max(2000).optional(),
+  notes: z.string().trim().max(2000).optional()
+});
+
+export const takeHomeSubmissionResultSchema = z.object({
+  id: z.string().uuid(),
+  interview_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  file_url: z.string().nullable(),
+  link_url: z.string().nullable(),
+  notes: z.string().nullable(),
+  submitted_at: z.coerce.date()
+});
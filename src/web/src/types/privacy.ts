@@ -0,0 +1,297 @@
+import { z } from 'zod'; // v3.22.0
+
+// Interfaces
+export enum DataSubjectRequestType {
+  ACCESS = 'ACCESS',
+  ERASURE = 'ERASURE'
+}
+
+// Law the request is made under; it sets the response deadline
+export enum PrivacyRegulation {
+  GDPR = 'GDPR',
+  CCPA = 'CCPA'
+}
+
+export enum DataSubjectRequestStatus {
+  OPEN = 'OPEN',
+  COMPLETED = 'COMPLETED',
+  REJECTED = 'REJECTED'
+}
+
+// What was exported or erased, without personal data
+export interface DataSubjectRequestEvidence {
+  candidate_ids: string[];
+  records: Record<string, number>;
+  exported_at?: string;
+  files?: number;
+  erased_at?: string;
+  files_to_purge?: number;
+}
+
+// Request from a person to access or erase the data held on them
+export interface DataSubjectRequest {
+  id: string;
+  type: DataSubjectRequestType;
+  regulation: PrivacyRegulation;
+  status: DataSubjectRequestStatus;
+  candidate_id: string | null;
+  // Cleared once the candidate is erased
+  subject_email: string | null;
+  received_at: Date;
+  due_at: Date;
+  notes: string | null;
+  rejection_reason: string | null;
+  evidence: DataSubjectRequestEvidence | null;
+  completed_at: Date | null;
+  completed_by: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DataSubjectRequestSummary extends DataSubjectRequest {
+  candidate_name: string | null;
+  overdue: boolean;
+}
+
+export interface DataSubjectRequestInput {
+  type: DataSubjectRequestType;
+  regulation: PrivacyRegulation;
+  candidate_id?: string;
+  subject_email?: string;
+  received_at?: string;
+  notes?: string;
+}
+
+export interface DataSubjectRequestUpdate {
+  candidate_id?: string | null;
+  notes?: string | null;
+}
+
+export interface DataSubjectRequestListParams {
+  status?: DataSubjectRequestStatus;
+  type?: DataSubjectRequestType;
+  overdue?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// Zod Schemas
+export const dataSubjectRequestSchema = z.object({
+  id: z.string().uuid(),
+  type: z.nativeEnum(DataSubjectRequestType),
+  regulation: z.nativeEnum(PrivacyRegulation),
+  status: z.nativeEnum(DataSubjectRequestStatus),
+  candidate_id: z.string().uuid().nullable(),
+  subject_email: z.string().nullable(),
+  received_at: z.coerce.date(),
+  due_at: z.coerce.date(),
+  notes: z.string().nullable(),
+  rejection_reason: z.string().nullable(),
+  evidence: z.object({
+    candidate_ids: z.array(z.string().uuid()),
+    records: z.record(z.number()),
+    exported_at: z.string().optional(),
+    files: z.number().optional(),
+    erased_at: z.string().optional(),
+    files_to_purge: z.number().optional()
+  }).nullable(),
+  completed_at: z.coerce.date().nullable(),
+  completed_by: z.string().uuid().nullable(),
+  created_by: z.string().uuid(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const dataSubjectRequestSummarySchema = dataSubjectRequestSchema.extend({
+  candidate_name: z.string().nullable(),
+  overdue: z.boolean()
+});
+
+export const dataSubjectRequestInputSchema = z.object({
+  type: z.nativeEnum(DataSubjectRequestType),
+  regulation: z.nativeEnum(PrivacyRegulation),
+  candidate_id: z.string().uuid().optional(),
+  subject_email: z.string().trim().email().optional(),
+  received_at: z.string().optional(),
+  notes: z.string().trim().max(2000).optional()
+}).refine(request => request.candidate_id || request.subject_email, {
+  message: 'Give the candidate or the email the request came from',
+  path: ['subject_email']
+});
+
+// What a candidate's data is held for
+export enum ConsentPurpose {
+  RECRUITMENT = 'RECRUITMENT',
+  TALENT_POOL = 'TALENT_POOL'
+}
+
+// GDPR lawful basis; only consent can be renewed by the candidate
+export enum LawfulBasis {
+  CONSENT = 'CONSENT',
+  LEGITIMATE_INTEREST = 'LEGITIMATE_INTEREST',
+  CONTRACT = 'CONTRACT',
+  LEGAL_OBLIGATION = 'LEGAL_OBLIGATION'
+}
+
+export enum ConsentSource {
+  CAREERS_SITE = 'CAREERS_SITE',
+  RECRUITER = 'RECRUITER',
+  EMAIL = 'EMAIL',
+  IMPORT = 'IMPORT',
+  RENEWAL_LINK = 'RENEWAL_LINK'
+}
+
+export enum RetentionReason {
+  CONSENT_EXPIRED = 'CONSENT_EXPIRED',
+  RETENTION_EXPIRED = 'RETENTION_EXPIRED'
+}
+
+// Basis on which a candidate's data is held for one purpose; in force until withdrawn
+// or past its expiry
+export interface CandidateConsent {
+  id: string;
+  candidate_id: string;
+  purpose: ConsentPurpose;
+  lawful_basis: LawfulBasis;
+  source: ConsentSource;
+  consented_at: Date;
+  expires_at: Date | null;
+  withdrawn_at: Date | null;
+  renewal_requested_at: Date | null;
+  notes: string | null;
+  recorded_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CandidateConsentInput {
+  purpose: ConsentPurpose;
+  lawful_basis: LawfulBasis;
+  source: ConsentSource;
+  consented_at: string;
+  expires_at?: string;
+  notes?: string;
+}
+
+export interface CandidateConsentUpdate {
+  lawful_basis?: LawfulBasis;
+  expires_at?: string | null;
+  notes?: string | null;
+}
+
+// Hold keeping a candidate from being erased; in force until released
+export interface CandidateLegalHold {
+  id: string;
+  candidate_id: string;
+  reason: string;
+  placed_by: string;
+  released_at: Date | null;
+  released_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// What a retention run did, or in a dry run would have done
+export interface RetentionReport {
+  dry_run: boolean;
+  evaluated_at: string;
+  renewal_requests: Array<{ consent_id: string; candidate_id: string; expires_at: string; sent: boolean }>;
+  anonymized: Array<{ candidate_id: string; reason: RetentionReason }>;
+  resumes_deleted: Array<{ candidate_id: string; key: string; expired_at: string }>;
+  held: string[];
+  failed: Array<{ candidate_id: string | null; step: 'renewal' | 'anonymize' | 'purge' | 'resume'; error: string }>;
+}
+
+export interface RetentionRun {
+  id: string;
+  dry_run: boolean;
+  started_at: Date;
+  completed_at: Date;
+  report: RetentionReport;
+  // Null for scheduled runs
+  triggered_by: string | null;
+}
+
+// What a candidate renewed through their renewal link
+export interface ConsentRenewal {
+  purpose: ConsentPurpose;
+  expires_at: Date | null;
+}
+
+export const candidateConsentSchema = z.object({
+  id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  purpose: z.nativeEnum(ConsentPurpose),
+  lawful_basis: z.nativeEnum(LawfulBasis),
+  source: z.nativeEnum(ConsentSource),
+  consented_at: z.coerce.date(),
+  expires_at: z.coerce.date().nullable(),
+  withdrawn_at: z.coerce.date().nullable(),
+  renewal_requested_at: z.coerce.date().nullable(),
+  notes: z.string().nullable(),
+  recorded_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const candidateConsentInputSchema = z.object({
+  purpose: z.nativeEnum(ConsentPurpose),
+  lawful_basis: z.nativeEnum(LawfulBasis),
+  source: z.nativeEnum(ConsentSource),
+  consented_at: z.string().min(1),
+  expires_at: z.string().optional(),
+  notes: z.string().trim().max(2000).optional()
+}).refine(consent => !consent.expires_at || new Date(consent.expires_at) > new Date(consent.consented_at), {
+  message: 'Expiry must be after the consent date',
+  path: ['expires_at']
+});
+
+export const candidateLegalHoldSchema = z.object({
+  id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  reason: z.string(),
+  placed_by: z.string().uuid(),
+  released_at: z.coerce.date().nullable(),
+  released_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const retentionRunSchema = z.object({
+  id: z.string().uuid(),
+  dry_run: z.boolean(),
+  started_at: z.coerce.date(),
+  completed_at: z.coerce.date(),
+  report: z.object({
+    dry_run: z.boolean(),
+    evaluated_at: z.string(),
+    renewal_requests: z.array(z.object({
+      consent_id: z.string().uuid(),
+      candidate_id: z.string().uuid(),
+      expires_at: z.string(),
+      sent: z.boolean()
+    })),
+    anonymized: z.array(z.object({
+      candidate_id: z.string().uuid(),
+      reason: z.nativeEnum(RetentionReason)
+    })),
+    resumes_deleted: z.array(z.object({
+      candidate_id: z.string().uuid(),
+      key: z.string(),
+      expired_at: z.string()
+    })),
+    held: z.array(z.string().uuid()),
+    failed: z.array(z.object({
+      candidate_id: z.string().uuid().nullable(),
+      step: z.enum(['renewal', 'anonymize', 'purge', 'resume']),
+      error: z.string()
+    }))
+  }),
+  triggered_by: z.string().uuid().nullable()
+});
+
+export const consentRenewalSchema = z.object({
+  purpose: z.nativeEnum(ConsentPurpose),
+  expires_at: z.coerce.date().nullable()
+});
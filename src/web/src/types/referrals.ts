@@ -0,0 +1,145 @@
+import { z } from 'zod'; // v3.22.0
+
+// Enums
+export enum ReferralOrigin {
+  SUBMISSION = 'SUBMISSION',
+  LINK = 'LINK'
+}
+
+// Coarse progress shown to referrers; pipeline details stay private
+export enum ReferralProgress {
+  SUBMITTED = 'SUBMITTED',
+  IN_REVIEW = 'IN_REVIEW',
+  INTERVIEWING = 'INTERVIEWING',
+  FINAL_STAGE = 'FINAL_STAGE',
+  HIRED = 'HIRED',
+  CLOSED = 'CLOSED'
+}
+
+// Interfaces
+export interface Referral {
+  id: string;
+  referrer_id: string;
+  job_id: string;
+  candidate_id: string;
+  application_id: string;
+  origin: ReferralOrigin;
+  referral_link_id: string | null;
+  relationship: string | null;
+  note: string | null;
+  hired_at: Date | null;
+  referrer_notified_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Referral as listed to its referrer; link referrals show initials only
+export interface ReferralSummary {
+  id: string;
+  job_id: string;
+  job_title: string;
+  candidate_name: string;
+  origin: ReferralOrigin;
+  progress: ReferralProgress;
+  created_at: Date;
+  hired_at: Date | null;
+}
+
+export interface ReferralLink {
+  id: string;
+  referrer_id: string;
+  job_id: string;
+  token: string;
+  url: string;
+  created_at: Date;
+}
+
+export interface ReferralBonusEntry {
+  referral_id: string;
+  referrer_id: string;
+  referrer_name: string;
+  referrer_email: string;
+  candidate_name: string;
+  job_title: string;
+  hired_at: Date;
+  eligible_on: Date;
+  still_hired: boolean;
+  eligible: boolean;
+}
+
+// Types
+export type ReferralSubmitData = {
+  job_id: string;
+  full_name: string;
+  email: string;
+  phone?: string;
+  location: string;
+  relationship?: string;
+  note?: string;
+};
+
+export type ReferralBonusReportParams = {
+  hired_from?: Date;
+  hired_to?: Date;
+  eligible_only?: boolean;
+};
+
+// Zod Validation Schemas
+export const referralSubmitSchema = z.object({
+  job_id: z.string().uuid(),
+  full_name: z.string().trim().min(2).max(200),
+  email: z.string().email(),
+  phone: z.string().max(30).optional(),
+  location: z.string().trim().min(2).max(200),
+  relationship: z.string().trim().max(200).optional(),
+  note: z.string().trim().max(2000).optional()
+});
+
+export const referralSchema = z.object({
+  id: z.string().uuid(),
+  referrer_id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  application_id: z.string().uuid(),
+  origin: z.nativeEnum(ReferralOrigin),
+  referral_link_id: z.string().uuid().nullable(),
+  relationship: z.string().nullable(),
+  note: z.string().nullable(),
+  hired_at: z.coerce.date().nullable(),
+  referrer_notified_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const referralSummarySchema = z.object({
+  id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  job_title: z.string(),
+  candidate_name: z.string(),
+  origin: z.nativeEnum(ReferralOrigin),
+  progress: z.nativeEnum(ReferralProgress),
+  created_at: z.coerce.date(),
+  hired_at: z.coerce.date().nullable()
+});
+
+export const referralLinkSchema = z.object({
+  id: z.string().uuid(),
+  referrer_id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  token: z.string(),
+  url: z.string(),
+  created_at: z.coerce.date()
+});
+
+export const referralBonusEntrySchema = z.object({
+  referral_id: z.string().uuid(),
+  referrer_id: z.string().uuid(),
+  referrer_name: z.string(),
+  referrer_email: z.string(),
+  candidate_name: z.string(),
+  job_title: z.string(),
+  hired_at: z.coerce.date(),
+  eligible_on: z.coerce.date(),
+  still_hired: z.boolean(),
+  eligible: z.boolean()
+});
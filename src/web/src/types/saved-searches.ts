@@ -0,0 +1,144 @@
+import { z } from 'zod'; // v3.22.0
+import { CandidateExportFilters } from './exports';
+import { ExperienceLevel, JobStatus, JobType } from './jobs';
+
+// Enums
+export enum SavedSearchEntity {
+  CANDIDATE = 'CANDIDATE',
+  JOB = 'JOB'
+}
+
+export enum DigestFrequency {
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY'
+}
+
+export enum DigestChannel {
+  IN_APP = 'IN_APP',
+  EMAIL = 'EMAIL'
+}
+
+export enum NotificationType {
+  SAVED_SEARCH_DIGEST = 'SAVED_SEARCH_DIGEST'
+}
+
+// Interfaces
+// Filters of the candidate search as the API takes them; exports read the same filters
+export type CandidateSearchFilters = CandidateExportFilters;
+
+// Filters of the job search as the API takes them
+export interface JobSearchFilters {
+  query?: string;
+  status?: JobStatus[];
+  type?: JobType[];
+  skills?: string[];
+  experience_level?: ExperienceLevel[];
+  location?: string;
+  remote_only?: boolean;
+  salary_min?: number;
+  salary_max?: number;
+}
+
+export interface SavedSearchSubscription {
+  frequency: DigestFrequency;
+  channel: DigestChannel;
+  last_digest_at: Date | null;
+}
+
+// Named search over candidates or jobs, private to its owner until shared. The
+// subscription is the current user's, if they follow the search.
+export interface SavedSearch {
+  id: string;
+  name: string;
+  entity_type: SavedSearchEntity;
+  filters: CandidateSearchFilters | JobSearchFilters;
+  is_shared: boolean;
+  owner_id: string;
+  owner_name: string | null;
+  subscription: SavedSearchSubscription | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  entity_type: SavedSearchEntity;
+  filters: CandidateSearchFilters | JobSearchFilters;
+  is_shared?: boolean;
+}
+
+export interface SavedSearchUpdate {
+  name?: string;
+  is_shared?: boolean;
+  filters?: CandidateSearchFilters | JobSearchFilters;
+}
+
+export interface SavedSearchSubscribeInput {
+  frequency: DigestFrequency;
+  channel: DigestChannel;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export interface NotificationList {
+  notifications: Notification[];
+  unread_count: number;
+}
+
+// Zod Schemas
+export const savedSearchSubscriptionSchema = z.object({
+  frequency: z.nativeEnum(DigestFrequency),
+  channel: z.nativeEnum(DigestChannel),
+  last_digest_at: z.coerce.date().nullable()
+});
+
+export const savedSearchSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  entity_type: z.nativeEnum(SavedSearchEntity),
+  filters: z.record(z.unknown()),
+  is_shared: z.boolean(),
+  owner_id: z.string().uuid(),
+  owner_name: z.string().nullable().default(null),
+  subscription: savedSearchSubscriptionSchema.nullable().default(null),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const savedSearchInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name the search').max(100),
+  entity_type: z.nativeEnum(SavedSearchEntity),
+  filters: z.record(z.unknown()),
+  is_shared: z.boolean().optional()
+});
+
+export const savedSearchSubscribeInputSchema = z.object({
+  frequency: z.nativeEnum(DigestFrequency),
+  channel: z.nativeEnum(DigestChannel)
+});
+
+export const notificationSchema = z.object({
+  id: z.string().uuid(),
+  type: z.nativeEnum(NotificationType),
+  title: z.string(),
+  body: z.string().nullable(),
+  link: z.string().nullable(),
+  data: z.record(z.unknown()),
+  read_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export const notificationListSchema = z.object({
+  notifications: z.array(notificationSchema),
+  unread_count: z.number().int().min(0)
+});
@@ -0,0 +1,153 @@
+import { z } from 'zod'; // v3.22.0
+
+// Enums
+// Kind of answer a screening question asks for
+export enum ScreeningQuestionType {
+  TEXT = 'TEXT',
+  YES_NO = 'YES_NO',
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
+  NUMERIC = 'NUMERIC',
+  FILE = 'FILE'
+}
+
+// Question types whose answers can be checked against an expected answer
+export const KNOCKOUT_QUESTION_TYPES: ScreeningQuestionType[] = [
+  ScreeningQuestionType.YES_NO,
+  ScreeningQuestionType.MULTIPLE_CHOICE,
+  ScreeningQuestionType.NUMERIC
+];
+
+// Interfaces
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Required yes/no answer, accepted options, or accepted range of a knockout question
+export type ExpectedAnswer = boolean | string[] | NumericRange;
+
+// File questions are answered with the uploaded file's URL
+export type ScreeningAnswerValue = string | number | boolean;
+
+export interface ScreeningQuestion {
+  id: string;
+  job_id: string;
+  position: number;
+  type: ScreeningQuestionType;
+  prompt: string;
+  options: string[];
+  required: boolean;
+  is_knockout: boolean;
+  expected_answer: ExpectedAnswer | null;
+  archived_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Question as shown to applicants on the careers site
+export type PublicScreeningQuestion = Pick<ScreeningQuestion, 'id' | 'type' | 'prompt' | 'options' | 'required'>;
+
+export interface JobScreeningSettings {
+  knockout_auto_reject: boolean;
+  // Hours after an automatic rejection that the applicant is emailed; null sends no email
+  knockout_email_delay_hours: number | null;
+}
+
+export interface JobScreening {
+  job_id: string;
+  questions: ScreeningQuestion[];
+  settings: JobScreeningSettings;
+}
+
+// Answer shown with an application in pipeline views
+export interface ScreeningAnswerSummary {
+  question_id: string;
+  prompt: string;
+  type: ScreeningQuestionType;
+  value: ScreeningAnswerValue;
+  is_knockout: boolean;
+  knockout_passed: boolean | null;
+}
+
+export interface ScreeningAnswer {
+  question_id: string;
+  value: ScreeningAnswerValue;
+}
+
+// Question as edited in the job form; new questions have no id yet
+export type ScreeningQuestionInput = Pick<
+  ScreeningQuestion,
+  'type' | 'prompt' | 'options' | 'required' | 'is_knockout' | 'expected_answer'
+> & { id?: string };
+
+export interface JobScreeningUpdateData {
+  questions: ScreeningQuestionInput[];
+  settings: JobScreeningSettings;
+}
+
+// Zod Schemas
+const numericRangeSchema = z.object({
+  min: z.number().nullable(),
+  max: z.number().nullable()
+});
+
+const expectedAnswerSchema = z.union([z.boolean(), z.array(z.string()), numericRangeSchema]);
+
+export const screeningQuestionSchema = z.object({
+  id: z.string().uuid(),
+  job_id: z.string().uuid(),
+  position: z.number().int(),
+  type: z.nativeEnum(ScreeningQuestionType),
+  prompt: z.string(),
+  options: z.array(z.string()),
+  required: z.boolean(),
+  is_knockout: z.boolean(),
+  expected_answer: expectedAnswerSchema.nullable(),
+  archived_at: z.coerce.date().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const publicScreeningQuestionSchema = z.object({
+  id: z.string().uuid(),
+  type: z.nativeEnum(ScreeningQuestionType),
+  prompt: z.string(),
+  options: z.array(z.string()),
+  required: z.boolean()
+});
+
+export const jobScreeningSchema = z.object({
+  job_id: z.string().uuid(),
+  questions: z.array(screeningQuestionSchema),
+  settings: z.object({
+    knockout_auto_reject: z.boolean(),
+    knockout_email_delay_hours: z.number().int().nullable()
+  })
+});
+
+export const screeningAnswerSummarySchema = z.object({
+  question_id: z.string().uuid(),
+  prompt: z.string(),
+  type: z.nativeEnum(ScreeningQuestionType),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  is_knockout: z.boolean(),
+  knockout_passed: z.boolean().nullable()
+});
+
+export const jobScreeningUpdateSchema = z.object({
+  questions: z.array(z.object({
+    id: z.string().uuid().optional(),
+    type: z.nativeEnum(ScreeningQuestionType),
+    prompt: z.string().trim().min(1, 'Question is required').max(500),
+    options: z.array(z.string().trim().min(1, 'Options cannot be empty').max(200)).max(20),
+    required: z.boolean(),
+    is_knockout: z.boolean(),
+    expected_answer: expectedAnswerSchema.nullable()
+  })).max(25),
+  settings: z.object({
+    knockout_auto_reject: z.boolean(),
+    knockout_email_delay_hours: z.number().int().min(0).max(720).nullable()
+  })
+});
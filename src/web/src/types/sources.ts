@@ -0,0 +1,44 @@
+import { z } from 'zod'; // v3.22.0
+
+// Enum for the channel through which a candidate reached us
+export enum SourceChannel {
+  JOB_BOARD = 'JOB_BOARD',
+  REFERRAL = 'REFERRAL',
+  AGENCY = 'AGENCY',
+  SOURCED = 'SOURCED',
+  CAREER_SITE = 'CAREER_SITE'
+}
+
+// Enum for the touchpoint an application is credited to in source reports
+export enum AttributionModel {
+  FIRST_TOUCH = 'FIRST_TOUCH',
+  LAST_TOUCH = 'LAST_TOUCH'
+}
+
+// Interface for campaign parameters carried on inbound links
+export interface UtmParams {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+}
+
+// Interface for the source of a candidate or application
+export interface SourceInput extends UtmParams {
+  channel: SourceChannel;
+  sub_source?: string;
+  referrer_url?: string;
+}
+
+// Zod schema for SourceInput validation
+export const sourceInputSchema = z.object({
+  channel: z.nativeEnum(SourceChannel),
+  sub_source: z.string().trim().min(1).max(200).optional(),
+  utm_source: z.string().max(200).optional(),
+  utm_medium: z.string().max(200).optional(),
+  utm_campaign: z.string().max(200).optional(),
+  utm_term: z.string().max(200).optional(),
+  utm_content: z.string().max(200).optional(),
+  referrer_url: z.string().url().max(2000).optional()
+});
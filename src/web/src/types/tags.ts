@@ -0,0 +1,78 @@
+import { z } from 'zod'; // v3.22.0
+
+// Interfaces
+// Label put on candidates. Curated tags are the set maintained by admins; other tags
+// are added free-form while tagging.
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  category: string | null;
+  is_curated: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TagWithUsage extends Tag {
+  candidate_count: number;
+}
+
+export interface TagInput {
+  name: string;
+  color?: string;
+  category?: string | null;
+  is_curated?: boolean;
+}
+
+export type TagUpdate = Partial<TagInput>;
+
+export interface TagListParams {
+  q?: string;
+  category?: string;
+  curated?: boolean;
+}
+
+export interface BulkTagRequest {
+  candidate_ids: string[];
+  add_tag_ids?: string[];
+  // Names of tags to add, creating free-form tags that do not exist yet
+  add_tag_names?: string[];
+  remove_tag_ids?: string[];
+}
+
+export interface BulkTagResult {
+  added: number;
+  removed: number;
+  // Tags resolved from add_tag_names
+  tags: Tag[];
+}
+
+// Zod Schemas
+export const tagSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  color: z.string(),
+  category: z.string().nullable(),
+  is_curated: z.boolean(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const tagWithUsageSchema = tagSchema.extend({
+  candidate_count: z.number().int().nonnegative()
+});
+
+export const tagInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex code like #1d4ed8').optional(),
+  category: z.string().trim().max(50).nullable().optional(),
+  is_curated: z.boolean().optional()
+});
+
+export const bulkTagResultSchema = z.object({
+  added: z.number().int().nonnegative(),
+  removed: z.number().int().nonnegative(),
+  tags: z.array(tagSchema)
+});
@@ -0,0 +1,55 @@
+import { z } from 'zod'; // v3.22.0
+
+// Enums
+// Kinds of activity shown in a candidate's timeline
+export enum TimelineEventType {
+  APPLICATION = 'APPLICATION',
+  STAGE_CHANGE = 'STAGE_CHANGE',
+  INTERVIEW = 'INTERVIEW',
+  FEEDBACK = 'FEEDBACK',
+  EMAIL = 'EMAIL',
+  HOTLIST = 'HOTLIST',
+  RESUME = 'RESUME',
+  PROFILE = 'PROFILE',
+  NOTE = 'NOTE'
+}
+
+// Interfaces
+export interface TimelineEvent {
+  // Unique per type only
+  id: string;
+  type: TimelineEventType;
+  occurred_at: Date;
+  actor_id: string | null;
+  actor_name: string | null;
+  application_id: string | null;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+export interface TimelineParams {
+  // Kinds of activity to show; all of them when empty
+  types: TimelineEventType[];
+  page?: number;
+  limit?: number;
+}
+
+// Zod Schemas
+export const timelineEventSchema = z.object({
+  id: z.string(),
+  type: z.nativeEnum(TimelineEventType),
+  occurred_at: z.coerce.date(),
+  actor_id: z.string().uuid().nullable(),
+  actor_name: z.string().nullable(),
+  application_id: z.string().uuid().nullable(),
+  summary: z.string(),
+  details: z.record(z.unknown())
+});
+
+export const timelinePageSchema = z.object({
+  data: z.array(timelineEventSchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int(),
+  limit: z.number().int().positive(),
+  total_pages: z.number().int().nonnegative()
+});